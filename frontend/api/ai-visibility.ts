@@ -0,0 +1,119 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import Anthropic from '@anthropic-ai/sdk';
+import { authorizeWorkspace } from '../shared/credentials.js';
+import { recordChannelSnapshot } from '../shared/alertDelivery.js';
+import { getAnswerEngine } from '../shared/answerEngine.js';
+import {
+  buildAnswerEnginePrompts,
+  calculateAIShareOfVoice,
+  runAnswerEnginePrompts,
+  validatePromptCategories
+} from '../shared/aiVisibility.js';
+import { normalizeBrandTerm } from '../shared/brandVariants.js';
+import type { AIVisibilityResponse } from '../shared/types.js';
+
+/**
+ * AI Visibility API
+ * Asks an AI assistant the project's category prompts and measures how often and how
+ * early each brand is recommended in the answers.
+ *
+ * POST { brandName, competitors, categories: [{ category, topKeywords }], domain?, locationCode? }
+ *
+ * Metrics:
+ * - AI SOV by rank: own mentions weighted 1 / rank, over all weighted brand mentions
+ * - AI SOV by mentions: answers naming the own brand, over all brand mentions
+ *
+ * The prompts are built here from the top category keywords and the fixed templates
+ * (buildAnswerEnginePrompts) - the client never sends prompt text. The panel previews
+ * the same prompts and can leave keywords out; every prompt is one paid request.
+ */
+
+const MAX_COMPETITORS = 10;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+  const { workspaceId } = workspace;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { brandName, competitors = [], categories, domain, locationCode = 2840 } = req.body || {};
+
+  if (!brandName || typeof brandName !== 'string') {
+    return res.status(400).json({ error: 'brandName is required' });
+  }
+
+  const validCategories = validatePromptCategories(categories);
+  if (!validCategories.success) {
+    return res.status(400).json({ error: validCategories.error });
+  }
+
+  // Competitors spelled like the own brand or each other would split one brand's mentions
+  const seen = new Set([normalizeBrandTerm(brandName)]);
+  const validCompetitors: string[] = [];
+  for (const competitor of Array.isArray(competitors) ? competitors : []) {
+    if (typeof competitor !== 'string' || !competitor.trim()) continue;
+    const key = normalizeBrandTerm(competitor);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    validCompetitors.push(competitor.trim());
+  }
+  validCompetitors.splice(MAX_COMPETITORS);
+
+  const brands = [brandName.trim(), ...validCompetitors];
+  const prompts = buildAnswerEnginePrompts(validCategories.data!, brands);
+  if (prompts.length === 0) {
+    return res.status(400).json({ error: 'No unbranded category keywords to build prompts from' });
+  }
+
+  const engine = await getAnswerEngine(workspaceId);
+  if (!engine) {
+    return res.status(500).json({ error: 'Anthropic API key not configured' });
+  }
+
+  try {
+    const { results, failed } = await runAnswerEnginePrompts(engine, prompts, brands);
+    const { brands: visibility, sov } = calculateAIShareOfVoice(results, brands[0], validCompetitors);
+
+    const response: AIVisibilityResponse = {
+      provider: engine.id,
+      model: engine.model,
+      results,
+      failedPrompts: failed,
+      brands: visibility,
+      sov,
+      timestamp: new Date().toISOString()
+    };
+
+    await recordChannelSnapshot(workspaceId, domain, Number(locationCode) || 2840, 'ai', sov.byRank, sov);
+
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('AI visibility error:', error);
+
+    if (error instanceof Anthropic.APIError) {
+      if (error.status === 401) {
+        return res.status(500).json({ error: 'Invalid API key' });
+      }
+      if (error.status === 429) {
+        return res.status(429).json({ error: 'Rate limited. Please try again in a moment.' });
+      }
+      return res.status(500).json({ error: `Anthropic API error: ${error.message}` });
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  }
+}
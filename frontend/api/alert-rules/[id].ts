@@ -0,0 +1,86 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizeWorkspace } from '../../shared/credentials.js';
+import { validateAlertRule } from '../../shared/alerts.js';
+import { toAlertRule } from '../../shared/alertDelivery.js';
+
+/**
+ * One alert rule
+ * PUT { rule } -> replace the rule's settings
+ * DELETE       -> remove the rule and its alerts
+ */
+
+async function getPrismaClient() {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    return new PrismaClient();
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Rule ID is required' });
+  }
+
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      message: 'Alert rules require DATABASE_URL environment variable.'
+    });
+  }
+
+  try {
+    const existing = await prisma.alertRule.findFirst({
+      where: { id, project: { workspaceId: workspace.workspaceId } }
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    if (req.method === 'DELETE') {
+      await prisma.alertRule.delete({ where: { id } });
+      return res.status(204).end();
+    }
+
+    const ruleResult = validateAlertRule(req.body?.rule);
+    if (!ruleResult.success) {
+      return res.status(400).json({ error: ruleResult.error });
+    }
+
+    const row = await prisma.alertRule.update({
+      where: { id },
+      data: ruleResult.data!
+    });
+
+    return res.status(200).json(toAlertRule(row));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,100 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizeWorkspace } from '../../shared/credentials.js';
+import { validateAlertRule } from '../../shared/alerts.js';
+import { toAlertRule } from '../../shared/alertDelivery.js';
+
+/**
+ * Alert rules for a tracked project
+ * GET  ?domain=&locationCode=          -> the project's rules
+ * POST { domain, locationCode, rule }  -> add a rule
+ * Rules belong to the project created by snapshot tracking, so a domain has to be tracked first.
+ */
+
+async function getPrismaClient() {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    return new PrismaClient();
+  } catch {
+    return null;
+  }
+}
+
+function cleanDomain(domain: string): string {
+  return domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/.*$/, '').trim();
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const params = req.method === 'GET' ? req.query : (req.body || {});
+  if (typeof params.domain !== 'string' || !params.domain.trim()) {
+    return res.status(400).json({ error: 'Domain is required' });
+  }
+  const domain = cleanDomain(params.domain);
+  const locationCode = Number(params.locationCode) || 2840;
+
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      message: 'Alert rules require DATABASE_URL environment variable.'
+    });
+  }
+
+  try {
+    const project = await prisma.project.findFirst({
+      where: { domain, locationCode, workspaceId: workspace.workspaceId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (req.method === 'GET') {
+      if (!project) {
+        return res.status(200).json({ projectId: null, rules: [] });
+      }
+      const rows = await prisma.alertRule.findMany({
+        where: { projectId: project.id },
+        orderBy: { createdAt: 'asc' }
+      });
+      return res.status(200).json({ projectId: project.id, rules: rows.map(toAlertRule) });
+    }
+
+    if (!project) {
+      return res.status(404).json({ error: 'Start tracking this domain before adding alert rules' });
+    }
+
+    const ruleResult = validateAlertRule(req.body?.rule);
+    if (!ruleResult.success) {
+      return res.status(400).json({ error: ruleResult.error });
+    }
+
+    const row = await prisma.alertRule.create({
+      data: { ...ruleResult.data!, projectId: project.id }
+    });
+
+    return res.status(201).json(toAlertRule(row));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
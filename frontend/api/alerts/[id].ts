@@ -0,0 +1,104 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizeWorkspace } from '../../shared/credentials.js';
+import { toAlertItem } from '../../shared/alertDelivery.js';
+
+/**
+ * One alert
+ * PATCH { action: 'acknowledge' }                 -> mark as handled
+ * PATCH { action: 'snooze', hours } | { until }   -> hide it and silence its rule for this subject until then
+ * PATCH { action: 'reopen' }                      -> back to open, snooze cleared
+ */
+
+const MAX_SNOOZE_HOURS = 24 * 30;
+
+async function getPrismaClient() {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    return new PrismaClient();
+  } catch {
+    return null;
+  }
+}
+
+function getSnoozeUntil(body: Record<string, unknown>): Date | null {
+  const until = body.until !== undefined
+    ? new Date(String(body.until))
+    : new Date(Date.now() + Number(body.hours) * 60 * 60 * 1000);
+  const maxUntil = Date.now() + MAX_SNOOZE_HOURS * 60 * 60 * 1000;
+  if (Number.isNaN(until.getTime()) || until.getTime() <= Date.now() || until.getTime() > maxUntil) return null;
+  return until;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PATCH, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Alert ID is required' });
+  }
+
+  const body = (req.body || {}) as Record<string, unknown>;
+  let data: Record<string, unknown>;
+  if (body.action === 'acknowledge') {
+    data = { status: 'acknowledged', acknowledgedAt: new Date() };
+  } else if (body.action === 'snooze') {
+    const snoozedUntil = getSnoozeUntil(body);
+    if (!snoozedUntil) {
+      return res.status(400).json({ error: `Snooze must end in the future and within ${MAX_SNOOZE_HOURS / 24} days` });
+    }
+    data = { snoozedUntil };
+  } else if (body.action === 'reopen') {
+    data = { status: 'open', acknowledgedAt: null, snoozedUntil: null };
+  } else {
+    return res.status(400).json({ error: 'Action must be acknowledge, snooze or reopen' });
+  }
+
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      message: 'Alerts require DATABASE_URL environment variable.'
+    });
+  }
+
+  try {
+    const existing = await prisma.alert.findFirst({
+      where: { id, project: { workspaceId: workspace.workspaceId } }
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Alert not found' });
+    }
+
+    const row = await prisma.alert.update({
+      where: { id },
+      data,
+      include: { rule: { select: { name: true } }, project: { select: { domain: true } } }
+    });
+
+    return res.status(200).json(toAlertItem(row, row.rule.name, row.project.domain));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
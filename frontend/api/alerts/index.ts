@@ -0,0 +1,93 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizeWorkspace } from '../../shared/credentials.js';
+import { toAlertItem } from '../../shared/alertDelivery.js';
+import type { AlertRow } from '../../shared/alertDelivery.js';
+
+/**
+ * Alert inbox
+ * GET ?domain=&locationCode=&status=open|acknowledged|all
+ *   -> the workspace's alerts, newest first, plus the open count for the bell.
+ *   Snoozed alerts are left out until their snooze ends; domain narrows to one tracked project.
+ */
+
+const MAX_ALERTS = 100;
+
+type InboxRow = AlertRow & { rule: { name: string }; project: { domain: string | null } };
+
+async function getPrismaClient() {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    return new PrismaClient();
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const status = typeof req.query.status === 'string' ? req.query.status : 'open';
+  if (!['open', 'acknowledged', 'all'].includes(status)) {
+    return res.status(400).json({ error: `Invalid status: ${status}` });
+  }
+
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      message: 'Alerts require DATABASE_URL environment variable.'
+    });
+  }
+
+  try {
+    const now = new Date();
+    const project: Record<string, unknown> = { workspaceId: workspace.workspaceId };
+    if (typeof req.query.domain === 'string' && req.query.domain) {
+      project.domain = req.query.domain.toLowerCase();
+      project.locationCode = Number(req.query.locationCode) || 2840;
+    }
+    const visible = {
+      project,
+      OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }]
+    };
+
+    const [rows, openCount] = await Promise.all([
+      prisma.alert.findMany({
+        where: status === 'all' ? visible : { ...visible, status },
+        orderBy: { observedAt: 'desc' },
+        take: MAX_ALERTS,
+        include: { rule: { select: { name: true } }, project: { select: { domain: true } } }
+      }),
+      prisma.alert.count({ where: { ...visible, status: 'open' } })
+    ]);
+
+    return res.status(200).json({
+      alerts: rows.map((row: InboxRow) => toAlertItem(row, row.rule.name, row.project.domain)),
+      openCount
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
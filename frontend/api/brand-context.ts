@@ -141,7 +141,7 @@ function analyzeMarketPosition(avgPosition: number, keywordCount: number, sosVal
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
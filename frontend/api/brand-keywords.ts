@@ -1,59 +1,9 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-// ============================================
-// INLINE VALIDATION (Vercel doesn't support lib imports well)
-// ============================================
-
-interface ValidationResult<T> {
-  success: boolean;
-  data?: T;
-  error?: string;
-}
-
-const DOMAIN_REGEX = /^(?:[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,}$/;
-
-const VALID_LOCATION_CODES = new Set([
-  2276, 2840, 2826, 2250, 2724, 2380, 2528, 2056, 2040, 2756, 2616, 2752, 2578, 2208, 2246
-]);
-
-const VALID_LANGUAGE_CODES = new Set([
-  'de', 'en', 'fr', 'es', 'it', 'nl', 'pl', 'sv', 'no', 'da', 'fi', 'pt'
-]);
-
-function validateDomain(domain: unknown): ValidationResult<string> {
-  if (typeof domain !== 'string') return { success: false, error: 'Domain must be a string' };
-  const cleaned = domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/.*$/, '').trim();
-  if (!cleaned) return { success: false, error: 'Domain is required' };
-  if (cleaned.length > 253) return { success: false, error: 'Domain is too long' };
-  if (!DOMAIN_REGEX.test(cleaned)) return { success: false, error: 'Invalid domain format' };
-  return { success: true, data: cleaned };
-}
-
-function validateLocationCode(code: unknown): ValidationResult<number> {
-  if (typeof code !== 'number' || !Number.isInteger(code)) return { success: false, error: 'Location code must be an integer' };
-  if (!VALID_LOCATION_CODES.has(code)) return { success: false, error: `Invalid location code: ${code}` };
-  return { success: true, data: code };
-}
-
-function validateLanguageCode(code: unknown): ValidationResult<string> {
-  if (typeof code !== 'string') return { success: false, error: 'Language code must be a string' };
-  const cleaned = code.toLowerCase().trim();
-  if (!VALID_LANGUAGE_CODES.has(cleaned)) return { success: false, error: `Invalid language code: ${code}` };
-  return { success: true, data: cleaned };
-}
-
-function validateCompetitors(competitors: unknown): ValidationResult<string[] | undefined> {
-  if (competitors === undefined || competitors === null) return { success: true, data: undefined };
-  if (!Array.isArray(competitors)) return { success: false, error: 'Competitors must be an array' };
-  if (competitors.length > 20) return { success: false, error: 'Maximum 20 custom competitors allowed' };
-  const cleaned: string[] = [];
-  for (const comp of competitors) {
-    if (typeof comp !== 'string') return { success: false, error: 'Each competitor must be a string' };
-    const trimmed = comp.trim().toLowerCase();
-    if (trimmed.length > 0 && trimmed.length <= 100) cleaned.push(trimmed);
-  }
-  return { success: true, data: cleaned.length > 0 ? cleaned : undefined };
-}
+import { validateDomain, validateLocationCode, validateLanguageCode, validateCompetitors, validateVariantKeywords } from '../shared/validation.js';
+import { createDataForSEOClient } from '../shared/dataforseo.js';
+import { getDataForSEOAuth } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
+import { extractBrandFromDomain, matchesBrand } from '../shared/brandVariants.js';
 
 function getAllowedOrigin(requestOrigin: string | undefined): string {
   const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',') || [];
@@ -62,8 +12,6 @@ function getAllowedOrigin(requestOrigin: string | undefined): string {
   return process.env.PRODUCTION_URL || '*';
 }
 
-// ============================================
-
 interface KeywordVolumeResult {
   keyword: string;
   search_volume: number;
@@ -178,31 +126,22 @@ function detectIndustry(brandName: string): string {
   return 'default';
 }
 
-// Extract brand name from domain
-function extractBrandFromDomain(domain: string): string {
-  // Remove common TLDs and www
-  let brand = domain
-    .replace(/^(https?:\/\/)?(www\.)?/, '')
-    .replace(/\.(com|de|co\.uk|fr|es|it|net|org|io|eu|at|ch|nl|be|pl).*$/, '')
-    .toLowerCase();
-
-  // Handle hyphenated domains
-  brand = brand.replace(/-/g, ' ').trim();
-
-  return brand;
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Set CORS headers - restrict in production
   const origin = getAllowedOrigin(req.headers.origin);
   res.setHeader('Access-Control-Allow-Origin', origin);
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -229,20 +168,24 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: competitorsResult.error });
     }
 
+    // Accepted brand variants from a stored review; their volumes are looked up with the defaults
+    const variantsResult = validateVariantKeywords(req.body?.variantKeywords);
+    if (!variantsResult.success) {
+      return res.status(400).json({ error: variantsResult.error });
+    }
+
     const domain = domainResult.data!;
     const locationCode = locationResult.data!;
     const languageCode = languageResult.data!;
     const customCompetitors = competitorsResult.data;
 
-    // Use environment variables for API credentials
-    const login = process.env.DATAFORSEO_LOGIN;
-    const password = process.env.DATAFORSEO_PASSWORD;
+    // Use environment variables for API credentials (or the mock server)
+    const auth = await getDataForSEOAuth(workspace.workspaceId);
 
-    if (!login || !password) {
+    if (!auth) {
       return res.status(500).json({ error: 'DataForSEO credentials not configured on server' });
     }
 
-    const auth = Buffer.from(`${login}:${password}`).toString('base64');
     const brandName = extractBrandFromDomain(domain);
     const industry = detectIndustry(brandName);
 
@@ -268,50 +211,51 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     ];
 
     // Remove duplicates
-    const uniqueKeywords = [...new Set(keywordsToFetch.map(k => k.toLowerCase()))];
+    const defaultKeywords = new Set(keywordsToFetch.map(k => k.toLowerCase()));
+    const variantKeywords = variantsResult.data!;
+    const uniqueKeywords = [...new Set([...defaultKeywords, ...variantKeywords])];
 
     // Fetch search volumes from DataForSEO
-    const response = await fetch('https://api.dataforseo.com/v3/keywords_data/google_ads/search_volume/live', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${auth}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify([{
-        keywords: uniqueKeywords,
-        location_code: locationCode,
-        language_code: languageCode
-      }])
+    const dataforseo = createDataForSEOClient({
+      auth,
+      forceRefresh: req.body?.forceRefresh === true,
+      project: { workspaceId: workspace.workspaceId, domain, locationCode }
     });
 
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error(data.status_message || 'DataForSEO API error');
-    }
+    const data = await dataforseo.post<KeywordVolumeResult>('keywords_data/google_ads/search_volume/live', [{
+      keywords: uniqueKeywords,
+      location_code: locationCode,
+      language_code: languageCode
+    }]);
 
     const items: KeywordVolumeResult[] = data.tasks?.[0]?.result || [];
 
     // Build brand keywords list
-    const brandKeywords = items.map((item: KeywordVolumeResult) => {
-      const keyword = item.keyword.toLowerCase();
-      const isOwnBrand = keyword.includes(brandName.toLowerCase());
-
+    const brandKeywords = items.filter(item => defaultKeywords.has(item.keyword.toLowerCase())).map((item: KeywordVolumeResult) => {
       return {
         keyword: item.keyword,
         searchVolume: item.search_volume || 0,
-        isOwnBrand
+        isOwnBrand: matchesBrand(item.keyword, brandName)
       };
     }).filter((kw: { searchVolume: number }) => kw.searchVolume > 0);
 
     // Sort by search volume
     brandKeywords.sort((a: { searchVolume: number }, b: { searchVolume: number }) => b.searchVolume - a.searchVolume);
 
+    const variantVolumes: Record<string, number> = {};
+    for (const keyword of variantKeywords) variantVolumes[keyword] = 0;
+    for (const item of items) {
+      const keyword = item.keyword.toLowerCase();
+      if (keyword in variantVolumes) variantVolumes[keyword] = item.search_volume || 0;
+    }
+
     return res.status(200).json({
       brandName,
       industry,
       brandKeywords,
-      competitors: competitorBrands
+      competitors: competitorBrands,
+      variantVolumes,
+      cache: dataforseo.getCacheInfo()
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
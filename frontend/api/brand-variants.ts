@@ -0,0 +1,157 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { validateDomain, validateLocationCode, validateLanguageCode, validateCompetitors } from '../shared/validation.js';
+import { createDataForSEOClient } from '../shared/dataforseo.js';
+import type { DataForSEOItemsResult } from '../shared/dataforseo.js';
+import { getDataForSEOAuth } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
+import {
+  buildVariantSet,
+  classifyVariant,
+  extractBrandFromDomain,
+  generateSpellingVariants,
+  normalizeBrandTerm
+} from '../shared/brandVariants.js';
+import type { BrandVariantSet } from '../shared/types.js';
+
+/**
+ * Brand Variants API
+ * POST { domain, locationCode, languageCode, competitors? } -> a variant set per brand for review.
+ * Candidates come from keyword suggestions for each brand plus generated spellings
+ * (umlauts, spacing) that suggestions can't find; all volumes come from one Google Ads
+ * search volume request so they match the brand keywords used elsewhere.
+ */
+
+// Own brand plus up to 9 competitors - one suggestions request per brand
+const MAX_BRANDS = 10;
+const SUGGESTIONS_PER_BRAND = 100;
+// Google Ads search volume accepts up to 1000 keywords per task
+const MAX_VOLUME_KEYWORDS = 1000;
+
+interface SuggestionItem {
+  keyword: string;
+}
+
+interface KeywordVolumeResult {
+  keyword: string;
+  search_volume: number | null;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const domainResult = validateDomain(req.body?.domain);
+    if (!domainResult.success) {
+      return res.status(400).json({ error: domainResult.error });
+    }
+
+    const locationResult = validateLocationCode(req.body?.locationCode);
+    if (!locationResult.success) {
+      return res.status(400).json({ error: locationResult.error });
+    }
+
+    const languageResult = validateLanguageCode(req.body?.languageCode);
+    if (!languageResult.success) {
+      return res.status(400).json({ error: languageResult.error });
+    }
+
+    const competitorsResult = validateCompetitors(req.body?.competitors);
+    if (!competitorsResult.success) {
+      return res.status(400).json({ error: competitorsResult.error });
+    }
+
+    const domain = domainResult.data!;
+    const locationCode = locationResult.data!;
+    const languageCode = languageResult.data!;
+
+    const auth = await getDataForSEOAuth(workspace.workspaceId);
+    if (!auth) {
+      return res.status(500).json({ error: 'DataForSEO credentials not configured on server' });
+    }
+
+    const brandName = extractBrandFromDomain(domain);
+    const brandKey = normalizeBrandTerm(brandName);
+    const competitors = [...new Set(competitorsResult.data || [])]
+      .filter(c => normalizeBrandTerm(c) !== brandKey)
+      .slice(0, MAX_BRANDS - 1);
+    const brands = [
+      { brand: brandName, isOwnBrand: true },
+      ...competitors.map(brand => ({ brand, isOwnBrand: false }))
+    ];
+
+    const dataforseo = createDataForSEOClient({
+      auth,
+      forceRefresh: req.body?.forceRefresh === true,
+      project: { workspaceId: workspace.workspaceId, domain, locationCode }
+    });
+
+    // Suggestions only contain the seed as typed; a brand whose lookup fails still gets its generated spellings
+    const suggestions = await Promise.all(brands.map(async ({ brand }) => {
+      try {
+        const data = await dataforseo.post<DataForSEOItemsResult<SuggestionItem>>('dataforseo_labs/google/keyword_suggestions/live', [{
+          keyword: brand,
+          location_code: locationCode,
+          language_code: languageCode,
+          include_serp_info: false,
+          include_seed_keyword: true,
+          limit: SUGGESTIONS_PER_BRAND,
+          order_by: ['keyword_info.search_volume,desc']
+        }]);
+        const items: SuggestionItem[] = data?.tasks?.[0]?.result?.[0]?.items || [];
+        return items.map(item => item.keyword);
+      } catch (error) {
+        console.error(`Keyword suggestions failed for "${brand}":`, error);
+        return [];
+      }
+    }));
+
+    // Only candidates that classify as a variant are worth a volume lookup
+    const candidatesByBrand = brands.map(({ brand }, index) => [
+      brand,
+      ...generateSpellingVariants(brand),
+      ...suggestions[index]
+    ].map(k => k.toLowerCase().trim()).filter(k => classifyVariant(k, brand) !== null));
+
+    const uniqueKeywords = [...new Set(candidatesByBrand.flat())].slice(0, MAX_VOLUME_KEYWORDS);
+
+    const data = await dataforseo.post<KeywordVolumeResult>('keywords_data/google_ads/search_volume/live', [{
+      keywords: uniqueKeywords,
+      location_code: locationCode,
+      language_code: languageCode
+    }]);
+
+    const items: KeywordVolumeResult[] = data.tasks?.[0]?.result || [];
+    const volumes = new Map(items.map(item => [item.keyword.toLowerCase(), item.search_volume || 0]));
+
+    const sets: BrandVariantSet[] = brands.map(({ brand, isOwnBrand }, index) =>
+      buildVariantSet(brand, isOwnBrand, candidatesByBrand[index].map(keyword => ({
+        keyword,
+        searchVolume: volumes.get(keyword) ?? 0
+      })))
+    );
+
+    return res.status(200).json({
+      brandName,
+      sets,
+      cache: dataforseo.getCacheInfo()
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  }
+}
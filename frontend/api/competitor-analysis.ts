@@ -1,9 +1,18 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createDataForSEOClient } from '../shared/dataforseo.js';
+import type { DataForSEOClient, DataForSEOItemsResult } from '../shared/dataforseo.js';
+import { getDataForSEOAuth } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
+import { buildCompetitiveLandscape } from '../shared/competitive.js';
+import { analyzeContentGaps } from '../shared/contentGaps.js';
+import type { DomainRankings } from '../shared/types.js';
 
 /**
  * Competitor Analysis API
  * Fetches top competitor rankings and compares them with your domain
- * to find threats (where they rank better) and opportunities (gaps)
+ * to find threats (where they rank better) and opportunities (gaps).
+ * Also returns the shared keyword universe (position matrix, overlap, SOV per domain)
+ * and content gaps: topics competitors rank for in the top 10 where you don't rank at all.
  */
 
 interface RankedKeywordItem {
@@ -111,35 +120,29 @@ async function fetchDomainKeywords(
   domain: string,
   locationCode: number,
   languageCode: string,
-  auth: string,
+  dataforseo: DataForSEOClient,
   limit: number = 100,
   maxPosition: number = 50
 ): Promise<KeywordRanking[]> {
-  const response = await fetch('https://api.dataforseo.com/v3/dataforseo_labs/google/ranked_keywords/live', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Basic ${auth}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify([{
-      target: domain,
-      location_code: locationCode,
-      language_code: languageCode,
-      item_types: ['organic'],
-      limit,
-      filters: [
-        ['keyword_data.keyword_info.search_volume', '>=', 100],
-        'and',
-        ['ranked_serp_element.serp_item.rank_group', '<=', maxPosition]
-      ],
-      order_by: ['keyword_data.keyword_info.search_volume,desc']
-    }])
+  const data = await dataforseo.post<DataForSEOItemsResult<RankedKeywordItem>>('dataforseo_labs/google/ranked_keywords/live', [{
+    target: domain,
+    location_code: locationCode,
+    language_code: languageCode,
+    item_types: ['organic'],
+    limit,
+    filters: [
+      ['keyword_data.keyword_info.search_volume', '>=', 100],
+      'and',
+      ['ranked_serp_element.serp_item.rank_group', '<=', maxPosition]
+    ],
+    order_by: ['keyword_data.keyword_info.search_volume,desc']
+  }]).catch(error => {
+    console.error(`Failed to fetch keywords for ${domain}:`, error);
+    return null;
   });
 
-  const data = await response.json();
-
-  if (!response.ok || data.tasks?.[0]?.status_code !== 20000) {
-    console.error(`Failed to fetch keywords for ${domain}:`, data);
+  if (!data || data.tasks?.[0]?.status_code !== 20000) {
+    if (data) console.error(`Failed to fetch keywords for ${domain}:`, data);
     return [];
   }
 
@@ -153,12 +156,72 @@ async function fetchDomainKeywords(
   }));
 }
 
+// Competitor positions that make a keyword a gap candidate, per competitor or as a content gap
+const GAP_MAX_COMPETITOR_POSITION = 20;
+const POSITION_LOOKUP_BATCH_SIZE = 200;
+
+/**
+ * A domain's positions for specific keywords, whatever their volume or rank in its top list.
+ * Top lists only hold a domain's highest-volume keywords, so a keyword missing from one
+ * may still rank; universe keywords are looked up before they count as not ranking.
+ * A failed batch is logged like a failed keyword fetch; its keywords come back as unchecked.
+ */
+async function fetchKeywordPositions(
+  domain: string,
+  keywords: string[],
+  locationCode: number,
+  languageCode: string,
+  dataforseo: DataForSEOClient
+): Promise<{ rankings: KeywordRanking[]; unchecked: string[] }> {
+  const batches: string[][] = [];
+  for (let i = 0; i < keywords.length; i += POSITION_LOOKUP_BATCH_SIZE) {
+    batches.push(keywords.slice(i, i + POSITION_LOOKUP_BATCH_SIZE));
+  }
+
+  const unchecked: string[] = [];
+  const results = await Promise.all(batches.map(async batch => {
+    const data = await dataforseo.post<DataForSEOItemsResult<RankedKeywordItem>>('dataforseo_labs/google/ranked_keywords/live', [{
+      target: domain,
+      location_code: locationCode,
+      language_code: languageCode,
+      item_types: ['organic'],
+      limit: 1000,
+      filters: [
+        ['keyword_data.keyword', 'in', batch],
+        'and',
+        ['ranked_serp_element.serp_item.rank_group', '<=', 100]
+      ]
+    }]).catch(error => {
+      console.error(`Failed to look up ${batch.length} keyword positions for ${domain}:`, error);
+      return null;
+    });
+
+    if (!data || data.tasks?.[0]?.status_code !== 20000) {
+      if (data) console.error(`Failed to look up ${batch.length} keyword positions for ${domain}:`, data);
+      unchecked.push(...batch);
+      return [];
+    }
+    return data.tasks[0].result?.[0]?.items || [];
+  }));
+
+  return {
+    rankings: results.flat().map(item => ({
+      keyword: item.keyword_data.keyword.toLowerCase(),
+      searchVolume: item.keyword_data.keyword_info.search_volume || 0,
+      position: item.ranked_serp_element.serp_item.rank_group,
+      url: item.ranked_serp_element.serp_item.relative_url
+    })),
+    unchecked
+  };
+}
+
 function analyzeCompetitorKeywords(
   yourKeywords: KeywordRanking[],
   yourExtendedKeywords: KeywordRanking[], // Extended list up to position 100 for gap checking
   competitorKeywords: KeywordRanking[],
   competitorName: string,
-  competitorDomain: string
+  competitorDomain: string,
+  unchecked: Set<string> // Your position couldn't be looked up; never reported as gaps
 ): CompetitorKeywordAnalysis {
   // Create lookup maps for your keywords
   const yourKeywordMap = new Map<string, KeywordRanking>();
@@ -214,7 +277,7 @@ function analyzeCompetitorKeywords(
     } else {
       // Gap: competitor ranks in top 50 but you don't (or rank poorly at 51-100)
       // Only include if competitor has a good position
-      if (compKw.position <= 20) {
+      if (compKw.position <= GAP_MAX_COMPETITOR_POSITION && !unchecked.has(compKw.keyword)) {
         // Check if you rank for this keyword in extended range (51-100)
         const yourExtendedKw = yourExtendedMap.get(compKw.keyword);
 
@@ -259,39 +322,47 @@ function analyzeCompetitorKeywords(
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    const { domain, locationCode, languageCode, competitors } = req.body;
+    const { domain, locationCode, languageCode, competitors, minCompetitors } = req.body;
 
     if (!domain || !locationCode || !languageCode) {
       return res.status(400).json({ error: 'Missing required parameters' });
     }
 
-    const login = process.env.DATAFORSEO_LOGIN;
-    const password = process.env.DATAFORSEO_PASSWORD;
+    const auth = await getDataForSEOAuth(workspace.workspaceId);
 
-    if (!login || !password) {
+    if (!auth) {
       return res.status(500).json({ error: 'DataForSEO credentials not configured' });
     }
 
-    const auth = Buffer.from(`${login}:${password}`).toString('base64');
+    const dataforseo = createDataForSEOClient({
+      auth,
+      forceRefresh: req.body?.forceRefresh === true,
+      project: { workspaceId: workspace.workspaceId, domain, locationCode }
+    });
 
     // Fetch your domain's keywords first (top 50 positions for main analysis)
     console.log(`Fetching keywords for ${domain}...`);
-    const yourKeywords = await fetchDomainKeywords(domain, locationCode, languageCode, auth, 200, 50);
+    const yourKeywords = await fetchDomainKeywords(domain, locationCode, languageCode, dataforseo, 200, 50);
 
-    // Also fetch extended range (51-100) for gap analysis
+    // Also fetch extended range (51-100) for gap analysis; universe keywords outside it are looked up below
     console.log(`Fetching extended keywords for ${domain} (positions 51-100)...`);
-    const yourExtendedKeywords = await fetchDomainKeywords(domain, locationCode, languageCode, auth, 300, 100);
+    const yourExtendedKeywords = await fetchDomainKeywords(domain, locationCode, languageCode, dataforseo, 300, 100);
 
     if (yourKeywords.length === 0) {
       return res.status(400).json({ error: 'No keywords found for your domain' });
@@ -300,6 +371,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Get top 3 competitors to analyze
     const competitorsToAnalyze = (competitors || []).slice(0, 3);
     const results: CompetitorKeywordAnalysis[] = [];
+    const yourBrand = domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').split('.')[0];
+    const rankings: DomainRankings[] = [{ domain, label: yourBrand, isYou: true, keywords: yourKeywords }];
+    const competitorRankings: Array<{ name: string; domain: string; keywords: KeywordRanking[] }> = [];
 
     for (const competitorName of competitorsToAnalyze) {
       const normalizedName = competitorName.toLowerCase().trim();
@@ -315,26 +389,67 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         competitorDomain,
         locationCode,
         languageCode,
-        auth,
+        dataforseo,
         200
       );
 
       if (competitorKeywords.length > 0) {
-        const analysis = analyzeCompetitorKeywords(
-          yourKeywords,
-          yourExtendedKeywords,
-          competitorKeywords,
-          competitorName,
-          competitorDomain
-        );
-        results.push(analysis);
+        rankings.push({ domain: competitorDomain, label: competitorName, isYou: false, keywords: competitorKeywords });
+        competitorRankings.push({ name: competitorName, domain: competitorDomain, keywords: competitorKeywords });
       }
     }
 
+    // Each domain's own list only holds its top keywords by volume. Look up every domain's
+    // position on the rest of the shared universe, so a missing position in the matrix,
+    // the overlap and the universe SOV means not ranking; your lookups also verify the gaps.
+    const universe = new Set(rankings.flatMap(r => r.keywords.map(k => k.keyword)));
+    const yourExtendedSet = new Set(yourExtendedKeywords.map(k => k.keyword));
+    console.log(`Checking positions of ${rankings.length} domains on ${universe.size} universe keywords...`);
+    const lookups = await Promise.all(rankings.map(ranking => {
+      const known = ranking.isYou ? yourExtendedSet : new Set(ranking.keywords.map(k => k.keyword));
+      const missing = [...universe].filter(keyword => !known.has(keyword));
+      return missing.length > 0
+        ? fetchKeywordPositions(ranking.domain, missing, locationCode, languageCode, dataforseo)
+        : Promise.resolve({ rankings: [], unchecked: [] });
+    }));
+    yourExtendedKeywords.push(...lookups[0].rankings);
+    // Without your position a keyword can't be called a gap, so its gaps are dropped
+    const yourUnchecked = new Set(lookups[0].unchecked);
+
+    const universeRankings: DomainRankings[] = rankings.map((ranking, i) => {
+      const own = new Set(ranking.keywords.map(k => k.keyword));
+      const found = (ranking.isYou ? yourExtendedKeywords : lookups[i].rankings)
+        .filter(k => universe.has(k.keyword) && !own.has(k.keyword));
+      return { ...ranking, keywords: [...ranking.keywords, ...found] };
+    });
+
+    const contentGapRankings = universeRankings
+      .filter(r => !r.isYou)
+      .map(r => ({ ...r, keywords: r.keywords.filter(k => !yourUnchecked.has(k.keyword)) }));
+
+    for (const competitor of competitorRankings) {
+      results.push(analyzeCompetitorKeywords(
+        yourKeywords,
+        yourExtendedKeywords,
+        competitor.keywords,
+        competitor.name,
+        competitor.domain,
+        yourUnchecked
+      ));
+    }
+
     return res.status(200).json({
       yourDomain: domain,
       yourKeywordsCount: yourKeywords.length,
-      competitors: results
+      competitors: results,
+      landscape: buildCompetitiveLandscape(universeRankings, {
+        excludeTerms: rankings.map(r => r.label)
+      }),
+      contentGaps: analyzeContentGaps(yourExtendedKeywords, contentGapRankings, {
+        minCompetitors: Number(minCompetitors) || 2,
+        excludeTerms: rankings.map(r => r.label)
+      }),
+      cache: dataforseo.getCacheInfo()
     });
 
   } catch (error) {
@@ -0,0 +1,58 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getProjectCosts } from '../shared/dataforseo.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
+import { validateDomain, validateLocationCode } from '../shared/validation.js';
+
+/**
+ * API Costs
+ * Returns the DataForSEO spend the request's workspace recorded for a project
+ * (domain + location), including how much the response cache saved.
+ *
+ * GET ?domain=&locationCode=
+ */
+
+function getAllowedOrigin(requestOrigin: string | undefined): string {
+  const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',') || [];
+  if (process.env.NODE_ENV === 'development' || process.env.VERCEL_ENV === 'development') return '*';
+  if (requestOrigin && allowedOrigins.includes(requestOrigin)) return requestOrigin;
+  return process.env.PRODUCTION_URL || '*';
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const origin = getAllowedOrigin(req.headers.origin);
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const domainResult = validateDomain(req.query.domain);
+    if (!domainResult.success) {
+      return res.status(400).json({ error: domainResult.error });
+    }
+
+    const locationResult = validateLocationCode(Number(req.query.locationCode) || 2840);
+    if (!locationResult.success) {
+      return res.status(400).json({ error: locationResult.error });
+    }
+
+    const summary = await getProjectCosts(workspace.workspaceId, domainResult.data!, locationResult.data!);
+    return res.status(200).json(summary);
+  } catch (error) {
+    console.error('API costs error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  }
+}
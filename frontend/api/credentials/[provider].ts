@@ -0,0 +1,167 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  assertPublicWebhookUrl,
+  authorizeCredentialChange,
+  clearCachedSecret,
+  describeSecret,
+  encryptSecret,
+  getCredentialStore,
+  getMasterKey,
+  getWorkspaceId,
+  resolveSecret,
+  validateCredentialProvider,
+  validateCredentialSecret
+} from '../../shared/credentials.js';
+import { buildTestNotification, deliverEmail, deliverWebhook } from '../../shared/alertDelivery.js';
+import { getDataForSEOBaseUrl, getYouTubeApiBaseUrl } from '../../shared/upstream.js';
+import type { CredentialProvider, CredentialSecrets } from '../../shared/types.js';
+
+/**
+ * Credential API for one provider
+ * PUT    { secret } -> add or rotate the workspace's credential (encrypted before it is stored)
+ * POST             -> test the credential the workspace currently resolves to
+ *                     (webhook / smtp: send a test alert)
+ * DELETE           -> remove the workspace's credential
+ * Every method needs the admin token or the workspace's token as a bearer token
+ * (see authorizeCredentialChange). Responses only ever contain the non-secret hint.
+ */
+
+const TEST_TIMEOUT_MS = 10000;
+
+// Each test returns an error message, or null when the provider accepted the credential
+async function testDataForSEO({ login, password }: CredentialSecrets['dataforseo']): Promise<string | null> {
+  const response = await fetch(`${getDataForSEOBaseUrl()}/appendix/user_data`, {
+    headers: { Authorization: `Basic ${Buffer.from(`${login}:${password}`).toString('base64')}` },
+    signal: AbortSignal.timeout(TEST_TIMEOUT_MS)
+  });
+  if (response.status === 401) return 'DataForSEO rejected the login or password';
+  if (!response.ok) return `DataForSEO returned HTTP ${response.status}`;
+
+  const data = await response.json();
+  return data.status_code === 20000 ? null : data.status_message || 'DataForSEO rejected the request';
+}
+
+async function testYouTube({ apiKeys }: CredentialSecrets['youtube']): Promise<string | null> {
+  for (const key of apiKeys) {
+    // i18nLanguages costs a single quota unit
+    const params = new URLSearchParams({ part: 'snippet', key });
+    const response = await fetch(`${getYouTubeApiBaseUrl()}/i18nLanguages?${params}`, {
+      signal: AbortSignal.timeout(TEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      return `Key ••••${key.slice(-4)}: ${data?.error?.message || `HTTP ${response.status}`}`;
+    }
+  }
+  return null;
+}
+
+async function testAnthropic({ apiKey }: CredentialSecrets['anthropic']): Promise<string | null> {
+  try {
+    await new Anthropic({ apiKey, timeout: TEST_TIMEOUT_MS }).models.list({ limit: 1 });
+    return null;
+  } catch (error) {
+    if (error instanceof Anthropic.AuthenticationError) return 'Anthropic rejected the API key';
+    if (error instanceof Anthropic.APIError) return `Anthropic API error: ${error.message}`;
+    throw error;
+  }
+}
+
+async function testWebhook(secret: CredentialSecrets['webhook'], source: 'workspace' | 'environment'): Promise<string | null> {
+  if (source === 'workspace') await assertPublicWebhookUrl(secret.url);
+  await deliverWebhook(secret, buildTestNotification().payload);
+  return null;
+}
+
+async function testSMTP(secret: CredentialSecrets['smtp']): Promise<string | null> {
+  await deliverEmail(secret, buildTestNotification());
+  return null;
+}
+
+async function testCredential<P extends CredentialProvider>(
+  provider: P,
+  { secret, source }: { secret: CredentialSecrets[P]; source: 'workspace' | 'environment' }
+): Promise<string | null> {
+  try {
+    if (provider === 'dataforseo') return await testDataForSEO(secret as CredentialSecrets['dataforseo']);
+    if (provider === 'youtube') return await testYouTube(secret as CredentialSecrets['youtube']);
+    if (provider === 'webhook') return await testWebhook(secret as CredentialSecrets['webhook'], source);
+    if (provider === 'smtp') return await testSMTP(secret as CredentialSecrets['smtp']);
+    return await testAnthropic(secret as CredentialSecrets['anthropic']);
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Connection test failed';
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PUT, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const providerResult = validateCredentialProvider(req.query.provider);
+  if (!providerResult.success) {
+    return res.status(400).json({ error: providerResult.error });
+  }
+  const provider = providerResult.data!;
+  const workspaceId = getWorkspaceId(req);
+
+  const authorization = authorizeCredentialChange(req, workspaceId);
+  if ('error' in authorization) {
+    return res.status(authorization.status).json({ error: authorization.error });
+  }
+
+  try {
+    // Testing works for environment credentials too, so it doesn't need the vault
+    if (req.method === 'POST') {
+      const resolved = await resolveSecret(workspaceId, provider);
+      if (!resolved) {
+        return res.status(404).json({ error: `No ${provider} credentials configured` });
+      }
+
+      const error = await testCredential(provider, resolved);
+      if (resolved.source === 'workspace') {
+        const store = await getCredentialStore();
+        await store?.recordTest(workspaceId, provider, error === null, error);
+      }
+      return res.status(200).json({ ok: error === null, error, testedAt: new Date().toISOString() });
+    }
+
+    const store = await getCredentialStore();
+    const key = getMasterKey();
+    if (!store || !key) {
+      return res.status(503).json({
+        error: 'Credential vault not configured',
+        message: 'Storing credentials requires DATABASE_URL and CREDENTIALS_MASTER_KEY environment variables.'
+      });
+    }
+
+    if (req.method === 'PUT') {
+      const secretResult = validateCredentialSecret(provider, req.body?.secret);
+      if (!secretResult.success) {
+        return res.status(400).json({ error: secretResult.error });
+      }
+
+      const hint = describeSecret(provider, secretResult.data!);
+      await store.save(workspaceId, provider, encryptSecret(secretResult.data, key), hint);
+      clearCachedSecret(workspaceId, provider);
+
+      return res.status(200).json({ provider, source: 'workspace', hint });
+    }
+
+    if (req.method === 'DELETE') {
+      await store.remove(workspaceId, provider);
+      clearCachedSecret(workspaceId, provider);
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,90 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  CREDENTIAL_PROVIDERS,
+  authorizeCredentialChange,
+  getAdminToken,
+  getCredentialStore,
+  getEnvironmentSecret,
+  authorizeWorkspace,
+  getWorkspaceToken,
+  describeSecret
+} from '../../shared/credentials.js';
+import { DEFAULT_WORKSPACE_ID } from '../../shared/constants.js';
+import type { CredentialSummary } from '../../shared/types.js';
+
+/**
+ * Credentials API
+ * GET -> which providers the workspace has credentials for, with hints and test status,
+ *        and whether the request's token may change them. With the admin token, a
+ *        non-default workspace's response also carries its workspace token to hand out.
+ * Secrets never leave the server; see credentials/[provider].ts for save, test and delete.
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+  const { workspaceId } = workspace;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const store = await getCredentialStore();
+    const stored = store ? await store.list(workspaceId) : [];
+
+    const credentials: CredentialSummary[] = CREDENTIAL_PROVIDERS.map(provider => {
+      const entry = stored.find(c => c.provider === provider);
+      if (entry) {
+        return {
+          provider,
+          source: 'workspace',
+          hint: entry.hint,
+          updatedAt: entry.updatedAt,
+          lastTestedAt: entry.lastTestedAt,
+          lastTestOk: entry.lastTestOk,
+          lastTestError: entry.lastTestError
+        };
+      }
+
+      // Only the default workspace falls back to server environment variables
+      const envSecret = workspaceId === DEFAULT_WORKSPACE_ID ? getEnvironmentSecret(provider) : null;
+      return {
+        provider,
+        source: envSecret ? 'environment' : null,
+        hint: envSecret ? describeSecret(provider, envSecret) : null,
+        updatedAt: null,
+        lastTestedAt: null,
+        lastTestOk: null,
+        lastTestError: null
+      };
+    });
+
+    const authorization = authorizeCredentialChange(req, workspaceId);
+    const access = 'access' in authorization ? authorization.access : null;
+    const adminToken = getAdminToken();
+
+    return res.status(200).json({
+      workspaceId,
+      vaultEnabled: store !== null,
+      access,
+      workspaceToken: access === 'admin' && adminToken && workspaceId !== DEFAULT_WORKSPACE_ID
+        ? getWorkspaceToken(workspaceId, adminToken)
+        : null,
+      credentials
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -1,4 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getDataForSEOAuth, getDataForSEOBaseUrl } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
 
 /**
  * Distribution Coverage API
@@ -73,7 +75,7 @@ async function fetchGoogleMapsSearch(
 ): Promise<{ placeId: string; title: string; url?: string; address?: string; rating?: number; ratingCount?: number; rank: number }[]> {
   try {
     const response = await fetch(
-      'https://api.dataforseo.com/v3/serp/google/maps/live/advanced',
+      `${getDataForSEOBaseUrl()}/serp/google/maps/live/advanced`,
       {
         method: 'POST',
         headers: {
@@ -132,7 +134,7 @@ async function fetchPlaceDetails(
 ): Promise<{ description?: string; attributes?: string[]; brandMentions: string[] }> {
   try {
     const response = await fetch(
-      'https://api.dataforseo.com/v3/business_data/google/my_business_info/task_post',
+      `${getDataForSEOBaseUrl()}/business_data/google/my_business_info/task_post`,
       {
         method: 'POST',
         headers: {
@@ -186,7 +188,7 @@ async function fetchPlaceDetailsAlternative(
   try {
     // Use the reviews endpoint which sometimes includes business info
     const response = await fetch(
-      'https://api.dataforseo.com/v3/business_data/google/reviews/task_post',
+      `${getDataForSEOBaseUrl()}/business_data/google/reviews/task_post`,
       {
         method: 'POST',
         headers: {
@@ -305,12 +307,17 @@ function extractBrandMentions(text: string): string[] {
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -329,17 +336,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'brandName is required' });
     }
 
-    const login = process.env.DATAFORSEO_LOGIN;
-    const password = process.env.DATAFORSEO_PASSWORD;
+    const auth = await getDataForSEOAuth(workspace.workspaceId);
 
-    if (!login || !password) {
+    if (!auth) {
       return res.status(500).json({ error: 'DataForSEO credentials not configured' });
     }
 
-    const auth = Buffer.from(`${login}:${password}`).toString('base64');
     const brandLower = brandName.toLowerCase();
-    const competitorNames = competitors.map((c: string) => c.toLowerCase());
-    const allBrands = [brandLower, ...competitorNames];
+    const competitorNames: string[] = competitors.map((c: string) => c.toLowerCase());
 
     console.log(`[Distribution] Starting analysis for ${brandName}`);
     console.log(`[Distribution] Search term: "${searchTerm}"`);
@@ -1,5 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import Anthropic from '@anthropic-ai/sdk';
+import { getAnthropicApiKey, getAnthropicBaseUrl } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
 
 interface YouTubeVideo {
   title: string;
@@ -114,23 +116,28 @@ interface RequestBody {
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const apiKey = process.env.ANTHROPIC_API_KEY;
+  const apiKey = await getAnthropicApiKey(workspace.workspaceId);
   if (!apiKey) {
-    return res.status(500).json({ error: 'ANTHROPIC_API_KEY not configured', insights: null });
+    return res.status(500).json({ error: 'Anthropic API key not configured', insights: null });
   }
 
   try {
-    const { type, brandName, industry, youtubeData, paidAdsData, mapsData, competitors } = req.body as RequestBody;
+    const { type, brandName, industry, youtubeData, paidAdsData, mapsData } = req.body as RequestBody;
 
     if (!brandName) {
       return res.status(400).json({ error: 'Brand name is required' });
@@ -333,7 +340,7 @@ Return ONLY valid JSON:
       return res.status(400).json({ error: 'Invalid request type or missing data' });
     }
 
-    const anthropic = new Anthropic({ apiKey });
+    const anthropic = new Anthropic({ apiKey, baseURL: getAnthropicBaseUrl() });
 
     const message = await anthropic.messages.create({
       model: 'claude-3-haiku-20240307',
@@ -1,5 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import Anthropic from '@anthropic-ai/sdk';
+import { getAnthropicApiKey, getAnthropicBaseUrl } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
 
 interface Opportunity {
   id: string;
@@ -52,13 +54,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Set CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   // Handle preflight
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   // Only allow POST
   if (req.method !== 'POST') {
     console.log('Received non-POST request:', req.method);
@@ -66,11 +73,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   // Check for API key
-  const apiKey = process.env.ANTHROPIC_API_KEY;
+  const apiKey = await getAnthropicApiKey(workspace.workspaceId);
   if (!apiKey) {
-    console.error('ANTHROPIC_API_KEY not found in environment variables');
+    console.error('No Anthropic API key configured for workspace');
     return res.status(500).json({
-      error: 'ANTHROPIC_API_KEY not configured',
+      error: 'Anthropic API key not configured',
       reasonings: {}
     });
   }
@@ -152,7 +159,7 @@ Use the exact keyword text as keys.`;
     }
 
     // Call Claude API - Using Claude 3 Haiku for fast, cost-effective reasoning
-    const anthropic = new Anthropic({ apiKey });
+    const anthropic = new Anthropic({ apiKey, baseURL: getAnthropicBaseUrl() });
 
     const message = await anthropic.messages.create({
       model: 'claude-3-haiku-20240307',
@@ -1,4 +1,10 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createDataForSEOClient } from '../shared/dataforseo.js';
+import type { DataForSEOClient, DataForSEOItemsResult } from '../shared/dataforseo.js';
+import type { CacheInfo } from '../shared/types.js';
+import { getDataForSEOAuth } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
+import { recordChannelSnapshot } from '../shared/alertDelivery.js';
 
 /**
  * Google Maps Local SEO API
@@ -38,6 +44,27 @@ interface BusinessListing {
   };
 }
 
+// Item of the maps SERP as DataForSEO returns it
+interface MapsSerpItem {
+  type: string;
+  place_id?: string;
+  title?: string;
+  domain?: string;
+  url?: string;
+  address?: string;
+  phone?: string;
+  rating?: { value?: number; votes_count?: number } | null;
+  price_level?: string;
+  category?: string;
+  additional_categories?: string[] | null;
+  latitude?: number;
+  longitude?: number;
+  main_image?: string;
+  is_claimed?: boolean;
+  rank_group?: number;
+  rating_distribution?: Record<string, number> | null;
+}
+
 interface BrandLocalData {
   name: string;
   listings: BusinessListing[];
@@ -108,6 +135,7 @@ interface GoogleMapsResponse {
   searchedKeywords: string[];
   location: string;
   timestamp: string;
+  cache: CacheInfo | null;
   methodology: {
     presenceFormula: string;
     reviewShareFormula: string;
@@ -129,38 +157,20 @@ async function fetchGoogleMaps(
   keyword: string,
   locationCode: number,
   languageCode: string,
-  auth: string
+  dataforseo: DataForSEOClient
 ): Promise<{ listings: BusinessListing[]; status: string }> {
   const listings: BusinessListing[] = [];
 
   try {
     console.log(`Calling Google Maps API for "${keyword}" (location: ${locationCode}, lang: ${languageCode})`);
 
-    const response = await fetch(
-      'https://api.dataforseo.com/v3/serp/google/maps/live/advanced',
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${auth}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify([{
-          keyword,
-          location_code: locationCode,
-          language_code: languageCode,
-          device: 'desktop',
-          depth: 100,
-        }]),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Google Maps API failed for "${keyword}": ${response.status} - ${errorText}`);
-      return { listings: [], status: `API error: ${response.status}` };
-    }
-
-    const data = await response.json();
+    const data = await dataforseo.post<DataForSEOItemsResult<MapsSerpItem>>('serp/google/maps/live/advanced', [{
+      keyword,
+      location_code: locationCode,
+      language_code: languageCode,
+      device: 'desktop',
+      depth: 100,
+    }]);
 
     const taskStatus = data?.tasks?.[0]?.status_message || 'unknown';
     const items = data?.tasks?.[0]?.result?.[0]?.items || [];
@@ -299,12 +309,17 @@ function calculateLocalSOV(
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -316,22 +331,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       locationCode = 2840,
       languageCode = 'en',
       searchTerms = [], // Additional search terms like "tire shop near me", "auto repair"
+      domain, // Optional - attributes API spend to the project's cost ledger
     } = req.body;
 
     if (!brandName || typeof brandName !== 'string') {
       return res.status(400).json({ error: 'brandName is required' });
     }
 
-    const login = process.env.DATAFORSEO_LOGIN;
-    const password = process.env.DATAFORSEO_PASSWORD;
+    const auth = await getDataForSEOAuth(workspace.workspaceId);
 
-    if (!login || !password) {
+    if (!auth) {
       return res.status(500).json({
         error: 'DataForSEO credentials not configured'
       });
     }
 
-    const auth = Buffer.from(`${login}:${password}`).toString('base64');
+    const dataforseo = createDataForSEOClient({
+      auth,
+      forceRefresh: req.body?.forceRefresh === true,
+      project: typeof domain === 'string' && domain ? { workspaceId: workspace.workspaceId, domain, locationCode } : undefined
+    });
 
     const validCompetitors = Array.isArray(competitors)
       ? competitors.filter((c): c is string => typeof c === 'string').slice(0, 4)
@@ -349,7 +368,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     console.log(`Fetching brand searches: ${brandKeywords.join(', ')}`);
 
     const brandResults = await Promise.all(
-      brandKeywords.map(keyword => fetchGoogleMaps(keyword, locationCode, languageCode, auth))
+      brandKeywords.map(keyword => fetchGoogleMaps(keyword, locationCode, languageCode, dataforseo))
     );
 
     // Collect brand listings
@@ -383,7 +402,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       const categoryResults = await Promise.all(
         validSearchTerms.map(async (term) => {
-          const result = await fetchGoogleMaps(term, locationCode, languageCode, auth);
+          const result = await fetchGoogleMaps(term, locationCode, languageCode, dataforseo);
           return { term, listings: result.listings };
         })
       );
@@ -583,6 +602,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       searchedKeywords: searchKeywords,
       location: `Location code: ${locationCode}`,
       timestamp: new Date().toISOString(),
+      cache: dataforseo.getCacheInfo(),
       methodology,
       debug: {
         totalListingsFetched: uniqueAllListings.length,
@@ -590,6 +610,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       },
     };
 
+    await recordChannelSnapshot(workspace.workspaceId, domain, locationCode, 'local', sov.byListings, sov);
+
     return res.status(200).json(response);
 
   } catch (error) {
@@ -1,4 +1,8 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createDataForSEOClient } from '../shared/dataforseo.js';
+import type { DataForSEOItemsResult, DataForSEOResponse } from '../shared/dataforseo.js';
+import { getDataForSEOAuth } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
 
 /**
  * Keyword Suggestions API
@@ -13,6 +17,15 @@ interface KeywordSuggestion {
   cpc: number;
 }
 
+interface SuggestionItem {
+  keyword: string;
+  keyword_info?: {
+    search_volume?: number;
+    competition?: number;
+    cpc?: number;
+  };
+}
+
 interface KeywordSuggestionsResponse {
   suggestions: KeywordSuggestion[];
   seedKeyword: string;
@@ -22,12 +35,17 @@ interface KeywordSuggestionsResponse {
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -44,60 +62,41 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'seedKeyword is required' });
     }
 
-    const login = process.env.DATAFORSEO_LOGIN;
-    const password = process.env.DATAFORSEO_PASSWORD;
+    const auth = await getDataForSEOAuth(workspace.workspaceId);
 
-    if (!login || !password) {
+    if (!auth) {
       return res.status(500).json({
         error: 'DataForSEO credentials not configured'
       });
     }
 
-    const auth = Buffer.from(`${login}:${password}`).toString('base64');
+    const dataforseo = createDataForSEOClient({ auth, forceRefresh: req.body?.forceRefresh === true });
 
     // Use DataForSEO Labs Keyword Suggestions API
-    const response = await fetch(
-      'https://api.dataforseo.com/v3/dataforseo_labs/google/keyword_suggestions/live',
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${auth}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify([{
-          keyword: seedKeyword,
-          location_code: locationCode,
-          language_code: languageCode,
-          include_serp_info: false,
-          include_seed_keyword: true,
-          limit: 50,
-          filters: [
-            // Filter for keywords with decent search volume
-            ['keyword_info.search_volume', '>', 100]
-          ],
-          order_by: ['keyword_info.search_volume,desc'],
-        }]),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`DataForSEO Keyword Suggestions API error: ${response.status} - ${errorText}`);
+    let data: DataForSEOResponse<DataForSEOItemsResult<SuggestionItem>>;
+    try {
+      data = await dataforseo.post<DataForSEOItemsResult<SuggestionItem>>('dataforseo_labs/google/keyword_suggestions/live', [{
+        keyword: seedKeyword,
+        location_code: locationCode,
+        language_code: languageCode,
+        include_serp_info: false,
+        include_seed_keyword: true,
+        limit: 50,
+        filters: [
+          // Filter for keywords with decent search volume
+          ['keyword_info.search_volume', '>', 100]
+        ],
+        order_by: ['keyword_info.search_volume,desc'],
+      }]);
+    } catch (error) {
+      console.error('DataForSEO Keyword Suggestions API error:', error);
       return res.status(500).json({ error: 'Failed to fetch keyword suggestions' });
     }
 
-    const data = await response.json();
     const items = data?.tasks?.[0]?.result?.[0]?.items || [];
 
     // Extract and format suggestions
-    let suggestions: KeywordSuggestion[] = items.map((item: {
-      keyword: string;
-      keyword_info?: {
-        search_volume?: number;
-        competition?: number;
-        cpc?: number;
-      };
-    }) => ({
+    let suggestions: KeywordSuggestion[] = items.map(item => ({
       keyword: item.keyword,
       searchVolume: item.keyword_info?.search_volume || 0,
       competition: item.keyword_info?.competition || 0,
@@ -1,4 +1,10 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createDataForSEOClient } from '../shared/dataforseo.js';
+import type { CacheInfo } from '../shared/types.js';
+import type { DataForSEOClient, DataForSEOItemsResult } from '../shared/dataforseo.js';
+import { getDataForSEOAuth } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
+import { recordChannelSnapshot } from '../shared/alertDelivery.js';
 
 /**
  * Paid Ads SOV API
@@ -68,6 +74,32 @@ interface PaidKeyword {
   competition: number;
 }
 
+// Paid metrics of one month in the historical rank overview
+interface PaidMetrics {
+  etv?: number;
+  count?: number;
+  estimated_paid_traffic_cost?: number;
+  pos_1?: number;
+  pos_2_3?: number;
+  pos_4_10?: number;
+  pos_11_20?: number;
+  pos_21_30?: number;
+  pos_31_40?: number;
+  pos_41_50?: number;
+}
+
+interface HistoricalRankItem {
+  metrics?: { paid?: PaidMetrics | null } | null;
+}
+
+interface PaidRankedKeywordItem {
+  keyword_data?: {
+    keyword?: string;
+    keyword_info?: { search_volume?: number; cpc?: number; competition?: number };
+  };
+  ranked_serp_element?: { serp_item?: { rank_group?: number; url?: string } };
+}
+
 interface DomainPaidData {
   domain: string;
   paidKeywordsCount: number;
@@ -97,6 +129,7 @@ interface PaidAdsResponse {
     totalSpend: number;
   };
   timestamp: string;
+  cache: CacheInfo | null;
   debug?: {
     apiStatus: string;
     method: string;
@@ -112,7 +145,7 @@ interface PaidAdsResponse {
 async function fetchHistoricalPaidData(
   domain: string,
   locationCode: number,
-  auth: string
+  dataforseo: DataForSEOClient
 ): Promise<DomainPaidData | null> {
   try {
     const languageCode = getLanguageForLocation(locationCode);
@@ -120,31 +153,13 @@ async function fetchHistoricalPaidData(
 
     console.log(`Fetching historical paid data for ${domain} (location: ${locationCode}, lang: ${languageCode}, from: ${dateFrom}, to: ${dateTo})`);
 
-    const response = await fetch(
-      'https://api.dataforseo.com/v3/dataforseo_labs/google/historical_rank_overview/live',
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${auth}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify([{
-          target: domain,
-          location_code: locationCode,
-          language_code: languageCode,
-          date_from: dateFrom,
-          date_to: dateTo,
-        }]),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Historical rank API error for ${domain}: ${response.status} - ${errorText}`);
-      return null;
-    }
-
-    const data = await response.json();
+    const data = await dataforseo.post<DataForSEOItemsResult<HistoricalRankItem>>('dataforseo_labs/google/historical_rank_overview/live', [{
+      target: domain,
+      location_code: locationCode,
+      language_code: languageCode,
+      date_from: dateFrom,
+      date_to: dateTo,
+    }]);
     console.log(`Historical rank response for ${domain}:`, JSON.stringify(data).substring(0, 2000));
 
     const task = data?.tasks?.[0];
@@ -164,7 +179,7 @@ async function fetchHistoricalPaidData(
 
     // Get the most recent month's data or aggregate across months
     // Items are ordered by date, find the most recent with paid data
-    let latestPaidMetrics: any = null;
+    let latestPaidMetrics: PaidMetrics | null = null;
     let totalPaidTraffic = 0;
     let totalPaidSpend = 0;
     let totalPaidCount = 0;
@@ -172,7 +187,7 @@ async function fetchHistoricalPaidData(
 
     for (const item of items) {
       const paidMetrics = item?.metrics?.paid;
-      if (paidMetrics && (paidMetrics.etv > 0 || paidMetrics.count > 0)) {
+      if (paidMetrics && ((paidMetrics.etv ?? 0) > 0 || (paidMetrics.count ?? 0) > 0)) {
         if (!latestPaidMetrics) {
           latestPaidMetrics = paidMetrics;
         }
@@ -194,7 +209,7 @@ async function fetchHistoricalPaidData(
       return null;
     }
 
-    const metrics = latestPaidMetrics || {};
+    const metrics: PaidMetrics = latestPaidMetrics || {};
 
     // Position distribution from latest month
     const positionDistribution = {
@@ -241,39 +256,25 @@ async function fetchHistoricalPaidData(
 async function fetchTopPaidKeywords(
   domain: string,
   locationCode: number,
-  auth: string
+  dataforseo: DataForSEOClient
 ): Promise<PaidKeyword[]> {
   try {
     const languageCode = getLanguageForLocation(locationCode);
 
-    const response = await fetch(
-      'https://api.dataforseo.com/v3/dataforseo_labs/google/ranked_keywords/live',
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${auth}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify([{
-          target: domain,
-          location_code: locationCode,
-          language_code: languageCode,
-          item_types: ['paid'],
-          limit: 20,
-          order_by: ['keyword_data.keyword_info.search_volume,desc'],
-        }]),
-      }
-    );
-
-    if (!response.ok) return [];
-
-    const data = await response.json();
+    const data = await dataforseo.post<DataForSEOItemsResult<PaidRankedKeywordItem>>('dataforseo_labs/google/ranked_keywords/live', [{
+      target: domain,
+      location_code: locationCode,
+      language_code: languageCode,
+      item_types: ['paid'],
+      limit: 20,
+      order_by: ['keyword_data.keyword_info.search_volume,desc'],
+    }]);
     const task = data?.tasks?.[0];
     if (task?.status_code !== 20000) return [];
 
     const items = task?.result?.[0]?.items || [];
 
-    return items.slice(0, 20).map((item: any) => ({
+    return items.slice(0, 20).map(item => ({
       keyword: item.keyword_data?.keyword || '',
       searchVolume: item.keyword_data?.keyword_info?.search_volume || 0,
       cpc: item.keyword_data?.keyword_info?.cpc || 0,
@@ -293,12 +294,12 @@ async function fetchTopPaidKeywords(
 async function fetchPaidData(
   domain: string,
   locationCode: number,
-  auth: string
+  dataforseo: DataForSEOClient
 ): Promise<DomainPaidData | null> {
   // Fetch historical data and top keywords in parallel
   const [historicalData, topKeywords] = await Promise.all([
-    fetchHistoricalPaidData(domain, locationCode, auth),
-    fetchTopPaidKeywords(domain, locationCode, auth),
+    fetchHistoricalPaidData(domain, locationCode, dataforseo),
+    fetchTopPaidKeywords(domain, locationCode, dataforseo),
   ]);
 
   if (!historicalData) {
@@ -383,12 +384,17 @@ function calculateSOV(
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -400,16 +406,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'domain is required' });
     }
 
-    const login = process.env.DATAFORSEO_LOGIN;
-    const password = process.env.DATAFORSEO_PASSWORD;
+    const auth = await getDataForSEOAuth(workspace.workspaceId);
 
-    if (!login || !password) {
+    if (!auth) {
       return res.status(500).json({
         error: 'DataForSEO credentials not configured'
       });
     }
 
-    const auth = Buffer.from(`${login}:${password}`).toString('base64');
+    const dataforseo = createDataForSEOClient({
+      auth,
+      forceRefresh: req.body?.forceRefresh === true,
+      project: { workspaceId: workspace.workspaceId, domain, locationCode }
+    });
 
     console.log(`Fetching paid ads data for ${domain} and competitors (location: ${locationCode})`);
 
@@ -424,7 +433,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Fetch data for all domains in parallel using historical + keywords endpoints
     const allDomains = [domain, ...competitorDomains];
     const results = await Promise.all(
-      allDomains.map(d => fetchPaidData(d, locationCode, auth))
+      allDomains.map(d => fetchPaidData(d, locationCode, dataforseo))
     );
 
     const yourDomainData = results[0];
@@ -441,6 +450,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       sov,
       totalMarket,
       timestamp: new Date().toISOString(),
+      cache: dataforseo.getCacheInfo(),
       debug: {
         apiStatus: 'ok',
         method: `DataForSEO historical_rank_overview (${dateFrom} to ${dateTo})`,
@@ -449,6 +459,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       },
     };
 
+    await recordChannelSnapshot(workspace.workspaceId, domain, locationCode, 'paid', sov.byTraffic, sov);
+
     return res.status(200).json(response);
 
   } catch (error) {
@@ -1,4 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizeWorkspace } from '../../shared/credentials.js';
 
 async function getPrismaClient() {
   if (!process.env.DATABASE_URL) {
@@ -15,12 +16,17 @@ async function getPrismaClient() {
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   const prisma = await getPrismaClient();
 
   if (!prisma) {
@@ -37,6 +43,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
+    // Another workspace's project reads as missing; deleting it would cascade to its snapshots and rules
+    const owned = await prisma.project.findFirst({
+      where: { id, workspaceId: workspace.workspaceId },
+      select: { id: true }
+    });
+    if (!owned) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
     if (req.method === 'GET') {
       const project = await prisma.project.findUnique({
         where: { id },
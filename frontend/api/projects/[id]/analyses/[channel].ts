@@ -0,0 +1,106 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Prisma } from '@prisma/client';
+import { authorizeWorkspace } from '../../../../shared/credentials.js';
+import { isAnalysisChannel, validateChannelPayload } from '../../../../shared/projectData.js';
+import type { SavedChannelAnalysis } from '../../../../shared/types.js';
+
+/**
+ * Latest analysis of one channel ('paid' | 'youtube' | 'local' | 'ai') on a project
+ * GET          -> { channel, data, updatedAt }, 404 when the channel was never analysed
+ * PUT { data } -> replace it with the panel's latest API response
+ * DELETE       -> clear it
+ * Only the latest analysis is kept; the SOV history lives in the channel snapshots.
+ */
+
+async function getPrismaClient() {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    return new PrismaClient();
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, channel } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Project ID is required' });
+  }
+  if (!isAnalysisChannel(channel)) {
+    return res.status(400).json({ error: `Unknown channel: ${channel}` });
+  }
+
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      message: 'Projects feature requires DATABASE_URL environment variable.'
+    });
+  }
+
+  try {
+    const project = await prisma.project.findFirst({
+      where: { id, workspaceId: workspace.workspaceId }
+    });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const where = { projectId_channel: { projectId: id, channel } };
+
+    if (req.method === 'GET') {
+      const row = await prisma.channelAnalysis.findUnique({ where });
+      if (!row) {
+        return res.status(404).json({ error: 'No saved analysis for this channel' });
+      }
+      const analysis: SavedChannelAnalysis = { channel, data: row.data, updatedAt: row.updatedAt.toISOString() };
+      return res.status(200).json(analysis);
+    }
+
+    if (req.method === 'DELETE') {
+      await prisma.channelAnalysis.deleteMany({ where: { projectId: id, channel } });
+      return res.status(204).end();
+    }
+
+    const dataResult = validateChannelPayload(req.body?.data, 'data');
+    if (!dataResult.success) {
+      return res.status(400).json({ error: dataResult.error });
+    }
+
+    const data = dataResult.data! as Prisma.InputJsonObject;
+    const row = await prisma.channelAnalysis.upsert({
+      where,
+      create: { projectId: id, channel, data },
+      update: { data }
+    });
+
+    const analysis: SavedChannelAnalysis = { channel, data: row.data, updatedAt: row.updatedAt.toISOString() };
+    return res.status(200).json(analysis);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -1,4 +1,8 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Prisma } from '@prisma/client';
+import { calculateSOS, calculateSOV, calculateGrowthGap, DESKTOP_CTR_MODEL } from '../../../shared/calculations.js';
+import { validateCTRModel } from '../../../shared/validation.js';
+import { authorizeWorkspace } from '../../../shared/credentials.js';
 
 async function getPrismaClient() {
   if (!process.env.DATABASE_URL) {
@@ -12,28 +16,20 @@ async function getPrismaClient() {
   }
 }
 
-const CTR_CURVE: Record<number, number> = {
-  1: 0.28, 2: 0.15, 3: 0.09, 4: 0.06, 5: 0.04,
-  6: 0.03, 7: 0.025, 8: 0.02, 9: 0.018, 10: 0.015,
-  11: 0.012, 12: 0.01, 13: 0.009, 14: 0.008, 15: 0.007,
-  16: 0.006, 17: 0.005, 18: 0.004, 19: 0.003, 20: 0.002
-};
-
-function getCTR(position: number): number {
-  if (position <= 0) return 0;
-  if (position > 20) return 0.001;
-  return CTR_CURVE[position] || 0.001;
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -54,8 +50,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const project = await prisma.project.findUnique({
-      where: { id },
+    const project = await prisma.project.findFirst({
+      where: { id, workspaceId: workspace.workspaceId },
       include: {
         brandKeywords: true,
         rankedKeywords: true
@@ -66,55 +62,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    // Calculate SOS
-    const brandVolume = project.brandKeywords
-      .filter(k => k.isOwnBrand)
-      .reduce((sum, k) => sum + k.searchVolume, 0);
-
-    const totalBrandVolume = project.brandKeywords
-      .reduce((sum, k) => sum + k.searchVolume, 0);
-
-    const shareOfSearch = totalBrandVolume > 0
-      ? (brandVolume / totalBrandVolume) * 100
-      : 0;
-
-    // Calculate SOV
-    const keywordBreakdown = project.rankedKeywords.map(kw => {
-      const ctr = getCTR(kw.position);
-      const visibleVolume = kw.searchVolume * ctr;
-      return {
-        ...kw,
-        ctr: Math.round(ctr * 1000) / 10,
-        visibleVolume: Math.round(visibleVolume)
-      };
-    });
-
-    const visibleVolume = keywordBreakdown.reduce((sum, k) => sum + (k.visibleVolume || 0), 0);
-    const totalMarketVolume = project.rankedKeywords.reduce((sum, k) => sum + k.searchVolume, 0);
-
-    const shareOfVoice = totalMarketVolume > 0
-      ? (visibleVolume / totalMarketVolume) * 100
-      : 0;
+    // Use the CTR model from the request, then the project's tracked model, then the default curve.
+    // Stored ranked keywords carry no SERP features, so SERP adjustments never apply here.
+    const ctrModel = validateCTRModel(req.body?.ctrModel ?? project.ctrModel).data ?? DESKTOP_CTR_MODEL;
 
-    // Calculate Gap
-    const gap = shareOfVoice - shareOfSearch;
-    let interpretation: string;
-    if (gap > 2) interpretation = 'growth_potential';
-    else if (gap < -2) interpretation = 'missing_opportunities';
-    else interpretation = 'balanced';
+    const sos = calculateSOS(project.brandKeywords);
+    const sov = calculateSOV(project.rankedKeywords, { model: ctrModel });
+    const gap = calculateGrowthGap(sos.shareOfSearch, sov.shareOfVoice);
 
     // Save calculation to database
     const calculation = await prisma.calculation.create({
       data: {
         projectId: id,
-        shareOfSearch: Math.round(shareOfSearch * 10) / 10,
-        brandVolume,
-        totalBrandVolume,
-        shareOfVoice: Math.round(shareOfVoice * 10) / 10,
-        visibleVolume: Math.round(visibleVolume),
-        totalMarketVolume,
-        gap: Math.round(gap * 10) / 10,
-        interpretation
+        shareOfSearch: sos.shareOfSearch,
+        brandVolume: sos.brandVolume,
+        totalBrandVolume: sos.totalBrandVolume,
+        shareOfVoice: sov.shareOfVoice,
+        visibleVolume: sov.visibleVolume,
+        totalMarketVolume: sov.totalMarketVolume,
+        gap: gap.gap,
+        interpretation: gap.interpretation,
+        ctrModel: sov.ctrModel as unknown as Prisma.InputJsonValue
       }
     });
 
@@ -128,7 +96,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         shareOfVoice: calculation.shareOfVoice,
         visibleVolume: calculation.visibleVolume,
         totalMarketVolume: calculation.totalMarketVolume,
-        keywordBreakdown
+        keywordBreakdown: sov.keywordBreakdown,
+        ctrModel: sov.ctrModel as unknown as Prisma.InputJsonValue
       },
       gap: {
         gap: calculation.gap,
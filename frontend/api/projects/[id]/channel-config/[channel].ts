@@ -0,0 +1,99 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Prisma } from '@prisma/client';
+import { authorizeWorkspace } from '../../../../shared/credentials.js';
+import { isAnalysisChannel, validateChannelPayload } from '../../../../shared/projectData.js';
+
+/**
+ * Setup a channel's panel analyses with, e.g. YouTube { ownedChannels, competitorChannels }
+ * GET            -> { channel, config }, config is null until one is saved
+ * PUT { config } -> replace it
+ * DELETE         -> clear it
+ */
+
+async function getPrismaClient() {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    return new PrismaClient();
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, channel } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Project ID is required' });
+  }
+  if (!isAnalysisChannel(channel)) {
+    return res.status(400).json({ error: `Unknown channel: ${channel}` });
+  }
+
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      message: 'Projects feature requires DATABASE_URL environment variable.'
+    });
+  }
+
+  try {
+    const project = await prisma.project.findFirst({
+      where: { id, workspaceId: workspace.workspaceId }
+    });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const where = { projectId_channel: { projectId: id, channel } };
+
+    if (req.method === 'GET') {
+      const row = await prisma.channelConfig.findUnique({ where });
+      return res.status(200).json({ channel, config: row?.config ?? null });
+    }
+
+    if (req.method === 'DELETE') {
+      await prisma.channelConfig.deleteMany({ where: { projectId: id, channel } });
+      return res.status(204).end();
+    }
+
+    const configResult = validateChannelPayload(req.body?.config, 'config');
+    if (!configResult.success) {
+      return res.status(400).json({ error: configResult.error });
+    }
+
+    const config = configResult.data! as Prisma.InputJsonObject;
+    const row = await prisma.channelConfig.upsert({
+      where,
+      create: { projectId: id, channel, config },
+      update: { config }
+    });
+
+    return res.status(200).json({ channel, config: row.config });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
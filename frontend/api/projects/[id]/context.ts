@@ -0,0 +1,90 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Prisma } from '@prisma/client';
+import { authorizeWorkspace } from '../../../shared/credentials.js';
+import { toProjectContext, validateProjectContext } from '../../../shared/projectData.js';
+
+/**
+ * Brand setup of a project
+ * GET                                           -> { projectId, brandName, competitors, brandContext }
+ * PUT { brandName?, competitors?, brandContext? } -> update the given fields
+ * Every channel panel compares the brand against these competitors.
+ */
+
+async function getPrismaClient() {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    return new PrismaClient();
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Project ID is required' });
+  }
+
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      message: 'Projects feature requires DATABASE_URL environment variable.'
+    });
+  }
+
+  try {
+    const project = await prisma.project.findFirst({
+      where: { id, workspaceId: workspace.workspaceId }
+    });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json(toProjectContext(project));
+    }
+
+    const contextResult = validateProjectContext(req.body);
+    if (!contextResult.success) {
+      return res.status(400).json({ error: contextResult.error });
+    }
+
+    const { brandContext, ...fields } = contextResult.data!;
+    const updated = await prisma.project.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...(brandContext ? { brandContext: brandContext as unknown as Prisma.InputJsonValue } : {})
+      }
+    });
+
+    return res.status(200).json(toProjectContext(updated));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
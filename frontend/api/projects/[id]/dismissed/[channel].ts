@@ -0,0 +1,101 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizeWorkspace } from '../../../../shared/credentials.js';
+import { isAnalysisChannel, toDismissedItem, validateDismissedItem } from '../../../../shared/projectData.js';
+
+/**
+ * Results discarded from a channel's analysis, e.g. YouTube videos about something else
+ * GET                     -> [{ itemId, label, dismissedAt }], oldest first
+ * POST { itemId, label? } -> dismiss an item (dismissing it again changes nothing)
+ * DELETE ?itemId=         -> restore an item; without itemId, restore all of the channel's items
+ */
+
+async function getPrismaClient() {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    return new PrismaClient();
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, channel, itemId } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Project ID is required' });
+  }
+  if (!isAnalysisChannel(channel)) {
+    return res.status(400).json({ error: `Unknown channel: ${channel}` });
+  }
+  if (itemId !== undefined && typeof itemId !== 'string') {
+    return res.status(400).json({ error: 'itemId must be a single id' });
+  }
+
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      message: 'Projects feature requires DATABASE_URL environment variable.'
+    });
+  }
+
+  try {
+    const project = await prisma.project.findFirst({
+      where: { id, workspaceId: workspace.workspaceId }
+    });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (req.method === 'GET') {
+      const rows = await prisma.dismissedItem.findMany({
+        where: { projectId: id, channel },
+        orderBy: { createdAt: 'asc' }
+      });
+      return res.status(200).json(rows.map(toDismissedItem));
+    }
+
+    if (req.method === 'DELETE') {
+      await prisma.dismissedItem.deleteMany({ where: { projectId: id, channel, ...(itemId ? { itemId } : {}) } });
+      return res.status(204).end();
+    }
+
+    const itemResult = validateDismissedItem(req.body);
+    if (!itemResult.success) {
+      return res.status(400).json({ error: itemResult.error });
+    }
+
+    const row = await prisma.dismissedItem.upsert({
+      where: { projectId_channel_itemId: { projectId: id, channel, itemId: itemResult.data!.itemId } },
+      create: { projectId: id, channel, ...itemResult.data! },
+      update: {}
+    });
+
+    return res.status(201).json(toDismissedItem(row));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,92 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Prisma } from '@prisma/client';
+import { authorizeWorkspace } from '../../../shared/credentials.js';
+import { validateChannelPayload } from '../../../shared/projectData.js';
+import type { SavedProjectInsights } from '../../../shared/types.js';
+
+/**
+ * Actionable insights of a project
+ * GET              -> { insights, updatedAt }, 404 when none were saved yet
+ * PUT { insights } -> replace them with the ones the app generated last
+ * Stored as generated - quick wins, actions and opportunities read the same on every device.
+ */
+
+async function getPrismaClient() {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    return new PrismaClient();
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Project ID is required' });
+  }
+
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      message: 'Projects feature requires DATABASE_URL environment variable.'
+    });
+  }
+
+  try {
+    const project = await prisma.project.findFirst({
+      where: { id, workspaceId: workspace.workspaceId }
+    });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (req.method === 'GET') {
+      if (!project.insights || !project.insightsUpdatedAt) {
+        return res.status(404).json({ error: 'No saved insights for this project' });
+      }
+      const saved: SavedProjectInsights = { insights: project.insights, updatedAt: project.insightsUpdatedAt.toISOString() };
+      return res.status(200).json(saved);
+    }
+
+    const insightsResult = validateChannelPayload(req.body?.insights, 'insights');
+    if (!insightsResult.success) {
+      return res.status(400).json({ error: insightsResult.error });
+    }
+
+    const updated = await prisma.project.update({
+      where: { id },
+      data: { insights: insightsResult.data! as Prisma.InputJsonObject, insightsUpdatedAt: new Date() }
+    });
+
+    const saved: SavedProjectInsights = { insights: updated.insights, updatedAt: updated.insightsUpdatedAt!.toISOString() };
+    return res.status(200).json(saved);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -1,4 +1,14 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizeWorkspace } from '../../shared/credentials.js';
+import { validateDomain } from '../../shared/validation.js';
+
+/**
+ * Projects
+ * GET                          -> the workspace's projects
+ * GET ?domain=&locationCode=   -> the workspace's projects for a domain, newest first;
+ *                                 panels use this to find where their analyses are stored
+ * POST { name, domain, ... }   -> create a project in the request's workspace
+ */
 
 // Dynamic import to handle missing Prisma client
 async function getPrismaClient() {
@@ -16,12 +26,17 @@ async function getPrismaClient() {
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   const prisma = await getPrismaClient();
 
   if (!prisma) {
@@ -32,8 +47,25 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
+    if (req.method === 'GET' && req.query.domain !== undefined) {
+      const domainResult = validateDomain(req.query.domain);
+      if (!domainResult.success) {
+        return res.status(400).json({ error: domainResult.error });
+      }
+      const projects = await prisma.project.findMany({
+        where: {
+          domain: domainResult.data,
+          locationCode: Number(req.query.locationCode) || 2840,
+          workspaceId: workspace.workspaceId
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+      return res.status(200).json(projects);
+    }
+
     if (req.method === 'GET') {
       const projects = await prisma.project.findMany({
+        where: { workspaceId: workspace.workspaceId },
         orderBy: { createdAt: 'desc' },
         include: {
           _count: {
@@ -55,12 +87,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return res.status(400).json({ error: 'Project name is required' });
       }
 
+      // Stored as the ?domain= lookup normalises it, so the panels find the project again
+      const domainResult = domain === undefined ? null : validateDomain(domain);
+      if (domainResult && !domainResult.success) {
+        return res.status(400).json({ error: domainResult.error });
+      }
+
       const project = await prisma.project.create({
         data: {
           name,
-          domain,
+          domain: domainResult?.data,
           locationCode: locationCode || 2840,
-          languageCode: languageCode || 'en'
+          languageCode: languageCode || 'en',
+          workspaceId: workspace.workspaceId
         }
       });
 
@@ -0,0 +1,323 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Prisma } from '@prisma/client';
+import { createDataForSEOClient } from '../shared/dataforseo.js';
+import type { DataForSEOClient, DataForSEOItemsResult } from '../shared/dataforseo.js';
+import { getDataForSEOAuth } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
+import { RANK_HISTORY_DAYS, extractDomainPositions, validateWatchList } from '../shared/rankTracking.js';
+import { extractSerpFeatures } from '../shared/serpFeatures.js';
+import type { SerpResultItem } from '../shared/serpFeatures.js';
+import type { RankCheck, RankTrackingData, SerpFeatureSlot, WatchedKeyword } from '../shared/types.js';
+
+/**
+ * Rank Tracking API
+ * Checks a project's watched keywords on the live Google SERP and records the
+ * position of the domain and each tracked competitor, plus the SERP features on
+ * the page and who holds them.
+ *
+ * GET  ?domain=&locationCode=                             -> watch list, competitors and recent checks
+ * POST { domain, locationCode, keywords, competitors }    -> replace the watch list, then check keywords not checked today
+ * GET  (Vercel Cron, no params)                           -> daily check for every project with a watch list, resumed hourly 05-08 UTC
+ * Watch lists belong to the project created by snapshot tracking, so a domain has to be tracked first.
+ */
+
+async function getPrismaClient() {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    return new PrismaClient();
+  } catch {
+    return null;
+  }
+}
+
+type PrismaClientInstance = NonNullable<Awaited<ReturnType<typeof getPrismaClient>>>;
+
+function cleanDomain(domain: string): string {
+  return domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/.*$/, '').trim();
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Allow an hour of slack so the daily cron never skips a day because the last run finished late
+const SCHEDULE_SLACK_MS = 60 * 60 * 1000;
+
+// SERP requests in flight per project; one live request per keyword
+const CHECK_CONCURRENCY = 10;
+
+// No new batch starts after this much of the function's 300 s (vercel.json); the last
+// batch and the response still have to fit. Keywords left over are picked up by the next run.
+const CHECK_TIME_BUDGET_MS = 240 * 1000;
+
+function isCronRequest(req: VercelRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return req.headers.authorization === `Bearer ${secret}`;
+}
+
+// ============================================
+// SERP CHECKS
+// ============================================
+
+async function fetchSerp(
+  keyword: string,
+  domains: string[],
+  locationCode: number,
+  languageCode: string,
+  dataforseo: DataForSEOClient
+) {
+  const data = await dataforseo.post<DataForSEOItemsResult<SerpResultItem>>('serp/google/organic/live/advanced', [{
+    keyword,
+    location_code: locationCode,
+    language_code: languageCode,
+    depth: 100
+  }]);
+
+  const items: SerpResultItem[] = data.tasks?.[0]?.result?.[0]?.items || [];
+  return {
+    positions: extractDomainPositions(items, domains),
+    features: extractSerpFeatures(items)
+  };
+}
+
+/**
+ * Record positions for the project's watched keywords that have no check since checkedSince
+ * (all of them when null). Each batch is stored as soon as it is back, so a run cut short
+ * by the deadline keeps what it checked and the next run continues with the rest.
+ */
+async function checkRankings(
+  prisma: PrismaClientInstance,
+  projectId: string,
+  auth: string,
+  checkedSince: Date | null,
+  deadline: number
+): Promise<{ checked: number; remaining: number }> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { watchedKeywords: true }
+  });
+
+  if (!project || !project.domain) {
+    throw new Error('Project not found or has no domain');
+  }
+
+  let keywords: string[] = project.watchedKeywords.map((k: { keyword: string }) => k.keyword);
+  if (checkedSince) {
+    const recentChecks = await prisma.rankCheck.findMany({
+      where: { projectId, checkedAt: { gte: checkedSince } },
+      distinct: ['keyword'],
+      select: { keyword: true }
+    });
+    const checked = new Set(recentChecks.map((c: { keyword: string }) => c.keyword));
+    keywords = keywords.filter(k => !checked.has(k));
+  }
+  if (keywords.length === 0) return { checked: 0, remaining: 0 };
+
+  const domains = [project.domain, ...project.trackedCompetitors];
+  const dataforseo = createDataForSEOClient({
+    auth,
+    project: { workspaceId: project.workspaceId, domain: project.domain, locationCode: project.locationCode }
+  });
+
+  let checked = 0;
+  while (checked < keywords.length && Date.now() < deadline) {
+    const batch = keywords.slice(checked, checked + CHECK_CONCURRENCY);
+    const results = await Promise.all(batch.map(async keyword => ({
+      keyword,
+      ...await fetchSerp(keyword, domains, project.locationCode, project.languageCode, dataforseo)
+    })));
+
+    const checkedAt = new Date();
+    await prisma.rankCheck.createMany({
+      data: results.flatMap(({ keyword, positions }) => positions.map(p => ({ projectId, keyword, ...p, checkedAt })))
+    });
+    await prisma.serpFeatureCheck.createMany({
+      data: results.map(({ keyword, features }) => ({
+        projectId,
+        keyword,
+        features: features as unknown as Prisma.InputJsonValue,
+        checkedAt
+      }))
+    });
+    checked += batch.length;
+  }
+
+  return { checked, remaining: keywords.length - checked };
+}
+
+/**
+ * Daily run: every watched keyword without a check in the last day is checked, project by
+ * project, until the time budget is spent. Projects not reached are reported as deferred;
+ * the next cron run (hourly within the window in vercel.json) starts with them.
+ */
+async function runScheduledRankChecks(prisma: PrismaClientInstance, deadline: number) {
+  const projects = await prisma.project.findMany({
+    where: { domain: { not: null }, watchedKeywords: { some: {} } },
+    select: { id: true, workspaceId: true }
+  });
+
+  const checkedSince = new Date(Date.now() - DAY_MS + SCHEDULE_SLACK_MS);
+  const checked: string[] = [];
+  const deferred: string[] = [];
+  let keywords = 0;
+  const failed: Array<{ projectId: string; error: string }> = [];
+
+  for (const project of projects) {
+    if (Date.now() >= deadline) {
+      deferred.push(project.id);
+      continue;
+    }
+
+    try {
+      // Each project is checked with its own workspace's credentials
+      const auth = await getDataForSEOAuth(project.workspaceId);
+      if (!auth) throw new Error('DataForSEO credentials not configured for workspace');
+      const result = await checkRankings(prisma, project.id, auth, checkedSince, deadline);
+      keywords += result.checked;
+      if (result.remaining > 0) deferred.push(project.id);
+      else if (result.checked > 0) checked.push(project.id);
+    } catch (error) {
+      console.error(`Rank check failed for project ${project.id}:`, error);
+      failed.push({ projectId: project.id, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return { projects: projects.length, checked, deferred, keywords, failed };
+}
+
+async function loadRankTracking(prisma: PrismaClientInstance, projectId: string): Promise<RankTrackingData> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { watchedKeywords: { orderBy: { searchVolume: 'desc' } } }
+  });
+
+  const since = new Date(Date.now() - RANK_HISTORY_DAYS * DAY_MS);
+  const checks = await prisma.rankCheck.findMany({
+    where: { projectId, checkedAt: { gte: since } },
+    orderBy: { checkedAt: 'asc' },
+    select: { keyword: true, domain: true, position: true, url: true, checkedAt: true }
+  });
+  const featureChecks = await prisma.serpFeatureCheck.findMany({
+    where: { projectId, checkedAt: { gte: since } },
+    orderBy: { checkedAt: 'asc' },
+    select: { keyword: true, features: true, checkedAt: true }
+  });
+
+  return {
+    projectId,
+    competitors: project?.trackedCompetitors ?? [],
+    keywords: (project?.watchedKeywords ?? []).map((k: WatchedKeyword) => ({ keyword: k.keyword, searchVolume: k.searchVolume })),
+    checks: checks.map((c: Omit<RankCheck, 'checkedAt'> & { checkedAt: Date }) => ({ ...c, checkedAt: c.checkedAt.toISOString() })),
+    featureChecks: featureChecks.map((c: { keyword: string; features: Prisma.JsonValue; checkedAt: Date }) => ({
+      keyword: c.keyword,
+      features: Array.isArray(c.features) ? c.features as unknown as SerpFeatureSlot[] : [],
+      checkedAt: c.checkedAt.toISOString()
+    }))
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+  const { workspaceId } = workspace;
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      message: 'Rank tracking requires DATABASE_URL environment variable.'
+    });
+  }
+
+  const deadline = Date.now() + CHECK_TIME_BUDGET_MS;
+
+  try {
+    // Daily run triggered by Vercel Cron
+    if (req.method === 'GET' && !req.query.domain) {
+      if (!isCronRequest(req)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const result = await runScheduledRankChecks(prisma, deadline);
+      return res.status(200).json(result);
+    }
+
+    const params = req.method === 'GET' ? req.query : (req.body || {});
+    if (typeof params.domain !== 'string' || !params.domain.trim()) {
+      return res.status(400).json({ error: 'Domain is required' });
+    }
+    const domain = cleanDomain(params.domain);
+    const locationCode = Number(params.locationCode) || 2840;
+
+    const project = await prisma.project.findFirst({
+      where: { domain, locationCode, workspaceId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (req.method === 'GET') {
+      if (!project) {
+        const empty: RankTrackingData = { projectId: null, competitors: [], keywords: [], checks: [], featureChecks: [] };
+        return res.status(200).json(empty);
+      }
+      return res.status(200).json(await loadRankTracking(prisma, project.id));
+    }
+
+    if (!project) {
+      return res.status(404).json({ error: 'Start tracking this domain before watching keywords' });
+    }
+
+    const watchList = validateWatchList(req.body, domain);
+    if (!watchList.success) {
+      return res.status(400).json({ error: watchList.error });
+    }
+    const { keywords, competitors } = watchList.data!;
+
+    const auth = keywords.length > 0 ? await getDataForSEOAuth(workspaceId) : null;
+    if (keywords.length > 0 && !auth) {
+      return res.status(500).json({ error: 'DataForSEO credentials not configured for this workspace' });
+    }
+
+    // A new competitor has no reading for today's keywords yet, so re-check all of them
+    const competitorsAdded = competitors.some(c => !project.trackedCompetitors.includes(c));
+
+    await prisma.project.update({
+      where: { id: project.id },
+      data: {
+        trackedCompetitors: competitors,
+        watchedKeywords: {
+          deleteMany: {},
+          create: keywords
+        }
+      }
+    });
+
+    // Keywords not reached before the deadline are checked by the next cron run
+    if (auth) {
+      const startOfDay = new Date(new Date().toISOString().slice(0, 10));
+      await checkRankings(prisma, project.id, auth, competitorsAdded ? null : startOfDay, deadline);
+    }
+
+    return res.status(200).json(await loadRankTracking(prisma, project.id));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
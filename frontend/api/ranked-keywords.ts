@@ -1,54 +1,9 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-// ============================================
-// INLINE VALIDATION (Vercel doesn't support lib imports well)
-// ============================================
-
-interface ValidationResult<T> {
-  success: boolean;
-  data?: T;
-  error?: string;
-}
-
-const DOMAIN_REGEX = /^(?:[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,}$/;
-
-const VALID_LOCATION_CODES = new Set([
-  2276, 2840, 2826, 2250, 2724, 2380, 2528, 2056, 2040, 2756, 2616, 2752, 2578, 2208, 2246
-]);
-
-const VALID_LANGUAGE_CODES = new Set([
-  'de', 'en', 'fr', 'es', 'it', 'nl', 'pl', 'sv', 'no', 'da', 'fi', 'pt'
-]);
-
-function validateDomain(domain: unknown): ValidationResult<string> {
-  if (typeof domain !== 'string') return { success: false, error: 'Domain must be a string' };
-  const cleaned = domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/.*$/, '').trim();
-  if (!cleaned) return { success: false, error: 'Domain is required' };
-  if (cleaned.length > 253) return { success: false, error: 'Domain is too long' };
-  if (!DOMAIN_REGEX.test(cleaned)) return { success: false, error: 'Invalid domain format' };
-  return { success: true, data: cleaned };
-}
-
-function validateLocationCode(code: unknown): ValidationResult<number> {
-  if (typeof code !== 'number' || !Number.isInteger(code)) return { success: false, error: 'Location code must be an integer' };
-  if (!VALID_LOCATION_CODES.has(code)) return { success: false, error: `Invalid location code: ${code}` };
-  return { success: true, data: code };
-}
-
-function validateLanguageCode(code: unknown): ValidationResult<string> {
-  if (typeof code !== 'string') return { success: false, error: 'Language code must be a string' };
-  const cleaned = code.toLowerCase().trim();
-  if (!VALID_LANGUAGE_CODES.has(cleaned)) return { success: false, error: `Invalid language code: ${code}` };
-  return { success: true, data: cleaned };
-}
-
-function validateLimit(limit: unknown, max: number = 1000): ValidationResult<number> {
-  if (limit === undefined || limit === null) return { success: true, data: 100 };
-  if (typeof limit !== 'number' || !Number.isInteger(limit)) return { success: false, error: 'Limit must be an integer' };
-  if (limit < 1) return { success: false, error: 'Limit must be at least 1' };
-  if (limit > max) return { success: false, error: `Limit cannot exceed ${max}` };
-  return { success: true, data: limit };
-}
+import { validateDomain, validateLocationCode, validateLanguageCode, validateLimit } from '../shared/validation.js';
+import { createDataForSEOClient } from '../shared/dataforseo.js';
+import type { DataForSEOItemsResult } from '../shared/dataforseo.js';
+import { getDataForSEOAuth } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
 
 function getAllowedOrigin(requestOrigin: string | undefined): string {
   const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',') || [];
@@ -57,8 +12,6 @@ function getAllowedOrigin(requestOrigin: string | undefined): string {
   return process.env.PRODUCTION_URL || '*';
 }
 
-// ============================================
-
 interface RankedKeywordItem {
   keyword_data: {
     keyword: string;
@@ -74,6 +27,17 @@ interface RankedKeywordItem {
       rank_group: number;
       relative_url: string;
     };
+    serp_item_types?: string[]; // Every element type present on the SERP
+  };
+}
+
+// SERP elements that pull clicks away from organic results
+function getSerpFeatures(itemTypes?: string[]) {
+  if (!itemTypes || itemTypes.length === 0) return undefined;
+  return {
+    ads: itemTypes.includes('paid'),
+    featuredSnippet: itemTypes.includes('featured_snippet'),
+    localPack: itemTypes.includes('local_pack')
   };
 }
 
@@ -146,7 +110,6 @@ const CATEGORY_MAP: Record<number, string> = {
   223: 'Computer Accessories',
   267: 'Mobile Phones',
   270: 'Audio Equipment',
-  271: 'Video Equipment',
   386: 'Cameras',
   295: 'Gaming',
   1279: 'Smart Home',
@@ -348,12 +311,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const origin = getAllowedOrigin(req.headers.origin);
   res.setHeader('Access-Control-Allow-Origin', origin);
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -385,45 +353,35 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const languageCode = languageResult.data!;
     const limit = limitResult.data!;
 
-    // Use environment variables for API credentials
-    const login = process.env.DATAFORSEO_LOGIN;
-    const password = process.env.DATAFORSEO_PASSWORD;
+    // Use environment variables for API credentials (or the mock server)
+    const auth = await getDataForSEOAuth(workspace.workspaceId);
 
-    if (!login || !password) {
+    if (!auth) {
       return res.status(500).json({ error: 'DataForSEO credentials not configured on server' });
     }
 
-    const auth = Buffer.from(`${login}:${password}`).toString('base64');
-
-    const response = await fetch('https://api.dataforseo.com/v3/dataforseo_labs/google/ranked_keywords/live', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${auth}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify([{
-        target: domain,
-        location_code: locationCode,
-        language_code: languageCode,
-        item_types: ['organic'],
-        limit,
-        filters: [
-          ['keyword_data.keyword_info.search_volume', '>', 0],
-          'and',
-          ['ranked_serp_element.serp_item.rank_group', '<=', 20]
-        ],
-        order_by: ['keyword_data.keyword_info.search_volume,desc']
-      }])
+    const dataforseo = createDataForSEOClient({
+      auth,
+      forceRefresh: req.body?.forceRefresh === true,
+      project: { workspaceId: workspace.workspaceId, domain, locationCode }
     });
 
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error(data.status_message || 'DataForSEO API error');
-    }
+    const data = await dataforseo.post<DataForSEOItemsResult<RankedKeywordItem>>('dataforseo_labs/google/ranked_keywords/live', [{
+      target: domain,
+      location_code: locationCode,
+      language_code: languageCode,
+      item_types: ['organic'],
+      limit,
+      filters: [
+        ['keyword_data.keyword_info.search_volume', '>', 0],
+        'and',
+        ['ranked_serp_element.serp_item.rank_group', '<=', 20]
+      ],
+      order_by: ['keyword_data.keyword_info.search_volume,desc']
+    }]);
 
     const items = data.tasks?.[0]?.result?.[0]?.items || [];
-    const results = items.map((item: RankedKeywordItem) => {
+    const results = items.map(item => {
       // Calculate YoY trend from monthly searches if available
       let trend: number | undefined;
       const monthlySearches = item.keyword_data.keyword_info.monthly_searches;
@@ -448,11 +406,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // Include keyword difficulty for Hidden Gems analysis
         keywordDifficulty: item.keyword_data.keyword_info.keyword_difficulty,
         // Include YoY trend for rising keyword detection
-        trend
+        trend,
+        // SERP features used to adjust CTR in SOV calculations
+        serpFeatures: getSerpFeatures(item.ranked_serp_element.serp_item_types)
       };
     });
 
-    return res.status(200).json({ results });
+    return res.status(200).json({ results, cache: dataforseo.getCacheInfo() });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     return res.status(500).json({ error: message });
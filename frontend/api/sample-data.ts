@@ -26,6 +26,7 @@ const SAMPLE_RANKED_KEYWORDS = [
 export default function handler(_req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'X-Workspace-Id');
 
   if (_req.method === 'OPTIONS') {
     return res.status(200).end();
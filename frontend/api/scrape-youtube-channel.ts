@@ -1,4 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getYouTubeApiBaseUrl, getYouTubeApiKeys } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
 
 /**
  * Scrape YouTube Channel from Website
@@ -177,7 +179,7 @@ async function fetchChannelStats(channelIdentifier: string, apiKey: string): Pro
     if (!channelIdentifier.startsWith('UC')) {
       // Search for the channel
       const handle = channelIdentifier.startsWith('@') ? channelIdentifier : `@${channelIdentifier}`;
-      const searchUrl = new URL('https://www.googleapis.com/youtube/v3/search');
+      const searchUrl = new URL(`${getYouTubeApiBaseUrl()}/search`);
       searchUrl.searchParams.set('part', 'snippet');
       searchUrl.searchParams.set('type', 'channel');
       searchUrl.searchParams.set('q', handle);
@@ -196,7 +198,7 @@ async function fetchChannelStats(channelIdentifier: string, apiKey: string): Pro
     }
 
     // Fetch channel statistics
-    const statsUrl = new URL('https://www.googleapis.com/youtube/v3/channels');
+    const statsUrl = new URL(`${getYouTubeApiBaseUrl()}/channels`);
     statsUrl.searchParams.set('part', 'snippet,statistics');
     statsUrl.searchParams.set('id', channelId);
     statsUrl.searchParams.set('key', apiKey);
@@ -229,12 +231,17 @@ async function fetchChannelStats(channelIdentifier: string, apiKey: string): Pro
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -259,7 +266,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // Step 2: If we have YouTube API key and fetchStats is true, get channel stats
-    const apiKey = process.env.YOUTUBE_API_KEY;
+    const apiKey = (await getYouTubeApiKeys(workspace.workspaceId))[0];
     let channelStats = null;
 
     if (apiKey && fetchStats) {
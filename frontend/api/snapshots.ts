@@ -0,0 +1,472 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Prisma } from '@prisma/client';
+import { calculateSOS, calculateSOV, calculateGrowthGap, calculateVisibilityIndex, toCTRModelUsage, DESKTOP_CTR_MODEL } from '../shared/calculations.js';
+import { validateCTRModel } from '../shared/validation.js';
+import type { SOVOptions } from '../shared/calculations.js';
+import { createDataForSEOClient } from '../shared/dataforseo.js';
+import type { DataForSEOClient, DataForSEOItemsResult } from '../shared/dataforseo.js';
+import type { BrandKeywordInput, RankedKeywordInput } from '../shared/types.js';
+import { getDataForSEOAuth } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
+import { extractBrandFromDomain } from '../shared/brandVariants.js';
+import { runProjectAlerts } from '../shared/alertDelivery.js';
+import { fetchPanelRankings, getBrandIndustries, getDefaultVisibilityPanel, getVisibilityPanel } from '../shared/visibilityPanels.js';
+import type { BrandContext, VisibilityIndexResult } from '../shared/types.js';
+
+/**
+ * Snapshots API
+ * Re-runs the brand keyword + ranked keyword fetch for a project and stores
+ * the resulting SOS / SOV / Growth Gap and Visibility Index as a dated snapshot,
+ * then checks the project's alert rules against the new history.
+ *
+ * GET  ?domain=&locationCode=   -> snapshot history for the tracked project
+ * POST { domain, ... }          -> start tracking (or capture a manual snapshot now)
+ * GET  (Vercel Cron, no params) -> capture snapshots for the projects that are due, until the
+ *                                 time budget is spent; later runs pick up the rest
+ */
+
+async function getPrismaClient() {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    return new PrismaClient();
+  } catch {
+    return null;
+  }
+}
+
+type PrismaClientInstance = NonNullable<Awaited<ReturnType<typeof getPrismaClient>>>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function cleanDomain(domain: string): string {
+  return domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/.*$/, '').trim();
+}
+
+// Project.ctrModel stores the curve plus the SERP adjustment flag chosen when tracking started
+function getTrackedCTRModel(stored: unknown): SOVOptions {
+  return {
+    model: validateCTRModel(stored).data ?? DESKTOP_CTR_MODEL,
+    applySerpAdjustments: (stored as { serpAdjustments?: unknown } | null)?.serpAdjustments === true
+  };
+}
+
+// The project's chosen panel while it still belongs to the project's market, else the
+// market's panel for the industry of the project's brand context (none without one)
+function getTrackedVisibilityPanel(panelId: string | null, locationCode: number, brandContext: unknown) {
+  const chosen = panelId ? getVisibilityPanel(panelId) : null;
+  if (chosen && chosen.locationCode === locationCode) return chosen;
+  return getDefaultVisibilityPanel(locationCode, getBrandIndustries(brandContext as BrandContext | null));
+}
+
+// ============================================
+// SCHEDULING
+// ============================================
+
+const FREQUENCY_INTERVAL_MS: Record<string, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+// Allow an hour of slack so a daily cron never skips a run because the last one finished late
+const SCHEDULE_SLACK_MS = 60 * 60 * 1000;
+
+// No new capture starts after this much of the function's 300 s (vercel.json); the last
+// capture and its alert deliveries still have to fit. Projects left over are still due
+// when the next hourly cron run starts.
+const CAPTURE_TIME_BUDGET_MS = 240 * 1000;
+
+function isCronRequest(req: VercelRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return req.headers.authorization === `Bearer ${secret}`;
+}
+
+// ============================================
+// DATAFORSEO FETCHING
+// ============================================
+
+interface KeywordVolumeResult {
+  keyword: string;
+  search_volume: number;
+}
+
+interface RankedKeywordItem {
+  keyword_data: {
+    keyword: string;
+    keyword_info: {
+      search_volume: number;
+    };
+  };
+  ranked_serp_element: {
+    serp_item: {
+      rank_group: number;
+      relative_url: string;
+    };
+    serp_item_types?: string[];
+  };
+}
+
+async function fetchBrandVolumes(
+  trackedKeywords: BrandKeywordInput[],
+  locationCode: number,
+  languageCode: string,
+  dataforseo: DataForSEOClient
+): Promise<BrandKeywordInput[]> {
+  const data = await dataforseo.post<KeywordVolumeResult>('keywords_data/google_ads/search_volume/live', [{
+    keywords: trackedKeywords.map(k => k.keyword.toLowerCase()),
+    location_code: locationCode,
+    language_code: languageCode
+  }]);
+
+  const items: KeywordVolumeResult[] = data.tasks?.[0]?.result || [];
+  const volumes = new Map(items.map(item => [item.keyword.toLowerCase(), item.search_volume || 0]));
+
+  // Keep the tracked keyword set stable between runs so snapshots stay comparable
+  return trackedKeywords.map(k => ({
+    keyword: k.keyword,
+    searchVolume: volumes.get(k.keyword.toLowerCase()) ?? 0,
+    isOwnBrand: k.isOwnBrand
+  }));
+}
+
+async function fetchRankedKeywords(
+  domain: string,
+  locationCode: number,
+  languageCode: string,
+  dataforseo: DataForSEOClient
+): Promise<RankedKeywordInput[]> {
+  const data = await dataforseo.post<DataForSEOItemsResult<RankedKeywordItem>>('dataforseo_labs/google/ranked_keywords/live', [{
+    target: domain,
+    location_code: locationCode,
+    language_code: languageCode,
+    item_types: ['organic'],
+    limit: 100,
+    filters: [
+      ['keyword_data.keyword_info.search_volume', '>', 0],
+      'and',
+      ['ranked_serp_element.serp_item.rank_group', '<=', 20]
+    ],
+    order_by: ['keyword_data.keyword_info.search_volume,desc']
+  }]);
+
+  const items: RankedKeywordItem[] = data.tasks?.[0]?.result?.[0]?.items || [];
+  return items.map(item => ({
+    keyword: item.keyword_data.keyword,
+    searchVolume: item.keyword_data.keyword_info.search_volume || 0,
+    position: item.ranked_serp_element.serp_item.rank_group,
+    url: item.ranked_serp_element.serp_item.relative_url,
+    serpFeatures: item.ranked_serp_element.serp_item_types ? {
+      ads: item.ranked_serp_element.serp_item_types.includes('paid'),
+      featuredSnippet: item.ranked_serp_element.serp_item_types.includes('featured_snippet'),
+      localPack: item.ranked_serp_element.serp_item_types.includes('local_pack')
+    } : undefined
+  }));
+}
+
+// The index is an extra reading: a failed panel fetch is logged and never fails the snapshot
+async function scoreVisibility(
+  domain: string,
+  panelId: string | null,
+  locationCode: number,
+  brandContext: unknown,
+  dataforseo: DataForSEOClient
+): Promise<VisibilityIndexResult | null> {
+  const panel = getTrackedVisibilityPanel(panelId, locationCode, brandContext);
+  if (!panel) return null;
+  try {
+    return calculateVisibilityIndex(panel, await fetchPanelRankings(dataforseo, domain, panel));
+  } catch (error) {
+    console.error(`Visibility index failed for ${domain}:`, error);
+    return null;
+  }
+}
+
+async function captureSnapshot(
+  prisma: PrismaClientInstance,
+  projectId: string,
+  source: 'scheduled' | 'manual',
+  auth: string
+) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { brandKeywords: true }
+  });
+
+  if (!project || !project.domain) {
+    throw new Error('Project not found or has no domain');
+  }
+
+  const trackedKeywords: BrandKeywordInput[] = project.brandKeywords.length > 0
+    ? project.brandKeywords.map(k => ({ keyword: k.keyword, searchVolume: k.searchVolume, isOwnBrand: k.isOwnBrand }))
+    : [{ keyword: extractBrandFromDomain(project.domain), searchVolume: 0, isOwnBrand: true }];
+
+  const dataforseo = createDataForSEOClient({
+    auth,
+    project: { workspaceId: project.workspaceId, domain: project.domain, locationCode: project.locationCode }
+  });
+
+  const [brandKeywords, rankedKeywords, visibility] = await Promise.all([
+    fetchBrandVolumes(trackedKeywords, project.locationCode, project.languageCode, dataforseo),
+    fetchRankedKeywords(project.domain, project.locationCode, project.languageCode, dataforseo),
+    scoreVisibility(project.domain, project.visibilityPanelId, project.locationCode, project.brandContext, dataforseo)
+  ]);
+
+  const sos = calculateSOS(brandKeywords);
+  const sov = calculateSOV(rankedKeywords, getTrackedCTRModel(project.ctrModel));
+  const gap = calculateGrowthGap(sos.shareOfSearch, sov.shareOfVoice);
+
+  return prisma.snapshot.create({
+    data: {
+      projectId,
+      source,
+      shareOfSearch: sos.shareOfSearch,
+      brandVolume: sos.brandVolume,
+      totalBrandVolume: sos.totalBrandVolume,
+      shareOfVoice: sov.shareOfVoice,
+      visibleVolume: sov.visibleVolume,
+      totalMarketVolume: sov.totalMarketVolume,
+      gap: gap.gap,
+      interpretation: gap.interpretation,
+      ctrModel: sov.ctrModel as unknown as Prisma.InputJsonValue,
+      visibilityIndex: visibility?.index ?? null,
+      visibilityPanelId: visibility?.panelId ?? null,
+      visibilityPanelVersion: visibility?.panelVersion ?? null,
+      brandKeywords: brandKeywords as unknown as Prisma.InputJsonValue,
+      rankedKeywords: sov.keywordBreakdown as unknown as Prisma.InputJsonValue
+    }
+  });
+}
+
+// A failing rule check or delivery is logged and never fails the snapshot
+async function checkAlerts(prisma: PrismaClientInstance, projectId: string): Promise<number> {
+  try {
+    return (await runProjectAlerts(prisma, projectId)).length;
+  } catch (error) {
+    console.error(`Alert check failed for project ${projectId}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Captures every due project, one after another, until the deadline. Projects not reached
+ * are reported as deferred; they stay due, so the next cron run captures them.
+ */
+async function runScheduledSnapshots(prisma: PrismaClientInstance, deadline: number) {
+  const projects = await prisma.project.findMany({
+    where: { snapshotFrequency: { not: null }, domain: { not: null } },
+    include: {
+      snapshots: {
+        orderBy: { capturedAt: 'desc' },
+        take: 1,
+        select: { capturedAt: true }
+      }
+    }
+  });
+
+  const now = Date.now();
+  const captured: string[] = [];
+  const deferred: string[] = [];
+  let alerts = 0;
+  const failed: Array<{ projectId: string; error: string }> = [];
+
+  for (const project of projects) {
+    const interval = FREQUENCY_INTERVAL_MS[project.snapshotFrequency || ''];
+    if (!interval) continue;
+
+    const lastCapturedAt = project.snapshots[0]?.capturedAt.getTime() ?? 0;
+    if (now - lastCapturedAt < interval - SCHEDULE_SLACK_MS) continue;
+
+    if (Date.now() >= deadline) {
+      deferred.push(project.id);
+      continue;
+    }
+
+    try {
+      // Each project is captured with its own workspace's credentials
+      const auth = await getDataForSEOAuth(project.workspaceId);
+      if (!auth) throw new Error('DataForSEO credentials not configured for workspace');
+      await captureSnapshot(prisma, project.id, 'scheduled', auth);
+      captured.push(project.id);
+      alerts += await checkAlerts(prisma, project.id);
+    } catch (error) {
+      console.error(`Snapshot failed for project ${project.id}:`, error);
+      failed.push({ projectId: project.id, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return { checked: projects.length, captured, deferred, failed, alerts };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+  const { workspaceId } = workspace;
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      message: 'Snapshot tracking requires DATABASE_URL environment variable.'
+    });
+  }
+
+  try {
+    // Scheduled run triggered by Vercel Cron
+    if (req.method === 'GET' && !req.query.domain) {
+      if (!isCronRequest(req)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const result = await runScheduledSnapshots(prisma, Date.now() + CAPTURE_TIME_BUDGET_MS);
+      return res.status(200).json(result);
+    }
+
+    if (req.method === 'GET') {
+      const domain = cleanDomain(String(req.query.domain));
+      const locationCode = Number(req.query.locationCode) || 2840;
+      const includeKeywords = req.query.includeKeywords === 'true';
+
+      const project = await prisma.project.findFirst({
+        where: { domain, locationCode, workspaceId },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      if (!project) {
+        return res.status(200).json({ projectId: null, frequency: null, snapshots: [] });
+      }
+
+      const snapshots = await prisma.snapshot.findMany({
+        where: { projectId: project.id },
+        orderBy: { capturedAt: 'asc' },
+        select: {
+          id: true,
+          source: true,
+          capturedAt: true,
+          shareOfSearch: true,
+          brandVolume: true,
+          totalBrandVolume: true,
+          shareOfVoice: true,
+          visibleVolume: true,
+          totalMarketVolume: true,
+          gap: true,
+          interpretation: true,
+          ctrModel: true,
+          visibilityIndex: true,
+          visibilityPanelId: true,
+          visibilityPanelVersion: true,
+          brandKeywords: includeKeywords,
+          rankedKeywords: includeKeywords
+        }
+      });
+
+      return res.status(200).json({
+        projectId: project.id,
+        frequency: project.snapshotFrequency,
+        snapshots
+      });
+    }
+
+    // POST: start tracking a domain and capture a snapshot right away
+    const { domain: rawDomain, name, locationCode, languageCode, brandKeywords, frequency, ctrModel, applySerpAdjustments, visibilityPanelId } = req.body || {};
+
+    if (typeof rawDomain !== 'string' || !rawDomain.trim()) {
+      return res.status(400).json({ error: 'Domain is required' });
+    }
+    if (typeof locationCode !== 'number' || typeof languageCode !== 'string') {
+      return res.status(400).json({ error: 'Location and language codes are required' });
+    }
+    if (frequency !== undefined && frequency !== null && !FREQUENCY_INTERVAL_MS[frequency]) {
+      return res.status(400).json({ error: `Invalid frequency: ${frequency}` });
+    }
+    if (visibilityPanelId !== undefined && visibilityPanelId !== null &&
+        (typeof visibilityPanelId !== 'string' || getVisibilityPanel(visibilityPanelId)?.locationCode !== locationCode)) {
+      return res.status(400).json({ error: `No visibility panel "${visibilityPanelId}" for this market` });
+    }
+    const auth = await getDataForSEOAuth(workspaceId);
+    if (!auth) {
+      return res.status(500).json({ error: 'DataForSEO credentials not configured for this workspace' });
+    }
+
+    const domain = cleanDomain(rawDomain);
+    // Only replace the stored model when the client sends one, so "Capture Now" keeps the tracked curve
+    const ctrModelWrite = ctrModel !== undefined
+      ? toCTRModelUsage(validateCTRModel(ctrModel).data ?? DESKTOP_CTR_MODEL, applySerpAdjustments === true) as unknown as Prisma.InputJsonValue
+      : undefined;
+    const trackedBrandKeywords = Array.isArray(brandKeywords)
+      ? (brandKeywords as BrandKeywordInput[]).filter(k => typeof k?.keyword === 'string' && typeof k?.isOwnBrand === 'boolean')
+      : [];
+
+    const existing = await prisma.project.findFirst({
+      where: { domain, locationCode, workspaceId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const brandKeywordWrite = trackedBrandKeywords.length > 0 ? {
+      deleteMany: {},
+      create: trackedBrandKeywords.map(kw => ({
+        keyword: kw.keyword,
+        searchVolume: Math.floor(kw.searchVolume || 0),
+        isOwnBrand: kw.isOwnBrand
+      }))
+    } : undefined;
+
+    const project = existing
+      ? await prisma.project.update({
+          where: { id: existing.id },
+          data: {
+            snapshotFrequency: frequency === undefined ? existing.snapshotFrequency || 'weekly' : frequency,
+            languageCode,
+            ctrModel: ctrModelWrite,
+            visibilityPanelId,
+            brandKeywords: brandKeywordWrite
+          }
+        })
+      : await prisma.project.create({
+          data: {
+            name: typeof name === 'string' && name.trim() ? name.trim() : domain,
+            workspaceId,
+            domain,
+            locationCode,
+            languageCode,
+            snapshotFrequency: frequency === undefined ? 'weekly' : frequency,
+            ctrModel: ctrModelWrite,
+            visibilityPanelId,
+            brandKeywords: brandKeywordWrite ? { create: brandKeywordWrite.create } : undefined
+          }
+        });
+
+    const snapshot = await captureSnapshot(prisma, project.id, 'manual', auth);
+    const alerts = await checkAlerts(prisma, project.id);
+
+    return res.status(201).json({
+      projectId: project.id,
+      frequency: project.snapshotFrequency,
+      snapshot,
+      alerts
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
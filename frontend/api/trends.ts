@@ -1,4 +1,14 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getCTR, toCTRModelUsage, DESKTOP_CTR_MODEL } from '../shared/calculations.js';
+import { validateCTRModel, validateBrandKeywords } from '../shared/validation.js';
+import { createDataForSEOClient } from '../shared/dataforseo.js';
+import type { DataForSEOItemsResult } from '../shared/dataforseo.js';
+import { getDataForSEOAuth } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
+import { extractBrandFromDomain, matchesBrand } from '../shared/brandVariants.js';
+import { calculateSeasonalSOS } from '../shared/seasonality.js';
+import { forecastSOS, MAX_FORECAST_HORIZON } from '../shared/forecast.js';
+import type { BrandKeywordHistory } from '../shared/types.js';
 
 interface MonthlySearch {
   year: number;
@@ -27,13 +37,15 @@ interface RankedKeywordItem {
   };
 }
 
-// CTR curve for positions 1-20
-const CTR_CURVE: Record<number, number> = {
-  1: 28.0, 2: 15.0, 3: 11.0, 4: 8.0, 5: 7.0,
-  6: 5.0, 7: 4.0, 8: 3.5, 9: 3.0, 10: 2.5,
-  11: 2.0, 12: 1.8, 13: 1.5, 14: 1.3, 15: 1.0,
-  16: 0.8, 17: 0.6, 18: 0.5, 19: 0.3, 20: 0.2
-};
+// Google Ads keeps four years of monthly volumes. With several years the seasonal adjustment
+// can tell season from trend; with one year it only reproduces the rolling 12-month SOS.
+const VOLUME_HISTORY_YEARS = 4;
+
+// First full month inside the history window, as YYYY-MM-DD
+function getHistoryStartDate(now = new Date()): string {
+  const start = new Date(now.getFullYear() - VOLUME_HISTORY_YEARS, now.getMonth() + 1, 1);
+  return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}-01`;
+}
 
 // Get volume for a specific period (months ago from now)
 function getVolumeForPeriod(monthlySearches: MonthlySearch[], monthsAgo: number): number {
@@ -104,15 +116,6 @@ const BRAND_INDUSTRY_MAP: Record<string, string> = {
   'volkswagen': 'automotive', 'bmw': 'automotive', 'mercedes': 'automotive', 'audi': 'automotive',
 };
 
-function extractBrandFromDomain(domain: string): string {
-  return domain
-    .replace(/^(https?:\/\/)?(www\.)?/, '')
-    .replace(/\.(com|de|co\.uk|fr|es|it|net|org|io|eu).*$/, '')
-    .toLowerCase()
-    .replace(/-/g, ' ')
-    .trim();
-}
-
 function detectIndustry(brandName: string): string {
   for (const [brand, industry] of Object.entries(BRAND_INDUSTRY_MAP)) {
     if (brandName.includes(brand) || brand.includes(brandName)) {
@@ -125,84 +128,94 @@ function detectIndustry(brandName: string): string {
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
     const { domain, locationCode, languageCode, customCompetitors } = req.body;
+    // Unknown or malformed models fall back to the default curve rather than failing the request
+    const ctrModel = validateCTRModel(req.body?.ctrModel).data ?? DESKTOP_CTR_MODEL;
 
-    // Use environment variables for API credentials
-    const login = process.env.DATAFORSEO_LOGIN;
-    const password = process.env.DATAFORSEO_PASSWORD;
+    // The analysis' brand keywords (e.g. reviewed brand variants) replace the brand + competitor names
+    const brandKeywordsResult = req.body?.brandKeywords === undefined ? null : validateBrandKeywords(req.body.brandKeywords);
+    if (brandKeywordsResult && !brandKeywordsResult.success) {
+      return res.status(400).json({ error: brandKeywordsResult.error });
+    }
+    const analysisBrandKeywords = brandKeywordsResult?.data;
+
+    const forecastMonths = req.body?.forecastMonths ?? MAX_FORECAST_HORIZON;
+    if (!Number.isInteger(forecastMonths) || forecastMonths < 6 || forecastMonths > MAX_FORECAST_HORIZON) {
+      return res.status(400).json({ error: `forecastMonths must be a whole number from 6 to ${MAX_FORECAST_HORIZON}` });
+    }
 
-    if (!login || !password) {
+    // Use environment variables for API credentials (or the mock server)
+    const auth = await getDataForSEOAuth(workspace.workspaceId);
+
+    if (!auth) {
       return res.status(500).json({ error: 'DataForSEO credentials not configured on server' });
     }
 
-    const auth = Buffer.from(`${login}:${password}`).toString('base64');
     const brandName = extractBrandFromDomain(domain);
     const industry = detectIndustry(brandName);
 
     // Use custom competitors if provided, otherwise use industry defaults
-    const competitors = customCompetitors && customCompetitors.length > 0
+    const competitors: string[] = customCompetitors && customCompetitors.length > 0
       ? customCompetitors
       : (INDUSTRY_COMPETITORS[industry] || []);
 
     // Fetch brand keywords with monthly data
-    const brandKeywordsToFetch = [
-      brandName,
-      ...competitors.filter(c => c !== brandName)
-    ];
+    const brandKeywordsToFetch = analysisBrandKeywords
+      ? [...new Set(analysisBrandKeywords.map(k => k.keyword.toLowerCase()))]
+      : [brandName, ...competitors.filter(c => c !== brandName)];
+    const ownBrandKeywords = new Set(analysisBrandKeywords
+      ? analysisBrandKeywords.filter(k => k.isOwnBrand).map(k => k.keyword.toLowerCase())
+      : brandKeywordsToFetch.filter(k => matchesBrand(k, brandName)));
+    const isOwnBrandKeyword = (keyword: string) => ownBrandKeywords.has(keyword.toLowerCase());
+
+    const dataforseo = createDataForSEOClient({
+      auth,
+      forceRefresh: req.body?.forceRefresh === true,
+      project: { workspaceId: workspace.workspaceId, domain, locationCode }
+    });
 
-    const [brandResponse, rankedResponse] = await Promise.all([
-      // Fetch brand search volumes with history
-      fetch('https://api.dataforseo.com/v3/keywords_data/google_ads/search_volume/live', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${auth}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify([{
-          keywords: brandKeywordsToFetch,
-          location_code: locationCode,
-          language_code: languageCode,
-          include_serp_info: false,
-          include_adult_keywords: false
-        }])
-      }),
+    const [brandData, rankedData] = await Promise.all([
+      // Fetch brand search volumes with multi-year history
+      dataforseo.post<KeywordVolumeResult>('keywords_data/google_ads/search_volume/live', [{
+        keywords: brandKeywordsToFetch,
+        location_code: locationCode,
+        language_code: languageCode,
+        date_from: getHistoryStartDate(),
+        include_serp_info: false,
+        include_adult_keywords: false
+      }]),
       // Fetch ranked keywords with history
-      fetch('https://api.dataforseo.com/v3/dataforseo_labs/google/ranked_keywords/live', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${auth}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify([{
-          target: domain,
-          location_code: locationCode,
-          language_code: languageCode,
-          item_types: ['organic'],
-          limit: 100,
-          filters: [
-            ['keyword_data.keyword_info.search_volume', '>', 0],
-            'and',
-            ['ranked_serp_element.serp_item.rank_group', '<=', 20]
-          ],
-          order_by: ['keyword_data.keyword_info.search_volume,desc']
-        }])
-      })
+      dataforseo.post<DataForSEOItemsResult<RankedKeywordItem>>('dataforseo_labs/google/ranked_keywords/live', [{
+        target: domain,
+        location_code: locationCode,
+        language_code: languageCode,
+        item_types: ['organic'],
+        limit: 100,
+        filters: [
+          ['keyword_data.keyword_info.search_volume', '>', 0],
+          'and',
+          ['ranked_serp_element.serp_item.rank_group', '<=', 20]
+        ],
+        order_by: ['keyword_data.keyword_info.search_volume,desc']
+      }])
     ]);
 
-    const brandData = await brandResponse.json();
-    const rankedData = await rankedResponse.json();
-
     const brandItems: KeywordVolumeResult[] = brandData.tasks?.[0]?.result || [];
     const rankedItems: RankedKeywordItem[] = rankedData.tasks?.[0]?.result?.[0]?.items || [];
 
@@ -222,7 +235,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           ? item.search_volume
           : getVolumeForPeriod(item.monthly_searches, period.monthsAgo);
 
-        if (item.keyword.toLowerCase().includes(brandName)) {
+        if (isOwnBrandKeyword(item.keyword)) {
           brandVolume += volume;
         }
         totalVolume += volume;
@@ -239,6 +252,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       };
     });
 
+    // Month-by-month, rolling and seasonally adjusted SOS over the full monthly history
+    const brandHistory: BrandKeywordHistory[] = brandItems.map(item => ({
+      keyword: item.keyword,
+      searchVolume: item.search_volume || 0,
+      isOwnBrand: isOwnBrandKeyword(item.keyword),
+      monthlySearches: (item.monthly_searches || []).map(m => ({
+        year: m.year,
+        month: m.month,
+        searchVolume: m.search_volume || 0
+      }))
+    }));
+    const seasonalSOS = calculateSeasonalSOS(brandHistory, [
+      { brand: brandName, isOwnBrand: true },
+      ...competitors.filter(c => c !== brandName).map(brand => ({ brand, isOwnBrand: false }))
+    ]);
+    const sosForecast = forecastSOS(seasonalSOS, forecastMonths);
+
     // Calculate SOV for different periods and track keyword impacts
     interface KeywordImpact {
       keyword: string;
@@ -262,8 +292,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           : getVolumeForPeriod(item.keyword_data.keyword_info.monthly_searches, period.monthsAgo);
 
         const position = item.ranked_serp_element.serp_item.rank_group;
-        const ctr = CTR_CURVE[position] || 0;
-        const visibleVol = volume * (ctr / 100);
+        const ctr = getCTR(position, ctrModel);
+        const visibleVol = volume * ctr;
 
         visibleVolume += visibleVol;
         totalMarketVolume += volume;
@@ -271,7 +301,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // Track keyword impact for comparison (only on first iteration)
         if (period.monthsAgo === 0) {
           const volume12MonthsAgo = getVolumeForPeriod(item.keyword_data.keyword_info.monthly_searches, 12);
-          const visibleVol12MonthsAgo = volume12MonthsAgo * (ctr / 100);
+          const visibleVol12MonthsAgo = volume12MonthsAgo * ctr;
 
           keywordImpacts.push({
             keyword: item.keyword_data.keyword,
@@ -364,6 +394,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       sosTrends,
       sovTrends,
       competitorTrends,
+      seasonalSOS,
+      sosForecast,
+      ctrModel: toCTRModelUsage(ctrModel, false),
+      cache: dataforseo.getCacheInfo(),
       changes: {
         sos: {
           vs6MonthsAgo: Math.round(sosChange6m * 10) / 10,
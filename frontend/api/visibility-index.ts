@@ -0,0 +1,110 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { validateDomain, validateIndustries, validateLocationCode } from '../shared/validation.js';
+import { createDataForSEOClient } from '../shared/dataforseo.js';
+import { getDataForSEOAuth } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
+import { calculateVisibilityIndex } from '../shared/calculations.js';
+import {
+  fetchPanelRankings,
+  getDefaultVisibilityPanel,
+  getVisibilityPanel,
+  listVisibilityPanels
+} from '../shared/visibilityPanels.js';
+
+/**
+ * Visibility Index API
+ * Scores a domain on the market's fixed keyword panel, as an alternative to SOV
+ * that doesn't depend on which keywords the domain happens to rank for.
+ *
+ * GET  ?locationCode=                                 -> panels available for the market
+ * POST { domain, locationCode, panelId?, industries? } -> index on the chosen panel, else on the
+ *                                                        market's panel for the brand's industry or
+ *                                                        categories; visibility is null when none fits
+ */
+
+function getAllowedOrigin(requestOrigin: string | undefined): string {
+  const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',') || [];
+  if (process.env.NODE_ENV === 'development' || process.env.VERCEL_ENV === 'development') return '*';
+  if (requestOrigin && allowedOrigins.includes(requestOrigin)) return requestOrigin;
+  return process.env.PRODUCTION_URL || '*';
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const origin = getAllowedOrigin(req.headers.origin);
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const locationCode = req.query.locationCode ? Number(req.query.locationCode) : undefined;
+      return res.status(200).json({ panels: listVisibilityPanels(locationCode) });
+    }
+
+    const domainResult = validateDomain(req.body?.domain);
+    if (!domainResult.success) {
+      return res.status(400).json({ error: domainResult.error });
+    }
+
+    const locationResult = validateLocationCode(req.body?.locationCode);
+    if (!locationResult.success) {
+      return res.status(400).json({ error: locationResult.error });
+    }
+
+    const industriesResult = validateIndustries(req.body?.industries);
+    if (!industriesResult.success) {
+      return res.status(400).json({ error: industriesResult.error });
+    }
+
+    const domain = domainResult.data!;
+    const locationCode = locationResult.data!;
+    const panels = listVisibilityPanels(locationCode);
+
+    const panelId = req.body?.panelId;
+    const panel = typeof panelId === 'string' && panelId
+      ? getVisibilityPanel(panelId)
+      : getDefaultVisibilityPanel(locationCode, industriesResult.data!);
+
+    if (typeof panelId === 'string' && panelId && (!panel || panel.locationCode !== locationCode)) {
+      return res.status(400).json({ error: `No visibility panel "${panelId}" for this market` });
+    }
+    if (!panel) {
+      return res.status(200).json({ visibility: null, panels, cache: null });
+    }
+
+    const auth = await getDataForSEOAuth(workspace.workspaceId);
+    if (!auth) {
+      return res.status(500).json({ error: 'DataForSEO credentials not configured on server' });
+    }
+
+    const dataforseo = createDataForSEOClient({
+      auth,
+      forceRefresh: req.body?.forceRefresh === true,
+      project: { workspaceId: workspace.workspaceId, domain, locationCode }
+    });
+
+    const rankings = await fetchPanelRankings(dataforseo, domain, panel);
+
+    return res.status(200).json({
+      visibility: calculateVisibilityIndex(panel, rankings),
+      panels,
+      cache: dataforseo.getCacheInfo()
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -1,4 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getYouTubeApiBaseUrl, getYouTubeApiKeys } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
 
 /**
  * YouTube Channel API (using YouTube Data API v3)
@@ -10,7 +12,7 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
  * - Recent videos list
  *
  * Features:
- * - Multiple API key rotation (YOUTUBE_API_KEY, YOUTUBE_API_KEY_2, etc.)
+ * - Multiple API key rotation (the workspace's keys from Settings, or YOUTUBE_API_KEY, YOUTUBE_API_KEY_2, etc.)
  * - In-memory caching with 24-hour TTL to reduce API calls
  * - Quota exceeded detection and automatic key switching
  */
@@ -25,56 +27,37 @@ interface ApiKeyState {
   quotaResetTime?: number; // Unix timestamp when quota should reset
 }
 
-// Load all available API keys from environment
-function getApiKeys(): ApiKeyState[] {
-  const keys: ApiKeyState[] = [];
+// Quota state per key (persists across requests in same serverless instance).
+// Keyed by the key itself, so every workspace and every rotated key starts fresh.
+const apiKeyStates = new Map<string, ApiKeyState>();
 
-  // Primary key
-  if (process.env.YOUTUBE_API_KEY) {
-    keys.push({ key: process.env.YOUTUBE_API_KEY, quotaExceeded: false });
-  }
-
-  // Additional keys (YOUTUBE_API_KEY_2, YOUTUBE_API_KEY_3, etc.)
-  for (let i = 2; i <= 10; i++) {
-    const key = process.env[`YOUTUBE_API_KEY_${i}`];
-    if (key) {
-      keys.push({ key, quotaExceeded: false });
+function getApiKeyStates(keys: string[]): ApiKeyState[] {
+  const now = Date.now();
+  return keys.map(key => {
+    let state = apiKeyStates.get(key);
+    if (!state) {
+      state = { key, quotaExceeded: false };
+      apiKeyStates.set(key, state);
     }
-  }
-
-  return keys;
-}
-
-// In-memory storage for API key states (persists across requests in same serverless instance)
-let apiKeyStates: ApiKeyState[] | null = null;
-
-function getApiKeyStates(): ApiKeyState[] {
-  if (!apiKeyStates) {
-    apiKeyStates = getApiKeys();
-  }
 
-  // Check if any quota-exceeded keys should be reset (quota resets at midnight PT)
-  const now = Date.now();
-  for (const state of apiKeyStates) {
+    // Check if a quota-exceeded key should be reset (quota resets at midnight PT)
     if (state.quotaExceeded && state.quotaResetTime && now > state.quotaResetTime) {
       console.log('[YouTube API] Resetting quota status for key (new day)');
       state.quotaExceeded = false;
       state.quotaResetTime = undefined;
     }
-  }
-
-  return apiKeyStates;
+    return state;
+  });
 }
 
-function getAvailableApiKey(): string | null {
-  const states = getApiKeyStates();
+function getAvailableApiKey(keys: string[]): string | null {
+  const states = getApiKeyStates(keys);
   const available = states.find(s => !s.quotaExceeded);
   return available?.key || null;
 }
 
 function markKeyQuotaExceeded(key: string): void {
-  const states = getApiKeyStates();
-  const state = states.find(s => s.key === key);
+  const state = apiKeyStates.get(key);
   if (state) {
     state.quotaExceeded = true;
     // Set reset time to next midnight PT (UTC-8)
@@ -197,11 +180,6 @@ const LOCATION_NAMES: Record<number, { name: string; language: string }> = {
   2356: { name: 'India', language: 'en' },
 };
 
-/**
- * German location name variants for brand searches
- */
-const GERMAN_LOCATION_VARIANTS = ['Deutschland', 'Germany', 'DE', 'German'];
-
 /**
  * Search for a channel with multiple query strategies
  * Prioritizes regional/local channels when locationCode is provided
@@ -270,7 +248,7 @@ async function searchChannelWithStrategies(
     if (quotaExceeded) break;
 
     try {
-      const searchUrl = new URL('https://www.googleapis.com/youtube/v3/search');
+      const searchUrl = new URL(`${getYouTubeApiBaseUrl()}/search`);
       searchUrl.searchParams.set('part', 'snippet');
       searchUrl.searchParams.set('type', 'channel');
       searchUrl.searchParams.set('q', query);
@@ -311,7 +289,7 @@ async function searchChannelWithStrategies(
         if (foundChannels.some(c => c.channelId === channelId)) continue;
 
         // Fetch full channel details
-        const statsUrl = new URL('https://www.googleapis.com/youtube/v3/channels');
+        const statsUrl = new URL(`${getYouTubeApiBaseUrl()}/channels`);
         statsUrl.searchParams.set('part', 'statistics,snippet,brandingSettings');
         statsUrl.searchParams.set('id', channelId);
         statsUrl.searchParams.set('key', apiKey);
@@ -440,7 +418,7 @@ async function resolveChannelId(
     console.log(`[YouTube API] Resolving handle: ${handle}`);
 
     try {
-      const searchUrl = new URL('https://www.googleapis.com/youtube/v3/search');
+      const searchUrl = new URL(`${getYouTubeApiBaseUrl()}/search`);
       searchUrl.searchParams.set('part', 'snippet');
       searchUrl.searchParams.set('type', 'channel');
       searchUrl.searchParams.set('q', handle);
@@ -464,7 +442,7 @@ async function resolveChannelId(
             if (!channelId) continue;
 
             // Verify channel and check customUrl
-            const verifyUrl = new URL('https://www.googleapis.com/youtube/v3/channels');
+            const verifyUrl = new URL(`${getYouTubeApiBaseUrl()}/channels`);
             verifyUrl.searchParams.set('part', 'snippet,statistics');
             verifyUrl.searchParams.set('id', channelId);
             verifyUrl.searchParams.set('key', apiKey);
@@ -489,7 +467,7 @@ async function resolveChannelId(
             const channelId = item.id?.channelId || item.snippet?.channelId;
             if (!channelId) continue;
 
-            const verifyUrl = new URL('https://www.googleapis.com/youtube/v3/channels');
+            const verifyUrl = new URL(`${getYouTubeApiBaseUrl()}/channels`);
             verifyUrl.searchParams.set('part', 'snippet,statistics');
             verifyUrl.searchParams.set('id', channelId);
             verifyUrl.searchParams.set('key', apiKey);
@@ -499,7 +477,6 @@ async function resolveChannelId(
               const verifyData = await verifyResponse.json();
               const channel = verifyData.items?.[0];
               const customUrl = (channel?.snippet?.customUrl || '').toLowerCase().replace('@', '');
-              const channelTitle = (channel?.snippet?.title || '').toLowerCase();
               const videoCount = parseInt(channel?.statistics?.videoCount || '0', 10);
 
               // Close match: customUrl contains the handle or handle contains customUrl
@@ -558,7 +535,7 @@ async function fetchChannelStats(
   apiKey: string
 ): Promise<ChannelStatistics | null> {
   try {
-    const url = new URL('https://www.googleapis.com/youtube/v3/channels');
+    const url = new URL(`${getYouTubeApiBaseUrl()}/channels`);
     url.searchParams.set('part', 'snippet,statistics,brandingSettings');
     url.searchParams.set('id', channelId);
     url.searchParams.set('key', apiKey);
@@ -607,7 +584,7 @@ async function fetchChannelVideos(
 ): Promise<VideoItem[]> {
   try {
     // First, get the uploads playlist ID
-    const channelUrl = new URL('https://www.googleapis.com/youtube/v3/channels');
+    const channelUrl = new URL(`${getYouTubeApiBaseUrl()}/channels`);
     channelUrl.searchParams.set('part', 'contentDetails');
     channelUrl.searchParams.set('id', channelId);
     channelUrl.searchParams.set('key', apiKey);
@@ -625,7 +602,7 @@ async function fetchChannelVideos(
     }
 
     // Fetch videos from the uploads playlist
-    const playlistUrl = new URL('https://www.googleapis.com/youtube/v3/playlistItems');
+    const playlistUrl = new URL(`${getYouTubeApiBaseUrl()}/playlistItems`);
     playlistUrl.searchParams.set('part', 'snippet,contentDetails');
     playlistUrl.searchParams.set('playlistId', uploadsPlaylistId);
     playlistUrl.searchParams.set('maxResults', Math.min(maxResults, 50).toString());
@@ -647,7 +624,7 @@ async function fetchChannelVideos(
     // Fetch video statistics
     let videoStats: Record<string, { viewCount: string; likeCount: string; commentCount: string; duration: string }> = {};
     if (videoIds.length > 0) {
-      const statsUrl = new URL('https://www.googleapis.com/youtube/v3/videos');
+      const statsUrl = new URL(`${getYouTubeApiBaseUrl()}/videos`);
       statsUrl.searchParams.set('part', 'statistics,contentDetails');
       statsUrl.searchParams.set('id', videoIds.join(','));
       statsUrl.searchParams.set('key', apiKey);
@@ -711,12 +688,17 @@ function formatDuration(isoDuration: string): string {
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -729,21 +711,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // Get available API key (with rotation support)
-    const apiKeyStates = getApiKeyStates();
-    const apiKey = getAvailableApiKey();
+    const apiKeys = await getYouTubeApiKeys(workspace.workspaceId);
+    const keyStates = getApiKeyStates(apiKeys);
+    const apiKey = getAvailableApiKey(apiKeys);
 
     // Debug: Log API key status
-    const totalKeys = apiKeyStates.length;
-    const availableKeys = apiKeyStates.filter(s => !s.quotaExceeded).length;
+    const totalKeys = keyStates.length;
+    const availableKeys = keyStates.filter(s => !s.quotaExceeded).length;
     console.log(`[YouTube API] Request for: "${channelIdentifier}", API keys: ${availableKeys}/${totalKeys} available, locationCode: ${locationCode || 'none'}`);
 
     if (!apiKey) {
       const allExhausted = totalKeys > 0;
-      console.error(`[YouTube API] ${allExhausted ? 'All API keys quota exceeded' : 'No YOUTUBE_API_KEY configured'}`);
+      console.error(`[YouTube API] ${allExhausted ? 'All API keys quota exceeded' : 'No YouTube API key configured'}`);
       return res.status(allExhausted ? 429 : 500).json({
         error: allExhausted
           ? 'All YouTube API keys quota exceeded. Try again tomorrow.'
-          : 'YouTube API key not configured. Add YOUTUBE_API_KEY to environment variables.',
+          : 'YouTube API key not configured. Add one under Settings > API Credentials.',
         channel: null,
         recentVideos: [],
         debug: { apiKeyConfigured: totalKeys > 0, keysAvailable: availableKeys, totalKeys },
@@ -775,7 +758,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       if (isQuotaError) {
         markKeyQuotaExceeded(apiKey);
         // Try again with next available key
-        const nextKey = getAvailableApiKey();
+        const nextKey = getAvailableApiKey(apiKeys);
         if (nextKey) {
           console.log('[YouTube API] Retrying with next available API key...');
           const retryResult = await resolveChannelId(channelIdentifier, nextKey, locationCode);
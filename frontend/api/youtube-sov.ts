@@ -1,4 +1,10 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createDataForSEOClient } from '../shared/dataforseo.js';
+import type { DataForSEOClient, DataForSEOItemsResult } from '../shared/dataforseo.js';
+import type { CacheInfo } from '../shared/types.js';
+import { getDataForSEOAuth } from '../shared/upstream.js';
+import { authorizeWorkspace } from '../shared/credentials.js';
+import { recordChannelSnapshot } from '../shared/alertDelivery.js';
 
 /**
  * YouTube SOV API
@@ -28,6 +34,21 @@ interface YouTubeVideo {
   isFromOwnedChannel?: boolean; // True if this video came from fetching channel videos directly
 }
 
+// Item of the YouTube SERP as DataForSEO returns it
+interface YouTubeSerpItem {
+  type: string;
+  video_id?: string;
+  title?: string;
+  url?: string;
+  channel_id?: string;
+  channel_name?: string;
+  views_count?: number;
+  duration?: string;
+  published_date?: string;
+  rank_group?: number;
+  thumbnail?: { url?: string } | null;
+}
+
 interface OwnedChannelInfo {
   id: string;
   name: string;
@@ -55,6 +76,7 @@ interface YouTubeSOVResponse {
   };
   searchedKeywords: string[];
   timestamp: string;
+  cache: CacheInfo | null;
   methodology: {
     sovByCountFormula: string;
     sovByViewsFormula: string;
@@ -76,38 +98,20 @@ async function fetchYouTubeSERP(
   keyword: string,
   locationCode: number,
   languageCode: string,
-  auth: string
+  dataforseo: DataForSEOClient
 ): Promise<{ videos: YouTubeVideo[]; status: string }> {
   const videos: YouTubeVideo[] = [];
 
   try {
     console.log(`Calling YouTube SERP API for "${keyword}" (location: ${locationCode}, lang: ${languageCode})`);
 
-    const response = await fetch(
-      'https://api.dataforseo.com/v3/serp/youtube/organic/live/advanced',
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${auth}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify([{
-          keyword,
-          location_code: locationCode,
-          language_code: languageCode,
-          device: 'desktop',
-          block_depth: 100,
-        }]),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`YouTube SERP failed for "${keyword}": ${response.status} - ${errorText}`);
-      return { videos: [], status: `API error: ${response.status}` };
-    }
-
-    const data = await response.json();
+    const data = await dataforseo.post<DataForSEOItemsResult<YouTubeSerpItem>>('serp/youtube/organic/live/advanced', [{
+      keyword,
+      location_code: locationCode,
+      language_code: languageCode,
+      device: 'desktop',
+      block_depth: 100,
+    }]);
 
     // Log full response for debugging
     console.log(`YouTube API response for "${keyword}":`, JSON.stringify(data).substring(0, 500));
@@ -157,7 +161,7 @@ async function fetchChannelVideos(
   channelInfo: OwnedChannelInfo,
   locationCode: number,
   languageCode: string,
-  auth: string
+  dataforseo: DataForSEOClient
 ): Promise<{ videos: YouTubeVideo[]; status: string; limitation: string }> {
   try {
     // Build multiple search terms to capture more videos
@@ -189,37 +193,24 @@ async function fetchChannelVideos(
     // Fetch videos for each search term in parallel
     const allResults = await Promise.all(
       uniqueTerms.map(async (term) => {
-        const response = await fetch(
-          'https://api.dataforseo.com/v3/serp/youtube/organic/live/advanced',
-          {
-            method: 'POST',
-            headers: {
-              'Authorization': `Basic ${auth}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify([{
-              keyword: term,
-              location_code: locationCode,
-              language_code: languageCode,
-              device: 'desktop',
-              depth: 100, // Max depth per search
-            }]),
-          }
-        );
-
-        if (!response.ok) {
-          console.error(`Channel search failed for "${term}": ${response.status}`);
-          return [];
-        }
-
-        const data = await response.json();
+        const data = await dataforseo.post<DataForSEOItemsResult<YouTubeSerpItem>>('serp/youtube/organic/live/advanced', [{
+          keyword: term,
+          location_code: locationCode,
+          language_code: languageCode,
+          device: 'desktop',
+          depth: 100, // Max depth per search
+        }]).catch(error => {
+          console.error(`Channel search failed for "${term}":`, error);
+          return null;
+        });
+
         const items = data?.tasks?.[0]?.result?.[0]?.items || [];
 
         console.log(`Channel search for "${term}": ${items.length} items`);
 
         return items
-          .filter((item: Record<string, unknown>) => item.type === 'youtube_video')
-          .map((item: Record<string, unknown>) => ({
+          .filter(item => item.type === 'youtube_video')
+          .map((item): YouTubeVideo => ({
             videoId: item.video_id || '',
             title: item.title || '',
             url: item.url || '',
@@ -229,7 +220,7 @@ async function fetchChannelVideos(
             duration: item.duration || '',
             publishedDate: item.published_date || '',
             rank: item.rank_group || 0,
-            thumbnail: (item.thumbnail as { url?: string })?.url,
+            thumbnail: item.thumbnail?.url,
             isFromOwnedChannel: true,
           }));
       })
@@ -351,12 +342,17 @@ function calculateYouTubeSOV(
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const workspace = authorizeWorkspace(req);
+  if ('error' in workspace) {
+    return res.status(workspace.status).json({ error: workspace.error });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -368,22 +364,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       locationCode = 2840,
       languageCode = 'en',
       ownedChannels = [], // Array of { id, name } objects for owned YouTube channels
+      domain, // Optional - attributes API spend to the project's cost ledger
     } = req.body;
 
     if (!brandName || typeof brandName !== 'string') {
       return res.status(400).json({ error: 'brandName is required' });
     }
 
-    const login = process.env.DATAFORSEO_LOGIN;
-    const password = process.env.DATAFORSEO_PASSWORD;
+    const auth = await getDataForSEOAuth(workspace.workspaceId);
 
-    if (!login || !password) {
+    if (!auth) {
       return res.status(500).json({
         error: 'DataForSEO credentials not configured'
       });
     }
 
-    const auth = Buffer.from(`${login}:${password}`).toString('base64');
+    const dataforseo = createDataForSEOClient({
+      auth,
+      forceRefresh: req.body?.forceRefresh === true,
+      project: typeof domain === 'string' && domain ? { workspaceId: workspace.workspaceId, domain, locationCode } : undefined
+    });
 
     const validCompetitors = Array.isArray(competitors)
       ? competitors.filter((c): c is string => typeof c === 'string').slice(0, 4)
@@ -406,12 +406,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const [keywordResults, channelResults] = await Promise.all([
       // Fetch brand/competitor search results
       Promise.all(
-        searchKeywords.map(keyword => fetchYouTubeSERP(keyword, locationCode, languageCode, auth))
+        searchKeywords.map(keyword => fetchYouTubeSERP(keyword, locationCode, languageCode, dataforseo))
       ),
       // Fetch videos from owned channels in parallel
       validOwnedChannels.length > 0
         ? Promise.all(
-            validOwnedChannels.map(channel => fetchChannelVideos(channel, locationCode, languageCode, auth))
+            validOwnedChannels.map(channel => fetchChannelVideos(channel, locationCode, languageCode, dataforseo))
           )
         : Promise.resolve([]),
     ]);
@@ -496,6 +496,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       ownedMediaStats,
       searchedKeywords: searchKeywords,
       timestamp: new Date().toISOString(),
+      cache: dataforseo.getCacheInfo(),
       methodology,
       debug: {
         totalVideosFetched: allVideos.length,
@@ -504,6 +505,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       },
     };
 
+    await recordChannelSnapshot(workspace.workspaceId, domain, locationCode, 'youtube', sov.byViews, sov);
+
     return res.status(200).json(response);
 
   } catch (error) {
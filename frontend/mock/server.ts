@@ -0,0 +1,482 @@
+/// <reference types="node" />
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import http from 'node:http';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { createMockSmtpServer, createOutbox } from './smtp.ts';
+import type { MockOutbox } from './smtp.ts';
+
+/**
+ * Mock Upstream Server
+ * Replays DataForSEO, YouTube Data API and Anthropic responses from fixtures so the dashboard
+ * can be demoed and integration-tested without credentials or network access.
+ * Point the API routes at it with MOCK_API_URL=http://localhost:4010.
+ *
+ * Routes:
+ *   POST /dataforseo/v3/<endpoint>   e.g. /dataforseo/v3/serp/google/maps/live/advanced
+ *   GET  /youtube/v3/<resource>      e.g. /youtube/v3/channels?id=...
+ *   POST /anthropic/v1/messages      answer engine stand-in (the SDK's baseURL is <MOCK_API_URL>/anthropic)
+ *   POST /webhook                    alert webhook stand-in (ALERT_WEBHOOK_URL=http://localhost:4010/webhook)
+ *   GET  /outbox                     webhooks and emails received so far; DELETE clears them
+ *
+ * Lookup order:
+ *   1. fixtures/recorded/<fingerprint>.json - exact replay of a recorded request
+ *   2. fixtures/<service>/<endpoint>.json   - default fixture with __TARGET__, __NAME__,
+ *      __SLUG__ and __ID__ filled in from the request
+ *
+ * Run with --record (and real credentials in the routes' env) to proxy unknown
+ * requests to the real APIs and save the responses as recordings.
+ *
+ * Self-contained (node: imports only) so it runs with
+ *   node --experimental-strip-types mock/server.ts [--port 4010] [--record]
+ * which also starts the SMTP stand-in from mock/smtp.ts on MOCK_SMTP_PORT.
+ */
+
+const DEFAULT_PORT = 4010;
+const DEFAULT_SMTP_PORT = 2525;
+const DEFAULT_FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+const UPSTREAM = {
+  dataforseo: 'https://api.dataforseo.com/v3',
+  youtube: 'https://www.googleapis.com/youtube/v3',
+  anthropic: 'https://api.anthropic.com/v1'
+};
+
+type Service = keyof typeof UPSTREAM;
+
+export interface MockServerOptions {
+  fixturesDir?: string;
+  record?: boolean; // Proxy requests without a recording to the real API and save them
+  log?: boolean;
+  outbox?: MockOutbox; // Shared with the SMTP stand-in so /outbox lists emails too
+}
+
+interface MockRequest {
+  service: Service;
+  endpoint: string;
+  payload: unknown; // DataForSEO task array, YouTube query params without the API key, or the Anthropic message body
+  query: string;
+  authorization?: string; // DataForSEO basic auth or Anthropic API key, only sent on to record
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+// ============================================
+// FINGERPRINTS & TEMPLATES
+// ============================================
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function getRecordingFingerprint(service: Service, endpoint: string, payload: unknown): string {
+  return createHash('sha256').update(`${service}/${endpoint}\n${stableStringify(payload)}`).digest('hex');
+}
+
+// Deterministic 32-bit hash so generated numbers are stable across runs
+function hashNumber(value: string): number {
+  return createHash('md5').update(value).digest().readUInt32BE(0);
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'brand';
+}
+
+// Mock ids look like UCmock-<slug>, UUmock-<slug> or mockvid-<slug>-<n>
+function nameFromMockId(id: string): string | null {
+  const match = id.split(',')[0].match(/^(?:UC|UU)?mock(?:vid)?-(.+?)(?:-\d+)?$/);
+  return match ? match[1] : null;
+}
+
+function brandFromDomain(domain: string): string {
+  return domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').split(/[./]/)[0];
+}
+
+interface TemplateVars {
+  target: string;
+  name: string;
+  slug: string;
+  id: string;
+}
+
+function getTemplateVars(request: MockRequest): TemplateVars {
+  const params = (request.service === 'dataforseo'
+    ? (request.payload as Array<Record<string, unknown>>)?.[0]
+    : request.payload) as Record<string, unknown> | undefined ?? {};
+
+  const str = (key: string) => (typeof params[key] === 'string' ? params[key] as string : '');
+  const target = str('target');
+  const id = str('id') || str('playlistId');
+
+  const name = str('keyword')
+    || str('q').replace(/^@/, '')
+    || (id && nameFromMockId(id))
+    || (target && brandFromDomain(target))
+    || (Array.isArray(params.keywords) ? String(params.keywords[0] ?? '') : '')
+    || 'brand';
+  const slug = slugify(name);
+
+  return {
+    target: target || `${slug}.com`,
+    name,
+    slug,
+    id: id.split(',')[0] || `UCmock-${slug}`
+  };
+}
+
+function applyTemplate(raw: string, vars: TemplateVars): unknown {
+  const escape = (value: string) => JSON.stringify(value).slice(1, -1);
+  return JSON.parse(raw
+    .replaceAll('__TARGET__', escape(vars.target))
+    .replaceAll('__NAME__', escape(vars.name))
+    .replaceAll('__SLUG__', escape(vars.slug))
+    .replaceAll('__ID__', escape(vars.id)));
+}
+
+// ============================================
+// ENDPOINT-SPECIFIC SHAPING
+// ============================================
+
+interface MonthlySearch {
+  year: number;
+  month: number;
+  search_volume: number;
+}
+
+interface VolumeResult {
+  keyword: string;
+  search_volume: number;
+  monthly_searches: MonthlySearch[];
+  [key: string]: unknown;
+}
+
+// Fixture bodies, typed as far as the shaping below reads and writes them
+interface DataForSEOFixture<R> {
+  cost?: number;
+  tasks: Array<{ cost?: number; result_count?: number; result: R[]; [key: string]: unknown }>;
+  [key: string]: unknown;
+}
+
+interface RankedKeywordFixtureItem {
+  keyword_data: { keyword: string; [key: string]: unknown };
+  ranked_serp_element: { serp_item: { rank_group: number; rank_absolute?: number; [key: string]: unknown } };
+  [key: string]: unknown;
+}
+
+interface RankedKeywordsFixtureResult {
+  items: RankedKeywordFixtureItem[];
+  items_count?: number;
+  total_count?: number;
+  [key: string]: unknown;
+}
+
+interface MessageFixture {
+  model?: string;
+  content: Array<{ type: string; text: string }>;
+  [key: string]: unknown;
+}
+
+// Extend a keyword's history (newest month first) back to date_from by repeating its
+// oldest year; each keyword shrinks by its own rate per year back, so shares drift over time
+function extendHistory(keyword: string, history: MonthlySearch[], dateFrom: string | undefined): MonthlySearch[] {
+  const match = dateFrom?.match(/^(\d{4})-(\d{2})/);
+  if (!match || history.length < 12) return history;
+  const first = Number(match[1]) * 12 + Number(match[2]) - 1;
+  const oldestYear = history.slice(-12);
+  const yearlyFactor = 1 - (hashNumber(`${keyword}:trend`) % 15) / 100;
+
+  const extended = [...history];
+  for (let back = 1; ; back++) {
+    const source = oldestYear[(back - 1) % 12];
+    const index = source.year * 12 + source.month - 1 - 12 * Math.ceil(back / 12);
+    if (index < first) break;
+    extended.push({
+      year: Math.floor(index / 12),
+      month: (index % 12) + 1,
+      search_volume: Math.round(source.search_volume * yearlyFactor ** Math.ceil(back / 12))
+    });
+  }
+  return extended;
+}
+
+// Answer every requested keyword: fixture volume when known, otherwise a stable synthetic one
+function shapeSearchVolume(data: DataForSEOFixture<VolumeResult>, request: MockRequest): void {
+  const task = data.tasks[0];
+  const known: VolumeResult[] = task.result;
+  const template = known[0];
+  const { keywords = [], date_from: dateFrom } = (request.payload as Array<{ keywords?: string[]; date_from?: string }>)?.[0] ?? {};
+
+  task.result = keywords.map((keyword): VolumeResult => {
+    const match = known.find(item => item.keyword.toLowerCase() === keyword.toLowerCase());
+    if (match) return { ...match, keyword };
+
+    const volume = Math.round((200 + hashNumber(keyword) % 20000) / 10) * 10;
+    const scale = volume / (template.search_volume || 1);
+    return {
+      ...template,
+      keyword,
+      search_volume: volume,
+      monthly_searches: template.monthly_searches.map(m => ({ ...m, search_volume: Math.round(m.search_volume * scale) }))
+    };
+  }).map(item => ({ ...item, monthly_searches: extendHistory(item.keyword, item.monthly_searches, dateFrom) }));
+  task.result_count = task.result.length;
+  data.cost = Math.round(0.05 * Math.ceil(keywords.length / 1000) * 10000) / 10000;
+  task.cost = data.cost;
+}
+
+// Each target ranks for a deterministic subset of the fixture keywords at shifted positions,
+// so competitors overlap partially instead of mirroring each other
+function shapeRankedKeywords(data: DataForSEOFixture<RankedKeywordsFixtureResult>, request: MockRequest, vars: TemplateVars): void {
+  const result = data.tasks[0].result[0];
+  const { limit, filters = [] } = (request.payload as Array<{ limit?: number; filters?: unknown[] }>)?.[0] ?? {};
+  const seed = brandFromDomain(vars.target);
+
+  // Honour a keyword list filter, as sent for visibility index panels
+  const keywordFilter = filters.find((f): f is [string, string, string[]] =>
+    Array.isArray(f) && f[0] === 'keyword_data.keyword' && f[1] === 'in' && Array.isArray(f[2]));
+  const wanted = keywordFilter ? new Set(keywordFilter[2].map(k => k.toLowerCase())) : null;
+
+  const items = result.items.filter(item => {
+    const keyword = item.keyword_data.keyword;
+    if (wanted && !wanted.has(keyword.toLowerCase())) return false;
+    return keyword.includes(vars.name) || hashNumber(`${seed}:${keyword}`) % 4 !== 0;
+  });
+
+  for (const item of items) {
+    if (item.keyword_data.keyword.includes(vars.name)) continue; // Brands keep their own navigational ranks
+    const serpItem = item.ranked_serp_element.serp_item;
+    const shift = (hashNumber(`${seed}:${item.keyword_data.keyword}:rank`) % 7) - 3;
+    serpItem.rank_group = Math.min(100, Math.max(1, serpItem.rank_group + shift));
+    serpItem.rank_absolute = serpItem.rank_group;
+  }
+
+  result.items = typeof limit === 'number' ? items.slice(0, limit) : items;
+  result.items_count = result.items.length;
+  result.total_count = items.length;
+}
+
+// The fixture answer lists brands one per line; rotate them per prompt so each
+// prompt recommends a different brand first, and echo the requested model
+function shapeMessage(data: MessageFixture, request: MockRequest): void {
+  const { model, messages = [] } = request.payload as { model?: string; messages?: Array<{ content: unknown }> };
+  const prompt = JSON.stringify(messages[messages.length - 1]?.content ?? '');
+  const block = data.content[0];
+  const lines = block.text.split('\n');
+  const listed = lines.map((line, i) => (/^\d+\. /.test(line) ? i : -1)).filter(i => i >= 0);
+  const shift = hashNumber(prompt) % (listed.length || 1);
+  const items = listed.map((_, n) => lines[listed[(n + shift) % listed.length]].replace(/^\d+\. /, ''));
+  listed.forEach((lineIndex, n) => { lines[lineIndex] = `${n + 1}. ${items[n]}`; });
+  block.text = lines.join('\n');
+  if (model) data.model = model;
+}
+
+// ============================================
+// REQUEST HANDLING
+// ============================================
+
+function fixturePath(fixturesDir: string, request: MockRequest): string {
+  return request.service === 'dataforseo'
+    ? path.join(fixturesDir, 'dataforseo', `${request.endpoint.replaceAll('/', '__')}.json`)
+    : path.join(fixturesDir, request.service, `${request.endpoint}.json`);
+}
+
+async function readIfExists(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+async function recordUpstream(request: MockRequest, file: string): Promise<MockResponse> {
+  const base = UPSTREAM[request.service];
+  let response: Response;
+
+  if (request.service === 'dataforseo') {
+    response = await fetch(`${base}/${request.endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': request.authorization ?? '',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(request.payload)
+    });
+  } else if (request.service === 'anthropic') {
+    response = await fetch(`${base}/${request.endpoint}`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': request.authorization ?? '',
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(request.payload)
+    });
+  } else {
+    response = await fetch(`${base}/${request.endpoint}?${request.query}`);
+  }
+
+  const body = await response.json();
+  if (response.ok) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, `${JSON.stringify({ request: { service: request.service, endpoint: request.endpoint, payload: request.payload }, status: response.status, body }, null, 2)}\n`);
+  }
+  return { status: response.status, body };
+}
+
+async function resolve(request: MockRequest, options: MockServerOptions): Promise<MockResponse> {
+  const fixturesDir = options.fixturesDir ?? DEFAULT_FIXTURES_DIR;
+  const recordingFile = path.join(fixturesDir, 'recorded', `${getRecordingFingerprint(request.service, request.endpoint, request.payload)}.json`);
+
+  const recorded = await readIfExists(recordingFile);
+  if (recorded) {
+    const { status, body } = JSON.parse(recorded) as MockResponse;
+    return { status, body };
+  }
+
+  if (options.record) {
+    return recordUpstream(request, recordingFile);
+  }
+
+  const raw = await readIfExists(fixturePath(fixturesDir, request));
+  if (!raw) {
+    if (request.service === 'dataforseo') {
+      return { status: 404, body: { status_code: 40400, status_message: `No mock fixture for ${request.endpoint}` } };
+    }
+    return request.service === 'anthropic'
+      ? { status: 404, body: { type: 'error', error: { type: 'not_found_error', message: `No mock fixture for ${request.endpoint}` } } }
+      : { status: 404, body: { error: { code: 404, message: `No mock fixture for ${request.endpoint}` } } };
+  }
+
+  const vars = getTemplateVars(request);
+  const body = applyTemplate(raw, vars);
+
+  if (request.endpoint.startsWith('keywords_data/google_ads/search_volume')) {
+    shapeSearchVolume(body as DataForSEOFixture<VolumeResult>, request);
+  }
+  if (request.endpoint.startsWith('dataforseo_labs/google/ranked_keywords')) {
+    shapeRankedKeywords(body as DataForSEOFixture<RankedKeywordsFixtureResult>, request, vars);
+  }
+  if (request.service === 'anthropic' && request.endpoint === 'messages') shapeMessage(body as MessageFixture, request);
+
+  return { status: 200, body };
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function parseRequest(req: http.IncomingMessage): Promise<MockRequest | null> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  const dataforseo = url.pathname.match(/^\/dataforseo\/v3\/(.+)$/);
+  if (dataforseo && req.method === 'POST') {
+    const raw = await readBody(req);
+    return {
+      service: 'dataforseo',
+      endpoint: dataforseo[1].replace(/\/+$/, ''),
+      payload: raw ? JSON.parse(raw) : [],
+      query: '',
+      authorization: req.headers.authorization
+    };
+  }
+
+  const youtube = url.pathname.match(/^\/youtube\/v3\/([A-Za-z]+)$/);
+  if (youtube && req.method === 'GET') {
+    const apiKey = url.searchParams.get('key') ?? undefined;
+    url.searchParams.delete('key');
+    return {
+      service: 'youtube',
+      endpoint: youtube[1],
+      payload: Object.fromEntries([...url.searchParams.entries()].sort(([a], [b]) => a.localeCompare(b))),
+      query: `${url.searchParams.toString()}${apiKey ? `&key=${encodeURIComponent(apiKey)}` : ''}`
+    };
+  }
+
+  const anthropic = url.pathname.match(/^\/anthropic\/v1\/(messages)$/);
+  if (anthropic && req.method === 'POST') {
+    const raw = await readBody(req);
+    const apiKey = req.headers['x-api-key'];
+    return {
+      service: 'anthropic',
+      endpoint: anthropic[1],
+      payload: raw ? JSON.parse(raw) : {},
+      query: '',
+      authorization: typeof apiKey === 'string' ? apiKey : undefined
+    };
+  }
+
+  return null;
+}
+
+export function createMockServer(options: MockServerOptions = {}): http.Server {
+  const outbox = options.outbox ?? createOutbox();
+
+  return http.createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    try {
+      if (req.url === '/health') return send(200, { status: 'ok', record: !!options.record });
+
+      if (req.url === '/webhook' && req.method === 'POST') {
+        const raw = await readBody(req);
+        const headers = Object.fromEntries(Object.entries(req.headers).map(([k, v]) => [k, String(v)]));
+        outbox.webhooks.push({ headers, body: raw ? JSON.parse(raw) : null, receivedAt: new Date().toISOString() });
+        if (options.log) console.log('200 webhook');
+        return send(200, { received: true });
+      }
+      if (req.url === '/outbox' && req.method === 'GET') return send(200, outbox);
+      if (req.url === '/outbox' && req.method === 'DELETE') {
+        outbox.webhooks.length = 0;
+        outbox.emails.length = 0;
+        return send(200, outbox);
+      }
+
+      const request = await parseRequest(req);
+      if (!request) return send(404, { error: `Unknown mock route: ${req.method} ${req.url}` });
+
+      const response = await resolve(request, options);
+      if (options.log) console.log(`${response.status} ${request.service} ${request.endpoint}`);
+      send(response.status, response.body);
+    } catch (error) {
+      console.error('Mock server error:', error);
+      send(500, { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+}
+
+// ============================================
+// CLI
+// ============================================
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const args = process.argv.slice(2);
+  const portIndex = args.indexOf('--port');
+  const port = portIndex >= 0 ? Number(args[portIndex + 1]) : Number(process.env.MOCK_API_PORT) || DEFAULT_PORT;
+  const record = args.includes('--record');
+  const smtpPort = Number(process.env.MOCK_SMTP_PORT) || DEFAULT_SMTP_PORT;
+  const outbox = createOutbox();
+
+  createMockServer({ record, log: true, outbox }).listen(port, () => {
+    console.log(`Mock DataForSEO/YouTube/Anthropic server on http://localhost:${port}${record ? ' (recording)' : ''}`);
+    console.log(`Set MOCK_API_URL=http://localhost:${port} for the API routes`);
+  });
+  createMockSmtpServer(outbox).listen(smtpPort, () => {
+    console.log(`Mock SMTP server on localhost:${smtpPort} - received mail is listed at /outbox`);
+  });
+}
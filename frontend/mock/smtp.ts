@@ -0,0 +1,103 @@
+/// <reference types="node" />
+import net from 'node:net';
+
+/**
+ * Mock SMTP Server
+ * Accepts any mail (no TLS, any AUTH) and keeps it in an outbox, so alert emails can be
+ * tested end to end without a real mail server. Started alongside the mock upstream
+ * server on MOCK_SMTP_PORT (default 2525); point alert delivery at it with
+ * SMTP_HOST=localhost SMTP_PORT=2525.
+ */
+
+export interface MockEmail {
+  from: string;
+  to: string[];
+  data: string; // Raw message with dot-stuffing removed
+  receivedAt: string;
+}
+
+export interface MockWebhook {
+  headers: Record<string, string>;
+  body: unknown;
+  receivedAt: string;
+}
+
+// Everything the mock servers were asked to deliver, newest last
+export interface MockOutbox {
+  webhooks: MockWebhook[];
+  emails: MockEmail[];
+}
+
+export const createOutbox = (): MockOutbox => ({ webhooks: [], emails: [] });
+
+const address = (argument: string): string => argument.replace(/^[^:]*:\s*/, '').replace(/^<|>.*$/g, '').trim();
+
+export function createMockSmtpServer(outbox: MockOutbox): net.Server {
+  return net.createServer(socket => {
+    socket.setEncoding('utf8');
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    let buffer = '';
+    let inData = false;
+    let envelope: { from: string; to: string[] } = { from: '', to: [] };
+
+    const handleCommand = (line: string) => {
+      const [verb, ...rest] = line.split(' ');
+      const argument = rest.join(' ');
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          reply('250-mock.smtp');
+          reply('250 AUTH PLAIN LOGIN');
+          return;
+        case 'HELO':
+        case 'NOOP':
+          return reply('250 OK');
+        case 'AUTH':
+          return reply('235 Authentication succeeded');
+        case 'MAIL':
+          envelope = { from: address(argument), to: [] };
+          return reply('250 OK');
+        case 'RCPT':
+          envelope.to.push(address(argument));
+          return reply('250 OK');
+        case 'DATA':
+          if (envelope.to.length === 0) return reply('503 RCPT first');
+          inData = true;
+          return reply('354 End data with <CR><LF>.<CR><LF>');
+        case 'RSET':
+          envelope = { from: '', to: [] };
+          return reply('250 OK');
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          return;
+        default:
+          return reply('502 Command not implemented');
+      }
+    };
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          const data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          outbox.emails.push({ ...envelope, data, receivedAt: new Date().toISOString() });
+          reply('250 OK: queued');
+          continue;
+        }
+        const newline = buffer.indexOf('\r\n');
+        if (newline < 0) return;
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        handleCommand(line);
+      }
+    });
+    socket.on('error', () => socket.destroy());
+
+    reply('220 mock.smtp ESMTP ready');
+  });
+}
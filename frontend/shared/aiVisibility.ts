@@ -0,0 +1,243 @@
+import type {
+  AIBrandVisibility,
+  AnswerBrandMention,
+  AnswerEnginePrompt,
+  AnswerEngineResult,
+  AnswerSentiment
+} from './types.js';
+import type { ValidationResult } from './validation.js';
+import { matchesBrand } from './brandVariants.js';
+
+/**
+ * AI Answer Engine Visibility
+ * Asks an AI assistant the questions a shopper would ask about each of the project's
+ * top categories and reads which brands the answers recommend, in which order and
+ * in what tone. AI SOV is the own brand's share of those mentions, with brands named
+ * first weighted highest. Pure functions - /api/ai-visibility asks the engine.
+ *
+ * Prompts are only ever built here from category keywords and the fixed templates, so
+ * the API can't be used to send the workspace's Anthropic account arbitrary text.
+ */
+
+export const MAX_AI_PROMPTS = 20;
+const MAX_PROMPT_CATEGORIES = 100;
+const MAX_CATEGORY_KEYWORDS = 20;
+const MAX_CATEGORY_LENGTH = 100;
+const MAX_KEYWORD_LENGTH = 80;
+// Search terms only: no sentence punctuation, so a keyword can't carry instructions of its own
+const KEYWORD_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} '&+\-.%/]*$/u;
+const KEYWORDS_PER_CATEGORY = 2;
+const ASK_CONCURRENCY = 5;
+
+// {keyword} is replaced with a category keyword
+export const DEFAULT_PROMPT_TEMPLATES = [
+  'What are the best brands for {keyword}?',
+  'Which brand would you recommend for {keyword}?'
+];
+
+// Anything that can answer a prompt: the Anthropic client in answerEngine.ts, or a stub in tests
+export interface AnswerEngine {
+  id: string;
+  model: string;
+  ask(prompt: string): Promise<string>;
+}
+
+export interface PromptCategory {
+  category: string;
+  topKeywords: string[]; // Highest volume first
+}
+
+/**
+ * One prompt per template for the top keywords of each category, biggest categories
+ * first. Keywords naming a tracked brand are skipped - asking about a brand answers
+ * with that brand. Uncategorised keywords ('Other') say nothing about a market.
+ */
+export function buildAnswerEnginePrompts(
+  categories: PromptCategory[],
+  brands: string[],
+  templates: string[] = DEFAULT_PROMPT_TEMPLATES,
+  limit = MAX_AI_PROMPTS
+): AnswerEnginePrompt[] {
+  const prompts: AnswerEnginePrompt[] = [];
+
+  for (const { category, topKeywords } of categories) {
+    if (category === 'Other') continue;
+    const keywords = topKeywords
+      .filter(keyword => !brands.some(brand => matchesBrand(keyword, brand)))
+      .slice(0, KEYWORDS_PER_CATEGORY);
+
+    for (const keyword of keywords) {
+      for (const template of templates) {
+        if (prompts.length >= limit) return prompts;
+        prompts.push({ category, keyword, prompt: template.replaceAll('{keyword}', keyword) });
+      }
+    }
+  }
+
+  return prompts;
+}
+
+/**
+ * Categories and their top keywords as sent by the panel. Keywords that don't look like
+ * search terms are dropped rather than failing the request.
+ */
+export function validatePromptCategories(input: unknown): ValidationResult<PromptCategory[]> {
+  if (!Array.isArray(input) || input.length === 0) return { success: false, error: 'At least one category is required' };
+  if (input.length > MAX_PROMPT_CATEGORIES) return { success: false, error: `Send at most ${MAX_PROMPT_CATEGORIES} categories` };
+
+  const categories: PromptCategory[] = [];
+  for (const item of input as unknown[]) {
+    const c = item as Partial<PromptCategory> | null;
+    const category = typeof c?.category === 'string' ? c.category.trim() : '';
+    if (!category || category.length > MAX_CATEGORY_LENGTH) return { success: false, error: 'Every category needs a name' };
+    if (!Array.isArray(c?.topKeywords)) return { success: false, error: `topKeywords of ${category} must be a list` };
+
+    const topKeywords = c.topKeywords
+      .filter((keyword): keyword is string => typeof keyword === 'string')
+      .map(keyword => keyword.trim().replace(/\s+/g, ' '))
+      .filter(keyword => keyword.length <= MAX_KEYWORD_LENGTH && KEYWORD_PATTERN.test(keyword))
+      .slice(0, MAX_CATEGORY_KEYWORDS);
+    categories.push({ category, topKeywords });
+  }
+  return { success: true, data: categories };
+}
+
+// ==========================================
+// ANSWER PARSING
+// ==========================================
+
+const POSITIVE_WORDS = new Set([
+  'best', 'top', 'recommend', 'recommended', 'excellent', 'great', 'good', 'trusted', 'popular', 'favorite',
+  'favourite', 'leading', 'quality', 'reliable', 'affordable', 'loved', 'ideal', 'standout', 'pioneer', 'effective'
+]);
+const NEGATIVE_WORDS = new Set([
+  'expensive', 'pricey', 'overpriced', 'avoid', 'poor', 'worse', 'worst', 'bad', 'complaints', 'criticized',
+  'criticised', 'controversy', 'controversial', 'lacks', 'limited', 'disappointing', 'issues', 'recall', 'weak'
+]);
+
+const toWords = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+// Sentences and list items; a recommendation list puts one brand per line. A sentence
+// ends after a word of three or more letters, so "Dr. Hauschka" and "1." don't split one.
+const toSegments = (answer: string): string[] => answer.split(/\n+|(?<=\p{L}{3}[.!?])\s+/u).filter(s => s.trim());
+
+const brandWordCount = (brand: string): number => brand.split(/[^\p{L}\p{N}]+/u).filter(Boolean).length || 1;
+
+// Word index of the brand's first mention, or -1. Matching follows brand keywords, so
+// "Dr. Hauschka", "**dr hauschka**" and "Börlind"/"Boerlind" all count.
+function findBrand(words: string[], brand: string): number {
+  const size = brandWordCount(brand);
+  for (let i = 0; i < words.length; i++) {
+    if (matchesBrand(words.slice(i, i + size).join(' '), brand)) return i;
+  }
+  return -1;
+}
+
+// Positive minus negative lexicon words across the sentences naming the brand
+function scoreSentiment(segments: string[], brand: string): AnswerSentiment {
+  let score = 0;
+  for (const segment of segments) {
+    if (findBrand(toWords(segment), brand) < 0) continue;
+    for (const word of segment.toLowerCase().split(/[^\p{L}]+/u)) {
+      if (POSITIVE_WORDS.has(word)) score++;
+      if (NEGATIVE_WORDS.has(word)) score--;
+    }
+  }
+  return score > 0 ? 'positive' : score < 0 ? 'negative' : 'neutral';
+}
+
+/**
+ * Tracked brands named in an answer, in the order they are first named
+ */
+export function parseBrandMentions(answer: string, brands: string[]): AnswerBrandMention[] {
+  const words = toWords(answer);
+  const segments = toSegments(answer);
+
+  return brands
+    .map(brand => ({ brand, index: findBrand(words, brand) }))
+    .filter(b => b.index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map(({ brand }, i) => ({ brand, rank: i + 1, sentiment: scoreSentiment(segments, brand) }));
+}
+
+/**
+ * Ask every prompt and parse the answers. Prompts run a few at a time; a failed or
+ * timed-out request drops that prompt into `failed` and SOV is computed from the
+ * answers that came back. Only when no prompt is answered does the run fail, with
+ * the first error, so the route can still report an invalid key or a rate limit.
+ */
+export async function runAnswerEnginePrompts(
+  engine: AnswerEngine,
+  prompts: AnswerEnginePrompt[],
+  brands: string[]
+): Promise<{ results: AnswerEngineResult[]; failed: AnswerEnginePrompt[] }> {
+  const results: AnswerEngineResult[] = [];
+  const failed: AnswerEnginePrompt[] = [];
+  let firstError: unknown = null;
+
+  for (let i = 0; i < prompts.length; i += ASK_CONCURRENCY) {
+    const batch = prompts.slice(i, i + ASK_CONCURRENCY);
+    const settled = await Promise.allSettled(batch.map(prompt => engine.ask(prompt.prompt)));
+    settled.forEach((outcome, j) => {
+      if (outcome.status === 'fulfilled') {
+        results.push({ ...batch[j], answer: outcome.value, mentions: parseBrandMentions(outcome.value, brands) });
+        return;
+      }
+      console.error(`Answer engine prompt failed: "${batch[j].prompt}"`, outcome.reason);
+      firstError ??= outcome.reason;
+      failed.push(batch[j]);
+    });
+  }
+
+  if (results.length === 0 && firstError) throw firstError;
+  return { results, failed };
+}
+
+// ==========================================
+// SHARE OF VOICE
+// ==========================================
+
+const toPercent = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 1000) / 10 : 0);
+
+/**
+ * Visibility of each brand across the answers, own brand first.
+ * By mentions every answer naming a brand counts once; by rank a mention counts
+ * 1 / rank, so being recommended first is worth twice being named second.
+ */
+export function calculateAIShareOfVoice(
+  results: AnswerEngineResult[],
+  brandName: string,
+  competitors: string[]
+): { brands: AIBrandVisibility[]; sov: { byMentions: number; byRank: number } } {
+  const names = [brandName, ...competitors];
+  const all = results.flatMap(r => r.mentions);
+  const totalWeight = all.reduce((sum, m) => sum + 1 / m.rank, 0);
+
+  const brands = names.map((brand, i): AIBrandVisibility => {
+    const mentions = all.filter(m => m.brand === brand);
+    const weight = mentions.reduce((sum, m) => sum + 1 / m.rank, 0);
+    const sentiment: Record<AnswerSentiment, number> = { positive: 0, neutral: 0, negative: 0 };
+    for (const m of mentions) sentiment[m.sentiment]++;
+
+    return {
+      brand,
+      isOwnBrand: i === 0,
+      mentions: mentions.length,
+      mentionRate: toPercent(mentions.length, results.length),
+      firstMentions: mentions.filter(m => m.rank === 1).length,
+      avgRank: mentions.length > 0
+        ? Math.round((mentions.reduce((sum, m) => sum + m.rank, 0) / mentions.length) * 10) / 10
+        : null,
+      sentiment,
+      shareOfVoice: toPercent(weight, totalWeight)
+    };
+  });
+
+  return {
+    brands,
+    sov: {
+      byMentions: toPercent(brands[0].mentions, all.length),
+      byRank: brands[0].shareOfVoice
+    }
+  };
+}
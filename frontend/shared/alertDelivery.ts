@@ -0,0 +1,340 @@
+/// <reference types="node" />
+import { createHmac } from 'node:crypto';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { AlertChannel, AlertDelivery, AlertItem, AlertRule, AnalysisChannel, BrandKeywordInput, SMTPSettings } from './types.js';
+import { buildMetricSeries, CHANNEL_METRICS, evaluateRule } from './alerts.js';
+import type { ChannelSnapshotMetrics, SnapshotMetrics } from './alerts.js';
+import { assertPublicWebhookUrl, resolveSecret } from './credentials.js';
+import { sendMail } from './smtp.js';
+
+/**
+ * Alert checking and delivery
+ * Server-only. After a snapshot is stored, the project's enabled rules are checked
+ * against its history; each new alert lands in the inbox (Alert table) and is sent to
+ * the rule's channels with the workspace's webhook / SMTP settings.
+ */
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export const SIGNATURE_HEADER = 'X-Alert-Signature';
+
+export interface AlertNotification {
+  subject: string;
+  text: string;
+  payload: Record<string, unknown>;
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+export async function deliverWebhook(
+  { url, signingSecret }: { url: string; signingSecret?: string },
+  payload: Record<string, unknown>
+): Promise<void> {
+  const body = JSON.stringify(payload);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(signingSecret ? { [SIGNATURE_HEADER]: signPayload(body, signingSecret) } : {})
+    },
+    body,
+    // A redirect could lead past the address check, so it counts as a failed delivery
+    redirect: 'manual',
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+  });
+  if (!response.ok) throw new Error(`Webhook returned HTTP ${response.status}`);
+}
+
+export async function deliverEmail(settings: SMTPSettings, { subject, text }: AlertNotification): Promise<void> {
+  await sendMail(settings, { subject, text });
+}
+
+/**
+ * Send a notification to each channel; a failing channel doesn't stop the others
+ */
+export async function deliverAlert(
+  workspaceId: string,
+  channels: AlertChannel[],
+  notification: AlertNotification
+): Promise<AlertDelivery[]> {
+  const deliveries: AlertDelivery[] = [];
+  for (const channel of channels) {
+    try {
+      if (channel === 'webhook') {
+        const resolved = await resolveSecret(workspaceId, 'webhook');
+        if (!resolved) throw new Error('No webhook configured');
+        // The server's own ALERT_WEBHOOK_URL may be internal; a workspace's may not
+        if (resolved.source === 'workspace') await assertPublicWebhookUrl(resolved.secret.url);
+        await deliverWebhook(resolved.secret, notification.payload);
+      } else {
+        const resolved = await resolveSecret(workspaceId, 'smtp');
+        if (!resolved) throw new Error('No SMTP server configured');
+        await deliverEmail(resolved.secret, notification);
+      }
+      deliveries.push({ channel, ok: true, error: null });
+    } catch (error) {
+      deliveries.push({ channel, ok: false, error: error instanceof Error ? error.message : 'Delivery failed' });
+    }
+  }
+  return deliveries;
+}
+
+interface NotifiedProject {
+  id: string;
+  domain: string | null;
+  locationCode: number;
+}
+
+export function buildAlertNotification(alert: AlertItem, project: NotifiedProject): AlertNotification {
+  const site = project.domain ?? project.id;
+  return {
+    subject: `[${site}] ${alert.ruleName}`,
+    text: [
+      alert.message,
+      '',
+      `Project: ${site} (location ${project.locationCode})`,
+      `Rule: ${alert.ruleName}`,
+      `Observed: ${alert.observedAt}`
+    ].join('\n'),
+    payload: {
+      type: 'alert',
+      alert: {
+        id: alert.id,
+        ruleId: alert.ruleId,
+        ruleName: alert.ruleName,
+        metric: alert.metric,
+        subject: alert.subject,
+        value: alert.value,
+        baseline: alert.baseline,
+        message: alert.message,
+        observedAt: alert.observedAt
+      },
+      project,
+      sentAt: new Date().toISOString()
+    }
+  };
+}
+
+// Sent by the settings "Test" button so receivers can tell it apart from a real alert
+export function buildTestNotification(): AlertNotification {
+  return {
+    subject: 'Test alert',
+    text: 'This is a test alert. Alert deliveries to this address are working.',
+    payload: { type: 'test', sentAt: new Date().toISOString() }
+  };
+}
+
+// ============================================
+// CHECKING
+// ============================================
+
+export interface AlertRow {
+  id: string;
+  ruleId: string;
+  projectId: string;
+  metric: string;
+  subject: string;
+  value: number;
+  baseline: number | null;
+  message: string;
+  observedAt: Date;
+  status: string;
+  acknowledgedAt: Date | null;
+  snoozedUntil: Date | null;
+  deliveries: unknown;
+  createdAt: Date;
+}
+
+export function toAlertItem(row: AlertRow, ruleName: string, domain: string | null): AlertItem {
+  return {
+    id: row.id,
+    ruleId: row.ruleId,
+    ruleName,
+    projectId: row.projectId,
+    domain,
+    metric: row.metric as AlertItem['metric'],
+    subject: row.subject,
+    value: row.value,
+    baseline: row.baseline,
+    message: row.message,
+    observedAt: row.observedAt.toISOString(),
+    status: row.status as AlertItem['status'],
+    acknowledgedAt: row.acknowledgedAt?.toISOString() ?? null,
+    snoozedUntil: row.snoozedUntil?.toISOString() ?? null,
+    deliveries: Array.isArray(row.deliveries) ? row.deliveries as AlertDelivery[] : [],
+    createdAt: row.createdAt.toISOString()
+  };
+}
+
+export interface AlertRuleRow {
+  id: string;
+  projectId: string;
+  name: string;
+  metric: string;
+  subject: string;
+  type: string;
+  direction: string;
+  value: number;
+  lookback: number;
+  channels: string[];
+  enabled: boolean;
+}
+
+export function toAlertRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    name: row.name,
+    metric: row.metric as AlertRule['metric'],
+    subject: row.subject,
+    type: row.type as AlertRule['type'],
+    direction: row.direction as AlertRule['direction'],
+    value: row.value,
+    lookback: row.lookback,
+    channels: row.channels as AlertRule['channels'],
+    enabled: row.enabled
+  };
+}
+
+const isUniqueViolation = (error: unknown): boolean =>
+  (error as { code?: string } | null)?.code === 'P2002';
+
+/**
+ * Check a project's enabled rules against its latest snapshots
+ * A rule + subject with a snoozed alert stays quiet until the snooze ends, and the
+ * same snapshot never alerts twice for a rule (Alert is unique on rule, subject and observedAt).
+ * @returns Alerts created by this run
+ */
+export async function runProjectAlerts(prisma: PrismaClient, projectId: string): Promise<AlertItem[]> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { alertRules: { where: { enabled: true } } }
+  });
+  if (!project || project.alertRules.length === 0) return [];
+
+  const rules: AlertRule[] = project.alertRules.map(toAlertRule);
+  // One extra point: percent change compares the latest value with `lookback` points before it
+  const take = Math.max(...rules.map(r => r.lookback)) + 1;
+
+  const snapshotRows = await prisma.snapshot.findMany({
+    where: { projectId },
+    orderBy: { capturedAt: 'desc' },
+    take,
+    select: { capturedAt: true, shareOfSearch: true, shareOfVoice: true, gap: true, brandVolume: true, brandKeywords: true }
+  });
+  const snapshots: SnapshotMetrics[] = snapshotRows.map(row => ({
+    ...row,
+    brandKeywords: Array.isArray(row.brandKeywords) ? row.brandKeywords as unknown as BrandKeywordInput[] : []
+  }));
+
+  const channels = Object.entries(CHANNEL_METRICS)
+    .filter(([, metric]) => rules.some(r => r.metric === metric))
+    .map(([channel]) => channel);
+  const channelSnapshots: ChannelSnapshotMetrics[] = (await Promise.all(channels.map(channel =>
+    prisma.channelSnapshot.findMany({
+      where: { projectId, channel },
+      orderBy: { capturedAt: 'desc' },
+      take,
+      select: { capturedAt: true, channel: true, shareOfVoice: true }
+    })
+  ))).flat();
+
+  const now = new Date();
+  const snoozed: Array<{ ruleId: string; subject: string }> = await prisma.alert.findMany({
+    where: { projectId, snoozedUntil: { gt: now } },
+    select: { ruleId: true, subject: true }
+  });
+  const isSnoozed = (ruleId: string, subject: string) => snoozed.some(s => s.ruleId === ruleId && s.subject === subject);
+
+  const created: AlertItem[] = [];
+  for (const rule of rules) {
+    const series = buildMetricSeries(rule.metric, snapshots, channelSnapshots);
+    for (const trigger of evaluateRule(rule, series)) {
+      if (isSnoozed(rule.id, trigger.subject)) continue;
+
+      let row: AlertRow;
+      try {
+        row = await prisma.alert.create({
+          data: {
+            ruleId: rule.id,
+            projectId,
+            metric: trigger.metric,
+            subject: trigger.subject,
+            value: trigger.value,
+            baseline: trigger.baseline,
+            message: trigger.message,
+            observedAt: new Date(trigger.observedAt),
+            deliveries: []
+          }
+        });
+      } catch (error) {
+        if (isUniqueViolation(error)) continue;
+        throw error;
+      }
+
+      const alert = toAlertItem(row, rule.name, project.domain);
+      if (rule.channels.length > 0) {
+        alert.deliveries = await deliverAlert(project.workspaceId, rule.channels, buildAlertNotification(alert, {
+          id: project.id,
+          domain: project.domain,
+          locationCode: project.locationCode
+        }));
+        await prisma.alert.update({ where: { id: row.id }, data: { deliveries: alert.deliveries as unknown as Prisma.InputJsonValue } });
+      }
+      created.push(alert);
+    }
+  }
+
+  return created;
+}
+
+// ============================================
+// CHANNEL SNAPSHOTS
+// ============================================
+
+/**
+ * Store a channel analysis for the matching tracked project and check its alerts
+ * Channel analyses run on demand, so this is the only history paid / YouTube / local / AI
+ * SOV rules get. Does nothing without DATABASE_URL or a tracked project, and never
+ * throws - the analysis response matters more than the alert.
+ */
+export async function recordChannelSnapshot(
+  workspaceId: string,
+  domain: unknown,
+  locationCode: number,
+  channel: AnalysisChannel,
+  shareOfVoice: number,
+  metrics: Record<string, number>
+): Promise<void> {
+  if (!process.env.DATABASE_URL || typeof domain !== 'string' || !domain.trim()) return;
+
+  let prisma: PrismaClient | null = null;
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    prisma = new PrismaClient();
+    const project = await prisma.project.findFirst({
+      where: {
+        domain: domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/.*$/, '').trim(),
+        locationCode,
+        workspaceId
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+    if (!project) return;
+
+    await prisma.channelSnapshot.create({
+      data: { projectId: project.id, channel, shareOfVoice, metrics }
+    });
+    await runProjectAlerts(prisma, project.id);
+  } catch (error) {
+    console.error(`Failed to record ${channel} snapshot:`, error);
+  } finally {
+    await prisma?.$disconnect();
+  }
+}
@@ -0,0 +1,283 @@
+import type {
+  AlertChannel,
+  AlertDirection,
+  AlertMetric,
+  AlertRule,
+  AlertRuleInput,
+  AlertRuleType,
+  AlertTrigger,
+  AnalysisChannel,
+  BrandKeywordInput,
+  MetricPoint
+} from './types.js';
+import type { ValidationResult } from './validation.js';
+
+/**
+ * Alert Rules
+ * Rules watch one metric of a tracked project and are checked against the latest
+ * snapshot whenever a new one is stored. Pure functions - the API routes load the
+ * snapshot history, persist triggered alerts and deliver them.
+ */
+
+export const ALERT_METRICS: Record<AlertMetric, { label: string; format: 'percent' | 'points' | 'volume' }> = {
+  sos: { label: 'Share of Search', format: 'percent' },
+  sov: { label: 'Share of Voice', format: 'percent' },
+  gap: { label: 'Growth Gap', format: 'points' },
+  brandVolume: { label: 'Brand search volume', format: 'volume' },
+  competitorBrandVolume: { label: 'Competitor brand volume', format: 'volume' },
+  paidSov: { label: 'Paid SOV', format: 'percent' },
+  youtubeSov: { label: 'YouTube SOV', format: 'percent' },
+  localSov: { label: 'Local SOV', format: 'percent' },
+  aiSov: { label: 'AI SOV', format: 'percent' }
+};
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['threshold', 'percentChange', 'outlier'];
+export const ALERT_CHANNELS: AlertChannel[] = ['webhook', 'email'];
+
+// Outlier rules need this many earlier snapshots before they can judge the latest one
+export const MIN_OUTLIER_HISTORY = 4;
+export const MAX_LOOKBACK = 52;
+
+// Channel snapshot that feeds each channel metric
+export const CHANNEL_METRICS: Record<AnalysisChannel, AlertMetric> = {
+  paid: 'paidSov',
+  youtube: 'youtubeSov',
+  local: 'localSov',
+  ai: 'aiSov'
+};
+
+const DIRECTIONS: AlertDirection[] = ['above', 'below', 'either'];
+
+// ============================================
+// VALIDATION
+// ============================================
+
+export function validateAlertRule(input: unknown): ValidationResult<AlertRuleInput> {
+  if (!input || typeof input !== 'object') return { success: false, error: 'Rule is required' };
+  const body = input as Record<string, unknown>;
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) return { success: false, error: 'Rule name is required' };
+  if (name.length > 100) return { success: false, error: 'Rule name is too long' };
+
+  if (typeof body.metric !== 'string' || !(body.metric in ALERT_METRICS)) {
+    return { success: false, error: `Unknown metric: ${String(body.metric)}` };
+  }
+  const metric = body.metric as AlertMetric;
+
+  if (!ALERT_RULE_TYPES.includes(body.type as AlertRuleType)) {
+    return { success: false, error: `Unknown rule type: ${String(body.type)}` };
+  }
+  const type = body.type as AlertRuleType;
+
+  if (!DIRECTIONS.includes(body.direction as AlertDirection)) {
+    return { success: false, error: `Unknown direction: ${String(body.direction)}` };
+  }
+  const direction = body.direction as AlertDirection;
+  if (type === 'threshold' && direction === 'either') {
+    return { success: false, error: 'Threshold rules need a direction: above or below' };
+  }
+
+  if (typeof body.value !== 'number' || !Number.isFinite(body.value)) {
+    return { success: false, error: 'Value must be a number' };
+  }
+  if (type !== 'threshold' && body.value <= 0) {
+    return { success: false, error: type === 'outlier' ? 'Z-score must be above 0' : 'Percent change must be above 0' };
+  }
+
+  const lookback = body.lookback ?? (type === 'outlier' ? 8 : 1);
+  if (!Number.isInteger(lookback) || (lookback as number) < 1 || (lookback as number) > MAX_LOOKBACK) {
+    return { success: false, error: `Lookback must be a whole number from 1 to ${MAX_LOOKBACK}` };
+  }
+  if (type === 'outlier' && (lookback as number) < MIN_OUTLIER_HISTORY) {
+    return { success: false, error: `Outlier rules need a lookback of at least ${MIN_OUTLIER_HISTORY} snapshots` };
+  }
+
+  const channels = body.channels ?? [];
+  if (!Array.isArray(channels) || channels.some(c => !ALERT_CHANNELS.includes(c as AlertChannel))) {
+    return { success: false, error: 'Channels must be "webhook" and/or "email"' };
+  }
+
+  const subject = typeof body.subject === 'string' && metric === 'competitorBrandVolume' ? body.subject.trim().toLowerCase() : '';
+
+  return {
+    success: true,
+    data: {
+      name,
+      metric,
+      subject,
+      type,
+      direction,
+      value: body.value,
+      lookback: lookback as number,
+      channels: [...new Set(channels as AlertChannel[])],
+      enabled: body.enabled !== false
+    }
+  };
+}
+
+// ============================================
+// METRIC SERIES
+// ============================================
+
+// The stored snapshot fields rules can read
+export interface SnapshotMetrics {
+  capturedAt: string | Date;
+  shareOfSearch: number;
+  shareOfVoice: number;
+  gap: number;
+  brandVolume: number;
+  brandKeywords: BrandKeywordInput[];
+}
+
+export interface ChannelSnapshotMetrics {
+  capturedAt: string | Date;
+  channel: string;
+  shareOfVoice: number;
+}
+
+const toISO = (value: string | Date): string => (typeof value === 'string' ? value : value.toISOString());
+
+/**
+ * Points per subject for one metric, oldest first
+ * Subject is "" except for competitor brand volume, which has one series per competitor keyword.
+ */
+export function buildMetricSeries(
+  metric: AlertMetric,
+  snapshots: SnapshotMetrics[],
+  channelSnapshots: ChannelSnapshotMetrics[] = []
+): Map<string, MetricPoint[]> {
+  const series = new Map<string, MetricPoint[]>();
+  const add = (subject: string, capturedAt: string | Date, value: number) => {
+    if (!series.has(subject)) series.set(subject, []);
+    series.get(subject)!.push({ capturedAt: toISO(capturedAt), value });
+  };
+
+  const channel = Object.entries(CHANNEL_METRICS).find(([, m]) => m === metric)?.[0];
+  if (channel) {
+    for (const s of channelSnapshots) if (s.channel === channel) add('', s.capturedAt, s.shareOfVoice);
+  } else {
+    for (const s of snapshots) {
+      if (metric === 'competitorBrandVolume') {
+        for (const kw of s.brandKeywords) {
+          if (!kw.isOwnBrand) add(kw.keyword.toLowerCase(), s.capturedAt, kw.searchVolume);
+        }
+      } else {
+        const value = { sos: s.shareOfSearch, sov: s.shareOfVoice, gap: s.gap, brandVolume: s.brandVolume }[metric as 'sos' | 'sov' | 'gap' | 'brandVolume'];
+        add('', s.capturedAt, value);
+      }
+    }
+  }
+
+  for (const points of series.values()) points.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  return series;
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+const round = (value: number, decimals: number = 1): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export function formatMetricValue(metric: AlertMetric, value: number): string {
+  const { format } = ALERT_METRICS[metric];
+  if (format === 'percent') return `${round(value)}%`;
+  if (format === 'points') return `${value > 0 ? '+' : ''}${round(value)} pts`;
+  return Math.round(value).toLocaleString('en-US');
+}
+
+// One-line summary for rule lists, e.g. "Share of Search drops 15% vs. 1 snapshot earlier"
+export function describeAlertRule(rule: AlertRuleInput): string {
+  const label = rule.subject ? `${ALERT_METRICS[rule.metric].label} for "${rule.subject}"` : ALERT_METRICS[rule.metric].label;
+  if (rule.type === 'threshold') {
+    return `${label} ${rule.direction === 'above' ? 'rises above' : 'falls below'} ${formatMetricValue(rule.metric, rule.value)}`;
+  }
+  const move = rule.direction === 'above' ? 'rises' : rule.direction === 'below' ? 'drops' : 'moves';
+  const snapshots = `${rule.lookback} snapshot${rule.lookback === 1 ? '' : 's'}`;
+  if (rule.type === 'percentChange') return `${label} ${move} ${rule.value}% vs. ${snapshots} earlier`;
+  return `${label} ${move} more than ${rule.value} standard deviations from the last ${snapshots}`;
+}
+
+const matchesDirection = (direction: AlertDirection, signed: number, limit: number): boolean => {
+  if (direction === 'above') return signed >= limit;
+  if (direction === 'below') return signed <= -limit;
+  return Math.abs(signed) >= limit;
+};
+
+const meetsThreshold = (rule: Pick<AlertRule, 'direction' | 'value'>, value: number): boolean =>
+  rule.direction === 'above' ? value > rule.value : value < rule.value;
+
+// The rule's finding for one series, or null when the latest point is fine
+function evaluateSeries(rule: AlertRule, points: MetricPoint[]): Omit<AlertTrigger, 'ruleId' | 'metric' | 'subject' | 'observedAt'> | null {
+  const n = points.length;
+  if (n === 0) return null;
+  const latest = points[n - 1].value;
+  const format = (value: number) => formatMetricValue(rule.metric, value);
+
+  if (rule.type === 'threshold') {
+    // Only when the threshold is crossed, so a metric that stays low doesn't alert on every snapshot
+    if (!meetsThreshold(rule, latest) || (n > 1 && meetsThreshold(rule, points[n - 2].value))) return null;
+    return {
+      value: latest,
+      baseline: rule.value,
+      message: `${rule.direction === 'above' ? 'rose above' : 'fell below'} ${format(rule.value)}: now ${format(latest)}`
+    };
+  }
+
+  if (rule.type === 'percentChange') {
+    if (n <= rule.lookback) return null;
+    const base = points[n - 1 - rule.lookback].value;
+    if (base <= 0) return null;
+    const change = ((latest - base) / base) * 100;
+    if (!matchesDirection(rule.direction, change, rule.value)) return null;
+    return {
+      value: latest,
+      baseline: base,
+      message: `${change < 0 ? 'dropped' : 'rose'} ${round(Math.abs(change))}% to ${format(latest)} (was ${format(base)})`
+    };
+  }
+
+  // Outlier: z-score against the preceding window; a flat history makes any change an outlier
+  const history = points.slice(Math.max(0, n - 1 - rule.lookback), n - 1).map(p => p.value);
+  if (history.length < MIN_OUTLIER_HISTORY) return null;
+  const mean = history.reduce((sum, v) => sum + v, 0) / history.length;
+  const std = Math.sqrt(history.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (history.length - 1));
+  const z = std > 0 ? (latest - mean) / std : latest === mean ? 0 : Math.sign(latest - mean) * Infinity;
+  if (!matchesDirection(rule.direction, z, rule.value)) return null;
+  return {
+    value: latest,
+    baseline: round(mean, 2),
+    message: `is an unusual ${z > 0 ? 'spike' : 'drop'}: ${format(latest)} vs. a typical ${format(mean)}${Number.isFinite(z) ? ` (z = ${round(z)})` : ''}`
+  };
+}
+
+/**
+ * Check a rule against the latest point of every series it watches
+ * @param series Output of buildMetricSeries for the rule's metric
+ */
+export function evaluateRule(rule: AlertRule, series: Map<string, MetricPoint[]>): AlertTrigger[] {
+  if (!rule.enabled) return [];
+
+  const triggers: AlertTrigger[] = [];
+  for (const [subject, points] of series) {
+    if (rule.subject && subject !== rule.subject) continue;
+
+    const finding = evaluateSeries(rule, points);
+    if (!finding) continue;
+
+    const label = subject ? `${ALERT_METRICS[rule.metric].label} for "${subject}"` : ALERT_METRICS[rule.metric].label;
+    triggers.push({
+      ruleId: rule.id,
+      metric: rule.metric,
+      subject,
+      value: finding.value,
+      baseline: finding.baseline,
+      observedAt: points[points.length - 1].capturedAt,
+      message: `${label} ${finding.message}`
+    });
+  }
+  return triggers;
+}
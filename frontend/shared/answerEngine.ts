@@ -0,0 +1,47 @@
+/// <reference types="node" />
+import Anthropic from '@anthropic-ai/sdk';
+import type { AnswerEngine } from './aiVisibility.js';
+import { getAnthropicApiKey, getAnthropicBaseUrl } from './upstream.js';
+
+/**
+ * Answer Engines
+ * Server-only. The AI visibility route only sees the AnswerEngine interface, so other
+ * assistants can sit next to Anthropic. With MOCK_API_URL set, the Anthropic client
+ * talks to the stub in mock/server.ts.
+ */
+
+export const DEFAULT_ANSWER_MODEL = 'claude-3-haiku-20240307';
+// A recommendation answer names its brands in the first few sentences
+const ANSWER_MAX_TOKENS = 300;
+// Per prompt, without retries: four rounds of prompts have to fit in the route's maxDuration
+const ANSWER_TIMEOUT_MS = 20 * 1000;
+
+export function createAnthropicAnswerEngine(
+  apiKey: string,
+  options: { baseURL?: string; model?: string } = {}
+): AnswerEngine {
+  const anthropic = new Anthropic({ apiKey, baseURL: options.baseURL });
+  const model = options.model ?? DEFAULT_ANSWER_MODEL;
+
+  return {
+    id: 'anthropic',
+    model,
+    async ask(prompt) {
+      const message = await anthropic.messages.create(
+        {
+          model,
+          max_tokens: ANSWER_MAX_TOKENS,
+          messages: [{ role: 'user', content: prompt }]
+        },
+        { timeout: ANSWER_TIMEOUT_MS, maxRetries: 0 }
+      );
+      return message.content.map(block => (block.type === 'text' ? block.text : '')).join('');
+    }
+  };
+}
+
+// Answer engine for the workspace, or null when it has no Anthropic key and no mock is configured
+export async function getAnswerEngine(workspaceId: string): Promise<AnswerEngine | null> {
+  const apiKey = await getAnthropicApiKey(workspaceId);
+  return apiKey ? createAnthropicAnswerEngine(apiKey, { baseURL: getAnthropicBaseUrl() }) : null;
+}
@@ -0,0 +1,274 @@
+import type {
+  BrandKeywordInput,
+  BrandVariant,
+  BrandVariantKind,
+  BrandVariantReview,
+  BrandVariantSet,
+  BrandVariantStatus
+} from './types.js';
+
+/**
+ * Brand Variant Discovery
+ * Expands a brand into the search terms people actually use for it - umlaut and spacing
+ * variants, typos and brand + product searches. Variants are reviewed by the user and
+ * only accepted ones feed Share of Search.
+ */
+
+export const MAX_VARIANTS_PER_BRAND = 50;
+// Reviewed variants an analysis looks up volumes for; one search volume task takes 1000 keywords
+export const MAX_VARIANT_VOLUME_LOOKUPS = 900;
+
+// Extract brand name from domain
+export function extractBrandFromDomain(domain: string): string {
+  return domain
+    .replace(/^(https?:\/\/)?(www\.)?/, '')
+    .replace(/\.(com|de|co\.uk|fr|es|it|net|org|io|eu|at|ch|nl|be|pl).*$/, '')
+    .toLowerCase()
+    .replace(/-/g, ' ')
+    .trim();
+}
+
+const collapseWhitespace = (term: string): string => term.toLowerCase().trim().replace(/\s+/g, ' ');
+
+// Lowercase, fold umlauts (written or transliterated) and accents, turn punctuation into word breaks
+function foldSpelling(term: string): string {
+  return term
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/ä|ae/g, 'a')
+    .replace(/ö|oe/g, 'o')
+    .replace(/ü|ue/g, 'u')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9&]+/g, ' ')
+    .trim();
+}
+
+// Comparison key for a brand term: "Annemarie Börlind" and "annemarie-boerlind" share one
+export function normalizeBrandTerm(term: string): string {
+  return foldSpelling(term).replace(/\s+/g, '');
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Typos allowed for a brand key: none for short brands, where one letter changes the word
+const typoLimit = (length: number): number => (length < 5 ? 0 : length < 9 ? 1 : 2);
+
+/**
+ * How a keyword relates to a brand, or null when it isn't a search for the brand.
+ * Every run of consecutive words is compared with the brand, so the brand can be
+ * written with other spacing ("la vera") or surrounded by product words.
+ */
+export function classifyVariant(keyword: string, brand: string): BrandVariantKind | null {
+  if (collapseWhitespace(keyword) === collapseWhitespace(brand)) return 'exact';
+
+  const words = foldSpelling(keyword).split(' ').filter(Boolean);
+  const brandWords = foldSpelling(brand).split(' ').filter(Boolean);
+  const brandKey = brandWords.join('');
+  if (!brandKey || words.length === 0) return null;
+
+  const limit = typoLimit(brandKey.length);
+  let misspelled = false;
+
+  for (let start = 0; start < words.length; start++) {
+    for (let end = start + 1; end <= Math.min(words.length, start + brandWords.length + 1); end++) {
+      const span = words.slice(start, end);
+      const spanKey = span.join('');
+      const isWholeKeyword = start === 0 && end === words.length;
+
+      if (spanKey === brandKey && span.length === brandWords.length && span.every((w, i) => w === brandWords[i])) {
+        return isWholeKeyword ? 'spelling' : 'product';
+      }
+      if (spanKey === brandKey) {
+        misspelled = true;
+      } else if (limit > 0 && Math.abs(spanKey.length - brandKey.length) <= limit && editDistance(spanKey, brandKey) <= limit) {
+        misspelled = true;
+      }
+    }
+  }
+
+  return misspelled ? 'misspelling' : null;
+}
+
+// Brand searches that count without review: the brand written correctly, alone or with product words
+export function matchesBrand(keyword: string, brand: string): boolean {
+  const kind = classifyVariant(keyword, brand);
+  return kind !== null && kind !== 'misspelling';
+}
+
+/**
+ * Spellings keyword suggestions won't surface because they don't contain the brand as typed:
+ * umlauts written out or dropped, multi-word brands joined or hyphenated, and single-word
+ * brands split once ("lavera" -> "la vera").
+ */
+export function generateSpellingVariants(brand: string): string[] {
+  const base = collapseWhitespace(brand);
+  const variants = new Set<string>([
+    base.replace(/ß/g, 'ss').replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue'),
+    base.replace(/ß/g, 'ss').replace(/ä/g, 'a').replace(/ö/g, 'o').replace(/ü/g, 'u')
+  ]);
+
+  const words = base.split(' ');
+  if (words.length > 1) {
+    variants.add(words.join(''));
+    variants.add(words.join('-'));
+  } else if (base.length >= 5) {
+    for (let i = 2; i <= base.length - 2; i++) {
+      variants.add(`${base.slice(0, i)} ${base.slice(i)}`);
+    }
+  }
+
+  variants.delete(base);
+  return [...variants];
+}
+
+/**
+ * Turn candidate keywords into a variant set for review.
+ * Exact, spelling and product variants start accepted; misspellings wait for review.
+ */
+export function buildVariantSet(
+  brand: string,
+  isOwnBrand: boolean,
+  candidates: Array<{ keyword: string; searchVolume: number }>
+): BrandVariantSet {
+  const byKeyword = new Map<string, BrandVariant>();
+
+  for (const candidate of candidates) {
+    const keyword = collapseWhitespace(candidate.keyword);
+    if (!keyword || byKeyword.has(keyword)) continue;
+
+    const kind = classifyVariant(keyword, brand);
+    // Keep the brand itself even without volume so every brand shows up in the review
+    if (!kind || (kind !== 'exact' && candidate.searchVolume <= 0)) continue;
+
+    byKeyword.set(keyword, {
+      keyword,
+      kind,
+      searchVolume: candidate.searchVolume,
+      status: kind === 'misspelling' ? 'pending' : 'accepted'
+    });
+  }
+
+  const variants = [...byKeyword.values()]
+    .sort((a, b) => Number(b.kind === 'exact') - Number(a.kind === 'exact') || b.searchVolume - a.searchVolume)
+    .slice(0, MAX_VARIANTS_PER_BRAND);
+
+  return { brand, isOwnBrand, variants };
+}
+
+// Carry accept/reject decisions over to freshly discovered sets so re-running discovery keeps the review
+export function applyPreviousReview(sets: BrandVariantSet[], previous: BrandVariantReview[]): BrandVariantSet[] {
+  const decisions = new Map<string, BrandVariantStatus>();
+  for (const set of previous) {
+    for (const variant of set.variants) {
+      if (variant.status !== 'pending') decisions.set(`${set.brand}|${variant.keyword}`, variant.status);
+    }
+  }
+
+  return sets.map(set => ({
+    ...set,
+    variants: set.variants.map(variant => ({
+      ...variant,
+      status: decisions.get(`${set.brand}|${variant.keyword}`) ?? variant.status
+    }))
+  }));
+}
+
+/**
+ * Brand keywords for calculateSOS from the accepted variants.
+ * Own brands go first, so a term naming two brands ("lavera vs weleda") counts once, for you.
+ */
+export function buildBrandKeywords(sets: BrandVariantSet[]): BrandKeywordInput[] {
+  const ordered = [...sets].sort((a, b) => Number(b.isOwnBrand) - Number(a.isOwnBrand));
+  const seen = new Set<string>();
+  const keywords: BrandKeywordInput[] = [];
+
+  for (const set of ordered) {
+    for (const variant of set.variants) {
+      if (variant.status !== 'accepted' || seen.has(variant.keyword)) continue;
+      seen.add(variant.keyword);
+      keywords.push({ keyword: variant.keyword, searchVolume: variant.searchVolume, isOwnBrand: set.isOwnBrand });
+    }
+  }
+
+  return keywords.sort((a, b) => b.searchVolume - a.searchVolume);
+}
+
+// Drop the volumes from a review before it is stored; they would be stale by next month
+export function toBrandVariantReview(sets: BrandVariantReview[]): BrandVariantReview[] {
+  return sets.map(({ brand, isOwnBrand, variants }) => ({
+    brand,
+    isOwnBrand,
+    variants: variants.map(({ keyword, status }) => ({ keyword, status }))
+  }));
+}
+
+// Accepted keywords of a review, the ones whose volumes an analysis fetches; own brand first
+export function getAcceptedVariantKeywords(review: BrandVariantReview[]): string[] {
+  const ordered = [...review].sort((a, b) => Number(b.isOwnBrand) - Number(a.isOwnBrand));
+  const keywords = ordered.flatMap(set => set.variants.filter(v => v.status === 'accepted').map(v => v.keyword.toLowerCase()));
+  return [...new Set(keywords)].slice(0, MAX_VARIANT_VOLUME_LOOKUPS);
+}
+
+/**
+ * A stored review with the volumes of the current analysis. Sets of brands that are no
+ * longer the own brand or a competitor are dropped; keywords without a volume count as 0.
+ */
+export function applyReviewVolumes(
+  review: BrandVariantReview[],
+  volumes: Record<string, number>,
+  brands: string[]
+): BrandVariantSet[] {
+  const current = new Set(brands.map(normalizeBrandTerm));
+
+  return review
+    .filter(set => set.isOwnBrand || current.has(normalizeBrandTerm(set.brand)))
+    .map(set => ({
+      brand: set.brand,
+      isOwnBrand: set.isOwnBrand,
+      variants: set.variants.map(({ keyword, status }) => ({
+        keyword,
+        kind: classifyVariant(keyword, set.brand) ?? 'product',
+        searchVolume: volumes[keyword.toLowerCase()] ?? 0,
+        status
+      }))
+    }));
+}
+
+/**
+ * Brand keywords for an analysis with a reviewed set: the accepted variants, plus the
+ * default keywords of competitors added after the review, so they aren't left out.
+ */
+export function buildReviewedBrandKeywords(
+  sets: BrandVariantSet[],
+  defaults: BrandKeywordInput[],
+  competitors: string[]
+): BrandKeywordInput[] {
+  const reviewed = buildBrandKeywords(sets);
+  if (reviewed.length === 0) return [];
+
+  const reviewedBrands = new Set(sets.map(set => normalizeBrandTerm(set.brand)));
+  const unreviewed = competitors.filter(c => !reviewedBrands.has(normalizeBrandTerm(c)));
+  const seen = new Set(reviewed.map(k => k.keyword));
+  const added = defaults.filter(k =>
+    !k.isOwnBrand && !seen.has(k.keyword) && unreviewed.some(competitor => matchesBrand(k.keyword, competitor))
+  );
+
+  return [...reviewed, ...added].sort((a, b) => b.searchVolume - a.searchVolume);
+}
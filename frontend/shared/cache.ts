@@ -0,0 +1,15 @@
+import type { CacheInfo } from './types.js';
+
+// Combine the cache status of every upstream call made while serving one request.
+// Used server-side per request and client-side to merge responses shown together.
+export function mergeCacheInfo(calls: CacheInfo[], now: number = Date.now()): CacheInfo | null {
+  if (calls.length === 0) return null;
+  const oldest = Math.min(...calls.map(c => new Date(c.fetchedAt).getTime()));
+  return {
+    hit: calls.every(c => c.hit),
+    fetchedAt: new Date(oldest).toISOString(),
+    ageSeconds: Math.max(0, Math.round((now - oldest) / 1000)),
+    cost: Math.round(calls.reduce((sum, c) => sum + c.cost, 0) * 10000) / 10000,
+    savedCost: Math.round(calls.reduce((sum, c) => sum + c.savedCost, 0) * 10000) / 10000
+  };
+}
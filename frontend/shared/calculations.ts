@@ -0,0 +1,190 @@
+import type {
+  BrandKeywordInput,
+  RankedKeywordInput,
+  SerpFeatures,
+  CTRCurveDefinition,
+  CTRModelUsage,
+  SOSResult,
+  SOVResult,
+  GrowthGapResult,
+  VisibilityPanel,
+  VisibilityIndexResult
+} from './types.js';
+import {
+  CTR_CURVE,
+  DEFAULT_CTR,
+  DEFAULT_CTR_MODEL_ID,
+  SERP_FEATURE_CTR_ADJUSTMENTS,
+  GAP_THRESHOLD_HIGH,
+  GAP_THRESHOLD_LOW,
+  VISIBILITY_MAX_POSITION
+} from './constants.js';
+
+/**
+ * Shared Calculation Core
+ * The single implementation of SOS / SOV / Growth Gap. src/lib/calculations.ts
+ * re-exports it and every API route imports it, so client and server never drift.
+ */
+
+// Default desktop curve used when no CTR model is selected
+export const DESKTOP_CTR_MODEL: CTRCurveDefinition = {
+  id: DEFAULT_CTR_MODEL_ID,
+  name: 'Desktop (default)',
+  curve: CTR_CURVE,
+  defaultCTR: DEFAULT_CTR
+};
+
+/**
+ * Combined multiplier for the SERP features present on a results page
+ */
+export function getSerpFeatureMultiplier(features?: SerpFeatures): number {
+  if (!features) return 1;
+  let multiplier = 1;
+  if (features.ads) multiplier *= SERP_FEATURE_CTR_ADJUSTMENTS.ads;
+  if (features.featuredSnippet) multiplier *= SERP_FEATURE_CTR_ADJUSTMENTS.featuredSnippet;
+  if (features.localPack) multiplier *= SERP_FEATURE_CTR_ADJUSTMENTS.localPack;
+  return multiplier;
+}
+
+/**
+ * Get click-through rate for a given SERP position
+ * @param model - CTR curve to read from (defaults to the desktop curve)
+ * @param serpFeatures - SERP features on the page; reduce organic CTR when present
+ */
+export function getCTR(
+  position: number,
+  model: CTRCurveDefinition = DESKTOP_CTR_MODEL,
+  serpFeatures?: SerpFeatures
+): number {
+  if (position <= 0) return 0;
+  const baseCTR = model.curve[position] ?? model.defaultCTR;
+  return baseCTR * getSerpFeatureMultiplier(serpFeatures);
+}
+
+/**
+ * Snapshot of the model settings a SOV calculation used
+ */
+export function toCTRModelUsage(model: CTRCurveDefinition, serpAdjustments: boolean): CTRModelUsage {
+  return {
+    id: model.id,
+    name: model.name,
+    curve: { ...model.curve },
+    defaultCTR: model.defaultCTR,
+    serpAdjustments
+  };
+}
+
+export interface SOVOptions {
+  model?: CTRCurveDefinition;
+  applySerpAdjustments?: boolean;
+}
+
+// Calculate Share of Search
+export function calculateSOS(brandKeywords: BrandKeywordInput[]): SOSResult {
+  const brandVolume = brandKeywords
+    .filter(k => k.isOwnBrand)
+    .reduce((sum, k) => sum + k.searchVolume, 0);
+
+  const totalBrandVolume = brandKeywords
+    .reduce((sum, k) => sum + k.searchVolume, 0);
+
+  const shareOfSearch = totalBrandVolume > 0
+    ? (brandVolume / totalBrandVolume) * 100
+    : 0;
+
+  return {
+    shareOfSearch: Math.round(shareOfSearch * 10) / 10,
+    brandVolume,
+    totalBrandVolume
+  };
+}
+
+/**
+ * Calculate Share of Voice
+ * Keywords with Search Console clicks count those instead of the CTR estimate,
+ * capped at the keyword's search volume so SOV stays a share of the market.
+ */
+export function calculateSOV<T extends RankedKeywordInput>(
+  rankedKeywords: T[],
+  options: SOVOptions = {}
+): SOVResult<T> {
+  const model = options.model ?? DESKTOP_CTR_MODEL;
+  const applySerpAdjustments = options.applySerpAdjustments ?? false;
+
+  const keywordBreakdown = rankedKeywords.map(kw => {
+    const modelledCTR = getCTR(kw.position, model, applySerpAdjustments ? kw.serpFeatures : undefined);
+    const visibleVolume = kw.actualClicks !== undefined
+      ? Math.min(kw.actualClicks, kw.searchVolume)
+      : kw.searchVolume * modelledCTR;
+    const ctr = kw.actualClicks !== undefined
+      ? (kw.searchVolume > 0 ? visibleVolume / kw.searchVolume : 0)
+      : modelledCTR;
+    return {
+      ...kw,
+      ctr: Math.round(ctr * 1000) / 10,
+      visibleVolume: Math.round(visibleVolume)
+    };
+  });
+
+  const visibleVolume = keywordBreakdown.reduce((sum, k) => sum + (k.visibleVolume || 0), 0);
+  const totalMarketVolume = rankedKeywords.reduce((sum, k) => sum + k.searchVolume, 0);
+
+  const shareOfVoice = totalMarketVolume > 0
+    ? (visibleVolume / totalMarketVolume) * 100
+    : 0;
+
+  return {
+    shareOfVoice: Math.round(shareOfVoice * 10) / 10,
+    visibleVolume: Math.round(visibleVolume),
+    totalMarketVolume,
+    keywordBreakdown,
+    ctrModel: toCTRModelUsage(model, applySerpAdjustments)
+  };
+}
+
+// Calculate Growth Gap
+export function calculateGrowthGap(sos: number, sov: number): GrowthGapResult {
+  const gap = sov - sos;
+  let interpretation: GrowthGapResult['interpretation'];
+
+  if (gap > GAP_THRESHOLD_HIGH) interpretation = 'growth_potential';
+  else if (gap < GAP_THRESHOLD_LOW) interpretation = 'missing_opportunities';
+  else interpretation = 'balanced';
+
+  return { gap: Math.round(gap * 10) / 10, interpretation };
+}
+
+/**
+ * Calculate a domain's visibility index on a keyword panel
+ * Unlike SOV, the keyword set and weights are fixed by the panel version, so the
+ * index is comparable across domains and over time. It always uses the default
+ * desktop curve without SERP adjustments for the same reason.
+ * @param rankings - The domain's positions for panel keywords; missing keywords don't rank
+ */
+export function calculateVisibilityIndex(
+  panel: VisibilityPanel,
+  rankings: Array<{ keyword: string; position: number }>
+): VisibilityIndexResult {
+  const positions = new Map<string, number>();
+  for (const { keyword, position } of rankings) {
+    if (position <= 0 || position > VISIBILITY_MAX_POSITION) continue;
+    const key = keyword.toLowerCase().trim();
+    // A domain with several URLs for a keyword is credited with its best one
+    positions.set(key, Math.min(position, positions.get(key) ?? Infinity));
+  }
+
+  const keywords = panel.keywords.map(k => ({ ...k, position: positions.get(k.keyword.toLowerCase().trim()) ?? null }));
+  const maxVisible = keywords.reduce((sum, k) => sum + k.weight * getCTR(1), 0);
+  const visible = keywords.reduce((sum, k) => sum + (k.position ? k.weight * getCTR(k.position) : 0), 0);
+
+  return {
+    index: maxVisible > 0 ? Math.round((visible / maxVisible) * 100 * 100) / 100 : 0,
+    panelId: panel.id,
+    panelVersion: panel.version,
+    panelName: panel.name,
+    panelSize: panel.keywords.length,
+    rankingKeywords: keywords.filter(k => k.position !== null).length,
+    topTenKeywords: keywords.filter(k => k.position !== null && k.position <= 10).length,
+    keywords
+  };
+}
@@ -0,0 +1,119 @@
+import type { RankedKeywordInput, KeywordCluster } from './types.js';
+import { getCTR, type SOVOptions, DESKTOP_CTR_MODEL } from './calculations.js';
+
+/**
+ * Keyword Clustering
+ * Groups ranked keywords into topic clusters. Two keywords join the same cluster when
+ * the same page ranks for both (Google treats them as one intent) or when their terms
+ * overlap enough. The home page is ignored as a link because it ranks for unrelated queries.
+ */
+
+export interface ClusterOptions extends SOVOptions {
+  similarityThreshold?: number; // Minimum Jaccard overlap of keyword terms (default 0.5)
+}
+
+type ClusterableKeyword = RankedKeywordInput & { visibleVolume?: number };
+
+// Filler words that would otherwise link unrelated keywords
+const STOP_WORDS = new Set([
+  'and', 'for', 'the', 'with', 'without', 'best', 'near', 'how', 'what', 'buy',
+  'und', 'für', 'mit', 'ohne', 'der', 'die', 'das', 'von', 'bei', 'beste', 'kaufen', 'test'
+]);
+
+export function tokenize(keyword: string): string[] {
+  return keyword
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length >= 3 && !STOP_WORDS.has(token));
+}
+
+// Path without query, fragment or trailing slash; null for the home page
+function normalizeUrl(url?: string | null): string | null {
+  if (!url) return null;
+  const withoutOrigin = url.replace(/^https?:\/\/[^/]+/i, '');
+  const path = withoutOrigin.split(/[?#]/)[0].replace(/\/+$/, '').toLowerCase();
+  return path === '' ? null : path;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  const union = a.size + b.size - shared;
+  return union > 0 ? shared / union : 0;
+}
+
+export function clusterKeywords<T extends ClusterableKeyword>(
+  keywords: T[],
+  options: ClusterOptions = {}
+): KeywordCluster<T>[] {
+  const model = options.model ?? DESKTOP_CTR_MODEL;
+  const threshold = options.similarityThreshold ?? 0.5;
+
+  // Union-find over keyword indexes
+  const parent = keywords.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[rb] = ra;
+  };
+
+  // SERP overlap: keywords the same page ranks for
+  const byUrl = new Map<string, number>();
+  keywords.forEach((kw, i) => {
+    const url = normalizeUrl(kw.url);
+    if (!url) return;
+    const first = byUrl.get(url);
+    if (first === undefined) byUrl.set(url, i);
+    else union(first, i);
+  });
+
+  // Token similarity, only comparing keywords that share at least one term
+  const tokens = keywords.map(kw => new Set(tokenize(kw.keyword)));
+  const byToken = new Map<string, number[]>();
+  tokens.forEach((set, i) => {
+    for (const token of set) byToken.set(token, [...(byToken.get(token) ?? []), i]);
+  });
+  for (const indexes of byToken.values()) {
+    for (let x = 0; x < indexes.length; x++) {
+      for (let y = x + 1; y < indexes.length; y++) {
+        const a = indexes[x];
+        const b = indexes[y];
+        if (find(a) !== find(b) && jaccard(tokens[a], tokens[b]) >= threshold) union(a, b);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  keywords.forEach((kw, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), kw]);
+  });
+
+  return [...groups.values()]
+    .map(members => {
+      const sorted = [...members].sort((a, b) => b.searchVolume - a.searchVolume || a.position - b.position);
+      const totalVolume = sorted.reduce((sum, kw) => sum + kw.searchVolume, 0);
+      const visibleVolume = sorted.reduce((sum, kw) =>
+        sum + (kw.visibleVolume ?? kw.searchVolume * getCTR(kw.position, model, options.applySerpAdjustments ? kw.serpFeatures : undefined)), 0);
+      const best = sorted.reduce((top, kw) => (kw.position < top.position ? kw : top), sorted[0]);
+
+      return {
+        id: sorted[0].keyword.toLowerCase(),
+        pillarKeyword: sorted[0].keyword,
+        keywords: sorted,
+        totalVolume,
+        visibleVolume: Math.round(visibleVolume),
+        shareOfVoice: totalVolume > 0 ? Math.round((visibleVolume / totalVolume) * 1000) / 10 : 0,
+        bestUrl: best.url ?? null,
+        bestPosition: best.position
+      };
+    })
+    .sort((a, b) => b.totalVolume - a.totalVolume);
+}
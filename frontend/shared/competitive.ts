@@ -0,0 +1,114 @@
+import type {
+  DomainRankings,
+  KeywordMatrixRow,
+  CompetitiveDomainShare,
+  KeywordOverlapRegion,
+  CompetitiveLandscape
+} from './types.js';
+import { getCTR, type SOVOptions, DESKTOP_CTR_MODEL } from './calculations.js';
+
+/**
+ * Competitive Landscape
+ * Builds one keyword universe from the brand plus every competitor so positions,
+ * overlap and SOV are measured on the same denominator. Per-domain SOV from
+ * calculateSOV only covers the keywords that domain ranks for and can't be compared.
+ */
+
+export interface LandscapeOptions extends SOVOptions {
+  excludeTerms?: string[]; // Brand names - keywords containing them are navigational, not competitive
+}
+
+export function buildCompetitiveLandscape(
+  rankings: DomainRankings[],
+  options: LandscapeOptions = {}
+): CompetitiveLandscape {
+  const model = options.model ?? DESKTOP_CTR_MODEL;
+  const excludeTerms = (options.excludeTerms ?? []).map(t => t.toLowerCase().trim()).filter(Boolean);
+  const domains = rankings.map(r => r.domain);
+
+  // Union of every domain's keywords; volume is the same keyword-level figure for all of them
+  const rows = new Map<string, KeywordMatrixRow & { ctrs: Record<string, number> }>();
+  for (const { domain, keywords } of rankings) {
+    for (const kw of keywords) {
+      const keyword = kw.keyword.toLowerCase().trim();
+      if (excludeTerms.some(term => keyword.includes(term))) continue;
+
+      let row = rows.get(keyword);
+      if (!row) {
+        row = {
+          keyword,
+          searchVolume: kw.searchVolume,
+          positions: Object.fromEntries(domains.map(d => [d, null])),
+          leader: null,
+          ctrs: {}
+        };
+        rows.set(keyword, row);
+      }
+
+      const current = row.positions[domain];
+      if (current === null || kw.position < current) {
+        row.positions[domain] = kw.position;
+        row.ctrs[domain] = getCTR(kw.position, model, options.applySerpAdjustments ? kw.serpFeatures : undefined);
+      }
+      row.searchVolume = Math.max(row.searchVolume, kw.searchVolume);
+    }
+  }
+
+  const matrix = [...rows.values()];
+  for (const row of matrix) {
+    let best: number | null = null;
+    for (const domain of domains) {
+      const position = row.positions[domain];
+      if (position !== null && (best === null || position < best)) {
+        best = position;
+        row.leader = domain;
+      }
+    }
+  }
+
+  const universeVolume = matrix.reduce((sum, row) => sum + row.searchVolume, 0);
+
+  const shares = rankings.map(({ domain, label, isYou }) => {
+    const ranked = matrix.filter(row => row.positions[domain] !== null);
+    const visibleVolume = ranked.reduce((sum, row) => sum + row.searchVolume * (row.ctrs[domain] ?? 0), 0);
+    return {
+      domain,
+      label,
+      isYou,
+      keywordsRanked: ranked.length,
+      keywordsLed: ranked.filter(row => row.leader === domain).length,
+      visibleVolume
+    };
+  });
+
+  const totalClicks = shares.reduce((sum, s) => sum + s.visibleVolume, 0);
+  const domainShares: CompetitiveDomainShare[] = shares
+    .map(s => ({
+      ...s,
+      visibleVolume: Math.round(s.visibleVolume),
+      shareOfVoice: universeVolume > 0 ? Math.round((s.visibleVolume / universeVolume) * 1000) / 10 : 0,
+      shareOfClicks: totalClicks > 0 ? Math.round((s.visibleVolume / totalClicks) * 1000) / 10 : 0
+    }))
+    .sort((a, b) => b.shareOfVoice - a.shareOfVoice);
+
+  // Group keywords by the exact set of domains ranking for them
+  const regions = new Map<string, KeywordOverlapRegion>();
+  for (const row of matrix) {
+    const present = domains.filter(d => row.positions[d] !== null);
+    const key = present.join('|');
+    const region = regions.get(key) ?? { domains: present, keywords: 0, searchVolume: 0 };
+    region.keywords += 1;
+    region.searchVolume += row.searchVolume;
+    regions.set(key, region);
+  }
+
+  return {
+    universeSize: matrix.length,
+    universeVolume,
+    domains: domainShares,
+    overlap: [...regions.values()].sort((a, b) => b.domains.length - a.domains.length || b.keywords - a.keywords),
+    matrix: matrix
+      .map(({ keyword, searchVolume, positions, leader }) => ({ keyword, searchVolume, positions, leader }))
+      .sort((a, b) => b.searchVolume - a.searchVolume)
+  };
+}
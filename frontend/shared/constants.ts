@@ -0,0 +1,64 @@
+/**
+ * Calculation Constants
+ * Shared by the frontend and the API routes so both compute identical numbers
+ */
+
+// ===========================================
+// CTR (Click-Through Rate) Curve
+// ===========================================
+// Based on industry research for Google organic search results
+// Source: Various studies including Backlinko, Sistrix, AWR
+export const CTR_CURVE: Record<number, number> = {
+  1: 0.28,   // Position 1: 28% CTR
+  2: 0.15,   // Position 2: 15% CTR
+  3: 0.09,   // Position 3: 9% CTR
+  4: 0.06,   // Position 4: 6% CTR
+  5: 0.04,   // Position 5: 4% CTR
+  6: 0.03,   // Position 6: 3% CTR
+  7: 0.025,  // Position 7: 2.5% CTR
+  8: 0.02,   // Position 8: 2% CTR
+  9: 0.018,  // Position 9: 1.8% CTR
+  10: 0.015, // Position 10: 1.5% CTR
+  11: 0.012, // Position 11: 1.2% CTR
+  12: 0.01,  // Position 12: 1% CTR
+  13: 0.009, // Position 13: 0.9% CTR
+  14: 0.008, // Position 14: 0.8% CTR
+  15: 0.007, // Position 15: 0.7% CTR
+  16: 0.006, // Position 16: 0.6% CTR
+  17: 0.005, // Position 17: 0.5% CTR
+  18: 0.004, // Position 18: 0.4% CTR
+  19: 0.003, // Position 19: 0.3% CTR
+  20: 0.002, // Position 20: 0.2% CTR
+};
+
+// Default CTR for positions beyond 20
+export const DEFAULT_CTR = 0.001;
+
+// SERP feature CTR multipliers
+// Applied to organic CTR when the feature is present on the results page
+export const SERP_FEATURE_CTR_ADJUSTMENTS = {
+  ads: 0.85,            // Top ads push organic results down
+  featuredSnippet: 0.8, // Snippet answers the query above position 1
+  localPack: 0.7,       // Map pack takes most local-intent clicks
+} as const;
+
+export const DEFAULT_CTR_MODEL_ID = 'desktop';
+
+// ===========================================
+// Growth Gap Interpretation
+// ===========================================
+export const GAP_THRESHOLD_HIGH = 2;  // Gap > 2pp = growth potential
+export const GAP_THRESHOLD_LOW = -2;  // Gap < -2pp = missing opportunities
+
+// ===========================================
+// Visibility Index
+// ===========================================
+// Deepest ranking that still counts towards the visibility index
+export const VISIBILITY_MAX_POSITION = 100;
+
+// ===========================================
+// Workspaces
+// ===========================================
+// Requests without a valid X-Workspace-Id header use the default workspace
+export const DEFAULT_WORKSPACE_ID = 'default';
+export const WORKSPACE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
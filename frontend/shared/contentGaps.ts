@@ -0,0 +1,108 @@
+import type { RankedKeywordInput, DomainRankings, ContentGap, ContentGapKeyword } from './types.js';
+import { tokenize } from './clustering.js';
+
+/**
+ * Content Gap Analysis
+ * Finds keywords where at least N competitors rank in the top 10 and you don't rank
+ * at all, then clusters them into topics by their most widely shared term.
+ */
+
+export interface ContentGapOptions {
+  minCompetitors?: number; // Competitors that must rank for a keyword (default 2, capped at the number compared)
+  maxPosition?: number; // Competitor position that counts as covering a keyword (default 10)
+  excludeTerms?: string[]; // Brand names - navigational keywords are not content gaps
+}
+
+function toAbsoluteUrl(domain: string, url?: string | null): string | null {
+  if (!url) return null;
+  if (/^https?:\/\//.test(url)) return url;
+  return `https://${domain}${url.startsWith('/') ? url : `/${url}`}`;
+}
+
+export function analyzeContentGaps(
+  yourKeywords: RankedKeywordInput[],
+  competitors: DomainRankings[],
+  options: ContentGapOptions = {}
+): ContentGap[] {
+  if (competitors.length === 0) return [];
+
+  const maxPosition = options.maxPosition ?? 10;
+  const minCompetitors = Math.min(Math.max(1, options.minCompetitors ?? 2), competitors.length);
+  const excludeTerms = (options.excludeTerms ?? []).map(t => t.toLowerCase().trim()).filter(Boolean);
+  const yourSet = new Set(yourKeywords.map(k => k.keyword.toLowerCase().trim()));
+
+  // Keywords covered by competitors and absent from your rankings
+  const candidates = new Map<string, ContentGapKeyword & { urls: Array<{ competitor: string; url: string }> }>();
+  for (const competitor of competitors) {
+    for (const kw of competitor.keywords) {
+      const keyword = kw.keyword.toLowerCase().trim();
+      if (kw.position > maxPosition || yourSet.has(keyword)) continue;
+      if (excludeTerms.some(term => keyword.includes(term))) continue;
+
+      const entry = candidates.get(keyword) ?? { keyword, searchVolume: kw.searchVolume, competitorPositions: {}, urls: [] };
+      const current = entry.competitorPositions[competitor.label];
+      if (current === undefined || kw.position < current) {
+        entry.competitorPositions[competitor.label] = kw.position;
+        const url = toAbsoluteUrl(competitor.domain, kw.url);
+        entry.urls = entry.urls.filter(u => u.competitor !== competitor.label);
+        if (url) entry.urls.push({ competitor: competitor.label, url });
+      }
+      entry.searchVolume = Math.max(entry.searchVolume, kw.searchVolume);
+      candidates.set(keyword, entry);
+    }
+  }
+
+  const gaps = [...candidates.values()]
+    .filter(entry => Object.keys(entry.competitorPositions).length >= minCompetitors);
+
+  // Document frequency of each term across the gap keywords
+  const termFrequency = new Map<string, number>();
+  for (const gap of gaps) {
+    for (const term of new Set(tokenize(gap.keyword))) {
+      termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  // Assign each keyword to its most shared term; keywords sharing nothing stand alone
+  const topics = new Map<string, typeof gaps>();
+  for (const gap of gaps) {
+    const terms = tokenize(gap.keyword).sort((a, b) =>
+      (termFrequency.get(b) ?? 0) - (termFrequency.get(a) ?? 0) || b.length - a.length || a.localeCompare(b)
+    );
+    const topic = terms.length > 0 && (termFrequency.get(terms[0]) ?? 0) > 1 ? terms[0] : gap.keyword;
+    topics.set(topic, [...(topics.get(topic) ?? []), gap]);
+  }
+
+  const contentGaps: ContentGap[] = [...topics].map(([topic, entries]) => {
+    const totalVolume = entries.reduce((sum, e) => sum + e.searchVolume, 0);
+
+    const urlCounts = new Map<string, { competitor: string; url: string; keywords: number }>();
+    for (const entry of entries) {
+      for (const { competitor, url } of entry.urls) {
+        const row = urlCounts.get(url) ?? { competitor, url, keywords: 0 };
+        row.keywords += 1;
+        urlCounts.set(url, row);
+      }
+    }
+
+    return {
+      topic,
+      totalVolume,
+      missingKeywords: entries
+        .map(({ keyword, searchVolume, competitorPositions }) => ({ keyword, searchVolume, competitorPositions }))
+        .sort((a, b) => b.searchVolume - a.searchVolume),
+      competitors: competitors
+        .map(c => c.label)
+        .filter(label => entries.some(e => e.competitorPositions[label] !== undefined)),
+      competitorUrls: [...urlCounts.values()]
+        .sort((a, b) => b.keywords - a.keywords || a.url.localeCompare(b.url))
+        .slice(0, 10),
+      priority: totalVolume > 50000 ? 'high' : totalVolume > 10000 ? 'medium' : 'low'
+    };
+  });
+
+  const priorityOrder = { high: 0, medium: 1, low: 2 };
+  return contentGaps.sort((a, b) =>
+    priorityOrder[a.priority] - priorityOrder[b.priority] || b.totalVolume - a.totalVolume
+  );
+}
@@ -0,0 +1,523 @@
+/// <reference types="node" />
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { DEFAULT_WORKSPACE_ID, WORKSPACE_ID_PATTERN } from './constants.js';
+import type { CredentialAccess, CredentialProvider, CredentialSecrets } from './types.js';
+import type { ValidationResult } from './validation.js';
+
+/**
+ * Workspace Credential Vault
+ * Server-only. DataForSEO, YouTube and Anthropic credentials and the alert webhook and
+ * SMTP settings are stored per workspace in Postgres (WorkspaceCredential), encrypted
+ * with AES-256-GCM under CREDENTIALS_MASTER_KEY.
+ * Secrets are decrypted inside API routes only; the browser sees a non-secret hint.
+ *
+ * The vault needs both DATABASE_URL and CREDENTIALS_MASTER_KEY. Environment credentials
+ * (DATAFORSEO_LOGIN, YOUTUBE_API_KEY, ANTHROPIC_API_KEY, ALERT_WEBHOOK_URL, SMTP_HOST...) remain as the default
+ * workspace's fallback so existing deployments keep working.
+ *
+ * Changing or testing credentials needs CREDENTIALS_ADMIN_TOKEN, sent as a bearer token.
+ * The admin token works for every workspace; a workspace token (derived from the admin
+ * token, see getWorkspaceToken) only for its own workspace, never for the default one.
+ * Any request acting for a workspace other than the default one needs one of the two as
+ * well, as it spends that workspace's credentials (see authorizeWorkspace).
+ */
+
+export const CREDENTIAL_PROVIDERS: CredentialProvider[] = ['dataforseo', 'youtube', 'anthropic', 'webhook', 'smtp'];
+
+const MAX_SECRET_LENGTH = 512;
+const MAX_YOUTUBE_KEYS = 10;
+const MAX_EMAIL_RECIPIENTS = 20;
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+$/;
+
+// Workspace comes from the X-Workspace-Id header; anything malformed falls back to the default
+export function getWorkspaceId(req: { headers: Record<string, string | string[] | undefined> }): string {
+  const header = req.headers['x-workspace-id'];
+  const value = (Array.isArray(header) ? header[0] : header)?.toLowerCase().trim();
+  return value && WORKSPACE_ID_PATTERN.test(value) ? value : DEFAULT_WORKSPACE_ID;
+}
+
+// ============================================
+// AUTHORIZATION
+// ============================================
+
+export function getAdminToken(): string | null {
+  return process.env.CREDENTIALS_ADMIN_TOKEN?.trim() || null;
+}
+
+// Per-workspace token: an HMAC of the workspace id, so it needs no storage and rotates with the admin token
+export function getWorkspaceToken(workspaceId: string, adminToken: string): string {
+  return createHmac('sha256', adminToken).update(`workspace:${workspaceId}`).digest('base64url');
+}
+
+function readBearerToken(req: { headers: Record<string, string | string[] | undefined> }): string | null {
+  const header = req.headers.authorization;
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// Compares digests so neither the length nor the content leaks through timing
+const tokensMatch = (given: string, expected: string): boolean =>
+  timingSafeEqual(createHash('sha256').update(given).digest(), createHash('sha256').update(expected).digest());
+
+/**
+ * Workspace the request acts for, or the status and error to answer with. The default
+ * workspace is open; any other one needs its workspace token or the admin token.
+ */
+export function authorizeWorkspace(
+  req: { headers: Record<string, string | string[] | undefined> }
+): { workspaceId: string } | { status: number; error: string } {
+  const workspaceId = getWorkspaceId(req);
+  if (workspaceId === DEFAULT_WORKSPACE_ID) return { workspaceId };
+
+  const adminToken = getAdminToken();
+  if (!adminToken) {
+    return { status: 503, error: 'Workspaces other than the default one require the CREDENTIALS_ADMIN_TOKEN environment variable' };
+  }
+
+  const token = readBearerToken(req);
+  if (!token) return { status: 401, error: `A workspace token is required for workspace "${workspaceId}"` };
+  if (tokensMatch(token, adminToken) || tokensMatch(token, getWorkspaceToken(workspaceId, adminToken))) {
+    return { workspaceId };
+  }
+  return { status: 403, error: 'This token is not valid for the workspace' };
+}
+
+/**
+ * Who may change the workspace's credentials. Returns the access level, or the status
+ * and error to answer with. Without CREDENTIALS_ADMIN_TOKEN nobody can.
+ */
+export function authorizeCredentialChange(
+  req: { headers: Record<string, string | string[] | undefined> },
+  workspaceId: string
+): { access: CredentialAccess } | { status: number; error: string } {
+  const adminToken = getAdminToken();
+  if (!adminToken) {
+    return { status: 503, error: 'Changing credentials requires the CREDENTIALS_ADMIN_TOKEN environment variable' };
+  }
+
+  const token = readBearerToken(req);
+  if (!token) return { status: 401, error: 'An admin or workspace token is required' };
+  if (tokensMatch(token, adminToken)) return { access: 'admin' };
+  if (workspaceId !== DEFAULT_WORKSPACE_ID && tokensMatch(token, getWorkspaceToken(workspaceId, adminToken))) {
+    return { access: 'workspace' };
+  }
+
+  return {
+    status: 403,
+    error: workspaceId === DEFAULT_WORKSPACE_ID
+      ? 'Only the admin token can change the default workspace'
+      : 'This token is not valid for the workspace'
+  };
+}
+
+// ============================================
+// ENCRYPTION
+// ============================================
+
+export interface EncryptedSecret {
+  ciphertext: string; // base64
+  iv: string; // base64, 12 random bytes per encryption
+  authTag: string; // base64 GCM tag - decryption fails if anything was altered
+}
+
+// Any string works as the master key; it is hashed to the 32 bytes AES-256 needs
+export function deriveKey(masterKey: string): Buffer {
+  return createHash('sha256').update(masterKey).digest();
+}
+
+export function getMasterKey(): Buffer | null {
+  const value = process.env.CREDENTIALS_MASTER_KEY?.trim();
+  return value ? deriveKey(value) : null;
+}
+
+export function encryptSecret(secret: unknown, key: Buffer): EncryptedSecret {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(secret), 'utf8'), cipher.final()]);
+  return {
+    ciphertext: ciphertext.toString('base64'),
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64')
+  };
+}
+
+// Throws when the key is wrong or the stored values were tampered with
+export function decryptSecret<T>(encrypted: EncryptedSecret, key: Buffer): T {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(encrypted.authTag, 'base64'));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(encrypted.ciphertext, 'base64')),
+    decipher.final()
+  ]);
+  return JSON.parse(plaintext.toString('utf8')) as T;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+export function validateCredentialProvider(provider: unknown): ValidationResult<CredentialProvider> {
+  if (typeof provider !== 'string' || !CREDENTIAL_PROVIDERS.includes(provider as CredentialProvider)) {
+    return { success: false, error: `Unknown credential provider: ${String(provider)}` };
+  }
+  return { success: true, data: provider as CredentialProvider };
+}
+
+function readSecretString(value: unknown, field: string): ValidationResult<string> {
+  if (typeof value !== 'string' || !value.trim()) return { success: false, error: `${field} is required` };
+  if (value.trim().length > MAX_SECRET_LENGTH) return { success: false, error: `${field} is too long` };
+  return { success: true, data: value.trim() };
+}
+
+const readOptionalString = (value: unknown, field: string): ValidationResult<string | undefined> =>
+  value === undefined || value === null || value === '' ? { success: true, data: undefined } : readSecretString(value, field);
+
+// Loopback, private, link-local, CGNAT, ULA and multicast ranges a workspace webhook must not reach
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped[1], 'ipv4');
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves the webhook host and throws when any of its addresses is private, so a
+ * workspace can't use the server to reach its internal network. Checked before each
+ * workspace delivery, as the DNS answer can change after the URL was saved.
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'https:') throw new Error('Webhook URL must use https');
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error('Webhook URL must not point to a private address');
+  }
+}
+
+function validateWebhookSecret(body: Record<string, unknown>): ValidationResult<CredentialSecrets['webhook']> {
+  const url = readSecretString(body.url, 'Webhook URL');
+  if (!url.success) return { success: false, error: url.error };
+  let parsed: URL;
+  try {
+    parsed = new URL(url.data!);
+  } catch {
+    return { success: false, error: 'Webhook URL is not a valid URL' };
+  }
+  if (parsed.protocol !== 'https:') {
+    return { success: false, error: 'Webhook URL must use https' };
+  }
+  // Hostnames are resolved when the webhook is tested and before each delivery
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isPrivateAddress(host)) {
+    return { success: false, error: 'Webhook URL must not point to a private address' };
+  }
+  const signingSecret = readOptionalString(body.signingSecret, 'Signing secret');
+  if (!signingSecret.success) return { success: false, error: signingSecret.error };
+  return { success: true, data: { url: url.data!, ...(signingSecret.data ? { signingSecret: signingSecret.data } : {}) } };
+}
+
+function validateSMTPSecret(body: Record<string, unknown>): ValidationResult<CredentialSecrets['smtp']> {
+  const host = readSecretString(body.host, 'SMTP host');
+  if (!host.success) return { success: false, error: host.error };
+  const port = Number(body.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) return { success: false, error: 'SMTP port must be 1-65535' };
+
+  const username = readOptionalString(body.username, 'Username');
+  if (!username.success) return { success: false, error: username.error };
+  const password = readOptionalString(body.password, 'Password');
+  if (!password.success) return { success: false, error: password.error };
+  if (!!username.data !== !!password.data) return { success: false, error: 'Username and password go together' };
+
+  const from = readSecretString(body.from, 'Sender address');
+  if (!from.success) return { success: false, error: from.error };
+  if (!EMAIL_PATTERN.test(from.data!)) return { success: false, error: 'Sender address is not an email address' };
+
+  const to = (Array.isArray(body.to) ? body.to : String(body.to ?? '').split(','))
+    .map(address => String(address).trim())
+    .filter(Boolean);
+  if (to.length === 0) return { success: false, error: 'At least one recipient is required' };
+  if (to.length > MAX_EMAIL_RECIPIENTS) return { success: false, error: `At most ${MAX_EMAIL_RECIPIENTS} recipients are supported` };
+  const invalid = to.find(address => !EMAIL_PATTERN.test(address));
+  if (invalid) return { success: false, error: `Not an email address: ${invalid}` };
+
+  return {
+    success: true,
+    data: {
+      host: host.data!,
+      port,
+      secure: body.secure === true,
+      ...(username.data ? { username: username.data, password: password.data } : {}),
+      from: from.data!,
+      to: [...new Set(to)]
+    }
+  };
+}
+
+export function validateCredentialSecret<P extends CredentialProvider>(
+  provider: P,
+  input: unknown
+): ValidationResult<CredentialSecrets[P]> {
+  if (!input || typeof input !== 'object') return { success: false, error: 'Credential is required' };
+  const body = input as Record<string, unknown>;
+
+  if (provider === 'dataforseo') {
+    const login = readSecretString(body.login, 'Login');
+    if (!login.success) return { success: false, error: login.error };
+    const password = readSecretString(body.password, 'Password');
+    if (!password.success) return { success: false, error: password.error };
+    return { success: true, data: { login: login.data!, password: password.data! } as CredentialSecrets[P] };
+  }
+
+  if (provider === 'youtube') {
+    if (!Array.isArray(body.apiKeys) || body.apiKeys.length === 0) {
+      return { success: false, error: 'At least one API key is required' };
+    }
+    if (body.apiKeys.length > MAX_YOUTUBE_KEYS) {
+      return { success: false, error: `At most ${MAX_YOUTUBE_KEYS} API keys are supported` };
+    }
+    const apiKeys: string[] = [];
+    for (const [index, value] of body.apiKeys.entries()) {
+      const key = readSecretString(value, `API key ${index + 1}`);
+      if (!key.success) return { success: false, error: key.error };
+      if (!apiKeys.includes(key.data!)) apiKeys.push(key.data!);
+    }
+    return { success: true, data: { apiKeys } as CredentialSecrets[P] };
+  }
+
+  if (provider === 'webhook') return validateWebhookSecret(body) as ValidationResult<CredentialSecrets[P]>;
+  if (provider === 'smtp') return validateSMTPSecret(body) as ValidationResult<CredentialSecrets[P]>;
+
+  const apiKey = readSecretString(body.apiKey, 'API key');
+  if (!apiKey.success) return { success: false, error: apiKey.error };
+  return { success: true, data: { apiKey: apiKey.data! } as CredentialSecrets[P] };
+}
+
+// Non-secret label for the settings UI
+export function describeSecret<P extends CredentialProvider>(provider: P, secret: CredentialSecrets[P]): string {
+  const lastFour = (value: string) => `••••${value.slice(-4)}`;
+
+  if (provider === 'dataforseo') return (secret as CredentialSecrets['dataforseo']).login;
+  if (provider === 'youtube') {
+    const { apiKeys } = secret as CredentialSecrets['youtube'];
+    return `${apiKeys.length} key${apiKeys.length === 1 ? '' : 's'} (${apiKeys.map(lastFour).join(', ')})`;
+  }
+  // Webhook URLs often carry their token in the path, so only the host is shown
+  if (provider === 'webhook') return new URL((secret as CredentialSecrets['webhook']).url).host;
+  if (provider === 'smtp') {
+    const { host, port, to } = secret as CredentialSecrets['smtp'];
+    return `${host}:${port} → ${to.length} recipient${to.length === 1 ? '' : 's'}`;
+  }
+  return lastFour((secret as CredentialSecrets['anthropic']).apiKey);
+}
+
+// ============================================
+// STORE
+// ============================================
+
+export interface StoredCredential extends EncryptedSecret {
+  provider: CredentialProvider;
+  hint: string;
+  updatedAt: string;
+  lastTestedAt: string | null;
+  lastTestOk: boolean | null;
+  lastTestError: string | null;
+}
+
+export interface CredentialStore {
+  list(workspaceId: string): Promise<StoredCredential[]>;
+  get(workspaceId: string, provider: CredentialProvider): Promise<StoredCredential | null>;
+  save(workspaceId: string, provider: CredentialProvider, encrypted: EncryptedSecret, hint: string): Promise<void>;
+  recordTest(workspaceId: string, provider: CredentialProvider, ok: boolean, error: string | null): Promise<void>;
+  remove(workspaceId: string, provider: CredentialProvider): Promise<void>;
+}
+
+interface CredentialRow extends EncryptedSecret {
+  provider: string;
+  hint: string;
+  updatedAt: Date;
+  lastTestedAt: Date | null;
+  lastTestOk: boolean | null;
+  lastTestError: string | null;
+}
+
+function toStoredCredential(row: CredentialRow): StoredCredential {
+  return {
+    provider: row.provider as CredentialProvider,
+    ciphertext: row.ciphertext,
+    iv: row.iv,
+    authTag: row.authTag,
+    hint: row.hint,
+    updatedAt: row.updatedAt.toISOString(),
+    lastTestedAt: row.lastTestedAt?.toISOString() ?? null,
+    lastTestOk: row.lastTestOk,
+    lastTestError: row.lastTestError
+  };
+}
+
+async function createPrismaStore(): Promise<CredentialStore | null> {
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    const prisma = new PrismaClient();
+    const where = (workspaceId: string, provider: CredentialProvider) => ({
+      workspaceId_provider: { workspaceId, provider }
+    });
+
+    return {
+      async list(workspaceId) {
+        const rows = await prisma.workspaceCredential.findMany({ where: { workspaceId } });
+        return rows.map(toStoredCredential);
+      },
+      async get(workspaceId, provider) {
+        const row = await prisma.workspaceCredential.findUnique({ where: where(workspaceId, provider) });
+        return row ? toStoredCredential(row) : null;
+      },
+      async save(workspaceId, provider, encrypted, hint) {
+        // A new secret invalidates the previous test result
+        const data = { ...encrypted, hint, lastTestedAt: null, lastTestOk: null, lastTestError: null };
+        await prisma.workspaceCredential.upsert({
+          where: where(workspaceId, provider),
+          create: { workspaceId, provider, ...data },
+          update: data
+        });
+      },
+      async recordTest(workspaceId, provider, ok, error) {
+        await prisma.workspaceCredential.update({
+          where: where(workspaceId, provider),
+          data: { lastTestedAt: new Date(), lastTestOk: ok, lastTestError: error }
+        });
+      },
+      async remove(workspaceId, provider) {
+        await prisma.workspaceCredential.deleteMany({ where: { workspaceId, provider } });
+      }
+    };
+  } catch {
+    return null;
+  }
+}
+
+// One store per function instance; null when the vault isn't configured
+let storePromise: Promise<CredentialStore | null> | null = null;
+
+export function getCredentialStore(): Promise<CredentialStore | null> {
+  if (!process.env.DATABASE_URL || !getMasterKey()) return Promise.resolve(null);
+  if (!storePromise) storePromise = createPrismaStore();
+  return storePromise;
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+// Decrypted secrets are kept briefly so a burst of requests doesn't hit the database each time.
+// Other function instances pick up a rotated secret within this window.
+const SECRET_CACHE_MS = 60 * 1000;
+const secretCache = new Map<string, { secret: unknown; expiresAt: number }>();
+
+export function clearCachedSecret(workspaceId: string, provider: CredentialProvider): void {
+  secretCache.delete(`${workspaceId}:${provider}`);
+}
+
+export async function getWorkspaceSecret<P extends CredentialProvider>(
+  workspaceId: string,
+  provider: P
+): Promise<CredentialSecrets[P] | null> {
+  const cacheKey = `${workspaceId}:${provider}`;
+  const cached = secretCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.secret as CredentialSecrets[P] | null;
+
+  const store = await getCredentialStore();
+  const key = getMasterKey();
+  if (!store || !key) return null;
+
+  let secret: CredentialSecrets[P] | null = null;
+  try {
+    const stored = await store.get(workspaceId, provider);
+    secret = stored ? decryptSecret<CredentialSecrets[P]>(stored, key) : null;
+  } catch (error) {
+    console.error(`Failed to load ${provider} credentials for workspace ${workspaceId}:`, error);
+    return null;
+  }
+
+  secretCache.set(cacheKey, { secret, expiresAt: Date.now() + SECRET_CACHE_MS });
+  return secret;
+}
+
+// YOUTUBE_API_KEY, YOUTUBE_API_KEY_2 ... YOUTUBE_API_KEY_10, in rotation order
+function getEnvironmentYouTubeKeys(): string[] {
+  const keys: string[] = [];
+  if (process.env.YOUTUBE_API_KEY) keys.push(process.env.YOUTUBE_API_KEY);
+  for (let i = 2; i <= MAX_YOUTUBE_KEYS; i++) {
+    const key = process.env[`YOUTUBE_API_KEY_${i}`];
+    if (key) keys.push(key);
+  }
+  return keys;
+}
+
+export function getEnvironmentSecret<P extends CredentialProvider>(provider: P): CredentialSecrets[P] | null {
+  if (provider === 'dataforseo') {
+    const login = process.env.DATAFORSEO_LOGIN;
+    const password = process.env.DATAFORSEO_PASSWORD;
+    return login && password ? { login, password } as CredentialSecrets[P] : null;
+  }
+  if (provider === 'youtube') {
+    const apiKeys = getEnvironmentYouTubeKeys();
+    return apiKeys.length > 0 ? { apiKeys } as CredentialSecrets[P] : null;
+  }
+  if (provider === 'webhook') {
+    const url = process.env.ALERT_WEBHOOK_URL;
+    const signingSecret = process.env.ALERT_WEBHOOK_SECRET;
+    return url ? { url, ...(signingSecret ? { signingSecret } : {}) } as CredentialSecrets[P] : null;
+  }
+  if (provider === 'smtp') {
+    const host = process.env.SMTP_HOST;
+    const from = process.env.ALERT_EMAIL_FROM;
+    const to = (process.env.ALERT_EMAIL_TO || '').split(',').map(a => a.trim()).filter(Boolean);
+    if (!host || !from || to.length === 0) return null;
+    const username = process.env.SMTP_USER;
+    const password = process.env.SMTP_PASSWORD;
+    return {
+      host,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      ...(username && password ? { username, password } : {}),
+      from,
+      to
+    } as CredentialSecrets[P];
+  }
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  return apiKey ? { apiKey } as CredentialSecrets[P] : null;
+}
+
+/**
+ * Credentials for a workspace: its own vault entry first, then - for the default
+ * workspace only - the server environment. Other workspaces never borrow env secrets.
+ */
+export async function resolveSecret<P extends CredentialProvider>(
+  workspaceId: string,
+  provider: P
+): Promise<{ secret: CredentialSecrets[P]; source: 'workspace' | 'environment' } | null> {
+  const secret = await getWorkspaceSecret(workspaceId, provider);
+  if (secret) return { secret, source: 'workspace' };
+
+  if (workspaceId === DEFAULT_WORKSPACE_ID) {
+    const envSecret = getEnvironmentSecret(provider);
+    if (envSecret) return { secret: envSecret, source: 'environment' };
+  }
+  return null;
+}
@@ -0,0 +1,348 @@
+/// <reference types="node" />
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { mergeCacheInfo } from './cache.js';
+import { getDataForSEOBaseUrl } from './upstream.js';
+import type { CacheInfo, ApiCostSummary } from './types.js';
+
+/**
+ * DataForSEO Client with Response Cache
+ * Server-only. Every API route calls DataForSEO through this module so identical
+ * requests within the endpoint's TTL are served from cache instead of burning credits.
+ *
+ * Backend: Postgres (ApiCacheEntry / ApiCostEntry) when DATABASE_URL is set,
+ * otherwise JSON files under DATAFORSEO_CACHE_DIR (defaults to the OS temp dir).
+ * Set DATAFORSEO_CACHE=off to bypass the cache entirely.
+ */
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+// Cache lifetime per endpoint, matched by prefix. Volumes change monthly, SERPs daily.
+export const CACHE_TTL_SECONDS: Array<[prefix: string, ttl: number]> = [
+  ['keywords_data/google_ads/search_volume', 7 * DAY],
+  ['dataforseo_labs/google/keyword_suggestions', 7 * DAY],
+  ['dataforseo_labs/google/historical_rank_overview', 7 * DAY],
+  ['dataforseo_labs/google/ranked_keywords', DAY],
+  ['serp/google/organic', 12 * HOUR],
+  ['serp/google/maps', 12 * HOUR],
+  ['serp/youtube', 12 * HOUR]
+];
+
+const DEFAULT_TTL_SECONDS = DAY;
+
+export function getCacheTTLSeconds(endpoint: string): number {
+  return CACHE_TTL_SECONDS.find(([prefix]) => endpoint.startsWith(prefix))?.[1] ?? DEFAULT_TTL_SECONDS;
+}
+
+// JSON.stringify with sorted object keys so equivalent payloads fingerprint identically
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// Keyed on the base URL too, so responses from a mock server (MOCK_API_URL) never serve live requests
+export function createRequestFingerprint(endpoint: string, payload: unknown, baseUrl = getDataForSEOBaseUrl()): string {
+  return createHash('sha256').update(`${baseUrl}/${endpoint}\n${stableStringify(payload)}`).digest('hex');
+}
+
+// ============================================
+// STORAGE BACKENDS
+// ============================================
+
+export interface CacheEntry {
+  fingerprint: string;
+  endpoint: string;
+  response: unknown;
+  cost: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface CostEntry {
+  workspaceId: string;
+  domain: string;
+  locationCode: number;
+  endpoint: string;
+  cost: number;
+  savedCost: number;
+  cacheHit: boolean;
+  createdAt: string;
+}
+
+export interface CacheBackend {
+  get(fingerprint: string): Promise<CacheEntry | null>;
+  set(entry: CacheEntry): Promise<void>;
+  recordCost(entry: CostEntry): Promise<void>;
+  getCostEntries(workspaceId: string, domain: string, locationCode: number): Promise<CostEntry[]>;
+}
+
+export function createFileBackend(dir: string): CacheBackend {
+  const entryPath = (fingerprint: string) => path.join(dir, `${fingerprint}.json`);
+  const ledgerPath = path.join(dir, 'cost-ledger.jsonl');
+
+  return {
+    async get(fingerprint) {
+      try {
+        return JSON.parse(await fs.readFile(entryPath(fingerprint), 'utf8')) as CacheEntry;
+      } catch {
+        return null;
+      }
+    },
+    async set(entry) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(entryPath(entry.fingerprint), JSON.stringify(entry));
+    },
+    async recordCost(entry) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.appendFile(ledgerPath, `${JSON.stringify(entry)}\n`);
+    },
+    async getCostEntries(workspaceId, domain, locationCode) {
+      try {
+        const lines = (await fs.readFile(ledgerPath, 'utf8')).split('\n').filter(Boolean);
+        return lines
+          .map(line => JSON.parse(line) as CostEntry)
+          .filter(e => e.workspaceId === workspaceId && e.domain === domain && e.locationCode === locationCode);
+      } catch {
+        return [];
+      }
+    }
+  };
+}
+
+async function createPrismaBackend(): Promise<CacheBackend | null> {
+  try {
+    const { PrismaClient } = await import('@prisma/client');
+    const prisma = new PrismaClient();
+
+    return {
+      async get(fingerprint) {
+        const row = await prisma.apiCacheEntry.findUnique({ where: { fingerprint } });
+        if (!row) return null;
+        return {
+          fingerprint: row.fingerprint,
+          endpoint: row.endpoint,
+          response: row.response,
+          cost: row.cost,
+          createdAt: row.createdAt.toISOString(),
+          expiresAt: row.expiresAt.toISOString()
+        };
+      },
+      async set(entry) {
+        const data = {
+          endpoint: entry.endpoint,
+          response: entry.response as object,
+          cost: entry.cost,
+          createdAt: new Date(entry.createdAt),
+          expiresAt: new Date(entry.expiresAt)
+        };
+        await prisma.apiCacheEntry.upsert({
+          where: { fingerprint: entry.fingerprint },
+          create: { fingerprint: entry.fingerprint, ...data },
+          update: data
+        });
+      },
+      async recordCost(entry) {
+        await prisma.apiCostEntry.create({
+          data: { ...entry, createdAt: new Date(entry.createdAt) }
+        });
+      },
+      async getCostEntries(workspaceId, domain, locationCode) {
+        const rows = await prisma.apiCostEntry.findMany({ where: { workspaceId, domain, locationCode } });
+        return rows.map((row: Omit<CostEntry, 'createdAt'> & { createdAt: Date }) => ({ ...row, createdAt: row.createdAt.toISOString() }));
+      }
+    };
+  } catch {
+    return null;
+  }
+}
+
+// One backend per function instance; serverless containers reuse it across requests
+let backendPromise: Promise<CacheBackend> | null = null;
+
+export function getCacheBackend(): Promise<CacheBackend> {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      const fileBackend = createFileBackend(process.env.DATAFORSEO_CACHE_DIR || path.join(os.tmpdir(), 'dataforseo-cache'));
+      if (!process.env.DATABASE_URL) return fileBackend;
+      return (await createPrismaBackend()) ?? fileBackend;
+    })();
+  }
+  return backendPromise;
+}
+
+// ============================================
+// COST LEDGER
+// ============================================
+
+// Routes receive domains as typed by the user; key the ledger on the bare hostname
+function normalizeDomain(domain: string): string {
+  return domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/.*$/, '').trim();
+}
+
+export function summarizeCosts(domain: string, locationCode: number, entries: CostEntry[]): ApiCostSummary {
+  const byEndpoint = new Map<string, { endpoint: string; cost: number; calls: number; cacheHits: number }>();
+  for (const entry of entries) {
+    const row = byEndpoint.get(entry.endpoint) ?? { endpoint: entry.endpoint, cost: 0, calls: 0, cacheHits: 0 };
+    row.cost += entry.cost;
+    row.calls += 1;
+    if (entry.cacheHit) row.cacheHits += 1;
+    byEndpoint.set(entry.endpoint, row);
+  }
+
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+
+  return {
+    domain,
+    locationCode,
+    totalCost: round(entries.reduce((sum, e) => sum + e.cost, 0)),
+    savedCost: round(entries.reduce((sum, e) => sum + e.savedCost, 0)),
+    calls: entries.length,
+    cacheHits: entries.filter(e => e.cacheHit).length,
+    byEndpoint: [...byEndpoint.values()]
+      .map(row => ({ ...row, cost: round(row.cost) }))
+      .sort((a, b) => b.cost - a.cost)
+  };
+}
+
+export async function getProjectCosts(workspaceId: string, domain: string, locationCode: number): Promise<ApiCostSummary> {
+  const backend = await getCacheBackend();
+  const key = normalizeDomain(domain);
+  return summarizeCosts(key, locationCode, await backend.getCostEntries(workspaceId, key, locationCode));
+}
+
+// ============================================
+// CLIENT
+// ============================================
+
+export interface DataForSEOClientOptions {
+  auth: string;
+  forceRefresh?: boolean; // Skip cache reads; the fresh response still refreshes the cache
+  project?: { workspaceId: string; domain: string; locationCode: number }; // Ledger key for cost accounting
+  backend?: CacheBackend;
+  fetchImpl?: typeof fetch;
+}
+
+// Envelope every endpoint answers with; R is one entry of a task's result
+export interface DataForSEOTask<R> {
+  status_code?: number;
+  status_message?: string;
+  cost?: number;
+  result?: R[] | null;
+}
+
+export interface DataForSEOResponse<R = unknown> {
+  status_code?: number;
+  status_message?: string;
+  cost?: number;
+  tasks?: DataForSEOTask<R>[];
+}
+
+// Result entry of the live SERP and Labs endpoints, which page their items
+export interface DataForSEOItemsResult<I> {
+  total_count?: number;
+  items_count?: number;
+  items?: I[] | null;
+}
+
+export interface DataForSEOClient {
+  // POST a task array to a DataForSEO endpoint, e.g. 'dataforseo_labs/google/ranked_keywords/live'
+  post<R = unknown>(endpoint: string, payload: unknown[]): Promise<DataForSEOResponse<R>>;
+  getCacheInfo(): CacheInfo | null;
+}
+
+// Only cache responses where every task succeeded so errors are retried next time
+function isCacheable(data: DataForSEOResponse): boolean {
+  const tasks = data.tasks;
+  return Array.isArray(tasks) && tasks.length > 0 && tasks.every(t => t?.status_code === 20000);
+}
+
+export function createDataForSEOClient(options: DataForSEOClientOptions): DataForSEOClient {
+  const calls: CacheInfo[] = [];
+  const cacheEnabled = process.env.DATAFORSEO_CACHE !== 'off';
+  const fetchImpl = options.fetchImpl ?? fetch;
+
+  const recordCost = async (backend: CacheBackend, entry: Omit<CostEntry, 'workspaceId' | 'domain' | 'locationCode' | 'createdAt'>) => {
+    if (!options.project) return;
+    try {
+      await backend.recordCost({
+        ...entry,
+        workspaceId: options.project.workspaceId,
+        domain: normalizeDomain(options.project.domain),
+        locationCode: options.project.locationCode,
+        createdAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Failed to record DataForSEO cost:', error);
+    }
+  };
+
+  return {
+    async post<R>(endpoint: string, payload: unknown[]): Promise<DataForSEOResponse<R>> {
+      const backend = options.backend ?? await getCacheBackend();
+      const baseUrl = getDataForSEOBaseUrl();
+      const fingerprint = createRequestFingerprint(endpoint, payload, baseUrl);
+      const now = Date.now();
+
+      if (cacheEnabled && !options.forceRefresh) {
+        const cached = await backend.get(fingerprint).catch(() => null);
+        if (cached && new Date(cached.expiresAt).getTime() > now) {
+          calls.push({
+            hit: true,
+            fetchedAt: cached.createdAt,
+            ageSeconds: Math.round((now - new Date(cached.createdAt).getTime()) / 1000),
+            cost: 0,
+            savedCost: cached.cost
+          });
+          await recordCost(backend, { endpoint, cost: 0, savedCost: cached.cost, cacheHit: true });
+          return cached.response as DataForSEOResponse<R>;
+        }
+      }
+
+      const response = await fetchImpl(`${baseUrl}/${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${options.auth}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(payload)
+      });
+
+      const data = await response.json() as DataForSEOResponse<R>;
+
+      if (!response.ok) {
+        throw new Error(data.status_message || 'DataForSEO API error');
+      }
+
+      const cost = typeof data.cost === 'number' ? data.cost : 0;
+      const fetchedAt = new Date(now).toISOString();
+      calls.push({ hit: false, fetchedAt, ageSeconds: 0, cost, savedCost: 0 });
+      await recordCost(backend, { endpoint, cost, savedCost: 0, cacheHit: false });
+
+      if (cacheEnabled && isCacheable(data)) {
+        await backend.set({
+          fingerprint,
+          endpoint,
+          response: data,
+          cost,
+          createdAt: fetchedAt,
+          expiresAt: new Date(now + getCacheTTLSeconds(endpoint) * 1000).toISOString()
+        }).catch(error => console.error('Failed to cache DataForSEO response:', error));
+      }
+
+      return data;
+    },
+
+    getCacheInfo() {
+      return mergeCacheInfo(calls);
+    }
+  };
+}
@@ -0,0 +1,204 @@
+import type {
+  BrandSOSForecast,
+  ForecastMethod,
+  SeasonalSOSResult,
+  SOSForecastPoint,
+  SOSForecastResult,
+  SOSOvertake
+} from './types.js';
+import { estimateSeasonalIndices } from './seasonality.js';
+
+/**
+ * Share of Search forecasting
+ * Each brand's monthly volume is projected with damped multiplicative Holt-Winters
+ * smoothing, and SOS is read from the projected volumes - so brands' forecasts always
+ * add up to 100%. Smoothing weights are picked per brand by one-step-ahead error.
+ */
+
+export const MIN_FORECAST_HISTORY = 6;
+export const MAX_FORECAST_HORIZON = 12;
+export const FORECAST_CONFIDENCE = 0.8;
+
+const Z_SCORE = 1.2816; // Two-sided 80%
+const DAMPING = 0.9; // Trend fades instead of running away over a year
+const ALPHAS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+const BETAS = [0, 0.05, 0.1, 0.2];
+const GAMMAS = [0, 0.1, 0.2, 0.3];
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+const sum = (values: number[]): number => values.reduce((total, v) => total + v, 0);
+
+const nextPeriods = (last: string, count: number): string[] => {
+  const [year, month] = last.split('-').map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    const index = year * 12 + month + i; // month is 1-based, so this is already one month on
+    return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+  });
+};
+
+export interface VolumeForecast {
+  method: ForecastMethod;
+  forecast: number[];
+  lower: number[];
+  upper: number[];
+}
+
+interface SmoothingRun {
+  sse: number;
+  relativeErrors: number[];
+  level: number;
+  trend: number;
+  seasonal: number[];
+}
+
+function runHoltWinters(
+  values: number[],
+  months: number[],
+  initialSeasonal: number[],
+  alpha: number,
+  beta: number,
+  gamma: number
+): SmoothingRun {
+  const seasonal = [...initialSeasonal];
+  const firstYear = values.slice(0, Math.min(12, values.length)).map((v, t) => v / (seasonal[months[t] - 1] || 1));
+  let level = sum(firstYear) / firstYear.length;
+  let trend = 0;
+  let sse = 0;
+  const relativeErrors: number[] = [];
+
+  values.forEach((value, t) => {
+    const index = months[t] - 1;
+    const season = seasonal[index] || 1;
+    const expected = (level + DAMPING * trend) * season;
+    sse += (value - expected) ** 2;
+    if (expected > 0) relativeErrors.push((value - expected) / expected);
+
+    const previousLevel = level;
+    level = alpha * (value / season) + (1 - alpha) * (level + DAMPING * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * DAMPING * trend;
+    if (level > 0) seasonal[index] = gamma * (value / level) + (1 - gamma) * season;
+  });
+
+  return { sse, relativeErrors, level, trend, seasonal };
+}
+
+/**
+ * Project a monthly volume series with an 80% band
+ * 24+ months update the seasonal indices as they go; 12-23 months keep the latest
+ * year's profile fixed; shorter histories get level and trend only.
+ * @returns null with fewer than MIN_FORECAST_HISTORY months
+ */
+export function forecastVolumes(values: number[], months: number[], horizon: number): VolumeForecast | null {
+  const n = values.length;
+  if (n < MIN_FORECAST_HISTORY) return null;
+
+  const { indices, method: seasonality } = estimateSeasonalIndices(values, months);
+  const method: ForecastMethod = seasonality === 'classical' ? 'holt-winters' : seasonality === 'annual-profile' ? 'seasonal-holt' : 'holt';
+  const gammas = method === 'holt-winters' ? GAMMAS : [0];
+
+  let best: (SmoothingRun & { alpha: number; beta: number }) | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of gammas) {
+        const run = runHoltWinters(values, months, indices, alpha, beta, gamma);
+        if (!best || run.sse < best.sse) best = { ...run, alpha, beta };
+      }
+    }
+  }
+  const { level, trend, seasonal, relativeErrors, alpha, beta } = best!;
+
+  // Relative one-step error, widened per step as in Holt's linear method
+  const sigma = relativeErrors.length > 0 ? Math.sqrt(sum(relativeErrors.map(e => e * e)) / relativeErrors.length) : 0;
+  const lastMonth = months[n - 1];
+
+  const forecast: number[] = [];
+  const lower: number[] = [];
+  const upper: number[] = [];
+  let dampedTrend = 0;
+  let varianceFactor = 1;
+  for (let h = 1; h <= horizon; h++) {
+    dampedTrend += DAMPING ** h * trend;
+    if (h > 1) varianceFactor += (alpha * (1 + (h - 1) * beta)) ** 2;
+    const season = seasonal[(lastMonth - 1 + h) % 12] || 1;
+    const point = Math.max(0, (level + dampedTrend) * season);
+    const spread = Z_SCORE * sigma * Math.sqrt(varianceFactor);
+    forecast.push(point);
+    lower.push(Math.max(0, point * (1 - spread)));
+    upper.push(point * (1 + spread));
+  }
+
+  return { method, forecast, lower, upper };
+}
+
+/**
+ * Forecast SOS per brand from the grouped monthly volumes of a seasonal SOS result
+ * A brand's band uses its own volume band against the other brands' point forecasts.
+ * @returns null when there is too little history
+ */
+export function forecastSOS(seasonalSOS: SeasonalSOSResult, horizon: number = MAX_FORECAST_HORIZON): SOSForecastResult | null {
+  const { points, brands } = seasonalSOS;
+  const months = points.map(p => Number(p.period.slice(5)));
+  const forecasts = brands.map(b => forecastVolumes(b.volumes, months, horizon));
+  if (brands.length === 0 || forecasts.some(f => f === null)) return null;
+
+  const periods = nextPeriods(points[points.length - 1].period, horizon);
+  const totals = periods.map((_, h) => sum(forecasts.map(f => f!.forecast[h])));
+  const share = (part: number, rest: number) => (part + rest > 0 ? round((part / (part + rest)) * 100) : 0);
+
+  const brandForecasts: BrandSOSForecast[] = brands.map((series, i) => {
+    const f = forecasts[i]!;
+    return {
+      brand: series.brand,
+      isOwnBrand: series.isOwnBrand,
+      history: points.map((p, t) => ({
+        period: p.period,
+        sos: p.totalVolume > 0 ? round((series.volumes[t] / p.totalVolume) * 100) : 0
+      })),
+      forecast: periods.map((period, h): SOSForecastPoint => {
+        const rest = totals[h] - f.forecast[h];
+        return {
+          period,
+          sos: share(f.forecast[h], rest),
+          lower: share(f.lower[h], rest),
+          upper: share(f.upper[h], rest)
+        };
+      })
+    };
+  }).sort((a, b) => Number(b.isOwnBrand) - Number(a.isOwnBrand) || Number(a.brand === 'Other') - Number(b.brand === 'Other'));
+
+  return {
+    method: forecasts[0]!.method, // Same history length for every brand
+    horizon,
+    confidenceLevel: FORECAST_CONFIDENCE,
+    brands: brandForecasts,
+    overtakes: findOvertakes(brandForecasts)
+  };
+}
+
+/**
+ * Competitors behind the own brand in the latest month whose forecast passes it
+ * "Other" is a bucket of unnamed brands and never counts as a competitor.
+ */
+export function findOvertakes(brands: BrandSOSForecast[]): SOSOvertake[] {
+  const own = brands.find(b => b.isOwnBrand);
+  if (!own || own.history.length === 0) return [];
+  const ownLatest = own.history[own.history.length - 1].sos;
+
+  const overtakes: SOSOvertake[] = [];
+  for (const competitor of brands) {
+    if (competitor.isOwnBrand || competitor.brand === 'Other' || competitor.history.length === 0) continue;
+    if (competitor.history[competitor.history.length - 1].sos > ownLatest) continue;
+
+    const index = competitor.forecast.findIndex((p, h) => p.sos > own.forecast[h].sos);
+    if (index >= 0) {
+      overtakes.push({
+        brand: competitor.brand,
+        period: competitor.forecast[index].period,
+        competitorSOS: competitor.forecast[index].sos,
+        ownSOS: own.forecast[index].sos
+      });
+    }
+  }
+
+  return overtakes.sort((a, b) => a.period.localeCompare(b.period));
+}
@@ -0,0 +1,133 @@
+import type { AnalysisChannel, BrandContext, DismissedItem, ProjectContext } from './types.js';
+import type { ValidationResult } from './validation.js';
+import { normalizeBrandTerm } from './brandVariants.js';
+
+/**
+ * Project Data
+ * Checks for the brand setup, channel analyses, channel configs and dismissed results
+ * stored on a project, so the panels open the same on every device.
+ * Pure functions - the /api/projects/[id]/... routes read and write the rows.
+ */
+
+export const ANALYSIS_CHANNELS: AnalysisChannel[] = ['paid', 'youtube', 'local', 'ai'];
+
+export const MAX_PROJECT_COMPETITORS = 20;
+// A YouTube analysis with every video is the largest payload, well under this
+export const MAX_CHANNEL_PAYLOAD_BYTES = 2_000_000;
+const MAX_ITEM_ID_LENGTH = 200;
+const MAX_LABEL_LENGTH = 300;
+
+export function isAnalysisChannel(value: unknown): value is AnalysisChannel {
+  return typeof value === 'string' && (ANALYSIS_CHANNELS as string[]).includes(value);
+}
+
+/**
+ * A channel analysis or config is stored as the JSON the panel works with; only its
+ * shape as an object and its size are checked.
+ */
+export function validateChannelPayload(input: unknown, field: string): ValidationResult<Record<string, unknown>> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { success: false, error: `${field} must be an object` };
+  }
+  if (JSON.stringify(input).length > MAX_CHANNEL_PAYLOAD_BYTES) {
+    return { success: false, error: `${field} is too large` };
+  }
+  return { success: true, data: input as Record<string, unknown> };
+}
+
+function validateBrandContext(input: unknown): ValidationResult<BrandContext> {
+  const c = input as Partial<BrandContext> | null;
+  if (!c || typeof c !== 'object' || typeof c.brandName !== 'string' || typeof c.industry !== 'string') {
+    return { success: false, error: 'brandContext needs at least a brandName and an industry' };
+  }
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+  const list = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []);
+  return {
+    success: true,
+    data: {
+      brandName: c.brandName,
+      industry: c.industry,
+      vertical: text(c.vertical),
+      productCategories: list(c.productCategories),
+      targetAudience: text(c.targetAudience),
+      competitorContext: text(c.competitorContext),
+      keyStrengths: list(c.keyStrengths),
+      marketPosition: text(c.marketPosition),
+      seoFocus: list(c.seoFocus)
+    }
+  };
+}
+
+/**
+ * Fields missing from the update are left as they are. Competitors spelled like the
+ * brand or each other are dropped, as they would split one brand's share in every channel.
+ */
+export function validateProjectContext(
+  input: unknown
+): ValidationResult<{ brandName?: string | null; competitors?: string[]; brandContext?: BrandContext }> {
+  if (!input || typeof input !== 'object') return { success: false, error: 'Project context must be an object' };
+  const { brandName, competitors, brandContext } = input as Record<string, unknown>;
+  const update: { brandName?: string | null; competitors?: string[]; brandContext?: BrandContext } = {};
+
+  if (brandName !== undefined) {
+    if (brandName !== null && typeof brandName !== 'string') return { success: false, error: 'brandName must be a string' };
+    update.brandName = brandName?.trim() || null;
+  }
+
+  if (competitors !== undefined) {
+    if (!Array.isArray(competitors)) return { success: false, error: 'competitors must be a list of brand names' };
+    const seen = new Set(update.brandName ? [normalizeBrandTerm(update.brandName)] : []);
+    update.competitors = [];
+    for (const competitor of competitors) {
+      if (typeof competitor !== 'string' || !competitor.trim()) continue;
+      const key = normalizeBrandTerm(competitor);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      update.competitors.push(competitor.trim());
+    }
+    if (update.competitors.length > MAX_PROJECT_COMPETITORS) {
+      return { success: false, error: `Track at most ${MAX_PROJECT_COMPETITORS} competitors` };
+    }
+  }
+
+  if (brandContext !== undefined) {
+    const result = validateBrandContext(brandContext);
+    if (!result.success) return { success: false, error: result.error };
+    update.brandContext = result.data!;
+  }
+
+  return { success: true, data: update };
+}
+
+export function validateDismissedItem(input: unknown): ValidationResult<{ itemId: string; label: string | null }> {
+  const item = input as { itemId?: unknown; label?: unknown } | null;
+  const itemId = typeof item?.itemId === 'string' ? item.itemId.trim() : '';
+  if (!itemId) return { success: false, error: 'itemId is required' };
+  if (itemId.length > MAX_ITEM_ID_LENGTH) return { success: false, error: 'itemId is too long' };
+  const label = typeof item?.label === 'string' && item.label.trim()
+    ? item.label.trim().slice(0, MAX_LABEL_LENGTH)
+    : null;
+  return { success: true, data: { itemId, label } };
+}
+
+export function toProjectContext(row: {
+  id: string;
+  brandName: string | null;
+  competitors: string[];
+  brandContext: unknown;
+}): ProjectContext {
+  return {
+    projectId: row.id,
+    brandName: row.brandName,
+    competitors: row.competitors,
+    brandContext: (row.brandContext as BrandContext | null) ?? null
+  };
+}
+
+export function toDismissedItem(row: { itemId: string; label: string | null; createdAt: Date | string }): DismissedItem {
+  return {
+    itemId: row.itemId,
+    label: row.label,
+    dismissedAt: new Date(row.createdAt).toISOString()
+  };
+}
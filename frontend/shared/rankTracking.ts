@@ -0,0 +1,207 @@
+import type {
+  CTRCurveDefinition,
+  RankCheck,
+  RankHistoryPoint,
+  RankMover,
+  RankMovers,
+  TrackedSOVPoint,
+  WatchedKeyword
+} from './types.js';
+import type { ValidationResult } from './validation.js';
+import { getCTR, DESKTOP_CTR_MODEL } from './calculations.js';
+
+/**
+ * Rank Tracking
+ * A project's watched keywords are checked on the live Google SERP once a day and
+ * the position of the domain and each tracked competitor is stored per check.
+ * Labs ranked keywords lag the real SERP by days to weeks; these don't. Pure
+ * functions - /api/rank-tracking fetches the SERPs and stores the checks.
+ */
+
+export const MAX_WATCHED_KEYWORDS = 50;
+export const MAX_TRACKED_COMPETITORS = 5;
+// Days of checks the API returns for charts, movers and SOV
+export const RANK_HISTORY_DAYS = 90;
+
+// Movement into or out of the top 100 is measured from here
+const UNRANKED_POSITION = 101;
+
+export interface SerpOrganicItem {
+  type: string;
+  rank_group: number;
+  domain?: string | null;
+  url?: string | null;
+}
+
+export function toTrackedDomain(domain: string): string {
+  return domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/.*$/, '').trim();
+}
+
+// A result on a subdomain (shop.brand.com) counts for the domain it belongs to
+export function matchesDomain(itemDomain: string, domain: string): boolean {
+  const host = toTrackedDomain(itemDomain);
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Validate a watch list update: keywords are deduped case-insensitively and
+ * competitors are cleaned to bare domains, without the project's own domain
+ */
+export function validateWatchList(
+  input: unknown,
+  ownDomain: string
+): ValidationResult<{ keywords: WatchedKeyword[]; competitors: string[] }> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  if (!Array.isArray(body.keywords)) return { success: false, error: 'Keywords must be an array' };
+  const keywords = new Map<string, WatchedKeyword>();
+  for (const item of body.keywords as unknown[]) {
+    const kw = item as Partial<WatchedKeyword> | null;
+    const keyword = typeof kw?.keyword === 'string' ? kw.keyword.trim() : '';
+    if (!keyword) return { success: false, error: 'Every watched keyword needs a keyword' };
+    if (keyword.length > 200) return { success: false, error: `Keyword is too long: ${keyword.slice(0, 40)}...` };
+    const searchVolume = typeof kw?.searchVolume === 'number' && kw.searchVolume > 0 ? Math.round(kw.searchVolume) : 0;
+    const key = keyword.toLowerCase();
+    if (!keywords.has(key)) keywords.set(key, { keyword, searchVolume });
+  }
+  if (keywords.size > MAX_WATCHED_KEYWORDS) {
+    return { success: false, error: `Watch at most ${MAX_WATCHED_KEYWORDS} keywords` };
+  }
+
+  const rawCompetitors = body.competitors ?? [];
+  if (!Array.isArray(rawCompetitors) || rawCompetitors.some(c => typeof c !== 'string')) {
+    return { success: false, error: 'Competitors must be a list of domains' };
+  }
+  const competitors = [...new Set((rawCompetitors as string[]).map(toTrackedDomain))]
+    .filter(c => c && c !== ownDomain);
+  if (competitors.some(c => !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(c))) {
+    return { success: false, error: 'Competitors must be domains like example.com' };
+  }
+  if (competitors.length > MAX_TRACKED_COMPETITORS) {
+    return { success: false, error: `Track at most ${MAX_TRACKED_COMPETITORS} competitors` };
+  }
+
+  return { success: true, data: { keywords: [...keywords.values()], competitors } };
+}
+
+/**
+ * Best organic position of each domain on a results page (null when it isn't in the items)
+ */
+export function extractDomainPositions(
+  items: SerpOrganicItem[],
+  domains: string[]
+): Array<{ domain: string; position: number | null; url: string | null }> {
+  return domains.map(domain => {
+    let best: SerpOrganicItem | null = null;
+    for (const item of items) {
+      if (item.type !== 'organic' || !item.domain || !matchesDomain(item.domain, domain)) continue;
+      if (!best || item.rank_group < best.rank_group) best = item;
+    }
+    return { domain, position: best?.rank_group ?? null, url: best?.url ?? null };
+  });
+}
+
+// ==========================================
+// HISTORY
+// ==========================================
+
+const toDay = (checkedAt: string) => checkedAt.slice(0, 10);
+const checkKey = (keyword: string, domain: string) => `${keyword.toLowerCase()}|${domain}`;
+
+// One reading per keyword and domain per day; a manual re-check replaces that day's earlier reading
+function groupChecksByDay(checks: RankCheck[]): Array<[day: string, readings: Map<string, RankCheck>]> {
+  const days = new Map<string, Map<string, RankCheck>>();
+  for (const check of [...checks].sort((a, b) => a.checkedAt.localeCompare(b.checkedAt))) {
+    const day = toDay(check.checkedAt);
+    const readings = days.get(day) ?? new Map<string, RankCheck>();
+    readings.set(checkKey(check.keyword, check.domain), check);
+    days.set(day, readings);
+  }
+  return [...days.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Daily positions of one keyword for each domain, oldest first
+ */
+export function getRankHistory(checks: RankCheck[], keyword: string, domains: string[]): RankHistoryPoint[] {
+  return groupChecksByDay(checks)
+    .filter(([, readings]) => domains.some(d => readings.has(checkKey(keyword, d))))
+    .map(([date, readings]) => ({
+      date,
+      positions: Object.fromEntries(domains.map(d => [d, readings.get(checkKey(keyword, d))?.position ?? null]))
+    }));
+}
+
+/**
+ * Biggest position changes of a domain between the latest day and the day `days` before it.
+ * When tracking hasn't run that long the first tracked day is the baseline, so new
+ * watch lists show movement from the start. Keywords not checked on both days are left out.
+ */
+export function getRankMovers(
+  checks: RankCheck[],
+  keywords: WatchedKeyword[],
+  domain: string,
+  days = 7
+): RankMovers {
+  const history = groupChecksByDay(checks);
+  if (history.length < 2) return { since: null, gainers: [], losers: [] };
+
+  const [latestDay, latest] = history[history.length - 1];
+  const target = new Date(`${latestDay}T00:00:00Z`).getTime() - days * 24 * 60 * 60 * 1000;
+  const [baselineDay, baseline] = [...history.slice(0, -1)]
+    .reverse()
+    .find(([day]) => new Date(`${day}T00:00:00Z`).getTime() <= target) ?? history[0];
+
+  const movers: RankMover[] = [];
+  for (const { keyword, searchVolume } of keywords) {
+    const before = baseline.get(checkKey(keyword, domain));
+    const after = latest.get(checkKey(keyword, domain));
+    if (!before || !after) continue;
+
+    const change = (before.position ?? UNRANKED_POSITION) - (after.position ?? UNRANKED_POSITION);
+    if (change !== 0) {
+      movers.push({ keyword, searchVolume, previous: before.position, current: after.position, change });
+    }
+  }
+
+  const byChange = (a: RankMover, b: RankMover) =>
+    Math.abs(b.change) - Math.abs(a.change) || b.searchVolume - a.searchVolume;
+
+  return {
+    since: baselineDay,
+    gainers: movers.filter(m => m.change > 0).sort(byChange),
+    losers: movers.filter(m => m.change < 0).sort(byChange)
+  };
+}
+
+/**
+ * Daily SOV of each domain on the watched keywords, from the tracked positions.
+ * Every domain is measured over the same keywords - the ones checked that day - so
+ * shares are comparable between domains and don't dip on the day a keyword is pinned.
+ */
+export function getTrackedSOVSeries(
+  checks: RankCheck[],
+  keywords: WatchedKeyword[],
+  domains: string[],
+  model: CTRCurveDefinition = DESKTOP_CTR_MODEL
+): TrackedSOVPoint[] {
+  const points: TrackedSOVPoint[] = [];
+
+  for (const [date, readings] of groupChecksByDay(checks)) {
+    const checked = keywords.filter(kw => domains.some(d => readings.has(checkKey(kw.keyword, d))));
+    const totalVolume = checked.reduce((sum, kw) => sum + kw.searchVolume, 0);
+    if (checked.length === 0) continue;
+
+    const shares: Record<string, number> = {};
+    for (const domain of domains) {
+      const visibleVolume = checked.reduce((sum, kw) => {
+        const position = readings.get(checkKey(kw.keyword, domain))?.position;
+        return position ? sum + kw.searchVolume * getCTR(position, model) : sum;
+      }, 0);
+      shares[domain] = totalVolume > 0 ? Math.round((visibleVolume / totalVolume) * 1000) / 10 : 0;
+    }
+    points.push({ date, keywords: checked.length, shares });
+  }
+
+  return points;
+}
@@ -0,0 +1,175 @@
+import type {
+  BrandKeywordHistory,
+  BrandVolumeSeries,
+  MonthlySOSPoint,
+  SeasonalSOSResult,
+  SOSWindowSummary
+} from './types.js';
+import { matchesBrand } from './brandVariants.js';
+
+/**
+ * Seasonal Share of Search
+ * A single volume snapshot swings with the season in categories like winter tires or
+ * sun care. These variants use each keyword's monthly history instead: month by month,
+ * as 3- and 12-month rolling windows, and with the seasonal pattern divided out.
+ */
+
+const toPeriod = (year: number, month: number): string => `${year}-${String(month).padStart(2, '0')}`;
+const toPercent = (part: number, total: number): number => (total > 0 ? Math.round((part / total) * 1000) / 10 : 0);
+const sum = (values: number[]): number => values.reduce((total, v) => total + v, 0);
+
+type SeasonalityMethod = SeasonalSOSResult['seasonality'];
+
+/**
+ * Seasonal index per calendar month (index 0 = January), averaging 1 over the year.
+ * 24+ months: classical multiplicative decomposition against a centred 2x12 moving average.
+ * 12-23 months: the latest year's shape relative to its mean - trend and season can't be told apart yet.
+ */
+export function estimateSeasonalIndices(
+  values: number[],
+  months: number[]
+): { indices: number[]; method: SeasonalityMethod } {
+  const n = values.length;
+  const flat = { indices: new Array<number>(12).fill(1), method: 'none' as const };
+  if (n < 12) return flat;
+
+  const ratios: number[][] = Array.from({ length: 12 }, () => []);
+  let method: SeasonalityMethod;
+
+  if (n >= 24) {
+    method = 'classical';
+    for (let t = 6; t < n - 6; t++) {
+      const trend = (0.5 * values[t - 6] + sum(values.slice(t - 5, t + 6)) + 0.5 * values[t + 6]) / 12;
+      if (trend > 0) ratios[months[t] - 1].push(values[t] / trend);
+    }
+  } else {
+    method = 'annual-profile';
+    const mean = sum(values.slice(-12)) / 12;
+    if (mean <= 0) return flat;
+    for (let t = n - 12; t < n; t++) ratios[months[t] - 1].push(values[t] / mean);
+  }
+
+  const raw = ratios.map(r => (r.length > 0 ? sum(r) / r.length : 1));
+  const scale = sum(raw) / 12;
+  return { indices: raw.map(r => (scale > 0 ? r / scale : 1)), method };
+}
+
+const deseasonalize = (values: number[], months: number[], indices: number[]): number[] =>
+  values.map((value, t) => {
+    const index = indices[months[t] - 1];
+    return index > 0 ? value / index : value;
+  });
+
+/**
+ * Split keyword histories into per-brand monthly volumes for charting.
+ * Own-brand keywords roll up to the first own brand; competitor keywords go to the first
+ * competitor they name, anything else to "Other".
+ */
+function groupBrandVolumes(
+  keywords: BrandKeywordHistory[],
+  brands: Array<{ brand: string; isOwnBrand: boolean }>,
+  periods: string[]
+): BrandVolumeSeries[] {
+  const ownBrand = brands.find(b => b.isOwnBrand)?.brand ?? 'Your brand';
+  const competitors = brands.filter(b => !b.isOwnBrand).map(b => b.brand);
+  const series = new Map<string, BrandVolumeSeries>();
+  const periodIndex = new Map(periods.map((p, i) => [p, i]));
+
+  for (const kw of keywords) {
+    const brand = kw.isOwnBrand ? ownBrand : competitors.find(c => matchesBrand(kw.keyword, c)) ?? 'Other';
+    if (!series.has(brand)) {
+      series.set(brand, { brand, isOwnBrand: kw.isOwnBrand, volumes: new Array<number>(periods.length).fill(0) });
+    }
+    const volumes = series.get(brand)!.volumes;
+    for (const m of kw.monthlySearches) {
+      const index = periodIndex.get(toPeriod(m.year, m.month));
+      if (index !== undefined) volumes[index] += m.searchVolume || 0;
+    }
+  }
+
+  return [...series.values()].sort((a, b) =>
+    Number(b.isOwnBrand) - Number(a.isOwnBrand) || sum(b.volumes) - sum(a.volumes)
+  );
+}
+
+/**
+ * Share of Search from monthly history: per month, rolling 3 and 12 months (volume-weighted,
+ * i.e. summed volumes rather than averaged percentages) and seasonally adjusted, where own-brand
+ * and total volume are each deseasonalised before they are divided.
+ */
+export function calculateSeasonalSOS(
+  keywords: BrandKeywordHistory[],
+  brands: Array<{ brand: string; isOwnBrand: boolean }> = []
+): SeasonalSOSResult {
+  const monthSet = new Map<string, { year: number; month: number }>();
+  for (const kw of keywords) {
+    for (const m of kw.monthlySearches) monthSet.set(toPeriod(m.year, m.month), { year: m.year, month: m.month });
+  }
+  const periods = [...monthSet.keys()].sort();
+  const months = periods.map(p => monthSet.get(p)!.month);
+
+  const brandVolumes = new Array<number>(periods.length).fill(0);
+  const totalVolumes = new Array<number>(periods.length).fill(0);
+  const periodIndex = new Map(periods.map((p, i) => [p, i]));
+  for (const kw of keywords) {
+    for (const m of kw.monthlySearches) {
+      const index = periodIndex.get(toPeriod(m.year, m.month))!;
+      totalVolumes[index] += m.searchVolume || 0;
+      if (kw.isOwnBrand) brandVolumes[index] += m.searchVolume || 0;
+    }
+  }
+
+  const brandSeason = estimateSeasonalIndices(brandVolumes, months);
+  const totalSeason = estimateSeasonalIndices(totalVolumes, months);
+  const seasonality = brandSeason.method;
+  const adjustedBrand = deseasonalize(brandVolumes, months, brandSeason.indices);
+  const adjustedTotal = deseasonalize(totalVolumes, months, totalSeason.indices);
+
+  const windowSummary = (end: number, size: number): SOSWindowSummary | null => {
+    if (end + 1 < size) return null;
+    const brand = sum(brandVolumes.slice(end + 1 - size, end + 1));
+    const total = sum(totalVolumes.slice(end + 1 - size, end + 1));
+    return {
+      sos: toPercent(brand, total),
+      brandVolume: Math.round(brand / size),
+      totalVolume: Math.round(total / size),
+      from: periods[end + 1 - size],
+      to: periods[end]
+    };
+  };
+
+  const points: MonthlySOSPoint[] = periods.map((period, t) => ({
+    period,
+    brandVolume: brandVolumes[t],
+    totalVolume: totalVolumes[t],
+    sos: toPercent(brandVolumes[t], totalVolumes[t]),
+    rolling3: windowSummary(t, 3)?.sos ?? null,
+    rolling12: windowSummary(t, 12)?.sos ?? null,
+    seasonallyAdjusted: seasonality === 'none' ? null : toPercent(adjustedBrand[t], adjustedTotal[t])
+  }));
+
+  const last = periods.length - 1;
+  const latest: SeasonalSOSResult['latest'] = {};
+  if (last >= 0) {
+    const rolling3 = windowSummary(last, 3);
+    const rolling12 = windowSummary(last, 12);
+    if (rolling3) latest.rolling3 = rolling3;
+    if (rolling12) latest.rolling12 = rolling12;
+    if (seasonality !== 'none') {
+      latest.seasonallyAdjusted = {
+        sos: points[last].seasonallyAdjusted!,
+        brandVolume: Math.round(adjustedBrand[last]),
+        totalVolume: Math.round(adjustedTotal[last]),
+        from: periods[last],
+        to: periods[last]
+      };
+    }
+  }
+
+  return {
+    points,
+    brands: groupBrandVolumes(keywords, brands, periods),
+    seasonality,
+    latest
+  };
+}
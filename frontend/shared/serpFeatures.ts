@@ -0,0 +1,195 @@
+import type {
+  RankCheck,
+  SerpFeatureCheck,
+  SerpFeatureOpportunity,
+  SerpFeatureShare,
+  SerpFeatureSlot,
+  SerpFeatureType,
+  WatchedKeyword
+} from './types.js';
+import { matchesDomain, toTrackedDomain } from './rankTracking.js';
+
+/**
+ * SERP Features
+ * Rank checks read the whole results page, not just organic results, so every
+ * check also records the features on the page and which host holds each placement.
+ * Feature SOV is a domain's share of those placements, weighted by keyword volume.
+ * Video carousels are held by the video host (usually youtube.com), not the brand.
+ */
+
+export const SERP_FEATURES: Record<SerpFeatureType, { label: string }> = {
+  featured_snippet: { label: 'Featured snippet' },
+  people_also_ask: { label: 'People Also Ask' },
+  video: { label: 'Video carousel' },
+  images: { label: 'Image pack' },
+  local_pack: { label: 'Local pack' }
+};
+
+// Features are worth winning from page two onwards only in theory - stick to top-10 rankings
+const MAX_OPPORTUNITY_POSITION = 10;
+
+interface SerpElement {
+  domain?: string | null;
+  url?: string | null;
+  expanded_element?: Array<{ domain?: string | null; url?: string | null }> | null;
+}
+
+// Result item of serp/google/organic/live/advanced; nested elements carry the placements of multi-item features
+export interface SerpResultItem extends SerpElement {
+  type: string;
+  rank_group: number;
+  items?: SerpElement[] | null;
+}
+
+function toHost(element: SerpElement | undefined): string | null {
+  if (element?.domain) return toTrackedDomain(element.domain);
+  if (!element?.url) return null;
+  try {
+    return toTrackedDomain(new URL(element.url).hostname);
+  } catch {
+    return null;
+  }
+}
+
+const isFeature = (type: string): type is SerpFeatureType => type in SERP_FEATURES;
+
+/**
+ * Placements of every SERP feature on a results page, in page order
+ */
+export function extractSerpFeatures(items: SerpResultItem[]): SerpFeatureSlot[] {
+  const slots: SerpFeatureSlot[] = [];
+
+  for (const item of items) {
+    if (!isFeature(item.type)) continue;
+    const feature = item.type;
+
+    if (feature === 'featured_snippet' || feature === 'local_pack') {
+      slots.push({ feature, owner: toHost(item), url: item.url ?? null });
+      continue;
+    }
+
+    for (const element of item.items ?? []) {
+      // A PAA question is held by the page its expanded answer cites
+      const source = feature === 'people_also_ask' ? element.expanded_element?.[0] : element;
+      slots.push({ feature, owner: toHost(source), url: source?.url ?? null });
+    }
+  }
+
+  return slots;
+}
+
+// Latest feature reading per watched keyword
+function getLatestFeatureChecks(checks: SerpFeatureCheck[]): Map<string, SerpFeatureCheck> {
+  const latest = new Map<string, SerpFeatureCheck>();
+  for (const check of checks) {
+    const key = check.keyword.toLowerCase();
+    const existing = latest.get(key);
+    if (!existing || check.checkedAt > existing.checkedAt) latest.set(key, check);
+  }
+  return latest;
+}
+
+/**
+ * Feature SOV per domain on the latest check of each watched keyword.
+ * A domain's share of a feature is the volume-weighted share of its placements:
+ * holding the snippet on a 10k keyword counts ten times one on a 1k keyword, and
+ * two of four PAA answers count half.
+ */
+export function getFeatureShareOfVoice(
+  checks: SerpFeatureCheck[],
+  keywords: WatchedKeyword[],
+  domains: string[]
+): SerpFeatureShare[] {
+  const latest = getLatestFeatureChecks(checks);
+  const checked = keywords
+    .map(kw => ({ ...kw, slots: latest.get(kw.keyword.toLowerCase())?.features }))
+    .filter((kw): kw is WatchedKeyword & { slots: SerpFeatureSlot[] } => kw.slots !== undefined);
+  const checkedVolume = checked.reduce((sum, kw) => sum + kw.searchVolume, 0);
+
+  return (Object.keys(SERP_FEATURES) as SerpFeatureType[])
+    .map(feature => {
+      const withFeature = checked
+        .map(kw => ({ ...kw, slots: kw.slots.filter(s => s.feature === feature) }))
+        .filter(kw => kw.slots.length > 0);
+      const searchVolume = withFeature.reduce((sum, kw) => sum + kw.searchVolume, 0);
+
+      const shares: Record<string, number> = {};
+      for (const domain of domains) {
+        const held = withFeature.reduce((sum, kw) => {
+          const owned = kw.slots.filter(s => s.owner && matchesDomain(s.owner, domain)).length;
+          return sum + kw.searchVolume * (owned / kw.slots.length);
+        }, 0);
+        shares[domain] = searchVolume > 0 ? Math.round((held / searchVolume) * 1000) / 10 : 0;
+      }
+
+      return {
+        feature,
+        keywords: withFeature.length,
+        searchVolume,
+        presence: checkedVolume > 0 ? Math.round((searchVolume / checkedVolume) * 1000) / 10 : 0,
+        shares
+      };
+    })
+    .filter(share => share.keywords > 0);
+}
+
+function describeOpportunity(feature: SerpFeatureType, holder: string | null, position: number): string {
+  const label = SERP_FEATURES[feature].label;
+  if (feature === 'featured_snippet') {
+    return holder
+      ? `Snippet held by ${holder} on a keyword where you rank #${position}`
+      : `Snippet without a source on a keyword where you rank #${position}`;
+  }
+  return `${label} ${holder ? `led by ${holder}` : 'shown'} while you rank #${position} and hold no placement`;
+}
+
+/**
+ * Features shown on a watched keyword's SERP where the domain ranks in the top 10
+ * but holds no placement - pages already trusted for the query are the likeliest
+ * to win the snippet or a PAA answer with formatting changes.
+ */
+export function findFeatureOpportunities(
+  featureChecks: SerpFeatureCheck[],
+  rankChecks: RankCheck[],
+  keywords: WatchedKeyword[],
+  domain: string
+): SerpFeatureOpportunity[] {
+  const latestFeatures = getLatestFeatureChecks(featureChecks);
+  const latestPositions = new Map<string, RankCheck>();
+  for (const check of rankChecks) {
+    if (check.domain !== domain) continue;
+    const key = check.keyword.toLowerCase();
+    const existing = latestPositions.get(key);
+    if (!existing || check.checkedAt > existing.checkedAt) latestPositions.set(key, check);
+  }
+
+  const opportunities: SerpFeatureOpportunity[] = [];
+  for (const { keyword, searchVolume } of keywords) {
+    const position = latestPositions.get(keyword.toLowerCase())?.position;
+    const slots = latestFeatures.get(keyword.toLowerCase())?.features;
+    if (!position || position > MAX_OPPORTUNITY_POSITION || !slots) continue;
+
+    for (const feature of new Set(slots.map(s => s.feature))) {
+      const placements = slots.filter(s => s.feature === feature);
+      if (placements.some(s => s.owner && matchesDomain(s.owner, domain))) continue;
+
+      const counts = new Map<string, number>();
+      for (const { owner } of placements) {
+        if (owner) counts.set(owner, (counts.get(owner) ?? 0) + 1);
+      }
+      const holder = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+      opportunities.push({
+        keyword,
+        searchVolume,
+        feature,
+        position,
+        holder,
+        message: describeOpportunity(feature, holder, position),
+        score: Math.round(searchVolume / position)
+      });
+    }
+  }
+
+  return opportunities.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,153 @@
+/// <reference types="node" />
+import net from 'node:net';
+import tls from 'node:tls';
+import { hostname } from 'node:os';
+import type { SMTPSettings } from './types.js';
+
+/**
+ * Minimal SMTP client
+ * Server-only. Sends plain-text mail for alert delivery: implicit TLS or STARTTLS,
+ * AUTH PLAIN, one message per connection. Enough for a relay or a provider's SMTP
+ * endpoint and for the local stand-in in mock/smtp.ts.
+ */
+
+const SMTP_TIMEOUT_MS = 15000;
+
+export interface MailMessage {
+  subject: string;
+  text: string;
+}
+
+interface SMTPReply {
+  code: number;
+  lines: string[];
+}
+
+// Reads one (possibly multi-line) reply at a time from the socket
+class ReplyReader {
+  private buffer = '';
+  private waiting: Array<{ resolve: (reply: SMTPReply) => void; reject: (error: Error) => void }> = [];
+  private error: Error | null = null;
+
+  attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.flush();
+    });
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  next(): Promise<SMTPReply> {
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ resolve, reject });
+      this.flush();
+    });
+  }
+
+  private fail(error: Error): void {
+    this.error = this.error ?? error;
+    for (const waiter of this.waiting.splice(0)) waiter.reject(this.error);
+  }
+
+  private flush(): void {
+    while (this.waiting.length > 0) {
+      // A reply ends with a "250 text" line; "250-text" lines continue it
+      const match = this.buffer.match(/^((?:\d{3}-[^\r\n]*\r?\n)*)(\d{3})(?: [^\r\n]*)?\r?\n/);
+      if (!match) return;
+      this.buffer = this.buffer.slice(match[0].length);
+      const lines = match[0].split(/\r?\n/).filter(Boolean).map(line => line.slice(4));
+      this.waiting.shift()!.resolve({ code: Number(match[2]), lines });
+    }
+  }
+}
+
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+// RFC 5322 message with CRLF line endings and dot-stuffing for the DATA command
+export function buildMessage(from: string, to: string[], message: MailMessage, date: Date = new Date()): string {
+  const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    body
+  ].join('\r\n');
+}
+
+function connect(settings: SMTPSettings): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = settings.secure
+      ? tls.connect({ host: settings.host, port: settings.port, servername: settings.host })
+      : net.connect({ host: settings.host, port: settings.port });
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error(`SMTP server ${settings.host} timed out`)));
+    socket.once(settings.secure ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgradeToTLS(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    socket.removeAllListeners('data');
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.setTimeout(SMTP_TIMEOUT_MS, () => secure.destroy(new Error(`SMTP server ${host} timed out`)));
+    secure.once('error', reject);
+  });
+}
+
+/**
+ * Send one message
+ * Throws with the server's reply when a command is rejected.
+ */
+export async function sendMail(settings: SMTPSettings, message: MailMessage): Promise<void> {
+  let socket = await connect(settings);
+  let reader = new ReplyReader();
+  reader.attach(socket);
+
+  const expect = async (codes: number[], command: string) => {
+    const reply = await reader.next();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${command} failed: ${reply.code} ${reply.lines.join(' ')}`.trim());
+    }
+    return reply;
+  };
+  const send = (line: string, label: string = line.split(' ')[0], codes: number[] = [250]) => {
+    socket.write(`${line}\r\n`);
+    return expect(codes, label);
+  };
+
+  try {
+    await expect([220], 'greeting');
+    const client = hostname() || 'localhost';
+    let ehlo = await send(`EHLO ${client}`, 'EHLO');
+
+    if (!settings.secure && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await send('STARTTLS', 'STARTTLS', [220]);
+      socket = await upgradeToTLS(socket, settings.host);
+      reader = new ReplyReader();
+      reader.attach(socket);
+      ehlo = await send(`EHLO ${client}`, 'EHLO');
+    }
+
+    if (settings.username && settings.password) {
+      const token = Buffer.from(`\0${settings.username}\0${settings.password}`, 'utf8').toString('base64');
+      await send(`AUTH PLAIN ${token}`, 'AUTH', [235]);
+    }
+
+    await send(`MAIL FROM:<${settings.from}>`, 'MAIL FROM');
+    for (const recipient of settings.to) await send(`RCPT TO:<${recipient}>`, 'RCPT TO', [250, 251]);
+    await send('DATA', 'DATA', [354]);
+    await send(`${buildMessage(settings.from, settings.to, message)}\r\n.`, 'message', [250]);
+    socket.write('QUIT\r\n');
+  } finally {
+    socket.end();
+  }
+}
@@ -0,0 +1,590 @@
+/**
+ * Shared Calculation Types
+ * Minimal shapes used by both the frontend (src/) and the serverless API routes (api/).
+ * Frontend types in src/types extend these with UI-only fields.
+ */
+
+// SERP features that pull clicks away from organic results
+export interface SerpFeatures {
+  ads?: boolean;
+  featuredSnippet?: boolean;
+  localPack?: boolean;
+}
+
+// A CTR curve that turns positions into estimated clicks
+export interface CTRCurveDefinition {
+  id: string;
+  name: string;
+  curve: Record<number, number>; // position -> CTR (0-1)
+  defaultCTR: number; // CTR for positions not covered by the curve
+}
+
+// The CTR model a SOV calculation used, stored so numbers can be reproduced
+export interface CTRModelUsage extends CTRCurveDefinition {
+  serpAdjustments: boolean;
+}
+
+export interface BrandKeywordInput {
+  keyword: string;
+  searchVolume: number;
+  isOwnBrand: boolean;
+}
+
+export interface RankedKeywordInput {
+  keyword: string;
+  searchVolume: number;
+  position: number;
+  url?: string | null; // null for keywords loaded from the database
+  serpFeatures?: SerpFeatures;
+  actualClicks?: number; // Monthly clicks from a Search Console import; replaces the CTR estimate
+}
+
+export interface SOSResult {
+  shareOfSearch: number;
+  brandVolume: number;
+  totalBrandVolume: number;
+}
+
+export interface SOVResult<T extends RankedKeywordInput = RankedKeywordInput> {
+  shareOfVoice: number;
+  visibleVolume: number;
+  totalMarketVolume: number;
+  keywordBreakdown: Array<T & { ctr: number; visibleVolume: number }>;
+  ctrModel: CTRModelUsage;
+}
+
+export interface GrowthGapResult {
+  gap: number;
+  interpretation: 'growth_potential' | 'missing_opportunities' | 'balanced';
+}
+
+// Panel keyword; weight is its monthly search volume when the panel version was published
+export interface VisibilityPanelKeyword {
+  keyword: string;
+  weight: number;
+}
+
+// Fixed keyword set for one market and industry that visibility indices are computed over
+export interface VisibilityPanel {
+  id: string;
+  version: number;
+  name: string;
+  industry: string;
+  industryTerms: string[]; // Lowercase words that place a brand's industry or categories in this panel
+  locationCode: number;
+  languageCode: string;
+  publishedAt: string; // YYYY-MM-DD
+  keywords: VisibilityPanelKeyword[];
+}
+
+// What the client is told about a panel, without its keyword list
+export interface VisibilityPanelSummary extends Omit<VisibilityPanel, 'keywords'> {
+  keywordCount: number;
+}
+
+// A domain's visibility on a panel: 100 = position 1 for every panel keyword
+export interface VisibilityIndexResult {
+  index: number;
+  panelId: string;
+  panelVersion: number;
+  panelName: string;
+  panelSize: number;
+  rankingKeywords: number; // Panel keywords the domain ranks for in the top 100
+  topTenKeywords: number;
+  keywords: Array<VisibilityPanelKeyword & { position: number | null }>;
+}
+
+// How a DataForSEO-backed response was served
+export interface CacheInfo {
+  hit: boolean; // Every upstream call was served from cache
+  fetchedAt: string; // ISO time of the oldest upstream data in the response
+  ageSeconds: number;
+  cost: number; // USD charged for this request
+  savedCost: number; // USD avoided by cache hits
+}
+
+// DataForSEO spend for one project (domain + location)
+export interface ApiCostSummary {
+  domain: string;
+  locationCode: number;
+  totalCost: number;
+  savedCost: number;
+  calls: number;
+  cacheHits: number;
+  byEndpoint: Array<{ endpoint: string; cost: number; calls: number; cacheHits: number }>;
+}
+
+// One domain's organic footprint, the input to a competitive landscape
+export interface DomainRankings {
+  domain: string;
+  label: string; // Brand name shown in the UI
+  isYou: boolean;
+  keywords: RankedKeywordInput[];
+}
+
+// A keyword in the shared universe with every domain's position (null = not ranking)
+export interface KeywordMatrixRow {
+  keyword: string;
+  searchVolume: number;
+  positions: Record<string, number | null>; // domain -> position
+  leader: string | null; // domain with the best position
+}
+
+// Each domain's SOV measured over the same keyword universe, so shares are comparable
+export interface CompetitiveDomainShare {
+  domain: string;
+  label: string;
+  isYou: boolean;
+  keywordsRanked: number;
+  keywordsLed: number;
+  visibleVolume: number;
+  shareOfVoice: number; // % of universe volume captured as clicks
+  shareOfClicks: number; // % of the clicks captured by all compared domains
+}
+
+// Venn region: keywords ranked by exactly this set of domains
+export interface KeywordOverlapRegion {
+  domains: string[];
+  keywords: number;
+  searchVolume: number;
+}
+
+export interface CompetitiveLandscape {
+  universeSize: number;
+  universeVolume: number;
+  domains: CompetitiveDomainShare[];
+  overlap: KeywordOverlapRegion[];
+  matrix: KeywordMatrixRow[];
+}
+
+// A keyword competitors rank for in the top 10 where you don't rank at all
+export interface ContentGapKeyword {
+  keyword: string;
+  searchVolume: number;
+  competitorPositions: Record<string, number>; // competitor label -> position
+}
+
+// Missing keywords clustered into a topic, with the competitor pages that cover it
+export interface ContentGap {
+  topic: string;
+  totalVolume: number;
+  missingKeywords: ContentGapKeyword[];
+  competitors: string[]; // Competitors ranking for at least one keyword in the topic
+  competitorUrls: Array<{ competitor: string; url: string; keywords: number }>;
+  priority: 'high' | 'medium' | 'low';
+}
+
+// Ranked keywords grouped by shared ranking URLs and token similarity
+export interface KeywordCluster<T extends RankedKeywordInput = RankedKeywordInput> {
+  id: string;
+  pillarKeyword: string; // Highest-volume keyword in the cluster
+  keywords: T[];
+  totalVolume: number;
+  visibleVolume: number;
+  shareOfVoice: number; // Cluster-level SOV: visible volume / total volume
+  bestUrl: string | null; // URL holding the best position in the cluster
+  bestPosition: number;
+}
+
+// Third-party services whose credentials live in a workspace's vault
+export type CredentialProvider = 'dataforseo' | 'youtube' | 'anthropic' | 'webhook' | 'smtp';
+
+// Secret payload per provider, as entered in settings and decrypted on the server
+export interface CredentialSecrets {
+  dataforseo: { login: string; password: string };
+  youtube: { apiKeys: string[] }; // Rotated in order when a key runs out of quota
+  anthropic: { apiKey: string };
+  webhook: { url: string; signingSecret?: string }; // Alert deliveries are signed with HMAC-SHA256 when a secret is set
+  smtp: SMTPSettings;
+}
+
+export interface SMTPSettings {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte (port 465); otherwise STARTTLS when the server offers it
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+// What the settings UI is told about a credential - never the secret itself
+export interface CredentialSummary {
+  provider: CredentialProvider;
+  source: 'workspace' | 'environment' | null; // null = not configured
+  hint: string | null; // Non-secret label, e.g. the login or the last four characters
+  updatedAt: string | null;
+  lastTestedAt: string | null;
+  lastTestOk: boolean | null;
+  lastTestError: string | null;
+}
+
+// Who a credential token belongs to: the server admin (any workspace) or one workspace
+export type CredentialAccess = 'admin' | 'workspace';
+
+// How a search term relates to the brand it was discovered for
+export type BrandVariantKind =
+  | 'exact' // The brand name itself
+  | 'spelling' // Same words, other spelling: umlauts, transliterations, punctuation
+  | 'misspelling' // Different spacing or a typo, e.g. "la vera" for "lavera"
+  | 'product'; // Brand plus product or modifier words, e.g. "lavera shampoo"
+
+export type BrandVariantStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface BrandVariant {
+  keyword: string;
+  kind: BrandVariantKind;
+  searchVolume: number;
+  status: BrandVariantStatus; // Only accepted variants count towards Share of Search
+}
+
+// All reviewed search terms for one own or competitor brand
+export interface BrandVariantSet {
+  brand: string;
+  isOwnBrand: boolean;
+  variants: BrandVariant[];
+}
+
+// What is kept of a review: the decision per keyword. Volumes are fetched again with every analysis.
+export interface BrandVariantReview {
+  brand: string;
+  isOwnBrand: boolean;
+  variants: Array<Pick<BrandVariant, 'keyword' | 'status'>>;
+}
+
+// One month of search volume from a keyword's monthly_searches history
+export interface MonthlyVolume {
+  year: number;
+  month: number; // 1-12
+  searchVolume: number;
+}
+
+export interface BrandKeywordHistory extends BrandKeywordInput {
+  monthlySearches: MonthlyVolume[];
+}
+
+// Which Share of Search figure drives the headline: the volume snapshot or one computed from monthly history
+export type SOSVariant = 'current' | 'rolling3' | 'rolling12' | 'seasonallyAdjusted';
+
+export interface MonthlySOSPoint {
+  period: string; // YYYY-MM
+  brandVolume: number;
+  totalVolume: number;
+  sos: number; // That month alone
+  rolling3: number | null; // null until three months of history exist
+  rolling12: number | null;
+  seasonallyAdjusted: number | null; // null when there is too little history to estimate seasonality
+}
+
+// SOS over the latest window of a history-based variant
+export interface SOSWindowSummary {
+  sos: number;
+  brandVolume: number;
+  totalVolume: number;
+  from: string; // YYYY-MM
+  to: string;
+}
+
+// Monthly volumes of one brand, aligned with MonthlySOSPoint periods
+export interface BrandVolumeSeries {
+  brand: string;
+  isOwnBrand: boolean;
+  volumes: number[];
+}
+
+export interface SeasonalSOSResult {
+  points: MonthlySOSPoint[]; // Oldest first
+  brands: BrandVolumeSeries[];
+  // classical = 2x12 moving-average decomposition (24+ months), annual-profile = one year's shape (12-23 months)
+  seasonality: 'classical' | 'annual-profile' | 'none';
+  latest: Partial<Record<Exclude<SOSVariant, 'current'>, SOSWindowSummary>>;
+}
+
+// holt-winters = seasonal indices keep updating (24+ months), seasonal-holt = fixed one-year profile (12-23), holt = trend only
+export type ForecastMethod = 'holt-winters' | 'seasonal-holt' | 'holt';
+
+export interface SOSForecastPoint {
+  period: string; // YYYY-MM
+  sos: number;
+  lower: number; // Confidence band, other brands held at their point forecast
+  upper: number;
+}
+
+export interface BrandSOSForecast {
+  brand: string;
+  isOwnBrand: boolean;
+  history: Array<{ period: string; sos: number }>;
+  forecast: SOSForecastPoint[];
+}
+
+// First forecast month in which a competitor currently behind us is projected ahead
+export interface SOSOvertake {
+  brand: string;
+  period: string;
+  competitorSOS: number;
+  ownSOS: number;
+}
+
+export interface SOSForecastResult {
+  method: ForecastMethod;
+  horizon: number; // Months ahead
+  confidenceLevel: number; // e.g. 0.8 for an 80% band
+  brands: BrandSOSForecast[]; // Own brand first, "Other" last
+  overtakes: SOSOvertake[];
+}
+
+// Metrics alert rules can watch, read from the project's snapshot history
+export type AlertMetric =
+  | 'sos'
+  | 'sov'
+  | 'gap'
+  | 'brandVolume' // Own-brand search volume
+  | 'competitorBrandVolume' // Per competitor brand keyword
+  | 'paidSov'
+  | 'youtubeSov'
+  | 'localSov'
+  | 'aiSov';
+
+export type AlertRuleType =
+  | 'threshold' // Latest value above / below a fixed value
+  | 'percentChange' // Latest value vs. the one `lookback` snapshots earlier
+  | 'outlier'; // Latest value's z-score against the previous `lookback` snapshots
+
+export type AlertDirection = 'above' | 'below' | 'either';
+
+// Where an alert goes besides the in-app inbox
+export type AlertChannel = 'webhook' | 'email';
+
+export interface AlertRuleInput {
+  name: string;
+  metric: AlertMetric;
+  subject: string; // Competitor keyword for competitorBrandVolume, "" = every competitor
+  type: AlertRuleType;
+  direction: AlertDirection;
+  value: number;
+  lookback: number;
+  channels: AlertChannel[];
+  enabled: boolean;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  projectId: string;
+}
+
+export interface MetricPoint {
+  capturedAt: string; // ISO date
+  value: number;
+}
+
+// A rule that fired on the latest point of a metric series
+export interface AlertTrigger {
+  ruleId: string;
+  metric: AlertMetric;
+  subject: string;
+  value: number;
+  baseline: number | null;
+  observedAt: string;
+  message: string;
+}
+
+export interface AlertDelivery {
+  channel: AlertChannel;
+  ok: boolean;
+  error: string | null;
+}
+
+export type AlertStatus = 'open' | 'acknowledged';
+
+// Inbox entry
+export interface AlertItem {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  projectId: string;
+  domain: string | null;
+  metric: AlertMetric;
+  subject: string;
+  value: number;
+  baseline: number | null;
+  message: string;
+  observedAt: string;
+  status: AlertStatus;
+  acknowledgedAt: string | null;
+  snoozedUntil: string | null;
+  deliveries: AlertDelivery[];
+  createdAt: string;
+}
+
+// Keyword pinned for daily rank tracking; the volume is the one it was pinned with
+export interface WatchedKeyword {
+  keyword: string;
+  searchVolume: number;
+}
+
+// One domain's live organic position for a watched keyword (null = not in the top 100)
+export interface RankCheck {
+  keyword: string;
+  domain: string;
+  position: number | null;
+  url: string | null;
+  checkedAt: string; // ISO date
+}
+
+export interface RankHistoryPoint {
+  date: string; // YYYY-MM-DD
+  positions: Record<string, number | null>; // domain -> position
+}
+
+export interface RankMover {
+  keyword: string;
+  searchVolume: number;
+  previous: number | null;
+  current: number | null;
+  change: number; // Positions gained, negative when lost; not ranking counts as position 101
+}
+
+export interface RankMovers {
+  since: string | null; // Day the latest positions are compared with
+  gainers: RankMover[];
+  losers: RankMover[];
+}
+
+// Each domain's SOV on the watched keywords checked that day
+export interface TrackedSOVPoint {
+  date: string;
+  keywords: number;
+  shares: Record<string, number>; // domain -> SOV %
+}
+
+export type SerpFeatureType = 'featured_snippet' | 'people_also_ask' | 'video' | 'images' | 'local_pack';
+
+// One placement inside a SERP feature - the snippet, a PAA answer, a carousel video, a pack listing
+export interface SerpFeatureSlot {
+  feature: SerpFeatureType;
+  owner: string | null; // Host the placement links to, null when it links nowhere
+  url: string | null;
+}
+
+// Features on a watched keyword's results page at one rank check
+export interface SerpFeatureCheck {
+  keyword: string;
+  features: SerpFeatureSlot[];
+  checkedAt: string; // ISO date
+}
+
+// Each domain's share of one feature's placements, weighted by keyword volume
+export interface SerpFeatureShare {
+  feature: SerpFeatureType;
+  keywords: number; // Watched keywords whose SERP shows the feature
+  searchVolume: number;
+  presence: number; // % of checked volume whose SERP shows the feature
+  shares: Record<string, number>; // domain -> % of the feature's placements
+}
+
+// A feature on a SERP where the domain ranks organically but holds no placement
+export interface SerpFeatureOpportunity {
+  keyword: string;
+  searchVolume: number;
+  feature: SerpFeatureType;
+  position: number; // Own organic position
+  holder: string | null; // Host with the most placements in the feature
+  message: string;
+  score: number; // Volume / position, higher first
+}
+
+export interface RankTrackingData {
+  projectId: string | null;
+  competitors: string[];
+  keywords: WatchedKeyword[];
+  checks: RankCheck[];
+  featureChecks: SerpFeatureCheck[];
+}
+
+export type AnswerSentiment = 'positive' | 'neutral' | 'negative';
+
+// Question put to an AI assistant, derived from a category's top keyword
+export interface AnswerEnginePrompt {
+  category: string;
+  keyword: string;
+  prompt: string;
+}
+
+export interface AnswerBrandMention {
+  brand: string;
+  rank: number; // Order of first mention in the answer, 1 = named first
+  sentiment: AnswerSentiment; // Tone of the sentences naming the brand
+}
+
+export interface AnswerEngineResult extends AnswerEnginePrompt {
+  answer: string;
+  mentions: AnswerBrandMention[]; // By rank
+}
+
+export interface AIBrandVisibility {
+  brand: string;
+  isOwnBrand: boolean;
+  mentions: number; // Answers naming the brand
+  mentionRate: number; // % of answers naming the brand
+  firstMentions: number; // Answers naming the brand before any other tracked brand
+  avgRank: number | null;
+  sentiment: Record<AnswerSentiment, number>; // Answers per tone
+  shareOfVoice: number; // % of all rank-weighted brand mentions
+}
+
+export interface AIVisibilityResponse {
+  provider: string;
+  model: string;
+  results: AnswerEngineResult[];
+  failedPrompts: AnswerEnginePrompt[]; // Asked but not answered in time; left out of the SOV
+  brands: AIBrandVisibility[]; // Own brand first
+  sov: {
+    byMentions: number; // Own answers-with-mention / all brand mentions
+    byRank: number; // Same, each mention weighted 1 / rank
+  };
+  timestamp: string;
+}
+
+// Channels analysed next to organic search, each with its own panel and SOV snapshot
+export type AnalysisChannel = 'paid' | 'youtube' | 'local' | 'ai';
+
+// Brand Context - Understanding the brand's industry and vertical
+export interface BrandContext {
+  brandName: string;
+  industry: string;
+  vertical: string;
+  productCategories: string[];
+  targetAudience: string;
+  competitorContext: string;
+  keyStrengths: string[];
+  marketPosition: string;
+  seoFocus: string[];
+}
+
+// Brand setup stored on a tracked project; until a brandContext is saved it is derived from the keywords
+export interface ProjectContext {
+  projectId: string;
+  brandName: string | null;
+  competitors: string[];
+  brandContext: BrandContext | null;
+}
+
+// Latest analysis of a channel stored on a tracked project, exactly as the channel's API returned it
+export interface SavedChannelAnalysis<T = unknown> {
+  channel: AnalysisChannel;
+  data: T;
+  updatedAt: string;
+}
+
+// Actionable insights stored on a project; the type lives with the client that generates them
+export interface SavedProjectInsights<T = unknown> {
+  insights: T;
+  updatedAt: string;
+}
+
+// Result discarded from a channel's analysis, e.g. a YouTube video about something else
+export interface DismissedItem {
+  itemId: string;
+  label: string | null;
+  dismissedAt: string;
+}
@@ -0,0 +1,52 @@
+/// <reference types="node" />
+import { DEFAULT_WORKSPACE_ID } from './constants.js';
+import { resolveSecret } from './credentials.js';
+
+/**
+ * Upstream API endpoints and credentials
+ * Server-only. Credentials are resolved per workspace through the vault in
+ * credentials.ts. Setting MOCK_API_URL (e.g. http://localhost:4010) points every
+ * DataForSEO, YouTube Data API and Anthropic call at the local mock server in
+ * mock/server.ts and lets routes run without real credentials.
+ */
+
+export function getMockApiUrl(): string | null {
+  const url = process.env.MOCK_API_URL?.trim();
+  return url ? url.replace(/\/+$/, '') : null;
+}
+
+export function getDataForSEOBaseUrl(): string {
+  const mock = getMockApiUrl();
+  return mock ? `${mock}/dataforseo/v3` : 'https://api.dataforseo.com/v3';
+}
+
+export function getYouTubeApiBaseUrl(): string {
+  const mock = getMockApiUrl();
+  return mock ? `${mock}/youtube/v3` : 'https://www.googleapis.com/youtube/v3';
+}
+
+// Anthropic SDK base URL; undefined leaves the SDK default
+export function getAnthropicBaseUrl(): string | undefined {
+  const mock = getMockApiUrl();
+  return mock ? `${mock}/anthropic` : undefined;
+}
+
+// Basic auth header value, or null when the workspace has no credentials and no mock is configured
+export async function getDataForSEOAuth(workspaceId: string = DEFAULT_WORKSPACE_ID): Promise<string | null> {
+  const resolved = await resolveSecret(workspaceId, 'dataforseo');
+  const { login, password } = resolved?.secret ?? (getMockApiUrl() ? { login: 'mock', password: 'mock' } : {});
+  if (!login || !password) return null;
+  return Buffer.from(`${login}:${password}`).toString('base64');
+}
+
+// Workspace YouTube Data API keys, in rotation order
+export async function getYouTubeApiKeys(workspaceId: string = DEFAULT_WORKSPACE_ID): Promise<string[]> {
+  const resolved = await resolveSecret(workspaceId, 'youtube');
+  if (resolved) return resolved.secret.apiKeys;
+  return getMockApiUrl() ? ['mock'] : [];
+}
+
+export async function getAnthropicApiKey(workspaceId: string = DEFAULT_WORKSPACE_ID): Promise<string | null> {
+  const resolved = await resolveSecret(workspaceId, 'anthropic');
+  return resolved?.secret.apiKey ?? (getMockApiUrl() ? 'mock' : null);
+}
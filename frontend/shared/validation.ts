@@ -0,0 +1,165 @@
+import type { BrandKeywordInput, RankedKeywordInput, CTRCurveDefinition } from './types.js';
+import { DESKTOP_CTR_MODEL } from './calculations.js';
+import { MAX_VARIANT_VOLUME_LOOKUPS } from './brandVariants.js';
+
+/**
+ * Shared Request Validation
+ * Input checks used by the API routes and by client-side imports
+ */
+
+export interface ValidationResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const DOMAIN_REGEX = /^(?:[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,}$/;
+
+export const VALID_LOCATION_CODES = new Set([
+  2276, 2840, 2826, 2250, 2724, 2380, 2528, 2056, 2040, 2756, 2616, 2752, 2578, 2208, 2246
+]);
+
+export const VALID_LANGUAGE_CODES = new Set([
+  'de', 'en', 'fr', 'es', 'it', 'nl', 'pl', 'sv', 'no', 'da', 'fi', 'pt'
+]);
+
+export const MAX_CURVE_POSITION = 100;
+
+export function validateDomain(domain: unknown): ValidationResult<string> {
+  if (typeof domain !== 'string') return { success: false, error: 'Domain must be a string' };
+  const cleaned = domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/.*$/, '').trim();
+  if (!cleaned) return { success: false, error: 'Domain is required' };
+  if (cleaned.length > 253) return { success: false, error: 'Domain is too long' };
+  if (!DOMAIN_REGEX.test(cleaned)) return { success: false, error: 'Invalid domain format' };
+  return { success: true, data: cleaned };
+}
+
+export function validateLocationCode(code: unknown): ValidationResult<number> {
+  if (typeof code !== 'number' || !Number.isInteger(code)) return { success: false, error: 'Location code must be an integer' };
+  if (!VALID_LOCATION_CODES.has(code)) return { success: false, error: `Invalid location code: ${code}` };
+  return { success: true, data: code };
+}
+
+export function validateLanguageCode(code: unknown): ValidationResult<string> {
+  if (typeof code !== 'string') return { success: false, error: 'Language code must be a string' };
+  const cleaned = code.toLowerCase().trim();
+  if (!VALID_LANGUAGE_CODES.has(cleaned)) return { success: false, error: `Invalid language code: ${code}` };
+  return { success: true, data: cleaned };
+}
+
+export function validateLimit(limit: unknown, max: number = 1000): ValidationResult<number> {
+  if (limit === undefined || limit === null) return { success: true, data: 100 };
+  if (typeof limit !== 'number' || !Number.isInteger(limit)) return { success: false, error: 'Limit must be an integer' };
+  if (limit < 1) return { success: false, error: 'Limit must be at least 1' };
+  if (limit > max) return { success: false, error: `Limit cannot exceed ${max}` };
+  return { success: true, data: limit };
+}
+
+export function validateCompetitors(competitors: unknown): ValidationResult<string[] | undefined> {
+  if (competitors === undefined || competitors === null) return { success: true, data: undefined };
+  if (!Array.isArray(competitors)) return { success: false, error: 'Competitors must be an array' };
+  if (competitors.length > 20) return { success: false, error: 'Maximum 20 custom competitors allowed' };
+  const cleaned: string[] = [];
+  for (const comp of competitors) {
+    if (typeof comp !== 'string') return { success: false, error: 'Each competitor must be a string' };
+    const trimmed = comp.trim().toLowerCase();
+    if (trimmed.length > 0 && trimmed.length <= 100) cleaned.push(trimmed);
+  }
+  return { success: true, data: cleaned.length > 0 ? cleaned : undefined };
+}
+
+// Brand industry and category names a default visibility panel is matched on
+export function validateIndustries(industries: unknown): ValidationResult<string[]> {
+  if (industries === undefined || industries === null) return { success: true, data: [] };
+  if (!Array.isArray(industries)) return { success: false, error: 'Industries must be an array' };
+  if (industries.length > 10) return { success: false, error: 'Maximum 10 industries allowed' };
+  const cleaned: string[] = [];
+  for (const industry of industries) {
+    if (typeof industry !== 'string') return { success: false, error: 'Each industry must be a string' };
+    const trimmed = industry.trim();
+    if (trimmed.length > 0 && trimmed.length <= 100) cleaned.push(trimmed);
+  }
+  return { success: true, data: cleaned };
+}
+
+// Reviewed brand variants to fetch volumes for
+export function validateVariantKeywords(keywords: unknown): ValidationResult<string[]> {
+  if (keywords === undefined || keywords === null) return { success: true, data: [] };
+  if (!Array.isArray(keywords)) return { success: false, error: 'Variant keywords must be an array' };
+  if (keywords.length > MAX_VARIANT_VOLUME_LOOKUPS) {
+    return { success: false, error: `Maximum ${MAX_VARIANT_VOLUME_LOOKUPS} variant keywords allowed` };
+  }
+  const cleaned = new Set<string>();
+  for (const keyword of keywords) {
+    if (typeof keyword !== 'string') return { success: false, error: 'Each variant keyword must be a string' };
+    const trimmed = keyword.trim().toLowerCase();
+    if (trimmed.length > 0 && trimmed.length <= 80) cleaned.add(trimmed);
+  }
+  return { success: true, data: [...cleaned] };
+}
+
+export function validateBrandKeywords(keywords: unknown): ValidationResult<BrandKeywordInput[]> {
+  if (!Array.isArray(keywords)) return { success: false, error: 'Brand keywords must be an array' };
+  if (keywords.length === 0) return { success: false, error: 'At least one brand keyword is required' };
+  if (keywords.length > 500) return { success: false, error: 'Maximum 500 brand keywords allowed' };
+  const validated: BrandKeywordInput[] = [];
+  for (let i = 0; i < keywords.length; i++) {
+    const kw = keywords[i];
+    if (typeof kw !== 'object' || kw === null) return { success: false, error: `Invalid keyword at index ${i}` };
+    if (typeof kw.keyword !== 'string' || kw.keyword.trim().length === 0) return { success: false, error: `Invalid keyword text at index ${i}` };
+    if (typeof kw.searchVolume !== 'number' || kw.searchVolume < 0) return { success: false, error: `Invalid search volume at index ${i}` };
+    if (typeof kw.isOwnBrand !== 'boolean') return { success: false, error: `Invalid isOwnBrand at index ${i}` };
+    validated.push({ keyword: kw.keyword.trim(), searchVolume: Math.floor(kw.searchVolume), isOwnBrand: kw.isOwnBrand });
+  }
+  return { success: true, data: validated };
+}
+
+export function validateRankedKeywords(keywords: unknown): ValidationResult<RankedKeywordInput[]> {
+  if (!Array.isArray(keywords)) return { success: false, error: 'Ranked keywords must be an array' };
+  if (keywords.length === 0) return { success: false, error: 'At least one ranked keyword is required' };
+  if (keywords.length > 1000) return { success: false, error: 'Maximum 1000 ranked keywords allowed' };
+  const validated: RankedKeywordInput[] = [];
+  for (let i = 0; i < keywords.length; i++) {
+    const kw = keywords[i];
+    if (typeof kw !== 'object' || kw === null) return { success: false, error: `Invalid keyword at index ${i}` };
+    if (typeof kw.keyword !== 'string' || kw.keyword.trim().length === 0) return { success: false, error: `Invalid keyword text at index ${i}` };
+    if (typeof kw.searchVolume !== 'number' || kw.searchVolume < 0) return { success: false, error: `Invalid search volume at index ${i}` };
+    if (typeof kw.position !== 'number' || kw.position < 1 || kw.position > 100) return { success: false, error: `Invalid position at index ${i}` };
+    validated.push({
+      keyword: kw.keyword.trim(),
+      searchVolume: Math.floor(kw.searchVolume),
+      position: Math.floor(kw.position),
+      url: typeof kw.url === 'string' ? kw.url.trim() : undefined,
+      serpFeatures: typeof kw.serpFeatures === 'object' && kw.serpFeatures !== null ? {
+        ads: kw.serpFeatures.ads === true,
+        featuredSnippet: kw.serpFeatures.featuredSnippet === true,
+        localPack: kw.serpFeatures.localPack === true
+      } : undefined,
+      actualClicks: typeof kw.actualClicks === 'number' && kw.actualClicks >= 0 ? kw.actualClicks : undefined
+    });
+  }
+  return { success: true, data: validated };
+}
+
+/**
+ * Validate a CTR model sent by the client or stored on a project
+ * Missing models resolve to the default desktop curve.
+ */
+export function validateCTRModel(model: unknown): ValidationResult<CTRCurveDefinition> {
+  if (model === undefined || model === null) return { success: true, data: DESKTOP_CTR_MODEL };
+  if (typeof model !== 'object') return { success: false, error: 'CTR model must be an object' };
+  const m = model as { id?: unknown; name?: unknown; curve?: unknown; defaultCTR?: unknown };
+  if (typeof m.id !== 'string' || typeof m.name !== 'string') return { success: false, error: 'CTR model needs an id and name' };
+  if (typeof m.curve !== 'object' || m.curve === null) return { success: false, error: 'CTR model curve must be an object' };
+  const curve: Record<number, number> = {};
+  for (const [key, value] of Object.entries(m.curve as Record<string, unknown>)) {
+    const position = Number(key);
+    if (!Number.isInteger(position) || position < 1 || position > MAX_CURVE_POSITION) {
+      return { success: false, error: `Invalid CTR curve position: ${key}` };
+    }
+    if (typeof value !== 'number' || value < 0 || value > 1) return { success: false, error: `Invalid CTR at position ${key}` };
+    curve[position] = value;
+  }
+  const defaultCTR = typeof m.defaultCTR === 'number' && m.defaultCTR >= 0 && m.defaultCTR <= 1 ? m.defaultCTR : 0;
+  return { success: true, data: { id: m.id, name: m.name, curve, defaultCTR } };
+}
@@ -0,0 +1,167 @@
+import type { BrandContext, VisibilityPanel, VisibilityPanelSummary } from './types.js';
+import type { DataForSEOClient, DataForSEOItemsResult } from './dataforseo.js';
+import { VISIBILITY_MAX_POSITION } from './constants.js';
+
+/**
+ * Visibility Index Panels
+ * Each panel is a fixed keyword set for one market and industry, weighted by search
+ * volume at publication. A domain is only scored on a panel of its own industry. Every domain in the market is scored on the same keywords,
+ * so the index is comparable across domains and over time. Panels are never edited
+ * in place: a changed keyword set ships as a new version next to the old one, and
+ * stored indices keep the version they were computed on.
+ */
+
+export const VISIBILITY_PANELS: VisibilityPanel[] = [
+  {
+    id: 'natural-cosmetics-de',
+    version: 1,
+    name: 'Naturkosmetik (DE)',
+    industry: 'Natural cosmetics',
+    industryTerms: ['cosmetic', 'kosmetik', 'beauty', 'skin care', 'hair care', 'makeup', 'personal care'],
+    locationCode: 2276,
+    languageCode: 'de',
+    publishedAt: '2026-10-01',
+    keywords: [
+      { keyword: 'naturkosmetik', weight: 49500 },
+      { keyword: 'naturkosmetik online shop', weight: 8100 },
+      { keyword: 'vegane kosmetik', weight: 9900 },
+      { keyword: 'bio kosmetik', weight: 8100 },
+      { keyword: 'zertifizierte naturkosmetik', weight: 1300 },
+      { keyword: 'kosmetik ohne mikroplastik', weight: 2400 },
+      { keyword: 'gesichtscreme', weight: 60500 },
+      { keyword: 'bio gesichtscreme', weight: 6600 },
+      { keyword: 'tagescreme', weight: 33100 },
+      { keyword: 'nachtcreme', weight: 22200 },
+      { keyword: 'feuchtigkeitscreme', weight: 18100 },
+      { keyword: 'anti aging creme', weight: 14800 },
+      { keyword: 'hyaluron creme', weight: 12100 },
+      { keyword: 'handcreme', weight: 22200 },
+      { keyword: 'bodylotion naturkosmetik', weight: 1600 },
+      { keyword: 'lippenpflege bio', weight: 1600 },
+      { keyword: 'sonnencreme', weight: 135000 },
+      { keyword: 'natürliche sonnencreme', weight: 3600 },
+      { keyword: 'mineralische sonnencreme', weight: 4400 },
+      { keyword: 'naturkosmetik shampoo', weight: 5400 },
+      { keyword: 'shampoo ohne silikone', weight: 14800 },
+      { keyword: 'bio shampoo', weight: 9900 },
+      { keyword: 'haarfarbe ohne chemie', weight: 5400 },
+      { keyword: 'deo ohne aluminium', weight: 27100 },
+      { keyword: 'naturkosmetik make up', weight: 2900 },
+      { keyword: 'mascara vegan', weight: 3600 },
+      { keyword: 'bb cream naturkosmetik', weight: 1900 }
+    ]
+  },
+  {
+    id: 'tires-us',
+    version: 1,
+    name: 'Tires (US)',
+    industry: 'Tires',
+    industryTerms: ['tire', 'tyre', 'reifen'],
+    locationCode: 2840,
+    languageCode: 'en',
+    publishedAt: '2026-10-01',
+    keywords: [
+      { keyword: 'tires', weight: 673000 },
+      { keyword: 'all season tires', weight: 165000 },
+      { keyword: 'winter tires', weight: 110000 },
+      { keyword: 'snow tires', weight: 90500 },
+      { keyword: 'all terrain tires', weight: 90500 },
+      { keyword: 'used tires', weight: 110000 },
+      { keyword: 'cheap tires', weight: 74000 },
+      { keyword: 'truck tires', weight: 60500 },
+      { keyword: 'tire sizes', weight: 49500 },
+      { keyword: 'best all season tires', weight: 40500 },
+      { keyword: 'tire pressure', weight: 40500 },
+      { keyword: 'tire rotation', weight: 33100 },
+      { keyword: 'best tires', weight: 27100 },
+      { keyword: 'mud tires', weight: 27100 },
+      { keyword: 'run flat tires', weight: 22200 },
+      { keyword: 'tire brands', weight: 22200 },
+      { keyword: 'suv tires', weight: 14800 },
+      { keyword: 'performance tires', weight: 12100 },
+      { keyword: 'tire tread depth', weight: 12100 },
+      { keyword: 'touring tires', weight: 8100 },
+      { keyword: 'tire warranty', weight: 4400 }
+    ]
+  }
+];
+
+const toSummary = ({ keywords, ...panel }: VisibilityPanel): VisibilityPanelSummary => ({
+  ...panel,
+  keywordCount: keywords.length
+});
+
+/**
+ * Latest version of every panel, optionally only those for one market
+ */
+export function listVisibilityPanels(locationCode?: number): VisibilityPanelSummary[] {
+  const latest = new Map<string, VisibilityPanel>();
+  for (const panel of VISIBILITY_PANELS) {
+    if (locationCode !== undefined && panel.locationCode !== locationCode) continue;
+    const current = latest.get(panel.id);
+    if (!current || panel.version > current.version) latest.set(panel.id, panel);
+  }
+  return [...latest.values()].map(toSummary);
+}
+
+/**
+ * Look up a panel version; without a version the latest one is returned
+ */
+export function getVisibilityPanel(id: string, version?: number): VisibilityPanel | null {
+  const versions = VISIBILITY_PANELS.filter(p => p.id === id);
+  if (version !== undefined) return versions.find(p => p.version === version) ?? null;
+  return versions.reduce<VisibilityPanel | null>((latest, p) => (!latest || p.version > latest.version ? p : latest), null);
+}
+
+/**
+ * The panel a domain is scored on when none was chosen: the market's panel whose industry
+ * terms appear in the brand's industry or categories (e.g. "Skin Care" for the cosmetics
+ * panel). Null when none fits - a panel of another industry would score the domain on
+ * keywords it never targets.
+ */
+export function getDefaultVisibilityPanel(locationCode: number, industries: string[]): VisibilityPanel | null {
+  const names = industries.map(i => i.toLowerCase());
+  const match = listVisibilityPanels(locationCode)
+    .find(panel => panel.industryTerms.some(term => names.some(name => name.includes(term))));
+  return match ? getVisibilityPanel(match.id) : null;
+}
+
+// The names a brand context offers for panel matching: its industry and product categories
+export function getBrandIndustries(context: Pick<BrandContext, 'industry' | 'productCategories'> | null | undefined): string[] {
+  if (!context) return [];
+  return [context.industry, ...(context.productCategories ?? [])].filter((name): name is string => typeof name === 'string');
+}
+
+interface PanelRankingItem {
+  keyword_data: { keyword: string };
+  ranked_serp_element: { serp_item: { rank_group: number } };
+}
+
+/**
+ * Fetch a domain's organic positions for the panel keywords
+ * Server-only. Keywords the domain doesn't rank for in the top 100 are absent.
+ */
+export async function fetchPanelRankings(
+  dataforseo: DataForSEOClient,
+  domain: string,
+  panel: VisibilityPanel
+): Promise<Array<{ keyword: string; position: number }>> {
+  const data = await dataforseo.post<DataForSEOItemsResult<PanelRankingItem>>('dataforseo_labs/google/ranked_keywords/live', [{
+    target: domain,
+    location_code: panel.locationCode,
+    language_code: panel.languageCode,
+    item_types: ['organic'],
+    limit: 1000,
+    filters: [
+      ['keyword_data.keyword', 'in', panel.keywords.map(k => k.keyword)],
+      'and',
+      ['ranked_serp_element.serp_item.rank_group', '<=', VISIBILITY_MAX_POSITION]
+    ]
+  }]);
+
+  const items: PanelRankingItem[] = data.tasks?.[0]?.result?.[0]?.items || [];
+  return items.map(item => ({
+    keyword: item.keyword_data.keyword,
+    position: item.ranked_serp_element.serp_item.rank_group
+  }));
+}
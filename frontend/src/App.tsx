@@ -1,17 +1,55 @@
 import { useState, useEffect, useMemo } from 'react';
-import { MetricCard, KeywordTable, TrendsPanel, MethodologyPage, FAQ, ProjectCard, AnalysisForm, CategoryBreakdownPanel, CompetitorStrengthPanel } from './components';
+import { MetricCard, KeywordTable, TrendsPanel, SnapshotHistoryPanel, CTRModelSelector, CacheStatusBadge, MethodologyPage, FAQ, ProjectCard, AnalysisForm, CategoryBreakdownPanel, CompetitorStrengthPanel, ContentGapsPanel, MultiMarketPanel, CredentialSettingsPanel, BrandVariantReviewPanel, MarketShareModelPanel, ScenarioPlannerPanel, SearchConsolePanel, ConversionDataPanel, KeywordImportPanel, RankTrackingPanel, AIVisibilityPanel, AlertInbox, AlertRulesPanel } from './components';
 import { OpportunitiesPanel } from './components/OpportunitiesPanel';
 import { YouTubeSOVPanel } from './components/YouTubeSOVPanel';
 import { GoogleMapsPanel } from './components/GoogleMapsPanel';
-import type { BrandKeyword, RankedKeyword, SOSResult, SOVResult, GrowthGapResult, Project, ActionableInsights, BrandContext, Opportunity } from './types';
-import { calculateMetrics, getRankedKeywords, getBrandKeywords, getTrends, exportToCSV } from './services/api';
+import type { BrandKeyword, RankedKeyword, SOSResult, SOVResult, GrowthGapResult, Project, ActionableInsights, BrandContext, Opportunity, CTRModel, CacheInfo, ApiCostSummary, CategoryRule, MarketConfig, MultiMarketAnalysis, BrandVariantSet, SOSVariant, VisibilityIndexResult, VisibilityPanelSummary, SearchConsoleImport, ConversionData, KeywordImportConfig } from './types';
+import { calculateMetrics, getRankedKeywords, getBrandKeywords, getTrends, getApiCosts, getVisibilityIndex, exportToCSV } from './services/api';
 import { getProjects, saveProject, deleteProject } from './services/projectStorage';
+import { loadProjectContext, storeProjectContext, storeProjectInsights } from './services/projectSync';
+import { getCustomCTRModels, saveCustomCTRModel, deleteCustomCTRModel, getCTRModelSelection, saveCTRModelSelection } from './services/ctrModelStorage';
+import type { CTRModelSelection } from './services/ctrModelStorage';
+import { getCategoryRules, saveCategoryRules } from './services/taxonomyStorage';
+import { getBrandVariantReview } from './services/brandVariantStorage';
+import { getSearchConsoleImport, saveSearchConsoleImport } from './services/searchConsoleStorage';
+import { getConversionData, saveConversionData } from './services/conversionStorage';
+import { runMultiMarketAnalysis } from './services/multiMarket';
 import { useTheme } from './contexts/ThemeContext';
 import type { TrendsData } from './services/api';
-import { generateActionableInsights } from './lib/actionableInsights';
+import { deriveBrandContext, generateActionableInsights } from './lib/actionableInsights';
+import { calculateSOS, calculateSOV, calculateGrowthGap } from './lib/calculations';
+import { getCTRModel } from './lib/ctrModels';
+import { applySearchConsoleClicks } from './lib/searchConsole';
+import { createRevenueModel, formatRevenue } from './lib/conversions';
+import { DEFAULT_CTR_MODEL_ID } from './config';
+import { mergeCacheInfo } from '../shared/cache';
+import { applyReviewVolumes, buildBrandKeywords, buildReviewedBrandKeywords, getAcceptedVariantKeywords } from '../shared/brandVariants';
+import { getBrandIndustries } from '../shared/visibilityPanels';
+import { getWorkspaceHeaders } from './services/workspaceStorage';
+
+type ViewMode = 'dashboard' | 'analysis' | 'project' | 'markets';
+const SOS_VARIANT_LABELS: Record<SOSVariant, string> = {
+  current: 'Current',
+  rolling3: '3-month rolling',
+  rolling12: '12-month rolling',
+  seasonallyAdjusted: 'Seasonally adjusted'
+};
+
+type AnalysisTab = 'overview' | 'opportunities' | 'categories' | 'competitors' | 'contentGaps' | 'youtube' | 'localSeo' | 'aiVisibility' | 'marketShare' | 'scenarios' | 'searchConsole' | 'conversions' | 'rankTracking';
+
+interface AnalyzeConfig {
+  domain: string;
+  locationCode: number;
+  locationName: string;
+  languageCode: string;
+  customCompetitors?: string[];
+}
 
-type ViewMode = 'dashboard' | 'analysis' | 'project';
-type AnalysisTab = 'overview' | 'opportunities' | 'categories' | 'competitors' | 'youtube' | 'localSeo';
+interface MultiMarketConfig {
+  domain: string;
+  markets: MarketConfig[];
+  customCompetitors?: string[];
+}
 
 function App() {
   const { toggleTheme, isDark } = useTheme();
@@ -23,10 +61,15 @@ function App() {
 
   // Analysis state
   const [brandKeywords, setBrandKeywords] = useState<BrandKeyword[]>([]);
+  // The stored brand variant review with the volumes of the last analysis
+  const [brandVariantSets, setBrandVariantSets] = useState<BrandVariantSet[]>([]);
   const [rankedKeywords, setRankedKeywords] = useState<RankedKeyword[]>([]);
   const [sosResult, setSosResult] = useState<SOSResult | null>(null);
   const [sovResult, setSovResult] = useState<SOVResult | null>(null);
   const [gapResult, setGapResult] = useState<GrowthGapResult | null>(null);
+  const [visibility, setVisibility] = useState<VisibilityIndexResult | null>(null);
+  const [visibilityPanels, setVisibilityPanels] = useState<VisibilityPanelSummary[]>([]);
+  const [visibilityLoading, setVisibilityLoading] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [brandName, setBrandName] = useState<string>('');
@@ -34,16 +77,63 @@ function App() {
   const [trendsLoading, setTrendsLoading] = useState(false);
   const [trendsError, setTrendsError] = useState<string | null>(null);
   const [showMethodology, setShowMethodology] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const [currentDomain, setCurrentDomain] = useState<string>('');
   const [currentLocation, setCurrentLocation] = useState<{ code: number; name: string }>({ code: 2276, name: 'Germany' });
   const [currentLanguage, setCurrentLanguage] = useState<string>('de');
   const [actualCompetitors, setActualCompetitors] = useState<string[]>([]);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
+  // Multi-market comparison
+  const [multiMarketAnalysis, setMultiMarketAnalysis] = useState<MultiMarketAnalysis | null>(null);
+  const [multiMarketProgress, setMultiMarketProgress] = useState<{ completed: number; total: number; current: MarketConfig | null } | null>(null);
+
+  // DataForSEO cache status and spend for the current analysis
+  const [lastAnalyzeConfig, setLastAnalyzeConfig] = useState<AnalyzeConfig | null>(null);
+  const [analysisCache, setAnalysisCache] = useState<CacheInfo | null>(null);
+  const [apiCosts, setApiCosts] = useState<ApiCostSummary | null>(null);
+
   // Custom metric overrides from table filters
   const [customSOS, setCustomSOS] = useState<{ sos: number; brandVolume: number; totalVolume: number } | null>(null);
   const [customSOV, setCustomSOV] = useState<{ sov: number; visibleVolume: number; totalVolume: number } | null>(null);
 
+  // Which SOS figure drives the headline card; history-based variants come from the trends data
+  const [sosVariant, setSosVariant] = useState<SOSVariant>('current');
+
+  // CTR model used for SOV
+  const [customCTRModels, setCustomCTRModels] = useState<CTRModel[]>(() => getCustomCTRModels());
+  const [ctrSelection, setCtrSelection] = useState<CTRModelSelection>(
+    () => getCTRModelSelection() ?? { modelId: DEFAULT_CTR_MODEL_ID, applySerpAdjustments: false }
+  );
+  const ctrModel = getCTRModel(ctrSelection.modelId, customCTRModels);
+
+  // Per-project category taxonomy, keyed by domain
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>([]);
+  useEffect(() => {
+    setCategoryRules(getCategoryRules(currentDomain));
+  }, [currentDomain]);
+
+  const handleCategoryRulesChange = (rules: CategoryRule[]) => {
+    setCategoryRules(saveCategoryRules(currentDomain, rules));
+  };
+
+  // Search Console export for the current domain and market
+  const [searchConsole, setSearchConsole] = useState<SearchConsoleImport | null>(null);
+  useEffect(() => {
+    setSearchConsole(getSearchConsoleImport(currentDomain, currentLocation.code));
+  }, [currentDomain, currentLocation.code]);
+
+  // Analytics conversion data for the current domain and market, to value opportunities by revenue
+  const [conversionData, setConversionData] = useState<ConversionData | null>(null);
+  useEffect(() => {
+    setConversionData(getConversionData(currentDomain, currentLocation.code));
+  }, [currentDomain, currentLocation.code]);
+  const revenueModel = useMemo(() => conversionData ? createRevenueModel(conversionData) : null, [conversionData]);
+
+  const handleConversionDataChange = (data: ConversionData | null) => {
+    setConversionData(saveConversionData(currentDomain, currentLocation.code, data));
+  };
+
   // Load projects on mount
   useEffect(() => {
     setProjects(getProjects());
@@ -54,6 +144,22 @@ function App() {
     setCustomSOS({ sos, brandVolume, totalVolume });
   };
 
+  // Recalculate SOS and the gap locally from the accepted brand variants
+  const handleApplyBrandVariants = (sets: BrandVariantSet[]) => {
+    const keywords = buildBrandKeywords(sets);
+    if (keywords.length === 0) return;
+
+    const sos = calculateSOS(keywords);
+    setBrandVariantSets(sets);
+    setBrandKeywords(keywords);
+    setSosResult(sos);
+    setCustomSOS(null);
+    setTrendsData(null);
+    if (sovResult) {
+      setGapResult(calculateGrowthGap(sos.shareOfSearch, sovResult.shareOfVoice));
+    }
+  };
+
   // Handler for SOV changes from KeywordTable category filter
   const handleSOVChange = (filteredSOV: number, visibleVolume: number, totalVolume: number) => {
     if (filteredSOV === 0 && visibleVolume === 0 && totalVolume === 0) {
@@ -63,51 +169,67 @@ function App() {
     }
   };
 
+  // Recalculate SOV and the gap locally from the given keywords and CTR settings
+  const recalculateSOV = (keywords: RankedKeyword[], model: CTRModel, applySerpAdjustments: boolean) => {
+    if (!sosResult || keywords.length === 0) return;
+
+    const sov = calculateSOV(keywords, { model, applySerpAdjustments });
+    setSovResult(sov);
+    setGapResult(calculateGrowthGap(sosResult.shareOfSearch, sov.shareOfVoice));
+    setRankedKeywords(sov.keywordBreakdown);
+    setCustomSOV(null);
+  };
+
+  // Recalculate SOV and the gap locally when the CTR model changes
+  const applyCTRSelection = (selection: CTRModelSelection, models: CTRModel[] = customCTRModels) => {
+    setCtrSelection(selection);
+    saveCTRModelSelection(selection);
+    recalculateSOV(rankedKeywords, getCTRModel(selection.modelId, models), selection.applySerpAdjustments);
+  };
+
+  // Real clicks from a new or removed Search Console export replace or restore the CTR estimates
+  const handleSearchConsoleChange = (data: SearchConsoleImport | null) => {
+    setSearchConsole(saveSearchConsoleImport(currentDomain, currentLocation.code, data));
+    recalculateSOV(applySearchConsoleClicks(rankedKeywords, data), ctrModel, ctrSelection.applySerpAdjustments);
+  };
+
+  const handleUploadCTRModel = (model: CTRModel) => {
+    const models = saveCustomCTRModel(model);
+    setCustomCTRModels(models);
+    applyCTRSelection({ ...ctrSelection, modelId: model.id }, models);
+  };
+
+  const handleDeleteCTRModel = (modelId: string) => {
+    const models = deleteCustomCTRModel(modelId);
+    setCustomCTRModels(models);
+    applyCTRSelection({ ...ctrSelection, modelId: DEFAULT_CTR_MODEL_ID }, models);
+  };
+
   // Calculate effective metrics
-  const effectiveSOS = customSOS?.sos ?? sosResult?.shareOfSearch ?? 0;
+  const variantSOS = sosVariant !== 'current' ? trendsData?.seasonalSOS.latest[sosVariant] ?? null : null;
+  const effectiveSOS = variantSOS?.sos ?? customSOS?.sos ?? sosResult?.shareOfSearch ?? 0;
   const effectiveSOV = customSOV?.sov ?? sovResult?.shareOfVoice ?? 0;
   const effectiveGap = Math.round((effectiveSOV - effectiveSOS) * 10) / 10;
 
-  // Create brand context for tailored recommendations
+  // Create brand context for tailored recommendations; a context saved on the tracked project wins
+  const [savedBrandContext, setSavedBrandContext] = useState<BrandContext | null>(null);
   const brandContext: BrandContext | undefined = useMemo(() => {
     if (!brandName) return undefined;
-
-    // Detect industry from ranked keywords categories
-    const categories = rankedKeywords
-      .map(k => k.category)
-      .filter((c): c is string => !!c);
-    const categoryFreq = categories.reduce((acc, cat) => {
-      acc[cat] = (acc[cat] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    const topCategories = Object.entries(categoryFreq)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map(([cat]) => cat);
-
-    // Detect industry from most common category
-    const primaryCategory = topCategories[0] || 'General';
-
-    return {
-      brandName,
-      industry: primaryCategory,
-      vertical: primaryCategory,
-      productCategories: topCategories,
-      targetAudience: 'General audience',
-      competitorContext: actualCompetitors.length > 0
-        ? `Competing with ${actualCompetitors.join(', ')}`
-        : 'Competitor landscape not specified',
-      keyStrengths: [],
-      marketPosition: 'Challenger',
-      seoFocus: topCategories.slice(0, 3),
-    };
-  }, [brandName, rankedKeywords, actualCompetitors]);
+    return savedBrandContext ?? deriveBrandContext(brandName, rankedKeywords, actualCompetitors);
+  }, [brandName, rankedKeywords, actualCompetitors, savedBrandContext]);
 
   // Generate actionable insights with brand context
   const actionableInsights: ActionableInsights | null = useMemo(() => {
     if (rankedKeywords.length === 0 || brandKeywords.length === 0) return null;
-    return generateActionableInsights(rankedKeywords, brandKeywords, brandContext);
-  }, [rankedKeywords, brandKeywords, brandContext]);
+    return generateActionableInsights(rankedKeywords, brandKeywords, brandContext, categoryRules, revenueModel);
+  }, [rankedKeywords, brandKeywords, brandContext, categoryRules, revenueModel]);
+
+  // Keep the latest insights on the domain's workspace project. Not while an analysis
+  // runs - the domain switches before the previous domain's keywords are replaced.
+  useEffect(() => {
+    if (!actionableInsights || isLoading) return;
+    storeProjectInsights(currentDomain, currentLocation.code, actionableInsights);
+  }, [actionableInsights, isLoading, currentDomain, currentLocation.code]);
 
   // State for opportunities with AI-generated reasoning
   const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
@@ -137,7 +259,7 @@ function App() {
 
         const response = await fetch('/api/generate-reasoning', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
           body: JSON.stringify({
             opportunities: batch,
             brandContext: context
@@ -158,8 +280,8 @@ function App() {
 
       console.log('[AI Reasoning] Total reasonings received:', Object.keys(allReasonings).length);
 
-      // Update opportunities with AI-generated reasoning
-      setOpportunities(opps.map(opp => ({
+      // Update opportunities with AI-generated reasoning; they may have been re-scored meanwhile
+      setOpportunities(current => current.map(opp => ({
         ...opp,
         reasoning: allReasonings[opp.keyword] || opp.reasoning,
         isLoading: false
@@ -169,7 +291,7 @@ function App() {
     } catch (err) {
       console.error('[AI Reasoning] Failed to generate:', err);
       // Clear loading state on error
-      setOpportunities(opps.map(opp => ({ ...opp, isLoading: false })));
+      setOpportunities(current => current.map(opp => ({ ...opp, isLoading: false })));
     } finally {
       setIsLoadingReasoning(false);
     }
@@ -201,22 +323,25 @@ function App() {
         // Auto-generate AI reasoning
         generateAIReasoning(newOpps, brandContext);
       } else {
+        // Same keywords, new scores (e.g. conversion data changed): keep the reasoning already generated
         console.log('[AI Reasoning Effect] Skipping - same analysis ID');
+        setOpportunities(current => {
+          const previous = new Map(current.map(opp => [`${opp.type}|${opp.keyword}`, opp]));
+          return actionableInsights.opportunities.map(opp => {
+            const existing = previous.get(`${opp.type}|${opp.keyword}`);
+            return existing ? { ...opp, reasoning: existing.reasoning, isLoading: existing.isLoading } : opp;
+          });
+        });
       }
     }
   }, [actionableInsights, brandContext, lastAnalysisId]);
 
   // Handle new analysis
-  const handleAnalyze = async (config: {
-    domain: string;
-    locationCode: number;
-    locationName: string;
-    languageCode: string;
-    customCompetitors?: string[];
-  }) => {
+  const handleAnalyze = async (config: AnalyzeConfig, forceRefresh = false) => {
     try {
       setIsLoading(true);
       setError(null);
+      setLastAnalyzeConfig(config);
       setTrendsData(null);
       setCustomSOS(null);
       setCustomSOV(null);
@@ -224,31 +349,73 @@ function App() {
       setCurrentLocation({ code: config.locationCode, name: config.locationName });
       setCurrentLanguage(config.languageCode);
 
+      setVisibility(null);
+      setVisibilityPanels([]);
+      setBrandVariantSets([]);
+
+      // Accepted brand variants are looked up again, so the review follows this month's volumes
+      const variantReview = getBrandVariantReview(config.domain, config.locationCode);
+
       const [rankedData, brandData] = await Promise.all([
         getRankedKeywords(
           config.domain,
           config.locationCode,
           config.languageCode,
-          100
+          100,
+          forceRefresh
         ),
         getBrandKeywords(
           config.domain,
           config.locationCode,
           config.languageCode,
-          config.customCompetitors
+          config.customCompetitors,
+          forceRefresh,
+          getAcceptedVariantKeywords(variantReview)
         )
       ]);
 
-      setBrandKeywords(brandData.brandKeywords);
+      getApiCosts(config.domain, config.locationCode)
+        .then(setApiCosts)
+        .catch(() => setApiCosts(null));
+
+      // A reviewed brand variant set for this market replaces the default brand keywords.
+      // Brands dropped from the competitors since are left out; ones added since use their defaults.
+      const competitors = brandData.competitors || [];
+      const reviewedSets = applyReviewVolumes(variantReview, brandData.variantVolumes, [brandData.brandName, ...competitors]);
+      const reviewedKeywords = buildReviewedBrandKeywords(reviewedSets, brandData.brandKeywords, competitors);
+      const analysisBrandKeywords = reviewedKeywords.length > 0 ? reviewedKeywords : brandData.brandKeywords;
+      setBrandVariantSets(reviewedSets);
+
+      setBrandKeywords(analysisBrandKeywords);
       setBrandName(brandData.brandName);
       setActualCompetitors(brandData.competitors || []);
+      setSavedBrandContext(null);
 
-      const calcResults = await calculateMetrics(brandData.brandKeywords, rankedData.results);
+      const calcResults = await calculateMetrics(
+        analysisBrandKeywords,
+        applySearchConsoleClicks(rankedData.results, getSearchConsoleImport(config.domain, config.locationCode)),
+        ctrModel,
+        ctrSelection.applySerpAdjustments
+      );
       setSosResult(calcResults.sos);
       setSovResult(calcResults.sov);
       setGapResult(calcResults.gap);
       setRankedKeywords(calcResults.sov.keywordBreakdown);
 
+      // The domain is scored on the market's panel for its industry, read from the categories it
+      // ranks in. The index is an extra reading, so a failed panel fetch never blocks the analysis.
+      const derivedContext = deriveBrandContext(brandData.brandName, calcResults.sov.keywordBreakdown, brandData.competitors || []);
+      const visibilityData = await getVisibilityIndex(
+        config.domain,
+        config.locationCode,
+        undefined,
+        forceRefresh,
+        getBrandIndustries(derivedContext)
+      ).catch(() => null);
+      setAnalysisCache(mergeCacheInfo([rankedData.cache, brandData.cache, visibilityData?.cache].filter((c): c is CacheInfo => !!c)));
+      setVisibility(visibilityData?.visibility ?? null);
+      setVisibilityPanels(visibilityData?.panels ?? []);
+
       saveProject({
         domain: config.domain,
         brandName: brandData.brandName,
@@ -259,9 +426,15 @@ function App() {
         sos: calcResults.sos,
         sov: calcResults.sov,
         gap: calcResults.gap,
-        brandKeywords: brandData.brandKeywords,
+        visibility: visibilityData?.visibility ?? null,
+        brandKeywords: analysisBrandKeywords,
         rankedKeywords: calcResults.sov.keywordBreakdown
       });
+      storeProjectContext(config.domain, config.locationCode, {
+        brandName: brandData.brandName,
+        competitors: brandData.competitors || [],
+        brandContext: derivedContext
+      });
 
       setProjects(getProjects());
       setViewMode('analysis');
@@ -272,23 +445,129 @@ function App() {
     }
   };
 
+  // Create a project from rank-tracker exports; the keywords go through the same calculation as fetched data
+  const handleImportKeywords = async (config: KeywordImportConfig) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setLastAnalyzeConfig(null);
+      setTrendsData(null);
+      setCustomSOS(null);
+      setCustomSOV(null);
+      setCurrentDomain(config.domain);
+      setCurrentLocation({ code: config.locationCode, name: config.locationName });
+      setCurrentLanguage(config.languageCode);
+      setVisibility(null);
+      setVisibilityPanels([]);
+      setBrandVariantSets([]);
+      setAnalysisCache(null);
+      setApiCosts(null);
+
+      const calcResults = await calculateMetrics(
+        config.brandKeywords,
+        applySearchConsoleClicks(config.rankedKeywords, getSearchConsoleImport(config.domain, config.locationCode)),
+        ctrModel,
+        ctrSelection.applySerpAdjustments
+      );
+
+      setBrandKeywords(config.brandKeywords);
+      setBrandName(config.brandName);
+      setActualCompetitors(config.competitors);
+      setSavedBrandContext(null);
+      setSosResult(calcResults.sos);
+      setSovResult(calcResults.sov);
+      setGapResult(calcResults.gap);
+      setRankedKeywords(calcResults.sov.keywordBreakdown);
+
+      saveProject({
+        domain: config.domain,
+        brandName: config.brandName,
+        locationCode: config.locationCode,
+        locationName: config.locationName,
+        languageCode: config.languageCode,
+        competitors: config.competitors,
+        sos: calcResults.sos,
+        sov: calcResults.sov,
+        gap: calcResults.gap,
+        visibility: null,
+        brandKeywords: config.brandKeywords,
+        rankedKeywords: calcResults.sov.keywordBreakdown
+      });
+      storeProjectContext(config.domain, config.locationCode, {
+        brandName: config.brandName,
+        competitors: config.competitors,
+        brandContext: deriveBrandContext(config.brandName, calcResults.sov.keywordBreakdown, config.competitors)
+      });
+
+      setProjects(getProjects());
+      setViewMode('analysis');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import keyword data');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Run the same pipeline for every selected market and compare them
+  const handleAnalyzeMarkets = async (config: MultiMarketConfig) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setMultiMarketAnalysis(null);
+      setMultiMarketProgress({ completed: 0, total: config.markets.length, current: null });
+      setCurrentDomain(config.domain);
+      setViewMode('markets');
+
+      const analysis = await runMultiMarketAnalysis(config.domain, config.markets, {
+        ctrModel,
+        applySerpAdjustments: ctrSelection.applySerpAdjustments,
+        customCompetitors: config.customCompetitors,
+        categoryRules: getCategoryRules(config.domain),
+        onProgress: (completed, total, current) => setMultiMarketProgress({ completed, total, current })
+      });
+      setMultiMarketAnalysis(analysis);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare markets');
+      setViewMode('dashboard');
+    } finally {
+      setIsLoading(false);
+      setMultiMarketProgress(null);
+    }
+  };
+
   const handleViewProject = (project: Project) => {
     setBrandKeywords(project.brandKeywords);
     setRankedKeywords(project.rankedKeywords);
     setSosResult(project.sos);
     setSovResult(project.sov);
     setGapResult(project.gap);
+    setVisibility(project.visibility ?? null);
+    setVisibilityPanels([]);
+    setBrandVariantSets([]);
     setBrandName(project.brandName);
     setCurrentDomain(project.domain);
     setCurrentLocation({ code: project.locationCode, name: project.locationName });
     setCurrentLanguage(project.languageCode);
     setActualCompetitors(project.competitors);
+    setSavedBrandContext(null);
     setTrendsData(null);
     setCustomSOS(null);
     setCustomSOV(null);
+    setLastAnalyzeConfig(null);
+    setAnalysisCache(null);
+    setApiCosts(null);
     setLastAnalysisId(''); // Reset to trigger AI reasoning for this project
     setReasoningGenerated(false);
     setViewMode('project');
+    getApiCosts(project.domain, project.locationCode)
+      .then(setApiCosts)
+      .catch(() => setApiCosts(null));
+    // The tracked project holds the latest competitors and brand context from any device
+    loadProjectContext(project.domain, project.locationCode).then(context => {
+      if (!context) return;
+      if (context.competitors.length > 0) setActualCompetitors(context.competitors);
+      setSavedBrandContext(context.brandContext);
+    });
   };
 
   const handleDeleteProject = (projectId: string) => {
@@ -301,14 +580,38 @@ function App() {
     setSosResult(null);
     setSovResult(null);
     setGapResult(null);
+    setVisibility(null);
+    setVisibilityPanels([]);
     setBrandKeywords([]);
     setRankedKeywords([]);
     setTrendsData(null);
+    setAnalysisCache(null);
+    setApiCosts(null);
+    setMultiMarketAnalysis(null);
     setError(null);
     setMobileMenuOpen(false);
   };
 
-  const handleFetchTrends = async () => {
+  // Re-score the domain on another of the market's visibility panels
+  const handleVisibilityPanelChange = async (panelId: string) => {
+    if (!currentDomain) return;
+    setVisibilityLoading(true);
+    try {
+      const data = await getVisibilityIndex(currentDomain, currentLocation.code, panelId);
+      setVisibility(data.visibility);
+      setVisibilityPanels(data.panels);
+    } catch (err) {
+      console.error('Failed to load visibility index:', err);
+    } finally {
+      setVisibilityLoading(false);
+    }
+  };
+
+  const handleRefreshAnalysis = () => {
+    if (lastAnalyzeConfig) handleAnalyze(lastAnalyzeConfig, true);
+  };
+
+  const handleFetchTrends = async (forceRefresh = false) => {
     if (!currentDomain) return;
 
     try {
@@ -318,7 +621,10 @@ function App() {
         currentDomain,
         currentLocation.code,
         currentLanguage,
-        actualCompetitors.length > 0 ? actualCompetitors : undefined
+        actualCompetitors.length > 0 ? actualCompetitors : undefined,
+        ctrModel,
+        forceRefresh,
+        brandKeywords.length > 0 ? brandKeywords : undefined
       );
       setTrendsData(trends);
     } catch (err) {
@@ -329,6 +635,14 @@ function App() {
     }
   };
 
+  // History-based variants need the monthly data from trends, so load it on first use
+  const handleSOSVariantChange = (variant: SOSVariant) => {
+    setSosVariant(variant);
+    if (variant !== 'current' && !trendsData && !trendsLoading) {
+      handleFetchTrends();
+    }
+  };
+
   const handleExport = () => {
     if (sosResult && sovResult && gapResult) {
       exportToCSV(
@@ -405,7 +719,10 @@ function App() {
       <div className="grid lg:grid-cols-3 gap-6 lg:gap-8">
         {/* Left Column - New Analysis Form */}
         <div className="lg:col-span-1 order-1 lg:order-1">
-          <AnalysisForm onAnalyze={handleAnalyze} isLoading={isLoading} />
+          <AnalysisForm onAnalyze={handleAnalyze} onAnalyzeMarkets={handleAnalyzeMarkets} isLoading={isLoading} />
+          <div className="mt-6">
+            <KeywordImportPanel onImport={handleImportKeywords} isLoading={isLoading} />
+          </div>
         </div>
 
         {/* Right Column - Projects */}
@@ -488,6 +805,15 @@ function App() {
       ),
       badge: actionableInsights?.competitorStrengths.length
     },
+    {
+      id: 'contentGaps',
+      label: 'Content Gaps',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        </svg>
+      )
+    },
     {
       id: 'youtube',
       label: 'YouTube',
@@ -506,10 +832,87 @@ function App() {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
         </svg>
       )
+    },
+    {
+      id: 'aiVisibility',
+      label: 'AI Answers',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+        </svg>
+      )
+    },
+    {
+      id: 'marketShare',
+      label: 'Market Share',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+        </svg>
+      )
+    },
+    {
+      id: 'scenarios',
+      label: 'What-If',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+        </svg>
+      )
+    },
+    {
+      id: 'searchConsole',
+      label: 'Search Console',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122" />
+        </svg>
+      )
+    },
+    {
+      id: 'conversions',
+      label: 'Conversions',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      )
+    },
+    {
+      id: 'rankTracking',
+      label: 'Rank Tracking',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+        </svg>
+      )
     }
   ];
 
   // Render Analysis/Project View
+  const renderMarkets = () => (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+      {/* Back Button & Title */}
+      <div className="flex items-center gap-3 sm:gap-4 mb-6">
+        <button
+          onClick={handleBackToDashboard}
+          className="p-2 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          aria-label="Back to dashboard"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+          </svg>
+        </button>
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">{currentDomain}</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Multi-market comparison</p>
+        </div>
+      </div>
+
+      <MultiMarketPanel analysis={multiMarketAnalysis} progress={multiMarketProgress} />
+    </main>
+  );
+
   const renderAnalysis = () => (
     <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
       {/* Back Button & Title */}
@@ -527,6 +930,23 @@ function App() {
           <div>
             <h2 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">{currentDomain}</h2>
             <p className="text-sm text-gray-500 dark:text-gray-400">{currentLocation.name} • {brandName}</p>
+            {(analysisCache || apiCosts) && (
+              <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1">
+                <CacheStatusBadge
+                  cache={analysisCache}
+                  onRefresh={lastAnalyzeConfig ? handleRefreshAnalysis : undefined}
+                  isRefreshing={isLoading}
+                />
+                {apiCosts && apiCosts.calls > 0 && (
+                  <span
+                    className="text-xs text-gray-500 dark:text-gray-400"
+                    title={apiCosts.byEndpoint.map(e => `${e.endpoint}: $${e.cost.toFixed(4)} (${e.calls} calls, ${e.cacheHits} cached)`).join('\n')}
+                  >
+                    Project API spend ${apiCosts.totalCost.toFixed(2)} • saved ${apiCosts.savedCost.toFixed(2)} by cache
+                  </span>
+                )}
+              </div>
+            )}
           </div>
         </div>
         <button
@@ -557,6 +977,8 @@ function App() {
               </h3>
               <p className="text-indigo-100 text-sm">
                 {opportunities.length} opportunities • +{actionableInsights?.summary.totalQuickWinPotential.toLocaleString()} clicks potential
+                {conversionData && actionableInsights?.summary.totalQuickWinRevenue !== undefined &&
+                  ` (${formatRevenue(actionableInsights.summary.totalQuickWinRevenue, conversionData.currency)} / mo)`}
                 {isLoadingReasoning ? ' • Generating AI insights...' : reasoningGenerated ? ' • AI insights ready' : ''}
               </p>
             </div>
@@ -602,17 +1024,45 @@ function App() {
       {/* Tab Content */}
       {analysisTab === 'overview' && (
         <>
+          {sovResult && (
+            <CTRModelSelector
+              selectedModel={ctrModel}
+              customModels={customCTRModels}
+              applySerpAdjustments={ctrSelection.applySerpAdjustments}
+              onSelectModel={(modelId) => applyCTRSelection({ ...ctrSelection, modelId })}
+              onToggleSerpAdjustments={(enabled) => applyCTRSelection({ ...ctrSelection, applySerpAdjustments: enabled })}
+              onUploadModel={handleUploadCTRModel}
+              onDeleteModel={handleDeleteCTRModel}
+            />
+          )}
+
           {/* Metric Cards */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 mb-6 sm:mb-8">
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4 sm:gap-6 mb-6 sm:mb-8">
             <MetricCard
-              title={customSOS ? "Share of Search (Filtered)" : "Share of Search"}
-              value={sosResult ? `${customSOS?.sos ?? sosResult.shareOfSearch}%` : '—'}
-              subtitle={customSOS ? "Based on selected competitors" : "Brand awareness in search"}
+              title={variantSOS ? `Share of Search (${SOS_VARIANT_LABELS[sosVariant]})` : customSOS ? "Share of Search (Filtered)" : "Share of Search"}
+              value={sosResult ? `${effectiveSOS}%` : '—'}
+              subtitle={variantSOS
+                ? variantSOS.from === variantSOS.to ? `Month of ${variantSOS.to}` : `${variantSOS.from} to ${variantSOS.to}`
+                : sosVariant !== 'current'
+                ? trendsLoading ? 'Loading monthly history...' : 'No monthly history - showing current volumes'
+                : customSOS ? "Based on selected competitors" : "Brand awareness in search"}
               borderColor="emerald"
-              tooltip="SOS = Your Brand Search Volume / Total Brand Search Volumes × 100"
+              tooltip="SOS = Your Brand Search Volume / Total Brand Search Volumes × 100. Rolling variants sum each month's volumes over the window; the seasonally adjusted variant divides out each month's usual seasonal swing first."
+              headerAction={sosResult ? (
+                <select
+                  value={sosVariant}
+                  onChange={(e) => handleSOSVariantChange(e.target.value as SOSVariant)}
+                  aria-label="Share of Search variant"
+                  className="text-xs px-1.5 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                >
+                  {(Object.keys(SOS_VARIANT_LABELS) as SOSVariant[]).map(variant => (
+                    <option key={variant} value={variant}>{SOS_VARIANT_LABELS[variant]}</option>
+                  ))}
+                </select>
+              ) : undefined}
               details={sosResult ? [
-                { label: 'Your Brand Volume', value: (customSOS?.brandVolume ?? sosResult.brandVolume).toLocaleString() },
-                { label: 'Total Brand Volume', value: (customSOS?.totalVolume ?? sosResult.totalBrandVolume).toLocaleString() }
+                { label: variantSOS ? 'Your Brand Volume / mo' : 'Your Brand Volume', value: (variantSOS?.brandVolume ?? customSOS?.brandVolume ?? sosResult.brandVolume).toLocaleString() },
+                { label: variantSOS ? 'Total Brand Volume / mo' : 'Total Brand Volume', value: (variantSOS?.totalVolume ?? customSOS?.totalVolume ?? sosResult.totalBrandVolume).toLocaleString() }
               ] : undefined}
               insight={sosResult ? {
                 summary: effectiveSOS >= 30
@@ -632,7 +1082,10 @@ function App() {
               tooltip="SOV = Sum(Keyword Volume × CTR at Position) / Total Market Volume × 100"
               details={sovResult ? [
                 { label: 'Visible Volume', value: (customSOV?.visibleVolume ?? sovResult.visibleVolume).toLocaleString() },
-                { label: 'Total Market Volume', value: (customSOV?.totalVolume ?? sovResult.totalMarketVolume).toLocaleString() }
+                { label: 'Total Market Volume', value: (customSOV?.totalVolume ?? sovResult.totalMarketVolume).toLocaleString() },
+                { label: 'CTR Model', value: sovResult.ctrModel
+                  ? `${sovResult.ctrModel.name}${sovResult.ctrModel.serpAdjustments ? ' + SERP adj.' : ''}`
+                  : 'Desktop (default)' }
               ] : undefined}
               insight={sovResult ? {
                 summary: effectiveSOV >= 25
@@ -666,6 +1119,40 @@ function App() {
                   : 'Maintain your balanced approach while looking for opportunities to grow both metrics.'
               } : undefined}
             />
+
+            <MetricCard
+              title="Visibility Index"
+              value={visibilityLoading ? '…' : visibility ? visibility.index.toFixed(2) : '—'}
+              subtitle={visibility
+                ? `${visibility.panelName} panel, v${visibility.panelVersion}`
+                : visibilityPanels.length > 0
+                  ? 'No panel for this industry - choose one to score on'
+                  : sosResult ? 'No keyword panel for this market yet' : 'Fixed keyword panel score'}
+              borderColor="indigo"
+              tooltip="Visibility Index = Sum(Panel Weight × CTR at Position) / Sum(Panel Weight × CTR at #1) × 100, over a fixed, versioned keyword panel per market. 100 means #1 for every panel keyword."
+              headerAction={visibilityPanels.length > (visibility ? 1 : 0) ? (
+                <select
+                  value={visibility?.panelId ?? ''}
+                  onChange={(e) => handleVisibilityPanelChange(e.target.value)}
+                  disabled={visibilityLoading}
+                  aria-label="Visibility panel"
+                  className="text-xs px-1.5 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                >
+                  {!visibility && <option value="" disabled>Choose panel</option>}
+                  {visibilityPanels.map(panel => (
+                    <option key={panel.id} value={panel.id}>{panel.name}</option>
+                  ))}
+                </select>
+              ) : undefined}
+              details={visibility ? [
+                { label: 'Ranking Panel Keywords', value: `${visibility.rankingKeywords} / ${visibility.panelSize}` },
+                { label: 'In Top 10', value: visibility.topTenKeywords }
+              ] : undefined}
+              insight={visibility ? {
+                summary: `${brandName || 'Your domain'} ranks for ${visibility.rankingKeywords} of the ${visibility.panelSize} keywords every domain in this market is scored on.`,
+                explanation: 'Unlike SOV, the keyword set is fixed, so the index can be compared across domains and over time on the same panel version.'
+              } : undefined}
+            />
           </div>
 
           {/* Trends Section */}
@@ -684,7 +1171,7 @@ function App() {
                       </p>
                     </div>
                     <button
-                      onClick={handleFetchTrends}
+                      onClick={() => handleFetchTrends()}
                       className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 flex items-center gap-2 transition-colors"
                       aria-label="Load historical trends data"
                     >
@@ -705,7 +1192,7 @@ function App() {
                     <div className="flex-1">
                       <p className="text-sm text-red-700 dark:text-red-300">{trendsError}</p>
                       <button
-                        onClick={handleFetchTrends}
+                        onClick={() => handleFetchTrends()}
                         className="mt-2 text-sm text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200 underline"
                       >
                         Try again
@@ -714,12 +1201,48 @@ function App() {
                   </div>
                 </div>
               )}
+              {trendsData?.cache && (
+                <div className="flex justify-end mb-2">
+                  <CacheStatusBadge
+                    cache={trendsData.cache}
+                    onRefresh={() => handleFetchTrends(true)}
+                    isRefreshing={trendsLoading}
+                  />
+                </div>
+              )}
               <TrendsPanel data={trendsData} isLoading={trendsLoading} />
+              <SnapshotHistoryPanel
+                domain={currentDomain}
+                brandName={brandName}
+                locationCode={currentLocation.code}
+                languageCode={currentLanguage}
+                brandKeywords={brandKeywords}
+                ctrModel={ctrModel}
+                applySerpAdjustments={ctrSelection.applySerpAdjustments}
+                visibilityPanelId={visibility?.panelId}
+              />
+              <AlertRulesPanel
+                domain={currentDomain}
+                locationCode={currentLocation.code}
+                brandKeywords={brandKeywords}
+              />
             </div>
           )}
 
           {/* Tables */}
           <div className="space-y-6">
+            {currentDomain && (
+              <BrandVariantReviewPanel
+                key={`${currentDomain}|${currentLocation.code}`}
+                domain={currentDomain}
+                locationCode={currentLocation.code}
+                languageCode={currentLanguage}
+                competitors={actualCompetitors}
+                reviewedSets={brandVariantSets}
+                onApply={handleApplyBrandVariants}
+              />
+            )}
+
             {brandKeywords.length > 0 && (
               <KeywordTable
                 type="sos"
@@ -744,6 +1267,7 @@ function App() {
           opportunities={opportunities}
           brandContext={brandContext}
           isLoadingReasoning={isLoadingReasoning}
+          currency={conversionData?.currency}
         />
       )}
 
@@ -751,6 +1275,10 @@ function App() {
         <CategoryBreakdownPanel
           categories={actionableInsights.categoryBreakdown}
           brandContext={brandContext}
+          keywords={rankedKeywords}
+          domain={currentDomain}
+          categoryRules={categoryRules}
+          onCategoryRulesChange={handleCategoryRulesChange}
         />
       )}
 
@@ -765,9 +1293,19 @@ function App() {
         />
       )}
 
+      {analysisTab === 'contentGaps' && actionableInsights && (
+        <ContentGapsPanel
+          domain={currentDomain}
+          locationCode={currentLocation.code}
+          languageCode={currentLanguage}
+          competitors={actionableInsights.competitorStrengths.map(c => c.competitor)}
+        />
+      )}
+
       {analysisTab === 'youtube' && (
         <YouTubeSOVPanel
           brandName={brandName}
+          domain={currentDomain}
           competitors={actualCompetitors}
           locationCode={currentLocation.code}
           languageCode={currentLanguage}
@@ -777,12 +1315,84 @@ function App() {
       {analysisTab === 'localSeo' && (
         <GoogleMapsPanel
           brandName={brandName}
+          domain={currentDomain}
           competitors={actualCompetitors}
           locationCode={currentLocation.code}
           languageCode={currentLanguage}
           industry={brandContext?.industry}
         />
       )}
+
+      {analysisTab === 'aiVisibility' && (
+        <AIVisibilityPanel
+          key={`${currentDomain}|${currentLocation.code}`}
+          brandName={brandName}
+          domain={currentDomain}
+          competitors={actualCompetitors}
+          locationCode={currentLocation.code}
+          categories={actionableInsights?.categoryBreakdown ?? []}
+        />
+      )}
+
+      {analysisTab === 'marketShare' && (
+        <MarketShareModelPanel
+          key={`${currentDomain}|${currentLocation.code}`}
+          domain={currentDomain}
+          locationCode={currentLocation.code}
+          brandName={brandName}
+          competitors={actualCompetitors}
+          organicShareOfVoice={sovResult?.shareOfVoice ?? null}
+          seasonalSOS={trendsData?.seasonalSOS ?? null}
+          isTrendsLoading={trendsLoading}
+          onLoadTrends={() => handleFetchTrends()}
+        />
+      )}
+
+      {analysisTab === 'scenarios' && (
+        <ScenarioPlannerPanel
+          key={`${currentDomain}|${currentLocation.code}`}
+          domain={currentDomain}
+          locationCode={currentLocation.code}
+          keywords={rankedKeywords}
+          shareOfSearch={effectiveSOS}
+          ctrModel={ctrModel}
+          applySerpAdjustments={ctrSelection.applySerpAdjustments}
+          categoryRules={categoryRules}
+        />
+      )}
+
+      {analysisTab === 'searchConsole' && (
+        <SearchConsolePanel
+          key={`${currentDomain}|${currentLocation.code}`}
+          domain={currentDomain}
+          brandName={brandName}
+          keywords={rankedKeywords}
+          ctrModel={ctrModel}
+          data={searchConsole}
+          onChange={handleSearchConsoleChange}
+          onUseModel={handleUploadCTRModel}
+        />
+      )}
+
+      {analysisTab === 'conversions' && (
+        <ConversionDataPanel
+          key={`${currentDomain}|${currentLocation.code}`}
+          domain={currentDomain}
+          keywords={rankedKeywords}
+          data={conversionData}
+          onChange={handleConversionDataChange}
+        />
+      )}
+
+      {analysisTab === 'rankTracking' && (
+        <RankTrackingPanel
+          key={`${currentDomain}|${currentLocation.code}`}
+          domain={currentDomain}
+          locationCode={currentLocation.code}
+          keywords={rankedKeywords}
+          ctrModel={ctrModel}
+        />
+      )}
     </main>
   );
 
@@ -805,56 +1415,71 @@ function App() {
               <h1 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">SearchShare Pro</h1>
             </button>
 
-            {/* Desktop Navigation */}
-            <nav className="hidden md:flex items-center gap-1">
-              <button
-                onClick={handleBackToDashboard}
-                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
-                  viewMode === 'dashboard'
-                    ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400'
-                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`}
-              >
-                <span className="flex items-center gap-2">
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
-                  </svg>
-                  Dashboard
-                </span>
-              </button>
-              <button
-                onClick={() => setShowMethodology(true)}
-                className="px-3 py-2 rounded-lg text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-              >
-                <span className="flex items-center gap-2">
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
-                  </svg>
-                  Methodology
-                </span>
-              </button>
-              {renderThemeToggle()}
-            </nav>
-
-            {/* Mobile Menu Button */}
-            <div className="flex md:hidden items-center gap-2">
-              {renderThemeToggle()}
-              <button
-                onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-                className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
-                aria-label={mobileMenuOpen ? 'Close menu' : 'Open menu'}
-                aria-expanded={mobileMenuOpen}
-              >
-                {mobileMenuOpen ? (
-                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                ) : (
-                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
-                  </svg>
-                )}
-              </button>
+            <div className="flex items-center gap-1">
+              {/* Desktop Navigation */}
+              <nav className="hidden md:flex items-center gap-1">
+                <button
+                  onClick={handleBackToDashboard}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    viewMode === 'dashboard'
+                      ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400'
+                      : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <span className="flex items-center gap-2">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+                    </svg>
+                    Dashboard
+                  </span>
+                </button>
+                <button
+                  onClick={() => setShowMethodology(true)}
+                  className="px-3 py-2 rounded-lg text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <span className="flex items-center gap-2">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                    </svg>
+                    Methodology
+                  </span>
+                </button>
+                <button
+                  onClick={() => setShowSettings(true)}
+                  className="px-3 py-2 rounded-lg text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <span className="flex items-center gap-2">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                    </svg>
+                    API Keys
+                  </span>
+                </button>
+                {renderThemeToggle()}
+              </nav>
+
+              <AlertInbox />
+
+              {/* Mobile Menu Button */}
+              <div className="flex md:hidden items-center gap-2">
+                {renderThemeToggle()}
+                <button
+                  onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+                  className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  aria-label={mobileMenuOpen ? 'Close menu' : 'Open menu'}
+                  aria-expanded={mobileMenuOpen}
+                >
+                  {mobileMenuOpen ? (
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  ) : (
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                    </svg>
+                  )}
+                </button>
+              </div>
             </div>
           </div>
 
@@ -894,6 +1519,20 @@ function App() {
                     Methodology
                   </span>
                 </button>
+                <button
+                  onClick={() => {
+                    setShowSettings(true);
+                    setMobileMenuOpen(false);
+                  }}
+                  className="px-3 py-2 rounded-lg text-sm font-medium text-left text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <span className="flex items-center gap-2">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                    </svg>
+                    API Keys
+                  </span>
+                </button>
               </nav>
             </div>
           )}
@@ -901,7 +1540,7 @@ function App() {
       </header>
 
       {/* Main Content */}
-      {viewMode === 'dashboard' ? renderDashboard() : renderAnalysis()}
+      {viewMode === 'dashboard' ? renderDashboard() : viewMode === 'markets' ? renderMarkets() : renderAnalysis()}
 
       {/* Footer */}
       <footer className="bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 mt-8 sm:mt-12">
@@ -914,6 +1553,7 @@ function App() {
 
       {/* Methodology Modal */}
       {showMethodology && <MethodologyPage onClose={() => setShowMethodology(false)} />}
+      {showSettings && <CredentialSettingsPanel onClose={() => setShowSettings(false)} />}
     </div>
   );
 }
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AIVisibilityResponse, AnswerSentiment, CategorySOV } from '../types';
+import { MAX_AI_PROMPTS, buildAnswerEnginePrompts } from '../../shared/aiVisibility';
+import { getAIVisibility } from '../services/api';
+import { loadChannelAnalysis, storeChannelAnalysis } from '../services/projectSync';
+
+interface AIVisibilityPanelProps {
+  brandName: string;
+  domain: string;
+  competitors: string[];
+  locationCode: number;
+  categories: CategorySOV[]; // Biggest first; their top keywords seed the prompts
+}
+
+const SENTIMENT_STYLES: Record<AnswerSentiment, string> = {
+  positive: 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  neutral: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300',
+  negative: 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+};
+
+const cardClass = 'bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700';
+
+// How often AI assistants recommend the brand for its categories, next to the YouTube / Paid / Local channels
+export const AIVisibilityPanel: React.FC<AIVisibilityPanelProps> = ({
+  brandName,
+  domain,
+  competitors,
+  locationCode,
+  categories
+}) => {
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [data, setData] = useState<AIVisibilityResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Last check of the tracked project, whichever device ran it
+  useEffect(() => {
+    let cancelled = false;
+    loadChannelAnalysis<AIVisibilityResponse>(domain, locationCode, 'ai').then(saved => {
+      if (!cancelled && saved) setData(current => current ?? saved);
+    });
+    return () => { cancelled = true; };
+  }, [domain, locationCode]);
+
+  // The server builds the same prompts from these; a skipped keyword makes room for the next one
+  const selected = useMemo(
+    () => categories.map(({ category, topKeywords }) => ({
+      category,
+      topKeywords: topKeywords.filter(keyword => !excluded.has(keyword))
+    })),
+    [categories, excluded]
+  );
+  const prompts = useMemo(
+    () => buildAnswerEnginePrompts(selected, [brandName, ...competitors]),
+    [selected, brandName, competitors]
+  );
+
+  const toggle = (keyword: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(keyword)) next.delete(keyword);
+      else next.add(keyword);
+      return next;
+    });
+  };
+
+  const runCheck = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await getAIVisibility(brandName, competitors, selected, domain, locationCode);
+      setData(result);
+      storeChannelAnalysis(domain, locationCode, 'ai', result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check AI visibility');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const own = data?.brands.find(b => b.isOwnBrand);
+
+  return (
+    <div className="space-y-6">
+      <div className={cardClass}>
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">AI Answer Engines</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Asks an AI assistant the questions shoppers ask about your top categories and measures how often, how early and how favourably each brand is recommended.
+          </p>
+        </div>
+
+        <div className="px-6 py-4">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
+              {prompts.length} of at most {MAX_AI_PROMPTS} prompts will be asked, built from your top category keywords
+            </span>
+          </div>
+          <ul className="max-h-56 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+            {prompts.map(p => (
+              <li key={p.prompt} className="py-1.5 flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-gray-900 dark:text-white">{p.prompt}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{p.category}</div>
+                </div>
+                <button onClick={() => toggle(p.keyword)} className="text-xs text-gray-400 hover:text-red-600">
+                  Skip keyword
+                </button>
+              </li>
+            ))}
+            {prompts.length === 0 && (
+              <li className="py-2 text-gray-500 dark:text-gray-400">
+                No unbranded category keywords to build prompts from yet.
+              </li>
+            )}
+          </ul>
+          {excluded.size > 0 && (
+            <div className="mt-2 flex flex-wrap items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+              Skipped:
+              {[...excluded].map(keyword => (
+                <button
+                  key={keyword}
+                  onClick={() => toggle(keyword)}
+                  className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                  title="Ask about this keyword again"
+                >
+                  {keyword} ×
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Every prompt is one request to the workspace's Anthropic account.</p>
+          <button
+            onClick={runCheck}
+            disabled={isLoading || prompts.length === 0}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isLoading ? 'Asking...' : data ? 'Ask again' : 'Check AI visibility'}
+          </button>
+        </div>
+        {error && <p className="px-6 pb-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+
+      {data && own && (
+        <>
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+            {[
+              { label: 'AI SOV (rank-weighted)', value: `${data.sov.byRank}%` },
+              { label: 'AI SOV (mentions)', value: `${data.sov.byMentions}%` },
+              { label: 'Answers naming you', value: `${own.mentionRate}%` },
+              { label: 'Recommended first', value: `${own.firstMentions} / ${data.results.length}` }
+            ].map(card => (
+              <div key={card.label} className={`${cardClass} px-4 py-3`}>
+                <div className="text-xs text-gray-500 dark:text-gray-400">{card.label}</div>
+                <div className="text-2xl font-semibold text-gray-900 dark:text-white">{card.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className={`${cardClass} overflow-hidden`}>
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white">Brands in the answers</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {data.results.length} answers from {data.model}. A brand named first counts fully, second half, third a third.
+              </p>
+              {data.failedPrompts.length > 0 && (
+                <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                  {data.failedPrompts.length} prompts got no answer and are left out of the SOV: {data.failedPrompts.map(p => p.prompt).join(', ')}
+                </p>
+              )}
+            </div>
+            <div className="px-6 py-3 overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                    <th className="py-1 text-left font-medium">Brand</th>
+                    <th className="py-1 text-right font-medium">Answers</th>
+                    <th className="py-1 text-right font-medium">First</th>
+                    <th className="py-1 text-right font-medium">Avg rank</th>
+                    <th className="py-1 text-right font-medium">Tone +/~/-</th>
+                    <th className="py-1 text-right font-medium">AI SOV</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {data.brands.map(b => (
+                    <tr key={b.brand} className={b.isOwnBrand ? 'font-medium' : ''}>
+                      <td className="py-1.5 text-gray-900 dark:text-white">{b.brand}</td>
+                      <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{b.mentions} ({b.mentionRate}%)</td>
+                      <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{b.firstMentions}</td>
+                      <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{b.avgRank ?? '—'}</td>
+                      <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">
+                        {b.sentiment.positive} / {b.sentiment.neutral} / {b.sentiment.negative}
+                      </td>
+                      <td className="py-1.5 text-right text-gray-900 dark:text-white">{b.shareOfVoice}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className={`${cardClass} overflow-hidden`}>
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white">Answers</h4>
+            </div>
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {data.results.map(result => (
+                <li key={result.prompt} className="px-6 py-3 text-sm">
+                  <details>
+                    <summary className="cursor-pointer">
+                      <span className="text-gray-900 dark:text-white">{result.prompt}</span>
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{result.category}</span>
+                      <span className="ml-2 inline-flex flex-wrap gap-1 align-middle">
+                        {result.mentions.length === 0 ? (
+                          <span className="text-xs text-gray-400">No tracked brand named</span>
+                        ) : result.mentions.map(m => (
+                          <span key={m.brand} className={`px-1.5 py-0.5 text-[10px] rounded ${SENTIMENT_STYLES[m.sentiment]}`} title={m.sentiment}>
+                            #{m.rank} {m.brand}
+                          </span>
+                        ))}
+                      </span>
+                    </summary>
+                    <p className="mt-2 whitespace-pre-line text-gray-600 dark:text-gray-300">{result.answer}</p>
+                  </details>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -3,8 +3,6 @@ import { LOCATIONS } from '../types';
 
 interface APIConfigPanelProps {
   onFetchData: (config: {
-    login: string;
-    password: string;
     domain: string;
     locationCode: number;
     languageCode: string;
@@ -13,10 +11,6 @@ interface APIConfigPanelProps {
   isLoading: boolean;
 }
 
-// Pre-configured DataForSEO credentials
-const DATAFORSEO_LOGIN = 'mohamed.alimohamed@wppmedia.com';
-const DATAFORSEO_PASSWORD = '0d925a94bf0c0b56';
-
 export const APIConfigPanel: React.FC<APIConfigPanelProps> = ({ onFetchData, isLoading }) => {
   const [isOpen, setIsOpen] = useState(true); // Open by default
   const [domain, setDomain] = useState('');
@@ -35,8 +29,6 @@ export const APIConfigPanel: React.FC<APIConfigPanelProps> = ({ onFetchData, isL
       .filter(c => c.length > 0);
 
     onFetchData({
-      login: DATAFORSEO_LOGIN,
-      password: DATAFORSEO_PASSWORD,
       domain,
       locationCode: locationData.code,
       languageCode: location === 'germany' ? 'de' : location === 'france' ? 'fr' : location === 'spain' ? 'es' : 'en',
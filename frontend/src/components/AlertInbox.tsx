@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { AlertItem, AlertStatus } from '../types';
+import { getAlerts, updateAlert } from '../services/api';
+
+// Re-check the open count this often while the app is open
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+const SNOOZE_OPTIONS = [
+  { label: '1 day', hours: 24 },
+  { label: '1 week', hours: 24 * 7 }
+];
+
+const formatObserved = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Header bell with the workspace's alert inbox
+export const AlertInbox: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [status, setStatus] = useState<AlertStatus>('open');
+  const [alerts, setAlerts] = useState<AlertItem[]>([]);
+  const [openCount, setOpenCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadAlerts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await getAlerts({ status });
+      setAlerts(data.alerts);
+      setOpenCount(data.openCount);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alerts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadAlerts();
+    const interval = setInterval(loadAlerts, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadAlerts]);
+
+  const handleUpdate = async (
+    alert: AlertItem,
+    update: { action: 'acknowledge' | 'reopen' } | { action: 'snooze'; hours: number }
+  ) => {
+    setBusyId(alert.id);
+    try {
+      await updateAlert(alert.id, update);
+      await loadAlerts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update alert');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        aria-label={openCount > 0 ? `${openCount} open alerts` : 'Alerts'}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {openCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+            {openCount > 99 ? '99+' : openCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 z-50">
+          <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900 dark:text-white">Alerts</h3>
+            <div className="flex rounded-lg bg-gray-100 dark:bg-gray-700 p-0.5 text-xs">
+              {(['open', 'acknowledged'] as AlertStatus[]).map(s => (
+                <button
+                  key={s}
+                  onClick={() => setStatus(s)}
+                  className={`px-2.5 py-1 rounded-md ${status === s ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+                >
+                  {s === 'open' ? `Open (${openCount})` : 'Acknowledged'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {error ? (
+              <p className="px-4 py-6 text-sm text-red-600 dark:text-red-400">{error}</p>
+            ) : isLoading && alerts.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500 dark:text-gray-400">Loading alerts...</p>
+            ) : alerts.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                {status === 'open' ? 'Nothing needs attention.' : 'No acknowledged alerts.'}
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                {alerts.map(alert => {
+                  const failed = alert.deliveries.filter(d => !d.ok);
+                  return (
+                    <li key={alert.id} className="px-4 py-3">
+                      <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+                        <span className="truncate">{alert.domain} · {alert.ruleName}</span>
+                        <span className="shrink-0">{formatObserved(alert.observedAt)}</span>
+                      </div>
+                      <p className="mt-1 text-sm text-gray-900 dark:text-white">{alert.message}</p>
+                      {failed.length > 0 && (
+                        <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                          Not delivered: {failed.map(d => `${d.channel} (${d.error})`).join(', ')}
+                        </p>
+                      )}
+                      <div className="mt-2 flex items-center gap-2">
+                        {alert.status === 'open' ? (
+                          <>
+                            <button
+                              onClick={() => handleUpdate(alert, { action: 'acknowledge' })}
+                              disabled={busyId === alert.id}
+                              className="px-2.5 py-1 text-xs font-medium text-emerald-700 dark:text-emerald-300 bg-emerald-100 dark:bg-emerald-900/40 rounded-md hover:bg-emerald-200 dark:hover:bg-emerald-900/60 disabled:opacity-50"
+                            >
+                              Acknowledge
+                            </button>
+                            {SNOOZE_OPTIONS.map(option => (
+                              <button
+                                key={option.hours}
+                                onClick={() => handleUpdate(alert, { action: 'snooze', hours: option.hours })}
+                                disabled={busyId === alert.id}
+                                className="px-2.5 py-1 text-xs text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                              >
+                                Snooze {option.label}
+                              </button>
+                            ))}
+                          </>
+                        ) : (
+                          <button
+                            onClick={() => handleUpdate(alert, { action: 'reopen' })}
+                            disabled={busyId === alert.id}
+                            className="px-2.5 py-1 text-xs text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                          >
+                            Reopen
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
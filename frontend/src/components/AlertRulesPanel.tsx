@@ -0,0 +1,321 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { AlertChannel, AlertDirection, AlertMetric, AlertRule, AlertRuleInput, AlertRuleType, BrandKeyword } from '../types';
+import { deleteAlertRule, getAlertRules, saveAlertRule } from '../services/api';
+import { ALERT_CHANNELS, ALERT_METRICS, ALERT_RULE_TYPES, MIN_OUTLIER_HISTORY, describeAlertRule } from '../../shared/alerts';
+
+interface AlertRulesPanelProps {
+  domain: string;
+  locationCode: number;
+  brandKeywords: BrandKeyword[];
+}
+
+const RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  threshold: 'Crosses a threshold',
+  percentChange: 'Changes by a percentage',
+  outlier: 'Is a statistical outlier'
+};
+
+const VALUE_LABELS: Record<AlertRuleType, string> = {
+  threshold: 'Threshold',
+  percentChange: 'Change (%)',
+  outlier: 'Z-score'
+};
+
+const EMPTY_RULE: AlertRuleInput = {
+  name: '',
+  metric: 'sos',
+  subject: '',
+  type: 'percentChange',
+  direction: 'below',
+  value: 15,
+  lookback: 1,
+  channels: [],
+  enabled: true
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+const labelClass = 'block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1';
+
+export const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({ domain, locationCode, brandKeywords }) => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<AlertRuleInput | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const competitorKeywords = brandKeywords.filter(k => !k.isOwnBrand && !k.isDiscarded).map(k => k.keyword.toLowerCase());
+
+  const loadRules = useCallback(async () => {
+    if (!domain) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await getAlertRules(domain, locationCode);
+      setProjectId(data.projectId);
+      setRules(data.rules);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alert rules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [domain, locationCode]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const updateForm = (changes: Partial<AlertRuleInput>) => {
+    if (!form) return;
+    const next = { ...form, ...changes };
+    // Keep the fields valid for the chosen type, so switching types never leaves a rule the API rejects
+    if (changes.type === 'threshold' && next.direction === 'either') next.direction = 'below';
+    if (changes.type === 'outlier' && next.lookback < MIN_OUTLIER_HISTORY) next.lookback = 8;
+    if (changes.type === 'outlier' && form.type !== 'outlier') next.value = 2;
+    if (changes.metric && changes.metric !== 'competitorBrandVolume') next.subject = '';
+    setForm(next);
+  };
+
+  const toggleChannel = (channel: AlertChannel) => {
+    if (!form) return;
+    updateForm({
+      channels: form.channels.includes(channel) ? form.channels.filter(c => c !== channel) : [...form.channels, channel]
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const rule = { ...form, name: form.name.trim() || describeAlertRule(form) };
+      await saveAlertRule(domain, locationCode, rule, editingId ?? undefined);
+      setForm(null);
+      setEditingId(null);
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save alert rule');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    setError(null);
+    try {
+      const updated = await saveAlertRule(domain, locationCode, { ...rule, enabled: !rule.enabled }, rule.id);
+      setRules(prev => prev.map(r => (r.id === rule.id ? updated : r)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update alert rule');
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}" and its alerts?`)) return;
+    setError(null);
+    try {
+      await deleteAlertRule(rule.id);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete alert rule');
+    }
+  };
+
+  const startEditing = (rule: AlertRule | null) => {
+    setEditingId(rule?.id ?? null);
+    setForm(rule ? { ...rule } : { ...EMPTY_RULE });
+    setError(null);
+  };
+
+  const directions: AlertDirection[] = form?.type === 'threshold' ? ['above', 'below'] : ['below', 'above', 'either'];
+
+  const renderForm = (rule: AlertRuleInput) => (
+    <div className="p-4 bg-gray-50 dark:bg-gray-900/40 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        <div>
+          <label className={labelClass}>Metric</label>
+          <select value={rule.metric} onChange={(e) => updateForm({ metric: e.target.value as AlertMetric })} className={inputClass}>
+            {(Object.keys(ALERT_METRICS) as AlertMetric[]).map(metric => (
+              <option key={metric} value={metric}>{ALERT_METRICS[metric].label}</option>
+            ))}
+          </select>
+        </div>
+        {rule.metric === 'competitorBrandVolume' && (
+          <div>
+            <label className={labelClass}>Competitor</label>
+            <select value={rule.subject} onChange={(e) => updateForm({ subject: e.target.value })} className={inputClass}>
+              <option value="">Any competitor</option>
+              {competitorKeywords.map(keyword => <option key={keyword} value={keyword}>{keyword}</option>)}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className={labelClass}>Alert when it</label>
+          <select value={rule.type} onChange={(e) => updateForm({ type: e.target.value as AlertRuleType })} className={inputClass}>
+            {ALERT_RULE_TYPES.map(type => <option key={type} value={type}>{RULE_TYPE_LABELS[type]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Direction</label>
+          <select value={rule.direction} onChange={(e) => updateForm({ direction: e.target.value as AlertDirection })} className={inputClass}>
+            {directions.map(direction => (
+              <option key={direction} value={direction}>
+                {direction === 'either' ? 'Up or down' : rule.type === 'threshold' ? direction : direction === 'above' ? 'Up' : 'Down'}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{VALUE_LABELS[rule.type]}</label>
+          <input
+            type="number"
+            value={rule.value}
+            step="any"
+            onChange={(e) => updateForm({ value: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        {rule.type !== 'threshold' && (
+          <div>
+            <label className={labelClass}>{rule.type === 'outlier' ? 'History (snapshots)' : 'Compare with (snapshots back)'}</label>
+            <input
+              type="number"
+              value={rule.lookback}
+              min={rule.type === 'outlier' ? MIN_OUTLIER_HISTORY : 1}
+              onChange={(e) => updateForm({ lookback: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+        )}
+        <div className="sm:col-span-2">
+          <label className={labelClass}>Name</label>
+          <input
+            type="text"
+            value={rule.name}
+            onChange={(e) => updateForm({ name: e.target.value })}
+            placeholder={describeAlertRule(rule)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Also send to</span>
+          {ALERT_CHANNELS.map(channel => (
+            <label key={channel} className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={rule.channels.includes(channel)}
+                onChange={() => toggleChannel(channel)}
+                className="rounded text-emerald-600 focus:ring-emerald-500"
+              />
+              {channel === 'webhook' ? 'Webhook' : 'Email'}
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center justify-end gap-2">
+          <button
+            onClick={() => setForm(null)}
+            className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={busy}
+            className="px-4 py-1.5 text-sm font-medium bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {busy ? 'Saving...' : editingId ? 'Save rule' : 'Add rule'}
+          </button>
+        </div>
+      </div>
+      {rule.channels.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Webhook and SMTP settings live under API Keys and are shared by every rule in the workspace.
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <svg className="w-5 h-5 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+          </svg>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Alert Rules</h3>
+        </div>
+        {projectId && !form && (
+          <button
+            onClick={() => startEditing(null)}
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 text-sm transition-colors"
+          >
+            Add Rule
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">Loading alert rules...</p>
+        ) : !projectId ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+            Rules are checked against tracked snapshots. Start tracking this domain above to add alerts.
+          </p>
+        ) : (
+          <>
+            {form && !editingId && renderForm(form)}
+            {rules.length === 0 && !form ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+                No rules yet. Rules are checked after every snapshot and after each paid, YouTube or local analysis.
+              </p>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                {rules.map(rule => (
+                  <div key={rule.id} className="px-4 py-3">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                      <div className={rule.enabled ? '' : 'opacity-50'}>
+                        <div className="font-medium text-sm text-gray-900 dark:text-white">{rule.name}</div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {describeAlertRule(rule)}
+                          {rule.channels.length > 0 && ` · ${rule.channels.join(' + ')}`}
+                        </p>
+                      </div>
+                      {editingId !== rule.id && (
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => handleToggle(rule)}
+                            className="px-3 py-1.5 text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600"
+                          >
+                            {rule.enabled ? 'Pause' : 'Resume'}
+                          </button>
+                          <button
+                            onClick={() => startEditing(rule)}
+                            className="px-3 py-1.5 text-xs font-medium text-emerald-700 dark:text-emerald-300 bg-emerald-100 dark:bg-emerald-900/40 rounded-lg hover:bg-emerald-200 dark:hover:bg-emerald-900/60"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(rule)}
+                            className="px-3 py-1.5 text-xs text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    {form && editingId === rule.id && <div className="mt-3">{renderForm(form)}</div>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { LOCATIONS } from '../types';
+import { LOCATIONS, type MarketConfig } from '../types';
+import { LOCATIONS as MARKET_LOCATIONS } from '../config';
 
 interface AnalysisFormProps {
   onAnalyze: (config: {
@@ -9,6 +10,11 @@ interface AnalysisFormProps {
     languageCode: string;
     customCompetitors?: string[];
   }) => void;
+  onAnalyzeMarkets?: (config: {
+    domain: string;
+    markets: MarketConfig[];
+    customCompetitors?: string[];
+  }) => void;
   isLoading: boolean;
 }
 
@@ -19,12 +25,20 @@ const LANGUAGES = [
   { code: 'es', name: 'Spanish' }
 ];
 
-export const AnalysisForm: React.FC<AnalysisFormProps> = ({ onAnalyze, isLoading }) => {
+export const AnalysisForm: React.FC<AnalysisFormProps> = ({ onAnalyze, onAnalyzeMarkets, isLoading }) => {
   const [domain, setDomain] = useState('');
   const [location, setLocation] = useState('germany');
   const [language, setLanguage] = useState('de');
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [competitorsInput, setCompetitorsInput] = useState('');
+  const [compareMarkets, setCompareMarkets] = useState(false);
+  const [selectedMarkets, setSelectedMarkets] = useState<string[]>(['germany']);
+
+  const isMultiMarket = compareMarkets && !!onAnalyzeMarkets;
+
+  const toggleMarket = (key: string) => {
+    setSelectedMarkets(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -34,9 +48,23 @@ export const AnalysisForm: React.FC<AnalysisFormProps> = ({ onAnalyze, isLoading
       .split(',')
       .map(c => c.trim().toLowerCase())
       .filter(c => c.length > 0);
+    const normalizedDomain = domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '');
+
+    if (isMultiMarket && onAnalyzeMarkets) {
+      // Each market is analysed in its own default language
+      onAnalyzeMarkets({
+        domain: normalizedDomain,
+        markets: selectedMarkets.map(key => {
+          const market = MARKET_LOCATIONS[key as keyof typeof MARKET_LOCATIONS];
+          return { locationCode: market.code, locationName: market.name, languageCode: market.languageCode };
+        }),
+        customCompetitors: customCompetitors.length > 0 ? customCompetitors : undefined
+      });
+      return;
+    }
 
     onAnalyze({
-      domain: domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, ''),
+      domain: normalizedDomain,
       locationCode: LOCATIONS[location].code,
       locationName: LOCATIONS[location].name,
       languageCode: language,
@@ -76,41 +104,85 @@ export const AnalysisForm: React.FC<AnalysisFormProps> = ({ onAnalyze, isLoading
           />
         </div>
 
-        {/* Location & Language Row */}
-        <div className="grid grid-cols-2 gap-4 mb-4">
-          <div>
-            <label htmlFor="location" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Market / Location
-            </label>
-            <select
-              id="location"
-              name="location"
-              value={location}
-              onChange={(e) => setLocation(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-            >
-              {Object.entries(LOCATIONS).map(([key, { name }]) => (
-                <option key={key} value={key}>{name}</option>
+        {/* Market Selection */}
+        {isMultiMarket ? (
+          <div className="mb-4">
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Markets
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(MARKET_LOCATIONS).map(([key, { name, languageCode }]) => (
+                <label
+                  key={key}
+                  className={`flex items-center gap-2 px-3 py-2 border rounded-lg cursor-pointer text-sm transition-colors ${
+                    selectedMarkets.includes(key)
+                      ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedMarkets.includes(key)}
+                    onChange={() => toggleMarket(key)}
+                    className="rounded text-emerald-600 focus:ring-emerald-500"
+                  />
+                  {name}
+                  <span className="text-xs text-gray-400 dark:text-gray-500">{languageCode.toUpperCase()}</span>
+                </label>
               ))}
-            </select>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Select at least two markets - each is analysed in its main language
+            </p>
           </div>
-          <div>
-            <label htmlFor="language" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Language
-            </label>
-            <select
-              id="language"
-              name="language"
-              value={language}
-              onChange={(e) => setLanguage(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-            >
-              {LANGUAGES.map(lang => (
-                <option key={lang.code} value={lang.code}>{lang.name}</option>
-              ))}
-            </select>
+        ) : (
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <label htmlFor="location" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Market / Location
+              </label>
+              <select
+                id="location"
+                name="location"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {Object.entries(LOCATIONS).map(([key, { name }]) => (
+                  <option key={key} value={key}>{name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="language" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Language
+              </label>
+              <select
+                id="language"
+                name="language"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {LANGUAGES.map(lang => (
+                  <option key={lang.code} value={lang.code}>{lang.name}</option>
+                ))}
+              </select>
+            </div>
           </div>
-        </div>
+        )}
+
+        {onAnalyzeMarkets && (
+          <label className="flex items-center gap-2 mb-4 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={compareMarkets}
+              onChange={(e) => setCompareMarkets(e.target.checked)}
+              className="rounded text-emerald-600 focus:ring-emerald-500"
+            />
+            Compare multiple markets
+          </label>
+        )}
 
         {/* Advanced Options Toggle */}
         <div className="mb-4">
@@ -155,7 +227,7 @@ export const AnalysisForm: React.FC<AnalysisFormProps> = ({ onAnalyze, isLoading
         {/* Submit Button */}
         <button
           type="submit"
-          disabled={isLoading || !domain.trim()}
+          disabled={isLoading || !domain.trim() || (isMultiMarket && selectedMarkets.length < 2)}
           className="w-full py-3 px-4 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
         >
           {isLoading ? (
@@ -171,7 +243,7 @@ export const AnalysisForm: React.FC<AnalysisFormProps> = ({ onAnalyze, isLoading
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
               </svg>
-              Analyze Brand
+              {isMultiMarket ? `Compare ${selectedMarkets.length} Markets` : 'Analyze Brand'}
             </>
           )}
         </button>
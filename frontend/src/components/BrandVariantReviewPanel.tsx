@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import type { BrandVariantKind, BrandVariantReview, BrandVariantSet, BrandVariantStatus } from '../types';
+import { discoverBrandVariants } from '../services/api';
+import { getBrandVariantReview, saveBrandVariantReview } from '../services/brandVariantStorage';
+import { applyPreviousReview, buildBrandKeywords, toBrandVariantReview } from '../../shared/brandVariants';
+import { calculateSOS } from '../lib/calculations';
+
+interface BrandVariantReviewPanelProps {
+  domain: string;
+  locationCode: number;
+  languageCode: string;
+  competitors: string[];
+  reviewedSets: BrandVariantSet[]; // The stored review with the volumes of the current analysis
+  onApply: (sets: BrandVariantSet[]) => void;
+}
+
+const KIND_STYLES: Record<BrandVariantKind, { label: string; className: string }> = {
+  exact: { label: 'Exact', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  spelling: { label: 'Spelling', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
+  misspelling: { label: 'Misspelling', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  product: { label: 'Brand + product', className: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300' }
+};
+
+const acceptedVolume = (set: BrandVariantSet) =>
+  set.variants.filter(v => v.status === 'accepted').reduce((sum, v) => sum + v.searchVolume, 0);
+
+export const BrandVariantReviewPanel: React.FC<BrandVariantReviewPanelProps> = ({
+  domain,
+  locationCode,
+  languageCode,
+  competitors,
+  reviewedSets,
+  onApply
+}) => {
+  const [saved, setSaved] = useState<BrandVariantReview[]>(() => toBrandVariantReview(reviewedSets));
+  const [draft, setDraft] = useState<BrandVariantSet[]>(reviewedSets);
+  const [volumeSource, setVolumeSource] = useState(reviewedSets);
+  const [expandedBrand, setExpandedBrand] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Share of Search the draft would produce, before it is applied
+  const preview = useMemo(() => calculateSOS(buildBrandKeywords(draft)), [draft]);
+  const pendingCount = draft.reduce((sum, set) => sum + set.variants.filter(v => v.status === 'pending').length, 0);
+  const isDirty = JSON.stringify(toBrandVariantReview(draft)) !== JSON.stringify(saved);
+
+  // A new analysis brings current volumes; the draft starts over from them
+  if (volumeSource !== reviewedSets) {
+    setVolumeSource(reviewedSets);
+    setSaved(toBrandVariantReview(reviewedSets));
+    setDraft(reviewedSets);
+  }
+
+  const handleDiscover = async (forceRefresh = false) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await discoverBrandVariants(domain, locationCode, languageCode, competitors, forceRefresh);
+      // Without volumes from an analysis the draft is empty, so the stored decisions carry over
+      setDraft(applyPreviousReview(result.sets, draft.length > 0 ? draft : getBrandVariantReview(domain, locationCode)));
+      setExpandedBrand(result.sets[0]?.brand ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discover brand variants');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const setStatus = (brand: string, keyword: string | null, status: BrandVariantStatus) => {
+    setDraft(prev => prev.map(set => set.brand !== brand ? set : {
+      ...set,
+      variants: set.variants.map(v => (keyword === null || v.keyword === keyword ? { ...v, status } : v))
+    }));
+  };
+
+  const handleApply = () => {
+    setSaved(saveBrandVariantReview(domain, locationCode, draft));
+    onApply(draft);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Brand Variants</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Spellings, typos and brand + product searches for each brand. Accepted variants count towards Share of Search.
+          </p>
+        </div>
+        <button
+          onClick={() => handleDiscover(draft.length > 0)}
+          disabled={isLoading || !domain}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+        >
+          {isLoading ? 'Discovering...' : draft.length > 0 ? 'Refresh variants' : 'Discover variants'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="px-6 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20">{error}</p>
+      )}
+
+      {draft.length > 0 && (
+        <>
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            {draft.map(set => {
+              const isExpanded = expandedBrand === set.brand;
+              const pending = set.variants.filter(v => v.status === 'pending').length;
+              return (
+                <div key={set.brand}>
+                  <button
+                    onClick={() => setExpandedBrand(isExpanded ? null : set.brand)}
+                    className="w-full px-6 py-3 flex items-center justify-between text-left hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                  >
+                    <span className="flex items-center gap-2">
+                      <span className="text-gray-400">{isExpanded ? '▼' : '▶'}</span>
+                      <span className="font-medium text-gray-900 dark:text-white">{set.brand}</span>
+                      {set.isOwnBrand && (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">Your brand</span>
+                      )}
+                      {pending > 0 && (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">{pending} to review</span>
+                      )}
+                    </span>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      {set.variants.filter(v => v.status === 'accepted').length}/{set.variants.length} accepted · {acceptedVolume(set).toLocaleString()}/mo
+                    </span>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="px-6 pb-4">
+                      <div className="flex justify-end gap-2 mb-2">
+                        <button
+                          onClick={() => setStatus(set.brand, null, 'accepted')}
+                          className="px-2 py-1 text-xs text-green-700 dark:text-green-400 hover:underline"
+                        >
+                          Accept all
+                        </button>
+                        <button
+                          onClick={() => setStatus(set.brand, null, 'rejected')}
+                          className="px-2 py-1 text-xs text-red-600 dark:text-red-400 hover:underline"
+                        >
+                          Reject all
+                        </button>
+                      </div>
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                            <th className="py-1 text-left font-medium">Keyword</th>
+                            <th className="py-1 text-left font-medium">Type</th>
+                            <th className="py-1 text-right font-medium">Volume</th>
+                            <th className="py-1 text-right font-medium">Review</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                          {set.variants.map(variant => (
+                            <tr key={variant.keyword} className={variant.status === 'rejected' ? 'opacity-50' : ''}>
+                              <td className="py-1.5 text-gray-900 dark:text-white">{variant.keyword}</td>
+                              <td className="py-1.5">
+                                <span className={`px-2 py-0.5 text-xs rounded-full ${KIND_STYLES[variant.kind].className}`}>
+                                  {KIND_STYLES[variant.kind].label}
+                                </span>
+                              </td>
+                              <td className="py-1.5 text-right text-gray-700 dark:text-gray-300">{variant.searchVolume.toLocaleString()}</td>
+                              <td className="py-1.5 text-right whitespace-nowrap">
+                                <button
+                                  onClick={() => setStatus(set.brand, variant.keyword, 'accepted')}
+                                  aria-label={`Accept ${variant.keyword}`}
+                                  className={`px-2 py-0.5 text-xs rounded-l-md border border-gray-300 dark:border-gray-600 ${
+                                    variant.status === 'accepted'
+                                      ? 'bg-green-600 border-green-600 text-white'
+                                      : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+                                  }`}
+                                >
+                                  ✓
+                                </button>
+                                <button
+                                  onClick={() => setStatus(set.brand, variant.keyword, 'rejected')}
+                                  aria-label={`Reject ${variant.keyword}`}
+                                  className={`px-2 py-0.5 text-xs rounded-r-md border border-l-0 border-gray-300 dark:border-gray-600 ${
+                                    variant.status === 'rejected'
+                                      ? 'bg-red-600 border-red-600 text-white'
+                                      : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+                                  }`}
+                                >
+                                  ✕
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="px-6 py-3 bg-gray-50 dark:bg-gray-700/50 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Share of Search with accepted variants: <span className="font-semibold">{preview.shareOfSearch}%</span>
+              {' '}({preview.brandVolume.toLocaleString()} of {preview.totalBrandVolume.toLocaleString()} searches)
+              {pendingCount > 0 && (
+                <span className="text-amber-600 dark:text-amber-400"> · {pendingCount} pending variants are not counted</span>
+              )}
+            </p>
+            <button
+              onClick={handleApply}
+              disabled={!isDirty && saved.length > 0}
+              className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              Apply to Share of Search
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useRef, useState } from 'react';
+import type { CTRModel } from '../types';
+import { BUILTIN_CTR_MODELS, parseCustomCTRModel } from '../lib/ctrModels';
+import { SERP_FEATURE_CTR_ADJUSTMENTS } from '../config';
+
+interface CTRModelSelectorProps {
+  selectedModel: CTRModel;
+  customModels: CTRModel[];
+  applySerpAdjustments: boolean;
+  onSelectModel: (modelId: string) => void;
+  onToggleSerpAdjustments: (enabled: boolean) => void;
+  onUploadModel: (model: CTRModel) => void;
+  onDeleteModel: (modelId: string) => void;
+}
+
+const formatAdjustment = (multiplier: number) => `-${Math.round((1 - multiplier) * 100)}%`;
+
+export const CTRModelSelector: React.FC<CTRModelSelectorProps> = ({
+  selectedModel,
+  customModels,
+  applySerpAdjustments,
+  onSelectModel,
+  onToggleSerpAdjustments,
+  onUploadModel,
+  onDeleteModel
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseCustomCTRModel(await file.text());
+    if (!result.success || !result.data) {
+      setUploadError(result.error || 'Invalid CTR model');
+      return;
+    }
+    setUploadError(null);
+    onUploadModel(result.data);
+  };
+
+  const topPositions = [1, 2, 3, 5, 10];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 sm:p-5 mb-6 sm:mb-8">
+      <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+        <div className="flex-1 min-w-0">
+          <label htmlFor="ctr-model" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            CTR model for Share of Voice
+          </label>
+          <div className="flex items-center gap-2">
+            <select
+              id="ctr-model"
+              value={selectedModel.id}
+              onChange={(e) => onSelectModel(e.target.value)}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              <optgroup label="Built-in">
+                {BUILTIN_CTR_MODELS.map(model => (
+                  <option key={model.id} value={model.id}>{model.name}</option>
+                ))}
+              </optgroup>
+              {customModels.length > 0 && (
+                <optgroup label="Custom">
+                  {customModels.map(model => (
+                    <option key={model.id} value={model.id}>{model.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            {selectedModel.source === 'custom' && (
+              <button
+                onClick={() => onDeleteModel(selectedModel.id)}
+                className="px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                aria-label={`Delete custom CTR model ${selectedModel.name}`}
+              >
+                Delete
+              </button>
+            )}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors whitespace-nowrap"
+            >
+              Upload JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+          {selectedModel.description && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{selectedModel.description}</p>
+          )}
+          {uploadError && (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">{uploadError}</p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+          {topPositions.map(position => (
+            <div key={position} className="text-center">
+              <div className="font-medium text-gray-900 dark:text-white">
+                {Math.round((selectedModel.curve[position] ?? selectedModel.defaultCTR) * 1000) / 10}%
+              </div>
+              <div>#{position}</div>
+            </div>
+          ))}
+        </div>
+
+        <label className="flex items-start gap-2 lg:w-64 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={applySerpAdjustments}
+            onChange={(e) => onToggleSerpAdjustments(e.target.checked)}
+            className="mt-0.5 rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+          />
+          <span className="text-sm text-gray-700 dark:text-gray-300">
+            Adjust for SERP features
+            <span className="block text-xs text-gray-500 dark:text-gray-400">
+              Ads {formatAdjustment(SERP_FEATURE_CTR_ADJUSTMENTS.ads)}, featured snippet {formatAdjustment(SERP_FEATURE_CTR_ADJUSTMENTS.featuredSnippet)}, local pack {formatAdjustment(SERP_FEATURE_CTR_ADJUSTMENTS.localPack)}
+            </span>
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+};
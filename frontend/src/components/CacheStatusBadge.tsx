@@ -0,0 +1,51 @@
+import React from 'react';
+import type { CacheInfo } from '../types';
+
+interface CacheStatusBadgeProps {
+  cache?: CacheInfo | null;
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+}
+
+const formatAge = (seconds: number): string => {
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m old`;
+  if (seconds < 86400) return `${Math.round(seconds / 3600)}h old`;
+  return `${Math.round(seconds / 86400)}d old`;
+};
+
+const formatCost = (cost: number): string => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+export const CacheStatusBadge: React.FC<CacheStatusBadgeProps> = ({ cache, onRefresh, isRefreshing = false }) => {
+  if (!cache) return null;
+
+  return (
+    <div className="inline-flex items-center gap-2 text-xs">
+      <span
+        className={`inline-flex items-center gap-1 px-2 py-1 rounded-full ${
+          cache.hit
+            ? 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'
+            : 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300'
+        }`}
+        title={`Fetched ${new Date(cache.fetchedAt).toLocaleString()}`}
+      >
+        {cache.hit ? `Served from cache (${formatAge(cache.ageSeconds)})` : 'Fresh data'}
+      </span>
+      <span className="text-gray-500 dark:text-gray-400">
+        {cache.hit
+          ? `saved ${formatCost(cache.savedCost)}`
+          : `cost ${formatCost(cache.cost)}`}
+      </span>
+      {onRefresh && cache.hit && (
+        <button
+          onClick={onRefresh}
+          disabled={isRefreshing}
+          className="px-2 py-1 text-emerald-600 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/30 rounded transition-colors disabled:opacity-50"
+          aria-label="Refresh data from DataForSEO"
+        >
+          {isRefreshing ? 'Refreshing...' : 'Refresh'}
+        </button>
+      )}
+    </div>
+  );
+};
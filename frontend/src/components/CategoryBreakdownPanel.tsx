@@ -1,10 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import type { CategorySOV, BrandContext } from '../types';
+import type { CategorySOV, BrandContext, CategoryRule, RankedKeyword } from '../types';
+import { CategoryTaxonomyEditor } from './CategoryTaxonomyEditor';
+import { getWorkspaceHeaders } from '../services/workspaceStorage';
 
 interface CategoryBreakdownPanelProps {
   categories: CategorySOV[];
   brandContext?: BrandContext;
   isLoadingInsights?: boolean;
+  // Project taxonomy - the editor is only shown when a save handler is given
+  keywords?: RankedKeyword[];
+  domain?: string;
+  categoryRules?: CategoryRule[];
+  onCategoryRulesChange?: (rules: CategoryRule[]) => void;
 }
 
 const getStatusConfig = (status: CategorySOV['status']) => {
@@ -57,15 +64,29 @@ const getSOVBarColor = (status: CategorySOV['status']): string => {
   }
 };
 
+// Stable default so the insight reset below only fires on real taxonomy changes
+const NO_RULES: CategoryRule[] = [];
+
 export const CategoryBreakdownPanel: React.FC<CategoryBreakdownPanelProps> = ({
   categories,
-  brandContext
+  brandContext,
+  keywords = [],
+  domain,
+  categoryRules = NO_RULES,
+  onCategoryRulesChange
 }) => {
   const [viewMode, setViewMode] = useState<'cards' | 'table'>('cards');
   const [filterStatus, setFilterStatus] = useState<'all' | CategorySOV['status']>('all');
   const [strategicInsight, setStrategicInsight] = useState<string>('');
   const [isGeneratingInsight, setIsGeneratingInsight] = useState(false);
   const [insightGenerated, setInsightGenerated] = useState(false);
+  const [isEditingTaxonomy, setIsEditingTaxonomy] = useState(false);
+
+  // New taxonomy = new categories, so the insight has to be regenerated
+  useEffect(() => {
+    setInsightGenerated(false);
+    setStrategicInsight('');
+  }, [categoryRules]);
 
   // Generate strategic insight when component mounts or data changes
   useEffect(() => {
@@ -76,7 +97,7 @@ export const CategoryBreakdownPanel: React.FC<CategoryBreakdownPanelProps> = ({
       try {
         const response = await fetch('/api/generate-reasoning', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
           body: JSON.stringify({
             opportunities: [{
               id: 'category-insight',
@@ -140,6 +161,32 @@ export const CategoryBreakdownPanel: React.FC<CategoryBreakdownPanelProps> = ({
     weak: categories.filter(c => c.status === 'weak').length
   };
 
+  const taxonomyEditor = onCategoryRulesChange && isEditingTaxonomy && (
+    <CategoryTaxonomyEditor
+      rules={categoryRules}
+      keywords={keywords}
+      domain={domain}
+      onSave={(rules) => {
+        onCategoryRulesChange(rules);
+        setIsEditingTaxonomy(false);
+      }}
+      onClose={() => setIsEditingTaxonomy(false)}
+    />
+  );
+
+  const taxonomyButton = onCategoryRulesChange && (
+    <button
+      onClick={() => setIsEditingTaxonomy(!isEditingTaxonomy)}
+      className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+        isEditingTaxonomy
+          ? 'bg-purple-100 dark:bg-purple-900/40 border-purple-300 dark:border-purple-700 text-purple-700 dark:text-purple-300'
+          : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+      }`}
+    >
+      {categoryRules.length > 0 ? `Taxonomy (${categoryRules.length} rules)` : 'Edit Taxonomy'}
+    </button>
+  );
+
   if (categories.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-8 text-center">
@@ -150,6 +197,8 @@ export const CategoryBreakdownPanel: React.FC<CategoryBreakdownPanelProps> = ({
         <p className="text-gray-500 dark:text-gray-400">
           Category data is not available for your keywords.
         </p>
+        {taxonomyButton && <div className="mt-4">{taxonomyButton}</div>}
+        {taxonomyEditor && <div className="mt-4 text-left">{taxonomyEditor}</div>}
       </div>
     );
   }
@@ -168,34 +217,41 @@ export const CategoryBreakdownPanel: React.FC<CategoryBreakdownPanelProps> = ({
             </h3>
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
               Your Share of Voice performance by category
+              {categoryRules.length > 0 && ' (project taxonomy)'}
             </p>
           </div>
 
-          {/* View Toggle */}
-          <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden">
-            <button
-              onClick={() => setViewMode('cards')}
-              className={`px-3 py-1.5 text-sm ${
-                viewMode === 'cards'
-                  ? 'bg-purple-500 text-white'
-                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-              }`}
-            >
-              Cards
-            </button>
-            <button
-              onClick={() => setViewMode('table')}
-              className={`px-3 py-1.5 text-sm ${
-                viewMode === 'table'
-                  ? 'bg-purple-500 text-white'
-                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-              }`}
-            >
-              Table
-            </button>
+          <div className="flex items-center gap-2">
+            {taxonomyButton}
+
+            {/* View Toggle */}
+            <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden">
+              <button
+                onClick={() => setViewMode('cards')}
+                className={`px-3 py-1.5 text-sm ${
+                  viewMode === 'cards'
+                    ? 'bg-purple-500 text-white'
+                    : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                Cards
+              </button>
+              <button
+                onClick={() => setViewMode('table')}
+                className={`px-3 py-1.5 text-sm ${
+                  viewMode === 'table'
+                    ? 'bg-purple-500 text-white'
+                    : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                Table
+              </button>
+            </div>
           </div>
         </div>
 
+        {taxonomyEditor && <div className="mt-4">{taxonomyEditor}</div>}
+
         {/* AI Strategic Insight */}
         {(isGeneratingInsight || strategicInsight) && (
           <div className="mt-4 p-4 bg-gradient-to-r from-purple-50 to-indigo-50 dark:from-purple-900/20 dark:to-indigo-900/20 border border-purple-200 dark:border-purple-800 rounded-lg">
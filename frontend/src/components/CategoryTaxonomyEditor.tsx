@@ -0,0 +1,230 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { CategoryRule, CategoryRuleType, RankedKeyword } from '../types';
+import {
+  CATEGORY_RULE_TYPES,
+  countRuleMatches,
+  createCategoryRule,
+  exportCategoryTaxonomy,
+  getBuiltInCategoryRules,
+  parseCategoryTaxonomy,
+  validateCategoryRule
+} from '../lib/taxonomy';
+
+interface CategoryTaxonomyEditorProps {
+  rules: CategoryRule[];
+  keywords: RankedKeyword[];
+  domain?: string;
+  onSave: (rules: CategoryRule[]) => void;
+  onClose: () => void;
+}
+
+export const CategoryTaxonomyEditor: React.FC<CategoryTaxonomyEditorProps> = ({
+  rules,
+  keywords,
+  domain,
+  onSave,
+  onClose
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<CategoryRule[]>(rules);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Live preview of the draft against the analysed keywords
+  const preview = useMemo(() => countRuleMatches(keywords, draft), [keywords, draft]);
+  const errors = draft.map(rule => validateCategoryRule(rule));
+  const hasErrors = errors.some(Boolean);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules);
+
+  const updateRule = (id: string, changes: Partial<CategoryRule>) => {
+    setDraft(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    setDraft(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseCategoryTaxonomy(await file.text());
+    if (!result.success || !result.data) {
+      setImportError(result.error || 'Invalid taxonomy');
+      return;
+    }
+    setImportError(null);
+    setDraft(result.data);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportCategoryTaxonomy(draft, domain)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `category-taxonomy${domain ? `-${domain}` : ''}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="border border-purple-200 dark:border-purple-800 rounded-lg overflow-hidden">
+      {/* Toolbar */}
+      <div className="px-4 py-3 bg-purple-50 dark:bg-purple-900/20 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h4 className="text-sm font-semibold text-purple-800 dark:text-purple-300">Category Taxonomy</h4>
+          <p className="text-xs text-purple-700 dark:text-purple-400">
+            Rules are checked top to bottom - the first match decides the category.
+            {draft.length === 0 && ' Without rules the built-in categories are used.'}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {draft.length === 0 && (
+            <button
+              onClick={() => setDraft(getBuiltInCategoryRules())}
+              className="px-3 py-1.5 text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600"
+            >
+              Start from built-in
+            </button>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600"
+          >
+            Import JSON
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button
+            onClick={handleExport}
+            disabled={draft.length === 0}
+            className="px-3 py-1.5 text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {importError && (
+        <p className="px-4 py-2 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20">{importError}</p>
+      )}
+
+      {/* Rules */}
+      <div className="divide-y divide-gray-100 dark:divide-gray-700">
+        {draft.map((rule, index) => {
+          const match = preview.matches[index];
+          const typeConfig = CATEGORY_RULE_TYPES.find(t => t.id === rule.type);
+          return (
+            <div key={rule.id} className="px-4 py-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <div className="flex flex-col">
+                  <button
+                    onClick={() => moveRule(index, -1)}
+                    disabled={index === 0}
+                    aria-label="Move rule up"
+                    className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30 leading-none"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() => moveRule(index, 1)}
+                    disabled={index === draft.length - 1}
+                    aria-label="Move rule down"
+                    className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30 leading-none"
+                  >
+                    ▼
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  value={rule.category}
+                  onChange={(e) => updateRule(rule.id, { category: e.target.value })}
+                  placeholder="Category"
+                  aria-label="Category"
+                  className="w-40 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                />
+                <select
+                  value={rule.type}
+                  onChange={(e) => updateRule(rule.id, { type: e.target.value as CategoryRuleType })}
+                  aria-label="Rule type"
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                >
+                  {CATEGORY_RULE_TYPES.map(t => (
+                    <option key={t.id} value={t.id}>{t.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={rule.pattern}
+                  onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                  placeholder={typeConfig?.placeholder}
+                  aria-label="Pattern"
+                  className="flex-1 min-w-[160px] px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm font-mono"
+                />
+                <span className="w-36 text-right text-xs text-gray-500 dark:text-gray-400" title={`${match?.shadowed ?? 0} more matches already captured by earlier rules`}>
+                  {match?.captured ?? 0} kw · {(match?.capturedVolume ?? 0).toLocaleString()}/mo
+                  {(match?.shadowed ?? 0) > 0 && <span className="text-amber-600 dark:text-amber-400"> (+{match.shadowed})</span>}
+                </span>
+                <button
+                  onClick={() => setDraft(prev => prev.filter(r => r.id !== rule.id))}
+                  aria-label="Delete rule"
+                  className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              {errors[index] && (rule.category || rule.pattern) && (
+                <p className="mt-1 ml-6 text-xs text-red-600 dark:text-red-400">{errors[index]}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Footer */}
+      <div className="px-4 py-3 bg-gray-50 dark:bg-gray-700/50 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setDraft(prev => [...prev, createCategoryRule()])}
+            className="px-3 py-1.5 text-xs font-medium text-purple-700 dark:text-purple-300 bg-purple-100 dark:bg-purple-900/40 rounded-lg hover:bg-purple-200 dark:hover:bg-purple-900/60"
+          >
+            + Add rule
+          </button>
+          {draft.length > 0 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {preview.unmatched} keywords ({preview.unmatchedVolume.toLocaleString()}/mo) fall into &quot;Other&quot;
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+          >
+            {isDirty ? 'Discard' : 'Close'}
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!isDirty || hasErrors}
+            className="px-4 py-1.5 text-sm font-medium bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            Save taxonomy
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
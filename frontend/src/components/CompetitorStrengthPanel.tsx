@@ -1,6 +1,9 @@
-import React, { useState, useEffect } from 'react';
-import type { CompetitorStrength, BrandContext } from '../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import type { CompetitorStrength, BrandContext, CacheInfo, CompetitiveLandscape } from '../types';
+import { CacheStatusBadge } from './CacheStatusBadge';
+import { KeywordOverlapMatrix } from './KeywordOverlapMatrix';
 import { getCompetitorAnalysis, type CompetitorKeywordAnalysis } from '../services/api';
+import { getWorkspaceHeaders } from '../services/workspaceStorage';
 
 interface CompetitorStrengthPanelProps {
   competitors: CompetitorStrength[];
@@ -28,36 +31,40 @@ export const CompetitorStrengthPanel: React.FC<CompetitorStrengthPanelProps> = (
   const [isLoadingAnalysis, setIsLoadingAnalysis] = useState(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [selectedCompetitor, setSelectedCompetitor] = useState<string | null>(null);
+  const [analysisCache, setAnalysisCache] = useState<CacheInfo | null>(null);
+  const [landscape, setLandscape] = useState<CompetitiveLandscape | null>(null);
 
   // Get your SOS from the remaining percentage
   const competitorTotalSOV = competitors.reduce((sum, c) => sum + c.estimatedSOV, 0);
   const yourSOV = Math.max(0, 100 - competitorTotalSOV);
 
   // Fetch deep competitor analysis
-  useEffect(() => {
-    const fetchAnalysis = async () => {
-      if (!domain || !locationCode || !languageCode || competitors.length === 0) return;
-
-      setIsLoadingAnalysis(true);
-      setAnalysisError(null);
-
-      try {
-        const topCompetitors = competitors.slice(0, 3).map(c => c.competitor);
-        const result = await getCompetitorAnalysis(domain, locationCode, languageCode, topCompetitors);
-        setCompetitorAnalysis(result.competitors);
-        if (result.competitors.length > 0) {
-          setSelectedCompetitor(result.competitors[0].competitor);
-        }
-      } catch (err) {
-        console.error('Failed to fetch competitor analysis:', err);
-        setAnalysisError(err instanceof Error ? err.message : 'Failed to analyze competitors');
-      } finally {
-        setIsLoadingAnalysis(false);
+  const fetchAnalysis = useCallback(async (forceRefresh = false) => {
+    if (!domain || !locationCode || !languageCode || competitors.length === 0) return;
+
+    setIsLoadingAnalysis(true);
+    setAnalysisError(null);
+
+    try {
+      const topCompetitors = competitors.slice(0, 3).map(c => c.competitor);
+      const result = await getCompetitorAnalysis(domain, locationCode, languageCode, topCompetitors, forceRefresh);
+      setCompetitorAnalysis(result.competitors);
+      setAnalysisCache(result.cache ?? null);
+      setLandscape(result.landscape ?? null);
+      if (result.competitors.length > 0) {
+        setSelectedCompetitor(result.competitors[0].competitor);
       }
-    };
+    } catch (err) {
+      console.error('Failed to fetch competitor analysis:', err);
+      setAnalysisError(err instanceof Error ? err.message : 'Failed to analyze competitors');
+    } finally {
+      setIsLoadingAnalysis(false);
+    }
+  }, [domain, locationCode, languageCode, competitors]);
 
+  useEffect(() => {
     fetchAnalysis();
-  }, [domain, locationCode, languageCode, competitors]);
+  }, [fetchAnalysis]);
 
   // Get all competitor brand names for filtering
   const competitorBrandNames = competitors.map(c => c.competitor.toLowerCase());
@@ -130,7 +137,7 @@ ${filteredGaps.length > 0 ? filteredGaps.map(g => `- "${g.keyword}" (${g.searchV
 
         const response = await fetch('/api/generate-reasoning', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
           body: JSON.stringify({
             opportunities: [{
               id: 'competitor-insight',
@@ -282,6 +289,15 @@ Write 2-3 sentences:
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
             Keywords where competitors rank better than you (real ranking data)
           </p>
+          {analysisCache && (
+            <div className="mt-2">
+              <CacheStatusBadge
+                cache={analysisCache}
+                onRefresh={() => fetchAnalysis(true)}
+                isRefreshing={isLoadingAnalysis}
+              />
+            </div>
+          )}
         </div>
 
         {isLoadingAnalysis ? (
@@ -521,6 +537,26 @@ Write 2-3 sentences:
         )}
       </div>
 
+      {/* Shared keyword universe: overlap, competitive SOV and position matrix */}
+      {!isLoadingAnalysis && landscape && landscape.domains.length > 1 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <svg className="w-5 h-5 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18m-9-4v8m-7 0h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+              </svg>
+              Keyword Overlap Matrix
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Your keywords and your competitors' combined into one universe, so Share of Voice is comparable across domains
+            </p>
+          </div>
+          <div className="p-6">
+            <KeywordOverlapMatrix landscape={landscape} />
+          </div>
+        </div>
+      )}
+
       {/* AI Strategic Insights - Show after analysis is loaded */}
       {competitorAnalysis.length > 0 && (() => {
         // Filter out brand keywords from priority actions
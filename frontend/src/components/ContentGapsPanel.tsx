@@ -1,8 +1,13 @@
-import React, { useState } from 'react';
-import type { ContentGap } from '../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ContentGap, CacheInfo } from '../types';
+import { CacheStatusBadge } from './CacheStatusBadge';
+import { getCompetitorAnalysis } from '../services/api';
 
 interface ContentGapsPanelProps {
-  contentGaps: ContentGap[];
+  domain?: string;
+  locationCode?: number;
+  languageCode?: string;
+  competitors: string[];
 }
 
 const getPriorityConfig = (priority: ContentGap['priority']) => {
@@ -34,15 +39,50 @@ const getPriorityConfig = (priority: ContentGap['priority']) => {
   }
 };
 
-const getCoverageGap = (yours: number, expected: number): number => {
-  if (expected === 0) return 0;
-  return Math.round(((expected - yours) / expected) * 100);
-};
+// The competitor-analysis route compares at most this many competitors
+const MAX_COMPETITORS = 3;
 
-export const ContentGapsPanel: React.FC<ContentGapsPanelProps> = ({ contentGaps }) => {
+export const ContentGapsPanel: React.FC<ContentGapsPanelProps> = ({
+  domain,
+  locationCode,
+  languageCode,
+  competitors
+}) => {
+  const [contentGaps, setContentGaps] = useState<ContentGap[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cache, setCache] = useState<CacheInfo | null>(null);
+  const [minCompetitors, setMinCompetitors] = useState(2);
   const [filterPriority, setFilterPriority] = useState<'all' | ContentGap['priority']>('all');
   const [expandedGap, setExpandedGap] = useState<string | null>(null);
 
+  const comparedCompetitors = competitors.slice(0, MAX_COMPETITORS);
+  const competitorKey = comparedCompetitors.join('|');
+
+  const fetchGaps = useCallback(async (forceRefresh = false) => {
+    if (!domain || !locationCode || !languageCode || competitorKey === '') return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await getCompetitorAnalysis(
+        domain, locationCode, languageCode, competitorKey.split('|'), forceRefresh, minCompetitors
+      );
+      setContentGaps(result.contentGaps ?? []);
+      setCache(result.cache ?? null);
+    } catch (err) {
+      console.error('Failed to fetch content gaps:', err);
+      setError(err instanceof Error ? err.message : 'Failed to analyze content gaps');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [domain, locationCode, languageCode, competitorKey, minCompetitors]);
+
+  useEffect(() => {
+    fetchGaps();
+  }, [fetchGaps]);
+
   const filteredGaps = contentGaps.filter(
     gap => filterPriority === 'all' || gap.priority === filterPriority
   );
@@ -55,16 +95,14 @@ export const ContentGapsPanel: React.FC<ContentGapsPanelProps> = ({ contentGaps
 
   const handleExport = () => {
     const csv = [
-      ['Topic', 'Category', 'Your Coverage', 'Expected Coverage', 'Coverage Gap %', 'Total Volume', 'Priority', 'Missing Keywords'].join(','),
+      ['Topic', 'Total Volume', 'Priority', 'Competitors', 'Missing Keywords', 'Competitor URLs'].join(','),
       ...filteredGaps.map(gap => [
         `"${gap.topic}"`,
-        `"${gap.category}"`,
-        gap.yourCoverage,
-        gap.avgCompetitorCoverage,
-        getCoverageGap(gap.yourCoverage, gap.avgCompetitorCoverage),
         gap.totalVolume,
         gap.priority,
-        `"${gap.topMissingKeywords.join(', ')}"`
+        `"${gap.competitors.join(', ')}"`,
+        `"${gap.missingKeywords.map(k => k.keyword).join(', ')}"`,
+        `"${gap.competitorUrls.map(u => u.url).join(' ')}"`
       ].join(','))
     ].join('\n');
 
@@ -77,6 +115,57 @@ export const ContentGapsPanel: React.FC<ContentGapsPanelProps> = ({ contentGaps
     URL.revokeObjectURL(url);
   };
 
+  if (comparedCompetitors.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-8 text-center">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No Competitors to Compare</h3>
+        <p className="text-gray-500 dark:text-gray-400">
+          Content gaps are found by comparing your rankings with your competitors&apos; rankings.
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm px-6 py-12 text-center">
+        <svg className="w-8 h-8 text-orange-500 animate-spin mx-auto mb-4" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+        </svg>
+        <p className="text-gray-600 dark:text-gray-400">Comparing competitor rankings...</p>
+        <p className="text-sm text-gray-500 dark:text-gray-500 mt-1">This may take a minute</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm px-6 py-8 text-center">
+        <svg className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+        </svg>
+        <p className="text-gray-600 dark:text-gray-400">{error}</p>
+      </div>
+    );
+  }
+
+  const minCompetitorsSelect = (
+    <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+      Ranked by at least
+      <select
+        value={Math.min(minCompetitors, comparedCompetitors.length)}
+        onChange={(e) => setMinCompetitors(Number(e.target.value))}
+        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+      >
+        {comparedCompetitors.map((_, i) => (
+          <option key={i + 1} value={i + 1}>{i + 1} of {comparedCompetitors.length}</option>
+        ))}
+      </select>
+      competitors
+    </label>
+  );
+
   if (contentGaps.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-8 text-center">
@@ -84,9 +173,10 @@ export const ContentGapsPanel: React.FC<ContentGapsPanelProps> = ({ contentGaps
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
         </svg>
         <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No Content Gaps Found</h3>
-        <p className="text-gray-500 dark:text-gray-400">
-          Your content coverage appears adequate across all categories.
+        <p className="text-gray-500 dark:text-gray-400 mb-4">
+          You rank for every keyword your competitors cover in their top 10.
         </p>
+        <div className="flex justify-center">{minCompetitorsSelect}</div>
       </div>
     );
   }
@@ -104,19 +194,27 @@ export const ContentGapsPanel: React.FC<ContentGapsPanelProps> = ({ contentGaps
               Content Gaps
             </h3>
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-              Topics where you need more content to compete effectively
+              Keywords competitors rank for in the top 10 where you don&apos;t rank at all, grouped by topic
             </p>
+            {cache && (
+              <div className="mt-2">
+                <CacheStatusBadge cache={cache} onRefresh={() => fetchGaps(true)} isRefreshing={isLoading} />
+              </div>
+            )}
           </div>
 
-          <button
-            onClick={handleExport}
-            className="flex items-center gap-2 px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors text-sm"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-            </svg>
-            Export CSV
-          </button>
+          <div className="flex flex-wrap items-center gap-3">
+            {minCompetitorsSelect}
+            <button
+              onClick={handleExport}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors text-sm"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              Export CSV
+            </button>
+          </div>
         </div>
       </div>
 
@@ -133,7 +231,7 @@ export const ContentGapsPanel: React.FC<ContentGapsPanelProps> = ({ contentGaps
             <p className="text-2xl font-bold text-gray-900 dark:text-white">
               {contentGaps.reduce((sum, g) => sum + g.totalVolume, 0).toLocaleString()}
             </p>
-            <p className="text-sm text-gray-500 dark:text-gray-400">Total Volume at Risk</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Missing Search Volume</p>
           </div>
           <div>
             <p className="text-2xl font-bold text-red-600 dark:text-red-400">
@@ -192,13 +290,12 @@ export const ContentGapsPanel: React.FC<ContentGapsPanelProps> = ({ contentGaps
 
       {/* Gaps List */}
       <div className="divide-y divide-gray-200 dark:divide-gray-700">
-        {filteredGaps.map((gap, idx) => {
+        {filteredGaps.map(gap => {
           const config = getPriorityConfig(gap.priority);
-          const coverageGap = getCoverageGap(gap.yourCoverage, gap.avgCompetitorCoverage);
           const isExpanded = expandedGap === gap.topic;
 
           return (
-            <div key={idx} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+            <div key={gap.topic} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
               <button
                 onClick={() => setExpandedGap(isExpanded ? null : gap.topic)}
                 className="w-full p-4 text-left"
@@ -215,29 +312,15 @@ export const ContentGapsPanel: React.FC<ContentGapsPanelProps> = ({ contentGaps
                       {gap.topic}
                     </h4>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      {gap.category}
+                      {gap.missingKeywords.length} missing keyword{gap.missingKeywords.length === 1 ? '' : 's'} · covered by {gap.competitors.join(', ')}
                     </p>
                   </div>
 
-                  {/* Coverage Comparison */}
                   <div className="flex items-center gap-6">
-                    <div className="text-center">
-                      <p className="text-sm text-gray-500 dark:text-gray-400">Your Coverage</p>
-                      <p className="font-semibold text-gray-900 dark:text-white">
-                        {gap.yourCoverage} pages
-                      </p>
-                    </div>
-                    <div className="text-gray-400">vs</div>
-                    <div className="text-center">
-                      <p className="text-sm text-gray-500 dark:text-gray-400">Expected</p>
+                    <div className="text-right">
+                      <p className="text-sm text-gray-500 dark:text-gray-400">Search Volume</p>
                       <p className="font-semibold text-gray-900 dark:text-white">
-                        {gap.avgCompetitorCoverage} pages
-                      </p>
-                    </div>
-                    <div className="text-center">
-                      <p className="text-sm text-gray-500 dark:text-gray-400">Gap</p>
-                      <p className={`font-bold ${config.color}`}>
-                        -{coverageGap}%
+                        {gap.totalVolume.toLocaleString()}
                       </p>
                     </div>
                     <svg
@@ -250,55 +333,65 @@ export const ContentGapsPanel: React.FC<ContentGapsPanelProps> = ({ contentGaps
                     </svg>
                   </div>
                 </div>
-
-                {/* Coverage Bar */}
-                <div className="mt-3">
-                  <div className="h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
-                    <div
-                      className="h-full bg-gradient-to-r from-orange-400 to-red-500 rounded-full"
-                      style={{
-                        width: `${Math.min(100, (gap.yourCoverage / gap.avgCompetitorCoverage) * 100)}%`
-                      }}
-                    />
-                  </div>
-                </div>
               </button>
 
               {/* Expanded Details */}
               {isExpanded && (
-                <div className="px-4 pb-4">
-                  <div className={`p-4 rounded-lg ${config.bgColor} ${config.borderColor} border mb-4`}>
-                    <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <p className="text-sm text-gray-500 dark:text-gray-400">Total Search Volume</p>
-                        <p className="text-xl font-bold text-gray-900 dark:text-white">
-                          {gap.totalVolume.toLocaleString()}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-gray-500 dark:text-gray-400">Pages Needed</p>
-                        <p className="text-xl font-bold text-gray-900 dark:text-white">
-                          +{gap.avgCompetitorCoverage - gap.yourCoverage}
-                        </p>
-                      </div>
-                    </div>
+                <div className="px-4 pb-4 space-y-4">
+                  <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 dark:bg-gray-700/50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-600 dark:text-gray-300">Missing Keyword</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-600 dark:text-gray-300">Volume</th>
+                          {gap.competitors.map(competitor => (
+                            <th key={competitor} className="px-3 py-2 text-center text-xs font-medium text-gray-600 dark:text-gray-300">
+                              {competitor}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                        {gap.missingKeywords.map(kw => (
+                          <tr key={kw.keyword}>
+                            <td className="px-4 py-2 text-gray-900 dark:text-white">{kw.keyword}</td>
+                            <td className="px-4 py-2 text-right text-gray-600 dark:text-gray-400">{kw.searchVolume.toLocaleString()}</td>
+                            {gap.competitors.map(competitor => (
+                              <td key={competitor} className="px-3 py-2 text-center text-gray-600 dark:text-gray-400">
+                                {kw.competitorPositions[competitor] !== undefined ? `#${kw.competitorPositions[competitor]}` : '—'}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
                   </div>
 
-                  {gap.topMissingKeywords.length > 0 && (
+                  {gap.competitorUrls.length > 0 && (
                     <div>
                       <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                        Keywords to Target:
+                        Competitor Pages Ranking:
                       </h5>
-                      <div className="flex flex-wrap gap-2">
-                        {gap.topMissingKeywords.map((kw, kwIdx) => (
-                          <span
-                            key={kwIdx}
-                            className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-full"
-                          >
-                            {kw}
-                          </span>
+                      <ul className="space-y-1">
+                        {gap.competitorUrls.map(page => (
+                          <li key={page.url} className="flex items-center gap-2 text-sm">
+                            <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded text-xs">
+                              {page.competitor}
+                            </span>
+                            <a
+                              href={page.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="truncate text-indigo-600 dark:text-indigo-400 hover:underline"
+                            >
+                              {page.url}
+                            </a>
+                            <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                              {page.keywords} keyword{page.keywords === 1 ? '' : 's'}
+                            </span>
+                          </li>
                         ))}
-                      </div>
+                      </ul>
                     </div>
                   )}
                 </div>
@@ -0,0 +1,229 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { ConversionData, RankedKeyword } from '../types';
+import {
+  MIN_PAGE_SESSIONS,
+  createDefaultConversionData,
+  createRevenueModel,
+  formatRevenue,
+  getRankingPageValues,
+  parseAnalyticsExport
+} from '../lib/conversions';
+
+interface ConversionDataPanelProps {
+  domain: string;
+  keywords: RankedKeyword[];
+  data: ConversionData | null;
+  onChange: (data: ConversionData | null) => void;
+}
+
+const MAX_PAGES_SHOWN = 25;
+
+const inputClass = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const ConversionDataPanel: React.FC<ConversionDataPanelProps> = ({
+  domain,
+  keywords,
+  data,
+  onChange
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const current = data ?? createDefaultConversionData();
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseAnalyticsExport(await file.text());
+    if (!result.success || !result.data) {
+      setImportError(result.error || 'Invalid analytics export');
+      return;
+    }
+    setImportError(null);
+    onChange({
+      ...current,
+      fileName: file.name,
+      importedAt: new Date().toISOString(),
+      pages: result.data
+    });
+  };
+
+  const model = useMemo(() => data ? createRevenueModel(data) : null, [data]);
+  const pages = useMemo(() => model ? getRankingPageValues(keywords, model) : [], [keywords, model]);
+  const pagesWithData = pages.filter(p => p.rates.source === 'page').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Conversion Data</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Import a landing-page report (CSV with page path, sessions, conversions and revenue) from your analytics tool.
+              Quick wins, hidden gems and actions are then ranked by projected revenue instead of clicks.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              {data?.fileName ? 'Replace export' : 'Import export'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="text/csv,.csv,.txt"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            {data && (
+              <button
+                onClick={() => onChange(null)}
+                className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+
+        {importError && (
+          <p className="px-6 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20">{importError}</p>
+        )}
+
+        <div className="px-6 py-4 space-y-4">
+          <div className="flex flex-wrap items-end gap-4 text-sm">
+            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              Default conversion rate
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={0.1}
+                value={current.defaultConversionRate}
+                onChange={e => {
+                  const defaultConversionRate = e.target.valueAsNumber;
+                  if (defaultConversionRate >= 0 && defaultConversionRate <= 100) onChange({ ...current, defaultConversionRate });
+                }}
+                aria-label="Default conversion rate in percent"
+                className={`${inputClass} w-20`}
+              />
+              %
+            </label>
+            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              Default order value
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={current.defaultOrderValue}
+                onChange={e => {
+                  const defaultOrderValue = e.target.valueAsNumber;
+                  if (defaultOrderValue >= 0) onChange({ ...current, defaultOrderValue });
+                }}
+                aria-label="Default order value"
+                className={`${inputClass} w-24`}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              Currency
+              <input
+                key={current.currency}
+                type="text"
+                maxLength={3}
+                defaultValue={current.currency}
+                onBlur={e => {
+                  const currency = e.target.value.trim().toUpperCase();
+                  if (/^[A-Z]{3}$/.test(currency) && currency !== current.currency) onChange({ ...current, currency });
+                }}
+                aria-label="Currency code"
+                className={`${inputClass} w-16 uppercase`}
+              />
+            </label>
+          </div>
+
+          {!data ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No conversion data for {domain} yet, so opportunities are ranked by clicks. Import an export, or set default rates
+              to value every page the same.
+            </p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {data.fileName
+                  ? <><span className="font-medium text-gray-900 dark:text-white">{data.fileName}</span> · {data.pages.length.toLocaleString()} pages, imported {new Date(data.importedAt!).toLocaleDateString()}. </>
+                  : 'No export imported; every page uses the default rates. '}
+                Pages with fewer than {MIN_PAGE_SESSIONS} sessions use the defaults too.
+              </p>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div className="p-3 bg-gray-50 dark:bg-gray-700/30 rounded-lg">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Ranking pages with conversion data</div>
+                  <div className="text-lg font-semibold text-gray-900 dark:text-white">{pagesWithData} / {pages.length}</div>
+                </div>
+                <div className="p-3 bg-gray-50 dark:bg-gray-700/30 rounded-lg">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Average revenue per click</div>
+                  <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {model!.averageRevenuePerClick.toFixed(2)} {data.currency}
+                  </div>
+                </div>
+                <div className="p-3 bg-gray-50 dark:bg-gray-700/30 rounded-lg">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Default revenue per click</div>
+                  <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {((data.defaultConversionRate / 100) * data.defaultOrderValue).toFixed(2)} {data.currency}
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {data && pages.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Ranking Pages</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              The rates each page's clicks are valued at, for the pages with the most ranked keywords.
+            </p>
+          </div>
+          <div className="px-6 py-3 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                  <th className="py-1 text-left font-medium">Page</th>
+                  <th className="py-1 text-right font-medium">Keywords</th>
+                  <th className="py-1 text-right font-medium">Conv. rate</th>
+                  <th className="py-1 text-right font-medium">Order value</th>
+                  <th className="py-1 text-right font-medium">Revenue / click</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {pages.slice(0, MAX_PAGES_SHOWN).map(page => (
+                  <tr key={page.path}>
+                    <td className="py-1.5 text-gray-900 dark:text-white max-w-xs truncate" title={page.path}>
+                      {page.path}
+                      {page.rates.source === 'default' && (
+                        <span className="ml-2 px-1.5 py-0.5 text-[10px] rounded bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400">
+                          default
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{page.keywordCount}</td>
+                    <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{page.rates.conversionRate.toFixed(2)}%</td>
+                    <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{formatRevenue(page.rates.orderValue, data.currency)}</td>
+                    <td className="py-1.5 text-right text-gray-900 dark:text-white">
+                      {page.rates.revenuePerClick.toFixed(2)} {data.currency}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
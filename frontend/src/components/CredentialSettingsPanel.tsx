@@ -0,0 +1,512 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { CredentialAccess, CredentialProvider, CredentialSecrets, CredentialSummary } from '../types';
+import { getCredentials, saveCredential, testCredential, deleteCredential } from '../services/api';
+import { getWorkspaceId, getWorkspaceToken, saveWorkspaceId, saveWorkspaceToken } from '../services/workspaceStorage';
+
+interface CredentialSettingsPanelProps {
+  onClose: () => void;
+}
+
+const PROVIDERS: Array<{ id: CredentialProvider; name: string; description: string }> = [
+  { id: 'dataforseo', name: 'DataForSEO', description: 'Rankings, search volumes, SERPs and trends' },
+  { id: 'youtube', name: 'YouTube Data API', description: 'Channel statistics for YouTube share of voice' },
+  { id: 'anthropic', name: 'Anthropic', description: 'AI insights and recommendations' },
+  { id: 'webhook', name: 'Alert webhook', description: 'JSON POST for every triggered alert (Slack, Zapier, your own endpoint)' },
+  { id: 'smtp', name: 'Alert email (SMTP)', description: 'Mail server and recipients for alert emails' }
+];
+
+interface CredentialForm {
+  login: string; // DataForSEO login or SMTP username
+  password: string;
+  apiKeys: string; // One YouTube key per line
+  apiKey: string;
+  url: string;
+  signingSecret: string;
+  host: string;
+  port: string;
+  secure: boolean;
+  from: string;
+  to: string; // Comma-separated recipients
+}
+
+const EMPTY_FORM: CredentialForm = {
+  login: '',
+  password: '',
+  apiKeys: '',
+  apiKey: '',
+  url: '',
+  signingSecret: '',
+  host: '',
+  port: '587',
+  secure: false,
+  from: '',
+  to: ''
+};
+
+const toSecret = (provider: CredentialProvider, form: CredentialForm): CredentialSecrets[CredentialProvider] => {
+  if (provider === 'dataforseo') return { login: form.login, password: form.password };
+  if (provider === 'youtube') return { apiKeys: form.apiKeys.split('\n').map(k => k.trim()).filter(Boolean) };
+  if (provider === 'webhook') return { url: form.url.trim(), ...(form.signingSecret.trim() ? { signingSecret: form.signingSecret.trim() } : {}) };
+  if (provider === 'smtp') {
+    return {
+      host: form.host.trim(),
+      port: Number(form.port),
+      secure: form.secure,
+      ...(form.login.trim() ? { username: form.login.trim(), password: form.password } : {}),
+      from: form.from.trim(),
+      to: form.to.split(',').map(a => a.trim()).filter(Boolean)
+    };
+  }
+  return { apiKey: form.apiKey };
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm font-mono focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+
+export const CredentialSettingsPanel: React.FC<CredentialSettingsPanelProps> = ({ onClose }) => {
+  const [workspaceInput, setWorkspaceInput] = useState(getWorkspaceId());
+  const [workspaceId, setWorkspaceId] = useState(getWorkspaceId());
+  const [tokenInput, setTokenInput] = useState(getWorkspaceToken() ?? '');
+  const [vaultEnabled, setVaultEnabled] = useState(false);
+  const [access, setAccess] = useState<CredentialAccess | null>(null);
+  const [workspaceToken, setWorkspaceToken] = useState<string | null>(null);
+  const [credentials, setCredentials] = useState<CredentialSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<CredentialProvider | null>(null);
+  const [form, setForm] = useState<CredentialForm>(EMPTY_FORM);
+  const [busy, setBusy] = useState<CredentialProvider | null>(null);
+
+  const loadCredentials = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await getCredentials();
+      setWorkspaceId(data.workspaceId);
+      setVaultEnabled(data.vaultEnabled);
+      setAccess(data.access);
+      setWorkspaceToken(data.workspaceToken);
+      setCredentials(data.credentials);
+    } catch (err) {
+      // Without a valid token the server refuses the workspace, so show nothing of the previous one
+      setAccess(null);
+      setWorkspaceToken(null);
+      setCredentials([]);
+      setError(err instanceof Error ? err.message : 'Failed to load credentials');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCredentials();
+  }, [loadCredentials]);
+
+  const handleSwitchWorkspace = (e: React.FormEvent) => {
+    e.preventDefault();
+    const switched = saveWorkspaceId(workspaceInput);
+    setWorkspaceInput(switched);
+    setWorkspaceId(switched);
+    setTokenInput(getWorkspaceToken(switched) ?? '');
+    setEditing(null);
+    loadCredentials();
+  };
+
+  const handleSaveToken = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveWorkspaceToken(tokenInput);
+    setEditing(null);
+    loadCredentials();
+  };
+
+  const startEditing = (provider: CredentialProvider) => {
+    setEditing(provider);
+    setForm(EMPTY_FORM);
+    setError(null);
+  };
+
+  const handleSave = async (provider: CredentialProvider) => {
+    try {
+      setBusy(provider);
+      setError(null);
+      await saveCredential(provider, toSecret(provider, form));
+      // Drop the secret from memory as soon as the server has it
+      setForm(EMPTY_FORM);
+      setEditing(null);
+      await testCredential(provider);
+      await loadCredentials();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save credential');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleTest = async (provider: CredentialProvider) => {
+    try {
+      setBusy(provider);
+      setError(null);
+      const result = await testCredential(provider);
+      // Environment credentials have no stored status, so apply the result locally
+      setCredentials(prev => prev.map(c => c.provider === provider
+        ? { ...c, lastTestedAt: result.testedAt, lastTestOk: result.ok, lastTestError: result.error }
+        : c));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to test credential');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRemove = async (provider: CredentialProvider) => {
+    if (!window.confirm('Remove this credential from the workspace?')) return;
+    try {
+      setBusy(provider);
+      setError(null);
+      await deleteCredential(provider);
+      await loadCredentials();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove credential');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const canSave = (provider: CredentialProvider): boolean => {
+    if (provider === 'dataforseo') return !!form.login.trim() && !!form.password.trim();
+    if (provider === 'youtube') return !!form.apiKeys.trim();
+    if (provider === 'webhook') return !!form.url.trim();
+    if (provider === 'smtp') return !!form.host.trim() && !!form.port && !!form.from.trim() && !!form.to.trim();
+    return !!form.apiKey.trim();
+  };
+
+  const renderForm = (provider: CredentialProvider) => (
+    <div className="mt-3 space-y-2">
+      {provider === 'dataforseo' && (
+        <div className="grid sm:grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={form.login}
+            onChange={(e) => setForm({ ...form, login: e.target.value })}
+            placeholder="Login (account email)"
+            aria-label="DataForSEO login"
+            autoComplete="off"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={form.password}
+            onChange={(e) => setForm({ ...form, password: e.target.value })}
+            placeholder="API password"
+            aria-label="DataForSEO API password"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+        </div>
+      )}
+      {provider === 'youtube' && (
+        <textarea
+          value={form.apiKeys}
+          onChange={(e) => setForm({ ...form, apiKeys: e.target.value })}
+          placeholder="One API key per line - later keys are used when earlier ones run out of quota"
+          aria-label="YouTube API keys"
+          rows={3}
+          autoComplete="off"
+          spellCheck={false}
+          className={inputClass}
+        />
+      )}
+      {provider === 'anthropic' && (
+        <input
+          type="password"
+          value={form.apiKey}
+          onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+          placeholder="sk-ant-..."
+          aria-label="Anthropic API key"
+          autoComplete="new-password"
+          className={inputClass}
+        />
+      )}
+      {provider === 'webhook' && (
+        <div className="grid sm:grid-cols-2 gap-2">
+          <input
+            type="url"
+            value={form.url}
+            onChange={(e) => setForm({ ...form, url: e.target.value })}
+            placeholder="https://hooks.example.com/..."
+            aria-label="Webhook URL"
+            autoComplete="off"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={form.signingSecret}
+            onChange={(e) => setForm({ ...form, signingSecret: e.target.value })}
+            placeholder="Signing secret (optional)"
+            aria-label="Webhook signing secret"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+        </div>
+      )}
+      {provider === 'smtp' && (
+        <>
+          <div className="grid sm:grid-cols-[1fr_6rem_auto] gap-2 items-center">
+            <input
+              type="text"
+              value={form.host}
+              onChange={(e) => setForm({ ...form, host: e.target.value })}
+              placeholder="smtp.example.com"
+              aria-label="SMTP host"
+              autoComplete="off"
+              className={inputClass}
+            />
+            <input
+              type="number"
+              value={form.port}
+              onChange={(e) => setForm({ ...form, port: e.target.value })}
+              aria-label="SMTP port"
+              min={1}
+              max={65535}
+              className={inputClass}
+            />
+            <label className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={form.secure}
+                onChange={(e) => setForm({ ...form, secure: e.target.checked, port: e.target.checked ? '465' : '587' })}
+                className="rounded text-emerald-600 focus:ring-emerald-500"
+              />
+              Implicit TLS
+            </label>
+          </div>
+          <div className="grid sm:grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={form.login}
+              onChange={(e) => setForm({ ...form, login: e.target.value })}
+              placeholder="Username (optional)"
+              aria-label="SMTP username"
+              autoComplete="off"
+              className={inputClass}
+            />
+            <input
+              type="password"
+              value={form.password}
+              onChange={(e) => setForm({ ...form, password: e.target.value })}
+              placeholder="Password"
+              aria-label="SMTP password"
+              autoComplete="new-password"
+              className={inputClass}
+            />
+            <input
+              type="email"
+              value={form.from}
+              onChange={(e) => setForm({ ...form, from: e.target.value })}
+              placeholder="alerts@example.com"
+              aria-label="Sender address"
+              autoComplete="off"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={form.to}
+              onChange={(e) => setForm({ ...form, to: e.target.value })}
+              placeholder="Recipients, comma-separated"
+              aria-label="Recipients"
+              autoComplete="off"
+              className={inputClass}
+            />
+          </div>
+        </>
+      )}
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={() => setEditing(null)}
+          className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => handleSave(provider)}
+          disabled={!canSave(provider) || busy === provider}
+          className="px-4 py-1.5 text-sm font-medium bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+        >
+          {busy === provider ? 'Saving...' : 'Save & test'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 dark:bg-opacity-70 z-50 overflow-y-auto">
+      <div className="min-h-screen py-8 px-4">
+        <div className="max-w-2xl mx-auto bg-white dark:bg-gray-800 rounded-xl shadow-2xl">
+          {/* Header */}
+          <div className="border-b border-gray-200 dark:border-gray-700 px-6 py-4 flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">API Credentials</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Stored encrypted on the server - secrets are never sent back to the browser</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              aria-label="Close settings"
+            >
+              <svg className="w-6 h-6 text-gray-500 dark:text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="px-6 py-5 space-y-5">
+            {/* Workspace */}
+            <form onSubmit={handleSwitchWorkspace} className="flex flex-col sm:flex-row sm:items-end gap-2">
+              <div className="flex-1">
+                <label htmlFor="workspace" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Workspace
+                </label>
+                <input
+                  id="workspace"
+                  type="text"
+                  value={workspaceInput}
+                  onChange={(e) => setWorkspaceInput(e.target.value)}
+                  placeholder="default"
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={workspaceInput.toLowerCase().trim() === workspaceId}
+                className="px-4 py-2 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                Switch
+              </button>
+            </form>
+
+            {/* Token */}
+            <form onSubmit={handleSaveToken} className="flex flex-col sm:flex-row sm:items-end gap-2">
+              <div className="flex-1">
+                <label htmlFor="workspace-token" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Admin or workspace token
+                </label>
+                <input
+                  id="workspace-token"
+                  type="password"
+                  value={tokenInput}
+                  onChange={(e) => setTokenInput(e.target.value)}
+                  placeholder="Needed for workspaces other than default, and to change credentials"
+                  autoComplete="off"
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={tokenInput.trim() === (getWorkspaceToken(workspaceId) ?? '')}
+                className="px-4 py-2 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                Use token
+              </button>
+            </form>
+
+            {!isLoading && !access && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Credentials are read-only in this browser. The server admin's <code>CREDENTIALS_ADMIN_TOKEN</code> works for
+                every workspace; a workspace token only for its own workspace, never for <code>default</code>.
+              </p>
+            )}
+
+            {workspaceToken && (
+              <div className="p-3 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-700 dark:text-gray-300">
+                Token for the <strong>{workspaceId}</strong> workspace - share it with the people who manage this workspace's credentials:
+                <code className="block mt-1 font-mono text-xs break-all select-all">{workspaceToken}</code>
+              </div>
+            )}
+
+            {!isLoading && !vaultEnabled && (
+              <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-300">
+                The credential vault is not configured. Set <code>DATABASE_URL</code> and <code>CREDENTIALS_MASTER_KEY</code> on
+                the server to store credentials per workspace. Until then the server environment variables are used.
+              </div>
+            )}
+
+            {error && (
+              <div className="p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+                {error}
+              </div>
+            )}
+
+            {/* Providers */}
+            {isLoading ? (
+              <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">Loading credentials...</p>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                {PROVIDERS.map(({ id, name, description }) => {
+                  const credential = credentials.find(c => c.provider === id);
+                  const isConfigured = !!credential?.source;
+                  return (
+                    <div key={id} className="px-4 py-3">
+                      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-gray-900 dark:text-white">{name}</span>
+                            {credential?.source === 'environment' && (
+                              <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">Server env</span>
+                            )}
+                            {credential?.lastTestOk === true && (
+                              <span className="px-2 py-0.5 text-xs rounded-full bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300">Working</span>
+                            )}
+                            {credential?.lastTestOk === false && (
+                              <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300">Failed</span>
+                            )}
+                          </div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {isConfigured ? credential?.hint : description}
+                            {credential?.updatedAt && ` · updated ${new Date(credential.updatedAt).toLocaleDateString()}`}
+                          </p>
+                          {credential?.lastTestOk === false && credential.lastTestError && (
+                            <p className="text-xs text-red-600 dark:text-red-400 mt-0.5">{credential.lastTestError}</p>
+                          )}
+                        </div>
+                        {editing !== id && (
+                          <div className="flex items-center gap-2">
+                            {access && isConfigured && (
+                              <button
+                                onClick={() => handleTest(id)}
+                                disabled={busy === id}
+                                className="px-3 py-1.5 text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-50"
+                              >
+                                {busy === id ? 'Testing...' : 'Test'}
+                              </button>
+                            )}
+                            {access && vaultEnabled && (
+                              <button
+                                onClick={() => startEditing(id)}
+                                className="px-3 py-1.5 text-xs font-medium text-emerald-700 dark:text-emerald-300 bg-emerald-100 dark:bg-emerald-900/40 rounded-lg hover:bg-emerald-200 dark:hover:bg-emerald-900/60"
+                              >
+                                {credential?.source === 'workspace' ? 'Rotate' : 'Add'}
+                              </button>
+                            )}
+                            {access && vaultEnabled && credential?.source === 'workspace' && (
+                              <button
+                                onClick={() => handleRemove(id)}
+                                disabled={busy === id}
+                                className="px-3 py-1.5 text-xs text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 disabled:opacity-50"
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      {editing === id && renderForm(id)}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
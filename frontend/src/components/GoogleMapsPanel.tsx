@@ -1,4 +1,8 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { CacheInfo } from '../types';
+import { CacheStatusBadge } from './CacheStatusBadge';
+import { getWorkspaceHeaders } from '../services/workspaceStorage';
+import { loadChannelAnalysis, removeChannelAnalysis, storeChannelAnalysis } from '../services/projectSync';
 
 // Location data structure for hierarchical selection
 interface LocationOption {
@@ -461,6 +465,7 @@ interface GoogleMapsResponse {
   searchedKeywords: string[];
   location: string;
   timestamp: string;
+  cache?: CacheInfo | null;
   methodology?: {
     presenceFormula: string;
     reviewShareFormula: string;
@@ -484,6 +489,7 @@ interface SavedAnalysis {
 
 interface GoogleMapsPanelProps {
   brandName: string;
+  domain?: string; // Attributes DataForSEO spend to the project's cost ledger
   competitors: string[];
   locationCode?: number;
   languageCode?: string;
@@ -704,7 +710,7 @@ function generateDefaultSearchTerms(industry: string, brandType: BrandType, bran
   return terms.slice(0, 4);
 }
 
-export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, languageCode = 'en', industry }: GoogleMapsPanelProps) {
+export function GoogleMapsPanel({ brandName, domain, competitors, locationCode = 2840, languageCode = 'en', industry }: GoogleMapsPanelProps) {
   // Infer the actual industry and brand type from brand/competitors
   const brandInfo = inferBrandInfo(brandName, competitors, industry);
   const detectedIndustry = brandInfo.industry;
@@ -800,8 +806,9 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
     }
   }, [detectedIndustry, brandType, brandName, hasInitializedTerms, searchTerms.length]);
 
-  // Load saved analyses on mount
+  // Load saved analyses on mount, then the tracked project's copy if it has a newer one
   useEffect(() => {
+    let localData: GoogleMapsResponse | null = null;
     const saved = localStorage.getItem(STORAGE_KEY);
     if (saved) {
       try {
@@ -809,13 +816,22 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
         setSavedAnalyses(analyses);
         const currentAnalysis = analyses.find(a => a.brandName.toLowerCase() === brandName.toLowerCase());
         if (currentAnalysis) {
+          localData = currentAnalysis.data;
           setData(currentAnalysis.data);
         }
       } catch {
         console.error('Failed to load saved analyses');
       }
     }
-  }, [brandName]);
+
+    let cancelled = false;
+    loadChannelAnalysis<GoogleMapsResponse>(domain, locationCode, 'local').then(remote => {
+      if (cancelled || !remote || remote.timestamp === localData?.timestamp) return;
+      setData(remote);
+      setInsights(null);
+    });
+    return () => { cancelled = true; };
+  }, [brandName, domain, locationCode]);
 
   // Generate AI insights when data is loaded
   useEffect(() => {
@@ -839,6 +855,7 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
     const updated = [newAnalysis, ...filtered];
     setSavedAnalyses(updated);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    storeChannelAnalysis(domain, locationCode, 'local', analysisData);
   };
 
   const deleteCurrentAnalysis = () => {
@@ -857,6 +874,7 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
     );
     setSavedAnalyses(filtered);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    removeChannelAnalysis(domain, locationCode, 'local');
 
     setData(null);
     setError(null);
@@ -871,7 +889,7 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
     try {
       const response = await fetch('/api/generate-channel-insights', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
         body: JSON.stringify({
           type: 'google-maps',
           brandName,
@@ -901,7 +919,7 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
     }
   };
 
-  const fetchGoogleMaps = async () => {
+  const fetchGoogleMaps = async (forceRefresh = false) => {
     if (!brandName) return;
 
     setIsLoading(true);
@@ -910,13 +928,15 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
     try {
       const response = await fetch('/api/google-maps', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
         body: JSON.stringify({
           brandName,
           competitors: competitors.slice(0, 4),
           locationCode: effectiveLocationCode,
           languageCode,
           searchTerms,
+          domain,
+          forceRefresh,
         }),
       });
 
@@ -959,7 +979,7 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
     try {
       const response = await fetch('/api/keyword-suggestions', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
         body: JSON.stringify({
           seedKeyword: seedKeyword.trim(),
           locationCode: effectiveLocationCode,
@@ -1358,7 +1378,7 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
         {/* Run Analysis Button */}
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6">
           <button
-            onClick={fetchGoogleMaps}
+            onClick={() => fetchGoogleMaps()}
             className="w-full px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium flex items-center justify-center gap-2"
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1405,7 +1425,7 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
           <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">Failed to Fetch Data</h3>
           <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{error}</p>
           <button
-            onClick={fetchGoogleMaps}
+            onClick={() => fetchGoogleMaps()}
             className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
           >
             Try Again
@@ -1423,7 +1443,10 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
     <div className="space-y-6">
       {/* Analysis timestamp and current location */}
       <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
-        <span>Analysis from: {formatDateTime(data.timestamp)}</span>
+        <span className="flex items-center gap-3">
+          Analysis from: {formatDateTime(data.timestamp)}
+          <CacheStatusBadge cache={data.cache} onRefresh={() => fetchGoogleMaps(true)} isRefreshing={isLoading} />
+        </span>
         <span className="flex items-center gap-1">
           <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
             <path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
@@ -1526,7 +1549,7 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
 
           {/* Re-run Button */}
           <button
-            onClick={fetchGoogleMaps}
+            onClick={() => fetchGoogleMaps()}
             className="w-full px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium flex items-center justify-center gap-2"
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -2114,7 +2137,7 @@ export function GoogleMapsPanel({ brandName, competitors, locationCode = 2840, l
       {/* Action buttons */}
       <div className="flex justify-center gap-3">
         <button
-          onClick={fetchGoogleMaps}
+          onClick={() => fetchGoogleMaps()}
           className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center gap-2"
         >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,306 @@
+import React, { useMemo, useState } from 'react';
+import type {
+  KeywordColumnMapping,
+  KeywordExportTable,
+  KeywordImportConfig,
+  KeywordImportField,
+  KeywordImportIssueType
+} from '../types';
+import { LOCATIONS, type LocationKey } from '../config';
+import { extractBrandFromDomain } from '../../shared/brandVariants';
+import { decodeCSVFile } from '../lib/csv';
+import {
+  KEYWORD_IMPORT_FIELDS,
+  KEYWORD_IMPORT_PRESETS,
+  collectBrandKeywords,
+  detectKeywordPreset,
+  getMissingFields,
+  importBrandKeywordRows,
+  importRankedKeywords,
+  mapColumns,
+  readKeywordExport
+} from '../lib/keywordImport';
+
+interface KeywordImportPanelProps {
+  onImport: (config: KeywordImportConfig) => void;
+  isLoading: boolean;
+}
+
+interface LoadedExport {
+  fileName: string;
+  table: KeywordExportTable;
+  presetId: string;
+  mapping: KeywordColumnMapping;
+}
+
+const ISSUE_LABELS: Record<KeywordImportIssueType, string> = {
+  'missing-keyword': 'without keyword',
+  'missing-volume': 'missing volume',
+  'position-out-of-range': 'position out of range',
+  'duplicate': 'duplicates removed',
+  'over-limit': 'over the keyword limit'
+};
+
+const MAX_ISSUES_SHOWN = 8;
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+const selectClass = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const loadExport = async (file: File): Promise<LoadedExport | string> => {
+  const result = readKeywordExport(decodeCSVFile(await file.arrayBuffer()));
+  if (!result.success || !result.data) return result.error || 'Invalid export';
+  const preset = detectKeywordPreset(result.data.headers);
+  return { fileName: file.name, table: result.data, presetId: preset.id, mapping: mapColumns(result.data.headers, preset) };
+};
+
+// Preset picker and one column select per field
+const ColumnMapper: React.FC<{
+  data: LoadedExport;
+  fields: KeywordImportField[];
+  onChange: (data: LoadedExport) => void;
+}> = ({ data, fields, onChange }) => (
+  <div className="space-y-2 text-sm">
+    <label className="flex items-center justify-between gap-2 text-gray-700 dark:text-gray-300">
+      Format
+      <select
+        value={data.presetId}
+        onChange={e => {
+          const preset = KEYWORD_IMPORT_PRESETS.find(p => p.id === e.target.value)!;
+          onChange({ ...data, presetId: preset.id, mapping: mapColumns(data.table.headers, preset) });
+        }}
+        className={selectClass}
+      >
+        {KEYWORD_IMPORT_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+      </select>
+    </label>
+    {KEYWORD_IMPORT_FIELDS.filter(f => fields.includes(f.field)).map(({ field, label, required }) => (
+      <label key={field} className="flex items-center justify-between gap-2 text-gray-700 dark:text-gray-300">
+        <span>{label}{required && <span className="text-red-500"> *</span>}</span>
+        <select
+          value={data.mapping[field]}
+          onChange={e => onChange({ ...data, mapping: { ...data.mapping, [field]: Number(e.target.value) } })}
+          className={`${selectClass} max-w-[55%]`}
+        >
+          <option value={-1}>—</option>
+          {data.table.headers.map((header, index) => <option key={index} value={index}>{header}</option>)}
+        </select>
+      </label>
+    ))}
+  </div>
+);
+
+export const KeywordImportPanel: React.FC<KeywordImportPanelProps> = ({ onImport, isLoading }) => {
+  const [domain, setDomain] = useState('');
+  const [brandName, setBrandName] = useState('');
+  const [market, setMarket] = useState<LocationKey>('germany');
+  const [competitorsInput, setCompetitorsInput] = useState('');
+  const [rankings, setRankings] = useState<LoadedExport | null>(null);
+  const [brandList, setBrandList] = useState<LoadedExport | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = (setter: (data: LoadedExport | null) => void) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const loaded = await loadExport(file);
+    if (typeof loaded === 'string') {
+      setFileError(`${file.name}: ${loaded}`);
+      return;
+    }
+    setFileError(null);
+    setter(loaded);
+  };
+
+  const normalizedDomain = domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '');
+  const brand = brandName.trim().toLowerCase() || extractBrandFromDomain(normalizedDomain);
+  const competitors = useMemo(
+    () => competitorsInput.split(',').map(c => c.trim().toLowerCase()).filter(c => c.length > 0),
+    [competitorsInput]
+  );
+
+  const rankingsMissing = rankings ? getMissingFields(rankings.mapping) : [];
+  const ranked = useMemo(
+    () => rankings && getMissingFields(rankings.mapping).length === 0 ? importRankedKeywords(rankings.table, rankings.mapping) : null,
+    [rankings]
+  );
+
+  const brandListMissing = brandList ? getMissingFields(brandList.mapping, false) : [];
+  const brandRows = useMemo(
+    () => brandList && getMissingFields(brandList.mapping, false).length === 0 ? importBrandKeywordRows(brandList.table, brandList.mapping) : null,
+    [brandList]
+  );
+
+  // A brand search list replaces the brand searches found among the rankings
+  const brandKeywords = brandList
+    ? (brandRows ? collectBrandKeywords(brandRows.keywords, brand, competitors, true) : [])
+    : (ranked ? collectBrandKeywords(ranked.keywords, brand, competitors) : []);
+
+  const issues = [...(ranked?.issues ?? []), ...(brandRows?.issues ?? [])];
+  const issueCounts = issues.reduce((acc, issue) => {
+    acc[issue.type] = (acc[issue.type] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<KeywordImportIssueType, number>>);
+
+  const canImport = !!normalizedDomain && !!ranked && ranked.keywords.length > 0 && brandKeywords.length > 0 && !isLoading;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canImport || !ranked) return;
+    const location = LOCATIONS[market];
+    onImport({
+      domain: normalizedDomain,
+      brandName: brand,
+      locationCode: location.code,
+      locationName: location.name,
+      languageCode: location.languageCode,
+      competitors,
+      brandKeywords,
+      rankedKeywords: ranked.keywords
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Import Keyword Data</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Create a project from an Ahrefs, Semrush, Sistrix or other rank-tracker export instead of fetching rankings
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2">
+            <label htmlFor="import-domain" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Domain</label>
+            <input
+              id="import-domain"
+              type="text"
+              value={domain}
+              onChange={e => setDomain(e.target.value)}
+              placeholder="e.g., lavera.de"
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="import-brand" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Brand name</label>
+            <input
+              id="import-brand"
+              type="text"
+              value={brandName}
+              onChange={e => setBrandName(e.target.value)}
+              placeholder={extractBrandFromDomain(normalizedDomain) || 'from domain'}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="import-market" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Market</label>
+            <select
+              id="import-market"
+              value={market}
+              onChange={e => setMarket(e.target.value as LocationKey)}
+              className={inputClass}
+            >
+              {Object.entries(LOCATIONS).map(([key, { name }]) => <option key={key} value={key}>{name}</option>)}
+            </select>
+          </div>
+          <div className="col-span-2">
+            <label htmlFor="import-competitors" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Competitor brands
+            </label>
+            <input
+              id="import-competitors"
+              type="text"
+              value={competitorsInput}
+              onChange={e => setCompetitorsInput(e.target.value)}
+              placeholder="e.g., weleda, dr hauschka"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Rankings {rankings && <span className="font-normal text-gray-500 dark:text-gray-400">· {rankings.fileName}</span>}
+            </span>
+            <label className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 cursor-pointer">
+              {rankings ? 'Replace' : 'Choose CSV'}
+              <input type="file" accept="text/csv,.csv,.tsv,.txt" onChange={handleFile(setRankings)} className="hidden" />
+            </label>
+          </div>
+          {rankings && (
+            <ColumnMapper data={rankings} fields={KEYWORD_IMPORT_FIELDS.map(f => f.field)} onChange={setRankings} />
+          )}
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Brand searches <span className="font-normal text-gray-500 dark:text-gray-400">
+                {brandList ? `· ${brandList.fileName}` : '(optional keyword + volume list)'}
+              </span>
+            </span>
+            <div className="flex gap-1">
+              {brandList && (
+                <button
+                  type="button"
+                  onClick={() => setBrandList(null)}
+                  className="px-2 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg"
+                >
+                  Remove
+                </button>
+              )}
+              <label className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 cursor-pointer">
+                {brandList ? 'Replace' : 'Choose CSV'}
+                <input type="file" accept="text/csv,.csv,.tsv,.txt" onChange={handleFile(setBrandList)} className="hidden" />
+              </label>
+            </div>
+          </div>
+          {brandList && <ColumnMapper data={brandList} fields={['keyword', 'searchVolume']} onChange={setBrandList} />}
+        </div>
+
+        {fileError && <p className="text-sm text-red-600 dark:text-red-400">{fileError}</p>}
+        {rankingsMissing.length > 0 && (
+          <p className="text-sm text-red-600 dark:text-red-400">Map the rankings columns for: {rankingsMissing.join(', ')}</p>
+        )}
+        {brandListMissing.length > 0 && (
+          <p className="text-sm text-red-600 dark:text-red-400">Map the brand list columns for: {brandListMissing.join(', ')}</p>
+        )}
+
+        {ranked && (
+          <div className="p-3 bg-gray-50 dark:bg-gray-700/30 rounded-lg text-sm space-y-1">
+            <div className="text-gray-900 dark:text-white">
+              {ranked.keywords.length.toLocaleString()} of {ranked.totalRows.toLocaleString()} rows imported ·{' '}
+              {brandKeywords.filter(k => k.isOwnBrand).length} own / {brandKeywords.filter(k => !k.isOwnBrand).length} competitor brand searches
+            </div>
+            {(Object.entries(issueCounts) as [KeywordImportIssueType, number][]).map(([type, count]) => (
+              <div key={type} className="text-amber-700 dark:text-amber-300">{count.toLocaleString()} {ISSUE_LABELS[type]}</div>
+            ))}
+            {issues.length > 0 && (
+              <ul className="mt-1 text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+                {issues.slice(0, MAX_ISSUES_SHOWN).map((issue, i) => (
+                  <li key={i}>
+                    {issue.row !== undefined && `Row ${issue.row}: `}{issue.keyword && `"${issue.keyword}" – `}{issue.message}
+                  </li>
+                ))}
+                {issues.length > MAX_ISSUES_SHOWN && <li>…and {issues.length - MAX_ISSUES_SHOWN} more</li>}
+              </ul>
+            )}
+            {brandKeywords.length === 0 && (
+              <p className="text-red-600 dark:text-red-400">
+                No brand searches found for "{brand}" or the competitors. Add competitor brands or a brand search list.
+              </p>
+            )}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!canImport}
+          className="w-full py-2.5 bg-emerald-600 text-white rounded-lg font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Calculating...' : 'Create project'}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useMemo, useState } from 'react';
+import type { CompetitiveLandscape, KeywordMatrixRow } from '../types';
+
+interface KeywordOverlapMatrixProps {
+  landscape: CompetitiveLandscape;
+}
+
+type SortKey = 'keyword' | 'searchVolume' | string; // string = domain position column
+type MatrixFilter = 'all' | 'shared' | 'gaps' | 'unique';
+
+const ROW_LIMIT = 25;
+
+const FILTERS: Array<{ id: MatrixFilter; label: string }> = [
+  { id: 'all', label: 'All keywords' },
+  { id: 'shared', label: 'Everyone ranks' },
+  { id: 'gaps', label: 'Your gaps' },
+  { id: 'unique', label: 'Only you' }
+];
+
+const positionClass = (position: number | null): string => {
+  if (position === null) return 'text-gray-300 dark:text-gray-600';
+  if (position <= 3) return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300';
+  if (position <= 10) return 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300';
+  if (position <= 20) return 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300';
+  return 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300';
+};
+
+export const KeywordOverlapMatrix: React.FC<KeywordOverlapMatrixProps> = ({ landscape }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('searchVolume');
+  const [sortDesc, setSortDesc] = useState(true);
+  const [filter, setFilter] = useState<MatrixFilter>('all');
+  const [showAll, setShowAll] = useState(false);
+
+  // You first, then competitors by SOV
+  const columns = useMemo(
+    () => [...landscape.domains].sort((a, b) => Number(b.isYou) - Number(a.isYou)),
+    [landscape.domains]
+  );
+  const you = columns.find(d => d.isYou);
+  const labelFor = (domain: string) => columns.find(d => d.domain === domain)?.label ?? domain;
+
+  const rows = useMemo(() => {
+    const matches = (row: KeywordMatrixRow) => {
+      const ranking = columns.filter(d => row.positions[d.domain] !== null);
+      const youRank = you ? row.positions[you.domain] !== null : false;
+      if (filter === 'shared') return ranking.length === columns.length;
+      if (filter === 'gaps') return !youRank;
+      if (filter === 'unique') return youRank && ranking.length === 1;
+      return true;
+    };
+
+    return landscape.matrix.filter(matches).sort((a, b) => {
+      if (sortKey === 'keyword') {
+        return sortDesc ? b.keyword.localeCompare(a.keyword) : a.keyword.localeCompare(b.keyword);
+      }
+      if (sortKey === 'searchVolume') {
+        return sortDesc ? b.searchVolume - a.searchVolume : a.searchVolume - b.searchVolume;
+      }
+      // Position columns: unranked always sorts last
+      const pa = a.positions[sortKey] ?? Infinity;
+      const pb = b.positions[sortKey] ?? Infinity;
+      if (pa === pb) return b.searchVolume - a.searchVolume;
+      if (pa === Infinity) return 1;
+      if (pb === Infinity) return -1;
+      return sortDesc ? pb - pa : pa - pb;
+    });
+  }, [landscape.matrix, columns, you, filter, sortKey, sortDesc]);
+
+  const handleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      // Volume reads best high-to-low, positions best-first
+      setSortDesc(key === 'searchVolume');
+    }
+  };
+
+  const sortIndicator = (key: SortKey) => (sortKey === key ? (sortDesc ? ' ↓' : ' ↑') : '');
+  const visibleRows = showAll ? rows : rows.slice(0, ROW_LIMIT);
+  const maxSOV = Math.max(...landscape.domains.map(d => d.shareOfVoice), 1);
+
+  return (
+    <div className="space-y-6">
+      {/* Competitive SOV over the shared universe */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">Competitive Share of Voice</h4>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          Every domain measured on the same {landscape.universeSize.toLocaleString()} non-brand keywords
+          ({landscape.universeVolume.toLocaleString()} searches/mo)
+        </p>
+        <div className="space-y-2">
+          {landscape.domains.map(d => (
+            <div key={d.domain} className="flex items-center gap-3">
+              <div className={`w-32 text-sm truncate ${d.isYou ? 'font-semibold text-emerald-700 dark:text-emerald-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                {d.label}{d.isYou && ' (you)'}
+              </div>
+              <div className="flex-1 h-5 bg-gray-100 dark:bg-gray-700 rounded overflow-hidden">
+                <div
+                  className={`h-full rounded ${d.isYou ? 'bg-emerald-500' : 'bg-indigo-400'}`}
+                  style={{ width: `${(d.shareOfVoice / maxSOV) * 100}%` }}
+                />
+              </div>
+              <div className="w-16 text-right text-sm font-medium text-gray-900 dark:text-white">{d.shareOfVoice}%</div>
+              <div className="w-44 text-right text-xs text-gray-500 dark:text-gray-400">
+                {d.shareOfClicks}% of clicks · leads {d.keywordsLed}/{d.keywordsRanked}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Overlap summary - Venn regions as a list */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Keyword Overlap</h4>
+        <div className="grid gap-2 md:grid-cols-2">
+          {landscape.overlap.map(region => {
+            const includesYou = you ? region.domains.includes(you.domain) : false;
+            return (
+              <div
+                key={region.domains.join('|')}
+                className={`flex items-center justify-between gap-3 px-3 py-2 rounded-lg text-sm ${
+                  includesYou ? 'bg-emerald-50 dark:bg-emerald-900/20' : 'bg-amber-50 dark:bg-amber-900/20'
+                }`}
+              >
+                <div className="flex flex-wrap gap-1">
+                  {region.domains.length === columns.length && columns.length > 1 ? (
+                    <span className="font-medium text-gray-900 dark:text-white">All domains</span>
+                  ) : region.domains.map(domain => (
+                    <span key={domain} className="px-2 py-0.5 bg-white/70 dark:bg-gray-800/70 rounded text-xs text-gray-700 dark:text-gray-300">
+                      {labelFor(domain)}
+                    </span>
+                  ))}
+                  {region.domains.length === 1 && <span className="text-xs text-gray-500 dark:text-gray-400 self-center">only</span>}
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <span className="font-semibold text-gray-900 dark:text-white">{region.keywords}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 ml-1">kw · {region.searchVolume.toLocaleString()}/mo</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Position matrix */}
+      <div>
+        <div className="flex items-center justify-between flex-wrap gap-2 mb-3">
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Position Matrix</h4>
+          <div className="flex gap-1">
+            {FILTERS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => setFilter(f.id)}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                  filter === f.id
+                    ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/50 dark:text-indigo-300'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600'
+                }`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700/50">
+              <tr>
+                <th
+                  onClick={() => handleSort('keyword')}
+                  className="px-4 py-2 text-left text-xs font-medium text-gray-600 dark:text-gray-300 cursor-pointer hover:text-gray-900 dark:hover:text-white"
+                >
+                  Keyword{sortIndicator('keyword')}
+                </th>
+                <th
+                  onClick={() => handleSort('searchVolume')}
+                  className="px-4 py-2 text-right text-xs font-medium text-gray-600 dark:text-gray-300 cursor-pointer hover:text-gray-900 dark:hover:text-white"
+                >
+                  Volume{sortIndicator('searchVolume')}
+                </th>
+                {columns.map(d => (
+                  <th
+                    key={d.domain}
+                    onClick={() => handleSort(d.domain)}
+                    title={d.domain}
+                    className={`px-3 py-2 text-center text-xs font-medium cursor-pointer hover:text-gray-900 dark:hover:text-white ${
+                      d.isYou ? 'text-emerald-700 dark:text-emerald-400' : 'text-gray-600 dark:text-gray-300'
+                    }`}
+                  >
+                    {d.label}{sortIndicator(d.domain)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {visibleRows.map(row => (
+                <tr key={row.keyword} className="hover:bg-gray-50 dark:hover:bg-gray-700/30">
+                  <td className="px-4 py-2 text-gray-900 dark:text-white">{row.keyword}</td>
+                  <td className="px-4 py-2 text-right text-gray-600 dark:text-gray-400">{row.searchVolume.toLocaleString()}</td>
+                  {columns.map(d => {
+                    const position = row.positions[d.domain];
+                    return (
+                      <td key={d.domain} className="px-3 py-2 text-center">
+                        <span className={`inline-block min-w-[2.5rem] px-2 py-0.5 rounded text-xs font-medium ${positionClass(position)} ${
+                          row.leader === d.domain ? 'ring-1 ring-current' : ''
+                        }`}>
+                          {position === null ? '—' : `#${position}`}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={columns.length + 2} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">
+                    No keywords match this filter.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {rows.length > ROW_LIMIT && (
+          <button
+            onClick={() => setShowAll(!showAll)}
+            className="mt-2 text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            {showAll ? 'Show fewer' : `Show all ${rows.length} keywords`}
+          </button>
+        )}
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Outlined positions mark the leader for each keyword. Brand keywords are excluded.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import type { BrandKeyword, RankedKeyword } from '../types';
 import { getCategory as getCategoryFromUtils } from '../utils/categoryDetection';
+import { clusterKeywords } from '../../shared/clustering';
 
 interface SOVTableProps {
   type: 'sov';
@@ -27,6 +28,7 @@ const getCategory = (kw: RankedKeyword): string => {
 interface CategorizedKeyword extends RankedKeyword {
   category: string;
   topic: string; // URL-based topic (similar to Ahrefs Parent Topic)
+  cluster: string; // Pillar keyword of the SERP-overlap cluster
 }
 
 // This will be populated after we process all keywords
@@ -88,13 +90,14 @@ const getCategoryBadgeClass = (category: string): string => {
 
 const ITEMS_PER_PAGE_OPTIONS = [25, 50, 100];
 
-type GroupingMode = 'category' | 'topic';
+type GroupingMode = 'category' | 'topic' | 'cluster';
 
 export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
   const [sortKey, setSortKey] = useState<SortKey>('searchVolume');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [selectedCategories, setSelectedCategories] = useState<Set<string>>(new Set());
   const [selectedTopics, setSelectedTopics] = useState<Set<string>>(new Set());
+  const [selectedClusters, setSelectedClusters] = useState<Set<string>>(new Set());
   const [groupingMode, setGroupingMode] = useState<GroupingMode>('topic'); // Default to topic (URL-based, like Ahrefs)
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [currentPage, setCurrentPage] = useState<number>(1);
@@ -105,19 +108,29 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
 
   // Categorize all keywords and extract Parent Topics (like Ahrefs)
   // Parent Topic = highest volume keyword ranking for the same URL
-  const categorizedKeywords = useMemo(() => {
-    if (props.type !== 'sov') return [];
+  const { categorizedKeywords, keywordClusters } = useMemo(() => {
+    if (props.type !== 'sov') return { categorizedKeywords: [], keywordClusters: [] };
 
     const keywords = props.keywords as RankedKeyword[];
     // First, compute parent topics for all URLs
     const parentTopics = getParentTopics(keywords);
+    // Clusters link keywords across URLs by shared ranking pages and similar terms
+    const clusters = clusterKeywords(keywords);
+    const clusterByKeyword = new Map<RankedKeyword, string>();
+    for (const cluster of clusters) {
+      for (const kw of cluster.keywords) clusterByKeyword.set(kw, cluster.pillarKeyword);
+    }
 
-    return keywords.map(kw => ({
-      ...kw,
-      category: getCategory(kw),
-      // Parent Topic: the highest-volume keyword for this URL (like Ahrefs)
-      topic: parentTopics.get(kw.url || 'unknown') || 'Unknown'
-    })) as CategorizedKeyword[];
+    return {
+      categorizedKeywords: keywords.map(kw => ({
+        ...kw,
+        category: getCategory(kw),
+        // Parent Topic: the highest-volume keyword for this URL (like Ahrefs)
+        topic: parentTopics.get(kw.url || 'unknown') || 'Unknown',
+        cluster: clusterByKeyword.get(kw) || kw.keyword
+      })) as CategorizedKeyword[],
+      keywordClusters: clusters
+    };
   }, [props.keywords, props.type]);
 
   // Get unique competitor brands for SOS
@@ -287,6 +300,25 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
     setCurrentPage(1);
   };
 
+  // Toggle cluster selection
+  const toggleCluster = (cluster: string) => {
+    setSelectedClusters(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(cluster)) {
+        newSet.delete(cluster);
+      } else {
+        newSet.add(cluster);
+      }
+      return newSet;
+    });
+    setCurrentPage(1);
+  };
+
+  const clearClusters = () => {
+    setSelectedClusters(new Set());
+    setCurrentPage(1);
+  };
+
   // Filter keywords by category/topic, search, and position
   const filteredKeywords = useMemo(() => {
     if (props.type === 'sov') {
@@ -302,6 +334,11 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
         keywords = keywords.filter(kw => selectedTopics.has(kw.topic));
       }
 
+      // Apply cluster filter (when in cluster mode)
+      if (groupingMode === 'cluster' && selectedClusters.size > 0) {
+        keywords = keywords.filter(kw => selectedClusters.has(kw.cluster));
+      }
+
       // Apply search filter
       if (searchQuery.trim()) {
         const query = searchQuery.toLowerCase();
@@ -333,7 +370,7 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
 
       return keywords;
     }
-  }, [categorizedKeywords, selectedCategories, selectedTopics, groupingMode, searchQuery, positionFilter, props.keywords, props.type]);
+  }, [categorizedKeywords, selectedCategories, selectedTopics, selectedClusters, groupingMode, searchQuery, positionFilter, props.keywords, props.type]);
 
   // Calculate filtered SOV stats
   const filteredSOVStats = useMemo(() => {
@@ -360,7 +397,7 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
     if (!props.onFilteredSOVChange) return;
 
     // Only notify when filters are active
-    const hasFilters = selectedCategories.size > 0 || selectedTopics.size > 0 || searchQuery || positionFilter !== 'all';
+    const hasFilters = selectedCategories.size > 0 || selectedTopics.size > 0 || selectedClusters.size > 0 || searchQuery || positionFilter !== 'all';
     if (hasFilters) {
       props.onFilteredSOVChange(
         filteredSOVStats.filteredSOV,
@@ -372,7 +409,7 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
       props.onFilteredSOVChange(0, 0, 0);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filteredSOVStats, selectedCategories.size, selectedTopics.size, searchQuery, positionFilter]);
+  }, [filteredSOVStats, selectedCategories.size, selectedTopics.size, selectedClusters.size, searchQuery, positionFilter]);
 
   const handleSort = (key: SortKey) => {
     if (sortKey === key) {
@@ -404,7 +441,10 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
           case 'position': aVal = aRanked.position; bVal = bRanked.position; break;
           case 'ctr': aVal = aRanked.ctr || 0; bVal = bRanked.ctr || 0; break;
           case 'visibleVolume': aVal = aRanked.visibleVolume || 0; bVal = bRanked.visibleVolume || 0; break;
-          case 'category': aVal = aRanked.category; bVal = bRanked.category; break;
+          case 'category':
+            aVal = groupingMode === 'cluster' ? aRanked.cluster : aRanked.category;
+            bVal = groupingMode === 'cluster' ? bRanked.cluster : bRanked.category;
+            break;
           default: aVal = aRanked.searchVolume; bVal = bRanked.searchVolume;
         }
       } else {
@@ -427,7 +467,7 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
         ? (aVal as number) - (bVal as number)
         : (bVal as number) - (aVal as number);
     });
-  }, [filteredKeywords, sortKey, sortDirection, props.type]);
+  }, [filteredKeywords, sortKey, sortDirection, groupingMode, props.type]);
 
   // Pagination
   const totalPages = Math.ceil(sortedKeywords.length / itemsPerPage) || 1;
@@ -612,12 +652,13 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
               </select>
 
               {/* Clear Filters */}
-              {(searchQuery || selectedCategories.size > 0 || selectedTopics.size > 0 || positionFilter !== 'all') && (
+              {(searchQuery || selectedCategories.size > 0 || selectedTopics.size > 0 || selectedClusters.size > 0 || positionFilter !== 'all') && (
                 <button
                   onClick={() => {
                     setSearchQuery('');
                     setSelectedCategories(new Set());
                     setSelectedTopics(new Set());
+                    setSelectedClusters(new Set());
                     setPositionFilter('all');
                     setCurrentPage(1);
                   }}
@@ -636,6 +677,7 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
                   onClick={() => {
                     setGroupingMode('topic');
                     setSelectedCategories(new Set());
+                    setSelectedClusters(new Set());
                   }}
                   className={`px-4 py-2 text-sm font-medium transition-colors ${
                     groupingMode === 'topic'
@@ -649,6 +691,7 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
                   onClick={() => {
                     setGroupingMode('category');
                     setSelectedTopics(new Set());
+                    setSelectedClusters(new Set());
                   }}
                   className={`px-4 py-2 text-sm font-medium transition-colors border-l border-gray-300 ${
                     groupingMode === 'category'
@@ -658,11 +701,27 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
                 >
                   Category
                 </button>
+                <button
+                  onClick={() => {
+                    setGroupingMode('cluster');
+                    setSelectedTopics(new Set());
+                    setSelectedCategories(new Set());
+                  }}
+                  className={`px-4 py-2 text-sm font-medium transition-colors border-l border-gray-300 ${
+                    groupingMode === 'cluster'
+                      ? 'bg-teal-600 text-white'
+                      : 'bg-white text-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  }`}
+                >
+                  Cluster
+                </button>
               </div>
               <span className="text-xs text-gray-500">
                 {groupingMode === 'topic'
                   ? 'Groups by main keyword per URL (like Ahrefs Parent Topic)'
-                  : 'Groups by Google Ads product categories'}
+                  : groupingMode === 'cluster'
+                    ? 'Groups keywords that share ranking pages or similar terms'
+                    : 'Groups by Google Ads product categories'}
               </span>
             </div>
 
@@ -722,6 +781,64 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
               </div>
             )}
 
+            {/* Cluster Filter - SERP overlap and token similarity */}
+            {groupingMode === 'cluster' && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <svg className="w-5 h-5 text-teal-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                    </svg>
+                    <span className="text-sm font-medium text-gray-700">Topic Clusters:</span>
+                    <span className="text-xs text-gray-500">(named after the pillar keyword)</span>
+                  </div>
+                  {selectedClusters.size > 0 && (
+                    <button
+                      onClick={clearClusters}
+                      className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-600 text-gray-600"
+                    >
+                      Clear Selection
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {keywordClusters.slice(0, 15).map((cluster, idx) => (
+                    <label
+                      key={cluster.id}
+                      htmlFor={`cluster-${idx}`}
+                      title={`SOV ${cluster.shareOfVoice}% · best: #${cluster.bestPosition}${cluster.bestUrl ? ` ${cluster.bestUrl}` : ''}`}
+                      className={`inline-flex items-center gap-2 px-2 py-1 rounded-lg border cursor-pointer transition-all text-xs ${
+                        selectedClusters.has(cluster.pillarKeyword)
+                          ? 'bg-teal-50 border-teal-300 text-teal-700'
+                          : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-teal-400'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        id={`cluster-${idx}`}
+                        name={`cluster-${cluster.id}`}
+                        checked={selectedClusters.has(cluster.pillarKeyword)}
+                        onChange={() => toggleCluster(cluster.pillarKeyword)}
+                        className="w-3 h-3 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                      />
+                      <span className="max-w-[150px] truncate">{cluster.pillarKeyword}</span>
+                      <span className={`px-1 rounded ${selectedClusters.has(cluster.pillarKeyword) ? 'bg-teal-200' : 'bg-gray-100'}`}>
+                        {cluster.keywords.length}
+                      </span>
+                      <span className="text-gray-400 dark:text-gray-500">{(cluster.totalVolume / 1000).toFixed(1)}k</span>
+                      <span className="text-teal-600 dark:text-teal-400">{cluster.shareOfVoice}%</span>
+                    </label>
+                  ))}
+                  {keywordClusters.length > 15 && (
+                    <span className="text-xs text-gray-400 dark:text-gray-500 self-center">+{keywordClusters.length - 15} more clusters</span>
+                  )}
+                </div>
+                <p className="text-xs text-teal-600 italic">
+                  Keywords join a cluster when the same page ranks for them or they share most of their terms. The percentage is the cluster&apos;s SOV.
+                </p>
+              </div>
+            )}
+
             {/* Category Filter - Multi-select (Google Ads categories) */}
             {groupingMode === 'category' && (
               <div className="space-y-2">
@@ -778,7 +895,7 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
             )}
 
             {/* Active Filters Stats */}
-            {(selectedCategories.size > 0 || selectedTopics.size > 0 || searchQuery || positionFilter !== 'all') && filteredSOVStats && (
+            {(selectedCategories.size > 0 || selectedTopics.size > 0 || selectedClusters.size > 0 || searchQuery || positionFilter !== 'all') && filteredSOVStats && (
               <div className="flex items-center gap-4 p-3 bg-orange-50 border border-orange-200 rounded-lg">
                 <div className="flex items-center gap-2">
                   <span className="text-sm text-orange-700 font-medium">Filtered SOV:</span>
@@ -802,7 +919,7 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
                   Keyword{getSortIndicator('keyword')}
                 </th>
                 <th onClick={() => handleSort('category')} className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 dark:text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600">
-                  {groupingMode === 'topic' ? 'Parent Topic' : 'Category'}{getSortIndicator('category')}
+                  {groupingMode === 'topic' ? 'Parent Topic' : groupingMode === 'cluster' ? 'Cluster' : 'Category'}{getSortIndicator('category')}
                 </th>
                 <th onClick={() => handleSort('searchVolume')} className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 dark:text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600">
                   Volume{getSortIndicator('searchVolume')}
@@ -840,6 +957,18 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
                       >
                         {kw.topic}
                       </button>
+                    ) : groupingMode === 'cluster' ? (
+                      <button
+                        onClick={() => toggleCluster(kw.cluster)}
+                        className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium cursor-pointer hover:opacity-80 max-w-[150px] truncate ${
+                          selectedClusters.has(kw.cluster)
+                            ? 'bg-teal-500 text-white'
+                            : 'bg-teal-100 text-teal-800'
+                        }`}
+                        title={kw.cluster}
+                      >
+                        {kw.cluster}
+                      </button>
                     ) : (
                       <button
                         onClick={() => toggleCategory(kw.category)}
@@ -865,6 +994,11 @@ export const KeywordTable: React.FC<KeywordTableProps> = (props) => {
                     {kw.ctr?.toFixed(1)}%
                   </td>
                   <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-emerald-600 text-right">
+                    {kw.actualClicks !== undefined && (
+                      <span className="mr-1 px-1.5 py-0.5 text-[10px] rounded bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300" title="Real clicks from Search Console">
+                        GSC
+                      </span>
+                    )}
                     {kw.visibleVolume?.toLocaleString()}
                   </td>
                   <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400 dark:text-gray-500 max-w-[200px] truncate" title={kw.url}>
@@ -0,0 +1,523 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type {
+  FitQuality,
+  MarketShareData,
+  MarketShareEntry,
+  MarketShareObservation,
+  SeasonalSOSResult,
+  ShareRegressionFit,
+  ShareTrajectoryPoint
+} from '../types';
+import { getMarketShareData, saveMarketShareData } from '../services/marketShareStorage';
+import {
+  buildShareObservations,
+  calculateESOV,
+  createMarketShareEntry,
+  describeFitQuality,
+  fitShareRegression,
+  parseMarketShareCSV,
+  predictShare,
+  projectShareTrajectory,
+  validateMarketShareEntry
+} from '../lib/marketShare';
+import { normalizeBrandTerm } from '../../shared/brandVariants';
+
+interface MarketShareModelPanelProps {
+  domain: string;
+  locationCode: number;
+  brandName: string;
+  competitors: string[];
+  organicShareOfVoice: number | null; // CTR-weighted organic SOV, only offered as a starting value
+  seasonalSOS: SeasonalSOSResult | null;
+  isTrendsLoading: boolean;
+  onLoadTrends: () => void;
+}
+
+const QUALITY_STYLES: Record<FitQuality, { label: string; className: string }> = {
+  strong: { label: 'Strong fit', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  moderate: { label: 'Moderate fit', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
+  weak: { label: 'Weak fit', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  insufficient: { label: 'Not enough data', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' }
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const formatMonth = (period: string) => {
+  const [year, month] = period.split('-');
+  return `${MONTH_LABELS[Number(month) - 1]} ${year.slice(2)}`;
+};
+
+const formatSigned = (value: number | null, unit: string = ''): string =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${value}${unit}`;
+
+const getESOVClass = (esov: number | null): string => {
+  if (esov === null) return 'text-gray-400';
+  if (esov > 0) return 'text-emerald-600 dark:text-emerald-400';
+  if (esov < 0) return 'text-red-600 dark:text-red-400';
+  return 'text-gray-600 dark:text-gray-300';
+};
+
+const inputClass = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+// Market share against SOS per observation, with the fitted line
+const ShareScatterChart: React.FC<{ observations: MarketShareObservation[]; fit: ShareRegressionFit | null; ownBrand: string }> = ({
+  observations,
+  fit,
+  ownBrand
+}) => {
+  const width = 320;
+  const height = 220;
+  const padding = { top: 12, right: 12, bottom: 32, left: 36 };
+  const chartWidth = width - padding.left - padding.right;
+  const chartHeight = height - padding.top - padding.bottom;
+
+  const maxX = Math.max(...observations.map(o => o.shareOfSearch), 10) * 1.1;
+  const maxY = Math.max(...observations.map(o => o.marketShare), 10) * 1.1;
+  const getX = (value: number) => padding.left + (value / maxX) * chartWidth;
+  const getY = (value: number) => padding.top + chartHeight - (Math.min(value, maxY) / maxY) * chartHeight;
+  const ownKey = normalizeBrandTerm(ownBrand);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {[0, 1, 2, 3, 4].map(i => {
+        const y = padding.top + (i / 4) * chartHeight;
+        return (
+          <g key={i}>
+            <line x1={padding.left} y1={y} x2={width - padding.right} y2={y} stroke="#f3f4f6" strokeWidth="1" />
+            <text x={padding.left - 4} y={y + 3} textAnchor="end" fontSize="9" fill="#9ca3af">
+              {Math.round(maxY - (i / 4) * maxY)}%
+            </text>
+          </g>
+        );
+      })}
+      {[0, 1, 2, 3, 4].map(i => (
+        <text key={i} x={padding.left + (i / 4) * chartWidth} y={height - 18} textAnchor="middle" fontSize="9" fill="#9ca3af">
+          {Math.round((i / 4) * maxX)}%
+        </text>
+      ))}
+      <text x={padding.left + chartWidth / 2} y={height - 4} textAnchor="middle" fontSize="9" fill="#6b7280">Share of Search</text>
+
+      {fit && (
+        <line
+          x1={getX(0)}
+          y1={getY(predictShare(fit, 0))}
+          x2={getX(maxX)}
+          y2={getY(predictShare(fit, maxX))}
+          stroke="#6366f1"
+          strokeWidth="1.5"
+          strokeDasharray="5 3"
+        />
+      )}
+
+      {observations.map(o => (
+        <circle
+          key={`${o.brand}-${o.period}`}
+          cx={getX(o.shareOfSearch)}
+          cy={getY(o.marketShare)}
+          r="4"
+          fill={normalizeBrandTerm(o.brand) === ownKey ? '#10b981' : '#9ca3af'}
+          opacity="0.8"
+        >
+          <title>{`${o.brand} ${o.period}: SOS ${o.shareOfSearch}%, market share ${o.marketShare}%`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const TRAJECTORY_LINES: Array<{ key: keyof Omit<ShareTrajectoryPoint, 'period'>; label: string; color: string; dashed?: boolean }> = [
+  { key: 'fitted', label: 'Implied by SOS', color: '#6366f1' },
+  { key: 'projected', label: 'ESOV projection', color: '#10b981', dashed: true }
+];
+
+// Own-brand share: fitted from monthly SOS, actual figures as dots, projection ahead
+const ShareTrajectoryChart: React.FC<{ points: ShareTrajectoryPoint[] }> = ({ points }) => {
+  const width = 640;
+  const height = 200;
+  const padding = { top: 24, right: 12, bottom: 28, left: 36 };
+  const chartWidth = width - padding.left - padding.right;
+  const chartHeight = height - padding.top - padding.bottom;
+
+  const values = points.flatMap(p => [p.actual, p.fitted, p.projected].filter((v): v is number => v !== null));
+  const maxValue = Math.max(...values, 1) * 1.05;
+  const minValue = Math.max(0, Math.min(...values) * 0.95);
+  const valueRange = maxValue - minValue || 1;
+
+  const getX = (index: number) =>
+    padding.left + (points.length === 1 ? chartWidth / 2 : (index / (points.length - 1)) * chartWidth);
+  const getY = (value: number) => padding.top + chartHeight - ((value - minValue) / valueRange) * chartHeight;
+
+  const generatePath = (data: Array<number | null>) =>
+    data
+      .map((value, index) => (value === null ? null : { x: getX(index), y: getY(value) }))
+      .filter((p): p is { x: number; y: number } => p !== null)
+      .map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`)
+      .join(' ');
+
+  const labelStep = Math.max(1, Math.ceil(points.length / 12));
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {[0, 1, 2, 3, 4].map(i => {
+        const y = padding.top + (i / 4) * chartHeight;
+        return (
+          <g key={i}>
+            <line x1={padding.left} y1={y} x2={width - padding.right} y2={y} stroke="#f3f4f6" strokeWidth="1" />
+            <text x={padding.left - 4} y={y + 3} textAnchor="end" fontSize="9" fill="#9ca3af">
+              {Math.round((maxValue - (i / 4) * valueRange) * 10) / 10}%
+            </text>
+          </g>
+        );
+      })}
+
+      {TRAJECTORY_LINES.map(line => (
+        <path
+          key={line.key}
+          d={generatePath(points.map(p => p[line.key]))}
+          fill="none"
+          stroke={line.color}
+          strokeWidth="2"
+          strokeDasharray={line.dashed ? '5 3' : undefined}
+        />
+      ))}
+
+      {points.map((point, index) => point.actual !== null && (
+        <circle key={point.period} cx={getX(index)} cy={getY(point.actual)} r="4" fill="#f59e0b">
+          <title>{`${point.period}: ${point.actual}%`}</title>
+        </circle>
+      ))}
+
+      {points.map((point, index) => index % labelStep === 0 && (
+        <text key={point.period} x={getX(index)} y={height - 6} textAnchor="middle" fontSize="9" fill="#6b7280">
+          {formatMonth(point.period)}
+        </text>
+      ))}
+
+      <g transform={`translate(${padding.left}, 6)`}>
+        {[...TRAJECTORY_LINES, { key: 'actual', label: 'Actual share', color: '#f59e0b' }].map((line, i) => (
+          <g key={line.key} transform={`translate(${i * 110}, 0)`}>
+            <rect width="8" height="8" fill={line.color} rx="1" />
+            <text x="10" y="7" fontSize="9" fill="#374151">{line.label}</text>
+          </g>
+        ))}
+      </g>
+    </svg>
+  );
+};
+
+export const MarketShareModelPanel: React.FC<MarketShareModelPanelProps> = ({
+  domain,
+  locationCode,
+  brandName,
+  competitors,
+  organicShareOfVoice,
+  seasonalSOS,
+  isTrendsLoading,
+  onLoadTrends
+}) => {
+  const [data, setData] = useState<MarketShareData>(() => getMarketShareData(domain, locationCode));
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const brands = useMemo(() => [
+    { brand: brandName, isOwnBrand: true },
+    ...competitors.filter(c => normalizeBrandTerm(c) !== normalizeBrandTerm(brandName)).map(brand => ({ brand, isOwnBrand: false }))
+  ], [brandName, competitors]);
+
+  const validEntries = useMemo(() => data.entries.filter(e => !validateMarketShareEntry(e)), [data.entries]);
+  const observations = useMemo(
+    () => (seasonalSOS ? buildShareObservations(validEntries, seasonalSOS) : []),
+    [validEntries, seasonalSOS]
+  );
+  const fit = useMemo(() => fitShareRegression(observations), [observations]);
+  const fitQuality = describeFitQuality(fit);
+  const esovRows = useMemo(
+    () => calculateESOV(brands, data.shareOfVoice, validEntries),
+    [brands, data.shareOfVoice, validEntries]
+  );
+  const ownSOV = data.shareOfVoice[brandName] ?? null;
+  const ownEntries = useMemo(
+    () => validEntries.filter(e => normalizeBrandTerm(e.brand) === normalizeBrandTerm(brandName)),
+    [validEntries, brandName]
+  );
+  const trajectory = useMemo(
+    () => (seasonalSOS ? projectShareTrajectory(seasonalSOS, ownEntries, fit, ownSOV) : []),
+    [seasonalSOS, ownEntries, fit, ownSOV]
+  );
+  const ownESOV = esovRows.find(r => r.isOwnBrand);
+  const projectedEnd = trajectory[trajectory.length - 1]?.projected ?? null;
+
+  const update = (next: MarketShareData) => setData(saveMarketShareData(domain, locationCode, next));
+
+  const updateEntry = (id: string, changes: Partial<MarketShareEntry>) => {
+    update({ ...data, entries: data.entries.map(e => (e.id === id ? { ...e, ...changes } : e)) });
+  };
+
+  const updateSOV = (brand: string, value: string) => {
+    const shareOfVoiceByBrand = { ...data.shareOfVoice };
+    if (value === '') {
+      delete shareOfVoiceByBrand[brand];
+    } else {
+      shareOfVoiceByBrand[brand] = Number(value);
+    }
+    update({ ...data, shareOfVoice: shareOfVoiceByBrand });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseMarketShareCSV(await file.text());
+    if (!result.success || !result.data) {
+      setImportError(result.error || 'Invalid market share file');
+      return;
+    }
+    setImportError(null);
+    update({ ...data, entries: [...data.entries, ...result.data] });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Market share entries */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Market Share</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Actual market share per brand and period (YYYY or YYYY-MM), e.g. from a retail panel or annual report.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600"
+            >
+              Import CSV
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="text/csv,.csv,.txt"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={() => update({ ...data, entries: [...data.entries, createMarketShareEntry({ brand: brandName })] })}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              Add figure
+            </button>
+          </div>
+        </div>
+
+        {importError && (
+          <p className="px-6 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20">{importError}</p>
+        )}
+
+        {data.entries.length === 0 ? (
+          <p className="px-6 py-6 text-sm text-gray-500 dark:text-gray-400">
+            No market share figures yet. Add them by hand or import a CSV with the columns brand, period, share.
+          </p>
+        ) : (
+          <div className="px-6 py-3 overflow-x-auto">
+            <datalist id="market-share-brands">
+              {brands.map(b => <option key={b.brand} value={b.brand} />)}
+            </datalist>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                  <th className="py-1 text-left font-medium">Brand</th>
+                  <th className="py-1 text-left font-medium">Period</th>
+                  <th className="py-1 text-left font-medium">Market share %</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {data.entries.map(entry => {
+                  const error = validateMarketShareEntry(entry);
+                  return (
+                    <tr key={entry.id}>
+                      <td className="py-1 pr-2">
+                        <input
+                          value={entry.brand}
+                          list="market-share-brands"
+                          onChange={e => updateEntry(entry.id, { brand: e.target.value })}
+                          aria-label="Brand"
+                          className={`${inputClass} w-40`}
+                        />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input
+                          value={entry.period}
+                          placeholder="2024-06"
+                          onChange={e => updateEntry(entry.id, { period: e.target.value.trim() })}
+                          aria-label="Period"
+                          className={`${inputClass} w-28`}
+                        />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          step={0.1}
+                          value={entry.marketShare}
+                          onChange={e => updateEntry(entry.id, { marketShare: e.target.valueAsNumber })}
+                          aria-label="Market share"
+                          className={`${inputClass} w-24`}
+                        />
+                        {error && <span className="ml-2 text-xs text-red-600 dark:text-red-400">{error}</span>}
+                      </td>
+                      <td className="py-1 text-right">
+                        <button
+                          onClick={() => update({ ...data, entries: data.entries.filter(e => e.id !== entry.id) })}
+                          aria-label="Remove figure"
+                          className="px-2 text-gray-400 hover:text-red-600"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Excess Share of Voice */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Excess Share of Voice</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            ESOV = share of voice minus market share. Binet &amp; Field found roughly +0.5 share points per year for every 10 points of ESOV.
+            Enter every brand's SOV, yours included, from the same media or visibility data so the shares compare.
+          </p>
+        </div>
+        <div className="px-6 py-3 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                <th className="py-1 text-left font-medium">Brand</th>
+                <th className="py-1 text-right font-medium">SOV %</th>
+                <th className="py-1 text-right font-medium">Market share %</th>
+                <th className="py-1 text-right font-medium">ESOV</th>
+                <th className="py-1 text-right font-medium">Expected share change / yr</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {esovRows.map(row => (
+                <tr key={row.brand}>
+                  <td className="py-1.5 text-gray-900 dark:text-white">
+                    {row.brand}
+                    {row.isOwnBrand && (
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">Your brand</span>
+                    )}
+                  </td>
+                  <td className="py-1.5 text-right">
+                    {row.isOwnBrand && ownSOV === null && organicShareOfVoice !== null && (
+                      <button
+                        onClick={() => updateSOV(row.brand, String(organicShareOfVoice))}
+                        title="Organic search SOV from the analysis: click-weighted rankings, not media share of voice"
+                        className="mr-2 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Use organic {organicShareOfVoice}%
+                      </button>
+                    )}
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={0.1}
+                      value={data.shareOfVoice[row.brand] ?? ''}
+                      onChange={e => updateSOV(row.brand, e.target.value)}
+                      aria-label={`${row.brand} share of voice`}
+                      className={`${inputClass} w-20 text-right`}
+                    />
+                  </td>
+                  <td className="py-1.5 text-right text-gray-700 dark:text-gray-300">{row.marketShare ?? '—'}</td>
+                  <td className={`py-1.5 text-right font-medium ${getESOVClass(row.esov)}`}>{formatSigned(row.esov)}</td>
+                  <td className={`py-1.5 text-right ${getESOVClass(row.expectedShareChange)}`}>{formatSigned(row.expectedShareChange, ' pts')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Regression and trajectory need the monthly SOS history */}
+      {!seasonalSOS ? (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm px-6 py-8 text-center">
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            The market share model compares your figures with monthly Share of Search, which comes from the historical trends.
+          </p>
+          <button
+            onClick={onLoadTrends}
+            disabled={isTrendsLoading}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isTrendsLoading ? 'Loading trends...' : 'Load historical trends'}
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Share of Search vs. Market Share</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  One point per brand and period, fitted across all competitors and periods.
+                </p>
+              </div>
+              <span className={`px-2 py-1 text-xs rounded-full whitespace-nowrap ${QUALITY_STYLES[fitQuality.quality].className}`}>
+                {QUALITY_STYLES[fitQuality.quality].label}
+              </span>
+            </div>
+            <div className="px-6 py-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <ShareScatterChart observations={observations} fit={fit} ownBrand={brandName} />
+              <div className="space-y-4">
+                <p className="text-sm text-gray-700 dark:text-gray-300">{fitQuality.explanation}</p>
+                {fit && (
+                  <dl className="grid grid-cols-2 gap-3 text-sm">
+                    {[
+                      { label: 'R²', value: fit.rSquared },
+                      { label: 'Share pts per SOS pt', value: `${fit.slope} ± ${fit.slopeStandardError}` },
+                      { label: 'Typical error', value: `${fit.rmse} pts` },
+                      { label: 'Observations', value: `${fit.observations} (${fit.brands} brands, ${fit.periods} periods)` }
+                    ].map(item => (
+                      <div key={item.label} className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                        <dt className="text-xs text-gray-500 dark:text-gray-400">{item.label}</dt>
+                        <dd className="font-semibold text-gray-900 dark:text-white">{item.value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Figures for brands or periods without search history are left out
+                  ({data.entries.length - observations.length} of {data.entries.length}).
+                  A strong fit across several years is the best sign that SOS leads share in your category.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Predicted Share Trajectory</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {projectedEnd !== null && ownESOV?.esov !== null && ownESOV?.esov !== undefined
+                  ? `With ESOV of ${formatSigned(ownESOV.esov)} points, ${brandName} moves towards ${projectedEnd}% market share over the next 12 months.`
+                  : 'Enter your SOV and a market share figure for your brand to project it forward.'}
+              </p>
+            </div>
+            <div className="px-6 py-4">
+              <ShareTrajectoryChart points={trajectory} />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -57,6 +57,13 @@ export const MethodologyPage: React.FC<MethodologyPageProps> = ({ onClose }) =>
                     <li><a href="#youtube-interpret" className="hover:text-red-600">How to Read Your YouTube SOV</a></li>
                   </ul>
                 </div>
+                <div>
+                  <h3 className="font-medium text-indigo-600 mb-2">Visibility Index</h3>
+                  <ul className="space-y-1 text-sm text-gray-600 dark:text-gray-300 dark:text-gray-300">
+                    <li><a href="#visibility-what" className="hover:text-indigo-600">What is the Visibility Index?</a></li>
+                    <li><a href="#visibility-calculate" className="hover:text-indigo-600">How We Calculate It</a></li>
+                  </ul>
+                </div>
                 <div>
                   <h3 className="font-medium text-blue-600 mb-2">Growth Gap & Strategy</h3>
                   <ul className="space-y-1 text-sm text-gray-600 dark:text-gray-300 dark:text-gray-300">
@@ -630,6 +637,101 @@ export const MethodologyPage: React.FC<MethodologyPageProps> = ({ onClose }) =>
               </div>
             </section>
 
+            {/* VISIBILITY INDEX SECTION */}
+            <section id="visibility-what" className="border-t-4 border-indigo-200 pt-8">
+              <div className="flex items-center gap-3 mb-6">
+                <div className="w-10 h-10 bg-indigo-100 rounded-lg flex items-center justify-center">
+                  <svg className="w-6 h-6 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                  </svg>
+                </div>
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Visibility Index</h2>
+              </div>
+
+              <div className="bg-indigo-50 border-l-4 border-indigo-500 p-4 mb-6">
+                <p className="text-indigo-800 font-medium">
+                  The Visibility Index answers the question: "How visible is this domain on the keywords that define our market, compared with any other domain and with last quarter?"
+                </p>
+              </div>
+
+              <div className="prose prose-gray max-w-none">
+                <p className="text-gray-600 dark:text-gray-300 mb-4">
+                  Share of Voice is measured over the keywords <em>your</em> domain ranks for, so its denominator changes whenever
+                  you start or stop ranking for a keyword, and two domains are never scored on the same keyword set.
+                  The <strong>Visibility Index</strong> instead scores every domain on one fixed, published <strong>keyword panel</strong> per
+                  market and industry, in the style of a Sistrix visibility index.
+                </p>
+                <p className="text-gray-600 dark:text-gray-300 mb-4">
+                  Because the panel is the same for everyone, a competitor's index can be compared directly with yours, and a change
+                  in your index always means a change in rankings - never a change in which keywords were counted.
+                </p>
+              </div>
+            </section>
+
+            {/* Visibility Index Calculation */}
+            <section id="visibility-calculate" className="border-t border-gray-200 dark:border-gray-700 pt-8">
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-white dark:text-white mb-4">How We Calculate the Visibility Index</h3>
+
+              <div className="bg-gray-900 text-white p-4 rounded-lg font-mono text-center mb-4">
+                Visibility Index = Σ(Panel Weight × CTR at Position) / Σ(Panel Weight × CTR at #1) × 100
+              </div>
+
+              <div className="overflow-x-auto mb-6">
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="bg-indigo-50">
+                      <th className="border border-gray-200 dark:border-gray-600 px-4 py-2 text-left">Component</th>
+                      <th className="border border-gray-200 dark:border-gray-600 px-4 py-2 text-left">What It Measures</th>
+                      <th className="border border-gray-200 dark:border-gray-600 px-4 py-2 text-left">Example</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr>
+                      <td className="border border-gray-200 dark:border-gray-600 px-4 py-2 font-medium">Panel Weight</td>
+                      <td className="border border-gray-200 dark:border-gray-600 px-4 py-2">Search volume of the panel keyword when the panel version was published</td>
+                      <td className="border border-gray-200 dark:border-gray-600 px-4 py-2">"sonnencreme" = 135,000</td>
+                    </tr>
+                    <tr className="bg-gray-50 dark:bg-gray-700/30">
+                      <td className="border border-gray-200 dark:border-gray-600 px-4 py-2 font-medium">CTR at Position</td>
+                      <td className="border border-gray-200 dark:border-gray-600 px-4 py-2">Default desktop CTR curve at your best position; 0 outside the top 100</td>
+                      <td className="border border-gray-200 dark:border-gray-600 px-4 py-2">#2 = 15%</td>
+                    </tr>
+                    <tr>
+                      <td className="border border-gray-200 dark:border-gray-600 px-4 py-2 font-medium">Maximum</td>
+                      <td className="border border-gray-200 dark:border-gray-600 px-4 py-2">The same sum if you ranked #1 for every panel keyword</td>
+                      <td className="border border-gray-200 dark:border-gray-600 px-4 py-2">Index 100</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4 mb-6">
+                <div className="bg-indigo-50 p-4 rounded-lg">
+                  <h4 className="font-semibold text-indigo-900 mb-2">Fixed CTR Curve</h4>
+                  <p className="text-indigo-800 text-sm">
+                    The index always uses the default desktop CTR curve, whatever CTR model you picked for SOV.
+                    A custom curve would make your index incomparable with everyone else's.
+                  </p>
+                </div>
+                <div className="bg-indigo-50 p-4 rounded-lg">
+                  <h4 className="font-semibold text-indigo-900 mb-2">Versioned Panels</h4>
+                  <p className="text-indigo-800 text-sm">
+                    Panels are never edited in place. A new keyword set ships as a new version, and every stored index keeps
+                    the panel version it was scored on. Tracked history only compares snapshots on the same version.
+                  </p>
+                </div>
+              </div>
+
+              <div className="bg-yellow-50 border border-yellow-200 p-4 rounded-lg">
+                <h4 className="font-semibold text-yellow-800 mb-2">Index vs Share of Voice</h4>
+                <p className="text-yellow-700 text-sm">
+                  Ranking for a new low-volume keyword can lower your SOV, because it adds to the total market volume.
+                  It can only raise your Visibility Index. Use SOV for your own footprint and the index for market comparisons.
+                </p>
+              </div>
+            </section>
+
             {/* GROWTH GAP SECTION */}
             <section id="gap" className="border-t-4 border-blue-200 pt-8">
               <div className="flex items-center gap-3 mb-6">
@@ -758,6 +860,11 @@ export const MethodologyPage: React.FC<MethodologyPageProps> = ({ onClose }) =>
                         <td className="px-3 py-2 text-gray-300">SOV - SOS</td>
                         <td className="px-3 py-2">"Am I visible enough for my demand level?"</td>
                       </tr>
+                      <tr className="border-b border-gray-800">
+                        <td className="px-3 py-2 font-semibold text-indigo-400">Visibility Index</td>
+                        <td className="px-3 py-2 text-gray-300">Panel Clicks ÷ Panel Clicks at #1 × 100</td>
+                        <td className="px-3 py-2">"How visible am I on the keywords everyone is scored on?"</td>
+                      </tr>
                       <tr>
                         <td className="px-3 py-2 font-semibold text-purple-400">Visible Volume</td>
                         <td className="px-3 py-2 text-gray-300">Keyword Volume × CTR at Position</td>
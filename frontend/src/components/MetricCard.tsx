@@ -4,8 +4,9 @@ interface MetricCardProps {
   title: string;
   value: string;
   subtitle?: string;
-  borderColor: 'emerald' | 'orange' | 'red' | 'blue';
+  borderColor: 'emerald' | 'orange' | 'red' | 'blue' | 'indigo';
   tooltip?: string;
+  headerAction?: React.ReactNode; // Small control next to the title, e.g. a variant picker
   details?: Array<{ label: string; value: string | number }>;
   interpretation?: {
     type: 'growth_potential' | 'missing_opportunities' | 'balanced';
@@ -21,14 +22,16 @@ const borderColorMap = {
   emerald: 'border-emerald-500',
   orange: 'border-orange-500',
   red: 'border-red-500',
-  blue: 'border-blue-500'
+  blue: 'border-blue-500',
+  indigo: 'border-indigo-500'
 };
 
 const textColorMap = {
   emerald: 'text-emerald-600 dark:text-emerald-400',
   orange: 'text-orange-500 dark:text-orange-400',
   red: 'text-red-500 dark:text-red-400',
-  blue: 'text-blue-600 dark:text-blue-400'
+  blue: 'text-blue-600 dark:text-blue-400',
+  indigo: 'text-indigo-600 dark:text-indigo-400'
 };
 
 const interpretationColors = {
@@ -47,14 +50,16 @@ const insightColorMap = {
   emerald: 'bg-emerald-50 border-emerald-200 text-emerald-700 dark:bg-emerald-900/30 dark:border-emerald-800 dark:text-emerald-300',
   orange: 'bg-orange-50 border-orange-200 text-orange-700 dark:bg-orange-900/30 dark:border-orange-800 dark:text-orange-300',
   red: 'bg-red-50 border-red-200 text-red-700 dark:bg-red-900/30 dark:border-red-800 dark:text-red-300',
-  blue: 'bg-blue-50 border-blue-200 text-blue-700 dark:bg-blue-900/30 dark:border-blue-800 dark:text-blue-300'
+  blue: 'bg-blue-50 border-blue-200 text-blue-700 dark:bg-blue-900/30 dark:border-blue-800 dark:text-blue-300',
+  indigo: 'bg-indigo-50 border-indigo-200 text-indigo-700 dark:bg-indigo-900/30 dark:border-indigo-800 dark:text-indigo-300'
 };
 
 const insightExplainColorMap = {
   emerald: 'bg-emerald-100 text-emerald-600 dark:bg-emerald-800/50 dark:text-emerald-300',
   orange: 'bg-orange-100 text-orange-600 dark:bg-orange-800/50 dark:text-orange-300',
   red: 'bg-red-100 text-red-600 dark:bg-red-800/50 dark:text-red-300',
-  blue: 'bg-blue-100 text-blue-600 dark:bg-blue-800/50 dark:text-blue-300'
+  blue: 'bg-blue-100 text-blue-600 dark:bg-blue-800/50 dark:text-blue-300',
+  indigo: 'bg-indigo-100 text-indigo-600 dark:bg-indigo-800/50 dark:text-indigo-300'
 };
 
 export const MetricCard: React.FC<MetricCardProps> = ({
@@ -63,6 +68,7 @@ export const MetricCard: React.FC<MetricCardProps> = ({
   subtitle,
   borderColor,
   tooltip,
+  headerAction,
   details,
   interpretation,
   insight
@@ -73,22 +79,25 @@ export const MetricCard: React.FC<MetricCardProps> = ({
     <div className={`bg-white dark:bg-gray-800 rounded-xl shadow-sm border-t-4 p-6 ${borderColorMap[borderColor]}`}>
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">{title}</h3>
-        {tooltip && (
-          <div className="relative">
-            <button
-              onMouseEnter={() => setShowTooltip(true)}
-              onMouseLeave={() => setShowTooltip(false)}
-              className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 text-sm"
-            >
-              ℹ️
-            </button>
-            {showTooltip && (
-              <div className="absolute right-0 top-6 w-64 p-3 bg-gray-800 dark:bg-gray-700 text-white text-xs rounded-lg shadow-lg z-10">
-                {tooltip}
-              </div>
-            )}
-          </div>
-        )}
+        <div className="flex items-center gap-2">
+          {headerAction}
+          {tooltip && (
+            <div className="relative">
+              <button
+                onMouseEnter={() => setShowTooltip(true)}
+                onMouseLeave={() => setShowTooltip(false)}
+                className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 text-sm"
+              >
+                ℹ️
+              </button>
+              {showTooltip && (
+                <div className="absolute right-0 top-6 w-64 p-3 bg-gray-800 dark:bg-gray-700 text-white text-xs rounded-lg shadow-lg z-10">
+                  {tooltip}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
       </div>
 
       <div className={`text-5xl font-bold mb-2 ${textColorMap[borderColor]}`}>
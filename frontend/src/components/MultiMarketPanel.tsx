@@ -0,0 +1,183 @@
+import React from 'react';
+import type { MarketConfig, MultiMarketAnalysis } from '../types';
+
+interface MultiMarketPanelProps {
+  analysis: MultiMarketAnalysis | null;
+  progress?: { completed: number; total: number; current: MarketConfig | null } | null;
+}
+
+const getGapClass = (gap: number): string => {
+  if (gap > 2) return 'text-emerald-600 dark:text-emerald-400';
+  if (gap < -2) return 'text-red-600 dark:text-red-400';
+  return 'text-blue-600 dark:text-blue-400';
+};
+
+const formatGap = (gap: number): string => `${gap > 0 ? '+' : ''}${gap}`;
+
+export const MultiMarketPanel: React.FC<MultiMarketPanelProps> = ({ analysis, progress }) => {
+  if (!analysis) {
+    const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm px-6 py-12 text-center">
+        <svg className="w-8 h-8 text-emerald-500 animate-spin mx-auto mb-4" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+        </svg>
+        <p className="text-gray-600 dark:text-gray-400">
+          {progress?.current
+            ? `Analyzing ${progress.current.locationName} (${progress.completed + 1} of ${progress.total})...`
+            : 'Preparing markets...'}
+        </p>
+        <div className="max-w-xs mx-auto mt-4 h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div className="h-full bg-emerald-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+    );
+  }
+
+  const { markets, global } = analysis;
+
+  const handleExport = () => {
+    const csv = [
+      ['Market', 'Language', 'SOS %', 'SOV %', 'Gap', 'Market Volume', 'Volume Weight %', 'Top Categories', 'Quick Win Potential', 'Error'].join(','),
+      ...markets.map(m => [
+        `"${m.locationName}"`,
+        m.languageCode,
+        m.shareOfSearch,
+        m.shareOfVoice,
+        m.gap,
+        m.totalMarketVolume,
+        global.totalMarketVolume > 0 ? Math.round((m.totalMarketVolume / global.totalMarketVolume) * 1000) / 10 : 0,
+        `"${m.topCategories.join(', ')}"`,
+        m.quickWinPotential,
+        `"${m.error || ''}"`
+      ].join(',')),
+      ['"Global (volume-weighted)"', '', global.shareOfSearch, global.shareOfVoice, global.gap, global.totalMarketVolume, 100, '', '', ''].join(',')
+    ].join('\n');
+
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${analysis.domain}-markets.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Global summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Global SOS</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{global.shareOfSearch}%</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Global SOV</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{global.shareOfVoice}%</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Global Gap</p>
+          <p className={`text-2xl font-bold ${getGapClass(global.gap)}`}>{formatGap(global.gap)}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Markets</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+            {global.marketCount}
+            {global.marketCount < markets.length && (
+              <span className="text-sm font-normal text-red-500 dark:text-red-400"> / {markets.length}</span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {/* Market table */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Market Comparison</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {analysis.domain} across {markets.length} markets · global figures are weighted by market search volume
+            </p>
+          </div>
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors text-sm"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+            Export CSV
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700/50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Market</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">SOS</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">SOV</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Gap</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Market Volume</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Top Categories</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Quick-Win Potential</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {markets.map(m => {
+                const weight = global.totalMarketVolume > 0 ? (m.totalMarketVolume / global.totalMarketVolume) * 100 : 0;
+                return (
+                  <tr key={`${m.locationCode}-${m.languageCode}`} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <div className="font-medium text-gray-900 dark:text-white">{m.locationName}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{m.languageCode.toUpperCase()}{m.brandName && ` · ${m.brandName}`}</div>
+                    </td>
+                    {m.error ? (
+                      <td colSpan={6} className="px-4 py-3 text-sm text-red-600 dark:text-red-400">{m.error}</td>
+                    ) : (
+                      <>
+                        <td className="px-4 py-3 text-right font-medium text-gray-900 dark:text-white">{m.shareOfSearch}%</td>
+                        <td className="px-4 py-3 text-right font-medium text-gray-900 dark:text-white">{m.shareOfVoice}%</td>
+                        <td className={`px-4 py-3 text-right font-semibold ${getGapClass(m.gap)}`}>{formatGap(m.gap)}</td>
+                        <td className="px-4 py-3 text-right text-gray-600 dark:text-gray-300">
+                          {m.totalMarketVolume.toLocaleString()}
+                          <div className="text-xs text-gray-400 dark:text-gray-500">{weight.toFixed(1)}% weight</div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex flex-wrap gap-1">
+                            {m.topCategories.map(category => (
+                              <span key={category} className="px-2 py-0.5 text-xs rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300">
+                                {category}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-right text-emerald-600 dark:text-emerald-400 font-medium">
+                          +{m.quickWinPotential.toLocaleString()}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot className="bg-gray-50 dark:bg-gray-700/50 font-semibold">
+              <tr>
+                <td className="px-6 py-3 text-gray-900 dark:text-white">Global (volume-weighted)</td>
+                <td className="px-4 py-3 text-right text-gray-900 dark:text-white">{global.shareOfSearch}%</td>
+                <td className="px-4 py-3 text-right text-gray-900 dark:text-white">{global.shareOfVoice}%</td>
+                <td className={`px-4 py-3 text-right ${getGapClass(global.gap)}`}>{formatGap(global.gap)}</td>
+                <td className="px-4 py-3 text-right text-gray-900 dark:text-white">{global.totalMarketVolume.toLocaleString()}</td>
+                <td className="px-4 py-3" />
+                <td className="px-4 py-3 text-right text-emerald-600 dark:text-emerald-400">
+                  +{markets.reduce((sum, m) => sum + m.quickWinPotential, 0).toLocaleString()}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
 import type { Opportunity, OpportunityType, BrandContext } from '../types';
+import { formatRevenue } from '../lib/conversions';
 
 interface OpportunitiesPanelProps {
   opportunities: Opportunity[];
   brandContext?: BrandContext;
   onDiscardChange?: (discardedIds: Set<string>) => void;
   isLoadingReasoning?: boolean;
+  currency?: string; // Set when opportunities carry revenue from conversion data
 }
 
 const TYPE_CONFIG: Record<OpportunityType, { label: string; icon: string; color: string; bgColor: string; borderColor: string }> = {
@@ -56,7 +58,8 @@ const getPositionBadgeClass = (position: number): string => {
 export const OpportunitiesPanel: React.FC<OpportunitiesPanelProps> = ({
   opportunities,
   onDiscardChange,
-  isLoadingReasoning = false
+  isLoadingReasoning = false,
+  currency
 }) => {
   const [typeFilter, setTypeFilter] = useState<'all' | OpportunityType>('all');
   const [effortFilter, setEffortFilter] = useState<'all' | 'low' | 'medium' | 'high'>('all');
@@ -95,6 +98,7 @@ export const OpportunitiesPanel: React.FC<OpportunitiesPanelProps> = ({
 
   const activeOpportunities = opportunities.filter(opp => !discardedIds.has(opp.id));
   const totalPotential = activeOpportunities.reduce((sum, opp) => sum + opp.clickPotential, 0);
+  const totalRevenue = activeOpportunities.reduce((sum, opp) => sum + (opp.revenuePotential ?? 0), 0);
   const lowEffortCount = activeOpportunities.filter(opp => opp.effort === 'low').length;
   const typeCounts = activeOpportunities.reduce((acc, opp) => {
     acc[opp.type] = (acc[opp.type] || 0) + 1;
@@ -103,17 +107,19 @@ export const OpportunitiesPanel: React.FC<OpportunitiesPanelProps> = ({
 
   const handleExport = () => {
     const csv = [
-      ['Keyword', 'Type', 'Priority', 'Search Volume', 'Click Potential', 'Effort', 'Position', 'Target Position', 'Category', 'Reasoning'].join(','),
+      ['Keyword', 'Type', 'Priority', 'Search Volume', 'Click Potential', 'Revenue Potential', 'Effort', 'Position', 'Target Position', 'Category', 'Cluster', 'Reasoning'].join(','),
       ...activeOpportunities.map(opp => [
         `"${opp.keyword}"`,
         opp.type,
         opp.priority,
         opp.searchVolume,
         opp.clickPotential,
+        opp.revenuePotential ?? '',
         opp.effort,
         opp.currentPosition || '',
         opp.targetPosition || '',
         opp.category || '',
+        `"${opp.cluster || ''}"`,
         `"${(opp.reasoning || '').replace(/"/g, '""')}"`
       ].join(','))
     ].join('\n');
@@ -188,6 +194,14 @@ export const OpportunitiesPanel: React.FC<OpportunitiesPanelProps> = ({
             </div>
             <div className="text-xs text-amber-700 dark:text-amber-300">clicks potential</div>
           </div>
+          {currency && (
+            <div className="text-center px-4 py-2 bg-emerald-50 dark:bg-emerald-900/20 rounded-lg">
+              <div className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">
+                +{formatRevenue(totalRevenue, currency)}
+              </div>
+              <div className="text-xs text-emerald-700 dark:text-emerald-300">revenue / mo</div>
+            </div>
+          )}
           <div className="text-center px-4 py-2 bg-green-50 dark:bg-green-900/20 rounded-lg">
             <div className="text-2xl font-bold text-green-600 dark:text-green-400">
               {lowEffortCount}
@@ -342,6 +356,14 @@ export const OpportunitiesPanel: React.FC<OpportunitiesPanelProps> = ({
                           {opp.category}
                         </span>
                       )}
+                      {opp.cluster && opp.cluster.toLowerCase() !== opp.keyword.toLowerCase() && (
+                        <span
+                          className="px-2 py-0.5 text-xs rounded-full bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 truncate max-w-[180px]"
+                          title={`Topic cluster: ${opp.cluster}`}
+                        >
+                          {opp.cluster}
+                        </span>
+                      )}
                     </div>
 
                     <div className="flex flex-wrap items-center gap-3 text-sm">
@@ -395,6 +417,11 @@ export const OpportunitiesPanel: React.FC<OpportunitiesPanelProps> = ({
                       <div className="text-xs text-gray-500 dark:text-gray-400">
                         clicks potential
                       </div>
+                      {currency && opp.revenuePotential !== undefined && (
+                        <div className={`text-sm font-medium ${isDiscarded ? 'text-gray-400' : 'text-emerald-700 dark:text-emerald-300'}`}>
+                          +{formatRevenue(opp.revenuePotential, currency)} / mo
+                        </div>
+                      )}
                     </div>
 
                     {/* Discard Button */}
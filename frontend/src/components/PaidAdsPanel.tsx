@@ -1,4 +1,8 @@
 import { useState, useEffect } from 'react';
+import type { CacheInfo } from '../types';
+import { CacheStatusBadge } from './CacheStatusBadge';
+import { getWorkspaceHeaders } from '../services/workspaceStorage';
+import { loadChannelAnalysis, removeChannelAnalysis, storeChannelAnalysis } from '../services/projectSync';
 
 interface PaidKeyword {
   keyword: string;
@@ -38,6 +42,7 @@ interface PaidAdsResponse {
     totalSpend: number;
   };
   timestamp: string;
+  cache?: CacheInfo | null;
   debug?: {
     apiStatus: string;
     method: string;
@@ -85,10 +90,11 @@ export function PaidAdsPanel({ domain, brandName, competitors, locationCode = 28
   const [isLoadingInsights, setIsLoadingInsights] = useState(false);
   const [insightsError, setInsightsError] = useState<string | null>(null);
 
-  // Load saved analyses on mount
+  // Load saved analyses on mount, then the tracked project's copy if it has a newer one
   useEffect(() => {
     if (!domain) return;
 
+    let localData: PaidAdsResponse | null = null;
     const saved = localStorage.getItem(STORAGE_KEY);
     if (saved) {
       try {
@@ -98,6 +104,7 @@ export function PaidAdsPanel({ domain, brandName, competitors, locationCode = 28
         setSavedAnalyses(validAnalyses);
         const currentAnalysis = validAnalyses.find(a => a.domain.toLowerCase() === domain.toLowerCase());
         if (currentAnalysis) {
+          localData = currentAnalysis.data;
           setData(currentAnalysis.data);
         }
       } catch {
@@ -106,7 +113,15 @@ export function PaidAdsPanel({ domain, brandName, competitors, locationCode = 28
         localStorage.removeItem(STORAGE_KEY);
       }
     }
-  }, [domain]);
+
+    let cancelled = false;
+    loadChannelAnalysis<PaidAdsResponse>(domain, locationCode, 'paid').then(remote => {
+      if (cancelled || !remote || remote.timestamp === localData?.timestamp) return;
+      setData(remote);
+      setInsights(null);
+    });
+    return () => { cancelled = true; };
+  }, [domain, locationCode]);
 
   // Generate AI insights when data is loaded (either from fetch or localStorage)
   useEffect(() => {
@@ -133,6 +148,7 @@ export function PaidAdsPanel({ domain, brandName, competitors, locationCode = 28
     const updated = [newAnalysis, ...filtered];
     setSavedAnalyses(updated);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    storeChannelAnalysis(domain, locationCode, 'paid', analysisData);
   };
 
   const deleteCurrentAnalysis = () => {
@@ -154,6 +170,7 @@ export function PaidAdsPanel({ domain, brandName, competitors, locationCode = 28
     );
     setSavedAnalyses(filtered);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    removeChannelAnalysis(domain, locationCode, 'paid');
     setData(null);
     setError(null);
     setInsights(null);
@@ -167,7 +184,7 @@ export function PaidAdsPanel({ domain, brandName, competitors, locationCode = 28
     try {
       const response = await fetch('/api/generate-channel-insights', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
         body: JSON.stringify({
           type: 'paid-ads',
           brandName,
@@ -198,7 +215,7 @@ export function PaidAdsPanel({ domain, brandName, competitors, locationCode = 28
     }
   };
 
-  const fetchPaidAds = async () => {
+  const fetchPaidAds = async (forceRefresh = false) => {
     if (!domain) return;
 
     setIsLoading(true);
@@ -207,12 +224,13 @@ export function PaidAdsPanel({ domain, brandName, competitors, locationCode = 28
     try {
       const response = await fetch('/api/paid-ads', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
         body: JSON.stringify({
           domain,
           competitors: competitors.slice(0, 4),
           locationCode,
           languageCode,
+          forceRefresh,
         }),
       });
 
@@ -330,7 +348,7 @@ export function PaidAdsPanel({ domain, brandName, competitors, locationCode = 28
               estimated spend, and your share of paid traffic.
             </p>
             <button
-              onClick={fetchPaidAds}
+              onClick={() => fetchPaidAds()}
               className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center gap-2 mx-auto"
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -372,7 +390,7 @@ export function PaidAdsPanel({ domain, brandName, competitors, locationCode = 28
           <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">Failed to Fetch Paid Ads Data</h3>
           <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{error}</p>
           <button
-            onClick={fetchPaidAds}
+            onClick={() => fetchPaidAds()}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
           >
             Try Again
@@ -394,7 +412,10 @@ export function PaidAdsPanel({ domain, brandName, competitors, locationCode = 28
 
       {/* Analysis info */}
       <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
-        <span>Analysis from: {formatDateTime(data.timestamp)}</span>
+        <span className="flex items-center gap-3">
+          Analysis from: {formatDateTime(data.timestamp)}
+          <CacheStatusBadge cache={data.cache} onRefresh={() => fetchPaidAds(true)} isRefreshing={isLoading} />
+        </span>
         <span>Method: {data.debug?.method || 'DataForSEO'}</span>
       </div>
 
@@ -874,7 +895,7 @@ export function PaidAdsPanel({ domain, brandName, competitors, locationCode = 28
       {/* Action buttons */}
       <div className="flex justify-center gap-3">
         <button
-          onClick={fetchPaidAds}
+          onClick={() => fetchPaidAds()}
           className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors flex items-center gap-2"
         >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
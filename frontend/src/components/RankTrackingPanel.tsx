@@ -0,0 +1,419 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { CTRModel, RankMover, RankTrackingData, RankedKeyword, WatchedKeyword } from '../types';
+import { getRankTracking, saveWatchList } from '../services/api';
+import {
+  MAX_TRACKED_COMPETITORS,
+  MAX_WATCHED_KEYWORDS,
+  getRankHistory,
+  getRankMovers,
+  getTrackedSOVSeries,
+  toTrackedDomain
+} from '../../shared/rankTracking';
+import { SerpFeaturesPanel } from './SerpFeaturesPanel';
+
+interface RankTrackingPanelProps {
+  domain: string;
+  locationCode: number;
+  keywords: RankedKeyword[]; // Ranked keywords offered for pinning, with their volumes
+  ctrModel?: CTRModel;
+}
+
+const DOMAIN_COLORS = ['#f97316', '#8b5cf6', '#ec4899', '#06b6d4', '#10b981', '#f59e0b'];
+const MOVER_PERIODS = [1, 7, 30];
+const MAX_MOVERS_SHOWN = 10;
+const KEYWORD_SUGGESTIONS_ID = 'rank-tracking-keywords';
+
+const inputClass = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const formatPosition = (position: number | null | undefined) => (position ? `#${position}` : '—');
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  values: Array<number | null>;
+}
+
+// Daily line chart; positions are drawn with #1 at the top and a gap where a domain didn't rank
+const DailyChart: React.FC<{ dates: string[]; series: ChartSeries[]; mode: 'position' | 'percent' }> = ({ dates, series, mode }) => {
+  const width = 640;
+  const height = 200;
+  const padding = { top: 24, right: 12, bottom: 28, left: 36 };
+  const chartWidth = width - padding.left - padding.right;
+  const chartHeight = height - padding.top - padding.bottom;
+
+  const values = series.flatMap(s => s.values).filter((v): v is number => v !== null);
+  const minValue = mode === 'position' ? 1 : 0;
+  const maxValue = Math.max(...values, mode === 'position' ? 10 : 1);
+  const valueRange = maxValue - minValue || 1;
+
+  const getX = (index: number) =>
+    padding.left + (dates.length === 1 ? chartWidth / 2 : (index / (dates.length - 1)) * chartWidth);
+  const getY = (value: number) => {
+    const ratio = (value - minValue) / valueRange;
+    return mode === 'position' ? padding.top + ratio * chartHeight : padding.top + chartHeight - ratio * chartHeight;
+  };
+
+  const generatePath = (points: Array<number | null>) =>
+    points.map((value, index) => {
+      if (value === null) return '';
+      const move = index === 0 || points[index - 1] === null ? 'M' : 'L';
+      return `${move} ${getX(index)} ${getY(value)}`;
+    }).join(' ');
+
+  const labelStep = Math.max(1, Math.ceil(dates.length / 8));
+  const gridLines = [0, 1, 2, 3, 4].map(i => {
+    const value = mode === 'position'
+      ? Math.round(minValue + (i / 4) * valueRange)
+      : Math.round((maxValue - (i / 4) * valueRange) * 10) / 10;
+    return { y: padding.top + (i / 4) * chartHeight, label: mode === 'position' ? `#${value}` : `${value}%` };
+  });
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {gridLines.map((line, idx) => (
+        <g key={idx}>
+          <line x1={padding.left} y1={line.y} x2={width - padding.right} y2={line.y} stroke="#f3f4f6" strokeWidth="1" />
+          <text x={padding.left - 4} y={line.y + 3} textAnchor="end" fontSize="9" fill="#9ca3af">{line.label}</text>
+        </g>
+      ))}
+
+      {series.map(s => (
+        <g key={s.label}>
+          <path d={generatePath(s.values)} fill="none" stroke={s.color} strokeWidth="2" />
+          {s.values.map((value, index) => value !== null && (
+            <circle key={index} cx={getX(index)} cy={getY(value)} r="2.5" fill={s.color}>
+              <title>{`${formatDay(dates[index])} · ${s.label}: ${mode === 'position' ? `#${value}` : `${value}%`}`}</title>
+            </circle>
+          ))}
+        </g>
+      ))}
+
+      {dates.map((date, index) => index % labelStep === 0 && (
+        <text key={date} x={getX(index)} y={height - 6} textAnchor="middle" fontSize="9" fill="#6b7280">
+          {formatDay(date)}
+        </text>
+      ))}
+
+      <g transform={`translate(${padding.left}, 4)`}>
+        {series.map((s, index) => (
+          <g key={s.label} transform={`translate(${index * 110}, 0)`}>
+            <rect width="8" height="8" fill={s.color} rx="1" />
+            <text x="10" y="7" fontSize="9" fill="#374151">{s.label.length > 18 ? `${s.label.slice(0, 17)}…` : s.label}</text>
+          </g>
+        ))}
+      </g>
+    </svg>
+  );
+};
+
+const MoverList: React.FC<{ title: string; movers: RankMover[]; positive: boolean }> = ({ title, movers, positive }) => (
+  <div>
+    <h4 className={`text-sm font-medium mb-2 ${positive ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>{title}</h4>
+    {movers.length === 0 ? (
+      <p className="text-xs text-gray-500 dark:text-gray-400">No changes</p>
+    ) : (
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+        {movers.slice(0, MAX_MOVERS_SHOWN).map(m => (
+          <li key={m.keyword} className="py-1.5 flex items-center justify-between gap-3 text-sm">
+            <span className="text-gray-900 dark:text-white truncate" title={m.keyword}>{m.keyword}</span>
+            <span className="flex items-center gap-2 shrink-0 text-gray-500 dark:text-gray-400">
+              {formatPosition(m.previous)} → {formatPosition(m.current)}
+              <span className={`font-medium ${positive ? 'text-emerald-600' : 'text-red-600'}`}>
+                {m.change > 0 ? '+' : ''}{m.change}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export const RankTrackingPanel: React.FC<RankTrackingPanelProps> = ({
+  domain,
+  locationCode,
+  keywords,
+  ctrModel
+}) => {
+  const [data, setData] = useState<RankTrackingData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newKeyword, setNewKeyword] = useState('');
+  const [selectedKeyword, setSelectedKeyword] = useState<string | null>(null);
+  const [moverDays, setMoverDays] = useState(7);
+
+  const load = useCallback(async () => {
+    if (!domain) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      setData(await getRankTracking(domain, locationCode));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load rank tracking');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [domain, locationCode]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const save = async (watched: WatchedKeyword[], competitors: string[]) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      setData(await saveWatchList(domain, locationCode, watched, competitors));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save watch list');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const watched = data?.keywords ?? [];
+  const competitors = data?.competitors ?? [];
+  const checks = data?.checks ?? [];
+  // Checks are stored under the bare domain the route tracks
+  const ownDomain = toTrackedDomain(domain);
+  const domains = [ownDomain, ...competitors];
+  const isWatched = (keyword: string) => watched.some(w => w.keyword.toLowerCase() === keyword.toLowerCase());
+
+  const handlePin = (keyword: string) => {
+    const trimmed = keyword.trim();
+    if (!trimmed || isWatched(trimmed)) return;
+    const ranked = keywords.find(k => k.keyword.toLowerCase() === trimmed.toLowerCase());
+    setNewKeyword('');
+    save([...watched, { keyword: ranked?.keyword ?? trimmed, searchVolume: ranked?.searchVolume ?? 0 }], competitors);
+  };
+
+  const handlePinTop = () => {
+    const additions = keywords
+      .filter(k => !k.isDiscarded && !isWatched(k.keyword))
+      .sort((a, b) => b.searchVolume - a.searchVolume)
+      .slice(0, Math.max(0, Math.min(10, MAX_WATCHED_KEYWORDS - watched.length)))
+      .map(k => ({ keyword: k.keyword, searchVolume: k.searchVolume }));
+    if (additions.length > 0) save([...watched, ...additions], competitors);
+  };
+
+  // Latest and previous reading per keyword and domain, for the watch list table
+  const latestDay = checks.length > 0 ? checks[checks.length - 1].checkedAt.slice(0, 10) : null;
+  const readingOn = (keyword: string, target: string, before?: string) => {
+    for (let i = checks.length - 1; i >= 0; i--) {
+      const c = checks[i];
+      if (before && c.checkedAt.slice(0, 10) >= before) continue;
+      if (c.keyword === keyword && c.domain === target) return c;
+    }
+    return undefined;
+  };
+
+  const chartKeyword = selectedKeyword && isWatched(selectedKeyword) ? selectedKeyword : watched[0]?.keyword ?? null;
+  const history = chartKeyword ? getRankHistory(checks, chartKeyword, domains) : [];
+  const movers = getRankMovers(checks, watched, ownDomain, moverDays);
+  const sovSeries = getTrackedSOVSeries(checks, watched, domains, ctrModel);
+  const unpinnedSuggestions = keywords.filter(k => !k.isDiscarded && !isWatched(k.keyword));
+
+  if (!domain) return null;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Rank Tracking</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Pin up to {MAX_WATCHED_KEYWORDS} keywords. Their live Google positions for {domain} and up to {MAX_TRACKED_COMPETITORS} competitor
+            domains are recorded every day, so moves show up before they reach the ranked keyword data.
+          </p>
+        </div>
+
+        {error && (
+          <p className="px-6 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20">{error}</p>
+        )}
+
+        <div className="px-6 py-4 space-y-4">
+          {isLoading && !data ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading rank tracking…</p>
+          ) : data && !data.projectId ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Start snapshot tracking for {domain} on the Overview tab to watch keywords.
+            </p>
+          ) : data && (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  list={KEYWORD_SUGGESTIONS_ID}
+                  value={newKeyword}
+                  onChange={e => setNewKeyword(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && handlePin(newKeyword)}
+                  placeholder="Keyword to watch"
+                  aria-label="Keyword to watch"
+                  className={`${inputClass} w-64`}
+                />
+                <datalist id={KEYWORD_SUGGESTIONS_ID}>
+                  {unpinnedSuggestions.slice(0, 200).map(k => <option key={`${k.keyword}|${k.url ?? ''}`} value={k.keyword} />)}
+                </datalist>
+                <button
+                  onClick={() => handlePin(newKeyword)}
+                  disabled={isSaving || !newKeyword.trim() || watched.length >= MAX_WATCHED_KEYWORDS}
+                  className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Pin
+                </button>
+                <button
+                  onClick={handlePinTop}
+                  disabled={isSaving || unpinnedSuggestions.length === 0 || watched.length >= MAX_WATCHED_KEYWORDS}
+                  className="px-3 py-1.5 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg disabled:opacity-50"
+                >
+                  Pin top 10 by volume
+                </button>
+                {isSaving && <span className="text-xs text-gray-500 dark:text-gray-400">Saving and checking today's positions…</span>}
+              </div>
+
+              <label className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                Competitor domains
+                <input
+                  key={competitors.join(',')}
+                  type="text"
+                  defaultValue={competitors.join(', ')}
+                  onBlur={e => {
+                    const next = e.target.value.split(',').map(c => c.trim()).filter(Boolean);
+                    if (next.join(',') !== competitors.join(',')) save(watched, next);
+                  }}
+                  placeholder="competitor.com, other.com"
+                  aria-label="Competitor domains, comma separated"
+                  className={`${inputClass} flex-1 min-w-[16rem]`}
+                />
+              </label>
+
+              {watched.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No watched keywords yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                        <th className="py-1 text-left font-medium">Keyword</th>
+                        <th className="py-1 text-right font-medium">Volume</th>
+                        {domains.map(d => (
+                          <th key={d} className="py-1 text-right font-medium max-w-[8rem] truncate" title={d}>{d}</th>
+                        ))}
+                        <th className="py-1" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                      {watched.map(w => (
+                        <tr
+                          key={w.keyword}
+                          onClick={() => setSelectedKeyword(w.keyword)}
+                          className={`cursor-pointer ${w.keyword === chartKeyword ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700/30'}`}
+                        >
+                          <td className="py-1.5 text-gray-900 dark:text-white">{w.keyword}</td>
+                          <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{w.searchVolume.toLocaleString()}</td>
+                          {domains.map(d => {
+                            const latest = readingOn(w.keyword, d);
+                            const previous = latestDay ? readingOn(w.keyword, d, latestDay) : undefined;
+                            const change = latest && previous ? (previous.position ?? 101) - (latest.position ?? 101) : 0;
+                            return (
+                              <td key={d} className="py-1.5 text-right text-gray-900 dark:text-white" title={latest?.url ?? undefined}>
+                                {formatPosition(latest?.position)}
+                                {change !== 0 && (
+                                  <span className={`ml-1 text-xs ${change > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                                    {change > 0 ? '▲' : '▼'}{Math.abs(change)}
+                                  </span>
+                                )}
+                              </td>
+                            );
+                          })}
+                          <td className="py-1.5 text-right">
+                            <button
+                              onClick={e => {
+                                e.stopPropagation();
+                                save(watched.filter(k => k.keyword !== w.keyword), competitors);
+                              }}
+                              disabled={isSaving}
+                              className="text-xs text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                            >
+                              Unpin
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {chartKeyword && history.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Position History: {chartKeyword}</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">Daily live-SERP position; gaps are days outside the top 100.</p>
+          <DailyChart
+            dates={history.map(p => p.date)}
+            mode="position"
+            series={domains.map((d, i) => ({ label: d, color: DOMAIN_COLORS[i % DOMAIN_COLORS.length], values: history.map(p => p.positions[d]) }))}
+          />
+        </div>
+      )}
+
+      {watched.length > 0 && movers.since && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Movers</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {domain}'s biggest position changes since {formatDay(movers.since)}; dropping out of the top 100 counts as #101.
+              </p>
+            </div>
+            <div className="flex gap-1">
+              {MOVER_PERIODS.map(days => (
+                <button
+                  key={days}
+                  onClick={() => setMoverDays(days)}
+                  className={`px-2.5 py-1 text-xs rounded-md ${moverDays === days ? 'bg-blue-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'}`}
+                >
+                  {days === 1 ? '1 day' : `${days} days`}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <MoverList title="Gains" movers={movers.gainers} positive />
+            <MoverList title="Losses" movers={movers.losers} positive={false} />
+          </div>
+        </div>
+      )}
+
+      {sovSeries.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Tracked Share of Voice</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+            SOV of each domain on the watched keywords, from the daily positions and the selected CTR model
+            {ctrModel ? ` (${ctrModel.name})` : ''}. Latest: {sovSeries[sovSeries.length - 1].keywords} keywords.
+          </p>
+          <DailyChart
+            dates={sovSeries.map(p => p.date)}
+            mode="percent"
+            series={domains.map((d, i) => ({ label: d, color: DOMAIN_COLORS[i % DOMAIN_COLORS.length], values: sovSeries.map(p => p.shares[d] ?? null) }))}
+          />
+        </div>
+      )}
+
+      <SerpFeaturesPanel
+        domain={ownDomain}
+        domains={domains}
+        keywords={watched}
+        checks={checks}
+        featureChecks={data?.featureChecks ?? []}
+      />
+    </div>
+  );
+};
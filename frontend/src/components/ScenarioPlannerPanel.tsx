@@ -0,0 +1,365 @@
+import React, { useMemo, useState } from 'react';
+import type {
+  CategoryRule,
+  CTRModel,
+  RankedKeyword,
+  RankingScenario,
+  ScenarioAdjustment,
+  ScenarioAdjustmentMode,
+  ScenarioResult,
+  ScenarioTargetType
+} from '../types';
+import { getScenarios, saveScenarios } from '../services/scenarioStorage';
+import {
+  createScenario,
+  createScenarioAdjustment,
+  describeAdjustment,
+  duplicateScenario,
+  listUrlFolders,
+  MAX_SCENARIO_POSITION,
+  SCENARIO_TARGET_TYPES,
+  simulateScenario,
+  validateScenarioAdjustment
+} from '../lib/scenarios';
+import { getKeywordCategorizer } from '../lib/taxonomy';
+
+interface ScenarioPlannerPanelProps {
+  domain: string;
+  locationCode: number;
+  keywords: RankedKeyword[];
+  shareOfSearch: number;
+  ctrModel: CTRModel;
+  applySerpAdjustments: boolean;
+  categoryRules: CategoryRule[];
+}
+
+const MODE_OPTIONS: { id: ScenarioAdjustmentMode; label: string }[] = [
+  { id: 'gain', label: 'Gain positions' },
+  { id: 'position', label: 'Move to position' }
+];
+
+// Keyword suggestions in the editor, highest volume first
+const MAX_KEYWORD_SUGGESTIONS = 500;
+const MAX_CHANGED_ROWS = 50;
+
+const formatSigned = (value: number, unit: string = ''): string =>
+  `${value > 0 ? '+' : ''}${value.toLocaleString()}${unit}`;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const getDeltaClass = (value: number): string => {
+  if (value > 0) return 'text-emerald-600 dark:text-emerald-400';
+  if (value < 0) return 'text-red-600 dark:text-red-400';
+  return 'text-gray-500 dark:text-gray-400';
+};
+
+const inputClass = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const SUGGESTION_LISTS: Record<ScenarioTargetType, string> = {
+  keyword: 'scenario-keywords',
+  category: 'scenario-categories',
+  urlFolder: 'scenario-folders'
+};
+
+export const ScenarioPlannerPanel: React.FC<ScenarioPlannerPanelProps> = ({
+  domain,
+  locationCode,
+  keywords,
+  shareOfSearch,
+  ctrModel,
+  applySerpAdjustments,
+  categoryRules
+}) => {
+  const [scenarios, setScenarios] = useState<RankingScenario[]>(() => getScenarios(domain, locationCode));
+  const [selectedId, setSelectedId] = useState<string | null>(() => scenarios[0]?.id ?? null);
+
+  const categorize = useMemo(() => getKeywordCategorizer(categoryRules), [categoryRules]);
+  const options = useMemo(
+    () => ({ categorize, shareOfSearch, model: ctrModel, applySerpAdjustments }),
+    [categorize, shareOfSearch, ctrModel, applySerpAdjustments]
+  );
+
+  const baseline = useMemo(() => simulateScenario(keywords, { adjustments: [] }, options), [keywords, options]);
+  const results = useMemo(
+    () => new Map<string, ScenarioResult>(scenarios.map(s => [s.id, simulateScenario(keywords, s, options)])),
+    [keywords, scenarios, options]
+  );
+
+  const suggestions = useMemo(() => ({
+    keyword: [...keywords]
+      .sort((a, b) => b.searchVolume - a.searchVolume)
+      .slice(0, MAX_KEYWORD_SUGGESTIONS)
+      .map(kw => kw.keyword),
+    category: [...new Set(keywords.map(categorize))].sort(),
+    urlFolder: listUrlFolders(keywords).map(f => f.folder)
+  }), [keywords, categorize]);
+
+  const selected = scenarios.find(s => s.id === selectedId) ?? null;
+  const selectedResult = selected ? results.get(selected.id) ?? null : null;
+
+  const update = (next: RankingScenario[]) => setScenarios(saveScenarios(domain, locationCode, next));
+
+  const updateScenario = (id: string, changes: Partial<Omit<RankingScenario, 'id' | 'createdAt'>>) => {
+    update(scenarios.map(s => (s.id === id ? { ...s, ...changes, updatedAt: new Date().toISOString() } : s)));
+  };
+
+  const updateAdjustment = (scenario: RankingScenario, id: string, changes: Partial<ScenarioAdjustment>) => {
+    updateScenario(scenario.id, { adjustments: scenario.adjustments.map(a => (a.id === id ? { ...a, ...changes } : a)) });
+  };
+
+  const addScenario = (scenario: RankingScenario) => {
+    update([...scenarios, scenario]);
+    setSelectedId(scenario.id);
+  };
+
+  const deleteScenario = (id: string) => {
+    const remaining = scenarios.filter(s => s.id !== id);
+    update(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const rows: Array<{ id: string | null; name: string; result: ScenarioResult }> = [
+    { id: null, name: 'Current rankings', result: baseline },
+    ...scenarios.map(s => ({ id: s.id, name: s.name || 'Untitled scenario', result: results.get(s.id)! }))
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Baseline vs. every saved scenario */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">What-If Scenarios</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Set target positions for keywords, categories or URL folders and see what the rankings would do to
+              SOV, visible volume, the Growth Gap and clicks. Uses the selected CTR model.
+            </p>
+          </div>
+          <button
+            onClick={() => addScenario(createScenario(`Scenario ${scenarios.length + 1}`, [createScenarioAdjustment()]))}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 whitespace-nowrap"
+          >
+            New scenario
+          </button>
+        </div>
+
+        <div className="px-6 py-3 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                <th className="py-1 text-left font-medium">Scenario</th>
+                <th className="py-1 text-right font-medium">SOV</th>
+                <th className="py-1 text-right font-medium">Visible volume</th>
+                <th className="py-1 text-right font-medium">Growth Gap</th>
+                <th className="py-1 text-right font-medium">Clicks / mo</th>
+                <th className="py-1 text-right font-medium">Keywords moved</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {rows.map(({ id, name, result }) => {
+                const sovChange = round1(result.shareOfVoice - baseline.shareOfVoice);
+                const isSelected = id !== null && id === selectedId;
+                return (
+                  <tr
+                    key={id ?? 'baseline'}
+                    onClick={() => id && setSelectedId(id)}
+                    className={`${id ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50' : ''} ${isSelected ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                  >
+                    <td className="py-1.5 text-gray-900 dark:text-white">
+                      {name}
+                      {id === null && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">Baseline</span>
+                      )}
+                    </td>
+                    <td className="py-1.5 text-right text-gray-700 dark:text-gray-300">
+                      {result.shareOfVoice}%
+                      {id && <span className={`ml-1 text-xs ${getDeltaClass(sovChange)}`}>({formatSigned(sovChange, ' pts')})</span>}
+                    </td>
+                    <td className="py-1.5 text-right text-gray-700 dark:text-gray-300">{result.visibleVolume.toLocaleString()}</td>
+                    <td className="py-1.5 text-right text-gray-700 dark:text-gray-300">{formatSigned(result.gap.gap, ' pts')}</td>
+                    <td className={`py-1.5 text-right ${id ? getDeltaClass(result.clickChange) : 'text-gray-400'}`}>
+                      {id ? formatSigned(result.clickChange) : '—'}
+                    </td>
+                    <td className="py-1.5 text-right text-gray-700 dark:text-gray-300">{id ? result.changedKeywords.length : '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {scenarios.length === 0 && (
+            <p className="py-3 text-sm text-gray-500 dark:text-gray-400">
+              No scenarios yet. Create one to model changes such as "all Skincare keywords gain 3 positions".
+            </p>
+          )}
+        </div>
+      </div>
+
+      {selected && selectedResult && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <input
+              value={selected.name}
+              onChange={e => updateScenario(selected.id, { name: e.target.value })}
+              aria-label="Scenario name"
+              className={`${inputClass} text-base font-semibold w-full sm:w-72`}
+            />
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => addScenario(duplicateScenario(selected, `${selected.name} (copy)`))}
+                className="px-3 py-1.5 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600"
+              >
+                Duplicate
+              </button>
+              <button
+                onClick={() => deleteScenario(selected.id)}
+                className="px-3 py-1.5 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+
+          {/* Adjustments */}
+          <div className="px-6 py-3 overflow-x-auto">
+            <datalist id={SUGGESTION_LISTS.keyword}>
+              {suggestions.keyword.map(k => <option key={k} value={k} />)}
+            </datalist>
+            <datalist id={SUGGESTION_LISTS.category}>
+              {suggestions.category.map(c => <option key={c} value={c} />)}
+            </datalist>
+            <datalist id={SUGGESTION_LISTS.urlFolder}>
+              {suggestions.urlFolder.map(f => <option key={f} value={f} />)}
+            </datalist>
+            <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+              Adjustments apply top to bottom; a later one wins for keywords both match.
+            </p>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                  <th className="py-1 text-left font-medium">Target</th>
+                  <th className="py-1 text-left font-medium">Matches</th>
+                  <th className="py-1 text-left font-medium">Change</th>
+                  <th className="py-1 text-left font-medium">Amount</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {selected.adjustments.map(adjustment => {
+                  const error = validateScenarioAdjustment(adjustment);
+                  const targetType = SCENARIO_TARGET_TYPES.find(t => t.id === adjustment.target);
+                  return (
+                    <tr key={adjustment.id}>
+                      <td className="py-1 pr-2">
+                        <select
+                          value={adjustment.target}
+                          onChange={e => updateAdjustment(selected, adjustment.id, { target: e.target.value as ScenarioTargetType, value: '' })}
+                          aria-label="Target type"
+                          className={inputClass}
+                        >
+                          {SCENARIO_TARGET_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                        </select>
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input
+                          value={adjustment.value}
+                          list={SUGGESTION_LISTS[adjustment.target]}
+                          placeholder={targetType?.placeholder}
+                          onChange={e => updateAdjustment(selected, adjustment.id, { value: e.target.value })}
+                          aria-label={targetType?.label ?? 'Target'}
+                          className={`${inputClass} w-56`}
+                        />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <select
+                          value={adjustment.mode}
+                          onChange={e => updateAdjustment(selected, adjustment.id, { mode: e.target.value as ScenarioAdjustmentMode })}
+                          aria-label="Change"
+                          className={inputClass}
+                        >
+                          {MODE_OPTIONS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                        </select>
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input
+                          type="number"
+                          min={1}
+                          max={adjustment.mode === 'position' ? MAX_SCENARIO_POSITION : MAX_SCENARIO_POSITION - 1}
+                          step={1}
+                          value={Number.isNaN(adjustment.amount) ? '' : adjustment.amount}
+                          onChange={e => updateAdjustment(selected, adjustment.id, { amount: e.target.valueAsNumber })}
+                          aria-label="Amount"
+                          className={`${inputClass} w-20`}
+                        />
+                        <span className={`ml-2 text-xs ${error ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                          {error ?? describeAdjustment(adjustment)}
+                        </span>
+                      </td>
+                      <td className="py-1 text-right">
+                        <button
+                          onClick={() => updateScenario(selected.id, { adjustments: selected.adjustments.filter(a => a.id !== adjustment.id) })}
+                          aria-label="Remove adjustment"
+                          className="px-2 text-gray-400 hover:text-red-600"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <button
+              onClick={() => updateScenario(selected.id, { adjustments: [...selected.adjustments, createScenarioAdjustment()] })}
+              className="mt-2 px-3 py-1.5 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg"
+            >
+              + Add adjustment
+            </button>
+          </div>
+
+          {/* Keywords the scenario moves */}
+          <div className="px-6 py-3 border-t border-gray-200 dark:border-gray-700 overflow-x-auto">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+              Keywords moved ({selectedResult.changedKeywords.length})
+            </h4>
+            {selectedResult.changedKeywords.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No ranked keywords match these adjustments yet.</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                    <th className="py-1 text-left font-medium">Keyword</th>
+                    <th className="py-1 text-left font-medium">Category</th>
+                    <th className="py-1 text-right font-medium">Volume</th>
+                    <th className="py-1 text-right font-medium">Position</th>
+                    <th className="py-1 text-right font-medium">Clicks / mo</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {selectedResult.changedKeywords.slice(0, MAX_CHANGED_ROWS).map(row => (
+                    <tr key={row.keyword}>
+                      <td className="py-1.5 text-gray-900 dark:text-white">{row.keyword}</td>
+                      <td className="py-1.5 text-gray-600 dark:text-gray-400">{row.category}</td>
+                      <td className="py-1.5 text-right text-gray-700 dark:text-gray-300">{row.searchVolume.toLocaleString()}</td>
+                      <td className="py-1.5 text-right text-gray-700 dark:text-gray-300">#{row.basePosition} → #{row.position}</td>
+                      <td className="py-1.5 text-right">
+                        <span className="text-gray-700 dark:text-gray-300">{row.clicks.toLocaleString()}</span>
+                        <span className={`ml-1 text-xs ${getDeltaClass(row.clicks - row.baseClicks)}`}>
+                          ({formatSigned(row.clicks - row.baseClicks)})
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {selectedResult.changedKeywords.length > MAX_CHANGED_ROWS && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Showing the {MAX_CHANGED_ROWS} keywords with the biggest click change.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { CTRModel, RankedKeyword, SearchConsoleImport } from '../types';
+import {
+  DEFAULT_PERIOD_DAYS,
+  MIN_CALIBRATION_IMPRESSIONS,
+  calibrateCTR,
+  compareClicks,
+  createCalibratedCTRModel,
+  parseSearchConsoleExport
+} from '../lib/searchConsole';
+
+interface SearchConsolePanelProps {
+  domain: string;
+  brandName: string;
+  keywords: RankedKeyword[];
+  ctrModel: CTRModel;
+  data: SearchConsoleImport | null;
+  onChange: (data: SearchConsoleImport | null) => void;
+  onUseModel: (model: CTRModel) => void;
+}
+
+const formatCTR = (ctr: number | null) => (ctr === null ? '—' : `${Math.round(ctr * 1000) / 10}%`);
+
+// Actual CTR well above the model means SOV was under-counting this position
+const getDeviationClass = (actual: number | null, modelled: number): string => {
+  if (actual === null || modelled === 0) return 'text-gray-400';
+  const ratio = actual / modelled;
+  if (ratio > 1.2) return 'text-emerald-600 dark:text-emerald-400';
+  if (ratio < 0.8) return 'text-red-600 dark:text-red-400';
+  return 'text-gray-600 dark:text-gray-300';
+};
+
+const inputClass = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const SearchConsolePanel: React.FC<SearchConsolePanelProps> = ({
+  domain,
+  brandName,
+  keywords,
+  ctrModel,
+  data,
+  onChange,
+  onUseModel
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseSearchConsoleExport(await file.text());
+    if (!result.success || !result.data) {
+      setImportError(result.error || 'Invalid Search Console export');
+      return;
+    }
+    setImportError(null);
+    onChange({
+      fileName: file.name,
+      importedAt: new Date().toISOString(),
+      periodDays: data?.periodDays ?? DEFAULT_PERIOD_DAYS,
+      excludeBranded: data?.excludeBranded ?? true,
+      rows: result.data
+    });
+  };
+
+  const clicks = useMemo(() => compareClicks(keywords, ctrModel), [keywords, ctrModel]);
+  const report = useMemo(
+    () => data ? calibrateCTR(data.rows, ctrModel, data.excludeBranded && brandName ? [brandName] : []) : null,
+    [data, ctrModel, brandName]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Search Console Clicks</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Import a performance export (CSV or JSON with query, page, clicks, impressions, position).
+              Ranked keywords with real clicks count those in SOV instead of volume × modelled CTR.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              {data ? 'Replace export' : 'Import export'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="text/csv,.csv,.txt,application/json,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            {data && (
+              <button
+                onClick={() => onChange(null)}
+                className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+
+        {importError && (
+          <p className="px-6 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20">{importError}</p>
+        )}
+
+        {!data ? (
+          <p className="px-6 py-6 text-sm text-gray-500 dark:text-gray-400">
+            No Search Console data for {domain} yet. SOV uses the {ctrModel.name} CTR curve for every keyword.
+          </p>
+        ) : (
+          <div className="px-6 py-4 space-y-4">
+            <div className="flex flex-wrap items-end gap-4 text-sm">
+              <div className="text-gray-600 dark:text-gray-300">
+                <span className="font-medium text-gray-900 dark:text-white">{data.fileName}</span>
+                {' · '}{data.rows.length.toLocaleString()} rows, imported {new Date(data.importedAt).toLocaleDateString()}
+              </div>
+              <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                Export covers
+                <input
+                  type="number"
+                  min={1}
+                  max={480}
+                  value={data.periodDays}
+                  onChange={e => {
+                    const periodDays = Math.round(e.target.valueAsNumber);
+                    if (periodDays >= 1 && periodDays <= 480) onChange({ ...data, periodDays });
+                  }}
+                  aria-label="Days covered by the export"
+                  className={`${inputClass} w-20`}
+                />
+                days
+              </label>
+              <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={data.excludeBranded}
+                  onChange={e => onChange({ ...data, excludeBranded: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Exclude "{brandName || domain}" queries from calibration
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="p-3 bg-gray-50 dark:bg-gray-700/30 rounded-lg">
+                <div className="text-xs text-gray-500 dark:text-gray-400">Keywords with real clicks</div>
+                <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {clicks.matchedKeywords} / {keywords.filter(k => !k.isDiscarded).length}
+                </div>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-700/30 rounded-lg">
+                <div className="text-xs text-gray-500 dark:text-gray-400">Actual clicks / mo (matched)</div>
+                <div className="text-lg font-semibold text-gray-900 dark:text-white">{clicks.actualClicks.toLocaleString()}</div>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-700/30 rounded-lg">
+                <div className="text-xs text-gray-500 dark:text-gray-400">Modelled clicks / mo (matched)</div>
+                <div className="text-lg font-semibold text-gray-900 dark:text-white">{clicks.estimatedClicks.toLocaleString()}</div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {data && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">CTR Calibration</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Actual CTR per rounded average position against {ctrModel.name}. Positions with fewer than {MIN_CALIBRATION_IMPRESSIONS} impressions
+                follow the model, scaled to your overall click level; the fitted curve always falls with position.
+              </p>
+            </div>
+            {report && (
+              <button
+                onClick={() => onUseModel(createCalibratedCTRModel(report, ctrModel, domain))}
+                className="px-3 py-1.5 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 whitespace-nowrap"
+              >
+                Use fitted curve
+              </button>
+            )}
+          </div>
+
+          {!report ? (
+            <p className="px-6 py-6 text-sm text-gray-500 dark:text-gray-400">
+              No position in the top 20 has {MIN_CALIBRATION_IMPRESSIONS}+ impressions in this export, so there is nothing to calibrate against.
+            </p>
+          ) : (
+            <div className="px-6 py-3 overflow-x-auto">
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                {report.queryCount} queries, {report.reliablePositions} reliable positions. Overall your pages get {report.scale}× the clicks the model predicts.
+              </p>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                    <th className="py-1 text-left font-medium">Position</th>
+                    <th className="py-1 text-right font-medium">Impressions</th>
+                    <th className="py-1 text-right font-medium">Clicks</th>
+                    <th className="py-1 text-right font-medium">Actual CTR</th>
+                    <th className="py-1 text-right font-medium">Modelled CTR</th>
+                    <th className="py-1 text-right font-medium">Fitted CTR</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {report.points.map(point => (
+                    <tr key={point.position}>
+                      <td className="py-1.5 text-gray-900 dark:text-white">#{point.position}</td>
+                      <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{point.impressions.toLocaleString()}</td>
+                      <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{point.clicks.toLocaleString()}</td>
+                      <td className={`py-1.5 text-right font-medium ${getDeviationClass(point.actualCTR, point.modelledCTR)}`}>
+                        {formatCTR(point.actualCTR)}
+                      </td>
+                      <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{formatCTR(point.modelledCTR)}</td>
+                      <td className="py-1.5 text-right text-gray-900 dark:text-white">{formatCTR(point.fittedCTR)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import type { RankCheck, SerpFeatureCheck, WatchedKeyword } from '../types';
+import { SERP_FEATURES, findFeatureOpportunities, getFeatureShareOfVoice } from '../../shared/serpFeatures';
+
+interface SerpFeaturesPanelProps {
+  domain: string; // Bare domain the checks are stored under
+  domains: string[]; // Domain first, then the tracked competitors
+  keywords: WatchedKeyword[];
+  checks: RankCheck[];
+  featureChecks: SerpFeatureCheck[];
+}
+
+const MAX_OPPORTUNITIES_SHOWN = 15;
+
+// Feature SOV per domain and the features to win, from the latest check of each watched keyword
+export const SerpFeaturesPanel: React.FC<SerpFeaturesPanelProps> = ({
+  domain,
+  domains,
+  keywords,
+  checks,
+  featureChecks
+}) => {
+  if (featureChecks.length === 0 || keywords.length === 0) return null;
+
+  const shares = getFeatureShareOfVoice(featureChecks, keywords, domains);
+  const opportunities = findFeatureOpportunities(featureChecks, checks, keywords, domain);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">SERP Features</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Share of each feature's placements held by every domain, weighted by keyword volume, on the latest check of the watched keywords.
+        </p>
+      </div>
+
+      {shares.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">No snippets, PAA boxes, carousels or packs on the watched keywords' SERPs.</p>
+      ) : (
+        <div className="px-6 py-3 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                <th className="py-1 text-left font-medium">Feature</th>
+                <th className="py-1 text-right font-medium">Keywords</th>
+                <th className="py-1 text-right font-medium">Presence</th>
+                {domains.map(d => (
+                  <th key={d} className="py-1 text-right font-medium max-w-[8rem] truncate" title={d}>{d}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {shares.map(share => (
+                <tr key={share.feature}>
+                  <td className="py-1.5 text-gray-900 dark:text-white">{SERP_FEATURES[share.feature].label}</td>
+                  <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{share.keywords}</td>
+                  <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{share.presence}%</td>
+                  {domains.map(d => (
+                    <td key={d} className={`py-1.5 text-right ${d === domain ? 'font-medium text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-300'}`}>
+                      {share.shares[d]}%
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {opportunities.length > 0 && (
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-1">Feature opportunities</h4>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+            Features on SERPs where {domain} ranks in the top 10 but holds no placement, by volume per position.
+          </p>
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {opportunities.slice(0, MAX_OPPORTUNITIES_SHOWN).map(o => (
+              <li key={`${o.keyword}|${o.feature}`} className="py-2 flex items-start justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <div className="text-gray-900 dark:text-white truncate">
+                    {o.keyword}
+                    <span className="ml-2 px-1.5 py-0.5 text-[10px] rounded bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                      {SERP_FEATURES[o.feature].label}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{o.message}</div>
+                </div>
+                <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">{o.searchVolume.toLocaleString()} / mo</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { BrandKeyword, CTRModel, SnapshotHistory, WeeklySnapshotPoint } from '../types';
+import { getSnapshotHistory, startSnapshotTracking } from '../services/api';
+import { groupSnapshotsByWeek, getWeeklyChange, getVisibilityChange } from '../lib/snapshots';
+
+interface SnapshotHistoryPanelProps {
+  domain: string;
+  brandName: string;
+  locationCode: number;
+  languageCode: string;
+  brandKeywords: BrandKeyword[];
+  ctrModel?: CTRModel;
+  applySerpAdjustments?: boolean;
+  visibilityPanelId?: string | null; // Panel the Visibility Index is tracked on; the market default when unset
+}
+
+const formatWeek = (weekStart: string) =>
+  new Date(weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+// Weekly SOS/SOV line chart drawn from stored snapshots
+const WeeklyChart: React.FC<{ points: WeeklySnapshotPoint[]; brandName: string }> = ({ points, brandName }) => {
+  const width = 640;
+  const height = 200;
+  const padding = { top: 20, right: 12, bottom: 28, left: 36 };
+  const chartWidth = width - padding.left - padding.right;
+  const chartHeight = height - padding.top - padding.bottom;
+
+  const allValues = points.flatMap(p => [p.shareOfSearch, p.shareOfVoice]);
+  const maxValue = Math.max(...allValues, 1);
+  const minValue = Math.min(...allValues, 0);
+  const valueRange = maxValue - minValue || 1;
+
+  const getX = (index: number) =>
+    padding.left + (points.length === 1 ? chartWidth / 2 : (index / (points.length - 1)) * chartWidth);
+  const getY = (value: number) => padding.top + chartHeight - ((value - minValue) / valueRange) * chartHeight;
+
+  const generatePath = (values: number[]) =>
+    values.map((value, index) => `${index === 0 ? 'M' : 'L'} ${getX(index)} ${getY(value)}`).join(' ');
+
+  // Thin out x-axis labels so long series stay readable
+  const labelStep = Math.max(1, Math.ceil(points.length / 8));
+
+  const gridLines = [0, 1, 2, 3, 4].map(i => ({
+    y: padding.top + (i / 4) * chartHeight,
+    value: Math.round(maxValue - (i / 4) * valueRange)
+  }));
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {gridLines.map((line, idx) => (
+        <g key={idx}>
+          <line x1={padding.left} y1={line.y} x2={width - padding.right} y2={line.y} stroke="#f3f4f6" strokeWidth="1" />
+          <text x={padding.left - 4} y={line.y + 3} textAnchor="end" fontSize="9" fill="#9ca3af">{line.value}%</text>
+        </g>
+      ))}
+
+      <path d={generatePath(points.map(p => p.shareOfSearch))} fill="none" stroke="#10b981" strokeWidth="2" />
+      <path d={generatePath(points.map(p => p.shareOfVoice))} fill="none" stroke="#f97316" strokeWidth="2" />
+
+      {points.map((point, index) => (
+        <g key={point.weekStart}>
+          <circle cx={getX(index)} cy={getY(point.shareOfSearch)} r="3" fill="#10b981">
+            <title>{`${formatWeek(point.weekStart)}: SOS ${point.shareOfSearch}%`}</title>
+          </circle>
+          <circle cx={getX(index)} cy={getY(point.shareOfVoice)} r="3" fill="#f97316">
+            <title>{`${formatWeek(point.weekStart)}: SOV ${point.shareOfVoice}%`}</title>
+          </circle>
+          {index % labelStep === 0 && (
+            <text x={getX(index)} y={height - 6} textAnchor="middle" fontSize="9" fill="#6b7280">
+              {formatWeek(point.weekStart)}
+            </text>
+          )}
+        </g>
+      ))}
+
+      <g transform={`translate(${padding.left}, 4)`}>
+        <rect width="8" height="8" fill="#10b981" rx="1" />
+        <text x="10" y="7" fontSize="9" fill="#374151">{brandName} SOS</text>
+        <rect x="90" width="8" height="8" fill="#f97316" rx="1" />
+        <text x="100" y="7" fontSize="9" fill="#374151">SOV</text>
+      </g>
+    </svg>
+  );
+};
+
+const ChangeBadge: React.FC<{ label: string; value: number | null | undefined; unit?: string }> = ({ label, value, unit = 'pp' }) => (
+  <div className="flex items-center justify-between text-sm">
+    <span className="text-gray-500 dark:text-gray-400">{label}</span>
+    {value === undefined || value === null ? (
+      <span className="text-gray-400">—</span>
+    ) : (
+      <span className={`font-medium ${value > 0 ? 'text-emerald-600' : value < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+        {value > 0 ? '+' : ''}{value}{unit}
+      </span>
+    )}
+  </div>
+);
+
+export const SnapshotHistoryPanel: React.FC<SnapshotHistoryPanelProps> = ({
+  domain,
+  brandName,
+  locationCode,
+  languageCode,
+  brandKeywords,
+  ctrModel,
+  applySerpAdjustments,
+  visibilityPanelId
+}) => {
+  const [history, setHistory] = useState<SnapshotHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    if (!domain) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      setHistory(await getSnapshotHistory(domain, locationCode));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load snapshot history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [domain, locationCode]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleCapture = async () => {
+    setIsCapturing(true);
+    setError(null);
+    try {
+      await startSnapshotTracking({
+        domain,
+        name: brandName || domain,
+        locationCode,
+        languageCode,
+        brandKeywords: brandKeywords.filter(k => !k.isDiscarded),
+        ctrModel,
+        applySerpAdjustments,
+        visibilityPanelId
+      });
+      await loadHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to capture snapshot');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const weeklyPoints = useMemo(
+    () => groupSnapshotsByWeek(history?.snapshots || []),
+    [history]
+  );
+  const change4w = getWeeklyChange(weeklyPoints, 4);
+  const change12w = getWeeklyChange(weeklyPoints, 12);
+  const visibility4w = getVisibilityChange(history?.snapshots || [], 4);
+  const visibility12w = getVisibilityChange(history?.snapshots || [], 12);
+  const isTracked = !!history?.projectId && !!history.frequency;
+  const latestModel = history?.snapshots[history.snapshots.length - 1]?.ctrModel;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <svg className="w-5 h-5 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Tracked History</h3>
+          {isTracked && (
+            <span className="px-2 py-0.5 bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 text-xs rounded-full">
+              {history?.frequency === 'daily' ? 'Daily' : 'Weekly'} snapshots
+            </span>
+          )}
+        </div>
+        <button
+          onClick={handleCapture}
+          disabled={isCapturing || isLoading}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 text-sm transition-colors"
+        >
+          {isCapturing ? 'Capturing...' : isTracked ? 'Capture Now' : 'Start Weekly Tracking'}
+        </button>
+      </div>
+
+      <div className="p-6">
+        {error && (
+          <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">Loading snapshot history...</p>
+        ) : weeklyPoints.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+            No snapshots yet. Start tracking to record real SOS and SOV every week instead of estimating history from monthly search volumes.
+          </p>
+        ) : (
+          <div className="flex flex-col lg:flex-row gap-5">
+            <div className="flex-1">
+              <WeeklyChart points={weeklyPoints} brandName={brandName} />
+            </div>
+            <div className="lg:w-52 space-y-3">
+              <div className="p-3 bg-emerald-50 dark:bg-emerald-900/20 rounded-lg border border-emerald-100 dark:border-emerald-800">
+                <div className="text-sm font-semibold text-emerald-700 dark:text-emerald-300 mb-2">Share of Search</div>
+                <ChangeBadge label="vs 4 weeks" value={change4w?.sos} />
+                <ChangeBadge label="vs 12 weeks" value={change12w?.sos} />
+              </div>
+              <div className="p-3 bg-orange-50 dark:bg-orange-900/20 rounded-lg border border-orange-100 dark:border-orange-800">
+                <div className="text-sm font-semibold text-orange-700 dark:text-orange-300 mb-2">Share of Voice</div>
+                <ChangeBadge label="vs 4 weeks" value={change4w?.sov} />
+                <ChangeBadge label="vs 12 weeks" value={change12w?.sov} />
+              </div>
+              {visibility4w && (
+                <div className="p-3 bg-indigo-50 dark:bg-indigo-900/20 rounded-lg border border-indigo-100 dark:border-indigo-800">
+                  <div className="text-sm font-semibold text-indigo-700 dark:text-indigo-300 mb-2">
+                    Visibility Index <span className="font-normal">{visibility4w.index.toFixed(2)}</span>
+                  </div>
+                  <ChangeBadge label="vs 4 weeks" value={visibility4w.change} unit=" pts" />
+                  <ChangeBadge label="vs 12 weeks" value={visibility12w?.change} unit=" pts" />
+                  <p className="text-xs text-gray-400 mt-1">Panel {visibility4w.panelId} v{visibility4w.panelVersion}</p>
+                </div>
+              )}
+              <p className="text-xs text-gray-400">
+                {history?.snapshots.length} snapshot{history?.snapshots.length === 1 ? '' : 's'} across {weeklyPoints.length} week{weeklyPoints.length === 1 ? '' : 's'}
+              </p>
+              {latestModel && (
+                <p className="text-xs text-gray-400">
+                  SOV uses {latestModel.name} CTR{latestModel.serpAdjustments ? ' with SERP adjustments' : ''}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import type { BrandSOSForecast, BrandVolumeSeries, MonthlySOSPoint, SeasonalSOSResult, SOSForecastResult } from '../types';
 
 interface TrendPoint {
   period: string;
@@ -24,6 +25,8 @@ interface TrendsData {
   sosTrends: TrendPoint[];
   sovTrends: TrendPoint[];
   competitorTrends?: CompetitorTrend[];
+  seasonalSOS?: SeasonalSOSResult;
+  sosForecast?: SOSForecastResult | null;
   changes: {
     sos: { vs6MonthsAgo: number; vs12MonthsAgo: number };
     sov: { vs6MonthsAgo: number; vs12MonthsAgo: number };
@@ -184,6 +187,385 @@ const LineChart: React.FC<{
   );
 };
 
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const formatMonth = (period: string) => {
+  const [year, month] = period.split('-');
+  return `${MONTH_LABELS[Number(month) - 1]} ${year.slice(2)}`;
+};
+
+const BRAND_VOLUME_COLORS = ['#10b981', ...COMPETITOR_COLORS, '#f59e0b'];
+const OTHER_BRANDS_COLOR = '#9ca3af';
+
+// Stacked monthly search volume per brand: own brand, the four biggest competitors, the rest as "Other"
+const BrandVolumeChart: React.FC<{ periods: string[]; brands: BrandVolumeSeries[] }> = ({ periods, brands }) => {
+  const width = 640;
+  const height = 200;
+  const padding = { top: 24, right: 12, bottom: 28, left: 48 };
+  const chartWidth = width - padding.left - padding.right;
+  const chartHeight = height - padding.top - padding.bottom;
+
+  const shown = brands.slice(0, BRAND_VOLUME_COLORS.length).filter(b => b.brand !== 'Other');
+  const rest = brands.filter(b => !shown.includes(b));
+  const series = [
+    ...shown.map((b, i) => ({ name: b.brand, volumes: b.volumes, color: BRAND_VOLUME_COLORS[i] })),
+    ...(rest.length > 0
+      ? [{ name: 'Other', volumes: periods.map((_, t) => rest.reduce((sum, b) => sum + b.volumes[t], 0)), color: OTHER_BRANDS_COLOR }]
+      : [])
+  ];
+
+  const totals = periods.map((_, t) => series.reduce((sum, s) => sum + s.volumes[t], 0));
+  const maxTotal = Math.max(...totals, 1);
+  const slot = chartWidth / periods.length;
+  const barWidth = Math.max(4, slot * 0.7);
+  const labelStep = Math.max(1, Math.ceil(periods.length / 12));
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {[0, 1, 2, 3, 4].map(i => {
+        const y = padding.top + (i / 4) * chartHeight;
+        return (
+          <g key={i}>
+            <line x1={padding.left} y1={y} x2={width - padding.right} y2={y} stroke="#f3f4f6" strokeWidth="1" />
+            <text x={padding.left - 4} y={y + 3} textAnchor="end" fontSize="9" fill="#9ca3af">
+              {Math.round(maxTotal * (1 - i / 4)).toLocaleString()}
+            </text>
+          </g>
+        );
+      })}
+
+      {periods.map((period, t) => {
+        let offset = 0;
+        const x = padding.left + t * slot + (slot - barWidth) / 2;
+        return (
+          <g key={period}>
+            {series.map(s => {
+              const barHeight = (s.volumes[t] / maxTotal) * chartHeight;
+              offset += barHeight;
+              return (
+                <rect key={s.name} x={x} y={padding.top + chartHeight - offset} width={barWidth} height={barHeight} fill={s.color}>
+                  <title>{`${formatMonth(period)} · ${s.name}: ${s.volumes[t].toLocaleString()}`}</title>
+                </rect>
+              );
+            })}
+            {t % labelStep === 0 && (
+              <text x={x + barWidth / 2} y={height - 6} textAnchor="middle" fontSize="9" fill="#6b7280">{formatMonth(period)}</text>
+            )}
+          </g>
+        );
+      })}
+
+      <g transform={`translate(${padding.left}, 6)`}>
+        {series.map((s, i) => (
+          <g key={s.name} transform={`translate(${i * 90}, 0)`}>
+            <rect width="8" height="8" fill={s.color} rx="1" />
+            <text x="10" y="7" fontSize="9" fill="#374151">{s.name.length > 14 ? `${s.name.slice(0, 13)}…` : s.name}</text>
+          </g>
+        ))}
+      </g>
+    </svg>
+  );
+};
+
+const SOS_VARIANT_LINES: Array<{ key: keyof Pick<MonthlySOSPoint, 'sos' | 'rolling3' | 'rolling12' | 'seasonallyAdjusted'>; label: string; color: string; dashed?: boolean }> = [
+  { key: 'sos', label: 'Monthly', color: '#d1d5db' },
+  { key: 'rolling3', label: '3-mo rolling', color: '#34d399' },
+  { key: 'rolling12', label: '12-mo rolling', color: '#047857' },
+  { key: 'seasonallyAdjusted', label: 'Seasonally adj.', color: '#8b5cf6', dashed: true }
+];
+
+// Monthly SOS next to its smoothed variants - the gap between them is the seasonal swing
+const SOSVariantsChart: React.FC<{ points: MonthlySOSPoint[] }> = ({ points }) => {
+  const width = 640;
+  const height = 200;
+  const padding = { top: 24, right: 12, bottom: 28, left: 36 };
+  const chartWidth = width - padding.left - padding.right;
+  const chartHeight = height - padding.top - padding.bottom;
+
+  const values = points.flatMap(p => SOS_VARIANT_LINES.map(l => p[l.key]).filter((v): v is number => v !== null));
+  const maxValue = Math.max(...values, 1);
+  const minValue = Math.min(...values, 0);
+  const valueRange = maxValue - minValue || 1;
+
+  const getX = (index: number) =>
+    padding.left + (points.length === 1 ? chartWidth / 2 : (index / (points.length - 1)) * chartWidth);
+  const getY = (value: number) => padding.top + chartHeight - ((value - minValue) / valueRange) * chartHeight;
+
+  // Variants start once enough history exists, so paths skip leading nulls
+  const generatePath = (data: Array<number | null>) =>
+    data
+      .map((value, index) => (value === null ? null : { x: getX(index), y: getY(value) }))
+      .filter((p): p is { x: number; y: number } => p !== null)
+      .map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`)
+      .join(' ');
+
+  const labelStep = Math.max(1, Math.ceil(points.length / 12));
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {[0, 1, 2, 3, 4].map(i => {
+        const y = padding.top + (i / 4) * chartHeight;
+        return (
+          <g key={i}>
+            <line x1={padding.left} y1={y} x2={width - padding.right} y2={y} stroke="#f3f4f6" strokeWidth="1" />
+            <text x={padding.left - 4} y={y + 3} textAnchor="end" fontSize="9" fill="#9ca3af">
+              {Math.round(maxValue - (i / 4) * valueRange)}%
+            </text>
+          </g>
+        );
+      })}
+
+      {SOS_VARIANT_LINES.map(line => (
+        <path
+          key={line.key}
+          d={generatePath(points.map(p => p[line.key]))}
+          fill="none"
+          stroke={line.color}
+          strokeWidth="2"
+          strokeDasharray={line.dashed ? '5 3' : undefined}
+        />
+      ))}
+
+      {points.map((point, index) => index % labelStep === 0 && (
+        <text key={point.period} x={getX(index)} y={height - 6} textAnchor="middle" fontSize="9" fill="#6b7280">
+          {formatMonth(point.period)}
+        </text>
+      ))}
+
+      <g transform={`translate(${padding.left}, 6)`}>
+        {SOS_VARIANT_LINES.map((line, i) => (
+          <g key={line.key} transform={`translate(${i * 100}, 0)`}>
+            <rect width="8" height="8" fill={line.color} rx="1" />
+            <text x="10" y="7" fontSize="9" fill="#374151">{line.label}</text>
+          </g>
+        ))}
+      </g>
+    </svg>
+  );
+};
+
+const SEASONALITY_NOTES: Record<SeasonalSOSResult['seasonality'], string> = {
+  classical: 'Seasonality estimated from 2+ years of monthly data.',
+  'annual-profile': 'Seasonality estimated from a single year, so part of any trend is treated as season.',
+  none: 'Less than 12 months of data - not enough to estimate seasonality.'
+};
+
+// Monthly brand volumes and the history-based SOS variants
+const MonthlySOSSection: React.FC<{ seasonalSOS: SeasonalSOSResult }> = ({ seasonalSOS }) => {
+  const { points, brands, seasonality, latest } = seasonalSOS;
+  if (points.length === 0) return null;
+
+  const summary = [
+    { label: '3-mo rolling', value: latest.rolling3?.sos },
+    { label: '12-mo rolling', value: latest.rolling12?.sos },
+    { label: 'Seasonally adj.', value: latest.seasonallyAdjusted?.sos }
+  ];
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3">
+        <h5 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Monthly Share of Search</h5>
+        <div className="flex flex-wrap gap-2">
+          {summary.map(item => (
+            <span key={item.label} className="px-2 py-1 text-xs bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 rounded-md">
+              {item.label}: <span className="font-semibold">{item.value !== undefined ? `${item.value}%` : '—'}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Brand search volume by month</p>
+          <BrandVolumeChart periods={points.map(p => p.period)} brands={brands} />
+        </div>
+        <div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">SOS by month, rolling and seasonally adjusted</p>
+          <SOSVariantsChart points={points} />
+        </div>
+      </div>
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{SEASONALITY_NOTES[seasonality]}</p>
+    </div>
+  );
+};
+
+const FORECAST_HISTORY_MONTHS = 12;
+
+const FORECAST_METHOD_NOTES: Record<SOSForecastResult['method'], string> = {
+  'holt-winters': 'Holt-Winters smoothing with seasonality re-estimated over 2+ years of history.',
+  'seasonal-holt': "Trend smoothing on a fixed seasonal profile from a single year, so part of any trend may repeat as season.",
+  holt: 'Less than 12 months of history - trend smoothing without seasonality.'
+};
+
+// Last year of actual SOS, then the forecast with its band, for our brand and one competitor
+const SOSForecastChart: React.FC<{ series: Array<{ forecast: BrandSOSForecast; color: string }>; horizon: number }> = ({
+  series,
+  horizon
+}) => {
+  const width = 640;
+  const height = 220;
+  const padding = { top: 24, right: 12, bottom: 28, left: 36 };
+  const chartWidth = width - padding.left - padding.right;
+  const chartHeight = height - padding.top - padding.bottom;
+
+  const visible = series.map(s => ({
+    ...s,
+    history: s.forecast.history.slice(-FORECAST_HISTORY_MONTHS),
+    ahead: s.forecast.forecast.slice(0, horizon)
+  }));
+  const periods = [...visible[0].history.map(p => p.period), ...visible[0].ahead.map(p => p.period)];
+  const firstForecast = visible[0].history.length;
+
+  const values = visible.flatMap(s => [...s.history.map(p => p.sos), ...s.ahead.flatMap(p => [p.lower, p.upper])]);
+  const maxValue = Math.min(100, Math.max(...values, 1) * 1.05);
+  const minValue = Math.max(0, Math.min(...values) * 0.95);
+  const valueRange = maxValue - minValue || 1;
+
+  const getX = (index: number) => padding.left + (periods.length === 1 ? chartWidth / 2 : (index / (periods.length - 1)) * chartWidth);
+  const getY = (value: number) => padding.top + chartHeight - ((value - minValue) / valueRange) * chartHeight;
+  const toPath = (points: Array<{ index: number; value: number }>) =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${getX(p.index)} ${getY(p.value)}`).join(' ');
+
+  const labelStep = Math.max(1, Math.ceil(periods.length / 12));
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {[0, 1, 2, 3, 4].map(i => {
+        const y = padding.top + (i / 4) * chartHeight;
+        return (
+          <g key={i}>
+            <line x1={padding.left} y1={y} x2={width - padding.right} y2={y} stroke="#f3f4f6" strokeWidth="1" />
+            <text x={padding.left - 4} y={y + 3} textAnchor="end" fontSize="9" fill="#9ca3af">
+              {Math.round(maxValue - (i / 4) * valueRange)}%
+            </text>
+          </g>
+        );
+      })}
+
+      {/* Forecast starts here */}
+      <line
+        x1={getX(firstForecast - 1)}
+        y1={padding.top}
+        x2={getX(firstForecast - 1)}
+        y2={padding.top + chartHeight}
+        stroke="#d1d5db"
+        strokeDasharray="3 3"
+      />
+
+      {visible.map(s => {
+        const lastActual = { index: firstForecast - 1, value: s.history[s.history.length - 1].sos };
+        const upper = s.ahead.map((p, h) => ({ index: firstForecast + h, value: p.upper }));
+        const lower = s.ahead.map((p, h) => ({ index: firstForecast + h, value: p.lower })).reverse();
+        return (
+          <g key={s.forecast.brand}>
+            <path d={`${toPath([lastActual, ...upper, ...lower])} Z`} fill={s.color} opacity="0.15" />
+            <path
+              d={toPath(s.history.map((p, t) => ({ index: t, value: p.sos })))}
+              fill="none"
+              stroke={s.color}
+              strokeWidth="2"
+            />
+            <path
+              d={toPath([lastActual, ...s.ahead.map((p, h) => ({ index: firstForecast + h, value: p.sos }))])}
+              fill="none"
+              stroke={s.color}
+              strokeWidth="2"
+              strokeDasharray="5 3"
+            />
+          </g>
+        );
+      })}
+
+      {periods.map((period, index) => index % labelStep === 0 && (
+        <text key={period} x={getX(index)} y={height - 6} textAnchor="middle" fontSize="9" fill="#6b7280">
+          {formatMonth(period)}
+        </text>
+      ))}
+
+      <g transform={`translate(${padding.left}, 6)`}>
+        {visible.map((s, i) => (
+          <g key={s.forecast.brand} transform={`translate(${i * 110}, 0)`}>
+            <rect width="8" height="8" fill={s.color} rx="1" />
+            <text x="10" y="7" fontSize="9" fill="#374151">
+              {s.forecast.brand.length > 16 ? `${s.forecast.brand.slice(0, 15)}…` : s.forecast.brand}
+            </text>
+          </g>
+        ))}
+      </g>
+    </svg>
+  );
+};
+
+// Projected SOS with confidence bands and overtake warnings
+const SOSForecastSection: React.FC<{ forecast: SOSForecastResult }> = ({ forecast }) => {
+  const own = forecast.brands.find(b => b.isOwnBrand);
+  const competitors = forecast.brands.filter(b => !b.isOwnBrand && b.brand !== 'Other');
+  const [horizon, setHorizon] = useState(forecast.horizon);
+  const [compareBrand, setCompareBrand] = useState(forecast.overtakes[0]?.brand ?? competitors[0]?.brand ?? '');
+
+  if (!own) return null;
+
+  const compared = competitors.find(c => c.brand === compareBrand);
+  const ownEnd = own.forecast[horizon - 1];
+  const overtakes = forecast.overtakes.filter(o => o.period <= ownEnd.period);
+  const horizonOptions = forecast.horizon > 6 ? [6, forecast.horizon] : [forecast.horizon];
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3">
+        <h5 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Share of Search Forecast</h5>
+        <div className="flex flex-wrap items-center gap-2">
+          {competitors.length > 0 && (
+            <select
+              value={compareBrand}
+              onChange={e => setCompareBrand(e.target.value)}
+              aria-label="Compare with competitor"
+              className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+            >
+              {competitors.map(c => <option key={c.brand} value={c.brand}>vs. {c.brand}</option>)}
+            </select>
+          )}
+          <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-0.5">
+            {horizonOptions.map(h => (
+              <button
+                key={h}
+                onClick={() => setHorizon(h)}
+                className={`px-3 py-1 text-xs rounded-md transition-all ${
+                  horizon === h ? 'bg-white dark:bg-gray-600 shadow text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+                }`}
+              >
+                {h} months
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {overtakes.length > 0 && (
+        <div className="mb-3 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          {overtakes.map(o => (
+            <p key={o.brand} className="text-sm text-red-700 dark:text-red-300">
+              <span className="font-semibold">{o.brand}</span> is projected to overtake {own.brand} in {formatMonth(o.period)}
+              {' '}({o.competitorSOS}% vs. {o.ownSOS}% SOS).
+            </p>
+          ))}
+        </div>
+      )}
+
+      <SOSForecastChart
+        series={[
+          { forecast: own, color: '#10b981' },
+          ...(compared ? [{ forecast: compared, color: COMPETITOR_COLORS[0] }] : [])
+        ]}
+        horizon={horizon}
+      />
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        {own.brand} in {formatMonth(ownEnd.period)}: <span className="font-semibold">{ownEnd.sos}%</span>
+        {' '}({Math.round(forecast.confidenceLevel * 100)}% band {ownEnd.lower}–{ownEnd.upper}%).
+        {' '}{FORECAST_METHOD_NOTES[forecast.method]}
+      </p>
+    </div>
+  );
+};
+
 // Keyword Impact with tabs
 const KeywordImpactSection: React.FC<{
   keywordImpact: TrendsData['keywordImpact'];
@@ -380,6 +762,12 @@ export const TrendsPanel: React.FC<TrendsPanelProps> = ({ data, isLoading }) =>
           </div>
         </div>
 
+        {/* Monthly SOS */}
+        {data.seasonalSOS && <MonthlySOSSection seasonalSOS={data.seasonalSOS} />}
+
+        {/* SOS Forecast */}
+        {data.sosForecast && <SOSForecastSection forecast={data.sosForecast} />}
+
         {/* Keyword Impact */}
         <KeywordImpactSection keywordImpact={data.keywordImpact} />
 
@@ -1,4 +1,17 @@
 import { useState, useEffect } from 'react';
+import type { CacheInfo } from '../types';
+import { CacheStatusBadge } from './CacheStatusBadge';
+import { getWorkspaceHeaders } from '../services/workspaceStorage';
+import {
+  loadChannelAnalysis,
+  loadChannelConfig,
+  loadDismissedItems,
+  removeChannelAnalysis,
+  removeDismissedItems,
+  storeChannelAnalysis,
+  storeChannelConfig,
+  storeDismissedItem
+} from '../services/projectSync';
 
 interface YouTubeVideo {
   videoId: string;
@@ -37,6 +50,7 @@ interface YouTubeSOVResponse {
   };
   searchedKeywords: string[];
   timestamp: string;
+  cache?: CacheInfo | null;
   methodology?: {
     sovByCountFormula: string;
     sovByViewsFormula: string;
@@ -64,6 +78,7 @@ interface SavedAnalysis {
 
 interface YouTubeSOVPanelProps {
   brandName: string;
+  domain?: string; // Attributes DataForSEO spend to the project's cost ledger
   competitors: string[];
   locationCode?: number;
   languageCode?: string;
@@ -87,15 +102,12 @@ interface OwnedChannel {
   lastFetched?: string; // When stats were fetched
 }
 
-// ChannelConfig - used for localStorage schema documentation
+// ChannelConfig - stored per brand in localStorage and on the tracked project
 type ChannelConfigSchema = {
   ownedChannels: OwnedChannel[];
   competitorChannels?: Record<string, OwnedChannel[]>; // competitor name -> channels
 };
 
-// Export to avoid unused warning
-export type { ChannelConfigSchema };
-
 interface YouTubeInsights {
   // New concise format
   summary: string;
@@ -117,7 +129,7 @@ interface EarnedMediaSource {
   totalViews: number;
 }
 
-export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, languageCode = 'en' }: YouTubeSOVPanelProps) {
+export function YouTubeSOVPanel({ brandName, domain, competitors, locationCode = 2840, languageCode = 'en' }: YouTubeSOVPanelProps) {
   const [data, setData] = useState<YouTubeSOVResponse | null>(null);
   const [savedAnalyses, setSavedAnalyses] = useState<SavedAnalysis[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -147,7 +159,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
   // Legacy compatibility - single channel ID for matching
   const ownedChannelId = ownedChannels.length > 0 ? ownedChannels[0].id : null;
 
-  // Load saved channel info on mount
+  // Load saved channel info on mount, then the tracked project's channels, which win
   useEffect(() => {
     const savedChannel = localStorage.getItem(CHANNEL_STORAGE_KEY);
     if (savedChannel) {
@@ -168,20 +180,47 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
         console.error('Failed to load channel info');
       }
     }
-  }, [brandName]);
 
-  // Load dismissed videos from localStorage
+    let cancelled = false;
+    loadChannelConfig<ChannelConfigSchema>(domain, locationCode, 'youtube').then(remote => {
+      if (cancelled || !remote) return;
+      // Keep the local copy in step - the competitor auto-fetch merges into it
+      const existing = localStorage.getItem(CHANNEL_STORAGE_KEY);
+      const channelInfo = existing ? JSON.parse(existing) : {};
+      channelInfo[brandName.toLowerCase()] = remote;
+      localStorage.setItem(CHANNEL_STORAGE_KEY, JSON.stringify(channelInfo));
+      setOwnedChannels(remote.ownedChannels || []);
+      setCompetitorChannels(remote.competitorChannels || {});
+    });
+    return () => { cancelled = true; };
+  }, [brandName, domain, locationCode]);
+
+  // Load dismissed videos from localStorage, plus the ones dismissed on the tracked project
   useEffect(() => {
+    let localIds: string[] = [];
     const dismissed = localStorage.getItem(DISMISSED_VIDEOS_KEY);
     if (dismissed) {
       try {
         const dismissedByBrand = JSON.parse(dismissed);
-        setDismissedVideoIds(dismissedByBrand[brandName.toLowerCase()] || []);
+        localIds = dismissedByBrand[brandName.toLowerCase()] || [];
+        setDismissedVideoIds(localIds);
       } catch {
         console.error('Failed to load dismissed videos');
       }
     }
-  }, [brandName]);
+
+    let cancelled = false;
+    loadDismissedItems(domain, locationCode, 'youtube').then(remoteIds => {
+      if (cancelled || !remoteIds || remoteIds.every(id => localIds.includes(id))) return;
+      const merged = [...new Set([...localIds, ...remoteIds])];
+      const existing = localStorage.getItem(DISMISSED_VIDEOS_KEY);
+      const dismissedByBrand = existing ? JSON.parse(existing) : {};
+      dismissedByBrand[brandName.toLowerCase()] = merged;
+      localStorage.setItem(DISMISSED_VIDEOS_KEY, JSON.stringify(dismissedByBrand));
+      setDismissedVideoIds(merged);
+    });
+    return () => { cancelled = true; };
+  }, [brandName, domain, locationCode]);
 
   // Dismiss a video as irrelevant
   const dismissVideo = (videoId: string, videoTitle: string) => {
@@ -192,6 +231,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
       brandDismissed.push(videoId);
       dismissedByBrand[brandName.toLowerCase()] = brandDismissed;
       localStorage.setItem(DISMISSED_VIDEOS_KEY, JSON.stringify(dismissedByBrand));
+      storeDismissedItem(domain, locationCode, 'youtube', videoId, videoTitle);
       setDismissedVideoIds(brandDismissed);
       setLastDismissedVideo({ id: videoId, title: videoTitle });
       // Auto-hide undo notification after 5 seconds
@@ -210,11 +250,22 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
       const updated = brandDismissed.filter((id: string) => id !== videoId);
       dismissedByBrand[brandName.toLowerCase()] = updated;
       localStorage.setItem(DISMISSED_VIDEOS_KEY, JSON.stringify(dismissedByBrand));
+      removeDismissedItems(domain, locationCode, 'youtube', videoId);
       setDismissedVideoIds(updated);
       setLastDismissedVideo(null);
     }
   };
 
+  // Restore every dismissed video of this brand
+  const restoreAllDismissed = () => {
+    const existing = localStorage.getItem(DISMISSED_VIDEOS_KEY);
+    const dismissedByBrand = existing ? JSON.parse(existing) : {};
+    dismissedByBrand[brandName.toLowerCase()] = [];
+    localStorage.setItem(DISMISSED_VIDEOS_KEY, JSON.stringify(dismissedByBrand));
+    removeDismissedItems(domain, locationCode, 'youtube');
+    setDismissedVideoIds([]);
+  };
+
 
   // Check if a video is relevant to the brand context (comprehensive relevance filter)
   // This filter works for ANY brand by detecting common irrelevant content patterns
@@ -348,6 +399,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
       competitorChannels: compChannels,
     };
     localStorage.setItem(CHANNEL_STORAGE_KEY, JSON.stringify(channelInfo));
+    storeChannelConfig(domain, locationCode, 'youtube', { ownedChannels: channels, competitorChannels: compChannels });
     setOwnedChannels(channels);
     setCompetitorChannels(compChannels);
   };
@@ -360,7 +412,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
 
       const response = await fetch('/api/youtube-channel', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
         body: JSON.stringify({
           channelIdentifier,
           includeVideos: false,
@@ -373,7 +425,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
         console.warn(`[YouTube] API error for "${channelIdentifier}":`, errorData.error, '- Status:', response.status, '- Debug:', errorData.debug);
         // If it's a 500 error about API key, show more specific message
         if (response.status === 500 && errorData.error?.includes('API key')) {
-          console.error('[YouTube] YOUTUBE_API_KEY is not configured on the server');
+          console.error('[YouTube] No YouTube API key configured for this workspace');
         }
         // If quota exceeded, log clearly
         if (response.status === 429 || errorData.debug?.quotaExceeded) {
@@ -460,7 +512,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
       // Pass locationCode for location-aware search (e.g., "Michelin Deutschland" for Germany)
       const response = await fetch('/api/youtube-channel', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
         body: JSON.stringify({
           channelIdentifier: competitorName, // Search by brand name
           includeVideos: false,
@@ -564,6 +616,8 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
     const channelInfo = existing ? JSON.parse(existing) : {};
     delete channelInfo[brandName.toLowerCase()];
     localStorage.setItem(CHANNEL_STORAGE_KEY, JSON.stringify(channelInfo));
+    // An empty config rather than none, so other devices clear their channels too
+    storeChannelConfig(domain, locationCode, 'youtube', { ownedChannels: [], competitorChannels: {} });
     setOwnedChannels([]);
     setCompetitorChannels({});
   };
@@ -647,8 +701,9 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
       .sort((a, b) => b.totalViews - a.totalViews);
   };
 
-  // Load saved analyses on mount
+  // Load saved analyses on mount, then the tracked project's copy if it has a newer one
   useEffect(() => {
+    let localData: YouTubeSOVResponse | null = null;
     const saved = localStorage.getItem(STORAGE_KEY);
     if (saved) {
       try {
@@ -657,13 +712,22 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
         // Load most recent analysis for current brand
         const currentBrandAnalysis = analyses.find(a => a.brandName.toLowerCase() === brandName.toLowerCase());
         if (currentBrandAnalysis) {
+          localData = currentBrandAnalysis.data;
           setData(currentBrandAnalysis.data);
         }
       } catch {
         console.error('Failed to load saved analyses');
       }
     }
-  }, [brandName]);
+
+    let cancelled = false;
+    loadChannelAnalysis<YouTubeSOVResponse>(domain, locationCode, 'youtube').then(remote => {
+      if (cancelled || !remote || remote.timestamp === localData?.timestamp) return;
+      setData(remote);
+      setInsights(null);
+    });
+    return () => { cancelled = true; };
+  }, [brandName, domain, locationCode]);
 
   // Generate AI insights when data is loaded (either from fetch or localStorage)
   useEffect(() => {
@@ -704,6 +768,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
     const updated = [newAnalysis, ...filtered];
     setSavedAnalyses(updated);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    storeChannelAnalysis(domain, locationCode, 'youtube', analysisData);
   };
 
   const deleteCurrentAnalysis = () => {
@@ -726,6 +791,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
     );
     setSavedAnalyses(filtered);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    removeChannelAnalysis(domain, locationCode, 'youtube');
 
     // Also clear the channel info for this brand
     handleClearAllChannels();
@@ -765,7 +831,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
 
       const response = await fetch('/api/generate-channel-insights', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
         body: JSON.stringify({
           type: 'youtube',
           brandName,
@@ -802,7 +868,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
     }
   };
 
-  const fetchYouTubeSOV = async () => {
+  const fetchYouTubeSOV = async (forceRefresh = false) => {
     if (!brandName) return;
 
     setIsLoading(true);
@@ -839,7 +905,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
           // Pass locationCode for location-aware search (e.g., "Michelin Deutschland" for Germany)
           const response = await fetch('/api/youtube-channel', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
             body: JSON.stringify({
               channelIdentifier: competitor, // Search by brand name
               includeVideos: false, // Just need stats, not video list
@@ -901,7 +967,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
     try {
       const response = await fetch('/api/youtube-sov', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getWorkspaceHeaders() },
         body: JSON.stringify({
           brandName,
           competitors: competitors.slice(0, 3),
@@ -909,6 +975,8 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
           languageCode,
           // Pass owned channels so API can fetch their videos directly
           ownedChannels: ownedChannels.map(c => ({ id: c.id, name: c.name })),
+          domain,
+          forceRefresh,
         }),
       });
 
@@ -1155,7 +1223,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
           {/* Run Analysis Button */}
           <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
             <button
-              onClick={fetchYouTubeSOV}
+              onClick={() => fetchYouTubeSOV()}
               disabled={!isSetupComplete}
               className={`w-full px-6 py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors ${
                 isSetupComplete
@@ -1208,7 +1276,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
             <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">Failed to Fetch YouTube Data</h3>
             <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{error}</p>
             <button
-              onClick={fetchYouTubeSOV}
+              onClick={() => fetchYouTubeSOV()}
               className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm"
             >
               Try Again
@@ -1228,7 +1296,10 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
     <div className="space-y-6">
       {/* Analysis timestamp */}
       <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
-        <span>Analysis from: {formatDateTime(data.timestamp)}</span>
+        <span className="flex items-center gap-3">
+          Analysis from: {formatDateTime(data.timestamp)}
+          <CacheStatusBadge cache={data.cache} onRefresh={() => fetchYouTubeSOV(true)} isRefreshing={isLoading} />
+        </span>
         <span>Keywords: {data.searchedKeywords?.join(', ')}</span>
       </div>
 
@@ -2058,14 +2129,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
                         All earned media videos were filtered out ({irrelevantCount} irrelevant, {dismissedCount} dismissed).
                         {dismissedCount > 0 && (
                           <button
-                            onClick={() => {
-                              // Clear all dismissed videos for this brand
-                              const existing = localStorage.getItem(DISMISSED_VIDEOS_KEY);
-                              const dismissedByBrand = existing ? JSON.parse(existing) : {};
-                              dismissedByBrand[brandName.toLowerCase()] = [];
-                              localStorage.setItem(DISMISSED_VIDEOS_KEY, JSON.stringify(dismissedByBrand));
-                              setDismissedVideoIds([]);
-                            }}
+                            onClick={restoreAllDismissed}
                             className="ml-2 text-purple-600 hover:text-purple-700 underline"
                           >
                             Restore dismissed
@@ -2165,13 +2229,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
                         {selectedMediaType === 'owned' && !hasYouTubeAPIStats && ' Add your YouTube channel to see owned media.'}
                         {selectedMediaType === 'earned' && dismissedVideoIds.length > 0 && (
                           <button
-                            onClick={() => {
-                              const existing = localStorage.getItem(DISMISSED_VIDEOS_KEY);
-                              const dismissedByBrand = existing ? JSON.parse(existing) : {};
-                              dismissedByBrand[brandName.toLowerCase()] = [];
-                              localStorage.setItem(DISMISSED_VIDEOS_KEY, JSON.stringify(dismissedByBrand));
-                              setDismissedVideoIds([]);
-                            }}
+                            onClick={restoreAllDismissed}
                             className="ml-2 text-purple-600 hover:text-purple-700 underline"
                           >
                             Restore dismissed videos
@@ -2305,7 +2363,7 @@ export function YouTubeSOVPanel({ brandName, competitors, locationCode = 2840, l
       {/* Action buttons */}
       <div className="flex justify-center gap-3">
         <button
-          onClick={fetchYouTubeSOV}
+          onClick={() => fetchYouTubeSOV()}
           className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors flex items-center gap-2"
         >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -2,12 +2,30 @@ export { MetricCard } from './MetricCard';
 export { KeywordTable } from './KeywordTable';
 export { APIConfigPanel } from './APIConfigPanel';
 export { TrendsPanel } from './TrendsPanel';
+export { SnapshotHistoryPanel } from './SnapshotHistoryPanel';
+export { CTRModelSelector } from './CTRModelSelector';
+export { CacheStatusBadge } from './CacheStatusBadge';
 export { MethodologyPage } from './MethodologyPage';
 export { FAQ } from './FAQ';
 export { ProjectCard } from './ProjectCard';
 export { AnalysisForm } from './AnalysisForm';
+export { CredentialSettingsPanel } from './CredentialSettingsPanel';
+export { AlertInbox } from './AlertInbox';
+export { AlertRulesPanel } from './AlertRulesPanel';
 export { default as ErrorBoundary } from './ErrorBoundary';
 
 // Actionable Insights Components
 export { CategoryBreakdownPanel } from './CategoryBreakdownPanel';
+export { CategoryTaxonomyEditor } from './CategoryTaxonomyEditor';
 export { CompetitorStrengthPanel } from './CompetitorStrengthPanel';
+export { KeywordOverlapMatrix } from './KeywordOverlapMatrix';
+export { ContentGapsPanel } from './ContentGapsPanel';
+export { MultiMarketPanel } from './MultiMarketPanel';
+export { BrandVariantReviewPanel } from './BrandVariantReviewPanel';
+export { MarketShareModelPanel } from './MarketShareModelPanel';
+export { ScenarioPlannerPanel } from './ScenarioPlannerPanel';
+export { SearchConsolePanel } from './SearchConsolePanel';
+export { ConversionDataPanel } from './ConversionDataPanel';
+export { KeywordImportPanel } from './KeywordImportPanel';
+export { RankTrackingPanel } from './RankTrackingPanel';
+export { AIVisibilityPanel } from './AIVisibilityPanel';
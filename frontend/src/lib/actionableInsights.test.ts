@@ -6,8 +6,11 @@ import {
   detectCannibalization,
   analyzeContentGaps,
   generateActionList,
+  generateUnifiedOpportunities,
   generateActionableInsights,
 } from './actionableInsights';
+import { clusterKeywords } from '../../shared/clustering';
+import { createDefaultConversionData, createRevenueModel } from './conversions';
 import type { RankedKeyword, BrandKeyword } from '../types';
 
 // Test fixtures
@@ -135,6 +138,22 @@ describe('calculateCategorySOV', () => {
 
     expect(result[0].category).toBe('large-cat');
   });
+
+  it('uses the project taxonomy instead of API categories', () => {
+    const keywords: RankedKeyword[] = [
+      createRankedKeyword({ keyword: 'winter tyres', searchVolume: 5000, category: 'Tires' }),
+      createRankedKeyword({ keyword: 'snow chains', searchVolume: 2000, url: '/winter/chains', category: 'Tires' }),
+      createRankedKeyword({ keyword: 'wiper blades', searchVolume: 1000, category: 'Tires' }),
+    ];
+    const rules = [
+      { id: 'r1', category: 'Winter', type: 'contains' as const, pattern: 'winter' },
+      { id: 'r2', category: 'Winter', type: 'urlPrefix' as const, pattern: '/winter' },
+    ];
+
+    const result = calculateCategorySOV(keywords, rules);
+
+    expect(result.map(c => [c.category, c.keywordCount])).toEqual([['Winter', 2], ['Other', 1]]);
+  });
 });
 
 describe('calculateHiddenGems', () => {
@@ -245,32 +264,60 @@ describe('detectCannibalization', () => {
 });
 
 describe('analyzeContentGaps', () => {
-  it('identifies categories with weak performance', () => {
-    const keywords: RankedKeyword[] = [
-      createRankedKeyword({ keyword: 'weak 1', position: 15, searchVolume: 1000, category: 'weak-category' }),
-      createRankedKeyword({ keyword: 'weak 2', position: 18, searchVolume: 1000, category: 'weak-category' }),
-      createRankedKeyword({ keyword: 'weak 3', position: 20, searchVolume: 1000, category: 'weak-category' }),
-      createRankedKeyword({ keyword: 'weak 4', position: 12, searchVolume: 800, category: 'weak-category' }),
-      createRankedKeyword({ keyword: 'weak 5', position: 14, searchVolume: 700, category: 'weak-category' }),
-    ];
-    const brandKeywords: BrandKeyword[] = [];
+  const createCompetitor = (label: string, keywords: Partial<RankedKeyword>[]) => ({
+    domain: `${label}.de`,
+    label,
+    isYou: false,
+    keywords: keywords.map(k => createRankedKeyword(k)),
+  });
 
-    const result = analyzeContentGaps(keywords, brandKeywords);
+  const competitors = [
+    createCompetitor('weleda', [
+      { keyword: 'hyaluron serum', searchVolume: 8000, position: 3, url: '/serum' },
+      { keyword: 'hyaluron creme', searchVolume: 6000, position: 5, url: '/serum' },
+      { keyword: 'tagescreme', searchVolume: 30000, position: 2, url: '/tagescreme' },
+      { keyword: 'handcreme', searchVolume: 20000, position: 14, url: '/hand' },
+    ]),
+    createCompetitor('alverde', [
+      { keyword: 'hyaluron serum', searchVolume: 8000, position: 6, url: '/hyaluron' },
+      { keyword: 'hyaluron creme', searchVolume: 6000, position: 2, url: '/hyaluron' },
+      { keyword: 'tagescreme', searchVolume: 30000, position: 4, url: '/gesicht' },
+      { keyword: 'handcreme', searchVolume: 20000, position: 9, url: '/hand' },
+    ]),
+  ];
+
+  it('finds keywords enough competitors rank for in the top 10 where you do not rank', () => {
+    const yours = [createRankedKeyword({ keyword: 'tagescreme', position: 40 })];
+
+    const result = analyzeContentGaps(yours, competitors);
+
+    const keywords = result.flatMap(g => g.missingKeywords.map(k => k.keyword));
+    expect(keywords).toEqual(expect.arrayContaining(['hyaluron serum', 'hyaluron creme']));
+    expect(keywords).not.toContain('tagescreme'); // You rank, even if poorly
+    expect(keywords).not.toContain('handcreme'); // Only one competitor in the top 10
+  });
 
-    expect(result.length).toBeGreaterThan(0);
-    const weakCat = result.find(g => g.category === 'weak-category');
-    expect(weakCat).toBeDefined();
+  it('clusters missing keywords into topics with competitor URLs', () => {
+    const result = analyzeContentGaps([], competitors, { minCompetitors: 2 });
+    const hyaluron = result.find(g => g.topic === 'hyaluron');
+
+    expect(hyaluron).toMatchObject({ totalVolume: 14000, competitors: ['weleda', 'alverde'], priority: 'medium' });
+    expect(hyaluron?.missingKeywords[0]).toEqual({
+      keyword: 'hyaluron serum',
+      searchVolume: 8000,
+      competitorPositions: { weleda: 3, alverde: 6 },
+    });
+    expect(hyaluron?.competitorUrls).toEqual([
+      { competitor: 'alverde', url: 'https://alverde.de/hyaluron', keywords: 2 },
+      { competitor: 'weleda', url: 'https://weleda.de/serum', keywords: 2 },
+    ]);
   });
 
-  it('skips "Other" category', () => {
-    const keywords: RankedKeyword[] = [
-      createRankedKeyword({ keyword: 'other 1', position: 15, category: 'Other' }),
-      createRankedKeyword({ keyword: 'other 2', position: 18, category: 'Other' }),
-      createRankedKeyword({ keyword: 'other 3', position: 20, category: 'Other' }),
-    ];
+  it('excludes brand keywords and returns nothing without competitors', () => {
+    const branded = [createCompetitor('weleda', [{ keyword: 'weleda skin food', position: 1 }])];
 
-    const result = analyzeContentGaps(keywords, []);
-    expect(result).toHaveLength(0);
+    expect(analyzeContentGaps([], branded, { minCompetitors: 1, excludeTerms: ['weleda'] })).toHaveLength(0);
+    expect(analyzeContentGaps([], [])).toHaveLength(0);
   });
 });
 
@@ -338,6 +385,50 @@ describe('generateActionList', () => {
   });
 });
 
+describe('generateUnifiedOpportunities', () => {
+  const createQuickWin = (keyword: string) => ({
+    keyword,
+    currentPosition: 6,
+    targetPosition: 3,
+    searchVolume: 5000,
+    currentClicks: 150,
+    potentialClicks: 450,
+    clickUplift: 300,
+    upliftPercentage: 200,
+    effort: 'low' as const,
+    url: '/serum',
+    category: 'test',
+    reasoning: 'Test reasoning',
+  });
+
+  it('tags opportunities with their cluster and boosts multi-keyword clusters', () => {
+    const clusters = clusterKeywords([
+      createRankedKeyword({ keyword: 'hyaluron serum', searchVolume: 5000, url: '/serum' }),
+      createRankedKeyword({ keyword: 'serum gesicht', searchVolume: 2000, url: '/serum' }),
+      createRankedKeyword({ keyword: 'augencreme', searchVolume: 5000, url: '/augen' }),
+    ]);
+
+    const result = generateUnifiedOpportunities(
+      [createQuickWin('augencreme'), createQuickWin('hyaluron serum')],
+      [],
+      [],
+      clusters
+    );
+
+    expect(result.map(o => [o.keyword, o.cluster, o.priority])).toEqual([
+      ['hyaluron serum', 'hyaluron serum', 54],
+      ['augencreme', 'augencreme', 53],
+    ]);
+  });
+
+  it('leaves priorities unchanged without clusters', () => {
+    const [opportunity] = generateUnifiedOpportunities([createQuickWin('augencreme')], [], []);
+
+    expect(opportunity.priority).toBe(53);
+    expect(opportunity.cluster).toBeUndefined();
+  });
+});
+
 describe('generateActionableInsights', () => {
   it('generates complete insights from keyword data', () => {
     const rankedKeywords: RankedKeyword[] = [
@@ -359,7 +450,6 @@ describe('generateActionableInsights', () => {
     expect(result).toHaveProperty('actionList');
     expect(result).toHaveProperty('hiddenGems');
     expect(result).toHaveProperty('cannibalizationIssues');
-    expect(result).toHaveProperty('contentGaps');
     expect(result).toHaveProperty('summary');
   });
 
@@ -388,3 +478,47 @@ describe('generateActionableInsights', () => {
     expect(typeof result.summary.weakCategories).toBe('number');
   });
 });
+
+describe('revenue weighting', () => {
+  // The blog page gets more clicks but never converts; the shop page converts 5% at 80 per order
+  const keywords: RankedKeyword[] = [
+    createRankedKeyword({ keyword: 'naturkosmetik tipps', position: 5, searchVolume: 10000, url: 'https://lavera.de/blog', keywordDifficulty: 10 }),
+    createRankedKeyword({ keyword: 'naturkosmetik kaufen', position: 5, searchVolume: 5000, url: 'https://lavera.de/shop/', keywordDifficulty: 10 }),
+  ];
+  const revenueModel = createRevenueModel({
+    ...createDefaultConversionData(),
+    pages: [
+      { path: '/blog', sessions: 5000, conversions: 0, revenue: 0 },
+      { path: '/shop', sessions: 1000, conversions: 50, revenue: 4000 },
+    ],
+  });
+
+  it('ranks quick wins and hidden gems by revenue instead of clicks', () => {
+    expect(calculateQuickWins(keywords)[0].keyword).toBe('naturkosmetik tipps');
+
+    const quickWins = calculateQuickWins(keywords, 100, undefined, revenueModel);
+    expect(quickWins[0]).toMatchObject({ keyword: 'naturkosmetik kaufen', conversionRate: 5 });
+    expect(quickWins[0].revenueUplift).toBe(quickWins[0].clickUplift * 4);
+    expect(quickWins[1].revenueUplift).toBe(0);
+
+    const gems = calculateHiddenGems(keywords, 200, 40, revenueModel);
+    expect(gems[0].keyword).toBe('naturkosmetik kaufen');
+    expect(gems[0].potentialRevenue).toBe(gems[0].potentialClicks * 4);
+  });
+
+  it('prioritizes actions and opportunities by revenue', () => {
+    const insights = generateActionableInsights(keywords, [createBrandKeyword()], undefined, [], revenueModel);
+
+    expect(insights.actionList[0]).toMatchObject({ keyword: 'naturkosmetik kaufen' });
+    expect(insights.actionList[0].estimatedRevenue).toBeGreaterThan(0);
+    const quickWinOpps = insights.opportunities.filter(o => o.type === 'quick-win');
+    expect(insights.opportunities[0].keyword).toBe('naturkosmetik kaufen');
+    expect(quickWinOpps[0].keyword).toBe('naturkosmetik kaufen');
+    expect(quickWinOpps[0].revenuePotential).toBe(insights.quickWins[0].revenueUplift);
+    expect(insights.summary.totalQuickWinRevenue).toBe(insights.quickWins[0].revenueUplift);
+
+    const unweighted = generateActionableInsights(keywords, [createBrandKeyword()]);
+    expect(unweighted.opportunities.filter(o => o.type === 'quick-win')[0].keyword).toBe('naturkosmetik tipps');
+    expect(unweighted.summary.totalQuickWinRevenue).toBeUndefined();
+  });
+});
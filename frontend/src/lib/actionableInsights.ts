@@ -9,10 +9,15 @@ import type {
   ActionableInsights,
   HiddenGem,
   CannibalizationIssue,
-  ContentGap,
-  Opportunity
+  Opportunity,
+  KeywordCluster,
+  CategoryRule,
+  RevenueModel
 } from '../types';
 import { getCTR } from './calculations';
+import { getRevenueWeight } from './conversions';
+import { clusterKeywords } from '../../shared/clustering';
+import { getKeywordCategorizer } from './taxonomy';
 import { detectCategory as detectCategoryFromUtils } from '../utils/categoryDetection';
 import {
   generateQuickWinReasoning as generateQuickWinReasoningAdvanced,
@@ -53,17 +58,27 @@ function calculateEffort(currentPosition: number, targetPosition: number): 'low'
 // Use shared category detection utility
 const detectCategory = detectCategoryFromUtils;
 
+/**
+ * Clicks scaled by what a click on the page is worth against the site average.
+ * Without conversion data every click counts the same.
+ */
+function revenueWeightedClicks(clicks: number, url: string | undefined, revenueModel?: RevenueModel | null): number {
+  return revenueModel ? Math.round(clicks * getRevenueWeight(revenueModel, url)) : clicks;
+}
+
 /**
  * Calculate Quick Win opportunities from ranked keywords
  * Focuses on position 4-20 keywords with high potential
  * @param rankedKeywords - Keywords where the brand ranks
  * @param minVolume - Minimum search volume to consider
  * @param brandContext - Optional brand context for tailored reasoning
+ * @param revenueModel - Conversion data; when set, quick wins are ranked by revenue uplift
  */
 export function calculateQuickWins(
   rankedKeywords: RankedKeyword[],
   minVolume: number = 100,
-  brandContext?: BrandContext
+  brandContext?: BrandContext,
+  revenueModel?: RevenueModel | null
 ): QuickWinOpportunity[] {
   const quickWins: QuickWinOpportunity[] = [];
 
@@ -102,14 +117,22 @@ export function calculateQuickWins(
       reasoning: '' // Placeholder, will be filled with advanced reasoning
     };
 
+    if (revenueModel) {
+      const rates = revenueModel.getRates(kw.url);
+      quickWin.revenueUplift = Math.round(clickUplift * rates.revenuePerClick);
+      quickWin.conversionRate = Math.round(rates.conversionRate * 100) / 100;
+    }
+
     // Generate tailored, keyword-specific reasoning using the advanced function
     quickWin.reasoning = generateQuickWinReasoningAdvanced(quickWin, brandContext);
 
     quickWins.push(quickWin);
   }
 
-  // Sort by click uplift (highest first)
-  return quickWins.sort((a, b) => b.clickUplift - a.clickUplift);
+  // Sort by revenue uplift with conversion data, click uplift without (highest first)
+  return quickWins.sort((a, b) => revenueModel
+    ? (b.revenueUplift ?? 0) - (a.revenueUplift ?? 0)
+    : b.clickUplift - a.clickUplift);
 }
 
 // ==========================================
@@ -130,11 +153,14 @@ function determineCategoryStatus(
 }
 
 /**
- * Calculate SOV breakdown by category
+ * Calculate SOV breakdown by category, using the project taxonomy when there is one
  */
 export function calculateCategorySOV(
-  rankedKeywords: RankedKeyword[]
+  rankedKeywords: RankedKeyword[],
+  categoryRules: CategoryRule[] = []
 ): CategorySOV[] {
+  const categorize = getKeywordCategorizer(categoryRules);
+
   const categoryMap = new Map<string, {
     keywords: RankedKeyword[];
     totalVolume: number;
@@ -144,7 +170,7 @@ export function calculateCategorySOV(
 
   // Group keywords by category
   for (const kw of rankedKeywords) {
-    const category = kw.category || detectCategory(kw.keyword);
+    const category = categorize(kw);
     const existing = categoryMap.get(category) || {
       keywords: [],
       totalVolume: 0,
@@ -313,12 +339,14 @@ function determineOpportunityType(
 
 /**
  * Find Hidden Gems - Low difficulty, high potential keywords
- * These are keywords you can win with less effort
+ * These are keywords you can win with less effort.
+ * With conversion data, volume is weighted by what a click on the ranking page is worth.
  */
 export function calculateHiddenGems(
   rankedKeywords: RankedKeyword[],
   minVolume: number = 200,
-  maxKD: number = 40
+  maxKD: number = 40,
+  revenueModel?: RevenueModel | null
 ): HiddenGem[] {
   const hiddenGems: HiddenGem[] = [];
 
@@ -358,6 +386,9 @@ export function calculateHiddenGems(
       category: kw.category || detectCategory(kw.keyword),
       opportunity: opportunityType,
       potentialClicks,
+      ...(revenueModel && {
+        potentialRevenue: Math.round(potentialClicks * revenueModel.getRates(kw.url).revenuePerClick)
+      }),
       reasoning
     });
   }
@@ -365,8 +396,8 @@ export function calculateHiddenGems(
   // Sort by potential value (volume / difficulty ratio)
   return hiddenGems
     .sort((a, b) => {
-      const scoreA = a.searchVolume / (a.keywordDifficulty + 1);
-      const scoreB = b.searchVolume / (b.keywordDifficulty + 1);
+      const scoreA = revenueWeightedClicks(a.searchVolume, a.url, revenueModel) / (a.keywordDifficulty + 1);
+      const scoreB = revenueWeightedClicks(b.searchVolume, b.url, revenueModel) / (b.keywordDifficulty + 1);
       return scoreB - scoreA;
     })
     .slice(0, 20); // Top 20 hidden gems
@@ -452,119 +483,9 @@ export function detectCannibalization(
 // CONTENT GAP ANALYSIS
 // ==========================================
 
-/**
- * Analyze content gaps by category
- * Identifies categories where you're underperforming and need more/better content
- */
-export function analyzeContentGaps(
-  rankedKeywords: RankedKeyword[],
-  _brandKeywords: BrandKeyword[] // Reserved for future competitor coverage comparison
-): ContentGap[] {
-  // Group ranked keywords by category
-  const categoryData = new Map<string, {
-    yourKeywords: RankedKeyword[];
-    uniqueUrls: Set<string>;
-    totalVolume: number;
-    positionSum: number;
-    weakKeywords: RankedKeyword[]; // Position > 10
-    page2Keywords: RankedKeyword[]; // Position 11-20
-  }>();
-
-  for (const kw of rankedKeywords) {
-    const category = kw.category || detectCategory(kw.keyword);
-
-    // Skip the "Other" category as it's not actionable
-    if (category === 'Other') continue;
-
-    const existing = categoryData.get(category) || {
-      yourKeywords: [],
-      uniqueUrls: new Set<string>(),
-      totalVolume: 0,
-      positionSum: 0,
-      weakKeywords: [],
-      page2Keywords: []
-    };
-
-    existing.yourKeywords.push(kw);
-    if (kw.url) existing.uniqueUrls.add(kw.url);
-    existing.totalVolume += kw.searchVolume;
-    existing.positionSum += kw.position;
-
-    if (kw.position > 10) {
-      existing.weakKeywords.push(kw);
-    }
-    if (kw.position >= 11 && kw.position <= 20) {
-      existing.page2Keywords.push(kw);
-    }
-
-    categoryData.set(category, existing);
-  }
-
-  // Calculate coverage metrics
-  const contentGaps: ContentGap[] = [];
-
-  for (const [category, data] of categoryData) {
-    // Skip categories with very few keywords (not enough data)
-    if (data.yourKeywords.length < 3) continue;
-
-    const avgPosition = data.positionSum / data.yourKeywords.length;
-    const yourPageCount = data.uniqueUrls.size; // Actual pages you have
-    const weakKeywordCount = data.weakKeywords.length;
-    const page2Count = data.page2Keywords.length;
-
-    // Calculate a "content opportunity score"
-    // Based on: high volume keywords where you rank poorly
-    const highVolumeWeakKeywords = data.weakKeywords
-      .filter(k => k.searchVolume >= 500)
-      .sort((a, b) => b.searchVolume - a.searchVolume);
-
-    // Realistic suggestion: 1 new page per 3-5 weak high-volume keywords
-    // Max suggestion: 10 new pages per category
-    const suggestedNewContent = Math.min(
-      10,
-      Math.ceil(highVolumeWeakKeywords.length / 3)
-    );
-
-    // Only flag if there's a meaningful gap
-    const hasGap = (
-      avgPosition > 8 || // Average position is page 2
-      weakKeywordCount > data.yourKeywords.length * 0.4 || // More than 40% weak
-      page2Count >= 5 // At least 5 keywords on page 2
-    );
-
-    if (!hasGap || suggestedNewContent === 0) continue;
-
-    // Get top missing keywords (highest volume, worst position)
-    const topMissingKeywords = highVolumeWeakKeywords
-      .slice(0, 5)
-      .map(k => k.keyword);
-
-    // Determine priority based on opportunity size
-    const opportunityVolume = highVolumeWeakKeywords.reduce((sum, k) => sum + k.searchVolume, 0);
-    const priority: ContentGap['priority'] =
-      opportunityVolume > 50000 ? 'high' :
-      opportunityVolume > 10000 ? 'medium' : 'low';
-
-    contentGaps.push({
-      topic: category,
-      category,
-      yourCoverage: yourPageCount,
-      avgCompetitorCoverage: yourPageCount + suggestedNewContent, // Suggested total
-      totalVolume: data.totalVolume,
-      topMissingKeywords,
-      priority
-    });
-  }
-
-  // Sort by priority and volume
-  return contentGaps.sort((a, b) => {
-    const priorityOrder = { high: 0, medium: 1, low: 2 };
-    if (priorityOrder[a.priority] !== priorityOrder[b.priority]) {
-      return priorityOrder[a.priority] - priorityOrder[b.priority];
-    }
-    return b.totalVolume - a.totalVolume;
-  });
-}
+// Content gaps need competitor rankings, so they are computed by /api/competitor-analysis
+// from the same shared implementation rather than in generateActionableInsights
+export { analyzeContentGaps } from '../../shared/contentGaps';
 
 // ==========================================
 // PRIORITIZED ACTION LIST
@@ -572,7 +493,8 @@ export function analyzeContentGaps(
 
 /**
  * Generate prioritized action list based on all insights
- * Now with unique, keyword-specific reasoning for each action
+ * Now with unique, keyword-specific reasoning for each action.
+ * With conversion data, quick win and hidden gem priorities follow revenue rather than clicks.
  */
 export function generateActionList(
   quickWins: QuickWinOpportunity[],
@@ -580,19 +502,21 @@ export function generateActionList(
   competitors: CompetitorStrength[],
   hiddenGems: HiddenGem[] = [],
   cannibalizationIssues: CannibalizationIssue[] = [],
-  brandContext?: BrandContext
+  brandContext?: BrandContext,
+  revenueModel?: RevenueModel | null
 ): ActionItem[] {
   const actions: ActionItem[] = [];
   let id = 1;
 
   // Add Quick Win actions (optimize existing pages) with unique reasoning
   for (const qw of quickWins.slice(0, 5)) {
-    const impactScore = qw.clickUplift >= 500 ? 'high' : qw.clickUplift >= 200 ? 'medium' : 'low';
+    const uplift = revenueWeightedClicks(qw.clickUplift, qw.url, revenueModel);
+    const impactScore = uplift >= 500 ? 'high' : uplift >= 200 ? 'medium' : 'low';
 
     actions.push({
       id: `action-${id++}`,
       actionType: 'optimize',
-      priority: Math.min(100, 50 + Math.round(qw.clickUplift / 50)),
+      priority: Math.min(100, 50 + Math.round(uplift / 50)),
       title: generateActionTitle('optimize', qw.keyword, qw.category, {
         position: qw.currentPosition,
         targetPosition: qw.targetPosition
@@ -607,25 +531,29 @@ export function generateActionList(
       impact: impactScore,
       effort: qw.effort,
       estimatedUplift: qw.clickUplift,
+      estimatedRevenue: qw.revenueUplift,
       reasoning: generateQuickWinReasoningAdvanced(qw, brandContext)
     });
   }
 
   // Add Hidden Gem actions with unique reasoning
   for (const gem of hiddenGems.slice(0, 3)) {
+    const volume = revenueWeightedClicks(gem.searchVolume, gem.url, revenueModel);
+
     actions.push({
       id: `action-${id++}`,
       actionType: 'create',
-      priority: Math.min(95, 70 + Math.round(gem.searchVolume / 500)),
+      priority: Math.min(95, 70 + Math.round(volume / 500)),
       title: generateActionTitle('create', gem.keyword, gem.category),
       description: generateActionDescription('create', gem.keyword, gem.category, {
         volume: gem.searchVolume
       }),
       keyword: gem.keyword,
       category: gem.category,
-      impact: gem.searchVolume >= 1000 ? 'high' : gem.searchVolume >= 500 ? 'medium' : 'low',
+      impact: volume >= 1000 ? 'high' : volume >= 500 ? 'medium' : 'low',
       effort: gem.keywordDifficulty <= 20 ? 'low' : gem.keywordDifficulty <= 35 ? 'medium' : 'high',
       estimatedUplift: gem.potentialClicks,
+      estimatedRevenue: gem.potentialRevenue,
       reasoning: generateHiddenGemReasoning(gem, brandContext)
     });
   }
@@ -723,28 +651,47 @@ export function generateActionList(
 
 /**
  * Generate unified opportunities list from all insight types
- * Combines quick wins, hidden gems, and cannibalization issues into a single prioritized list
+ * Combines quick wins, hidden gems, and cannibalization issues into a single prioritized list.
+ * Keywords in a multi-keyword topic cluster get a priority bonus: improving the page
+ * that serves the cluster lifts every keyword in it, not just the one listed.
+ * With conversion data, quick wins and hidden gems are prioritized by revenue potential.
  */
 export function generateUnifiedOpportunities(
   quickWins: QuickWinOpportunity[],
   hiddenGems: HiddenGem[],
-  cannibalizationIssues: CannibalizationIssue[]
+  cannibalizationIssues: CannibalizationIssue[],
+  clusters: KeywordCluster[] = [],
+  revenueModel?: RevenueModel | null
 ): Opportunity[] {
   const opportunities: Opportunity[] = [];
   let idCounter = 1;
 
+  const clusterByKeyword = new Map<string, KeywordCluster>();
+  for (const cluster of clusters) {
+    for (const kw of cluster.keywords) clusterByKeyword.set(kw.keyword.toLowerCase(), cluster);
+  }
+  const withCluster = (keyword: string, priority: number) => {
+    const cluster = clusterByKeyword.get(keyword.toLowerCase());
+    if (!cluster) return { priority };
+    return {
+      priority: Math.min(100, priority + Math.min(10, cluster.keywords.length - 1)),
+      cluster: cluster.pillarKeyword
+    };
+  };
+
   // Convert Quick Wins to Opportunities
   for (const qw of quickWins) {
     // Priority based on click uplift potential (higher = better)
-    const priority = Math.min(100, 50 + Math.round(qw.clickUplift / 100));
+    const priority = Math.min(100, 50 + Math.round(revenueWeightedClicks(qw.clickUplift, qw.url, revenueModel) / 100));
 
     opportunities.push({
       id: `opp-qw-${idCounter++}`,
       keyword: qw.keyword,
       type: 'quick-win',
-      priority,
+      ...withCluster(qw.keyword, priority),
       searchVolume: qw.searchVolume,
       clickPotential: qw.clickUplift,
+      revenuePotential: qw.revenueUplift,
       effort: qw.effort,
       reasoning: '', // Will be filled by AI
       currentPosition: qw.currentPosition,
@@ -757,15 +704,17 @@ export function generateUnifiedOpportunities(
   // Convert Hidden Gems to Opportunities
   for (const gem of hiddenGems) {
     // Priority based on volume/difficulty ratio
-    const priority = Math.min(95, 40 + Math.round((gem.searchVolume / (gem.keywordDifficulty + 1)) / 50));
+    const volume = revenueWeightedClicks(gem.searchVolume, gem.url, revenueModel);
+    const priority = Math.min(95, 40 + Math.round((volume / (gem.keywordDifficulty + 1)) / 50));
 
     opportunities.push({
       id: `opp-gem-${idCounter++}`,
       keyword: gem.keyword,
       type: 'hidden-gem',
-      priority,
+      ...withCluster(gem.keyword, priority),
       searchVolume: gem.searchVolume,
       clickPotential: gem.potentialClicks,
+      revenuePotential: gem.potentialRevenue,
       effort: gem.keywordDifficulty <= 20 ? 'low' : gem.keywordDifficulty <= 35 ? 'medium' : 'high',
       reasoning: '', // Will be filled by AI
       currentPosition: gem.position || undefined,
@@ -785,7 +734,7 @@ export function generateUnifiedOpportunities(
       id: `opp-cann-${idCounter++}`,
       keyword: issue.keyword,
       type: 'cannibalization',
-      priority,
+      ...withCluster(issue.keyword, priority),
       searchVolume: issue.searchVolume,
       clickPotential: issue.impactScore,
       effort: issue.recommendation === 'redirect' ? 'low' : 'medium',
@@ -799,6 +748,48 @@ export function generateUnifiedOpportunities(
   return opportunities.sort((a, b) => b.priority - a.priority);
 }
 
+// ==========================================
+// BRAND CONTEXT
+// ==========================================
+
+/**
+ * Brand context for tailored recommendations, read from the categories the brand ranks in
+ * The most common category stands in for the industry.
+ */
+export function deriveBrandContext(
+  brandName: string,
+  rankedKeywords: RankedKeyword[],
+  competitors: string[]
+): BrandContext {
+  const categories = rankedKeywords
+    .map(k => k.category)
+    .filter((c): c is string => !!c);
+  const categoryFreq = categories.reduce((acc, cat) => {
+    acc[cat] = (acc[cat] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  const topCategories = Object.entries(categoryFreq)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([cat]) => cat);
+
+  const primaryCategory = topCategories[0] || 'General';
+
+  return {
+    brandName,
+    industry: primaryCategory,
+    vertical: primaryCategory,
+    productCategories: topCategories,
+    targetAudience: 'General audience',
+    competitorContext: competitors.length > 0
+      ? `Competing with ${competitors.join(', ')}`
+      : 'Competitor landscape not specified',
+    keyStrengths: [],
+    marketPosition: 'Challenger',
+    seoFocus: topCategories.slice(0, 3),
+  };
+}
+
 // ==========================================
 // MAIN FUNCTION
 // ==========================================
@@ -808,24 +799,31 @@ export function generateUnifiedOpportunities(
  * @param rankedKeywords - Keywords where the brand ranks
  * @param brandKeywords - Brand and competitor brand keywords
  * @param brandContext - Optional context about the brand for tailored explanations
+ * @param categoryRules - The project's category taxonomy, if one is defined
+ * @param revenueModel - Conversion data, to rank opportunities by revenue instead of clicks
  */
 export function generateActionableInsights(
   rankedKeywords: RankedKeyword[],
   brandKeywords: BrandKeyword[],
-  brandContext?: BrandContext
+  brandContext?: BrandContext,
+  categoryRules: CategoryRule[] = [],
+  revenueModel?: RevenueModel | null
 ): ActionableInsights {
-  const quickWins = calculateQuickWins(rankedKeywords, 100, brandContext);
-  const categoryBreakdown = calculateCategorySOV(rankedKeywords);
+  const quickWins = calculateQuickWins(rankedKeywords, 100, brandContext, revenueModel);
+  const categoryBreakdown = calculateCategorySOV(rankedKeywords, categoryRules);
   const competitorStrengths = calculateCompetitorStrength(brandKeywords, rankedKeywords);
-  const hiddenGems = calculateHiddenGems(rankedKeywords);
+  const hiddenGems = calculateHiddenGems(rankedKeywords, 200, 40, revenueModel);
   const cannibalizationIssues = detectCannibalization(rankedKeywords);
-  const contentGaps = analyzeContentGaps(rankedKeywords, brandKeywords);
-  const actionList = generateActionList(quickWins, categoryBreakdown, competitorStrengths, hiddenGems, cannibalizationIssues, brandContext);
+  const actionList = generateActionList(
+    quickWins, categoryBreakdown, competitorStrengths, hiddenGems, cannibalizationIssues, brandContext, revenueModel
+  );
 
   // Generate unified opportunities list
-  const opportunities = generateUnifiedOpportunities(quickWins, hiddenGems, cannibalizationIssues);
+  const keywordClusters = clusterKeywords(rankedKeywords);
+  const opportunities = generateUnifiedOpportunities(quickWins, hiddenGems, cannibalizationIssues, keywordClusters, revenueModel);
 
   const totalQuickWinPotential = quickWins.reduce((sum, q) => sum + q.clickUplift, 0);
+  const totalQuickWinRevenue = revenueModel ? quickWins.reduce((sum, q) => sum + (q.revenueUplift ?? 0), 0) : undefined;
   const strongCategories = categoryBreakdown.filter(c => c.status === 'leading' || c.status === 'competitive').length;
   const weakCategories = categoryBreakdown.filter(c => c.status === 'weak' || c.status === 'trailing').length;
 
@@ -836,10 +834,10 @@ export function generateActionableInsights(
     actionList,
     hiddenGems,
     cannibalizationIssues,
-    contentGaps,
     opportunities,
     summary: {
       totalQuickWinPotential,
+      totalQuickWinRevenue,
       strongCategories,
       weakCategories,
       hiddenGemsCount: hiddenGems.length,
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { buildMetricSeries, describeAlertRule, evaluateRule, validateAlertRule } from '../../shared/alerts';
+import type { SnapshotMetrics } from '../../shared/alerts';
+import type { AlertRule, MetricPoint } from '../types';
+
+const createRule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: 'rule-1',
+  projectId: 'project-1',
+  name: 'SOS drop',
+  metric: 'sos',
+  subject: '',
+  type: 'percentChange',
+  direction: 'below',
+  value: 10,
+  lookback: 1,
+  channels: [],
+  enabled: true,
+  ...overrides,
+});
+
+const createSnapshot = (overrides: Partial<SnapshotMetrics> = {}): SnapshotMetrics => ({
+  capturedAt: '2024-06-01T04:00:00.000Z',
+  shareOfSearch: 30,
+  shareOfVoice: 20,
+  gap: -10,
+  brandVolume: 3000,
+  brandKeywords: [
+    { keyword: 'lavera', searchVolume: 3000, isOwnBrand: true },
+    { keyword: 'Weleda', searchVolume: 7000, isOwnBrand: false },
+  ],
+  ...overrides,
+});
+
+// One point per week from June 1st
+const series = (values: number[], subject: string = ''): Map<string, MetricPoint[]> =>
+  new Map([[subject, values.map((value, i) => ({ capturedAt: new Date(Date.UTC(2024, 5, 1 + i * 7)).toISOString(), value }))]]);
+
+describe('validateAlertRule', () => {
+  it('fills in lookback defaults and drops the subject for single-series metrics', () => {
+    const result = validateAlertRule({ name: ' SOS ', metric: 'sos', subject: 'weleda', type: 'outlier', direction: 'either', value: 2 });
+
+    expect(result.data).toEqual({
+      name: 'SOS',
+      metric: 'sos',
+      subject: '',
+      type: 'outlier',
+      direction: 'either',
+      value: 2,
+      lookback: 8,
+      channels: [],
+      enabled: true,
+    });
+  });
+
+  it('rejects rules that could never fire', () => {
+    expect(validateAlertRule({ name: 'x', metric: 'sos', type: 'threshold', direction: 'either', value: 20 }).error)
+      .toBe('Threshold rules need a direction: above or below');
+    expect(validateAlertRule({ name: 'x', metric: 'sos', type: 'outlier', direction: 'below', value: 2, lookback: 2 }).error)
+      .toBe('Outlier rules need a lookback of at least 4 snapshots');
+    expect(validateAlertRule({ name: 'x', metric: 'ctr', type: 'threshold', direction: 'below', value: 2 }).error)
+      .toBe('Unknown metric: ctr');
+  });
+});
+
+describe('buildMetricSeries', () => {
+  it('keeps one series per competitor keyword, oldest first', () => {
+    const result = buildMetricSeries('competitorBrandVolume', [
+      createSnapshot({ capturedAt: '2024-06-08T04:00:00.000Z', brandKeywords: [{ keyword: 'Weleda', searchVolume: 9000, isOwnBrand: false }] }),
+      createSnapshot(),
+    ]);
+
+    expect([...result.keys()]).toEqual(['weleda']);
+    expect(result.get('weleda')!.map(p => p.value)).toEqual([7000, 9000]);
+  });
+
+  it('reads channel metrics from channel snapshots only', () => {
+    const result = buildMetricSeries('youtubeSov', [createSnapshot()], [
+      { capturedAt: '2024-06-01T00:00:00.000Z', channel: 'youtube', shareOfVoice: 12 },
+      { capturedAt: '2024-06-01T00:00:00.000Z', channel: 'paid', shareOfVoice: 40 },
+    ]);
+
+    expect(result.get('')).toEqual([{ capturedAt: '2024-06-01T00:00:00.000Z', value: 12 }]);
+  });
+});
+
+describe('evaluateRule', () => {
+  it('fires a threshold rule only on the snapshot that crosses it', () => {
+    const rule = createRule({ type: 'threshold', direction: 'below', value: 25 });
+
+    expect(evaluateRule(rule, series([30, 24]))).toHaveLength(1);
+    expect(evaluateRule(rule, series([24, 22]))).toEqual([]);
+    expect(evaluateRule(rule, series([22]))[0].message).toBe('Share of Search fell below 25%: now 22%');
+  });
+
+  it('compares percent change with the value lookback snapshots earlier', () => {
+    const [trigger] = evaluateRule(createRule({ lookback: 2 }), series([30, 29, 24.6]));
+
+    expect(trigger).toMatchObject({ ruleId: 'rule-1', value: 24.6, baseline: 30, observedAt: '2024-06-15T00:00:00.000Z' });
+    expect(trigger.message).toBe('Share of Search dropped 18% to 24.6% (was 30%)');
+    expect(evaluateRule(createRule({ direction: 'above' }), series([30, 24.6]))).toEqual([]);
+  });
+
+  it('flags outliers against the previous window', () => {
+    const rule = createRule({ type: 'outlier', direction: 'either', value: 3, lookback: 6 });
+
+    expect(evaluateRule(rule, series([30, 31, 29, 30, 31, 29, 30.5]))).toEqual([]);
+    const [trigger] = evaluateRule(rule, series([30, 31, 29, 30, 31, 29, 20]));
+    expect(trigger.baseline).toBe(30);
+    expect(trigger.message).toMatch(/^Share of Search is an unusual drop: 20% vs\. a typical 30% \(z = -11\.\d\)$/);
+    // Too little history to judge
+    expect(evaluateRule(rule, series([30, 31, 20]))).toEqual([]);
+  });
+
+  it('limits competitor rules to their subject and skips disabled rules', () => {
+    const values = new Map([...series([1000, 2000], 'weleda'), ...series([1000, 2000], 'sante')]);
+    const rule = createRule({ metric: 'competitorBrandVolume', subject: 'sante', direction: 'above', value: 50 });
+
+    expect(evaluateRule(rule, values).map(t => t.subject)).toEqual(['sante']);
+    expect(evaluateRule({ ...rule, subject: '' }, values)).toHaveLength(2);
+    expect(evaluateRule({ ...rule, enabled: false }, values)).toEqual([]);
+  });
+});
+
+describe('describeAlertRule', () => {
+  it('summarises each rule type', () => {
+    expect(describeAlertRule(createRule({ value: 15 }))).toBe('Share of Search drops 15% vs. 1 snapshot earlier');
+    expect(describeAlertRule(createRule({ type: 'threshold', metric: 'gap', direction: 'above', value: 5 }))).toBe('Growth Gap rises above +5 pts');
+    expect(describeAlertRule(createRule({ type: 'outlier', direction: 'either', value: 2, lookback: 8 })))
+      .toBe('Share of Search moves more than 2 standard deviations from the last 8 snapshots');
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyPreviousReview,
+  applyReviewVolumes,
+  buildBrandKeywords,
+  buildReviewedBrandKeywords,
+  buildVariantSet,
+  classifyVariant,
+  extractBrandFromDomain,
+  generateSpellingVariants,
+  matchesBrand,
+  normalizeBrandTerm,
+  toBrandVariantReview
+} from '../../shared/brandVariants';
+import { calculateSOS } from './calculations';
+import type { BrandVariant, BrandVariantSet } from '../types';
+
+const createVariant = (overrides: Partial<BrandVariant> = {}): BrandVariant => ({
+  keyword: 'lavera',
+  kind: 'exact',
+  searchVolume: 1000,
+  status: 'accepted',
+  ...overrides,
+});
+
+const createSet = (overrides: Partial<BrandVariantSet> = {}): BrandVariantSet => ({
+  brand: 'lavera',
+  isOwnBrand: true,
+  variants: [createVariant()],
+  ...overrides,
+});
+
+describe('normalizeBrandTerm', () => {
+  it('folds umlauts, transliterations, case and punctuation into one key', () => {
+    expect(normalizeBrandTerm('Annemarie Börlind')).toBe('annemarieborlind');
+    expect(normalizeBrandTerm('annemarie-boerlind')).toBe('annemarieborlind');
+    expect(normalizeBrandTerm('Dr. Hauschka')).toBe(normalizeBrandTerm('dr hauschka'));
+  });
+});
+
+describe('extractBrandFromDomain', () => {
+  it('strips protocol, www and the TLD', () => {
+    expect(extractBrandFromDomain('https://www.lavera.de/shop')).toBe('lavera');
+    expect(extractBrandFromDomain('dr-hauschka.com')).toBe('dr hauschka');
+  });
+});
+
+describe('classifyVariant', () => {
+  it('recognises umlaut and punctuation spellings of the brand', () => {
+    expect(classifyVariant('lavera', 'lavera')).toBe('exact');
+    expect(classifyVariant('annemarie boerlind', 'annemarie börlind')).toBe('spelling');
+    expect(classifyVariant('dr. hauschka', 'dr hauschka')).toBe('spelling');
+  });
+
+  it('flags spacing changes and typos as misspellings', () => {
+    expect(classifyVariant('la vera', 'lavera')).toBe('misspelling');
+    expect(classifyVariant('lavara', 'lavera')).toBe('misspelling');
+    expect(classifyVariant('la vera creme', 'lavera')).toBe('misspelling');
+  });
+
+  it('treats the brand with extra words as a product search', () => {
+    expect(classifyVariant('lavera shampoo', 'lavera')).toBe('product');
+    expect(classifyVariant('weleda skin food', 'weleda')).toBe('product');
+  });
+
+  it('does not allow typos in short brands', () => {
+    expect(classifyVariant('nyx', 'nyx')).toBe('exact');
+    expect(classifyVariant('nix', 'nyx')).toBeNull();
+    expect(classifyVariant('naturkosmetik', 'lavera')).toBeNull();
+  });
+
+  it('only counts correctly written brand searches without review', () => {
+    expect(matchesBrand('lavera online', 'lavera')).toBe(true);
+    expect(matchesBrand('la vera', 'lavera')).toBe(false);
+  });
+});
+
+describe('generateSpellingVariants', () => {
+  it('writes out umlauts and joins multi-word brands', () => {
+    expect(generateSpellingVariants('annemarie börlind')).toEqual(expect.arrayContaining([
+      'annemarie boerlind',
+      'annemarie borlind',
+      'annemariebörlind',
+      'annemarie-börlind',
+    ]));
+  });
+
+  it('splits single-word brands once and never returns the brand itself', () => {
+    const variants = generateSpellingVariants('lavera');
+    expect(variants).toContain('la vera');
+    expect(variants).not.toContain('lavera');
+  });
+});
+
+describe('buildVariantSet', () => {
+  it('keeps brand variants, drops unrelated and zero-volume keywords and queues misspellings for review', () => {
+    const set = buildVariantSet('lavera', true, [
+      { keyword: 'lavera shampoo', searchVolume: 500 },
+      { keyword: 'Lavera', searchVolume: 90500 },
+      { keyword: 'la vera', searchVolume: 300 },
+      { keyword: 'lavera zahnpasta', searchVolume: 0 },
+      { keyword: 'naturkosmetik', searchVolume: 40000 },
+    ]);
+
+    expect(set.variants.map(v => [v.keyword, v.kind, v.status])).toEqual([
+      ['lavera', 'exact', 'accepted'],
+      ['lavera shampoo', 'product', 'accepted'],
+      ['la vera', 'misspelling', 'pending'],
+    ]);
+  });
+});
+
+describe('applyPreviousReview', () => {
+  it('keeps earlier decisions for variants discovered again', () => {
+    const fresh = [createSet({ variants: [createVariant(), createVariant({ keyword: 'la vera', kind: 'misspelling', status: 'pending' })] })];
+    const previous = [createSet({ variants: [createVariant({ status: 'rejected' }), createVariant({ keyword: 'la vera', status: 'accepted' })] })];
+
+    expect(applyPreviousReview(fresh, previous)[0].variants.map(v => v.status)).toEqual(['rejected', 'accepted']);
+  });
+});
+
+describe('buildBrandKeywords', () => {
+  it('feeds only accepted variants into calculateSOS and counts shared terms for the own brand', () => {
+    const sets = [
+      createSet({
+        brand: 'weleda',
+        isOwnBrand: false,
+        variants: [
+          createVariant({ keyword: 'weleda', searchVolume: 3000 }),
+          createVariant({ keyword: 'lavera vs weleda', kind: 'product', searchVolume: 100 }),
+        ],
+      }),
+      createSet({
+        variants: [
+          createVariant({ searchVolume: 1000 }),
+          createVariant({ keyword: 'la vera', kind: 'misspelling', searchVolume: 200, status: 'pending' }),
+          createVariant({ keyword: 'lavera vs weleda', kind: 'product', searchVolume: 100 }),
+        ],
+      }),
+    ];
+
+    const keywords = buildBrandKeywords(sets);
+
+    expect(keywords).toEqual([
+      { keyword: 'weleda', searchVolume: 3000, isOwnBrand: false },
+      { keyword: 'lavera', searchVolume: 1000, isOwnBrand: true },
+      { keyword: 'lavera vs weleda', searchVolume: 100, isOwnBrand: true },
+    ]);
+    expect(calculateSOS(keywords)).toEqual({ shareOfSearch: 26.8, brandVolume: 1100, totalBrandVolume: 4100 });
+  });
+});
+
+describe('reviews with current volumes', () => {
+  const review = toBrandVariantReview([
+    createSet({
+      variants: [
+        createVariant({ searchVolume: 1000 }),
+        createVariant({ keyword: 'la vera', kind: 'misspelling', searchVolume: 200, status: 'rejected' }),
+      ],
+    }),
+    createSet({ brand: 'weleda', isOwnBrand: false, variants: [createVariant({ keyword: 'weleda', searchVolume: 3000 })] }),
+    createSet({ brand: 'sante', isOwnBrand: false, variants: [createVariant({ keyword: 'sante', searchVolume: 500 })] }),
+  ]);
+
+  it('stores decisions without volumes', () => {
+    expect(review[0]).toEqual({
+      brand: 'lavera',
+      isOwnBrand: true,
+      variants: [{ keyword: 'lavera', status: 'accepted' }, { keyword: 'la vera', status: 'rejected' }],
+    });
+  });
+
+  it('takes the volumes of the current analysis and drops brands no longer tracked', () => {
+    const sets = applyReviewVolumes(review, { lavera: 1500, weleda: 2500 }, ['lavera', 'Weleda']);
+
+    expect(sets.map(set => set.brand)).toEqual(['lavera', 'weleda']);
+    expect(sets[0].variants).toEqual([
+      { keyword: 'lavera', kind: 'exact', searchVolume: 1500, status: 'accepted' },
+      { keyword: 'la vera', kind: 'misspelling', searchVolume: 0, status: 'rejected' },
+    ]);
+  });
+
+  it('adds the default keywords of competitors added after the review', () => {
+    const sets = applyReviewVolumes(review, { lavera: 1500, weleda: 2500 }, ['lavera', 'weleda', 'logona']);
+    const defaults = [
+      { keyword: 'lavera', searchVolume: 1400, isOwnBrand: true },
+      { keyword: 'weleda', searchVolume: 2400, isOwnBrand: false },
+      { keyword: 'logona', searchVolume: 800, isOwnBrand: false },
+      { keyword: 'logona shop', searchVolume: 90, isOwnBrand: false },
+    ];
+
+    expect(buildReviewedBrandKeywords(sets, defaults, ['weleda', 'logona'])).toEqual([
+      { keyword: 'weleda', searchVolume: 2500, isOwnBrand: false },
+      { keyword: 'lavera', searchVolume: 1500, isOwnBrand: true },
+      { keyword: 'logona', searchVolume: 800, isOwnBrand: false },
+      { keyword: 'logona shop', searchVolume: 90, isOwnBrand: false },
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import calculateHandler from '../../api/calculate';
+import {
+  calculateSOS,
+  calculateSOV,
+  calculateGrowthGap,
+  SAMPLE_BRAND_KEYWORDS,
+  SAMPLE_RANKED_KEYWORDS,
+} from './calculations';
+import { BUILTIN_CTR_MODELS, parseCustomCTRModel } from './ctrModels';
+import type { BrandKeyword, RankedKeyword, CTRModel, CalculateResponse } from '../types';
+
+// Run the /api/calculate handler in-process and capture its JSON response
+function callCalculateAPI(body: unknown): { status: number; json: CalculateResponse } {
+  const result = { status: 0, json: undefined as unknown as CalculateResponse };
+  const res = {
+    setHeader: () => res,
+    status: (code: number) => {
+      result.status = code;
+      return res;
+    },
+    json: (data: CalculateResponse) => {
+      result.json = data;
+      return res;
+    },
+    end: () => res,
+  };
+  const req = { method: 'POST', headers: {}, body };
+  calculateHandler(req as unknown as VercelRequest, res as unknown as VercelResponse);
+  return result;
+}
+
+function expectParity(
+  brandKeywords: BrandKeyword[],
+  rankedKeywords: RankedKeyword[],
+  model?: CTRModel,
+  applySerpAdjustments = false
+) {
+  const server = callCalculateAPI({ brandKeywords, rankedKeywords, ctrModel: model, applySerpAdjustments });
+  expect(server.status).toBe(200);
+
+  const sos = calculateSOS(brandKeywords);
+  const sov = calculateSOV(rankedKeywords, { model, applySerpAdjustments });
+  const gap = calculateGrowthGap(sos.shareOfSearch, sov.shareOfVoice);
+
+  expect(server.json.sos).toEqual(sos);
+  expect(server.json.gap).toEqual(gap);
+  expect(server.json.sov.shareOfVoice).toBe(sov.shareOfVoice);
+  expect(server.json.sov.visibleVolume).toBe(sov.visibleVolume);
+  expect(server.json.sov.totalMarketVolume).toBe(sov.totalMarketVolume);
+  expect(server.json.sov.keywordBreakdown.map(k => [k.keyword, k.ctr, k.visibleVolume]))
+    .toEqual(sov.keywordBreakdown.map(k => [k.keyword, k.ctr, k.visibleVolume]));
+  expect(server.json.sov.ctrModel).toMatchObject({
+    id: sov.ctrModel.id,
+    curve: sov.ctrModel.curve,
+    defaultCTR: sov.ctrModel.defaultCTR,
+    serpAdjustments: sov.ctrModel.serpAdjustments,
+  });
+}
+
+const createRankedKeyword = (overrides: Partial<RankedKeyword> = {}): RankedKeyword => ({
+  keyword: 'test keyword',
+  searchVolume: 1000,
+  position: 1,
+  url: '/test',
+  ...overrides,
+});
+
+describe('server/client calculation parity', () => {
+  it('matches on sample data with the default model', () => {
+    expectParity(SAMPLE_BRAND_KEYWORDS, SAMPLE_RANKED_KEYWORDS);
+  });
+
+  it.each(BUILTIN_CTR_MODELS.map(m => [m.id, m] as const))('matches with the %s model', (_id, model) => {
+    expectParity(SAMPLE_BRAND_KEYWORDS, SAMPLE_RANKED_KEYWORDS, model);
+  });
+
+  it('matches with SERP feature adjustments', () => {
+    const rankedKeywords = SAMPLE_RANKED_KEYWORDS.map((kw, i) => ({
+      ...kw,
+      serpFeatures: { ads: i % 2 === 0, featuredSnippet: i % 3 === 0, localPack: i % 4 === 0 },
+    }));
+
+    expectParity(SAMPLE_BRAND_KEYWORDS, rankedKeywords, undefined, true);
+    expectParity(SAMPLE_BRAND_KEYWORDS, rankedKeywords, undefined, false);
+  });
+
+  it('matches with an uploaded custom curve', () => {
+    const custom = parseCustomCTRModel(JSON.stringify({ name: 'Agency', curve: { 1: 35, 2: 18, 3: 10 }, defaultCTR: 0.2 }));
+
+    expectParity(SAMPLE_BRAND_KEYWORDS, SAMPLE_RANKED_KEYWORDS, custom.data);
+  });
+
+  it('matches for positions beyond the curve and zero volumes', () => {
+    const rankedKeywords = [
+      createRankedKeyword({ keyword: 'deep', position: 45 }),
+      createRankedKeyword({ keyword: 'last', position: 100, searchVolume: 0 }),
+      createRankedKeyword({ keyword: 'top', position: 1, searchVolume: 73 }),
+    ];
+
+    expectParity(SAMPLE_BRAND_KEYWORDS, rankedKeywords);
+  });
+
+  it('matches when the brand has no own keywords', () => {
+    const brandKeywords = SAMPLE_BRAND_KEYWORDS.map(kw => ({ ...kw, isOwnBrand: false }));
+
+    expectParity(brandKeywords, SAMPLE_RANKED_KEYWORDS);
+  });
+});
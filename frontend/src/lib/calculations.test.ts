@@ -4,10 +4,12 @@ import {
   calculateSOS,
   calculateSOV,
   calculateGrowthGap,
+  calculateVisibilityIndex,
   SAMPLE_BRAND_KEYWORDS,
   SAMPLE_RANKED_KEYWORDS,
 } from './calculations';
-import type { BrandKeyword, RankedKeyword } from '../types';
+import { getCTRModel } from './ctrModels';
+import type { BrandKeyword, RankedKeyword, VisibilityPanel } from '../types';
 
 describe('getCTR', () => {
   it('returns 0 for position 0 or negative', () => {
@@ -30,6 +32,17 @@ describe('getCTR', () => {
     expect(getCTR(50)).toBe(0.001);
     expect(getCTR(100)).toBe(0.001);
   });
+
+  it('uses the curve of the given model', () => {
+    expect(getCTR(1, getCTRModel('branded'))).toBe(0.5);
+    expect(getCTR(1, getCTRModel('mobile'))).toBe(0.25);
+  });
+
+  it('reduces CTR for SERP features', () => {
+    expect(getCTR(1, undefined, { ads: true })).toBeCloseTo(0.28 * 0.85);
+    expect(getCTR(1, undefined, { ads: true, localPack: true })).toBeCloseTo(0.28 * 0.85 * 0.7);
+    expect(getCTR(1, undefined, { ads: false, featuredSnippet: false })).toBe(0.28);
+  });
 });
 
 describe('calculateSOS', () => {
@@ -111,6 +124,45 @@ describe('calculateSOV', () => {
 
     expect(result.keywordBreakdown[0].ctr).toBe(28); // 0.28 * 100, rounded
   });
+
+  it('records the default desktop model when no model is given', () => {
+    const result = calculateSOV(SAMPLE_RANKED_KEYWORDS);
+
+    expect(result.ctrModel?.id).toBe('desktop');
+    expect(result.ctrModel?.serpAdjustments).toBe(false);
+  });
+
+  it('calculates SOV with the selected model', () => {
+    const keywords: RankedKeyword[] = [
+      { keyword: 'test', searchVolume: 1000, position: 1, url: '/test' },
+    ];
+    const result = calculateSOV(keywords, { model: getCTRModel('branded') });
+
+    expect(result.shareOfVoice).toBe(50);
+    expect(result.ctrModel?.id).toBe('branded');
+  });
+
+  it('applies SERP feature adjustments only when enabled', () => {
+    const keywords: RankedKeyword[] = [
+      { keyword: 'test', searchVolume: 1000, position: 1, serpFeatures: { featuredSnippet: true } },
+    ];
+
+    expect(calculateSOV(keywords).visibleVolume).toBe(280);
+    const adjusted = calculateSOV(keywords, { applySerpAdjustments: true });
+    expect(adjusted.visibleVolume).toBe(224);
+    expect(adjusted.ctrModel?.serpAdjustments).toBe(true);
+  });
+
+  it('counts Search Console clicks instead of the estimate, capped at volume', () => {
+    const result = calculateSOV([
+      { keyword: 'measured', searchVolume: 1000, position: 1, actualClicks: 350 },
+      { keyword: 'overcounted', searchVolume: 100, position: 5, actualClicks: 150 },
+      { keyword: 'estimated', searchVolume: 1000, position: 1 },
+    ]);
+
+    expect(result.keywordBreakdown.map(k => [k.visibleVolume, k.ctr])).toEqual([[350, 35], [100, 100], [280, 28]]);
+    expect(result.visibleVolume).toBe(730);
+  });
 });
 
 describe('calculateGrowthGap', () => {
@@ -153,3 +205,61 @@ describe('calculateGrowthGap', () => {
     expect(result.gap).toBe(5.3);
   });
 });
+
+describe('calculateVisibilityIndex', () => {
+  const panel: VisibilityPanel = {
+    id: 'test-panel',
+    version: 2,
+    name: 'Test Panel',
+    industry: 'Testing',
+    industryTerms: ['testing'],
+    locationCode: 2276,
+    languageCode: 'de',
+    publishedAt: '2026-10-01',
+    keywords: [
+      { keyword: 'gesichtscreme', weight: 1000 },
+      { keyword: 'sonnencreme', weight: 3000 },
+      { keyword: 'handcreme', weight: 1000 },
+    ],
+  };
+
+  it('scores 100 when every panel keyword ranks #1', () => {
+    const result = calculateVisibilityIndex(panel, panel.keywords.map(k => ({ keyword: k.keyword, position: 1 })));
+    expect(result.index).toBe(100);
+    expect(result).toMatchObject({ panelId: 'test-panel', panelVersion: 2, panelSize: 3, rankingKeywords: 3, topTenKeywords: 3 });
+  });
+
+  it('weights positions by panel weight against the #1 maximum', () => {
+    // (1000 × 0.28 + 3000 × 0.15) / (5000 × 0.28) = 52.14%
+    const result = calculateVisibilityIndex(panel, [
+      { keyword: 'gesichtscreme', position: 1 },
+      { keyword: 'sonnencreme', position: 2 },
+    ]);
+    expect(result.index).toBe(52.14);
+    expect(result.keywords.map(k => k.position)).toEqual([1, 2, null]);
+  });
+
+  it('credits the best position, matches case-insensitively and ignores other keywords', () => {
+    const result = calculateVisibilityIndex(panel, [
+      { keyword: 'Sonnencreme', position: 12 },
+      { keyword: 'sonnencreme', position: 5 },
+      { keyword: 'lavera', position: 1 },
+    ]);
+    expect(result.keywords[1].position).toBe(5);
+    expect(result.rankingKeywords).toBe(1);
+  });
+
+  it('ignores positions beyond the top 100', () => {
+    const result = calculateVisibilityIndex(panel, [
+      { keyword: 'gesichtscreme', position: 101 },
+      { keyword: 'handcreme', position: 15 },
+    ]);
+    expect(result.rankingKeywords).toBe(1);
+    expect(result.topTenKeywords).toBe(0);
+    expect(result.index).toBeGreaterThan(0);
+  });
+
+  it('returns 0 for an empty panel', () => {
+    expect(calculateVisibilityIndex({ ...panel, keywords: [] }, []).index).toBe(0);
+  });
+});
@@ -1,73 +1,8 @@
-import type { BrandKeyword, RankedKeyword, SOSResult, SOVResult, GrowthGapResult } from '../types';
-import { CTR_CURVE, DEFAULT_CTR, GAP_THRESHOLD_HIGH, GAP_THRESHOLD_LOW } from '../config';
+import type { BrandKeyword, RankedKeyword } from '../types';
 
-/**
- * Get click-through rate for a given SERP position
- */
-export function getCTR(position: number): number {
-  if (position <= 0) return 0;
-  if (position > 20) return DEFAULT_CTR;
-  return CTR_CURVE[position] || DEFAULT_CTR;
-}
-
-// Calculate Share of Search
-export function calculateSOS(brandKeywords: BrandKeyword[]): SOSResult {
-  const brandVolume = brandKeywords
-    .filter(k => k.isOwnBrand)
-    .reduce((sum, k) => sum + k.searchVolume, 0);
-
-  const totalBrandVolume = brandKeywords
-    .reduce((sum, k) => sum + k.searchVolume, 0);
-
-  const shareOfSearch = totalBrandVolume > 0
-    ? (brandVolume / totalBrandVolume) * 100
-    : 0;
-
-  return {
-    shareOfSearch: Math.round(shareOfSearch * 10) / 10,
-    brandVolume,
-    totalBrandVolume
-  };
-}
-
-// Calculate Share of Voice
-export function calculateSOV(rankedKeywords: RankedKeyword[]): SOVResult {
-  const keywordBreakdown = rankedKeywords.map(kw => {
-    const ctr = getCTR(kw.position);
-    const visibleVolume = kw.searchVolume * ctr;
-    return {
-      ...kw,
-      ctr: Math.round(ctr * 1000) / 10,
-      visibleVolume: Math.round(visibleVolume)
-    };
-  });
-
-  const visibleVolume = keywordBreakdown.reduce((sum, k) => sum + (k.visibleVolume || 0), 0);
-  const totalMarketVolume = rankedKeywords.reduce((sum, k) => sum + k.searchVolume, 0);
-
-  const shareOfVoice = totalMarketVolume > 0
-    ? (visibleVolume / totalMarketVolume) * 100
-    : 0;
-
-  return {
-    shareOfVoice: Math.round(shareOfVoice * 10) / 10,
-    visibleVolume: Math.round(visibleVolume),
-    totalMarketVolume,
-    keywordBreakdown
-  };
-}
-
-// Calculate Growth Gap
-export function calculateGrowthGap(sos: number, sov: number): GrowthGapResult {
-  const gap = sov - sos;
-  let interpretation: 'growth_potential' | 'missing_opportunities' | 'balanced';
-
-  if (gap > GAP_THRESHOLD_HIGH) interpretation = 'growth_potential';
-  else if (gap < GAP_THRESHOLD_LOW) interpretation = 'missing_opportunities';
-  else interpretation = 'balanced';
-
-  return { gap: Math.round(gap * 10) / 10, interpretation };
-}
+// SOS / SOV / Growth Gap live in shared/ so the API routes run the exact same code
+export { getCTR, calculateSOS, calculateSOV, calculateGrowthGap, calculateVisibilityIndex } from '../../shared/calculations';
+export type { SOVOptions } from '../../shared/calculations';
 
 // Sample test data
 export const SAMPLE_BRAND_KEYWORDS: BrandKeyword[] = [
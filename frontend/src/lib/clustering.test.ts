@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { clusterKeywords } from '../../shared/clustering';
+import type { RankedKeyword } from '../types';
+
+const createKeyword = (overrides: Partial<RankedKeyword> = {}): RankedKeyword => ({
+  keyword: 'naturkosmetik',
+  searchVolume: 1000,
+  position: 5,
+  url: '/naturkosmetik',
+  ...overrides,
+});
+
+describe('clusterKeywords', () => {
+  const keywords = [
+    createKeyword({ keyword: 'naturkosmetik', searchVolume: 10000, position: 4 }),
+    createKeyword({ keyword: 'naturkosmetik gesicht', searchVolume: 2000, position: 2, url: '/gesicht' }),
+    createKeyword({ keyword: 'bio gesichtscreme', searchVolume: 3000, position: 3, url: 'https://lavera.de/gesichtspflege?ref=nav' }),
+    createKeyword({ keyword: 'tagespflege vegan', searchVolume: 1000, position: 8, url: '/gesichtspflege/' }),
+    createKeyword({ keyword: 'bio shampoo', searchVolume: 5000, position: 12, url: '/' }),
+    createKeyword({ keyword: 'haarpflege', searchVolume: 800, position: 1, url: 'https://lavera.de/' }),
+  ];
+
+  it('groups keywords by shared ranking URL and token similarity', () => {
+    const clusters = clusterKeywords(keywords);
+
+    expect(clusters.map(c => [c.pillarKeyword, c.keywords.map(k => k.keyword)])).toEqual([
+      ['naturkosmetik', ['naturkosmetik', 'naturkosmetik gesicht']],
+      ['bio shampoo', ['bio shampoo']],
+      ['bio gesichtscreme', ['bio gesichtscreme', 'tagespflege vegan']],
+      ['haarpflege', ['haarpflege']],
+    ]);
+  });
+
+  it('does not link keywords through the home page', () => {
+    const clusters = clusterKeywords(keywords);
+
+    expect(clusters.find(c => c.pillarKeyword === 'haarpflege')?.keywords).toHaveLength(1);
+  });
+
+  it('computes cluster volume, SOV and best-ranking URL', () => {
+    const [cluster] = clusterKeywords(keywords);
+
+    // 10000 * 0.06 + 2000 * 0.15 = 900 of 12000
+    expect(cluster.totalVolume).toBe(12000);
+    expect(cluster.visibleVolume).toBe(900);
+    expect(cluster.shareOfVoice).toBe(7.5);
+    expect(cluster.bestUrl).toBe('/gesicht');
+    expect(cluster.bestPosition).toBe(2);
+  });
+
+  it('prefers precomputed visible volume when present', () => {
+    const [cluster] = clusterKeywords([createKeyword({ searchVolume: 1000, visibleVolume: 250 })]);
+
+    expect(cluster.visibleVolume).toBe(250);
+    expect(cluster.shareOfVoice).toBe(25);
+  });
+});
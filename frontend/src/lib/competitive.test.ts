@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { buildCompetitiveLandscape } from '../../shared/competitive';
+import type { DomainRankings, RankedKeywordInput } from '../../shared/types';
+
+const createKeyword = (overrides: Partial<RankedKeywordInput> = {}): RankedKeywordInput => ({
+  keyword: 'naturkosmetik',
+  searchVolume: 10000,
+  position: 1,
+  ...overrides,
+});
+
+const createRankings = (overrides: Partial<DomainRankings> = {}): DomainRankings => ({
+  domain: 'lavera.de',
+  label: 'lavera',
+  isYou: true,
+  keywords: [],
+  ...overrides,
+});
+
+describe('buildCompetitiveLandscape', () => {
+  const rankings = [
+    createRankings({
+      keywords: [
+        createKeyword({ keyword: 'naturkosmetik', position: 1 }),
+        createKeyword({ keyword: 'vegane kosmetik', searchVolume: 5000, position: 8 }),
+        createKeyword({ keyword: 'lavera shampoo', searchVolume: 3000, position: 1 }),
+      ],
+    }),
+    createRankings({
+      domain: 'weleda.de',
+      label: 'weleda',
+      isYou: false,
+      keywords: [
+        createKeyword({ keyword: 'Naturkosmetik', position: 3 }),
+        createKeyword({ keyword: 'vegane kosmetik', searchVolume: 5000, position: 2 }),
+        createKeyword({ keyword: 'skin food', searchVolume: 20000, position: 1 }),
+      ],
+    }),
+  ];
+
+  it('builds one universe with every domain position', () => {
+    const landscape = buildCompetitiveLandscape(rankings, { excludeTerms: ['lavera', 'weleda'] });
+
+    expect(landscape.universeSize).toBe(3);
+    expect(landscape.universeVolume).toBe(35000);
+    expect(landscape.matrix.map(r => [r.keyword, r.positions['lavera.de'], r.positions['weleda.de'], r.leader])).toEqual([
+      ['skin food', null, 1, 'weleda.de'],
+      ['naturkosmetik', 1, 3, 'lavera.de'],
+      ['vegane kosmetik', 8, 2, 'weleda.de'],
+    ]);
+  });
+
+  it('computes SOV for every domain over the same denominator', () => {
+    const landscape = buildCompetitiveLandscape(rankings, { excludeTerms: ['lavera', 'weleda'] });
+    const lavera = landscape.domains.find(d => d.domain === 'lavera.de')!;
+    const weleda = landscape.domains.find(d => d.domain === 'weleda.de')!;
+
+    // lavera: 10000 * 0.28 + 5000 * 0.02 = 2900 of 35000
+    expect(lavera.visibleVolume).toBe(2900);
+    expect(lavera.shareOfVoice).toBe(8.3);
+    // weleda: 20000 * 0.28 + 10000 * 0.09 + 5000 * 0.15 = 7250 of 35000
+    expect(weleda.visibleVolume).toBe(7250);
+    expect(weleda.shareOfVoice).toBe(20.7);
+    expect(lavera.shareOfClicks + weleda.shareOfClicks).toBeCloseTo(100, 0);
+    expect(landscape.domains[0].domain).toBe('weleda.de');
+  });
+
+  it('summarizes overlap by the exact set of ranking domains', () => {
+    const landscape = buildCompetitiveLandscape(rankings, { excludeTerms: ['lavera', 'weleda'] });
+
+    expect(landscape.overlap).toEqual([
+      { domains: ['lavera.de', 'weleda.de'], keywords: 2, searchVolume: 15000 },
+      { domains: ['weleda.de'], keywords: 1, searchVolume: 20000 },
+    ]);
+  });
+
+  it('keeps brand keywords unless they are excluded', () => {
+    expect(buildCompetitiveLandscape(rankings).universeSize).toBe(4);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDefaultConversionData,
+  createRevenueModel,
+  getRankingPageValues,
+  getRevenueWeight,
+  parseAnalyticsExport,
+  toPagePath,
+} from './conversions';
+import type { ConversionData, LandingPageConversions, RankedKeyword } from '../types';
+
+const createPage = (overrides: Partial<LandingPageConversions> = {}): LandingPageConversions => ({
+  path: '/naturkosmetik',
+  sessions: 1000,
+  conversions: 40,
+  revenue: 2400,
+  ...overrides,
+});
+
+const createConversionData = (overrides: Partial<ConversionData> = {}): ConversionData => ({
+  ...createDefaultConversionData(),
+  fileName: 'landing-pages.csv',
+  importedAt: '2026-10-01T00:00:00.000Z',
+  pages: [createPage()],
+  ...overrides,
+});
+
+describe('toPagePath', () => {
+  it('strips host, query string and trailing slash', () => {
+    expect(toPagePath('https://www.Lavera.de/Naturkosmetik/?utm_source=x#top')).toBe('/naturkosmetik');
+    expect(toPagePath('naturkosmetik/')).toBe('/naturkosmetik');
+    expect(toPagePath('https://www.lavera.de')).toBe('/');
+  });
+});
+
+describe('parseAnalyticsExport', () => {
+  it('reads a GA4 landing page export, skipping comments and totals', () => {
+    const csv = [
+      '# ----------------------------------------',
+      '# Landing page',
+      'Landing page + query string,Sessions,Key events,Total revenue',
+      ',"12,000",300,"€18,000.00"',
+      '/naturkosmetik?gclid=abc,800,30,1800',
+      '/naturkosmetik/,200,10,600',
+      '(not set),50,0,0',
+    ].join('\n');
+
+    expect(parseAnalyticsExport(csv)).toEqual({
+      success: true,
+      data: [{ path: '/naturkosmetik', sessions: 1000, conversions: 40, revenue: 2400 }],
+    });
+  });
+
+  it('reads semicolon files and exports without revenue', () => {
+    const result = parseAnalyticsExport('Page path;Sessions;Conversions\n/shampoo;1.200;12,5');
+    expect(result.data).toEqual([{ path: '/shampoo', sessions: 1200, conversions: 12.5, revenue: undefined }]);
+  });
+
+  it('reports missing columns and invalid rows', () => {
+    expect(parseAnalyticsExport('page,revenue\n/a,1').error).toBe('Missing columns: sessions, conversions');
+    expect(parseAnalyticsExport('page,sessions,conversions\n/a,many,1').error).toBe('Row 2: sessions must be a number of 0 or more');
+    expect(parseAnalyticsExport('page,sessions,conversions\nTotal,10,1').error).toBe('No pages found');
+  });
+});
+
+describe('createRevenueModel', () => {
+  it('values clicks with the page rates where the page has enough sessions', () => {
+    const model = createRevenueModel(createConversionData({
+      pages: [createPage(), createPage({ path: '/tiny', sessions: 10, conversions: 5, revenue: 500 })],
+    }));
+
+    // 4% conversion × 60 order value
+    expect(model.getRates('https://www.lavera.de/naturkosmetik/')).toEqual({
+      conversionRate: 4, orderValue: 60, revenuePerClick: 2.4, source: 'page',
+    });
+    // Too few sessions and unknown pages use the 2% × 50 defaults
+    expect(model.getRates('/tiny')).toMatchObject({ revenuePerClick: 1, source: 'default' });
+    expect(model.getRates(undefined).source).toBe('default');
+    expect(model.averageRevenuePerClick).toBe(2.4);
+  });
+
+  it('keeps the default order value for pages without revenue', () => {
+    const model = createRevenueModel(createConversionData({ pages: [createPage({ revenue: undefined })] }));
+    expect(model.getRates('/naturkosmetik')).toMatchObject({ orderValue: 50, revenuePerClick: 2 });
+  });
+
+  it('weights pages against the average revenue per click', () => {
+    const model = createRevenueModel(createConversionData({
+      pages: [createPage(), createPage({ path: '/blog', conversions: 0, revenue: 0 })],
+    }));
+
+    expect(model.averageRevenuePerClick).toBe(1.2);
+    expect(getRevenueWeight(model, '/naturkosmetik')).toBe(2);
+    expect(getRevenueWeight(model, '/blog')).toBe(0);
+    expect(getRevenueWeight(createRevenueModel(createConversionData({ pages: [], defaultConversionRate: 0 })), '/a')).toBe(1);
+  });
+});
+
+describe('getRankingPageValues', () => {
+  it('groups ranked keywords by page, most keywords first', () => {
+    const keywords: RankedKeyword[] = [
+      { keyword: 'bio shampoo', searchVolume: 100, position: 3, url: 'https://lavera.de/shampoo' },
+      { keyword: 'naturkosmetik', searchVolume: 100, position: 3, url: 'https://lavera.de/naturkosmetik' },
+      { keyword: 'naturkosmetik marken', searchVolume: 100, position: 5, url: 'https://lavera.de/naturkosmetik/' },
+      { keyword: 'discarded', searchVolume: 100, position: 5, url: 'https://lavera.de/old', isDiscarded: true },
+    ];
+
+    const pages = getRankingPageValues(keywords, createRevenueModel(createConversionData()));
+
+    expect(pages.map(p => [p.path, p.keywordCount, p.rates.source])).toEqual([
+      ['/naturkosmetik', 2, 'page'],
+      ['/shampoo', 1, 'default'],
+    ]);
+  });
+});
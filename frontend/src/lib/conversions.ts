@@ -0,0 +1,203 @@
+import type {
+  ConversionData,
+  LandingPageConversions,
+  PageConversionRates,
+  RankedKeyword,
+  RankingPageValue,
+  RevenueModel
+} from '../types';
+import type { ValidationResult } from '../../shared/validation';
+import { detectSeparator, parseCSVNumber, readCSVLines, splitCSVLine } from './csv';
+
+/**
+ * Analytics conversion import
+ * Values clicks by what they earn on the page that ranks: landing-page sessions,
+ * conversions and revenue from an analytics export give each ranking URL a
+ * revenue per click, so opportunities can be ranked by revenue instead of clicks.
+ * Pages without (enough) data use the project's default conversion rate and order value.
+ */
+
+// Below this many sessions a page's conversion rate is too noisy to use
+export const MIN_PAGE_SESSIONS = 30;
+
+export const DEFAULT_CONVERSION_RATE = 2;
+export const DEFAULT_ORDER_VALUE = 50;
+export const DEFAULT_CURRENCY = 'EUR';
+
+type ExportColumn = 'path' | 'sessions' | 'conversions' | 'revenue';
+
+const HEADER_ALIASES: Record<ExportColumn, string[]> = {
+  path: ['landing page', 'landing page + query string', 'page path', 'page path and screen class', 'page', 'path', 'url'],
+  sessions: ['sessions', 'entrances'],
+  conversions: ['conversions', 'key events', 'transactions', 'ecommerce purchases', 'purchases', 'goal completions'],
+  revenue: ['revenue', 'total revenue', 'purchase revenue', 'transaction revenue', 'ecommerce revenue']
+};
+
+/**
+ * Reduce a URL or path to the form analytics tools report landing pages in:
+ * no host, query string or trailing slash, lowercase
+ */
+export function toPagePath(url: string): string {
+  const path = url.trim().toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '');
+  return path.startsWith('/') ? path : `/${path}`;
+}
+
+// ==========================================
+// IMPORT
+// ==========================================
+
+const validatePage = (page: LandingPageConversions): string | null => {
+  if (!Number.isFinite(page.sessions) || page.sessions < 0) return 'sessions must be a number of 0 or more';
+  if (!Number.isFinite(page.conversions) || page.conversions < 0) return 'conversions must be a number of 0 or more';
+  if (page.revenue !== undefined && (!Number.isFinite(page.revenue) || page.revenue < 0)) {
+    return 'revenue must be a number of 0 or more';
+  }
+  return null;
+};
+
+/**
+ * Parse a landing-page report exported from an analytics tool as CSV.
+ * GA4's comment lines and rows that aren't pages (totals, "(not set)") are skipped,
+ * and rows for the same path (e.g. with different query strings) are summed.
+ */
+export function parseAnalyticsExport(text: string): ValidationResult<LandingPageConversions[]> {
+  const lines = readCSVLines(text).filter(line => !line.startsWith('#'));
+  if (lines.length < 2) return { success: false, error: 'No pages found' };
+
+  const separator = detectSeparator(lines[0]);
+  const header = splitCSVLine(lines[0], separator).map(cell => cell.toLowerCase());
+  const column = (field: ExportColumn) => header.findIndex(cell => HEADER_ALIASES[field].includes(cell));
+
+  const columns = {
+    path: column('path'),
+    sessions: column('sessions'),
+    conversions: column('conversions'),
+    revenue: column('revenue')
+  };
+  const missing = (['path', 'sessions', 'conversions'] as const).filter(field => columns[field] < 0);
+  if (missing.length > 0) return { success: false, error: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` };
+
+  const byPath = new Map<string, LandingPageConversions>();
+  for (const [index, line] of lines.slice(1).entries()) {
+    const cells = splitCSVLine(line, separator);
+    const rawPath = cells[columns.path] ?? '';
+    if (!/^(\/|https?:\/\/)/i.test(rawPath)) continue;
+
+    const page: LandingPageConversions = {
+      path: toPagePath(rawPath),
+      sessions: parseCSVNumber(cells[columns.sessions], separator === ';'),
+      conversions: parseCSVNumber(cells[columns.conversions], separator === ';'),
+      revenue: columns.revenue >= 0 ? parseCSVNumber(cells[columns.revenue] || '0', separator === ';') : undefined
+    };
+    const error = validatePage(page);
+    if (error) return { success: false, error: `Row ${index + 2}: ${error}` };
+
+    const existing = byPath.get(page.path);
+    byPath.set(page.path, existing ? {
+      path: page.path,
+      sessions: existing.sessions + page.sessions,
+      conversions: existing.conversions + page.conversions,
+      revenue: page.revenue === undefined ? undefined : (existing.revenue ?? 0) + page.revenue
+    } : page);
+  }
+
+  if (byPath.size === 0) return { success: false, error: 'No pages found' };
+  return { success: true, data: [...byPath.values()] };
+}
+
+/**
+ * Conversion data with only the project defaults set, as a starting point
+ * before an export is imported
+ */
+export function createDefaultConversionData(): ConversionData {
+  return {
+    fileName: null,
+    importedAt: null,
+    pages: [],
+    defaultConversionRate: DEFAULT_CONVERSION_RATE,
+    defaultOrderValue: DEFAULT_ORDER_VALUE,
+    currency: DEFAULT_CURRENCY
+  };
+}
+
+// ==========================================
+// REVENUE MODEL
+// ==========================================
+
+/**
+ * Build the revenue model that values clicks per ranking URL.
+ * A click is treated like a session: revenue per click = conversion rate × order value.
+ */
+export function createRevenueModel(data: ConversionData): RevenueModel {
+  const defaultRates: PageConversionRates = {
+    conversionRate: data.defaultConversionRate,
+    orderValue: data.defaultOrderValue,
+    revenuePerClick: (data.defaultConversionRate / 100) * data.defaultOrderValue,
+    source: 'default'
+  };
+
+  const ratesByPath = new Map<string, PageConversionRates>();
+  let totalSessions = 0;
+  let totalRevenue = 0;
+  for (const page of data.pages) {
+    if (page.sessions < MIN_PAGE_SESSIONS) continue;
+
+    // Without a revenue column (or conversions to divide it by) the page keeps the default order value
+    const orderValue = page.revenue !== undefined && page.conversions > 0
+      ? page.revenue / page.conversions
+      : data.defaultOrderValue;
+    const revenuePerClick = (page.conversions * orderValue) / page.sessions;
+
+    ratesByPath.set(page.path, {
+      conversionRate: (page.conversions / page.sessions) * 100,
+      orderValue,
+      revenuePerClick,
+      source: 'page'
+    });
+    totalSessions += page.sessions;
+    totalRevenue += revenuePerClick * page.sessions;
+  }
+
+  return {
+    getRates: (url?: string) => (url && ratesByPath.get(toPagePath(url))) || defaultRates,
+    averageRevenuePerClick: totalSessions > 0 ? totalRevenue / totalSessions : defaultRates.revenuePerClick
+  };
+}
+
+/**
+ * How much a click on this URL is worth relative to the average click.
+ * Scaling clicks by it keeps revenue-based priorities on the same scale as click-based ones.
+ */
+export function getRevenueWeight(model: RevenueModel, url?: string): number {
+  if (model.averageRevenuePerClick <= 0) return 1;
+  return model.getRates(url).revenuePerClick / model.averageRevenuePerClick;
+}
+
+/**
+ * Pages the ranked keywords point to, with the rates their clicks are valued at,
+ * most-used pages first
+ */
+export function getRankingPageValues(keywords: RankedKeyword[], model: RevenueModel): RankingPageValue[] {
+  const counts = new Map<string, number>();
+  for (const kw of keywords) {
+    if (kw.isDiscarded || !kw.url) continue;
+    const path = toPagePath(kw.url);
+    counts.set(path, (counts.get(path) || 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .map(([path, keywordCount]) => ({ path, keywordCount, rates: model.getRates(path) }))
+    .sort((a, b) => b.keywordCount - a.keywordCount || a.path.localeCompare(b.path));
+}
+
+// Whole currency units; falls back to the plain code if the browser doesn't know it
+export function formatRevenue(value: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+  } catch {
+    return `${Math.round(value).toLocaleString()} ${currency}`;
+  }
+}
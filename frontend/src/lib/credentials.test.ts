@@ -0,0 +1,212 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  assertPublicWebhookUrl,
+  authorizeCredentialChange,
+  authorizeWorkspace,
+  decryptSecret,
+  deriveKey,
+  describeSecret,
+  encryptSecret,
+  getWorkspaceId,
+  getWorkspaceToken,
+  isPrivateAddress,
+  resolveSecret,
+  validateCredentialProvider,
+  validateCredentialSecret,
+} from '../../shared/credentials';
+
+describe('encryptSecret / decryptSecret', () => {
+  const key = deriveKey('test master key');
+  const secret = { login: 'seo@example.com', password: 'hunter2-password' };
+
+  it('round-trips a secret without storing it in plain text', () => {
+    const encrypted = encryptSecret(secret, key);
+
+    expect(encrypted.ciphertext).not.toContain('hunter2');
+    expect(decryptSecret(encrypted, key)).toEqual(secret);
+  });
+
+  it('uses a fresh IV for every encryption', () => {
+    expect(encryptSecret(secret, key).iv).not.toBe(encryptSecret(secret, key).iv);
+  });
+
+  it('rejects the wrong master key and tampered ciphertext', () => {
+    const encrypted = encryptSecret(secret, key);
+    const tampered = Buffer.from(encrypted.ciphertext, 'base64');
+    tampered[0] ^= 1;
+
+    expect(() => decryptSecret(encrypted, deriveKey('another key'))).toThrow();
+    expect(() => decryptSecret({ ...encrypted, ciphertext: tampered.toString('base64') }, key)).toThrow();
+  });
+});
+
+describe('validateCredentialSecret', () => {
+  it('trims DataForSEO logins and requires both fields', () => {
+    expect(validateCredentialSecret('dataforseo', { login: ' seo@example.com ', password: 'pw' }).data)
+      .toEqual({ login: 'seo@example.com', password: 'pw' });
+    expect(validateCredentialSecret('dataforseo', { login: 'seo@example.com' }).error).toBe('Password is required');
+  });
+
+  it('dedupes YouTube keys and rejects empty ones', () => {
+    expect(validateCredentialSecret('youtube', { apiKeys: ['AIza-1', 'AIza-2', 'AIza-1'] }).data)
+      .toEqual({ apiKeys: ['AIza-1', 'AIza-2'] });
+    expect(validateCredentialSecret('youtube', { apiKeys: [] }).success).toBe(false);
+    expect(validateCredentialSecret('youtube', { apiKeys: ['AIza-1', ' '] }).error).toBe('API key 2 is required');
+  });
+
+  it('requires an https webhook URL outside private networks', () => {
+    expect(validateCredentialSecret('webhook', { url: 'https://hooks.example.com/T1', signingSecret: '' }).data)
+      .toEqual({ url: 'https://hooks.example.com/T1' });
+    expect(validateCredentialSecret('webhook', { url: 'http://hooks.example.com/T1' }).error).toBe('Webhook URL must use https');
+    expect(validateCredentialSecret('webhook', { url: 'https://169.254.169.254/latest' }).error)
+      .toBe('Webhook URL must not point to a private address');
+    expect(validateCredentialSecret('webhook', { url: 'https://[::1]/hook' }).error)
+      .toBe('Webhook URL must not point to a private address');
+  });
+
+  it('splits SMTP recipients and checks addresses', () => {
+    expect(validateCredentialSecret('smtp', { host: 'localhost', port: '2525', from: 'alerts@example.com', to: 'a@example.com, b@example.com' }).data)
+      .toEqual({ host: 'localhost', port: 2525, secure: false, from: 'alerts@example.com', to: ['a@example.com', 'b@example.com'] });
+    expect(validateCredentialSecret('smtp', { host: 'localhost', port: 25, from: 'alerts@example.com', to: ['nobody'] }).error)
+      .toBe('Not an email address: nobody');
+    expect(validateCredentialSecret('smtp', { host: 'localhost', port: 25, username: 'u', from: 'a@example.com', to: ['b@example.com'] }).error)
+      .toBe('Username and password go together');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(validateCredentialProvider('anthropic').success).toBe(true);
+    expect(validateCredentialProvider('openai').success).toBe(false);
+  });
+});
+
+describe('describeSecret', () => {
+  it('only reveals the last four characters of keys', () => {
+    expect(describeSecret('anthropic', { apiKey: 'sk-ant-secret-abcd' })).toBe('••••abcd');
+    expect(describeSecret('youtube', { apiKeys: ['AIza-key-1111', 'AIza-key-2222'] })).toBe('2 keys (••••1111, ••••2222)');
+  });
+
+  it('shows the webhook host but not its path', () => {
+    expect(describeSecret('webhook', { url: 'https://hooks.example.com/services/T1/secret' })).toBe('hooks.example.com');
+  });
+});
+
+describe('getWorkspaceId', () => {
+  it('reads the X-Workspace-Id header and falls back to the default workspace', () => {
+    expect(getWorkspaceId({ headers: { 'x-workspace-id': 'Agency-EU' } })).toBe('agency-eu');
+    expect(getWorkspaceId({ headers: { 'x-workspace-id': '../etc' } })).toBe('default');
+    expect(getWorkspaceId({ headers: {} })).toBe('default');
+  });
+});
+
+describe('isPrivateAddress / assertPublicWebhookUrl', () => {
+  it('flags loopback, private, link-local, CGNAT and ULA addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it('rejects plain http and hosts that are private addresses', async () => {
+    await expect(assertPublicWebhookUrl('http://93.184.216.34/hook')).rejects.toThrow('Webhook URL must use https');
+    await expect(assertPublicWebhookUrl('https://127.0.0.1/hook')).rejects.toThrow('Webhook URL must not point to a private address');
+    await expect(assertPublicWebhookUrl('https://localhost/hook')).rejects.toThrow('Webhook URL must not point to a private address');
+    await expect(assertPublicWebhookUrl('https://93.184.216.34/hook')).resolves.toBeUndefined();
+  });
+});
+
+describe('authorizeCredentialChange', () => {
+  const savedEnv = { ...process.env };
+  const withToken = (token?: string) => ({ headers: token ? { authorization: `Bearer ${token}` } : {} });
+
+  beforeEach(() => {
+    process.env.CREDENTIALS_ADMIN_TOKEN = 'admin-secret';
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  it('accepts the admin token for every workspace', () => {
+    expect(authorizeCredentialChange(withToken('admin-secret'), 'default')).toEqual({ access: 'admin' });
+    expect(authorizeCredentialChange(withToken('admin-secret'), 'agency-eu')).toEqual({ access: 'admin' });
+  });
+
+  it('accepts a workspace token for its own workspace but never for default', () => {
+    const token = getWorkspaceToken('agency-eu', 'admin-secret');
+
+    expect(authorizeCredentialChange(withToken(token), 'agency-eu')).toEqual({ access: 'workspace' });
+    expect(authorizeCredentialChange(withToken(token), 'agency-us')).toMatchObject({ status: 403 });
+    expect(authorizeCredentialChange(withToken(getWorkspaceToken('default', 'admin-secret')), 'default')).toEqual({
+      status: 403,
+      error: 'Only the admin token can change the default workspace',
+    });
+  });
+
+  it('refuses requests without a token, and everything without an admin token configured', () => {
+    expect(authorizeCredentialChange(withToken(), 'agency-eu')).toMatchObject({ status: 401 });
+    expect(authorizeCredentialChange(withToken('guess'), 'agency-eu')).toMatchObject({ status: 403 });
+
+    delete process.env.CREDENTIALS_ADMIN_TOKEN;
+    expect(authorizeCredentialChange(withToken('admin-secret'), 'default')).toMatchObject({ status: 503 });
+  });
+});
+
+describe('authorizeWorkspace', () => {
+  const savedEnv = { ...process.env };
+  const request = (workspaceId?: string, token?: string) => ({
+    headers: {
+      ...(workspaceId ? { 'x-workspace-id': workspaceId } : {}),
+      ...(token ? { authorization: `Bearer ${token}` } : {}),
+    },
+  });
+
+  beforeEach(() => {
+    process.env.CREDENTIALS_ADMIN_TOKEN = 'admin-secret';
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  it('leaves the default workspace open', () => {
+    expect(authorizeWorkspace(request())).toEqual({ workspaceId: 'default' });
+    delete process.env.CREDENTIALS_ADMIN_TOKEN;
+    expect(authorizeWorkspace(request('default'))).toEqual({ workspaceId: 'default' });
+  });
+
+  it('needs the workspace token or the admin token for any other workspace', () => {
+    const token = getWorkspaceToken('agency-eu', 'admin-secret');
+
+    expect(authorizeWorkspace(request('agency-eu', token))).toEqual({ workspaceId: 'agency-eu' });
+    expect(authorizeWorkspace(request('agency-eu', 'admin-secret'))).toEqual({ workspaceId: 'agency-eu' });
+    expect(authorizeWorkspace(request('agency-eu'))).toMatchObject({ status: 401 });
+    expect(authorizeWorkspace(request('agency-us', token))).toMatchObject({ status: 403 });
+
+    delete process.env.CREDENTIALS_ADMIN_TOKEN;
+    expect(authorizeWorkspace(request('agency-eu', token))).toMatchObject({ status: 503 });
+  });
+});
+
+describe('resolveSecret', () => {
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.DATABASE_URL;
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-from-env';
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  it('falls back to environment credentials for the default workspace only', async () => {
+    expect(await resolveSecret('default', 'anthropic')).toEqual({
+      secret: { apiKey: 'sk-ant-from-env' },
+      source: 'environment',
+    });
+    expect(await resolveSecret('agency-eu', 'anthropic')).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Helpers for reading the CSV exports users upload (Search Console, analytics).
+ * Exports from localized tools use semicolons and decimal commas, so the
+ * separator is detected from the header line.
+ */
+
+// File contents as text; Excel-friendly exports (e.g. Ahrefs) are UTF-16 with a byte order mark
+export const decodeCSVFile = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  return new TextDecoder('utf-8').decode(bytes);
+};
+
+// Non-empty lines of a file, without a leading byte order mark
+export const readCSVLines = (text: string): string[] =>
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+
+export const detectSeparator = (headerLine: string): string =>
+  headerLine.includes('\t') ? '\t' : headerLine.includes(';') ? ';' : ',';
+
+// Split one CSV line, keeping separators inside quoted cells
+export const splitCSVLine = (line: string, separator: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === separator && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+// "1,234" reads as 1234 and "4,5" in a semicolon file as 4.5; units such as % or € are ignored
+export const parseCSVNumber = (value: unknown, decimalComma: boolean): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return NaN;
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!cleaned) return NaN;
+  return Number(decimalComma ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, ''));
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILTIN_CTR_MODELS,
+  DEFAULT_CTR_MODEL,
+  getCTRModel,
+  getSerpFeatureMultiplier,
+  parseCustomCTRModel,
+} from './ctrModels';
+import type { CTRModel } from '../types';
+
+const createModel = (overrides: Partial<CTRModel> = {}): CTRModel => ({
+  id: 'custom-test',
+  name: 'Test',
+  curve: { 1: 0.4 },
+  defaultCTR: 0,
+  source: 'custom',
+  ...overrides,
+});
+
+describe('getCTRModel', () => {
+  it('returns the desktop model by default', () => {
+    expect(getCTRModel(undefined).id).toBe('desktop');
+    expect(DEFAULT_CTR_MODEL.curve[1]).toBe(0.28);
+  });
+
+  it('finds built-in and custom models', () => {
+    expect(getCTRModel('mobile').id).toBe('mobile');
+    expect(getCTRModel('custom-test', [createModel()]).curve[1]).toBe(0.4);
+  });
+
+  it('falls back to the default for unknown IDs', () => {
+    expect(getCTRModel('missing').id).toBe('desktop');
+  });
+
+  it('keeps the curve trends used before CTR models', () => {
+    const legacy = getCTRModel('trends-legacy');
+    expect(legacy.curve[3]).toBe(0.11);
+    expect(legacy.curve[10]).toBe(0.025);
+    expect(legacy.defaultCTR).toBe(0);
+  });
+
+  it('has unique IDs for all built-in models', () => {
+    const ids = BUILTIN_CTR_MODELS.map(m => m.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('getSerpFeatureMultiplier', () => {
+  it('returns 1 without SERP features', () => {
+    expect(getSerpFeatureMultiplier()).toBe(1);
+    expect(getSerpFeatureMultiplier({})).toBe(1);
+  });
+
+  it('multiplies adjustments for every feature present', () => {
+    expect(getSerpFeatureMultiplier({ ads: true })).toBe(0.85);
+    expect(getSerpFeatureMultiplier({ ads: true, featuredSnippet: true, localPack: true })).toBeCloseTo(0.85 * 0.8 * 0.7);
+  });
+});
+
+describe('parseCustomCTRModel', () => {
+  it('parses a fractional curve', () => {
+    const result = parseCustomCTRModel(JSON.stringify({ name: 'My Curve', curve: { 1: 0.3, 2: 0.2 }, defaultCTR: 0.001 }));
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      id: 'custom-my-curve',
+      name: 'My Curve',
+      curve: { 1: 0.3, 2: 0.2 },
+      defaultCTR: 0.001,
+      source: 'custom',
+    });
+  });
+
+  it('converts percentage curves to fractions', () => {
+    const result = parseCustomCTRModel(JSON.stringify({ name: 'Percent', curve: { 1: 30, 2: 15 }, defaultCTR: 0.5 }));
+
+    expect(result.data?.curve).toEqual({ 1: 0.3, 2: 0.15 });
+    expect(result.data?.defaultCTR).toBe(0.005);
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(parseCustomCTRModel('not json').error).toBe('File is not valid JSON');
+  });
+
+  it('rejects missing name or curve', () => {
+    expect(parseCustomCTRModel(JSON.stringify({ curve: { 1: 0.3 } })).success).toBe(false);
+    expect(parseCustomCTRModel(JSON.stringify({ name: 'x' })).success).toBe(false);
+    expect(parseCustomCTRModel(JSON.stringify({ name: 'x', curve: {} })).success).toBe(false);
+  });
+
+  it('rejects out-of-range positions and CTR values', () => {
+    expect(parseCustomCTRModel(JSON.stringify({ name: 'x', curve: { 0: 0.3 } })).success).toBe(false);
+    expect(parseCustomCTRModel(JSON.stringify({ name: 'x', curve: { 101: 0.3 } })).success).toBe(false);
+    expect(parseCustomCTRModel(JSON.stringify({ name: 'x', curve: { 1: 150 } })).success).toBe(false);
+    expect(parseCustomCTRModel(JSON.stringify({ name: 'x', curve: { 1: 'high' } })).success).toBe(false);
+  });
+});
@@ -0,0 +1,196 @@
+import type { CTRModel } from '../types';
+import { DEFAULT_CTR_MODEL_ID } from '../config';
+import { DESKTOP_CTR_MODEL } from '../../shared/calculations';
+import { MAX_CURVE_POSITION } from '../../shared/validation';
+import type { ValidationResult } from '../../shared/validation';
+
+export { getSerpFeatureMultiplier, toCTRModelUsage } from '../../shared/calculations';
+
+// ==========================================
+// BUILT-IN CTR MODELS
+// ==========================================
+
+export const BUILTIN_CTR_MODELS: CTRModel[] = [
+  {
+    ...DESKTOP_CTR_MODEL,
+    description: 'Blended desktop organic CTR from Backlinko, Sistrix and AWR studies',
+    source: 'builtin'
+  },
+  {
+    id: 'mobile',
+    name: 'Mobile',
+    description: 'Mobile SERPs: fewer results above the fold, steeper drop after position 3',
+    curve: {
+      1: 0.25, 2: 0.13, 3: 0.08, 4: 0.05, 5: 0.035,
+      6: 0.025, 7: 0.02, 8: 0.016, 9: 0.013, 10: 0.011,
+      11: 0.008, 12: 0.007, 13: 0.006, 14: 0.005, 15: 0.004,
+      16: 0.003, 17: 0.003, 18: 0.002, 19: 0.002, 20: 0.001
+    },
+    defaultCTR: 0.0005,
+    source: 'builtin'
+  },
+  {
+    id: 'branded',
+    name: 'Branded queries',
+    description: 'Navigational brand searches where position 1 takes most of the clicks',
+    curve: {
+      1: 0.5, 2: 0.14, 3: 0.07, 4: 0.045, 5: 0.03,
+      6: 0.022, 7: 0.017, 8: 0.014, 9: 0.012, 10: 0.01,
+      11: 0.007, 12: 0.006, 13: 0.005, 14: 0.004, 15: 0.004,
+      16: 0.003, 17: 0.003, 18: 0.002, 19: 0.002, 20: 0.001
+    },
+    defaultCTR: 0.0005,
+    source: 'builtin'
+  },
+  {
+    id: 'non-branded',
+    name: 'Non-branded queries',
+    description: 'Generic searches with clicks spread more evenly across page one',
+    curve: {
+      1: 0.22, 2: 0.13, 3: 0.09, 4: 0.065, 5: 0.05,
+      6: 0.038, 7: 0.03, 8: 0.024, 9: 0.02, 10: 0.017,
+      11: 0.013, 12: 0.011, 13: 0.01, 14: 0.009, 15: 0.008,
+      16: 0.007, 17: 0.006, 18: 0.005, 19: 0.004, 20: 0.003
+    },
+    defaultCTR: 0.001,
+    source: 'builtin'
+  },
+  {
+    id: 'industry-ecommerce',
+    name: 'Industry: E-commerce',
+    description: 'Product searches with shopping units competing for attention',
+    curve: {
+      1: 0.24, 2: 0.13, 3: 0.085, 4: 0.06, 5: 0.043,
+      6: 0.032, 7: 0.025, 8: 0.02, 9: 0.017, 10: 0.014,
+      11: 0.011, 12: 0.009, 13: 0.008, 14: 0.007, 15: 0.006,
+      16: 0.005, 17: 0.004, 18: 0.003, 19: 0.003, 20: 0.002
+    },
+    defaultCTR: 0.001,
+    source: 'builtin'
+  },
+  {
+    id: 'industry-finance',
+    name: 'Industry: Finance & Insurance',
+    description: 'High-trust queries where users compare several top results',
+    curve: {
+      1: 0.3, 2: 0.17, 3: 0.1, 4: 0.065, 5: 0.045,
+      6: 0.033, 7: 0.026, 8: 0.021, 9: 0.018, 10: 0.015,
+      11: 0.012, 12: 0.01, 13: 0.009, 14: 0.008, 15: 0.007,
+      16: 0.006, 17: 0.005, 18: 0.004, 19: 0.003, 20: 0.002
+    },
+    defaultCTR: 0.001,
+    source: 'builtin'
+  },
+  {
+    id: 'industry-local',
+    name: 'Industry: Local services',
+    description: 'Service-area queries where organic results sit below maps',
+    curve: {
+      1: 0.18, 2: 0.1, 3: 0.07, 4: 0.05, 5: 0.038,
+      6: 0.028, 7: 0.022, 8: 0.018, 9: 0.015, 10: 0.012,
+      11: 0.009, 12: 0.008, 13: 0.007, 14: 0.006, 15: 0.005,
+      16: 0.004, 17: 0.003, 18: 0.003, 19: 0.002, 20: 0.002
+    },
+    defaultCTR: 0.0005,
+    source: 'builtin'
+  },
+  {
+    id: 'trends-legacy',
+    name: 'Legacy trends curve',
+    description: 'The curve historical trends used before CTR models; reproduces earlier trend SOV',
+    curve: {
+      1: 0.28, 2: 0.15, 3: 0.11, 4: 0.08, 5: 0.07,
+      6: 0.05, 7: 0.04, 8: 0.035, 9: 0.03, 10: 0.025,
+      11: 0.02, 12: 0.018, 13: 0.015, 14: 0.013, 15: 0.01,
+      16: 0.008, 17: 0.006, 18: 0.005, 19: 0.003, 20: 0.002
+    },
+    defaultCTR: 0,
+    source: 'builtin'
+  }
+];
+
+export const DEFAULT_CTR_MODEL: CTRModel =
+  BUILTIN_CTR_MODELS.find(m => m.id === DEFAULT_CTR_MODEL_ID) || BUILTIN_CTR_MODELS[0];
+
+/**
+ * Look up a CTR model by ID across built-in and custom models
+ * Falls back to the default desktop curve for unknown IDs
+ */
+export function getCTRModel(id: string | undefined, customModels: CTRModel[] = []): CTRModel {
+  if (!id) return DEFAULT_CTR_MODEL;
+  return (
+    customModels.find(m => m.id === id) ||
+    BUILTIN_CTR_MODELS.find(m => m.id === id) ||
+    DEFAULT_CTR_MODEL
+  );
+}
+
+// ==========================================
+// CUSTOM CURVE IMPORT
+// ==========================================
+
+/**
+ * Parse an uploaded JSON CTR curve
+ * Accepts { name, curve: { "1": 0.3, ... }, defaultCTR? } where CTR values are
+ * fractions (0.3) or percentages (30).
+ */
+export function parseCustomCTRModel(json: string): ValidationResult<CTRModel> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { success: false, error: 'File is not valid JSON' };
+  }
+
+  if (typeof raw !== 'object' || raw === null) return { success: false, error: 'CTR model must be a JSON object' };
+  const input = raw as { name?: unknown; description?: unknown; curve?: unknown; defaultCTR?: unknown };
+
+  if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+    return { success: false, error: 'CTR model needs a name' };
+  }
+  if (typeof input.curve !== 'object' || input.curve === null || Array.isArray(input.curve)) {
+    return { success: false, error: 'CTR model needs a "curve" object mapping positions to CTR' };
+  }
+
+  const entries = Object.entries(input.curve as Record<string, unknown>);
+  if (entries.length === 0) return { success: false, error: 'Curve must contain at least one position' };
+
+  // Percent-style curves (28 instead of 0.28) are common in exported spreadsheets
+  const isPercent = entries.some(([, v]) => typeof v === 'number' && v > 1);
+  const divisor = isPercent ? 100 : 1;
+
+  const curve: Record<number, number> = {};
+  for (const [key, value] of entries) {
+    const position = Number(key);
+    if (!Number.isInteger(position) || position < 1 || position > MAX_CURVE_POSITION) {
+      return { success: false, error: `Invalid position "${key}" (must be 1-${MAX_CURVE_POSITION})` };
+    }
+    if (typeof value !== 'number' || value < 0 || value / divisor > 1) {
+      return { success: false, error: `Invalid CTR for position ${key}` };
+    }
+    curve[position] = value / divisor;
+  }
+
+  let defaultCTR = 0;
+  if (input.defaultCTR !== undefined) {
+    if (typeof input.defaultCTR !== 'number' || input.defaultCTR < 0 || input.defaultCTR / divisor > 1) {
+      return { success: false, error: 'Invalid defaultCTR' };
+    }
+    defaultCTR = input.defaultCTR / divisor;
+  }
+
+  const name = input.name.trim();
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+  return {
+    success: true,
+    data: {
+      id: `custom-${slug || 'curve'}`,
+      name,
+      description: typeof input.description === 'string' ? input.description : undefined,
+      curve,
+      defaultCTR,
+      source: 'custom'
+    }
+  };
+}
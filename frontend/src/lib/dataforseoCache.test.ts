@@ -0,0 +1,178 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  getCacheTTLSeconds,
+  createRequestFingerprint,
+  createFileBackend,
+  createDataForSEOClient,
+  summarizeCosts,
+} from '../../shared/dataforseo';
+import type { CostEntry } from '../../shared/dataforseo';
+import { mergeCacheInfo } from '../../shared/cache';
+import type { CacheInfo } from '../types';
+
+const createCacheInfo = (overrides: Partial<CacheInfo> = {}): CacheInfo => ({
+  hit: true,
+  fetchedAt: '2026-03-04T00:00:00.000Z',
+  ageSeconds: 0,
+  cost: 0,
+  savedCost: 0.01,
+  ...overrides,
+});
+
+const createCostEntry = (overrides: Partial<CostEntry> = {}): CostEntry => ({
+  workspaceId: 'default',
+  domain: 'example.com',
+  locationCode: 2840,
+  endpoint: 'dataforseo_labs/google/ranked_keywords/live',
+  cost: 0.01,
+  savedCost: 0,
+  cacheHit: false,
+  createdAt: '2026-03-04T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('getCacheTTLSeconds', () => {
+  it('caches search volumes for a week', () => {
+    expect(getCacheTTLSeconds('keywords_data/google_ads/search_volume/live')).toBe(7 * 24 * 3600);
+  });
+
+  it('caches SERP endpoints for 12 hours', () => {
+    expect(getCacheTTLSeconds('serp/google/maps/live/advanced')).toBe(12 * 3600);
+    expect(getCacheTTLSeconds('serp/youtube/organic/live/advanced')).toBe(12 * 3600);
+  });
+
+  it('falls back to one day for unknown endpoints', () => {
+    expect(getCacheTTLSeconds('some/other/endpoint')).toBe(24 * 3600);
+  });
+});
+
+describe('createRequestFingerprint', () => {
+  it('ignores object key order', () => {
+    const a = createRequestFingerprint('x', [{ target: 'example.com', limit: 100 }]);
+    const b = createRequestFingerprint('x', [{ limit: 100, target: 'example.com' }]);
+    expect(a).toBe(b);
+  });
+
+  it('differs by endpoint and payload', () => {
+    const base = createRequestFingerprint('x', [{ target: 'example.com' }]);
+    expect(createRequestFingerprint('y', [{ target: 'example.com' }])).not.toBe(base);
+    expect(createRequestFingerprint('x', [{ target: 'other.com' }])).not.toBe(base);
+  });
+
+  it('keeps mock and live responses apart', () => {
+    const live = createRequestFingerprint('x', [{ target: 'example.com' }], 'https://api.dataforseo.com/v3');
+    const mock = createRequestFingerprint('x', [{ target: 'example.com' }], 'http://localhost:4010/dataforseo/v3');
+    expect(mock).not.toBe(live);
+  });
+});
+
+describe('mergeCacheInfo', () => {
+  it('returns null when no upstream calls were made', () => {
+    expect(mergeCacheInfo([])).toBeNull();
+  });
+
+  it('is a hit only when every call was served from cache', () => {
+    const now = new Date('2026-03-04T03:00:00.000Z').getTime();
+    const merged = mergeCacheInfo([
+      createCacheInfo(),
+      createCacheInfo({ hit: false, fetchedAt: '2026-03-04T03:00:00.000Z', cost: 0.02, savedCost: 0 }),
+    ], now);
+
+    expect(merged).toEqual({
+      hit: false,
+      fetchedAt: '2026-03-04T00:00:00.000Z',
+      ageSeconds: 3 * 3600,
+      cost: 0.02,
+      savedCost: 0.01,
+    });
+  });
+});
+
+describe('summarizeCosts', () => {
+  it('totals spend and savings per endpoint', () => {
+    const summary = summarizeCosts('example.com', 2840, [
+      createCostEntry({ cost: 0.01 }),
+      createCostEntry({ cost: 0, savedCost: 0.01, cacheHit: true }),
+      createCostEntry({ endpoint: 'keywords_data/google_ads/search_volume/live', cost: 0.05 }),
+    ]);
+
+    expect(summary.totalCost).toBe(0.06);
+    expect(summary.savedCost).toBe(0.01);
+    expect(summary.calls).toBe(3);
+    expect(summary.cacheHits).toBe(1);
+    expect(summary.byEndpoint[0]).toEqual({
+      endpoint: 'keywords_data/google_ads/search_volume/live',
+      cost: 0.05,
+      calls: 1,
+      cacheHits: 0,
+    });
+  });
+});
+
+describe('createDataForSEOClient', () => {
+  let dir: string;
+  let fetchCalls: number;
+
+  const fetchImpl = (async () => {
+    fetchCalls++;
+    return new Response(JSON.stringify({ cost: 0.02, tasks: [{ status_code: 20000, result: [{ items: [] }] }] }));
+  }) as typeof fetch;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dataforseo-test-'));
+    fetchCalls = 0;
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('serves repeated requests from cache and records the savings', async () => {
+    const backend = createFileBackend(dir);
+    const project = { workspaceId: 'default', domain: 'https://www.Example.com/', locationCode: 2840 };
+    const payload = [{ target: 'example.com' }];
+
+    const first = createDataForSEOClient({ auth: 'x', project, backend, fetchImpl });
+    await first.post('dataforseo_labs/google/ranked_keywords/live', payload);
+    expect(first.getCacheInfo()).toMatchObject({ hit: false, cost: 0.02 });
+
+    const second = createDataForSEOClient({ auth: 'x', project, backend, fetchImpl });
+    await second.post('dataforseo_labs/google/ranked_keywords/live', payload);
+    expect(second.getCacheInfo()).toMatchObject({ hit: true, cost: 0, savedCost: 0.02 });
+    expect(fetchCalls).toBe(1);
+
+    const summary = summarizeCosts('example.com', 2840, await backend.getCostEntries('default', 'example.com', 2840));
+    expect(summary).toMatchObject({ totalCost: 0.02, savedCost: 0.02, calls: 2, cacheHits: 1 });
+    expect(await backend.getCostEntries('acme', 'example.com', 2840)).toEqual([]);
+  });
+
+  it('bypasses the cache on force refresh', async () => {
+    const backend = createFileBackend(dir);
+    const payload = [{ target: 'example.com' }];
+
+    await createDataForSEOClient({ auth: 'x', backend, fetchImpl }).post('serp/youtube/organic/live/advanced', payload);
+    const refreshed = createDataForSEOClient({ auth: 'x', backend, fetchImpl, forceRefresh: true });
+    await refreshed.post('serp/youtube/organic/live/advanced', payload);
+
+    expect(fetchCalls).toBe(2);
+    expect(refreshed.getCacheInfo()?.hit).toBe(false);
+  });
+
+  it('does not cache failed tasks', async () => {
+    const backend = createFileBackend(dir);
+    const failingFetch = (async () => {
+      fetchCalls++;
+      return new Response(JSON.stringify({ cost: 0, tasks: [{ status_code: 40501 }] }));
+    }) as typeof fetch;
+
+    const client = createDataForSEOClient({ auth: 'x', backend, fetchImpl: failingFetch });
+    await client.post('serp/google/maps/live/advanced', [{ keyword: 'tyres' }]);
+    await client.post('serp/google/maps/live/advanced', [{ keyword: 'tyres' }]);
+
+    expect(fetchCalls).toBe(2);
+  });
+});
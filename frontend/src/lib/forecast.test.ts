@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { findOvertakes, forecastSOS, forecastVolumes } from '../../shared/forecast';
+import type { BrandSOSForecast, BrandVolumeSeries, SeasonalSOSResult } from '../types';
+
+// Winter tyre style season: high from October to March, low in summer
+const WINTER_SEASON = [2, 2, 1, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 1, 2, 2];
+const monthsOf = (length: number) => Array.from({ length }, (_, i) => (i % 12) + 1);
+
+// Monthly history starting January 2023, totals taken from the brand volumes
+const createSeasonalSOS = (brands: BrandVolumeSeries[]): SeasonalSOSResult => ({
+  points: brands[0].volumes.map((_, t) => {
+    const total = brands.reduce((sum, b) => sum + b.volumes[t], 0);
+    return {
+      period: `${2023 + Math.floor(t / 12)}-${String((t % 12) + 1).padStart(2, '0')}`,
+      brandVolume: brands[0].volumes[t],
+      totalVolume: total,
+      sos: Math.round((brands[0].volumes[t] / total) * 1000) / 10,
+      rolling3: null,
+      rolling12: null,
+      seasonallyAdjusted: null,
+    };
+  }),
+  brands,
+  seasonality: 'none',
+  latest: {},
+});
+
+const createBrandForecast = (overrides: Partial<BrandSOSForecast> = {}): BrandSOSForecast => ({
+  brand: 'lavera',
+  isOwnBrand: true,
+  history: [{ period: '2024-12', sos: 50 }],
+  forecast: [
+    { period: '2025-01', sos: 48, lower: 44, upper: 52 },
+    { period: '2025-02', sos: 46, lower: 41, upper: 51 },
+  ],
+  ...overrides,
+});
+
+describe('forecastVolumes', () => {
+  it('carries the seasonal pattern forward with two years of history', () => {
+    const values = Array.from({ length: 24 }, (_, i) => 1000 * WINTER_SEASON[i % 12]);
+    const result = forecastVolumes(values, monthsOf(24), 12)!;
+
+    expect(result.method).toBe('holt-winters');
+    expect(result.forecast[0]).toBeCloseTo(2000, -1); // January
+    expect(result.forecast[6]).toBeCloseTo(500, -1); // July
+  });
+
+  it('widens the band with the horizon and needs six months of history', () => {
+    const values = [100, 120, 90, 110, 105, 95, 115, 100, 98, 112];
+    const result = forecastVolumes(values, monthsOf(10), 6)!;
+
+    expect(result.method).toBe('holt');
+    expect(result.upper[5] - result.lower[5]).toBeGreaterThan(result.upper[0] - result.lower[0]);
+    result.forecast.forEach((point, h) => {
+      expect(result.lower[h]).toBeLessThanOrEqual(point);
+      expect(result.upper[h]).toBeGreaterThanOrEqual(point);
+    });
+    expect(forecastVolumes([1, 2, 3, 4, 5], monthsOf(5), 6)).toBeNull();
+  });
+});
+
+describe('forecastSOS', () => {
+  it('projects SOS per brand from volumes and flags a rising competitor', () => {
+    const result = forecastSOS(createSeasonalSOS([
+      { brand: 'lavera', isOwnBrand: true, volumes: new Array(10).fill(1000) },
+      { brand: 'Other', isOwnBrand: false, volumes: new Array(10).fill(100) },
+      { brand: 'weleda', isOwnBrand: false, volumes: Array.from({ length: 10 }, (_, i) => 400 + i * 60) },
+    ]), 12)!;
+
+    expect(result.brands.map(b => b.brand)).toEqual(['lavera', 'weleda', 'Other']);
+    expect(result.brands[0].forecast[0].period).toBe('2023-11');
+    result.brands[0].forecast.forEach((point, h) => {
+      const total = result.brands.reduce((sum, b) => sum + b.forecast[h].sos, 0);
+      expect(total).toBeCloseTo(100, 0);
+      expect(point.lower).toBeLessThanOrEqual(point.sos);
+    });
+    expect(result.overtakes).toHaveLength(1);
+    expect(result.overtakes[0].brand).toBe('weleda');
+  });
+
+  it('returns null without enough history', () => {
+    expect(forecastSOS(createSeasonalSOS([{ brand: 'lavera', isOwnBrand: true, volumes: [1, 2, 3] }]))).toBeNull();
+  });
+});
+
+describe('findOvertakes', () => {
+  it('reports the first month a trailing competitor passes us and ignores brands already ahead', () => {
+    const overtakes = findOvertakes([
+      createBrandForecast(),
+      createBrandForecast({
+        brand: 'weleda',
+        isOwnBrand: false,
+        history: [{ period: '2024-12', sos: 40 }],
+        forecast: [{ period: '2025-01', sos: 45, lower: 40, upper: 50 }, { period: '2025-02', sos: 47, lower: 41, upper: 53 }],
+      }),
+      createBrandForecast({
+        brand: 'nivea',
+        isOwnBrand: false,
+        history: [{ period: '2024-12', sos: 60 }],
+        forecast: [{ period: '2025-01', sos: 62, lower: 58, upper: 66 }, { period: '2025-02', sos: 64, lower: 59, upper: 69 }],
+      }),
+    ]);
+
+    expect(overtakes).toEqual([{ brand: 'weleda', period: '2025-02', competitorSOS: 47, ownSOS: 46 }]);
+  });
+});
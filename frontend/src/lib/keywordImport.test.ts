@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_IMPORTED_RANKED_KEYWORDS,
+  collectBrandKeywords,
+  detectKeywordPreset,
+  getMissingFields,
+  importBrandKeywordRows,
+  importRankedKeywords,
+  mapColumns,
+  readKeywordExport,
+} from './keywordImport';
+import { generateActionableInsights } from './actionableInsights';
+import { calculateSOS, calculateSOV } from '../../shared/calculations';
+import type { KeywordExportTable } from '../types';
+
+const readTable = (text: string): KeywordExportTable => readKeywordExport(text).data!;
+
+const importCSV = (text: string) => {
+  const table = readTable(text);
+  return importRankedKeywords(table, mapColumns(table.headers, detectKeywordPreset(table.headers)));
+};
+
+describe('detectKeywordPreset', () => {
+  it('recognizes Ahrefs, Semrush and Sistrix headers', () => {
+    expect(detectKeywordPreset(['Keyword', 'Volume', 'KD', 'Current position', 'Current URL']).id).toBe('ahrefs');
+    expect(detectKeywordPreset(['Keyword', 'Position', 'Search Volume', 'Keyword Difficulty', 'URL']).id).toBe('semrush');
+    expect(detectKeywordPreset(['Keyword', 'Ranking', 'URL', 'Suchvolumen']).id).toBe('sistrix');
+  });
+
+  it('falls back to the generic mapping', () => {
+    const preset = detectKeywordPreset(['Query', 'Avg. monthly searches', 'Rank']);
+    expect(preset.id).toBe('generic');
+    expect(mapColumns(['Query', 'Avg. monthly searches', 'Rank'], preset)).toEqual({
+      keyword: 0, searchVolume: 1, position: 2, url: -1, keywordDifficulty: -1,
+    });
+  });
+
+  it('lists required fields the mapping misses', () => {
+    const mapping = { keyword: 0, searchVolume: -1, position: -1, url: -1, keywordDifficulty: -1 };
+    expect(getMissingFields(mapping)).toEqual(['searchVolume', 'position']);
+    expect(getMissingFields(mapping, false)).toEqual(['searchVolume']);
+  });
+});
+
+describe('importRankedKeywords', () => {
+  it('maps an Ahrefs export to ranked keywords', () => {
+    const result = importCSV([
+      'Keyword,Volume,KD,Current position,Current URL',
+      'naturkosmetik,"22,200",45,4,https://www.lavera.de/naturkosmetik',
+      'bio shampoo,5400,,8,https://www.lavera.de/haarpflege',
+    ].join('\n'));
+
+    expect(result.issues).toEqual([]);
+    expect(result.keywords).toEqual([
+      { keyword: 'naturkosmetik', searchVolume: 22200, position: 4, url: 'https://www.lavera.de/naturkosmetik', keywordDifficulty: 45 },
+      { keyword: 'bio shampoo', searchVolume: 5400, position: 8, url: 'https://www.lavera.de/haarpflege' },
+    ]);
+  });
+
+  it('reports missing volume, positions out of range and duplicates', () => {
+    const result = importCSV([
+      'Keyword;Position;Search Volume;URL',
+      'naturkosmetik;6;22200;/naturkosmetik',
+      ';3;100;/a',
+      'vegane kosmetik;2;;/vegan',
+      'bio creme;0;900;/creme',
+      'bio creme;101;900;/creme',
+      'Naturkosmetik;4,4;22200;/naturkosmetik',
+      'naturkosmetik;9;22200;/marken',
+    ].join('\n'));
+
+    expect(result.totalRows).toBe(7);
+    expect(result.issues.map(i => [i.type, i.row])).toEqual([
+      ['missing-keyword', 3],
+      ['missing-volume', 4],
+      ['position-out-of-range', 5],
+      ['position-out-of-range', 6],
+      ['duplicate', 2],
+    ]);
+    expect(result.issues[4].message).toBe('Duplicate of row 7; kept position 4');
+    // The same keyword on another URL stays, as in fetched data
+    expect(result.keywords.map(k => [k.keyword, k.position, k.url])).toEqual([
+      ['Naturkosmetik', 4, '/naturkosmetik'],
+      ['naturkosmetik', 9, '/marken'],
+    ]);
+  });
+
+  it('keeps the highest-volume keywords over the calculation limit', () => {
+    const rows = Array.from({ length: MAX_IMPORTED_RANKED_KEYWORDS + 2 }, (_, i) => `keyword ${i},${i},5`);
+    const result = importCSV(['Keyword,Volume,Position', ...rows].join('\n'));
+
+    expect(result.keywords).toHaveLength(MAX_IMPORTED_RANKED_KEYWORDS);
+    expect(result.keywords.some(k => k.searchVolume < 2)).toBe(false);
+    expect(result.issues).toEqual([expect.objectContaining({ type: 'over-limit' })]);
+  });
+});
+
+describe('collectBrandKeywords', () => {
+  const keywords = [
+    { keyword: 'lavera', searchVolume: 12100 },
+    { keyword: 'lavera naturkosmetik', searchVolume: 1300 },
+    { keyword: 'weleda skin food', searchVolume: 9900 },
+    { keyword: 'naturkosmetik', searchVolume: 22200 },
+    { keyword: 'Lavera', searchVolume: 14000 },
+  ];
+
+  it('keeps brand searches from ranked keywords, once each', () => {
+    expect(collectBrandKeywords(keywords, 'lavera', ['weleda'])).toEqual([
+      { keyword: 'Lavera', searchVolume: 14000, isOwnBrand: true },
+      { keyword: 'weleda skin food', searchVolume: 9900, isOwnBrand: false },
+      { keyword: 'lavera naturkosmetik', searchVolume: 1300, isOwnBrand: true },
+    ]);
+  });
+
+  it('counts unmatched keywords of a brand list as competitors', () => {
+    const table = readTable('Keyword,Search Volume\nlavera,12100\nalverde,27100\n,5');
+    const rows = importBrandKeywordRows(table, mapColumns(table.headers, detectKeywordPreset(table.headers)));
+
+    expect(rows.issues).toEqual([{ type: 'missing-keyword', row: 4, message: 'No keyword' }]);
+    expect(collectBrandKeywords(rows.keywords, 'lavera', [], true)).toEqual([
+      { keyword: 'alverde', searchVolume: 27100, isOwnBrand: false },
+      { keyword: 'lavera', searchVolume: 12100, isOwnBrand: true },
+    ]);
+  });
+});
+
+describe('imported projects', () => {
+  it('run through SOS, SOV and insights like fetched data', () => {
+    const ranked = importCSV([
+      'Keyword,Volume,Current position,Current URL,KD',
+      'lavera,12100,1,/',
+      'weleda,18100,12,/vergleich',
+      'naturkosmetik,22200,6,/naturkosmetik,30',
+    ].join('\n')).keywords;
+    const brandKeywords = collectBrandKeywords(ranked, 'lavera', ['weleda']);
+
+    expect(calculateSOS(brandKeywords)).toEqual({ shareOfSearch: 40.1, brandVolume: 12100, totalBrandVolume: 30200 });
+    const sov = calculateSOV(ranked);
+    expect(sov.keywordBreakdown).toHaveLength(3);
+
+    const insights = generateActionableInsights(sov.keywordBreakdown, brandKeywords);
+    expect(insights.quickWins.map(q => q.keyword)).toContain('naturkosmetik');
+    expect(insights.hiddenGems.map(g => g.keyword)).toContain('naturkosmetik');
+  });
+});
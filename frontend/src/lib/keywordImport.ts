@@ -0,0 +1,279 @@
+import type {
+  BrandKeyword,
+  KeywordColumnMapping,
+  KeywordExportTable,
+  KeywordImportField,
+  KeywordImportIssue,
+  KeywordImportPreset,
+  KeywordImportResult,
+  RankedKeyword
+} from '../types';
+import type { ValidationResult } from '../../shared/validation';
+import { matchesBrand } from '../../shared/brandVariants';
+import { detectSeparator, parseCSVNumber, readCSVLines, splitCSVLine } from './csv';
+
+/**
+ * Rank-tracker import
+ * Turns keyword exports from Ahrefs, Semrush, Sistrix or any other tool into the
+ * same BrandKeyword[] / RankedKeyword[] the DataForSEO routes return, so an imported
+ * project runs through SOS, SOV and the insights exactly like fetched data.
+ */
+
+// The limits /api/calculate accepts
+export const MAX_IMPORTED_RANKED_KEYWORDS = 1000;
+export const MAX_IMPORTED_BRAND_KEYWORDS = 500;
+
+export const KEYWORD_IMPORT_FIELDS: { field: KeywordImportField; label: string; required: boolean }[] = [
+  { field: 'keyword', label: 'Keyword', required: true },
+  { field: 'searchVolume', label: 'Search volume', required: true },
+  { field: 'position', label: 'Position', required: true },
+  { field: 'url', label: 'URL', required: false },
+  { field: 'keywordDifficulty', label: 'Keyword difficulty', required: false }
+];
+
+export const KEYWORD_IMPORT_PRESETS: KeywordImportPreset[] = [
+  {
+    id: 'ahrefs',
+    name: 'Ahrefs',
+    columns: {
+      keyword: ['keyword'],
+      searchVolume: ['volume'],
+      position: ['current position', 'position'],
+      url: ['current url', 'url'],
+      keywordDifficulty: ['kd', 'keyword difficulty']
+    }
+  },
+  {
+    id: 'semrush',
+    name: 'Semrush',
+    columns: {
+      keyword: ['keyword'],
+      searchVolume: ['search volume'],
+      position: ['position'],
+      url: ['url'],
+      keywordDifficulty: ['keyword difficulty']
+    }
+  },
+  {
+    id: 'sistrix',
+    name: 'Sistrix',
+    columns: {
+      keyword: ['keyword', 'keywords'],
+      searchVolume: ['search volume', 'suchvolumen'],
+      position: ['position', 'ranking'],
+      url: ['url'],
+      keywordDifficulty: ['competition', 'konkurrenz']
+    }
+  },
+  {
+    id: 'generic',
+    name: 'Other tool',
+    columns: {
+      keyword: ['keyword', 'keywords', 'query', 'search term', 'term'],
+      searchVolume: ['search volume', 'volume', 'avg. monthly searches', 'monthly searches', 'msv', 'suchvolumen'],
+      position: ['position', 'rank', 'ranking', 'current position', 'google position'],
+      url: ['url', 'ranking url', 'current url', 'landing page', 'page'],
+      keywordDifficulty: ['keyword difficulty', 'kd', 'difficulty']
+    }
+  }
+];
+
+const normalizeKeyword = (keyword: string): string => keyword.toLowerCase().trim().replace(/\s+/g, ' ');
+
+// ==========================================
+// COLUMN MAPPING
+// ==========================================
+
+/**
+ * Read an export into header and rows; the columns are mapped separately so the
+ * user can review the mapping before anything is imported
+ */
+export function readKeywordExport(text: string): ValidationResult<KeywordExportTable> {
+  const lines = readCSVLines(text);
+  if (lines.length < 2) return { success: false, error: 'No rows found' };
+
+  const separator = detectSeparator(lines[0]);
+  return {
+    success: true,
+    data: {
+      headers: splitCSVLine(lines[0], separator),
+      rows: lines.slice(1).map(line => splitCSVLine(line, separator)),
+      decimalComma: separator === ';'
+    }
+  };
+}
+
+/**
+ * Map each field to the first of the preset's header names the export has
+ */
+export function mapColumns(headers: string[], preset: KeywordImportPreset): KeywordColumnMapping {
+  const lower = headers.map(h => h.toLowerCase().trim());
+  const find = (field: KeywordImportField) => {
+    for (const name of preset.columns[field]) {
+      const index = lower.indexOf(name);
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+
+  return {
+    keyword: find('keyword'),
+    searchVolume: find('searchVolume'),
+    position: find('position'),
+    url: find('url'),
+    keywordDifficulty: find('keywordDifficulty')
+  };
+}
+
+/**
+ * The first tool preset that maps every column needed for ranked keywords,
+ * falling back to the generic names
+ */
+export function detectKeywordPreset(headers: string[]): KeywordImportPreset {
+  return KEYWORD_IMPORT_PRESETS.find(preset => getMissingFields(mapColumns(headers, preset)).length === 0)
+    ?? KEYWORD_IMPORT_PRESETS[KEYWORD_IMPORT_PRESETS.length - 1];
+}
+
+// Required fields the mapping leaves out; position is optional for brand keyword lists
+export function getMissingFields(mapping: KeywordColumnMapping, requirePosition = true): KeywordImportField[] {
+  return KEYWORD_IMPORT_FIELDS
+    .filter(({ field, required }) => required && (requirePosition || field !== 'position') && mapping[field] < 0)
+    .map(({ field }) => field);
+}
+
+// ==========================================
+// IMPORT
+// ==========================================
+
+/**
+ * Validate and dedupe ranked keywords from a mapped export.
+ * Rows without keyword or volume, or with a position outside 1-100, are left out.
+ * The same keyword on the same URL keeps its best position; the same keyword on
+ * several URLs stays, as in fetched data, so cannibalization is still detected.
+ * Beyond the /api/calculate limit the lowest-volume keywords are dropped.
+ */
+export function importRankedKeywords(
+  table: KeywordExportTable,
+  mapping: KeywordColumnMapping
+): KeywordImportResult<RankedKeyword> {
+  const issues: KeywordImportIssue[] = [];
+  const byKey = new Map<string, { keyword: RankedKeyword; row: number }>();
+  const cell = (cells: string[], field: KeywordImportField) => (mapping[field] >= 0 ? cells[mapping[field]] ?? '' : '');
+
+  for (const [index, cells] of table.rows.entries()) {
+    const row = index + 2;
+    const keyword = cell(cells, 'keyword').trim();
+    if (!keyword) {
+      issues.push({ type: 'missing-keyword', row, message: 'No keyword' });
+      continue;
+    }
+
+    const searchVolume = parseCSVNumber(cell(cells, 'searchVolume'), table.decimalComma);
+    if (!Number.isFinite(searchVolume) || searchVolume < 0) {
+      issues.push({ type: 'missing-volume', row, keyword, message: 'No search volume' });
+      continue;
+    }
+
+    const position = Math.round(parseCSVNumber(cell(cells, 'position'), table.decimalComma));
+    if (!Number.isFinite(position) || position < 1 || position > 100) {
+      issues.push({ type: 'position-out-of-range', row, keyword, message: 'Position missing or outside 1-100' });
+      continue;
+    }
+
+    const url = cell(cells, 'url').trim() || undefined;
+    const keywordDifficulty = parseCSVNumber(cell(cells, 'keywordDifficulty'), table.decimalComma);
+    const ranked: RankedKeyword = {
+      keyword,
+      searchVolume: Math.round(searchVolume),
+      position,
+      url,
+      ...(Number.isFinite(keywordDifficulty) && keywordDifficulty >= 0 && keywordDifficulty <= 100 && { keywordDifficulty })
+    };
+
+    const key = `${normalizeKeyword(keyword)}|${url?.toLowerCase() ?? ''}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      const [kept, dropped] = position < existing.keyword.position ? [{ keyword: ranked, row }, existing] : [existing, { keyword: ranked, row }];
+      issues.push({
+        type: 'duplicate',
+        row: dropped.row,
+        keyword,
+        message: `Duplicate of row ${kept.row}; kept position ${kept.keyword.position}`
+      });
+      byKey.set(key, kept);
+    } else {
+      byKey.set(key, { keyword: ranked, row });
+    }
+  }
+
+  let keywords = [...byKey.values()].map(entry => entry.keyword);
+  if (keywords.length > MAX_IMPORTED_RANKED_KEYWORDS) {
+    issues.push({
+      type: 'over-limit',
+      message: `Kept the ${MAX_IMPORTED_RANKED_KEYWORDS.toLocaleString()} highest-volume keywords; ${(keywords.length - MAX_IMPORTED_RANKED_KEYWORDS).toLocaleString()} more were left out`
+    });
+    keywords = [...keywords].sort((a, b) => b.searchVolume - a.searchVolume).slice(0, MAX_IMPORTED_RANKED_KEYWORDS);
+  }
+
+  return { keywords, issues, totalRows: table.rows.length };
+}
+
+/**
+ * Brand keywords for SOS: searches for the own brand and the competitors.
+ * From a ranking export only keywords that match a brand count; a dedicated brand
+ * list (includeUnmatched) counts every other keyword as a competitor brand search.
+ * Each keyword is counted once, with its highest volume.
+ */
+export function collectBrandKeywords(
+  keywords: { keyword: string; searchVolume: number }[],
+  brandName: string,
+  competitors: string[],
+  includeUnmatched = false
+): BrandKeyword[] {
+  const byKeyword = new Map<string, BrandKeyword>();
+
+  for (const kw of keywords) {
+    const isOwnBrand = !!brandName && matchesBrand(kw.keyword, brandName);
+    const isCompetitor = !isOwnBrand && (includeUnmatched || competitors.some(c => matchesBrand(kw.keyword, c)));
+    if (!isOwnBrand && !isCompetitor) continue;
+
+    const key = normalizeKeyword(kw.keyword);
+    const existing = byKeyword.get(key);
+    if (!existing || kw.searchVolume > existing.searchVolume) {
+      byKeyword.set(key, { keyword: kw.keyword.trim(), searchVolume: kw.searchVolume, isOwnBrand });
+    }
+  }
+
+  return [...byKeyword.values()]
+    .sort((a, b) => b.searchVolume - a.searchVolume)
+    .slice(0, MAX_IMPORTED_BRAND_KEYWORDS);
+}
+
+/**
+ * Keyword and volume rows from a brand keyword list (e.g. a Keyword Planner export);
+ * rows without keyword or volume are reported like in ranked keyword imports
+ */
+export function importBrandKeywordRows(
+  table: KeywordExportTable,
+  mapping: KeywordColumnMapping
+): KeywordImportResult<{ keyword: string; searchVolume: number }> {
+  const issues: KeywordImportIssue[] = [];
+  const keywords: { keyword: string; searchVolume: number }[] = [];
+
+  for (const [index, cells] of table.rows.entries()) {
+    const row = index + 2;
+    const keyword = (cells[mapping.keyword] ?? '').trim();
+    if (!keyword) {
+      issues.push({ type: 'missing-keyword', row, message: 'No keyword' });
+      continue;
+    }
+    const searchVolume = parseCSVNumber(cells[mapping.searchVolume] ?? '', table.decimalComma);
+    if (!Number.isFinite(searchVolume) || searchVolume < 0) {
+      issues.push({ type: 'missing-volume', row, keyword, message: 'No search volume' });
+      continue;
+    }
+    keywords.push({ keyword, searchVolume: Math.round(searchVolume) });
+  }
+
+  return { keywords, issues, totalRows: table.rows.length };
+}
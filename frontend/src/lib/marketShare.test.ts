@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildShareObservations,
+  calculateESOV,
+  createMarketShareEntry,
+  describeFitQuality,
+  fitShareRegression,
+  parseMarketShareCSV,
+  projectShareTrajectory,
+  validateMarketShareEntry
+} from './marketShare';
+import type { MarketShareObservation, SeasonalSOSResult } from '../types';
+
+const createObservation = (overrides: Partial<MarketShareObservation> = {}): MarketShareObservation => ({
+  brand: 'lavera',
+  period: '2024',
+  marketShare: 10,
+  shareOfSearch: 20,
+  ...overrides,
+});
+
+// Two brands over three months; lavera has 25%, 30% and 40% of searches
+const createSeasonalSOS = (overrides: Partial<SeasonalSOSResult> = {}): SeasonalSOSResult => ({
+  points: [
+    { period: '2024-01', brandVolume: 25, totalVolume: 100, sos: 25, rolling3: null, rolling12: null, seasonallyAdjusted: null },
+    { period: '2024-02', brandVolume: 30, totalVolume: 100, sos: 30, rolling3: null, rolling12: null, seasonallyAdjusted: null },
+    { period: '2024-03', brandVolume: 40, totalVolume: 100, sos: 40, rolling3: 31.7, rolling12: null, seasonallyAdjusted: null },
+  ],
+  brands: [
+    { brand: 'lavera', isOwnBrand: true, volumes: [25, 30, 40] },
+    { brand: 'weleda', isOwnBrand: false, volumes: [75, 70, 60] },
+  ],
+  seasonality: 'none',
+  latest: {},
+  ...overrides,
+});
+
+describe('validateMarketShareEntry', () => {
+  it('requires a brand, a YYYY or YYYY-MM period and a percentage', () => {
+    expect(validateMarketShareEntry({ brand: 'lavera', period: '2024-06', marketShare: 12.5 })).toBeNull();
+    expect(validateMarketShareEntry({ brand: 'lavera', period: '2024', marketShare: 0 })).toBeNull();
+    expect(validateMarketShareEntry({ brand: ' ', period: '2024', marketShare: 1 })).toBe('Brand is required');
+    expect(validateMarketShareEntry({ brand: 'lavera', period: '2024-13', marketShare: 1 })).toBe('Period must be YYYY or YYYY-MM');
+    expect(validateMarketShareEntry({ brand: 'lavera', period: '2024', marketShare: 120 })).toBe('Market share must be between 0 and 100');
+  });
+});
+
+describe('parseMarketShareCSV', () => {
+  it('skips the header and reads semicolon files with decimal commas', () => {
+    const result = parseMarketShareCSV('brand;period;share\nlavera;2024;12,5 %\nWeleda;2024-06;30');
+
+    expect(result.success).toBe(true);
+    expect(result.data!.map(e => [e.brand, e.period, e.marketShare])).toEqual([
+      ['lavera', '2024', 12.5],
+      ['Weleda', '2024-06', 30],
+    ]);
+  });
+
+  it('reports the first invalid row', () => {
+    expect(parseMarketShareCSV('lavera,2024,12\nweleda,last year,30')).toEqual({
+      success: false,
+      error: 'Row 2: Period must be YYYY or YYYY-MM',
+    });
+  });
+});
+
+describe('buildShareObservations', () => {
+  it('pairs monthly and annual figures with the brand SOS for the period', () => {
+    const entries = [
+      createMarketShareEntry({ brand: 'Lavera', period: '2024-02', marketShare: 15 }),
+      createMarketShareEntry({ brand: 'weleda', period: '2024', marketShare: 40 }),
+      createMarketShareEntry({ brand: 'sante', period: '2024', marketShare: 5 }),
+      createMarketShareEntry({ brand: 'lavera', period: '2023', marketShare: 10 }),
+    ];
+
+    expect(buildShareObservations(entries, createSeasonalSOS())).toEqual([
+      { brand: 'lavera', period: '2024-02', marketShare: 15, shareOfSearch: 30 },
+      { brand: 'weleda', period: '2024', marketShare: 40, shareOfSearch: 68.3 },
+    ]);
+  });
+});
+
+describe('fitShareRegression', () => {
+  it('recovers a perfect linear relationship', () => {
+    const fit = fitShareRegression([10, 20, 30, 40, 50].map(sos =>
+      createObservation({ shareOfSearch: sos, marketShare: 2 + 0.5 * sos, period: String(2020 + sos / 10) })
+    ));
+
+    expect(fit).toMatchObject({ slope: 0.5, intercept: 2, rSquared: 1, rmse: 0, observations: 5, brands: 1, periods: 5 });
+    expect(describeFitQuality(fit).quality).toBe('strong');
+  });
+
+  it('needs three observations with different SOS', () => {
+    expect(fitShareRegression([createObservation(), createObservation()])).toBeNull();
+    expect(fitShareRegression([createObservation(), createObservation(), createObservation()])).toBeNull();
+    expect(describeFitQuality(null).quality).toBe('insufficient');
+  });
+
+  it('rates scattered data as a weak fit', () => {
+    const fit = fitShareRegression([
+      createObservation({ shareOfSearch: 10, marketShare: 30 }),
+      createObservation({ shareOfSearch: 20, marketShare: 5 }),
+      createObservation({ shareOfSearch: 30, marketShare: 25 }),
+      createObservation({ shareOfSearch: 40, marketShare: 8 }),
+      createObservation({ shareOfSearch: 50, marketShare: 28 }),
+    ]);
+
+    const { quality, explanation } = describeFitQuality(fit);
+    expect(quality).toBe('weak');
+    expect(explanation).toContain('not clearly different from zero');
+  });
+});
+
+describe('calculateESOV', () => {
+  it('uses the latest share per brand and the 0.5 points per 10 ESOV rule', () => {
+    const rows = calculateESOV(
+      [{ brand: 'lavera', isOwnBrand: true }, { brand: 'weleda', isOwnBrand: false }, { brand: 'sante', isOwnBrand: false }],
+      { lavera: 30, weleda: 35 },
+      [
+        createMarketShareEntry({ brand: 'lavera', period: '2023', marketShare: 15 }),
+        createMarketShareEntry({ brand: 'lavera', period: '2024-06', marketShare: 20 }),
+        createMarketShareEntry({ brand: 'Weleda', period: '2024', marketShare: 40 }),
+      ]
+    );
+
+    expect(rows).toEqual([
+      { brand: 'lavera', isOwnBrand: true, shareOfVoice: 30, marketShare: 20, esov: 10, expectedShareChange: 0.5 },
+      { brand: 'weleda', isOwnBrand: false, shareOfVoice: 35, marketShare: 40, esov: -5, expectedShareChange: -0.25 },
+      { brand: 'sante', isOwnBrand: false, shareOfVoice: null, marketShare: null, esov: null, expectedShareChange: null },
+    ]);
+  });
+});
+
+describe('projectShareTrajectory', () => {
+  it('fits the history from SOS and projects from the latest actual towards SOV', () => {
+    const fit = { slope: 0.5, intercept: 0, rSquared: 1, rmse: 0, slopeStandardError: 0, observations: 5, brands: 2, periods: 3 };
+    const points = projectShareTrajectory(
+      createSeasonalSOS(),
+      [createMarketShareEntry({ period: '2024-03', marketShare: 20 })],
+      fit,
+      32
+    );
+
+    expect(points).toHaveLength(15);
+    expect(points.slice(0, 3).map(p => p.fitted)).toEqual([12.5, 15, 20]);
+    expect(points[2]).toMatchObject({ actual: 20, projected: 20 });
+    expect(points[14].period).toBe('2025-03');
+    // 12 monthly steps of 0.05/12 of the remaining gap: 20 + 12 * (1 - (1 - 0.05/12)^12) ≈ 20.59
+    expect(points[14].projected).toBeCloseTo(20.59, 2);
+  });
+});
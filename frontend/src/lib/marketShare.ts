@@ -0,0 +1,284 @@
+import type {
+  BrandESOV,
+  FitQuality,
+  MarketShareEntry,
+  MarketShareObservation,
+  SeasonalSOSResult,
+  ShareRegressionFit,
+  ShareTrajectoryPoint
+} from '../types';
+import type { ValidationResult } from '../../shared/validation';
+import { normalizeBrandTerm } from '../../shared/brandVariants';
+
+/**
+ * Excess Share of Voice model (Binet & Field)
+ * Brands whose share of voice exceeds their market share tend to grow, roughly
+ * +0.5 market share points per year for every 10 points of ESOV. Share of Search
+ * is the leading indicator: regressing actual market share on SOS across brands
+ * and periods shows how well search demand tracks share in this category.
+ */
+
+// Market share points gained per year for each point of ESOV
+export const ESOV_SHARE_GROWTH_PER_POINT = 0.05;
+
+// Months the trajectory is projected beyond the SOS history
+export const PROJECTION_MONTHS = 12;
+
+const PERIOD_PATTERN = /^\d{4}(-(0[1-9]|1[0-2]))?$/;
+
+const round = (value: number, decimals: number = 1): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const sum = (values: number[]): number => values.reduce((total, v) => total + v, 0);
+
+const addMonths = (period: string, count: number): string => {
+  const [year, month] = period.split('-').map(Number);
+  const index = year * 12 + (month - 1) + count;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+};
+
+// ==========================================
+// ENTRY VALIDATION & IMPORT
+// ==========================================
+
+export function createMarketShareEntry(overrides: Partial<Omit<MarketShareEntry, 'id'>> = {}): MarketShareEntry {
+  return {
+    id: `share_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    brand: '',
+    period: '',
+    marketShare: 0,
+    ...overrides
+  };
+}
+
+/**
+ * Check an entry for errors the editor should show
+ * @returns The error message, or null for a valid entry
+ */
+export function validateMarketShareEntry(entry: Pick<MarketShareEntry, 'brand' | 'period' | 'marketShare'>): string | null {
+  if (!entry.brand.trim()) return 'Brand is required';
+  if (!PERIOD_PATTERN.test(entry.period.trim())) return 'Period must be YYYY or YYYY-MM';
+  if (!Number.isFinite(entry.marketShare) || entry.marketShare < 0 || entry.marketShare > 100) {
+    return 'Market share must be between 0 and 100';
+  }
+  return null;
+}
+
+// "12,5 %" and "12.5" both read as 12.5
+const parseShare = (value: string): number => {
+  const cleaned = value.replace('%', '').replace(',', '.').trim();
+  return cleaned ? Number(cleaned) : NaN;
+};
+
+/**
+ * Parse pasted or uploaded market share data
+ * One "brand, period, share" row per line, separated by commas, semicolons or tabs.
+ * A header row is skipped; semicolon files may use decimal commas.
+ */
+export function parseMarketShareCSV(text: string): ValidationResult<MarketShareEntry[]> {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) return { success: false, error: 'No rows found' };
+
+  const separator = lines[0].includes('\t') ? '\t' : lines[0].includes(';') ? ';' : ',';
+  const entries: MarketShareEntry[] = [];
+
+  for (const [index, line] of lines.entries()) {
+    const cells = line.split(separator).map(cell => cell.trim().replace(/^"|"$/g, ''));
+    if (index === 0 && /^brand$/i.test(cells[0])) continue;
+    if (cells.length < 3) return { success: false, error: `Row ${index + 1}: expected brand, period and share` };
+
+    const entry = createMarketShareEntry({ brand: cells[0], period: cells[1], marketShare: parseShare(cells[2]) });
+    const error = validateMarketShareEntry(entry);
+    if (error) return { success: false, error: `Row ${index + 1}: ${error}` };
+    entries.push(entry);
+  }
+
+  if (entries.length === 0) return { success: false, error: 'No rows found' };
+  return { success: true, data: entries };
+}
+
+// ==========================================
+// OBSERVATIONS & REGRESSION
+// ==========================================
+
+// Latest entry per brand; monthly and annual periods compare as strings ("2024" < "2024-01")
+export function getLatestShares(entries: MarketShareEntry[]): Map<string, MarketShareEntry> {
+  const latest = new Map<string, MarketShareEntry>();
+  for (const entry of entries) {
+    const key = normalizeBrandTerm(entry.brand);
+    const current = latest.get(key);
+    if (!current || entry.period > current.period) latest.set(key, entry);
+  }
+  return latest;
+}
+
+/**
+ * Pair each market share entry with the brand's Share of Search for the same period
+ * SOS per brand and month is the brand's volume over all tracked brand volume; annual
+ * entries use the summed volumes of that year. Entries for brands or periods the
+ * SOS history doesn't cover are left out.
+ */
+export function buildShareObservations(
+  entries: MarketShareEntry[],
+  seasonalSOS: SeasonalSOSResult
+): MarketShareObservation[] {
+  const periods = seasonalSOS.points.map(p => p.period);
+  const seriesByBrand = new Map(
+    seasonalSOS.brands.filter(b => b.brand !== 'Other').map(b => [normalizeBrandTerm(b.brand), b])
+  );
+  const observations: MarketShareObservation[] = [];
+
+  for (const entry of entries) {
+    const series = seriesByBrand.get(normalizeBrandTerm(entry.brand));
+    if (!series) continue;
+
+    const indices = periods.flatMap((period, i) => (period.startsWith(entry.period) ? [i] : []));
+    const total = sum(indices.map(i => seasonalSOS.points[i].totalVolume));
+    if (indices.length === 0 || total <= 0) continue;
+
+    observations.push({
+      brand: series.brand,
+      period: entry.period,
+      marketShare: entry.marketShare,
+      shareOfSearch: round((sum(indices.map(i => series.volumes[i])) / total) * 100)
+    });
+  }
+
+  return observations;
+}
+
+/**
+ * Ordinary least squares of market share on Share of Search
+ * @returns null with fewer than 3 observations or no spread in SOS
+ */
+export function fitShareRegression(observations: MarketShareObservation[]): ShareRegressionFit | null {
+  const n = observations.length;
+  if (n < 3) return null;
+
+  const xs = observations.map(o => o.shareOfSearch);
+  const ys = observations.map(o => o.marketShare);
+  const meanX = sum(xs) / n;
+  const meanY = sum(ys) / n;
+  const sxx = sum(xs.map(x => (x - meanX) ** 2));
+  if (sxx === 0) return null;
+
+  const slope = sum(xs.map((x, i) => (x - meanX) * (ys[i] - meanY))) / sxx;
+  const intercept = meanY - slope * meanX;
+  const sse = sum(xs.map((x, i) => (ys[i] - (intercept + slope * x)) ** 2));
+  const sst = sum(ys.map(y => (y - meanY) ** 2));
+
+  return {
+    slope: round(slope, 3),
+    intercept: round(intercept, 2),
+    rSquared: round(sst > 0 ? Math.max(0, 1 - sse / sst) : 1, 3),
+    rmse: round(Math.sqrt(sse / n), 2),
+    slopeStandardError: round(n > 2 ? Math.sqrt(sse / (n - 2) / sxx) : 0, 3),
+    observations: n,
+    brands: new Set(observations.map(o => o.brand)).size,
+    periods: new Set(observations.map(o => o.period)).size
+  };
+}
+
+export const predictShare = (fit: ShareRegressionFit, shareOfSearch: number): number =>
+  round(Math.min(100, Math.max(0, fit.intercept + fit.slope * shareOfSearch)));
+
+/**
+ * Rate the fit and explain it in one or two sentences for the panel
+ * Fewer than 5 observations are too few to judge, whatever the R².
+ */
+export function describeFitQuality(fit: ShareRegressionFit | null): { quality: FitQuality; explanation: string } {
+  if (!fit || fit.observations < 5) {
+    return {
+      quality: 'insufficient',
+      explanation: 'At least 5 market share figures that overlap the search history are needed - add more brands or periods.'
+    };
+  }
+
+  const percent = Math.round(fit.rSquared * 100);
+  const quality: FitQuality = fit.rSquared >= 0.7 ? 'strong' : fit.rSquared >= 0.4 ? 'moderate' : 'weak';
+  const lead = {
+    strong: `Share of Search explains ${percent}% of the variation in market share - a reliable leading indicator here.`,
+    moderate: `Share of Search explains ${percent}% of the variation in market share - use the prediction as a direction, not a forecast.`,
+    weak: `Share of Search explains only ${percent}% of the variation in market share - distribution, price or offline sales likely drive share in this category.`
+  }[quality];
+
+  const significant = fit.slopeStandardError > 0 && Math.abs(fit.slope / fit.slopeStandardError) >= 2;
+  const slope = significant
+    ? ` Each SOS point goes with ${fit.slope} market share points (±${round(2 * fit.slopeStandardError, 2)}), with a typical error of ${fit.rmse} points.`
+    : ' The slope is not clearly different from zero, so small SOS changes say little about share.';
+
+  return { quality, explanation: lead + slope };
+}
+
+// ==========================================
+// ESOV & TRAJECTORY
+// ==========================================
+
+/**
+ * ESOV per brand: share of voice minus the latest market share
+ * Expected share change follows Binet & Field's rule of thumb of 0.5 points per
+ * year for every 10 points of ESOV.
+ */
+export function calculateESOV(
+  brands: Array<{ brand: string; isOwnBrand: boolean }>,
+  shareOfVoice: Record<string, number | undefined>,
+  entries: MarketShareEntry[]
+): BrandESOV[] {
+  const latest = getLatestShares(entries);
+
+  return brands.map(({ brand, isOwnBrand }) => {
+    const sov = shareOfVoice[brand] ?? null;
+    const marketShare = latest.get(normalizeBrandTerm(brand))?.marketShare ?? null;
+    const esov = sov !== null && marketShare !== null ? round(sov - marketShare) : null;
+    return {
+      brand,
+      isOwnBrand,
+      shareOfVoice: sov,
+      marketShare,
+      esov,
+      expectedShareChange: esov !== null ? round(esov * ESOV_SHARE_GROWTH_PER_POINT, 2) : null
+    };
+  });
+}
+
+/**
+ * Own-brand market share over time: entered actuals, the share the regression reads
+ * from each month's SOS, and a projection that closes the gap to SOV at the ESOV rate.
+ * The projection starts from the latest actual (or the last fitted month) and runs
+ * PROJECTION_MONTHS past the SOS history. Annual actuals are plotted in December.
+ */
+export function projectShareTrajectory(
+  seasonalSOS: SeasonalSOSResult,
+  ownEntries: MarketShareEntry[],
+  fit: ShareRegressionFit | null,
+  shareOfVoice: number | null
+): ShareTrajectoryPoint[] {
+  const actuals = new Map<string, number>();
+  for (const entry of ownEntries) {
+    const period = entry.period.length === 4 ? `${entry.period}-12` : entry.period;
+    actuals.set(period, entry.marketShare);
+  }
+
+  const points: ShareTrajectoryPoint[] = seasonalSOS.points.map(p => ({
+    period: p.period,
+    actual: actuals.get(p.period) ?? null,
+    fitted: fit && p.totalVolume > 0 ? predictShare(fit, p.sos) : null,
+    projected: null
+  }));
+  if (points.length === 0 || shareOfVoice === null) return points;
+
+  const latestActual = [...ownEntries].sort((a, b) => a.period.localeCompare(b.period)).pop();
+  let share = latestActual?.marketShare ?? points[points.length - 1].fitted;
+  if (share === null) return points;
+
+  const last = points[points.length - 1];
+  last.projected = round(share, 2);
+  for (let i = 1; i <= PROJECTION_MONTHS; i++) {
+    share += ((shareOfVoice - share) * ESOV_SHARE_GROWTH_PER_POINT) / 12;
+    points.push({ period: addMonths(last.period, i), actual: null, fitted: null, projected: round(share, 2) });
+  }
+
+  return points;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateMarkets, failedMarket, summarizeMarket } from './multiMarket';
+import type { CalculateResponse, MarketConfig, MarketResult, RankedKeyword } from '../types';
+
+// Test fixtures
+const GERMANY: MarketConfig = { locationCode: 2276, locationName: 'Germany', languageCode: 'de' };
+const FRANCE: MarketConfig = { locationCode: 2250, locationName: 'France', languageCode: 'fr' };
+
+const createRankedKeyword = (overrides: Partial<RankedKeyword> = {}): RankedKeyword => ({
+  keyword: 'test keyword',
+  searchVolume: 1000,
+  position: 5,
+  url: '/test',
+  ...overrides,
+});
+
+const createMarketResult = (overrides: Partial<MarketResult> = {}): MarketResult => ({
+  ...failedMarket(GERMANY, ''),
+  error: undefined,
+  ...overrides,
+});
+
+describe('summarizeMarket', () => {
+  it('keeps the market figures and derives categories and quick-win potential', () => {
+    const keywords = [
+      createRankedKeyword({ keyword: 'laufschuhe kaufen', position: 5, searchVolume: 10000, visibleVolume: 400 }),
+      createRankedKeyword({ keyword: 'laufschuhe test', position: 1, searchVolume: 2000, visibleVolume: 560 }),
+    ];
+    const result: CalculateResponse = {
+      sos: { shareOfSearch: 25, brandVolume: 5000, totalBrandVolume: 20000 },
+      sov: { shareOfVoice: 8, visibleVolume: 960, totalMarketVolume: 12000, keywordBreakdown: keywords },
+      gap: { gap: -17, interpretation: 'missing_opportunities' },
+    };
+
+    const market = summarizeMarket(GERMANY, 'Acme', result);
+
+    expect(market).toMatchObject({
+      locationName: 'Germany',
+      brandName: 'Acme',
+      shareOfSearch: 25,
+      shareOfVoice: 8,
+      gap: -17,
+      keywordCount: 2,
+    });
+    expect(market.topCategories.length).toBeGreaterThan(0);
+    // Only the position 5 keyword is a quick win
+    expect(market.quickWinPotential).toBeGreaterThan(0);
+  });
+});
+
+describe('aggregateMarkets', () => {
+  it('weights global SOV and SOS by market volume', () => {
+    const global = aggregateMarkets([
+      createMarketResult({ visibleVolume: 9000, totalMarketVolume: 90000, brandVolume: 3000, totalBrandVolume: 10000 }),
+      createMarketResult({ ...FRANCE, visibleVolume: 5000, totalMarketVolume: 10000, brandVolume: 1000, totalBrandVolume: 10000 }),
+    ]);
+
+    // 14000 / 100000 - not the 30% a plain average of 10% and 50% would give
+    expect(global.shareOfVoice).toBe(14);
+    expect(global.shareOfSearch).toBe(20);
+    expect(global.gap).toBe(-6);
+    expect(global.totalMarketVolume).toBe(100000);
+    expect(global.marketCount).toBe(2);
+  });
+
+  it('leaves failed markets out of the global figures', () => {
+    const global = aggregateMarkets([
+      createMarketResult({ visibleVolume: 1000, totalMarketVolume: 10000, brandVolume: 100, totalBrandVolume: 1000 }),
+      failedMarket(FRANCE, 'Rate limit exceeded'),
+    ]);
+
+    expect(global.shareOfVoice).toBe(10);
+    expect(global.marketCount).toBe(1);
+  });
+
+  it('returns zeros when every market failed', () => {
+    const global = aggregateMarkets([failedMarket(GERMANY, 'Timeout')]);
+
+    expect(global).toMatchObject({ shareOfSearch: 0, shareOfVoice: 0, gap: 0, marketCount: 0 });
+  });
+});
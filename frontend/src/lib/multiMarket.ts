@@ -0,0 +1,87 @@
+import type {
+  CalculateResponse,
+  CategoryRule,
+  GlobalMarketSummary,
+  MarketConfig,
+  MarketResult
+} from '../types';
+import { calculateGrowthGap } from './calculations';
+import { calculateCategorySOV, calculateQuickWins } from './actionableInsights';
+
+// ==========================================
+// MULTI-MARKET COMPARISON
+// ==========================================
+
+/**
+ * Reduce one market's calculation to the figures compared side by side
+ */
+export function summarizeMarket(
+  market: MarketConfig,
+  brandName: string,
+  result: CalculateResponse,
+  categoryRules: CategoryRule[] = []
+): MarketResult {
+  const keywords = result.sov.keywordBreakdown;
+
+  return {
+    ...market,
+    brandName,
+    shareOfSearch: result.sos.shareOfSearch,
+    shareOfVoice: result.sov.shareOfVoice,
+    gap: result.gap.gap,
+    brandVolume: result.sos.brandVolume,
+    totalBrandVolume: result.sos.totalBrandVolume,
+    visibleVolume: result.sov.visibleVolume,
+    totalMarketVolume: result.sov.totalMarketVolume,
+    keywordCount: keywords.length,
+    topCategories: calculateCategorySOV(keywords, categoryRules)
+      .slice(0, 3)
+      .map(c => c.category),
+    quickWinPotential: calculateQuickWins(keywords).reduce((sum, q) => sum + q.clickUplift, 0)
+  };
+}
+
+// A market that failed keeps its slot in the table with zeroed figures
+export function failedMarket(market: MarketConfig, error: string): MarketResult {
+  return {
+    ...market,
+    brandName: '',
+    shareOfSearch: 0,
+    shareOfVoice: 0,
+    gap: 0,
+    brandVolume: 0,
+    totalBrandVolume: 0,
+    visibleVolume: 0,
+    totalMarketVolume: 0,
+    keywordCount: 0,
+    topCategories: [],
+    quickWinPotential: 0,
+    error
+  };
+}
+
+/**
+ * Aggregate markets into one global view
+ * SOV is weighted by each market's keyword volume and SOS by its brand search
+ * volume, so large markets count for more than small ones.
+ */
+export function aggregateMarkets(markets: MarketResult[]): GlobalMarketSummary {
+  const succeeded = markets.filter(m => !m.error);
+
+  const visibleVolume = succeeded.reduce((sum, m) => sum + m.visibleVolume, 0);
+  const totalMarketVolume = succeeded.reduce((sum, m) => sum + m.totalMarketVolume, 0);
+  const brandVolume = succeeded.reduce((sum, m) => sum + m.brandVolume, 0);
+  const totalBrandVolume = succeeded.reduce((sum, m) => sum + m.totalBrandVolume, 0);
+
+  const shareOfVoice = totalMarketVolume > 0 ? Math.round((visibleVolume / totalMarketVolume) * 1000) / 10 : 0;
+  const shareOfSearch = totalBrandVolume > 0 ? Math.round((brandVolume / totalBrandVolume) * 1000) / 10 : 0;
+
+  return {
+    shareOfSearch,
+    shareOfVoice,
+    gap: calculateGrowthGap(shareOfSearch, shareOfVoice).gap,
+    visibleVolume,
+    totalMarketVolume,
+    marketCount: succeeded.length
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isAnalysisChannel,
+  validateChannelPayload,
+  validateDismissedItem,
+  validateProjectContext,
+  MAX_CHANNEL_PAYLOAD_BYTES,
+} from '../../shared/projectData';
+
+describe('validateProjectContext', () => {
+  it('drops competitors spelled like the brand or each other', () => {
+    const result = validateProjectContext({
+      brandName: ' lavera ',
+      competitors: ['Weleda', 'Lavera', 'weleda', ' Dr. Hauschka ', '', 42],
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: { brandName: 'lavera', competitors: ['Weleda', 'Dr. Hauschka'] },
+    });
+  });
+
+  it('leaves missing fields out of the update and fills a partial brand context', () => {
+    const result = validateProjectContext({ brandContext: { brandName: 'lavera', industry: 'Naturkosmetik' } });
+
+    expect(result.success).toBe(true);
+    expect(Object.keys(result.data!)).toEqual(['brandContext']);
+    expect(result.data!.brandContext).toMatchObject({ industry: 'Naturkosmetik', productCategories: [], seoFocus: [] });
+  });
+
+  it('rejects a brand context without an industry', () => {
+    expect(validateProjectContext({ brandContext: { brandName: 'lavera' } }).success).toBe(false);
+  });
+});
+
+describe('channel payloads', () => {
+  it('accepts the four analysis channels only', () => {
+    expect(['paid', 'youtube', 'local', 'ai', 'organic'].map(isAnalysisChannel)).toEqual([true, true, true, true, false]);
+  });
+
+  it('stores objects up to the size cap', () => {
+    expect(validateChannelPayload({ sov: { byViews: 12.5 } }, 'data').success).toBe(true);
+    expect(validateChannelPayload([1, 2], 'data')).toEqual({ success: false, error: 'data must be an object' });
+    expect(validateChannelPayload({ blob: 'x'.repeat(MAX_CHANNEL_PAYLOAD_BYTES) }, 'data').error).toBe('data is too large');
+  });
+
+  it('needs an id to dismiss an item', () => {
+    expect(validateDismissedItem({ itemId: ' abc123 ', label: '  ' })).toEqual({
+      success: true,
+      data: { itemId: 'abc123', label: null },
+    });
+    expect(validateDismissedItem({ label: 'Unrelated video' }).success).toBe(false);
+  });
+});
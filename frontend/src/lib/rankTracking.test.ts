@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_WATCHED_KEYWORDS,
+  extractDomainPositions,
+  getRankHistory,
+  getRankMovers,
+  getTrackedSOVSeries,
+  validateWatchList,
+} from '../../shared/rankTracking';
+import { getCTR } from '../../shared/calculations';
+import type { RankCheck, WatchedKeyword } from '../types';
+
+const createCheck = (overrides: Partial<RankCheck> = {}): RankCheck => ({
+  keyword: 'naturkosmetik',
+  domain: 'lavera.de',
+  position: 5,
+  url: 'https://www.lavera.de/naturkosmetik',
+  checkedAt: '2026-10-12T05:00:00.000Z',
+  ...overrides,
+});
+
+const watched: WatchedKeyword[] = [
+  { keyword: 'naturkosmetik', searchVolume: 22200 },
+  { keyword: 'bio shampoo', searchVolume: 5400 },
+];
+
+describe('validateWatchList', () => {
+  it('dedupes keywords and cleans competitor domains', () => {
+    const result = validateWatchList({
+      keywords: [{ keyword: ' Naturkosmetik ', searchVolume: 22200.4 }, { keyword: 'naturkosmetik', searchVolume: 1 }, { keyword: 'bio shampoo' }],
+      competitors: ['https://www.weleda.de/shop', 'lavera.de', 'weleda.de'],
+    }, 'lavera.de');
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        keywords: [{ keyword: 'Naturkosmetik', searchVolume: 22200 }, { keyword: 'bio shampoo', searchVolume: 0 }],
+        competitors: ['weleda.de'],
+      },
+    });
+  });
+
+  it('rejects oversized lists and non-domains', () => {
+    const keywords = Array.from({ length: MAX_WATCHED_KEYWORDS + 1 }, (_, i) => ({ keyword: `keyword ${i}`, searchVolume: 10 }));
+    expect(validateWatchList({ keywords }, 'lavera.de').error).toBe(`Watch at most ${MAX_WATCHED_KEYWORDS} keywords`);
+    expect(validateWatchList({ keywords: [], competitors: ['weleda'] }, 'lavera.de').error).toBe('Competitors must be domains like example.com');
+    expect(validateWatchList({ keywords: [{ keyword: ' ' }] }, 'lavera.de').success).toBe(false);
+  });
+});
+
+describe('extractDomainPositions', () => {
+  it('takes the best organic result per domain, including subdomains', () => {
+    const items = [
+      { type: 'paid', rank_group: 1, domain: 'www.lavera.de', url: 'https://www.lavera.de/ad' },
+      { type: 'organic', rank_group: 1, domain: 'www.weleda.de', url: 'https://www.weleda.de/' },
+      { type: 'organic', rank_group: 3, domain: 'shop.lavera.de', url: 'https://shop.lavera.de/naturkosmetik' },
+      { type: 'organic', rank_group: 7, domain: 'www.lavera.de', url: 'https://www.lavera.de/' },
+      { type: 'organic', rank_group: 8, domain: 'notlavera.de', url: 'https://notlavera.de/' },
+    ];
+
+    expect(extractDomainPositions(items, ['lavera.de', 'weleda.de', 'alverde.de'])).toEqual([
+      { domain: 'lavera.de', position: 3, url: 'https://shop.lavera.de/naturkosmetik' },
+      { domain: 'weleda.de', position: 1, url: 'https://www.weleda.de/' },
+      { domain: 'alverde.de', position: null, url: null },
+    ]);
+  });
+});
+
+describe('getRankHistory', () => {
+  it('keeps one reading per day, the latest of the day', () => {
+    const checks = [
+      createCheck({ checkedAt: '2026-10-12T05:00:00.000Z', position: 6 }),
+      createCheck({ checkedAt: '2026-10-12T14:00:00.000Z', position: 4 }),
+      createCheck({ domain: 'weleda.de', checkedAt: '2026-10-12T05:00:00.000Z', position: null }),
+      createCheck({ checkedAt: '2026-10-13T05:00:00.000Z', position: 3 }),
+      createCheck({ keyword: 'bio shampoo', checkedAt: '2026-10-14T05:00:00.000Z' }),
+    ];
+
+    expect(getRankHistory(checks, 'naturkosmetik', ['lavera.de', 'weleda.de'])).toEqual([
+      { date: '2026-10-12', positions: { 'lavera.de': 4, 'weleda.de': null } },
+      { date: '2026-10-13', positions: { 'lavera.de': 3, 'weleda.de': null } },
+    ]);
+  });
+});
+
+describe('getRankMovers', () => {
+  const checks = [
+    createCheck({ checkedAt: '2026-10-05T05:00:00.000Z', position: 12 }),
+    createCheck({ keyword: 'bio shampoo', checkedAt: '2026-10-05T05:00:00.000Z', position: 4 }),
+    createCheck({ checkedAt: '2026-10-11T05:00:00.000Z', position: 9 }),
+    createCheck({ keyword: 'bio shampoo', checkedAt: '2026-10-11T05:00:00.000Z', position: 6 }),
+    createCheck({ checkedAt: '2026-10-12T05:00:00.000Z', position: 3 }),
+    createCheck({ keyword: 'bio shampoo', checkedAt: '2026-10-12T05:00:00.000Z', position: null }),
+  ];
+
+  it('compares the latest day with the day a week earlier', () => {
+    expect(getRankMovers(checks, watched, 'lavera.de', 7)).toEqual({
+      since: '2026-10-05',
+      gainers: [{ keyword: 'naturkosmetik', searchVolume: 22200, previous: 12, current: 3, change: 9 }],
+      // Dropping out of the top 100 counts as position 101
+      losers: [{ keyword: 'bio shampoo', searchVolume: 5400, previous: 4, current: null, change: -97 }],
+    });
+    expect(getRankMovers(checks, watched, 'lavera.de', 1).since).toBe('2026-10-11');
+  });
+
+  it('falls back to the first tracked day and needs two days', () => {
+    expect(getRankMovers(checks, watched, 'lavera.de', 30).since).toBe('2026-10-05');
+    expect(getRankMovers(checks.slice(0, 2), watched, 'lavera.de')).toEqual({ since: null, gainers: [], losers: [] });
+  });
+});
+
+describe('getTrackedSOVSeries', () => {
+  it('measures every domain on the keywords checked that day', () => {
+    const checks = [
+      createCheck({ position: 1 }),
+      createCheck({ domain: 'weleda.de', position: 3 }),
+      createCheck({ checkedAt: '2026-10-13T05:00:00.000Z', position: 2 }),
+      createCheck({ keyword: 'bio shampoo', checkedAt: '2026-10-13T05:00:00.000Z', position: null }),
+    ];
+
+    const series = getTrackedSOVSeries(checks, watched, ['lavera.de', 'weleda.de']);
+    const share = (ctr: number, volume: number, total: number) => Math.round((volume * ctr / total) * 1000) / 10;
+
+    expect(series).toEqual([
+      {
+        date: '2026-10-12',
+        keywords: 1,
+        shares: { 'lavera.de': share(getCTR(1), 22200, 22200), 'weleda.de': share(getCTR(3), 22200, 22200) },
+      },
+      {
+        date: '2026-10-13',
+        keywords: 2,
+        shares: { 'lavera.de': share(getCTR(2), 22200, 27600), 'weleda.de': 0 },
+      },
+    ]);
+  });
+});
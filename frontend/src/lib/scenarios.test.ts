@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createScenarioAdjustment,
+  describeAdjustment,
+  duplicateScenario,
+  listUrlFolders,
+  simulateScenario,
+  validateScenarioAdjustment,
+} from './scenarios';
+import type { ScenarioOptions } from './scenarios';
+import type { RankedKeyword, RankingScenario, ScenarioAdjustment } from '../types';
+
+const createKeyword = (overrides: Partial<RankedKeyword> = {}): RankedKeyword => ({
+  keyword: 'gesichtscreme',
+  searchVolume: 1000,
+  position: 3,
+  url: 'https://lavera.de/gesichtspflege/creme',
+  category: 'Skincare',
+  ...overrides,
+});
+
+const createAdjustment = (overrides: Partial<ScenarioAdjustment> = {}): ScenarioAdjustment => ({
+  id: 'adjustment-1',
+  target: 'category',
+  value: 'Skincare',
+  mode: 'gain',
+  amount: 3,
+  ...overrides,
+});
+
+// Visible volume at current positions: 90 + 60 + 40 = 190 of 4000
+const keywords = [
+  createKeyword(),
+  createKeyword({ keyword: 'serum', searchVolume: 2000, position: 6, url: 'https://lavera.de/gesichtspflege/serum' }),
+  createKeyword({ keyword: 'shampoo', position: 5, url: 'https://lavera.de/haarpflege/shampoo', category: 'Haircare' }),
+];
+
+const options: ScenarioOptions = {
+  categorize: kw => kw.category || 'Other',
+  shareOfSearch: 10,
+};
+
+const simulate = (adjustments: ScenarioAdjustment[]) => simulateScenario(keywords, { adjustments }, options);
+
+describe('simulateScenario', () => {
+  it('gives the current rankings without adjustments', () => {
+    const result = simulate([]);
+
+    expect(result).toMatchObject({ shareOfVoice: 4.8, visibleVolume: 190, totalMarketVolume: 4000, clickChange: 0, changedKeywords: [] });
+    expect(result.gap).toEqual({ gap: -5.2, interpretation: 'missing_opportunities' });
+  });
+
+  it('moves a whole category and recalculates SOV, gap and clicks', () => {
+    const result = simulate([createAdjustment()]);
+
+    expect(result.shareOfVoice).toBe(12.5);
+    expect(result.visibleVolume).toBe(500);
+    expect(result.gap.gap).toBe(2.5);
+    expect(result.clickChange).toBe(310);
+    expect(result.changedKeywords.map(k => [k.keyword, k.basePosition, k.position, k.baseClicks, k.clicks])).toEqual([
+      ['gesichtscreme', 3, 1, 90, 280],
+      ['serum', 6, 3, 60, 180],
+    ]);
+  });
+
+  it('applies adjustments in order so later ones win', () => {
+    const result = simulate([
+      createAdjustment(),
+      createAdjustment({ id: 'adjustment-2', target: 'keyword', value: ' Serum ', mode: 'position', amount: 10 }),
+    ]);
+
+    expect(result.changedKeywords.map(k => [k.keyword, k.position])).toEqual([['gesichtscreme', 1], ['serum', 10]]);
+  });
+
+  it('matches URL folders and never gains past position 1', () => {
+    expect(simulate([createAdjustment({ target: 'urlFolder', value: 'haarpflege/', mode: 'position', amount: 1 })]).changedKeywords)
+      .toMatchObject([{ keyword: 'shampoo', position: 1, clicks: 280 }]);
+    expect(simulate([createAdjustment({ target: 'urlFolder', value: '/haar' })]).changedKeywords).toEqual([]);
+    expect(simulate([createAdjustment({ target: 'keyword', value: 'gesichtscreme', amount: 5 })]).changedKeywords[0].position).toBe(1);
+  });
+
+  it('scales Search Console clicks by the curve when a keyword moves', () => {
+    // 45 real clicks at #3 (9% CTR) becomes 45 × 28% / 9% = 140 at #1
+    const result = simulateScenario([createKeyword({ actualClicks: 45 })], { adjustments: [createAdjustment()] }, options);
+
+    expect(result.changedKeywords[0]).toMatchObject({ baseClicks: 45, clicks: 140 });
+    expect(result.visibleVolume).toBe(140);
+    expect(simulateScenario([createKeyword({ actualClicks: 45 })], { adjustments: [] }, options).visibleVolume).toBe(45);
+  });
+
+  it('skips invalid adjustments', () => {
+    expect(simulate([createAdjustment({ value: '' }), createAdjustment({ amount: 0 })]).changedKeywords).toEqual([]);
+  });
+});
+
+describe('validateScenarioAdjustment', () => {
+  it('rejects missing targets and out-of-range amounts', () => {
+    expect(validateScenarioAdjustment(createAdjustment())).toBeNull();
+    expect(validateScenarioAdjustment(createAdjustment({ target: 'urlFolder', value: ' ' }))).toBe('URL folder is required');
+    expect(validateScenarioAdjustment(createAdjustment({ mode: 'position', amount: 101 })))
+      .toBe('Target position must be a whole number from 1 to 100');
+    expect(validateScenarioAdjustment(createAdjustment({ amount: 1.5 })))
+      .toBe('Positions gained must be a whole number from 1 to 99');
+  });
+});
+
+describe('describeAdjustment', () => {
+  it('summarises each target type', () => {
+    expect(describeAdjustment(createAdjustment())).toBe('Skincare keywords gain 3 positions');
+    expect(describeAdjustment(createAdjustment({ target: 'keyword', value: 'serum', mode: 'position', amount: 1 }))).toBe('"serum" moves to #1');
+    expect(describeAdjustment(createAdjustment({ target: 'urlFolder', value: 'Haarpflege/', amount: 1 }))).toBe('Pages in /haarpflege gain 1 position');
+  });
+});
+
+describe('listUrlFolders', () => {
+  it('groups ranking URLs by first-level folder, biggest first', () => {
+    expect(listUrlFolders([...keywords, createKeyword({ url: 'https://lavera.de/' }), createKeyword({ url: undefined })])).toEqual([
+      { folder: '/gesichtspflege', keywordCount: 2, volume: 3000 },
+      { folder: '/haarpflege', keywordCount: 1, volume: 1000 },
+    ]);
+  });
+});
+
+describe('duplicateScenario', () => {
+  it('copies adjustments with new IDs', () => {
+    const original: RankingScenario = {
+      id: 'scenario-1',
+      name: 'Skincare push',
+      adjustments: [createAdjustment()],
+      createdAt: '2024-06-01T00:00:00.000Z',
+      updatedAt: '2024-06-01T00:00:00.000Z',
+    };
+    const copy = duplicateScenario(original, 'Skincare push (copy)');
+
+    expect(copy.id).not.toBe(original.id);
+    expect(copy.adjustments[0].id).not.toBe('adjustment-1');
+    expect(copy.adjustments[0]).toMatchObject({ target: 'category', value: 'Skincare', mode: 'gain', amount: 3 });
+    expect(createScenarioAdjustment().amount).toBe(3);
+  });
+});
@@ -0,0 +1,233 @@
+import type {
+  CTRModel,
+  RankedKeyword,
+  RankingScenario,
+  ScenarioAdjustment,
+  ScenarioKeywordResult,
+  ScenarioResult,
+  ScenarioTargetType
+} from '../types';
+import { calculateGrowthGap, calculateSOV, getCTR } from './calculations';
+import { urlPath } from './taxonomy';
+
+/**
+ * What-if ranking scenarios
+ * A scenario is an ordered list of position changes for single keywords, whole
+ * categories or URL folders. Simulating it re-runs the SOV calculation with the
+ * changed positions, so results use the same CTR model as the live analysis.
+ */
+
+export const SCENARIO_TARGET_TYPES: { id: ScenarioTargetType; label: string; placeholder: string }[] = [
+  { id: 'keyword', label: 'Keyword', placeholder: 'gesichtscreme' },
+  { id: 'category', label: 'Category', placeholder: 'Skincare' },
+  { id: 'urlFolder', label: 'URL folder', placeholder: '/gesichtspflege' }
+];
+
+// Deepest position a scenario can move a keyword to
+export const MAX_SCENARIO_POSITION = 100;
+
+const TARGET_TYPE_IDS = new Set<string>(SCENARIO_TARGET_TYPES.map(t => t.id));
+
+type KeywordMatcher = (kw: RankedKeyword) => boolean;
+
+export interface ScenarioOptions {
+  categorize: (kw: RankedKeyword) => string;
+  shareOfSearch: number;
+  model?: CTRModel;
+  applySerpAdjustments?: boolean;
+}
+
+// Folder path without a trailing slash; the site root becomes ''
+const toFolder = (value: string): string => urlPath(value.trim()).replace(/\/+$/, '');
+
+// ==========================================
+// SCENARIO EDITING
+// ==========================================
+
+export function createScenario(name: string, adjustments: ScenarioAdjustment[] = []): RankingScenario {
+  const now = new Date().toISOString();
+  return {
+    id: `scenario_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    name,
+    adjustments,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+export function createScenarioAdjustment(overrides: Partial<Omit<ScenarioAdjustment, 'id'>> = {}): ScenarioAdjustment {
+  return {
+    id: `adjustment_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    target: 'category',
+    value: '',
+    mode: 'gain',
+    amount: 3,
+    ...overrides
+  };
+}
+
+// Copy with fresh IDs, so editing the copy leaves the original alone
+export function duplicateScenario(scenario: RankingScenario, name: string): RankingScenario {
+  return createScenario(name, scenario.adjustments.map(({ target, value, mode, amount }) =>
+    createScenarioAdjustment({ target, value, mode, amount })
+  ));
+}
+
+/**
+ * Check an adjustment for errors the editor should show
+ * @returns The error message, or null for a valid adjustment
+ */
+export function validateScenarioAdjustment(adjustment: Pick<ScenarioAdjustment, 'target' | 'value' | 'mode' | 'amount'>): string | null {
+  if (!TARGET_TYPE_IDS.has(adjustment.target)) return `Unknown target "${adjustment.target}"`;
+  if (!adjustment.value.trim()) {
+    return adjustment.target === 'urlFolder' ? 'URL folder is required' : `${adjustment.target === 'keyword' ? 'Keyword' : 'Category'} is required`;
+  }
+
+  if (adjustment.mode === 'position') {
+    if (!Number.isInteger(adjustment.amount) || adjustment.amount < 1 || adjustment.amount > MAX_SCENARIO_POSITION) {
+      return `Target position must be a whole number from 1 to ${MAX_SCENARIO_POSITION}`;
+    }
+  } else if (adjustment.mode === 'gain') {
+    if (!Number.isInteger(adjustment.amount) || adjustment.amount < 1 || adjustment.amount >= MAX_SCENARIO_POSITION) {
+      return `Positions gained must be a whole number from 1 to ${MAX_SCENARIO_POSITION - 1}`;
+    }
+  } else {
+    return `Unknown mode "${adjustment.mode}"`;
+  }
+  return null;
+}
+
+/**
+ * One-line summary for lists, e.g. 'Skincare keywords gain 3 positions'
+ */
+export function describeAdjustment(adjustment: ScenarioAdjustment): string {
+  const value = adjustment.value.trim();
+  const subject = adjustment.target === 'keyword'
+    ? `"${value}"`
+    : adjustment.target === 'category'
+      ? `${value} keywords`
+      : `Pages in ${toFolder(value) || '/'}`;
+  const plural = adjustment.target !== 'keyword';
+
+  if (adjustment.mode === 'position') {
+    return `${subject} ${plural ? 'move' : 'moves'} to #${adjustment.amount}`;
+  }
+  const positions = `${adjustment.amount} position${adjustment.amount === 1 ? '' : 's'}`;
+  return `${subject} ${plural ? 'gain' : 'gains'} ${positions}`;
+}
+
+// ==========================================
+// TARGET SUGGESTIONS
+// ==========================================
+
+/**
+ * First-level URL folders the site ranks with, by search volume
+ * Offered as targets in the editor; adjustments can also name deeper folders.
+ */
+export function listUrlFolders(keywords: RankedKeyword[]): { folder: string; keywordCount: number; volume: number }[] {
+  const folders = new Map<string, { keywordCount: number; volume: number }>();
+  for (const kw of keywords) {
+    if (!kw.url) continue;
+    const folder = urlPath(kw.url).split(/[?#]/)[0].match(/^\/[^/]+(?=\/)/)?.[0];
+    if (!folder) continue;
+    const entry = folders.get(folder) || { keywordCount: 0, volume: 0 };
+    entry.keywordCount += 1;
+    entry.volume += kw.searchVolume;
+    folders.set(folder, entry);
+  }
+  return [...folders.entries()]
+    .map(([folder, entry]) => ({ folder, ...entry }))
+    .sort((a, b) => b.volume - a.volume);
+}
+
+// ==========================================
+// SIMULATION
+// ==========================================
+
+function compileAdjustment(adjustment: ScenarioAdjustment, categorize: (kw: RankedKeyword) => string): KeywordMatcher {
+  const value = adjustment.value.trim().toLowerCase();
+  switch (adjustment.target) {
+    case 'keyword':
+      return kw => kw.keyword.trim().toLowerCase() === value;
+    case 'category':
+      return kw => categorize(kw).toLowerCase() === value;
+    case 'urlFolder': {
+      const folder = toFolder(value);
+      return kw => {
+        if (!kw.url) return false;
+        const path = urlPath(kw.url);
+        return path === folder || path.startsWith(`${folder}/`);
+      };
+    }
+  }
+}
+
+function applyAdjustment(position: number, adjustment: ScenarioAdjustment): number {
+  if (adjustment.mode === 'position') return adjustment.amount;
+  // Gains only move keywords that already rank
+  return position > 0 ? Math.max(1, position - adjustment.amount) : position;
+}
+
+/**
+ * Recalculate SOV, visible volume, Growth Gap and clicks with a scenario's positions
+ * Adjustments apply top to bottom, so a later one overrides an earlier one for the
+ * keywords both match; invalid adjustments are skipped. Simulating a scenario with
+ * no adjustments gives the baseline.
+ */
+export function simulateScenario(
+  keywords: RankedKeyword[],
+  scenario: Pick<RankingScenario, 'adjustments'>,
+  options: ScenarioOptions
+): ScenarioResult {
+  const { categorize, shareOfSearch, model, applySerpAdjustments = false } = options;
+  const adjustments = scenario.adjustments
+    .filter(adjustment => !validateScenarioAdjustment(adjustment))
+    .map(adjustment => ({ adjustment, matches: compileAdjustment(adjustment, categorize) }));
+
+  const ctrAt = (kw: RankedKeyword, position: number) =>
+    getCTR(position, model, applySerpAdjustments ? kw.serpFeatures : undefined);
+
+  // Search Console clicks move by the curve's CTR ratio, so the site's own click level is kept
+  const clicksAt = (kw: RankedKeyword, position: number) => {
+    const baseCTR = ctrAt(kw, kw.position);
+    if (kw.actualClicks === undefined || baseCTR === 0) return kw.searchVolume * ctrAt(kw, position);
+    return Math.min(kw.actualClicks * ctrAt(kw, position) / baseCTR, kw.searchVolume);
+  };
+
+  const rows: ScenarioKeywordResult[] = keywords.map(kw => {
+    const position = adjustments.reduce(
+      (current, { adjustment, matches }) => matches(kw) ? applyAdjustment(current, adjustment) : current,
+      kw.position
+    );
+    return {
+      keyword: kw.keyword,
+      searchVolume: kw.searchVolume,
+      url: kw.url,
+      category: categorize(kw),
+      basePosition: kw.position,
+      position,
+      baseClicks: Math.round(clicksAt(kw, kw.position)),
+      clicks: Math.round(clicksAt(kw, position))
+    };
+  });
+
+  const sov = calculateSOV(
+    keywords.map((kw, i) => ({
+      ...kw,
+      position: rows[i].position,
+      actualClicks: kw.actualClicks === undefined ? undefined : clicksAt(kw, rows[i].position)
+    })),
+    { model, applySerpAdjustments }
+  );
+
+  return {
+    shareOfVoice: sov.shareOfVoice,
+    visibleVolume: sov.visibleVolume,
+    totalMarketVolume: sov.totalMarketVolume,
+    gap: calculateGrowthGap(shareOfSearch, sov.shareOfVoice),
+    clickChange: rows.reduce((sum, row) => sum + row.clicks - row.baseClicks, 0),
+    changedKeywords: rows
+      .filter(row => row.position !== row.basePosition)
+      .sort((a, b) => Math.abs(b.clicks - b.baseClicks) - Math.abs(a.clicks - a.baseClicks))
+  };
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateByQuery,
+  applySearchConsoleClicks,
+  calibrateCTR,
+  createCalibratedCTRModel,
+  parseSearchConsoleExport,
+} from './searchConsole';
+import { DEFAULT_CTR_MODEL } from './ctrModels';
+import type { RankedKeyword, SearchConsoleImport, SearchConsoleRow } from '../types';
+
+const createRow = (overrides: Partial<SearchConsoleRow> = {}): SearchConsoleRow => ({
+  query: 'naturkosmetik',
+  page: 'https://lavera.de/naturkosmetik',
+  clicks: 300,
+  impressions: 1000,
+  position: 1.2,
+  ...overrides,
+});
+
+const createImport = (overrides: Partial<SearchConsoleImport> = {}): SearchConsoleImport => ({
+  fileName: 'Queries.csv',
+  importedAt: '2026-10-01T00:00:00.000Z',
+  periodDays: 30,
+  excludeBranded: true,
+  rows: [createRow()],
+  ...overrides,
+});
+
+describe('parseSearchConsoleExport', () => {
+  it('reads a CSV export by its header names', () => {
+    const csv = [
+      'Top queries,Clicks,Impressions,CTR,Position',
+      'naturkosmetik,"1,200",4800,25%,1.4',
+      '"bio shampoo, vegan",12,900,1.33%,8.2',
+    ].join('\n');
+
+    expect(parseSearchConsoleExport(csv)).toEqual({
+      success: true,
+      data: [
+        { query: 'naturkosmetik', page: undefined, clicks: 1200, impressions: 4800, position: 1.4 },
+        { query: 'bio shampoo, vegan', page: undefined, clicks: 12, impressions: 900, position: 8.2 },
+      ],
+    });
+  });
+
+  it('reads semicolon files with decimal commas and a page column', () => {
+    const result = parseSearchConsoleExport('query;page;clicks;impressions;position\nnaturkosmetik;/naturkosmetik;10;200;3,5');
+    expect(result.data).toEqual([{ query: 'naturkosmetik', page: '/naturkosmetik', clicks: 10, impressions: 200, position: 3.5 }]);
+  });
+
+  it('reads JSON rows and Search Analytics API responses', () => {
+    expect(parseSearchConsoleExport(JSON.stringify([createRow()])).data).toEqual([createRow()]);
+    expect(parseSearchConsoleExport(JSON.stringify({
+      rows: [{ keys: ['naturkosmetik', '/naturkosmetik'], clicks: 5, impressions: 50, ctr: 0.1, position: 2 }],
+    })).data).toEqual([{ query: 'naturkosmetik', page: '/naturkosmetik', clicks: 5, impressions: 50, position: 2 }]);
+  });
+
+  it('reports missing columns and invalid rows', () => {
+    expect(parseSearchConsoleExport('query,clicks\nfoo,1').error).toBe('Missing columns: impressions, position');
+    expect(parseSearchConsoleExport('query,clicks,impressions,position\nfoo,10,5,1').error)
+      .toBe('Row 2: impressions must be at least the clicks');
+    expect(parseSearchConsoleExport('[]').error).toBe('No rows found');
+    expect(parseSearchConsoleExport('{"rows":').error).toBe('File is not valid JSON');
+  });
+});
+
+describe('aggregateByQuery', () => {
+  it('sums pages per query with an impression-weighted position', () => {
+    const totals = aggregateByQuery([
+      createRow({ query: 'Naturkosmetik ', clicks: 100, impressions: 300, position: 1 }),
+      createRow({ page: '/other', clicks: 10, impressions: 100, position: 5 }),
+    ]);
+
+    expect(totals.get('naturkosmetik')).toEqual({ clicks: 110, impressions: 400, position: 2 });
+  });
+});
+
+describe('applySearchConsoleClicks', () => {
+  const keywords: RankedKeyword[] = [
+    { keyword: 'naturkosmetik', searchVolume: 22200, position: 4 },
+    { keyword: 'bio shampoo', searchVolume: 5400, position: 8, actualClicks: 99 },
+  ];
+
+  it('sets monthly clicks on matched keywords and clears stale ones', () => {
+    const result = applySearchConsoleClicks(keywords, createImport({ periodDays: 91.3125 }));
+
+    // 300 clicks over a quarter is 100 a month
+    expect(result.map(k => k.actualClicks)).toEqual([100, undefined]);
+    expect(applySearchConsoleClicks(keywords, null).every(k => k.actualClicks === undefined)).toBe(true);
+  });
+});
+
+describe('calibrateCTR', () => {
+  it('compares actual with modelled CTR and fits a falling curve', () => {
+    const report = calibrateCTR([
+      createRow({ position: 1.2, clicks: 350, impressions: 1000 }),
+      createRow({ query: 'vegane kosmetik', position: 2.4, clicks: 20, impressions: 500 }),
+      createRow({ query: 'bio kosmetik', position: 3, clicks: 60, impressions: 500 }),
+    ], DEFAULT_CTR_MODEL)!;
+
+    expect(report.reliablePositions).toBe(3);
+    expect(report.points[0]).toMatchObject({ position: 1, actualCTR: 0.35, modelledCTR: 0.28, fittedCTR: 0.35 });
+    // #2 (4%) and #3 (12%) violate the falling order, so both get their pooled 8%
+    expect(report.points[1]).toMatchObject({ actualCTR: 0.04, fittedCTR: 0.08 });
+    expect(report.points[2]).toMatchObject({ actualCTR: 0.12, fittedCTR: 0.08 });
+    expect(report.points.every((p, i) => i === 0 || p.fittedCTR <= report.points[i - 1].fittedCTR)).toBe(true);
+  });
+
+  it('scales the model where positions lack impressions', () => {
+    const report = calibrateCTR([createRow({ position: 1, clicks: 140, impressions: 1000 })], DEFAULT_CTR_MODEL)!;
+
+    // Half the modelled CTR at #1, so every other position gets half of the model too
+    expect(report.scale).toBe(0.5);
+    expect(report.points[4]).toMatchObject({ position: 5, impressions: 0, actualCTR: null, fittedCTR: 0.02 });
+  });
+
+  it('leaves out branded queries and returns null without enough impressions', () => {
+    const rows = [createRow({ query: 'lavera creme' }), createRow({ impressions: 99, clicks: 1 })];
+
+    expect(calibrateCTR(rows, DEFAULT_CTR_MODEL, ['Lavera'])).toBeNull();
+    expect(calibrateCTR(rows, DEFAULT_CTR_MODEL)?.queryCount).toBe(2);
+  });
+});
+
+describe('createCalibratedCTRModel', () => {
+  it('builds a custom model from the fitted curve', () => {
+    const report = calibrateCTR([createRow({ position: 1, clicks: 140, impressions: 1000 })], DEFAULT_CTR_MODEL)!;
+    const model = createCalibratedCTRModel(report, DEFAULT_CTR_MODEL, 'www.Lavera.de');
+
+    expect(model).toMatchObject({ id: 'custom-gsc-lavera-de', name: 'Search Console: www.Lavera.de', source: 'custom', defaultCTR: 0.0005 });
+    expect(model.curve[1]).toBe(0.14);
+    expect(Object.keys(model.curve)).toHaveLength(20);
+  });
+});
@@ -0,0 +1,290 @@
+import type {
+  CTRCalibrationPoint,
+  CTRCalibrationReport,
+  CTRModel,
+  RankedKeyword,
+  SearchConsoleImport,
+  SearchConsoleRow
+} from '../types';
+import type { ValidationResult } from '../../shared/validation';
+import { getCTR } from './calculations';
+import { detectSeparator, parseCSVNumber, readCSVLines, splitCSVLine } from './csv';
+
+/**
+ * Google Search Console import
+ * Joins real clicks from a performance export to ranked keywords, so SOV counts
+ * measured clicks instead of volume × modelled CTR where the site has data, and
+ * calibrates the CTR curve against the site's actual CTR per position.
+ */
+
+// Positions the calibration report covers; deeper positions use the curve's default CTR
+export const CALIBRATION_MAX_POSITION = 20;
+
+// Below this many impressions a position's CTR is too noisy to use
+export const MIN_CALIBRATION_IMPRESSIONS = 100;
+
+// Search Console's performance report defaults to the last 3 months
+export const DEFAULT_PERIOD_DAYS = 90;
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+const HEADER_ALIASES: Record<keyof SearchConsoleRow, string[]> = {
+  query: ['query', 'queries', 'top queries', 'search query'],
+  page: ['page', 'pages', 'top pages', 'landing page', 'url'],
+  clicks: ['clicks'],
+  impressions: ['impressions'],
+  position: ['position', 'average position', 'avg. position']
+};
+
+const normalizeQuery = (query: string): string => query.toLowerCase().trim().replace(/\s+/g, ' ');
+
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// ==========================================
+// IMPORT
+// ==========================================
+
+const validateRow = (row: SearchConsoleRow): string | null => {
+  if (!row.query) return 'query is required';
+  if (!Number.isFinite(row.clicks) || row.clicks < 0) return 'clicks must be a number of 0 or more';
+  if (!Number.isFinite(row.impressions) || row.impressions < row.clicks) return 'impressions must be at least the clicks';
+  if (!Number.isFinite(row.position) || row.position < 1) return 'position must be 1 or more';
+  return null;
+};
+
+function parseCSV(text: string): ValidationResult<SearchConsoleRow[]> {
+  const lines = readCSVLines(text);
+  if (lines.length < 2) return { success: false, error: 'No rows found' };
+
+  const separator = detectSeparator(lines[0]);
+  const header = splitCSVLine(lines[0], separator).map(cell => cell.toLowerCase());
+  const column = (field: keyof SearchConsoleRow) => header.findIndex(cell => HEADER_ALIASES[field].includes(cell));
+
+  const columns = {
+    query: column('query'),
+    page: column('page'),
+    clicks: column('clicks'),
+    impressions: column('impressions'),
+    position: column('position')
+  };
+  const missing = (['query', 'clicks', 'impressions', 'position'] as const).filter(field => columns[field] < 0);
+  if (missing.length > 0) return { success: false, error: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` };
+
+  const rows: SearchConsoleRow[] = [];
+  for (const [index, line] of lines.slice(1).entries()) {
+    const cells = splitCSVLine(line, separator);
+    const row: SearchConsoleRow = {
+      query: cells[columns.query] ?? '',
+      page: columns.page >= 0 ? cells[columns.page] || undefined : undefined,
+      clicks: parseCSVNumber(cells[columns.clicks], separator === ';'),
+      impressions: parseCSVNumber(cells[columns.impressions], separator === ';'),
+      position: parseCSVNumber(cells[columns.position], separator === ';')
+    };
+    const error = validateRow(row);
+    if (error) return { success: false, error: `Row ${index + 2}: ${error}` };
+    rows.push(row);
+  }
+
+  return { success: true, data: rows };
+}
+
+function parseJSON(text: string): ValidationResult<SearchConsoleRow[]> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'File is not valid JSON' };
+  }
+
+  // Search Analytics API responses wrap rows as { rows: [{ keys: [query, page], ... }] }
+  const items = Array.isArray(raw) ? raw : (raw as { rows?: unknown } | null)?.rows;
+  if (!Array.isArray(items)) return { success: false, error: 'Expected an array of rows or a { rows } object' };
+
+  const rows: SearchConsoleRow[] = [];
+  for (const [index, item] of items.entries()) {
+    const obj = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+    const keys = Array.isArray(obj.keys) ? obj.keys : [];
+    const query = obj.query ?? keys[0];
+    const page = obj.page ?? keys[1];
+    const row: SearchConsoleRow = {
+      query: typeof query === 'string' ? query.trim() : '',
+      page: typeof page === 'string' && page ? page : undefined,
+      clicks: parseCSVNumber(obj.clicks, false),
+      impressions: parseCSVNumber(obj.impressions, false),
+      position: parseCSVNumber(obj.position, false)
+    };
+    const error = validateRow(row);
+    if (error) return { success: false, error: `Row ${index + 1}: ${error}` };
+    rows.push(row);
+  }
+
+  return { success: true, data: rows };
+}
+
+/**
+ * Parse a Search Console performance export
+ * CSV (comma, semicolon or tab separated, with a header naming at least query,
+ * clicks, impressions and position) or JSON: an array of row objects or a Search
+ * Analytics API response with query and page as its keys.
+ */
+export function parseSearchConsoleExport(text: string): ValidationResult<SearchConsoleRow[]> {
+  const trimmed = text.trim();
+  if (!trimmed) return { success: false, error: 'No rows found' };
+
+  const result = trimmed.startsWith('[') || trimmed.startsWith('{') ? parseJSON(trimmed) : parseCSV(trimmed);
+  if (result.success && result.data!.length === 0) return { success: false, error: 'No rows found' };
+  return result;
+}
+
+// ==========================================
+// CLICK REPLACEMENT
+// ==========================================
+
+/**
+ * Total clicks and impressions per query, across all pages
+ * Position is the impression-weighted average of the rows.
+ */
+export function aggregateByQuery(rows: SearchConsoleRow[]): Map<string, { clicks: number; impressions: number; position: number }> {
+  const totals = new Map<string, { clicks: number; impressions: number; weightedPosition: number }>();
+  for (const row of rows) {
+    const key = normalizeQuery(row.query);
+    const total = totals.get(key) || { clicks: 0, impressions: 0, weightedPosition: 0 };
+    total.clicks += row.clicks;
+    total.impressions += row.impressions;
+    total.weightedPosition += row.position * row.impressions;
+    totals.set(key, total);
+  }
+
+  return new Map([...totals].map(([query, t]) => [query, {
+    clicks: t.clicks,
+    impressions: t.impressions,
+    position: t.impressions > 0 ? round(t.weightedPosition / t.impressions, 1) : 0
+  }]));
+}
+
+/**
+ * Set monthly Search Console clicks on the ranked keywords the export covers
+ * Clicks are scaled from the export's period to a month to match search volumes.
+ * Without an import every keyword falls back to the CTR estimate.
+ */
+export function applySearchConsoleClicks(keywords: RankedKeyword[], data: SearchConsoleImport | null): RankedKeyword[] {
+  const byQuery = data ? aggregateByQuery(data.rows) : new Map();
+  const periodDays = data?.periodDays || DEFAULT_PERIOD_DAYS;
+
+  return keywords.map(kw => {
+    const match = byQuery.get(normalizeQuery(kw.keyword));
+    return {
+      ...kw,
+      actualClicks: match ? Math.round(match.clicks * DAYS_PER_MONTH / periodDays) : undefined
+    };
+  });
+}
+
+// Keywords with real clicks and how far those are from what the curve would estimate
+export function compareClicks(
+  keywords: RankedKeyword[],
+  model?: CTRModel
+): { matchedKeywords: number; actualClicks: number; estimatedClicks: number } {
+  const matched = keywords.filter(kw => kw.actualClicks !== undefined && !kw.isDiscarded);
+  return {
+    matchedKeywords: matched.length,
+    actualClicks: matched.reduce((sum, kw) => sum + (kw.actualClicks ?? 0), 0),
+    estimatedClicks: Math.round(matched.reduce((sum, kw) => sum + kw.searchVolume * getCTR(kw.position, model), 0))
+  };
+}
+
+// ==========================================
+// CTR CALIBRATION
+// ==========================================
+
+// Weighted pool-adjacent-violators: closest non-increasing sequence to the values
+const fitNonIncreasing = (values: number[], weights: number[]): number[] => {
+  const blocks: Array<{ value: number; weight: number; count: number }> = [];
+  values.forEach((value, i) => {
+    blocks.push({ value, weight: weights[i], count: 1 });
+    while (blocks.length > 1 && blocks[blocks.length - 2].value < blocks[blocks.length - 1].value) {
+      const last = blocks.pop()!;
+      const prev = blocks[blocks.length - 1];
+      const weight = prev.weight + last.weight;
+      prev.value = (prev.value * prev.weight + last.value * last.weight) / weight;
+      prev.weight = weight;
+      prev.count += last.count;
+    }
+  });
+  return blocks.flatMap(block => Array<number>(block.count).fill(block.value));
+};
+
+/**
+ * Compare the site's actual CTR per position with a CTR model
+ * Rows are bucketed by rounded average position. Positions with enough impressions
+ * keep their actual CTR; the rest use the model scaled to the site's overall click
+ * level, and the fitted curve is then forced to fall with position.
+ * @param excludeTerms - Queries containing any of these (e.g. brand names) are left out
+ * @returns null when no position has enough impressions to calibrate against
+ */
+export function calibrateCTR(
+  rows: SearchConsoleRow[],
+  model: CTRModel,
+  excludeTerms: string[] = []
+): CTRCalibrationReport | null {
+  const terms = excludeTerms.map(normalizeQuery).filter(Boolean);
+  const used = rows.filter(row =>
+    row.position < CALIBRATION_MAX_POSITION + 0.5 &&
+    !terms.some(term => normalizeQuery(row.query).includes(term))
+  );
+
+  const points = Array.from({ length: CALIBRATION_MAX_POSITION }, (_, i) => {
+    const position = i + 1;
+    const bucket = used.filter(row => Math.round(row.position) === position);
+    const impressions = bucket.reduce((sum, row) => sum + row.impressions, 0);
+    const clicks = bucket.reduce((sum, row) => sum + row.clicks, 0);
+    return {
+      position,
+      impressions,
+      clicks,
+      actualCTR: impressions >= MIN_CALIBRATION_IMPRESSIONS ? clicks / impressions : null,
+      modelledCTR: getCTR(position, model)
+    };
+  });
+
+  const reliable = points.filter(p => p.actualCTR !== null);
+  if (reliable.length === 0) return null;
+
+  const modelledClicks = reliable.reduce((sum, p) => sum + p.impressions * p.modelledCTR, 0);
+  const scale = modelledClicks > 0 ? reliable.reduce((sum, p) => sum + p.clicks, 0) / modelledClicks : 1;
+
+  const fitted = fitNonIncreasing(
+    points.map(p => p.actualCTR ?? p.modelledCTR * scale),
+    points.map(p => (p.actualCTR !== null ? p.impressions : MIN_CALIBRATION_IMPRESSIONS))
+  );
+
+  return {
+    points: points.map((p, i): CTRCalibrationPoint => ({
+      ...p,
+      actualCTR: p.actualCTR === null ? null : round(p.actualCTR, 4),
+      fittedCTR: round(Math.min(fitted[i], 1), 4)
+    })),
+    queryCount: new Set(used.map(row => normalizeQuery(row.query))).size,
+    reliablePositions: reliable.length,
+    scale: round(scale, 2)
+  };
+}
+
+/**
+ * Turn a calibration into a custom CTR model the project can select
+ * Positions past the report use the original model's default CTR, scaled the same way.
+ */
+export function createCalibratedCTRModel(report: CTRCalibrationReport, model: CTRModel, domain: string): CTRModel {
+  const slug = domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return {
+    id: `custom-gsc-${slug || 'site'}`,
+    name: `Search Console: ${domain}`,
+    description: `Fitted to ${report.queryCount} queries from Search Console (${report.reliablePositions} positions with ${MIN_CALIBRATION_IMPRESSIONS}+ impressions), starting from ${model.name}`,
+    curve: Object.fromEntries(report.points.map(p => [p.position, p.fittedCTR])),
+    defaultCTR: round(Math.min(model.defaultCTR * report.scale, 1), 5),
+    source: 'custom'
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { calculateSeasonalSOS, estimateSeasonalIndices } from '../../shared/seasonality';
+import type { BrandKeywordHistory } from '../types';
+
+// Monthly history starting January 2024, one volume per month
+const createHistory = (overrides: Partial<BrandKeywordHistory> = {}, volumes: number[] = [100]): BrandKeywordHistory => ({
+  keyword: 'lavera',
+  searchVolume: volumes[volumes.length - 1],
+  isOwnBrand: true,
+  monthlySearches: volumes.map((searchVolume, i) => ({
+    year: 2024 + Math.floor(i / 12),
+    month: (i % 12) + 1,
+    searchVolume,
+  })),
+  ...overrides,
+});
+
+// Winter tyre style season: high from October to March, low in summer
+const WINTER_SEASON = [2, 2, 1, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 1, 2, 2];
+const seasonal = (months: number, base: number) =>
+  Array.from({ length: months }, (_, i) => base * WINTER_SEASON[i % 12]);
+
+describe('calculateSeasonalSOS', () => {
+  it('computes monthly and volume-weighted rolling SOS', () => {
+    const result = calculateSeasonalSOS([
+      createHistory({}, [10, 20, 30]),
+      createHistory({ keyword: 'weleda', isOwnBrand: false }, [90, 80, 70]),
+    ]);
+
+    expect(result.points.map(p => [p.period, p.sos, p.rolling3, p.rolling12])).toEqual([
+      ['2024-01', 10, null, null],
+      ['2024-02', 20, null, null],
+      ['2024-03', 30, 20, null],
+    ]);
+    expect(result.seasonality).toBe('none');
+    expect(result.latest).toEqual({
+      rolling3: { sos: 20, brandVolume: 20, totalVolume: 100, from: '2024-01', to: '2024-03' },
+    });
+  });
+
+  it('removes a competitor season from the adjusted SOS with two years of history', () => {
+    const result = calculateSeasonalSOS([
+      createHistory({}, new Array(24).fill(100)),
+      createHistory({ keyword: 'winter tyres brand', isOwnBrand: false }, seasonal(24, 200)),
+    ]);
+
+    const monthly = result.points.map(p => p.sos);
+    const adjusted = result.points.map(p => p.seasonallyAdjusted!);
+
+    expect(result.seasonality).toBe('classical');
+    expect(Math.max(...monthly) - Math.min(...monthly)).toBeGreaterThan(25);
+    expect(Math.max(...adjusted) - Math.min(...adjusted)).toBeLessThanOrEqual(0.1);
+    expect(result.latest.seasonallyAdjusted?.sos).toBeCloseTo(31.6, 1);
+  });
+
+  it('reads a growing brand from the adjusted SOS where rolling 12 months still lags', () => {
+    // Four years: own brand grows 2% a month with a summer peak, the competitor is flat with a winter peak
+    const summer = [0.7, 0.8, 1, 1.2, 1.3, 1.4, 1.4, 1.2, 1, 0.8, 0.6, 0.6];
+    const own = Array.from({ length: 48 }, (_, i) => Math.round(1000 * 1.02 ** i * summer[i % 12]));
+    const result = calculateSeasonalSOS([
+      createHistory({}, own),
+      createHistory({ keyword: 'winter tyres brand', isOwnBrand: false }, seasonal(48, 3000)),
+    ]);
+
+    expect(result.seasonality).toBe('classical');
+    const { seasonallyAdjusted, rolling12 } = result.latest;
+    expect(seasonallyAdjusted!.sos - rolling12!.sos).toBeGreaterThan(5);
+  });
+
+  it('falls back to the latest year as the seasonal profile with 12-23 months', () => {
+    const result = calculateSeasonalSOS([
+      createHistory({}, [50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150, 160]),
+      createHistory({ keyword: 'weleda', isOwnBrand: false }, seasonal(12, 200)),
+    ]);
+
+    expect(result.seasonality).toBe('annual-profile');
+    expect(result.latest.seasonallyAdjusted?.sos).toBe(result.latest.rolling12?.sos);
+  });
+
+  it('groups monthly volumes per brand with unmatched competitors as Other', () => {
+    const result = calculateSeasonalSOS([
+      createHistory({}, [100, 100]),
+      createHistory({ keyword: 'lavera shop' }, [10, 20]),
+      createHistory({ keyword: 'weleda', isOwnBrand: false }, [200, 300]),
+      createHistory({ keyword: 'sante', isOwnBrand: false }, [5, 5]),
+    ], [
+      { brand: 'lavera', isOwnBrand: true },
+      { brand: 'weleda', isOwnBrand: false },
+    ]);
+
+    expect(result.brands).toEqual([
+      { brand: 'lavera', isOwnBrand: true, volumes: [110, 120] },
+      { brand: 'weleda', isOwnBrand: false, volumes: [200, 300] },
+      { brand: 'Other', isOwnBrand: false, volumes: [5, 5] },
+    ]);
+  });
+});
+
+describe('estimateSeasonalIndices', () => {
+  it('averages to 1 over the year and is flat without a full year', () => {
+    const months = Array.from({ length: 24 }, (_, i) => (i % 12) + 1);
+    const { indices } = estimateSeasonalIndices(seasonal(24, 100), months);
+
+    expect(indices.reduce((sum, v) => sum + v, 0) / 12).toBeCloseTo(1, 5);
+    expect(indices[0]).toBeGreaterThan(indices[6]);
+    expect(estimateSeasonalIndices([1, 2, 3], [1, 2, 3])).toEqual({ indices: new Array(12).fill(1), method: 'none' });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { extractSerpFeatures, findFeatureOpportunities, getFeatureShareOfVoice } from '../../shared/serpFeatures';
+import type { SerpResultItem } from '../../shared/serpFeatures';
+import type { RankCheck, SerpFeatureCheck, SerpFeatureSlot, WatchedKeyword } from '../types';
+
+const createFeatureCheck = (overrides: Partial<SerpFeatureCheck> = {}): SerpFeatureCheck => ({
+  keyword: 'naturkosmetik',
+  features: [],
+  checkedAt: '2026-10-12T05:00:00.000Z',
+  ...overrides,
+});
+
+const slot = (feature: SerpFeatureSlot['feature'], owner: string | null): SerpFeatureSlot => ({
+  feature,
+  owner,
+  url: owner ? `https://${owner}/` : null,
+});
+
+const watched: WatchedKeyword[] = [
+  { keyword: 'naturkosmetik', searchVolume: 30000 },
+  { keyword: 'bio shampoo', searchVolume: 10000 },
+];
+
+describe('extractSerpFeatures', () => {
+  it('records who holds each placement of every feature', () => {
+    const items: SerpResultItem[] = [
+      { type: 'featured_snippet', rank_group: 1, domain: 'www.weleda.de', url: 'https://www.weleda.de/ratgeber' },
+      { type: 'organic', rank_group: 1, domain: 'www.lavera.de', url: 'https://www.lavera.de/' },
+      {
+        type: 'people_also_ask',
+        rank_group: 1,
+        items: [
+          { expanded_element: [{ domain: 'shop.lavera.de', url: 'https://shop.lavera.de/faq' }] },
+          { expanded_element: null },
+        ],
+      },
+      { type: 'video', rank_group: 1, items: [{ url: 'https://www.youtube.com/watch?v=abc' }] },
+      { type: 'local_pack', rank_group: 1, domain: null, url: null },
+      { type: 'related_searches', rank_group: 1, items: [{ url: 'https://www.google.com/' }] },
+    ];
+
+    expect(extractSerpFeatures(items)).toEqual([
+      { feature: 'featured_snippet', owner: 'weleda.de', url: 'https://www.weleda.de/ratgeber' },
+      { feature: 'people_also_ask', owner: 'shop.lavera.de', url: 'https://shop.lavera.de/faq' },
+      { feature: 'people_also_ask', owner: null, url: null },
+      { feature: 'video', owner: 'youtube.com', url: 'https://www.youtube.com/watch?v=abc' },
+      { feature: 'local_pack', owner: null, url: null },
+    ]);
+  });
+});
+
+describe('getFeatureShareOfVoice', () => {
+  it('weights placement shares by keyword volume on the latest check', () => {
+    const checks = [
+      createFeatureCheck({ features: [slot('featured_snippet', 'lavera.de')], checkedAt: '2026-10-11T05:00:00.000Z' }),
+      createFeatureCheck({
+        features: [slot('featured_snippet', 'weleda.de'), slot('people_also_ask', 'shop.lavera.de'), slot('people_also_ask', 'weleda.de')],
+      }),
+      createFeatureCheck({ keyword: 'bio shampoo', features: [slot('featured_snippet', 'lavera.de')] }),
+    ];
+
+    expect(getFeatureShareOfVoice(checks, watched, ['lavera.de', 'weleda.de'])).toEqual([
+      { feature: 'featured_snippet', keywords: 2, searchVolume: 40000, presence: 100, shares: { 'lavera.de': 25, 'weleda.de': 75 } },
+      { feature: 'people_also_ask', keywords: 1, searchVolume: 30000, presence: 75, shares: { 'lavera.de': 50, 'weleda.de': 50 } },
+    ]);
+  });
+});
+
+describe('findFeatureOpportunities', () => {
+  const rankCheck = (keyword: string, position: number | null): RankCheck => ({
+    keyword, domain: 'lavera.de', position, url: null, checkedAt: '2026-10-12T05:00:00.000Z',
+  });
+
+  it('flags features held by others where the domain ranks in the top 10', () => {
+    const featureChecks = [
+      createFeatureCheck({
+        features: [slot('featured_snippet', 'weleda.de'), slot('people_also_ask', 'lavera.de'), slot('video', 'youtube.com')],
+      }),
+      createFeatureCheck({ keyword: 'bio shampoo', features: [slot('featured_snippet', 'alverde.de')] }),
+    ];
+    const rankChecks = [rankCheck('naturkosmetik', 2), rankCheck('bio shampoo', 14)];
+
+    const opportunities = findFeatureOpportunities(featureChecks, rankChecks, watched, 'lavera.de');
+
+    expect(opportunities.map(o => [o.keyword, o.feature, o.holder, o.score])).toEqual([
+      ['naturkosmetik', 'featured_snippet', 'weleda.de', 15000],
+      ['naturkosmetik', 'video', 'youtube.com', 15000],
+    ]);
+    expect(opportunities[0].message).toBe('Snippet held by weleda.de on a keyword where you rank #2');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { getWeekStart, groupSnapshotsByWeek, getWeeklyChange, getVisibilityChange } from './snapshots';
+import type { MetricSnapshot } from '../types';
+
+const createSnapshot = (overrides: Partial<MetricSnapshot> = {}): MetricSnapshot => ({
+  id: 'snap',
+  source: 'scheduled',
+  capturedAt: '2026-03-04T04:00:00.000Z',
+  shareOfSearch: 20,
+  brandVolume: 2000,
+  totalBrandVolume: 10000,
+  shareOfVoice: 25,
+  visibleVolume: 2500,
+  totalMarketVolume: 10000,
+  gap: 5,
+  interpretation: 'growth_potential',
+  ...overrides,
+});
+
+describe('getWeekStart', () => {
+  it('returns the Monday of the week', () => {
+    // Wednesday 4 March 2026
+    expect(getWeekStart(new Date('2026-03-04T12:00:00Z'))).toBe('2026-03-02');
+  });
+
+  it('treats Sunday as the end of the week', () => {
+    expect(getWeekStart(new Date('2026-03-08T23:00:00Z'))).toBe('2026-03-02');
+  });
+
+  it('returns the same day for a Monday', () => {
+    expect(getWeekStart(new Date('2026-03-02T00:00:00Z'))).toBe('2026-03-02');
+  });
+});
+
+describe('groupSnapshotsByWeek', () => {
+  it('returns an empty series when there are no snapshots', () => {
+    expect(groupSnapshotsByWeek([])).toEqual([]);
+  });
+
+  it('averages several snapshots within the same week', () => {
+    const result = groupSnapshotsByWeek([
+      createSnapshot({ capturedAt: '2026-03-02T04:00:00Z', shareOfSearch: 20, shareOfVoice: 30 }),
+      createSnapshot({ capturedAt: '2026-03-05T04:00:00Z', shareOfSearch: 21, shareOfVoice: 31 }),
+    ]);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].shareOfSearch).toBe(20.5);
+    expect(result[0].shareOfVoice).toBe(30.5);
+    expect(result[0].gap).toBe(10);
+    expect(result[0].snapshotCount).toBe(2);
+  });
+
+  it('sorts weeks chronologically regardless of input order', () => {
+    const result = groupSnapshotsByWeek([
+      createSnapshot({ capturedAt: '2026-03-16T04:00:00Z' }),
+      createSnapshot({ capturedAt: '2026-03-02T04:00:00Z' }),
+      createSnapshot({ capturedAt: '2026-03-09T04:00:00Z' }),
+    ]);
+
+    expect(result.map(p => p.weekStart)).toEqual(['2026-03-02', '2026-03-09', '2026-03-16']);
+  });
+});
+
+describe('getWeeklyChange', () => {
+  const points = groupSnapshotsByWeek([
+    createSnapshot({ capturedAt: '2026-01-05T04:00:00Z', shareOfSearch: 15, shareOfVoice: 20 }),
+    createSnapshot({ capturedAt: '2026-02-02T04:00:00Z', shareOfSearch: 18, shareOfVoice: 22 }),
+    createSnapshot({ capturedAt: '2026-03-02T04:00:00Z', shareOfSearch: 20, shareOfVoice: 21 }),
+  ]);
+
+  it('compares the latest week with the week N weeks before', () => {
+    expect(getWeeklyChange(points, 4)).toEqual({ sos: 2, sov: -1 });
+  });
+
+  it('falls back to the closest earlier week when the exact week is missing', () => {
+    // 6 weeks back from 2 March is 19 January; closest earlier point is 5 January
+    expect(getWeeklyChange(points, 6)).toEqual({ sos: 5, sov: 1 });
+  });
+
+  it('returns null when history does not reach back far enough', () => {
+    expect(getWeeklyChange(points, 52)).toBeNull();
+    expect(getWeeklyChange([], 4)).toBeNull();
+  });
+});
+
+describe('getVisibilityChange', () => {
+  const onPanel = (capturedAt: string, visibilityIndex: number, visibilityPanelVersion = 1) =>
+    createSnapshot({ capturedAt, visibilityIndex, visibilityPanelId: 'natural-cosmetics-de', visibilityPanelVersion });
+
+  it('compares the latest index with the snapshot N weeks earlier', () => {
+    const snapshots = [onPanel('2026-02-02T04:00:00Z', 10.5), onPanel('2026-02-23T04:00:00Z', 11), onPanel('2026-03-02T04:00:00Z', 12.25)];
+    expect(getVisibilityChange(snapshots, 4)).toEqual({ index: 12.25, change: 1.75, panelId: 'natural-cosmetics-de', panelVersion: 1 });
+  });
+
+  it('never compares across panel versions', () => {
+    const snapshots = [onPanel('2026-01-05T04:00:00Z', 10), onPanel('2026-03-02T04:00:00Z', 14, 2)];
+    expect(getVisibilityChange(snapshots, 4)).toMatchObject({ index: 14, change: null, panelVersion: 2 });
+  });
+
+  it('returns null when no snapshot has an index', () => {
+    expect(getVisibilityChange([createSnapshot(), createSnapshot({ visibilityIndex: null })], 4)).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import type { MetricSnapshot, WeeklySnapshotPoint } from '../types';
+
+// ==========================================
+// WEEKLY SNAPSHOT SERIES
+// ==========================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the Monday (UTC) that starts the week containing the given date
+ */
+export function getWeekStart(date: Date): string {
+  const day = date.getUTCDay();
+  const daysSinceMonday = (day + 6) % 7;
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) - daysSinceMonday * DAY_MS);
+  return monday.toISOString().split('T')[0];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Collapse stored snapshots into one point per week
+ * Daily schedules produce several snapshots per week, so each week is averaged
+ * to keep the series comparable with weekly schedules.
+ */
+export function groupSnapshotsByWeek(snapshots: MetricSnapshot[]): WeeklySnapshotPoint[] {
+  const weeks = new Map<string, MetricSnapshot[]>();
+
+  for (const snapshot of snapshots) {
+    const weekStart = getWeekStart(new Date(snapshot.capturedAt));
+    const bucket = weeks.get(weekStart) || [];
+    bucket.push(snapshot);
+    weeks.set(weekStart, bucket);
+  }
+
+  return Array.from(weeks.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, bucket]) => {
+      const avg = (pick: (s: MetricSnapshot) => number) =>
+        bucket.reduce((sum, s) => sum + pick(s), 0) / bucket.length;
+
+      const shareOfSearch = round1(avg(s => s.shareOfSearch));
+      const shareOfVoice = round1(avg(s => s.shareOfVoice));
+
+      return {
+        weekStart,
+        shareOfSearch,
+        shareOfVoice,
+        gap: round1(shareOfVoice - shareOfSearch),
+        snapshotCount: bucket.length
+      };
+    });
+}
+
+/**
+ * Change of SOS and SOV between the latest week and the week `weeksBack` before it
+ * Returns null when the series does not reach that far back.
+ */
+export function getWeeklyChange(
+  points: WeeklySnapshotPoint[],
+  weeksBack: number
+): { sos: number; sov: number } | null {
+  if (points.length === 0) return null;
+
+  const latest = points[points.length - 1];
+  const targetTime = new Date(latest.weekStart).getTime() - weeksBack * 7 * DAY_MS;
+
+  // Use the closest week at or before the target so gaps in the schedule don't hide the comparison
+  const baseline = [...points]
+    .reverse()
+    .find(p => new Date(p.weekStart).getTime() <= targetTime);
+
+  if (!baseline) return null;
+
+  return {
+    sos: round1(latest.shareOfSearch - baseline.shareOfSearch),
+    sov: round1(latest.shareOfVoice - baseline.shareOfVoice)
+  };
+}
+
+/**
+ * Latest Visibility Index and its change since the snapshot `weeksBack` weeks earlier
+ * Only snapshots scored on the same panel version are compared, so a panel update
+ * starts a fresh baseline instead of showing a jump. Returns null without any index.
+ */
+export function getVisibilityChange(
+  snapshots: MetricSnapshot[],
+  weeksBack: number
+): { index: number; change: number | null; panelId: string; panelVersion: number } | null {
+  const scored = snapshots
+    .filter(s => typeof s.visibilityIndex === 'number' && s.visibilityPanelId && s.visibilityPanelVersion)
+    .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  const latest = scored[scored.length - 1];
+  if (!latest) return null;
+
+  const targetTime = new Date(latest.capturedAt).getTime() - weeksBack * 7 * DAY_MS;
+  const baseline = [...scored]
+    .reverse()
+    .find(s =>
+      s.visibilityPanelId === latest.visibilityPanelId &&
+      s.visibilityPanelVersion === latest.visibilityPanelVersion &&
+      new Date(s.capturedAt).getTime() <= targetTime
+    );
+
+  return {
+    index: latest.visibilityIndex!,
+    change: baseline ? Math.round((latest.visibilityIndex! - baseline.visibilityIndex!) * 100) / 100 : null,
+    panelId: latest.visibilityPanelId!,
+    panelVersion: latest.visibilityPanelVersion!
+  };
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countRuleMatches,
+  createCategorizer,
+  exportCategoryTaxonomy,
+  getBuiltInCategoryRules,
+  parseCategoryTaxonomy,
+  validateCategoryRule,
+} from './taxonomy';
+import type { CategoryRule, RankedKeyword } from '../types';
+
+const createRule = (overrides: Partial<CategoryRule> = {}): CategoryRule => ({
+  id: 'rule-1',
+  category: 'Skincare',
+  type: 'contains',
+  pattern: 'creme',
+  ...overrides,
+});
+
+const createKeyword = (overrides: Partial<RankedKeyword> = {}): RankedKeyword => ({
+  keyword: 'gesichtscreme',
+  searchVolume: 1000,
+  position: 3,
+  url: 'https://lavera.de/gesichtspflege/creme',
+  ...overrides,
+});
+
+describe('createCategorizer', () => {
+  it('matches every rule type', () => {
+    const kw = createKeyword({ categoryIds: [10010, 10020] });
+
+    expect(createCategorizer([createRule({ type: 'contains', pattern: 'CREME' })])(kw)).toBe('Skincare');
+    expect(createCategorizer([createRule({ type: 'regex', pattern: '^gesichts' })])(kw)).toBe('Skincare');
+    expect(createCategorizer([createRule({ type: 'urlPrefix', pattern: 'gesichtspflege' })])(kw)).toBe('Skincare');
+    expect(createCategorizer([createRule({ type: 'categoryId', pattern: '10020' })])(kw)).toBe('Skincare');
+  });
+
+  it('applies the first matching rule and falls back to Other', () => {
+    const categorize = createCategorizer([
+      createRule({ id: 'a', category: 'Face', pattern: 'gesicht' }),
+      createRule({ id: 'b', category: 'Creams', pattern: 'creme' }),
+    ]);
+
+    expect(categorize(createKeyword())).toBe('Face');
+    expect(categorize(createKeyword({ keyword: 'handcreme' }))).toBe('Creams');
+    expect(categorize(createKeyword({ keyword: 'shampoo' }))).toBe('Other');
+  });
+
+  it('ignores invalid rules', () => {
+    expect(createCategorizer([createRule({ type: 'regex', pattern: '(' })])(createKeyword())).toBe('Other');
+  });
+});
+
+describe('countRuleMatches', () => {
+  it('counts captured and shadowed keywords per rule', () => {
+    const keywords = [
+      createKeyword({ keyword: 'gesichtscreme', searchVolume: 3000 }),
+      createKeyword({ keyword: 'handcreme', searchVolume: 1000 }),
+      createKeyword({ keyword: 'shampoo', searchVolume: 500 }),
+    ];
+    const rules = [
+      createRule({ id: 'a', pattern: 'gesicht' }),
+      createRule({ id: 'b', pattern: 'creme' }),
+    ];
+
+    expect(countRuleMatches(keywords, rules)).toEqual({
+      matches: [
+        { ruleId: 'a', captured: 1, capturedVolume: 3000, shadowed: 0 },
+        { ruleId: 'b', captured: 1, capturedVolume: 1000, shadowed: 1 },
+      ],
+      unmatched: 1,
+      unmatchedVolume: 500,
+    });
+  });
+});
+
+describe('validateCategoryRule', () => {
+  it('reports missing fields and bad patterns', () => {
+    expect(validateCategoryRule(createRule())).toBeNull();
+    expect(validateCategoryRule(createRule({ category: ' ' }))).toBe('Category name is required');
+    expect(validateCategoryRule(createRule({ type: 'regex', pattern: '[' }))).toBe('Invalid regular expression');
+    expect(validateCategoryRule(createRule({ type: 'categoryId', pattern: 'abc' }))).toBe('Category ID must be a number');
+  });
+});
+
+describe('taxonomy import/export', () => {
+  it('round-trips exported rules', () => {
+    const rules = [createRule(), createRule({ id: 'rule-2', category: 'Hair', type: 'urlPrefix', pattern: '/haar' })];
+    const result = parseCategoryTaxonomy(exportCategoryTaxonomy(rules, 'lavera.de'));
+
+    expect(result.success).toBe(true);
+    expect(result.data?.map(({ category, type, pattern }) => ({ category, type, pattern }))).toEqual([
+      { category: 'Skincare', type: 'contains', pattern: 'creme' },
+      { category: 'Hair', type: 'urlPrefix', pattern: '/haar' },
+    ]);
+  });
+
+  it('accepts a bare rules array with numeric category IDs', () => {
+    const result = parseCategoryTaxonomy('[{ "category": "Tires", "type": "categoryId", "pattern": 12345 }]');
+
+    expect(result.data?.[0]).toMatchObject({ category: 'Tires', type: 'categoryId', pattern: '12345' });
+  });
+
+  it('rejects invalid input with the failing rule', () => {
+    expect(parseCategoryTaxonomy('not json').error).toBe('File is not valid JSON');
+    expect(parseCategoryTaxonomy('{}').error).toBe('Taxonomy needs a "rules" array');
+    expect(parseCategoryTaxonomy('[{ "category": "A", "type": "glob", "pattern": "*" }]').error).toBe('Rule 1: Unknown rule type "glob"');
+  });
+
+  it('converts the built-in patterns to regex rules', () => {
+    const rules = getBuiltInCategoryRules();
+
+    expect(rules.length).toBeGreaterThan(10);
+    expect(createCategorizer(rules)(createKeyword({ keyword: 'winterreifen' }))).toBe('Winter Tires');
+  });
+});
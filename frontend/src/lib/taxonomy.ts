@@ -0,0 +1,189 @@
+import type { CategoryRule, CategoryRuleType, CategoryRuleMatch, RankedKeyword } from '../types';
+import type { ValidationResult } from '../../shared/validation';
+import { CATEGORY_PATTERNS, detectCategory } from '../utils/categoryDetection';
+
+// ==========================================
+// RULE MATCHING
+// ==========================================
+
+export const CATEGORY_RULE_TYPES: { id: CategoryRuleType; label: string; placeholder: string }[] = [
+  { id: 'contains', label: 'Keyword contains', placeholder: 'gesichtscreme' },
+  { id: 'regex', label: 'Keyword regex', placeholder: 'serum|hyaluron' },
+  { id: 'urlPrefix', label: 'URL path starts with', placeholder: '/gesichtspflege' },
+  { id: 'categoryId', label: 'DataForSEO category ID', placeholder: '10010' }
+];
+
+const RULE_TYPE_IDS = new Set<string>(CATEGORY_RULE_TYPES.map(t => t.id));
+
+type KeywordMatcher = (kw: RankedKeyword) => boolean;
+
+// URL path without origin, lowercased, with a leading slash
+export function urlPath(url?: string): string {
+  const path = (url || '').replace(/^https?:\/\/[^/]+/i, '').toLowerCase();
+  return path.startsWith('/') ? path : `/${path}`;
+}
+
+/**
+ * Check a rule for errors the editor should show
+ * @returns The error message, or null for a valid rule
+ */
+export function validateCategoryRule(rule: Pick<CategoryRule, 'category' | 'type' | 'pattern'>): string | null {
+  if (!rule.category.trim()) return 'Category name is required';
+  if (!RULE_TYPE_IDS.has(rule.type)) return `Unknown rule type "${rule.type}"`;
+  if (!rule.pattern.trim()) return 'Pattern is required';
+
+  if (rule.type === 'regex') {
+    try {
+      new RegExp(rule.pattern, 'i');
+    } catch {
+      return 'Invalid regular expression';
+    }
+  }
+  if (rule.type === 'categoryId' && !/^\d+$/.test(rule.pattern.trim())) {
+    return 'Category ID must be a number';
+  }
+  return null;
+}
+
+// Invalid rules compile to a matcher that never matches
+function compileRule(rule: CategoryRule): KeywordMatcher {
+  if (validateCategoryRule(rule)) return () => false;
+
+  const pattern = rule.pattern.trim();
+  switch (rule.type) {
+    case 'regex': {
+      const regex = new RegExp(pattern, 'i');
+      return kw => regex.test(kw.keyword);
+    }
+    case 'contains': {
+      const needle = pattern.toLowerCase();
+      return kw => kw.keyword.toLowerCase().includes(needle);
+    }
+    case 'urlPrefix': {
+      const prefix = urlPath(pattern);
+      return kw => !!kw.url && urlPath(kw.url).startsWith(prefix);
+    }
+    case 'categoryId': {
+      const id = Number(pattern);
+      return kw => (kw.categoryIds || []).includes(id);
+    }
+  }
+}
+
+/**
+ * Build a categorizer from an ordered rule list
+ * The first matching rule wins; keywords no rule matches get the fallback category.
+ */
+export function createCategorizer(
+  rules: CategoryRule[],
+  fallback: string = 'Other'
+): (kw: RankedKeyword) => string {
+  const matchers = rules.map(rule => ({ category: rule.category.trim(), matches: compileRule(rule) }));
+  return kw => matchers.find(m => m.matches(kw))?.category ?? fallback;
+}
+
+/**
+ * The categorizer the analysis uses for a project
+ * With a project taxonomy the rules decide every category; without one the
+ * API category or built-in detection is used.
+ */
+export function getKeywordCategorizer(rules: CategoryRule[]): (kw: RankedKeyword) => string {
+  return rules.length > 0
+    ? createCategorizer(rules)
+    : kw => kw.category || detectCategory(kw.keyword);
+}
+
+/**
+ * Preview how many keywords each rule captures with the current ordering
+ */
+export function countRuleMatches(
+  keywords: RankedKeyword[],
+  rules: CategoryRule[]
+): { matches: CategoryRuleMatch[]; unmatched: number; unmatchedVolume: number } {
+  const matchers = rules.map(compileRule);
+  const counts: CategoryRuleMatch[] = rules.map(rule => ({ ruleId: rule.id, captured: 0, capturedVolume: 0, shadowed: 0 }));
+  let unmatched = 0;
+  let unmatchedVolume = 0;
+
+  for (const kw of keywords) {
+    let captured = false;
+    matchers.forEach((matches, i) => {
+      if (!matches(kw)) return;
+      if (captured) {
+        counts[i].shadowed += 1;
+      } else {
+        counts[i].captured += 1;
+        counts[i].capturedVolume += kw.searchVolume;
+        captured = true;
+      }
+    });
+    if (!captured) {
+      unmatched += 1;
+      unmatchedVolume += kw.searchVolume;
+    }
+  }
+
+  return { matches: counts, unmatched, unmatchedVolume };
+}
+
+// ==========================================
+// TAXONOMY EDITING & IMPORT/EXPORT
+// ==========================================
+
+export function createCategoryRule(overrides: Partial<Omit<CategoryRule, 'id'>> = {}): CategoryRule {
+  return {
+    id: `rule_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    category: '',
+    type: 'contains',
+    pattern: '',
+    ...overrides
+  };
+}
+
+// The built-in patterns as editable rules, a starting point for a new taxonomy
+export function getBuiltInCategoryRules(): CategoryRule[] {
+  return CATEGORY_PATTERNS.map(({ category, regex }) => createCategoryRule({ category, type: 'regex', pattern: regex.source }));
+}
+
+/**
+ * Serialize a taxonomy for download
+ * Rule IDs are left out - they only identify rules inside the editor.
+ */
+export function exportCategoryTaxonomy(rules: CategoryRule[], domain?: string): string {
+  return JSON.stringify({
+    version: 1,
+    domain,
+    rules: rules.map(({ category, type, pattern }) => ({ category, type, pattern }))
+  }, null, 2);
+}
+
+/**
+ * Parse an uploaded taxonomy
+ * Accepts the exported { version, domain, rules: [...] } object or a bare rules array.
+ */
+export function parseCategoryTaxonomy(json: string): ValidationResult<CategoryRule[]> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { success: false, error: 'File is not valid JSON' };
+  }
+
+  const list = Array.isArray(raw) ? raw : (raw as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(list)) return { success: false, error: 'Taxonomy needs a "rules" array' };
+
+  const rules: CategoryRule[] = [];
+  for (const [index, entry] of list.entries()) {
+    const input = (entry ?? {}) as { category?: unknown; type?: unknown; pattern?: unknown };
+    const rule = createCategoryRule({
+      category: typeof input.category === 'string' ? input.category.trim() : '',
+      type: (typeof input.type === 'string' ? input.type : '') as CategoryRuleType,
+      pattern: typeof input.pattern === 'string' || typeof input.pattern === 'number' ? String(input.pattern) : ''
+    });
+    const error = validateCategoryRule(rule);
+    if (error) return { success: false, error: `Rule ${index + 1}: ${error}` };
+    rules.push(rule);
+  }
+
+  return { success: true, data: rules };
+}
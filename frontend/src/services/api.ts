@@ -3,8 +3,42 @@ import type {
   RankedKeyword,
   CalculateResponse,
   SampleDataResponse,
-  Project
+  Project,
+  SnapshotHistory,
+  SnapshotFrequency,
+  MetricSnapshot,
+  CTRModel,
+  CTRModelUsage,
+  CacheInfo,
+  ApiCostSummary,
+  CompetitiveLandscape,
+  ContentGap,
+  CredentialProvider,
+  CredentialSecrets,
+  CredentialSummary,
+  CredentialAccess,
+  BrandVariantSet,
+  SeasonalSOSResult,
+  SOSForecastResult,
+  AlertItem,
+  AlertRule,
+  AlertRuleInput,
+  AlertStatus,
+  VisibilityIndexResult,
+  VisibilityPanelSummary,
+  RankTrackingData,
+  WatchedKeyword,
+  CategorySOV,
+  AIVisibilityResponse,
+  AnalysisChannel,
+  BrandContext,
+  ProjectContext,
+  SavedChannelAnalysis,
+  SavedProjectInsights,
+  ActionableInsights,
+  DismissedItem
 } from '../types';
+import { getWorkspaceHeaders } from './workspaceStorage';
 
 // Use relative paths for Vercel deployment, absolute for local development
 const API_BASE = import.meta.env.DEV ? 'http://localhost:3001/api' : '/api';
@@ -14,6 +48,7 @@ const REQUEST_TIMEOUT = 30000;
 
 /**
  * Fetch with timeout support
+ * Every request carries the current workspace and its token so the API uses its credentials
  */
 async function fetchWithTimeout(
   url: string,
@@ -24,8 +59,11 @@ async function fetchWithTimeout(
   const timeoutId = setTimeout(() => controller.abort(), timeout);
 
   try {
+    const headers = new Headers(options.headers);
+    for (const [name, value] of Object.entries(getWorkspaceHeaders())) headers.set(name, value);
     const response = await fetch(url, {
       ...options,
+      headers,
       signal: controller.signal,
     });
     return response;
@@ -50,12 +88,14 @@ export async function getSampleData(): Promise<SampleDataResponse> {
 
 export async function calculateMetrics(
   brandKeywords: BrandKeyword[],
-  rankedKeywords: RankedKeyword[]
+  rankedKeywords: RankedKeyword[],
+  ctrModel?: CTRModel,
+  applySerpAdjustments = false
 ): Promise<CalculateResponse> {
   const response = await fetchWithTimeout(`${API_BASE}/calculate`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ brandKeywords, rankedKeywords })
+    body: JSON.stringify({ brandKeywords, rankedKeywords, ctrModel, applySerpAdjustments })
   });
   if (!response.ok) throw new Error('Failed to calculate metrics');
   return response.json();
@@ -65,12 +105,13 @@ export async function getRankedKeywords(
   domain: string,
   locationCode: number,
   languageCode: string,
-  limit: number
-): Promise<{ results: RankedKeyword[] }> {
+  limit: number,
+  forceRefresh = false
+): Promise<{ results: RankedKeyword[]; cache?: CacheInfo | null }> {
   const response = await fetchWithTimeout(`${API_BASE}/ranked-keywords`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ domain, locationCode, languageCode, limit })
+    body: JSON.stringify({ domain, locationCode, languageCode, limit, forceRefresh })
   });
   if (!response.ok) {
     let errorMessage = 'Failed to fetch ranked keywords';
@@ -95,17 +136,21 @@ export async function getBrandKeywords(
   domain: string,
   locationCode: number,
   languageCode: string,
-  customCompetitors?: string[]
+  customCompetitors?: string[],
+  forceRefresh = false,
+  variantKeywords: string[] = [] // Accepted brand variants to look up current volumes for
 ): Promise<{
   brandName: string;
   industry: string;
   brandKeywords: BrandKeyword[];
   competitors: string[];
+  variantVolumes: Record<string, number>; // By lowercased variant keyword
+  cache?: CacheInfo | null;
 }> {
   const response = await fetchWithTimeout(`${API_BASE}/brand-keywords`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ domain, locationCode, languageCode, customCompetitors })
+    body: JSON.stringify({ domain, locationCode, languageCode, customCompetitors, forceRefresh, variantKeywords })
   });
   if (!response.ok) {
     let errorMessage = 'Failed to fetch brand keywords';
@@ -126,6 +171,30 @@ export async function getBrandKeywords(
   return response.json();
 }
 
+// Expand the own brand and competitors into variant sets for review
+export async function discoverBrandVariants(
+  domain: string,
+  locationCode: number,
+  languageCode: string,
+  competitors: string[],
+  forceRefresh = false
+): Promise<{
+  brandName: string;
+  sets: BrandVariantSet[];
+  cache?: CacheInfo | null;
+}> {
+  const response = await fetchWithTimeout(`${API_BASE}/brand-variants`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ domain, locationCode, languageCode, competitors, forceRefresh })
+  }, 60000); // One suggestions request per brand
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to discover brand variants'));
+  }
+  return response.json();
+}
+
 // Trends data types
 export interface TrendPoint {
   period: string;
@@ -155,6 +224,10 @@ export interface TrendsData {
   sosTrends: TrendPoint[];
   sovTrends: TrendPoint[];
   competitorTrends?: CompetitorTrend[];
+  seasonalSOS: SeasonalSOSResult;
+  sosForecast: SOSForecastResult | null; // null with less than 6 months of history
+  ctrModel?: CTRModelUsage;
+  cache?: CacheInfo | null;
   changes: {
     sos: {
       vs6MonthsAgo: number;
@@ -181,12 +254,15 @@ export async function getTrends(
   domain: string,
   locationCode: number,
   languageCode: string,
-  customCompetitors?: string[]
+  customCompetitors?: string[],
+  ctrModel?: CTRModel,
+  forceRefresh = false,
+  brandKeywords?: BrandKeyword[]
 ): Promise<TrendsData> {
   const response = await fetchWithTimeout(`${API_BASE}/trends`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ domain, locationCode, languageCode, customCompetitors })
+    body: JSON.stringify({ domain, locationCode, languageCode, customCompetitors, ctrModel, forceRefresh, brandKeywords })
   });
   if (!response.ok) {
     let errorMessage = 'Failed to fetch trends data';
@@ -270,6 +346,98 @@ export async function calculateProjectMetrics(projectId: string): Promise<Calcul
   return response.json();
 }
 
+// Snapshot history (scheduled SOS/SOV captures, requires database)
+export async function getSnapshotHistory(
+  domain: string,
+  locationCode: number
+): Promise<SnapshotHistory> {
+  const params = new URLSearchParams({ domain, locationCode: String(locationCode) });
+  const response = await fetchWithTimeout(`${API_BASE}/snapshots?${params}`);
+  if (!response.ok) {
+    let errorMessage = 'Failed to fetch snapshot history';
+    try {
+      const error = await response.json();
+      errorMessage = error.message || error.error || errorMessage;
+    } catch {
+      // Ignore parse errors
+    }
+    throw new Error(errorMessage);
+  }
+  return response.json();
+}
+
+export async function startSnapshotTracking(data: {
+  domain: string;
+  name?: string;
+  locationCode: number;
+  languageCode: string;
+  brandKeywords: BrandKeyword[];
+  frequency?: SnapshotFrequency | null;
+  ctrModel?: CTRModel;
+  applySerpAdjustments?: boolean;
+  visibilityPanelId?: string | null;
+}): Promise<{ projectId: string; frequency: SnapshotFrequency | null; snapshot: MetricSnapshot }> {
+  const response = await fetchWithTimeout(`${API_BASE}/snapshots`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data)
+  }, 60000);
+  if (!response.ok) {
+    let errorMessage = 'Failed to capture snapshot';
+    try {
+      const error = await response.json();
+      errorMessage = error.message || error.error || errorMessage;
+    } catch {
+      // Ignore parse errors
+    }
+    throw new Error(errorMessage);
+  }
+  return response.json();
+}
+
+// DataForSEO spend recorded for a project, including cache savings
+export async function getApiCosts(domain: string, locationCode: number): Promise<ApiCostSummary> {
+  const params = new URLSearchParams({ domain, locationCode: String(locationCode) });
+  const response = await fetchWithTimeout(`${API_BASE}/costs?${params}`);
+  if (!response.ok) {
+    let errorMessage = 'Failed to fetch API costs';
+    try {
+      const error = await response.json();
+      errorMessage = error.error || errorMessage;
+    } catch {
+      // Ignore parse errors
+    }
+    throw new Error(errorMessage);
+  }
+  return response.json();
+}
+
+// Visibility index on the market's keyword panel; visibility is null when the market has none
+export async function getVisibilityIndex(
+  domain: string,
+  locationCode: number,
+  panelId?: string,
+  forceRefresh = false,
+  industries: string[] = [] // Without a panelId, picks the market's panel for these; none fits -> null
+): Promise<{ visibility: VisibilityIndexResult | null; panels: VisibilityPanelSummary[]; cache?: CacheInfo | null }> {
+  const response = await fetchWithTimeout(`${API_BASE}/visibility-index`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ domain, locationCode, panelId, forceRefresh, industries })
+  });
+  if (!response.ok) {
+    let errorMessage = 'Failed to fetch visibility index';
+    try {
+      const error = await response.json();
+      errorMessage = error.error || errorMessage;
+    } catch {
+      // Ignore parse errors
+    }
+    throw new Error(errorMessage);
+  }
+  return response.json();
+}
+
 // Competitor Analysis types and API
 export interface CompetitorThreat {
   keyword: string;
@@ -319,18 +487,23 @@ export interface CompetitorAnalysisResponse {
   yourDomain: string;
   yourKeywordsCount: number;
   competitors: CompetitorKeywordAnalysis[];
+  landscape?: CompetitiveLandscape;
+  contentGaps?: ContentGap[];
+  cache?: CacheInfo | null;
 }
 
 export async function getCompetitorAnalysis(
   domain: string,
   locationCode: number,
   languageCode: string,
-  competitors: string[]
+  competitors: string[],
+  forceRefresh = false,
+  minCompetitors = 2
 ): Promise<CompetitorAnalysisResponse> {
   const response = await fetchWithTimeout(`${API_BASE}/competitor-analysis`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ domain, locationCode, languageCode, competitors })
+    body: JSON.stringify({ domain, locationCode, languageCode, competitors, forceRefresh, minCompetitors })
   }, 120000); // 2 minute timeout for this heavy operation
 
   if (!response.ok) {
@@ -388,3 +561,282 @@ export function exportToCSV(
   link.click();
 }
 
+// Workspace credentials - secrets are stored encrypted on the server and never returned
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const error = await response.json();
+    return error.message || error.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export async function getCredentials(): Promise<{
+  workspaceId: string;
+  vaultEnabled: boolean;
+  access: CredentialAccess | null; // null = this browser can't change or test credentials
+  workspaceToken: string | null; // Only shown to the admin, for non-default workspaces
+  credentials: CredentialSummary[];
+}> {
+  const response = await fetchWithTimeout(`${API_BASE}/credentials`);
+  if (!response.ok) throw new Error(await readError(response, 'Failed to load credentials'));
+  return response.json();
+}
+
+// Add or rotate a credential; the secret goes to the server and is never read back
+export async function saveCredential<P extends CredentialProvider>(
+  provider: P,
+  secret: CredentialSecrets[P]
+): Promise<void> {
+  const response = await fetchWithTimeout(`${API_BASE}/credentials/${provider}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ secret })
+  });
+  if (!response.ok) throw new Error(await readError(response, 'Failed to save credential'));
+}
+
+export async function testCredential(
+  provider: CredentialProvider
+): Promise<{ ok: boolean; error: string | null; testedAt: string }> {
+  const response = await fetchWithTimeout(`${API_BASE}/credentials/${provider}`, {
+    method: 'POST'
+  });
+  if (!response.ok) throw new Error(await readError(response, 'Failed to test credential'));
+  return response.json();
+}
+
+export async function deleteCredential(provider: CredentialProvider): Promise<void> {
+  const response = await fetchWithTimeout(`${API_BASE}/credentials/${provider}`, {
+    method: 'DELETE'
+  });
+  if (!response.ok) throw new Error(await readError(response, 'Failed to remove credential'));
+}
+
+// Alerts (rules on tracked projects, requires database)
+
+export async function getAlerts(
+  filter: { domain?: string; locationCode?: number; status?: AlertStatus | 'all' } = {}
+): Promise<{ alerts: AlertItem[]; openCount: number }> {
+  const params = new URLSearchParams({ status: filter.status ?? 'open' });
+  if (filter.domain) {
+    params.set('domain', filter.domain);
+    params.set('locationCode', String(filter.locationCode ?? 2840));
+  }
+  const response = await fetchWithTimeout(`${API_BASE}/alerts?${params}`);
+  if (!response.ok) throw new Error(await readError(response, 'Failed to load alerts'));
+  return response.json();
+}
+
+export async function updateAlert(
+  id: string,
+  update: { action: 'acknowledge' | 'reopen' } | { action: 'snooze'; hours: number }
+): Promise<AlertItem> {
+  const response = await fetchWithTimeout(`${API_BASE}/alerts/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update)
+  });
+  if (!response.ok) throw new Error(await readError(response, 'Failed to update alert'));
+  return response.json();
+}
+
+export async function getAlertRules(
+  domain: string,
+  locationCode: number
+): Promise<{ projectId: string | null; rules: AlertRule[] }> {
+  const params = new URLSearchParams({ domain, locationCode: String(locationCode) });
+  const response = await fetchWithTimeout(`${API_BASE}/alert-rules?${params}`);
+  if (!response.ok) throw new Error(await readError(response, 'Failed to load alert rules'));
+  return response.json();
+}
+
+// Creates the rule when no id is given, otherwise replaces it
+export async function saveAlertRule(
+  domain: string,
+  locationCode: number,
+  rule: AlertRuleInput,
+  id?: string
+): Promise<AlertRule> {
+  const response = id
+    ? await fetchWithTimeout(`${API_BASE}/alert-rules/${encodeURIComponent(id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rule })
+      })
+    : await fetchWithTimeout(`${API_BASE}/alert-rules`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domain, locationCode, rule })
+      });
+  if (!response.ok) throw new Error(await readError(response, 'Failed to save alert rule'));
+  return response.json();
+}
+
+export async function deleteAlertRule(id: string): Promise<void> {
+  const response = await fetchWithTimeout(`${API_BASE}/alert-rules/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok) throw new Error(await readError(response, 'Failed to delete alert rule'));
+}
+
+// Rank tracking (daily live-SERP checks of a tracked project's watched keywords, requires database)
+
+export async function getRankTracking(domain: string, locationCode: number): Promise<RankTrackingData> {
+  const params = new URLSearchParams({ domain, locationCode: String(locationCode) });
+  const response = await fetchWithTimeout(`${API_BASE}/rank-tracking?${params}`);
+  if (!response.ok) throw new Error(await readError(response, 'Failed to load rank tracking'));
+  return response.json();
+}
+
+// Replaces the watch list; keywords without a check today are checked right away
+export async function saveWatchList(
+  domain: string,
+  locationCode: number,
+  keywords: WatchedKeyword[],
+  competitors: string[]
+): Promise<RankTrackingData> {
+  const response = await fetchWithTimeout(`${API_BASE}/rank-tracking`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ domain, locationCode, keywords, competitors })
+  }, 120000);
+  if (!response.ok) throw new Error(await readError(response, 'Failed to save watch list'));
+  return response.json();
+}
+
+// Asks every prompt, so allow for a full prompt set of slow answers
+export async function getAIVisibility(
+  brandName: string,
+  competitors: string[],
+  categories: Array<Pick<CategorySOV, 'category' | 'topKeywords'>>, // The server builds the prompts from these
+  domain: string,
+  locationCode: number
+): Promise<AIVisibilityResponse> {
+  const response = await fetchWithTimeout(`${API_BASE}/ai-visibility`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ brandName, competitors, categories, domain, locationCode })
+  }, 120000);
+  if (!response.ok) throw new Error(await readError(response, 'Failed to check AI visibility'));
+  return response.json();
+}
+
+// Channel analyses, channel configs and dismissed results of a project (requires database)
+
+// The workspace's projects for a domain and market, newest first
+export async function findProjects(domain: string, locationCode: number): Promise<Project[]> {
+  const params = new URLSearchParams({ domain, locationCode: String(locationCode) });
+  const response = await fetchWithTimeout(`${API_BASE}/projects?${params}`);
+  if (!response.ok) throw new Error(await readError(response, 'Failed to find project'));
+  return response.json();
+}
+
+export async function getProjectContext(projectId: string): Promise<ProjectContext> {
+  const response = await fetchWithTimeout(`${API_BASE}/projects/${encodeURIComponent(projectId)}/context`);
+  if (!response.ok) throw new Error(await readError(response, 'Failed to load project context'));
+  return response.json();
+}
+
+export async function updateProjectContext(
+  projectId: string,
+  update: { brandName?: string; competitors?: string[]; brandContext?: BrandContext }
+): Promise<ProjectContext> {
+  const response = await fetchWithTimeout(`${API_BASE}/projects/${encodeURIComponent(projectId)}/context`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update)
+  });
+  if (!response.ok) throw new Error(await readError(response, 'Failed to save project context'));
+  return response.json();
+}
+
+export async function saveProjectInsights(
+  projectId: string,
+  insights: ActionableInsights
+): Promise<SavedProjectInsights<ActionableInsights>> {
+  const response = await fetchWithTimeout(`${API_BASE}/projects/${encodeURIComponent(projectId)}/insights`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ insights })
+  });
+  if (!response.ok) throw new Error(await readError(response, 'Failed to save insights'));
+  return response.json();
+}
+
+// null when the channel was never analysed for the project
+export async function getChannelAnalysis<T>(
+  projectId: string,
+  channel: AnalysisChannel
+): Promise<SavedChannelAnalysis<T> | null> {
+  const response = await fetchWithTimeout(`${API_BASE}/projects/${encodeURIComponent(projectId)}/analyses/${channel}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(await readError(response, 'Failed to load analysis'));
+  return response.json();
+}
+
+export async function saveChannelAnalysis<T>(
+  projectId: string,
+  channel: AnalysisChannel,
+  data: T
+): Promise<SavedChannelAnalysis<T>> {
+  const response = await fetchWithTimeout(`${API_BASE}/projects/${encodeURIComponent(projectId)}/analyses/${channel}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ data })
+  });
+  if (!response.ok) throw new Error(await readError(response, 'Failed to save analysis'));
+  return response.json();
+}
+
+export async function deleteChannelAnalysis(projectId: string, channel: AnalysisChannel): Promise<void> {
+  const response = await fetchWithTimeout(`${API_BASE}/projects/${encodeURIComponent(projectId)}/analyses/${channel}`, {
+    method: 'DELETE'
+  });
+  if (!response.ok) throw new Error(await readError(response, 'Failed to delete analysis'));
+}
+
+export async function getChannelConfig<T>(projectId: string, channel: AnalysisChannel): Promise<T | null> {
+  const response = await fetchWithTimeout(`${API_BASE}/projects/${encodeURIComponent(projectId)}/channel-config/${channel}`);
+  if (!response.ok) throw new Error(await readError(response, 'Failed to load channel settings'));
+  return (await response.json()).config;
+}
+
+export async function saveChannelConfig<T>(projectId: string, channel: AnalysisChannel, config: T): Promise<void> {
+  const response = await fetchWithTimeout(`${API_BASE}/projects/${encodeURIComponent(projectId)}/channel-config/${channel}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ config })
+  });
+  if (!response.ok) throw new Error(await readError(response, 'Failed to save channel settings'));
+}
+
+export async function getDismissedItems(projectId: string, channel: AnalysisChannel): Promise<DismissedItem[]> {
+  const response = await fetchWithTimeout(`${API_BASE}/projects/${encodeURIComponent(projectId)}/dismissed/${channel}`);
+  if (!response.ok) throw new Error(await readError(response, 'Failed to load dismissed items'));
+  return response.json();
+}
+
+export async function dismissItem(
+  projectId: string,
+  channel: AnalysisChannel,
+  itemId: string,
+  label?: string
+): Promise<DismissedItem> {
+  const response = await fetchWithTimeout(`${API_BASE}/projects/${encodeURIComponent(projectId)}/dismissed/${channel}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ itemId, label })
+  });
+  if (!response.ok) throw new Error(await readError(response, 'Failed to dismiss item'));
+  return response.json();
+}
+
+// Restores every dismissed item of the channel when no itemId is given
+export async function restoreDismissedItems(projectId: string, channel: AnalysisChannel, itemId?: string): Promise<void> {
+  const params = new URLSearchParams(itemId ? { itemId } : {});
+  const response = await fetchWithTimeout(
+    `${API_BASE}/projects/${encodeURIComponent(projectId)}/dismissed/${channel}?${params}`,
+    { method: 'DELETE' }
+  );
+  if (!response.ok) throw new Error(await readError(response, 'Failed to restore dismissed items'));
+}
@@ -0,0 +1,44 @@
+import type { BrandVariantReview, BrandVariantSet } from '../types';
+import { toBrandVariantReview } from '../../shared/brandVariants';
+
+const STORAGE_KEY = 'brand-variant-reviews';
+
+// Reviews are per domain and market: brand spellings and their volumes differ by country
+const toKey = (domain: string, locationCode: number): string =>
+  `${domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').trim()}|${locationCode}`;
+
+const readAll = (): Record<string, BrandVariantReview[]> => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? JSON.parse(data) as Record<string, BrandVariantReview[]> : {};
+  } catch (error) {
+    console.error('Failed to load brand variant reviews:', error);
+    return {};
+  }
+};
+
+// Get the reviewed keywords and decisions for a domain and market (empty = not reviewed yet)
+export const getBrandVariantReview = (domain: string, locationCode: number): BrandVariantReview[] => {
+  if (!domain) return [];
+  return readAll()[toKey(domain, locationCode)] || [];
+};
+
+// Save the decisions of a review for a domain and market; an empty list removes the review
+export const saveBrandVariantReview = (domain: string, locationCode: number, sets: BrandVariantSet[]): BrandVariantReview[] => {
+  const review = toBrandVariantReview(sets);
+  if (!domain) return review;
+  const all = readAll();
+  if (review.length > 0) {
+    all[toKey(domain, locationCode)] = review;
+  } else {
+    delete all[toKey(domain, locationCode)];
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error('Failed to save brand variant review:', error);
+  }
+
+  return review;
+};
@@ -0,0 +1,46 @@
+import type { ConversionData } from '../types';
+
+const STORAGE_KEY = 'conversion-data';
+
+// Conversion rates and order values differ by country, so conversion data is kept per domain and market
+const toKey = (domain: string, locationCode: number): string =>
+  `${domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').trim()}|${locationCode}`;
+
+const readAll = (): Record<string, ConversionData> => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? JSON.parse(data) as Record<string, ConversionData> : {};
+  } catch (error) {
+    console.error('Failed to load conversion data:', error);
+    return {};
+  }
+};
+
+// Get the conversion data for a domain and market
+export const getConversionData = (domain: string, locationCode: number): ConversionData | null => {
+  if (!domain) return null;
+  return readAll()[toKey(domain, locationCode)] || null;
+};
+
+// Save the conversion data for a domain and market, replacing any earlier one; null removes it
+export const saveConversionData = (
+  domain: string,
+  locationCode: number,
+  data: ConversionData | null
+): ConversionData | null => {
+  if (!domain) return data;
+  const all = readAll();
+  if (data) {
+    all[toKey(domain, locationCode)] = data;
+  } else {
+    delete all[toKey(domain, locationCode)];
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error('Failed to save conversion data:', error);
+  }
+
+  return data;
+};
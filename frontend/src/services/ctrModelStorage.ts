@@ -0,0 +1,67 @@
+import type { CTRModel } from '../types';
+
+const STORAGE_KEY = 'ctr-custom-models';
+const SELECTION_KEY = 'ctr-model-selection';
+
+export interface CTRModelSelection {
+  modelId: string;
+  applySerpAdjustments: boolean;
+}
+
+// Get all user-uploaded CTR models from localStorage
+export const getCustomCTRModels = (): CTRModel[] => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) return [];
+    return JSON.parse(data) as CTRModel[];
+  } catch (error) {
+    console.error('Failed to load custom CTR models:', error);
+    return [];
+  }
+};
+
+// Save a custom CTR model, replacing any model with the same ID
+export const saveCustomCTRModel = (model: CTRModel): CTRModel[] => {
+  const models = getCustomCTRModels().filter(m => m.id !== model.id);
+  models.push(model);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(models));
+  } catch (error) {
+    console.error('Failed to save custom CTR model:', error);
+  }
+
+  return models;
+};
+
+// Delete a custom CTR model
+export const deleteCustomCTRModel = (id: string): CTRModel[] => {
+  const models = getCustomCTRModels().filter(m => m.id !== id);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(models));
+  } catch (error) {
+    console.error('Failed to delete custom CTR model:', error);
+  }
+
+  return models;
+};
+
+// Get the last selected CTR model
+export const getCTRModelSelection = (): CTRModelSelection | null => {
+  try {
+    const data = localStorage.getItem(SELECTION_KEY);
+    return data ? JSON.parse(data) as CTRModelSelection : null;
+  } catch {
+    return null;
+  }
+};
+
+// Remember the selected CTR model across sessions
+export const saveCTRModelSelection = (selection: CTRModelSelection): void => {
+  try {
+    localStorage.setItem(SELECTION_KEY, JSON.stringify(selection));
+  } catch (error) {
+    console.error('Failed to save CTR model selection:', error);
+  }
+};
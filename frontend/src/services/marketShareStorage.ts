@@ -0,0 +1,44 @@
+import type { MarketShareData } from '../types';
+
+const STORAGE_KEY = 'market-share-data';
+
+const EMPTY: MarketShareData = { entries: [], shareOfVoice: {} };
+
+// Market share is reported per country, so data is kept per domain and market
+const toKey = (domain: string, locationCode: number): string =>
+  `${domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').trim()}|${locationCode}`;
+
+const readAll = (): Record<string, MarketShareData> => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? JSON.parse(data) as Record<string, MarketShareData> : {};
+  } catch (error) {
+    console.error('Failed to load market share data:', error);
+    return {};
+  }
+};
+
+// Get the entered market shares and competitor SOV for a domain and market
+export const getMarketShareData = (domain: string, locationCode: number): MarketShareData => {
+  if (!domain) return EMPTY;
+  return readAll()[toKey(domain, locationCode)] || EMPTY;
+};
+
+// Save market data for a domain and market; no entries and no SOV removes it
+export const saveMarketShareData = (domain: string, locationCode: number, data: MarketShareData): MarketShareData => {
+  if (!domain) return data;
+  const all = readAll();
+  if (data.entries.length > 0 || Object.keys(data.shareOfVoice).length > 0) {
+    all[toKey(domain, locationCode)] = data;
+  } else {
+    delete all[toKey(domain, locationCode)];
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error('Failed to save market share data:', error);
+  }
+
+  return data;
+};
@@ -0,0 +1,56 @@
+import type { CategoryRule, CTRModel, MarketConfig, MarketResult, MultiMarketAnalysis } from '../types';
+import { calculateMetrics, getBrandKeywords, getRankedKeywords } from './api';
+import { aggregateMarkets, failedMarket, summarizeMarket } from '../lib/multiMarket';
+
+export interface MultiMarketOptions {
+  ctrModel?: CTRModel;
+  applySerpAdjustments?: boolean;
+  customCompetitors?: string[];
+  categoryRules?: CategoryRule[];
+  forceRefresh?: boolean;
+  onProgress?: (completed: number, total: number, current: MarketConfig | null) => void;
+}
+
+/**
+ * Run the SOS/SOV pipeline for one domain in several markets
+ * Markets run one after another to stay inside DataForSEO rate limits. A failing
+ * market is recorded with its error instead of aborting the whole job.
+ */
+export async function runMultiMarketAnalysis(
+  domain: string,
+  markets: MarketConfig[],
+  options: MultiMarketOptions = {}
+): Promise<MultiMarketAnalysis> {
+  const results: MarketResult[] = [];
+
+  for (const [index, market] of markets.entries()) {
+    options.onProgress?.(index, markets.length, market);
+
+    try {
+      const [rankedData, brandData] = await Promise.all([
+        getRankedKeywords(domain, market.locationCode, market.languageCode, 100, options.forceRefresh),
+        getBrandKeywords(domain, market.locationCode, market.languageCode, options.customCompetitors, options.forceRefresh)
+      ]);
+
+      const calcResults = await calculateMetrics(
+        brandData.brandKeywords,
+        rankedData.results,
+        options.ctrModel,
+        options.applySerpAdjustments
+      );
+
+      results.push(summarizeMarket(market, brandData.brandName, calcResults, options.categoryRules));
+    } catch (err) {
+      results.push(failedMarket(market, err instanceof Error ? err.message : 'Analysis failed'));
+    }
+  }
+
+  options.onProgress?.(markets.length, markets.length, null);
+
+  return {
+    domain,
+    markets: results,
+    global: aggregateMarkets(results),
+    completedAt: new Date().toISOString()
+  };
+}
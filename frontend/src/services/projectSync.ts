@@ -0,0 +1,254 @@
+import type { ActionableInsights, AnalysisChannel, BrandContext, ProjectContext } from '../types';
+import {
+  findProjects,
+  createProjectInAPI,
+  getProjectContext,
+  updateProjectContext,
+  saveProjectInsights,
+  getChannelAnalysis,
+  saveChannelAnalysis,
+  deleteChannelAnalysis,
+  getChannelConfig,
+  saveChannelConfig,
+  getDismissedItems,
+  dismissItem,
+  restoreDismissedItems
+} from './api';
+
+/**
+ * Project sync
+ * Channel panels keep working from localStorage and write every save through to the
+ * workspace's project of their domain + location, so the project opens the same on any
+ * device. The first save on a domain without a project creates one. The project's copy
+ * wins when both exist. Local copies are never uploaded on load - that would bring back
+ * analyses deleted on another device.
+ * Nothing here throws - without a database the panels stay local.
+ */
+
+// Resolved project ids by domain|location; null once the API answered without a database
+const projectIds = new Map<string, string | null>();
+// Projects being created, so panels saving at the same time attach to the same one
+const creating = new Map<string, Promise<string | null>>();
+
+const projectKey = (domain: string, locationCode: number) => `${domain.toLowerCase()}|${locationCode}`;
+
+// Project of the domain, or null. Saves pass create to start a project for an analysed
+// domain; loads don't, and domains without a project are looked up again next time.
+export const resolveProject = async (
+  domain: string | undefined,
+  locationCode: number,
+  create = false
+): Promise<string | null> => {
+  if (!domain) return null;
+  const key = projectKey(domain, locationCode);
+  if (projectIds.has(key)) return projectIds.get(key)!;
+  if (creating.has(key)) return creating.get(key)!;
+
+  try {
+    const [project] = await findProjects(domain, locationCode);
+    if (project) {
+      projectIds.set(key, project.id);
+      return project.id;
+    }
+  } catch (error) {
+    console.error('Project lookup failed, keeping analyses local:', error);
+    projectIds.set(key, null);
+    return null;
+  }
+
+  if (!create) return null;
+  // Another save may have started the project while this one looked it up
+  if (projectIds.has(key)) return projectIds.get(key)!;
+  if (creating.has(key)) return creating.get(key)!;
+
+  const pending = createProjectInAPI({ name: domain, domain, locationCode })
+    .then(project => {
+      projectIds.set(key, project.id);
+      return project.id;
+    })
+    .catch(error => {
+      console.error('Failed to create project, keeping analyses local:', error);
+      return null;
+    })
+    .finally(() => creating.delete(key));
+  creating.set(key, pending);
+  return pending;
+};
+
+// The project's saved analysis of the channel, or null
+export const loadChannelAnalysis = async <T>(
+  domain: string | undefined,
+  locationCode: number,
+  channel: AnalysisChannel
+): Promise<T | null> => {
+  const projectId = await resolveProject(domain, locationCode);
+  if (!projectId) return null;
+
+  try {
+    return (await getChannelAnalysis<T>(projectId, channel))?.data ?? null;
+  } catch (error) {
+    console.error(`Failed to load ${channel} analysis:`, error);
+    return null;
+  }
+};
+
+export const storeChannelAnalysis = async <T>(
+  domain: string | undefined,
+  locationCode: number,
+  channel: AnalysisChannel,
+  data: T
+): Promise<void> => {
+  const projectId = await resolveProject(domain, locationCode, true);
+  if (!projectId) return;
+
+  try {
+    await saveChannelAnalysis(projectId, channel, data);
+  } catch (error) {
+    console.error(`Failed to save ${channel} analysis:`, error);
+  }
+};
+
+export const removeChannelAnalysis = async (
+  domain: string | undefined,
+  locationCode: number,
+  channel: AnalysisChannel
+): Promise<void> => {
+  const projectId = await resolveProject(domain, locationCode);
+  if (!projectId) return;
+
+  try {
+    await deleteChannelAnalysis(projectId, channel);
+  } catch (error) {
+    console.error(`Failed to delete ${channel} analysis:`, error);
+  }
+};
+
+// The setup the project analyses the channel with, or null
+export const loadChannelConfig = async <T>(
+  domain: string | undefined,
+  locationCode: number,
+  channel: AnalysisChannel
+): Promise<T | null> => {
+  const projectId = await resolveProject(domain, locationCode);
+  if (!projectId) return null;
+
+  try {
+    return await getChannelConfig<T>(projectId, channel);
+  } catch (error) {
+    console.error(`Failed to load ${channel} settings:`, error);
+    return null;
+  }
+};
+
+export const storeChannelConfig = async <T>(
+  domain: string | undefined,
+  locationCode: number,
+  channel: AnalysisChannel,
+  config: T
+): Promise<void> => {
+  const projectId = await resolveProject(domain, locationCode, true);
+  if (!projectId) return;
+
+  try {
+    await saveChannelConfig(projectId, channel, config);
+  } catch (error) {
+    console.error(`Failed to save ${channel} settings:`, error);
+  }
+};
+
+// Ids of the items dismissed on the project, or null without a project
+export const loadDismissedItems = async (
+  domain: string | undefined,
+  locationCode: number,
+  channel: AnalysisChannel
+): Promise<string[] | null> => {
+  const projectId = await resolveProject(domain, locationCode);
+  if (!projectId) return null;
+
+  try {
+    return (await getDismissedItems(projectId, channel)).map(item => item.itemId);
+  } catch (error) {
+    console.error(`Failed to load dismissed ${channel} items:`, error);
+    return null;
+  }
+};
+
+export const storeDismissedItem = async (
+  domain: string | undefined,
+  locationCode: number,
+  channel: AnalysisChannel,
+  itemId: string,
+  label?: string
+): Promise<void> => {
+  const projectId = await resolveProject(domain, locationCode, true);
+  if (!projectId) return;
+
+  try {
+    await dismissItem(projectId, channel, itemId, label);
+  } catch (error) {
+    console.error(`Failed to dismiss ${channel} item:`, error);
+  }
+};
+
+// Restores one item, or all of the channel's items without an itemId
+export const removeDismissedItems = async (
+  domain: string | undefined,
+  locationCode: number,
+  channel: AnalysisChannel,
+  itemId?: string
+): Promise<void> => {
+  const projectId = await resolveProject(domain, locationCode);
+  if (!projectId) return;
+
+  try {
+    await restoreDismissedItems(projectId, channel, itemId);
+  } catch (error) {
+    console.error(`Failed to restore ${channel} items:`, error);
+  }
+};
+
+export const loadProjectContext = async (
+  domain: string | undefined,
+  locationCode: number
+): Promise<ProjectContext | null> => {
+  const projectId = await resolveProject(domain, locationCode);
+  if (!projectId) return null;
+
+  try {
+    return await getProjectContext(projectId);
+  } catch (error) {
+    console.error('Failed to load project context:', error);
+    return null;
+  }
+};
+
+export const storeProjectContext = async (
+  domain: string | undefined,
+  locationCode: number,
+  update: { brandName?: string; competitors?: string[]; brandContext?: BrandContext }
+): Promise<void> => {
+  const projectId = await resolveProject(domain, locationCode, true);
+  if (!projectId) return;
+
+  try {
+    await updateProjectContext(projectId, update);
+  } catch (error) {
+    console.error('Failed to save project context:', error);
+  }
+};
+
+// Insights are generated locally from the analysis; the project keeps the latest ones
+export const storeProjectInsights = async (
+  domain: string | undefined,
+  locationCode: number,
+  insights: ActionableInsights
+): Promise<void> => {
+  const projectId = await resolveProject(domain, locationCode, true);
+  if (!projectId) return;
+
+  try {
+    await saveProjectInsights(projectId, insights);
+  } catch (error) {
+    console.error('Failed to save insights:', error);
+  }
+};
@@ -0,0 +1,42 @@
+import type { RankingScenario } from '../types';
+
+const STORAGE_KEY = 'ranking-scenarios';
+
+// Scenarios change positions in one market's rankings, so they are kept per domain and market
+const toKey = (domain: string, locationCode: number): string =>
+  `${domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').trim()}|${locationCode}`;
+
+const readAll = (): Record<string, RankingScenario[]> => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? JSON.parse(data) as Record<string, RankingScenario[]> : {};
+  } catch (error) {
+    console.error('Failed to load ranking scenarios:', error);
+    return {};
+  }
+};
+
+// Get the saved scenarios for a domain and market
+export const getScenarios = (domain: string, locationCode: number): RankingScenario[] => {
+  if (!domain) return [];
+  return readAll()[toKey(domain, locationCode)] || [];
+};
+
+// Save the scenarios for a domain and market; an empty list removes them
+export const saveScenarios = (domain: string, locationCode: number, scenarios: RankingScenario[]): RankingScenario[] => {
+  if (!domain) return scenarios;
+  const all = readAll();
+  if (scenarios.length > 0) {
+    all[toKey(domain, locationCode)] = scenarios;
+  } else {
+    delete all[toKey(domain, locationCode)];
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error('Failed to save ranking scenarios:', error);
+  }
+
+  return scenarios;
+};
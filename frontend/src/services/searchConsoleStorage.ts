@@ -0,0 +1,46 @@
+import type { SearchConsoleImport } from '../types';
+
+const STORAGE_KEY = 'search-console-imports';
+
+// A Search Console property covers one site, and clicks differ by country, so imports are kept per domain and market
+const toKey = (domain: string, locationCode: number): string =>
+  `${domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').trim()}|${locationCode}`;
+
+const readAll = (): Record<string, SearchConsoleImport> => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? JSON.parse(data) as Record<string, SearchConsoleImport> : {};
+  } catch (error) {
+    console.error('Failed to load Search Console imports:', error);
+    return {};
+  }
+};
+
+// Get the Search Console import for a domain and market
+export const getSearchConsoleImport = (domain: string, locationCode: number): SearchConsoleImport | null => {
+  if (!domain) return null;
+  return readAll()[toKey(domain, locationCode)] || null;
+};
+
+// Save the import for a domain and market, replacing any earlier one; null removes it
+export const saveSearchConsoleImport = (
+  domain: string,
+  locationCode: number,
+  data: SearchConsoleImport | null
+): SearchConsoleImport | null => {
+  if (!domain) return data;
+  const all = readAll();
+  if (data) {
+    all[toKey(domain, locationCode)] = data;
+  } else {
+    delete all[toKey(domain, locationCode)];
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error('Failed to save Search Console import:', error);
+  }
+
+  return data;
+};
@@ -0,0 +1,41 @@
+import type { CategoryRule } from '../types';
+
+const STORAGE_KEY = 'category-taxonomies';
+
+// Taxonomies are keyed by domain so every analysis of the same site shares one
+const toKey = (domain: string): string => domain.toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').trim();
+
+const readAll = (): Record<string, CategoryRule[]> => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? JSON.parse(data) as Record<string, CategoryRule[]> : {};
+  } catch (error) {
+    console.error('Failed to load category taxonomies:', error);
+    return {};
+  }
+};
+
+// Get the category rules for a project's domain (empty = built-in detection)
+export const getCategoryRules = (domain: string): CategoryRule[] => {
+  if (!domain) return [];
+  return readAll()[toKey(domain)] || [];
+};
+
+// Save the category rules for a project's domain; an empty list removes the taxonomy
+export const saveCategoryRules = (domain: string, rules: CategoryRule[]): CategoryRule[] => {
+  if (!domain) return rules;
+  const all = readAll();
+  if (rules.length > 0) {
+    all[toKey(domain)] = rules;
+  } else {
+    delete all[toKey(domain)];
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error('Failed to save category taxonomy:', error);
+  }
+
+  return rules;
+};
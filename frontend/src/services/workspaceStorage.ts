@@ -0,0 +1,64 @@
+import { DEFAULT_WORKSPACE_ID, WORKSPACE_ID_PATTERN } from '../config';
+
+const STORAGE_KEY = 'workspace-id';
+const TOKEN_KEY_PREFIX = 'workspace-token:';
+
+// Workspace the API resolves credentials for; sent with every request as X-Workspace-Id
+export const getWorkspaceId = (): string => {
+  try {
+    const id = localStorage.getItem(STORAGE_KEY);
+    return id && WORKSPACE_ID_PATTERN.test(id) ? id : DEFAULT_WORKSPACE_ID;
+  } catch (error) {
+    console.error('Failed to load workspace:', error);
+    return DEFAULT_WORKSPACE_ID;
+  }
+};
+
+// Switch workspace; an empty or invalid id returns to the default workspace
+export const saveWorkspaceId = (id: string): string => {
+  const cleaned = id.toLowerCase().trim();
+  const workspaceId = WORKSPACE_ID_PATTERN.test(cleaned) ? cleaned : DEFAULT_WORKSPACE_ID;
+
+  try {
+    if (workspaceId === DEFAULT_WORKSPACE_ID) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, workspaceId);
+    }
+  } catch (error) {
+    console.error('Failed to save workspace:', error);
+  }
+
+  return workspaceId;
+};
+
+
+// Admin or workspace token, kept per workspace; null when none was entered
+export const getWorkspaceToken = (workspaceId: string = getWorkspaceId()): string | null => {
+  try {
+    return localStorage.getItem(`${TOKEN_KEY_PREFIX}${workspaceId}`);
+  } catch (error) {
+    console.error('Failed to load workspace token:', error);
+    return null;
+  }
+};
+
+// An empty token forgets the stored one
+export const saveWorkspaceToken = (token: string, workspaceId: string = getWorkspaceId()): void => {
+  try {
+    if (token.trim()) {
+      localStorage.setItem(`${TOKEN_KEY_PREFIX}${workspaceId}`, token.trim());
+    } else {
+      localStorage.removeItem(`${TOKEN_KEY_PREFIX}${workspaceId}`);
+    }
+  } catch (error) {
+    console.error('Failed to save workspace token:', error);
+  }
+};
+
+// Sent with every API request; a workspace other than the default one is refused without its token
+export const getWorkspaceHeaders = (): Record<string, string> => {
+  const workspaceId = getWorkspaceId();
+  const token = getWorkspaceToken(workspaceId);
+  return { 'X-Workspace-Id': workspaceId, ...(token ? { Authorization: `Bearer ${token}` } : {}) };
+};
@@ -1,3 +1,5 @@
+import type { SerpFeatures, CTRCurveDefinition, CTRModelUsage, SOSResult, GrowthGapResult, VisibilityIndexResult } from '../../shared/types';
+
 export interface BrandKeyword {
   keyword: string;
   searchVolume: number;
@@ -5,19 +7,6 @@ export interface BrandKeyword {
   isDiscarded?: boolean; // User can discard keywords from calculations
 }
 
-// Brand Context - Understanding the brand's industry and vertical
-export interface BrandContext {
-  brandName: string;
-  industry: string;
-  vertical: string;
-  productCategories: string[];
-  targetAudience: string;
-  competitorContext: string;
-  keyStrengths: string[];
-  marketPosition: string;
-  seoFocus: string[];
-}
-
 export interface RankedKeyword {
   keyword: string;
   searchVolume: number;
@@ -29,13 +18,92 @@ export interface RankedKeyword {
   categoryIds?: number[]; // Raw category IDs from DataForSEO
   keywordDifficulty?: number; // 0-100 scale (from DataForSEO)
   trend?: number; // YoY volume change percentage
+  serpFeatures?: SerpFeatures; // SERP features shown above/around organic results
+  actualClicks?: number; // Monthly clicks from a Search Console import; replaces the CTR estimate
   isDiscarded?: boolean; // User can discard keywords from calculations
 }
 
-export interface SOSResult {
-  shareOfSearch: number;
-  brandVolume: number;
-  totalBrandVolume: number;
+// Core calculation types shared with the API routes
+export type {
+  SerpFeatures,
+  CTRModelUsage,
+  SOSResult,
+  GrowthGapResult,
+  CacheInfo,
+  ApiCostSummary,
+  KeywordMatrixRow,
+  CompetitiveDomainShare,
+  KeywordOverlapRegion,
+  CompetitiveLandscape,
+  ContentGap,
+  ContentGapKeyword,
+  KeywordCluster,
+  CredentialProvider,
+  CredentialSecrets,
+  CredentialSummary,
+  CredentialAccess,
+  BrandVariantKind,
+  BrandVariantStatus,
+  BrandVariant,
+  BrandVariantSet,
+  BrandVariantReview,
+  MonthlyVolume,
+  BrandKeywordHistory,
+  SOSVariant,
+  MonthlySOSPoint,
+  SOSWindowSummary,
+  BrandVolumeSeries,
+  SeasonalSOSResult,
+  ForecastMethod,
+  SOSForecastPoint,
+  BrandSOSForecast,
+  SOSOvertake,
+  SOSForecastResult,
+  SMTPSettings,
+  AlertMetric,
+  AlertRuleType,
+  AlertDirection,
+  AlertChannel,
+  AlertRuleInput,
+  AlertRule,
+  MetricPoint,
+  AlertDelivery,
+  AlertStatus,
+  AlertItem,
+  VisibilityPanelKeyword,
+  VisibilityPanel,
+  VisibilityPanelSummary,
+  VisibilityIndexResult,
+  WatchedKeyword,
+  RankCheck,
+  RankHistoryPoint,
+  RankMover,
+  RankMovers,
+  TrackedSOVPoint,
+  SerpFeatureType,
+  SerpFeatureSlot,
+  SerpFeatureCheck,
+  SerpFeatureShare,
+  SerpFeatureOpportunity,
+  RankTrackingData,
+  AnswerSentiment,
+  AnswerEnginePrompt,
+  AnswerBrandMention,
+  AnswerEngineResult,
+  AIBrandVisibility,
+  AIVisibilityResponse,
+  AnalysisChannel,
+  BrandContext,
+  ProjectContext,
+  SavedChannelAnalysis,
+  SavedProjectInsights,
+  DismissedItem
+} from '../../shared/types';
+
+// Named CTR curve used to turn positions into estimated clicks
+export interface CTRModel extends CTRCurveDefinition {
+  description?: string;
+  source: 'builtin' | 'custom';
 }
 
 export interface SOVResult {
@@ -43,11 +111,7 @@ export interface SOVResult {
   visibleVolume: number;
   totalMarketVolume: number;
   keywordBreakdown: RankedKeyword[];
-}
-
-export interface GrowthGapResult {
-  gap: number;
-  interpretation: 'growth_potential' | 'missing_opportunities' | 'balanced';
+  ctrModel?: CTRModelUsage; // Missing on analyses saved before CTR models existed
 }
 
 export interface CalculateResponse {
@@ -74,6 +138,7 @@ export interface Project {
   sos: SOSResult;
   sov: SOVResult;
   gap: GrowthGapResult;
+  visibility?: VisibilityIndexResult | null; // Missing on projects saved before the visibility index
   brandKeywords: BrandKeyword[];
   rankedKeywords: RankedKeyword[];
 }
@@ -105,6 +170,8 @@ export interface QuickWinOpportunity {
   category?: string;
   isDiscarded?: boolean; // User can dismiss irrelevant quick wins
   reasoning?: string; // Detailed explanation of why this is a quick win
+  revenueUplift?: number; // Monthly revenue from the click uplift, when conversion data is set
+  conversionRate?: number; // Percent, from the ranking page or the project default
 }
 
 // Category SOV Breakdown
@@ -171,6 +238,7 @@ export interface ActionItem {
   impact: 'high' | 'medium' | 'low';
   effort: 'low' | 'medium' | 'high';
   estimatedUplift: number;
+  estimatedRevenue?: number; // Monthly revenue from estimatedUplift, when conversion data is set
   reasoning: string;
   isDiscarded?: boolean; // User can dismiss actions
   detailedSteps?: string[]; // Step-by-step implementation guide
@@ -186,6 +254,7 @@ export interface HiddenGem {
   category?: string;
   opportunity: 'first-mover' | 'easy-win' | 'rising-trend';
   potentialClicks: number;
+  potentialRevenue?: number; // Monthly revenue at the target position, when conversion data is set
   reasoning: string;
 }
 
@@ -202,17 +271,6 @@ export interface CannibalizationIssue {
   impactScore: number; // How much traffic is being lost
 }
 
-// Content Gap - Topics where competitors have coverage you don't
-export interface ContentGap {
-  topic: string;
-  category: string;
-  yourCoverage: number; // Number of pages
-  avgCompetitorCoverage: number;
-  totalVolume: number;
-  topMissingKeywords: string[];
-  priority: 'high' | 'medium' | 'low';
-}
-
 // Full Actionable Insights Data
 export interface ActionableInsights {
   quickWins: QuickWinOpportunity[];
@@ -221,10 +279,10 @@ export interface ActionableInsights {
   actionList: ActionItem[];
   hiddenGems: HiddenGem[];
   cannibalizationIssues: CannibalizationIssue[];
-  contentGaps: ContentGap[];
   opportunities: Opportunity[]; // Unified opportunities list
   summary: {
     totalQuickWinPotential: number;
+    totalQuickWinRevenue?: number;
     strongCategories: number;
     weakCategories: number;
     hiddenGemsCount: number;
@@ -248,6 +306,7 @@ export interface Opportunity {
   priority: number;  // 1-100, used for sorting
   searchVolume: number;
   clickPotential: number;  // Estimated click uplift
+  revenuePotential?: number;  // Monthly revenue from clickPotential, when conversion data is set
   effort: 'low' | 'medium' | 'high';
   reasoning: string;  // AI-generated, keyword-specific explanation
   isLoading?: boolean;  // True while AI is generating reasoning
@@ -259,8 +318,359 @@ export interface Opportunity {
   keywordDifficulty?: number;
   category?: string;
   url?: string;
+  cluster?: string; // Pillar keyword of the topic cluster this keyword belongs to
 
   // For cannibalization
   competingUrls?: { url: string; position: number }[];
   recommendation?: 'consolidate' | 'differentiate' | 'redirect';
 }
+
+// ==========================================
+// HISTORICAL SNAPSHOT TYPES
+// ==========================================
+
+export type SnapshotFrequency = 'daily' | 'weekly';
+
+// A dated SOS/SOV capture stored by the snapshot scheduler
+export interface MetricSnapshot {
+  id: string;
+  source: 'scheduled' | 'manual';
+  capturedAt: string;
+  shareOfSearch: number;
+  brandVolume: number;
+  totalBrandVolume: number;
+  shareOfVoice: number;
+  visibleVolume: number;
+  totalMarketVolume: number;
+  gap: number;
+  interpretation: GrowthGapResult['interpretation'];
+  ctrModel?: CTRModelUsage | null;
+  // Only comparable between snapshots scored on the same panel version
+  visibilityIndex?: number | null;
+  visibilityPanelId?: string | null;
+  visibilityPanelVersion?: number | null;
+  brandKeywords?: BrandKeyword[];
+  rankedKeywords?: RankedKeyword[];
+}
+
+export interface SnapshotHistory {
+  projectId: string | null;
+  frequency: SnapshotFrequency | null;
+  snapshots: MetricSnapshot[];
+}
+
+// One point of the weekly SOS/SOV time series
+export interface WeeklySnapshotPoint {
+  weekStart: string; // ISO date (YYYY-MM-DD) of the Monday starting the week
+  shareOfSearch: number;
+  shareOfVoice: number;
+  gap: number;
+  snapshotCount: number;
+}
+
+// ==========================================
+// CATEGORY TAXONOMY TYPES
+// ==========================================
+
+// How a category rule matches a keyword
+export type CategoryRuleType = 'regex' | 'contains' | 'urlPrefix' | 'categoryId';
+
+// One rule of a project's category taxonomy - rules are checked in order, first match wins
+export interface CategoryRule {
+  id: string;
+  category: string;
+  type: CategoryRuleType;
+  pattern: string; // Regex source, substring, URL path prefix or DataForSEO category ID
+}
+
+// Keywords a rule captures in the preview (after earlier rules took theirs)
+export interface CategoryRuleMatch {
+  ruleId: string;
+  captured: number;
+  capturedVolume: number;
+  shadowed: number; // Keywords the rule matches that an earlier rule already captured
+}
+
+// ==========================================
+// MULTI-MARKET TYPES
+// ==========================================
+
+export interface MarketConfig {
+  locationCode: number;
+  locationName: string;
+  languageCode: string;
+}
+
+// One market's SOS/SOV pipeline result
+export interface MarketResult extends MarketConfig {
+  brandName: string;
+  shareOfSearch: number;
+  shareOfVoice: number;
+  gap: number;
+  brandVolume: number;
+  totalBrandVolume: number;
+  visibleVolume: number;
+  totalMarketVolume: number;
+  keywordCount: number;
+  topCategories: string[];
+  quickWinPotential: number; // Click uplift from all quick wins
+  error?: string; // Set when the pipeline failed for this market
+}
+
+// Volume-weighted totals across every successful market
+export interface GlobalMarketSummary {
+  shareOfSearch: number;
+  shareOfVoice: number;
+  gap: number;
+  visibleVolume: number;
+  totalMarketVolume: number;
+  marketCount: number;
+}
+
+export interface MultiMarketAnalysis {
+  domain: string;
+  markets: MarketResult[];
+  global: GlobalMarketSummary;
+  completedAt: string;
+}
+
+// ==========================================
+// MARKET SHARE MODEL TYPES
+// ==========================================
+
+// One actual market share figure, e.g. from a retail panel or an annual report
+export interface MarketShareEntry {
+  id: string;
+  brand: string;
+  period: string; // YYYY-MM, or YYYY for an annual figure
+  marketShare: number; // %
+}
+
+// Market data entered for a project
+export interface MarketShareData {
+  entries: MarketShareEntry[];
+  shareOfVoice: Record<string, number>; // Entered SOV in % by brand, your own included
+}
+
+// A market share figure paired with the brand's Share of Search for the same period
+export interface MarketShareObservation {
+  brand: string;
+  period: string;
+  marketShare: number;
+  shareOfSearch: number;
+}
+
+// Least-squares fit of market share on Share of Search
+export interface ShareRegressionFit {
+  slope: number; // Market share points per SOS point
+  intercept: number;
+  rSquared: number;
+  rmse: number; // Typical prediction error in market share points
+  slopeStandardError: number;
+  observations: number;
+  brands: number;
+  periods: number;
+}
+
+export type FitQuality = 'strong' | 'moderate' | 'weak' | 'insufficient';
+
+// Excess Share of Voice for one brand and the share growth it predicts
+export interface BrandESOV {
+  brand: string;
+  isOwnBrand: boolean;
+  shareOfVoice: number | null;
+  marketShare: number | null; // Latest entered figure
+  esov: number | null; // SOV - market share
+  expectedShareChange: number | null; // Market share points per year
+}
+
+export interface ShareTrajectoryPoint {
+  period: string; // YYYY-MM
+  actual: number | null; // Entered market share
+  fitted: number | null; // Regression applied to that month's SOS
+  projected: number | null; // ESOV-driven projection beyond the SOS history
+}
+
+// ==========================================
+// SCENARIO TYPES
+// ==========================================
+
+export type ScenarioTargetType = 'keyword' | 'category' | 'urlFolder';
+
+// 'position' moves matching keywords to a fixed rank; 'gain' moves them up by that many places
+export type ScenarioAdjustmentMode = 'position' | 'gain';
+
+// One "what if" change; later adjustments override earlier ones for the same keyword
+export interface ScenarioAdjustment {
+  id: string;
+  target: ScenarioTargetType;
+  value: string; // Keyword, category name or URL folder (e.g. /skincare)
+  mode: ScenarioAdjustmentMode;
+  amount: number;
+}
+
+export interface RankingScenario {
+  id: string;
+  name: string;
+  adjustments: ScenarioAdjustment[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScenarioKeywordResult {
+  keyword: string;
+  searchVolume: number;
+  url?: string;
+  category: string;
+  basePosition: number;
+  position: number;
+  baseClicks: number; // Estimated monthly clicks at the current position
+  clicks: number;
+}
+
+// SOV and Growth Gap with a scenario's positions applied
+export interface ScenarioResult {
+  shareOfVoice: number;
+  visibleVolume: number;
+  totalMarketVolume: number;
+  gap: GrowthGapResult;
+  clickChange: number; // Monthly clicks vs. current rankings
+  changedKeywords: ScenarioKeywordResult[]; // Keywords whose position moved, biggest click change first
+}
+
+// ==========================================
+// SEARCH CONSOLE TYPES
+// ==========================================
+
+// One row of a Search Console performance export; page is missing in query-only exports
+export interface SearchConsoleRow {
+  query: string;
+  page?: string;
+  clicks: number;
+  impressions: number;
+  position: number; // Average position over the export period
+}
+
+// Export uploaded for one domain and market
+export interface SearchConsoleImport {
+  fileName: string;
+  importedAt: string;
+  periodDays: number; // Length of the export's date range, used to scale clicks to a month
+  excludeBranded: boolean; // Leave brand queries out of the CTR calibration
+  rows: SearchConsoleRow[];
+}
+
+// Actual vs modelled CTR at one rounded position
+export interface CTRCalibrationPoint {
+  position: number;
+  impressions: number;
+  clicks: number;
+  actualCTR: number | null; // Null without enough impressions to be meaningful
+  modelledCTR: number;
+  fittedCTR: number;
+}
+
+export interface CTRCalibrationReport {
+  points: CTRCalibrationPoint[];
+  queryCount: number; // Queries the calibration used
+  reliablePositions: number; // Positions with enough impressions to trust their CTR
+  scale: number; // Actual clicks ÷ modelled clicks over the reliable positions
+}
+
+// ==========================================
+// CONVERSION TYPES
+// ==========================================
+
+// Landing-page totals from an analytics export
+export interface LandingPageConversions {
+  path: string; // Normalized URL path, e.g. /naturkosmetik
+  sessions: number;
+  conversions: number;
+  revenue?: number; // Missing for exports without a revenue column, e.g. lead-gen sites
+}
+
+// Analytics export and fallback rates for one domain and market
+export interface ConversionData {
+  fileName: string | null; // Null when only the default rates are set
+  importedAt: string | null;
+  pages: LandingPageConversions[];
+  defaultConversionRate: number; // Percent, for ranking pages without enough sessions in the export
+  defaultOrderValue: number; // Revenue per conversion, for the same pages
+  currency: string; // ISO code, for display only
+}
+
+// What a click on one ranking page is worth
+export interface PageConversionRates {
+  conversionRate: number; // Percent
+  orderValue: number;
+  revenuePerClick: number;
+  source: 'page' | 'default';
+}
+
+// A page that ranked keywords point to, with the rates its clicks are valued at
+export interface RankingPageValue {
+  path: string;
+  keywordCount: number;
+  rates: PageConversionRates;
+}
+
+export interface RevenueModel {
+  getRates: (url?: string) => PageConversionRates;
+  averageRevenuePerClick: number; // Session-weighted over the pages with data, or the default rate without any
+}
+
+// ==========================================
+// KEYWORD IMPORT TYPES
+// ==========================================
+
+// Keyword fields a rank-tracker export can fill
+export type KeywordImportField = 'keyword' | 'searchVolume' | 'position' | 'url' | 'keywordDifficulty';
+
+// Header names a tool uses for each field, lowercase
+export interface KeywordImportPreset {
+  id: string;
+  name: string;
+  columns: Record<KeywordImportField, string[]>;
+}
+
+// Column index per field, -1 when the export has no such column
+export type KeywordColumnMapping = Record<KeywordImportField, number>;
+
+export interface KeywordExportTable {
+  headers: string[];
+  rows: string[][];
+  decimalComma: boolean; // Semicolon-separated exports write 4,5 for 4.5
+}
+
+export type KeywordImportIssueType =
+  | 'missing-keyword'
+  | 'missing-volume'
+  | 'position-out-of-range'
+  | 'duplicate'
+  | 'over-limit';
+
+export interface KeywordImportIssue {
+  type: KeywordImportIssueType;
+  row?: number; // Line in the file; missing for issues about the whole import
+  keyword?: string;
+  message: string;
+}
+
+// Keywords that passed validation, and why the other rows were left out
+export interface KeywordImportResult<T> {
+  keywords: T[];
+  issues: KeywordImportIssue[];
+  totalRows: number;
+}
+
+// Everything needed to create a project from imported keyword data
+export interface KeywordImportConfig {
+  domain: string;
+  brandName: string;
+  locationCode: number;
+  locationName: string;
+  languageCode: string;
+  competitors: string[];
+  brandKeywords: BrandKeyword[];
+  rankedKeywords: RankedKeyword[];
+}